@@ -0,0 +1,59 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Console\Commands;
+
+use App\Jobs\RunGoogleCalendarSync;
+use App\Models\GoogleCalendarSyncConfig;
+use App\Services\GoogleCalendarService;
+use App\Services\GoogleCalendarSyncService;
+use Illuminate\Console\Command;
+
+class SyncGoogleCalendars extends Command
+{
+    /**
+     * The name and signature of the console command.
+     */
+    protected $signature = 'gcal:sync
+                            {--config= : Sync only this config, even if it is not due}
+                            {--inline : Run in this process instead of queuing}';
+
+    /**
+     * The console command description.
+     */
+    protected $description = 'Run the incremental two-way sync of Google Calendar sync configs that are due';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(GoogleCalendarService $googleCalendarService, GoogleCalendarSyncService $syncService): int
+    {
+        if (!$googleCalendarService->isSyncEnabled()) {
+            $this->warn('Google Calendar sync is disabled');
+            return Command::SUCCESS;
+        }
+
+        $configs = $this->option('config')
+            ? GoogleCalendarSyncConfig::whereKey($this->option('config'))->where('sync_enabled', true)->get()
+            : GoogleCalendarSyncConfig::dueForSync()->get();
+
+        if ($configs->isEmpty()) {
+            $this->line('No sync configs are due');
+            return Command::SUCCESS;
+        }
+
+        foreach ($configs as $config) {
+            if (!$this->option('inline')) {
+                RunGoogleCalendarSync::dispatch($config)->onQueue('gcal-sync');
+                $this->line("Queued sync of {$config->name}");
+                continue;
+            }
+
+            $log = $syncService->sync($config);
+            $this->line("{$config->name}: {$log->status} ({$log->events_created} created, {$log->events_updated} updated, {$log->events_failed} failed)");
+        }
+
+        return Command::SUCCESS;
+    }
+}
@@ -10,6 +10,7 @@
 use App\Models\GoogleCalendarSyncLog;
 use App\Services\GoogleCalendarImportService;
 use App\Services\GoogleCalendarService;
+use App\Services\GoogleCalendarSyncService;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Log;
@@ -19,7 +20,8 @@ class GoogleCalendarSyncController extends Controller
 {
     public function __construct(
         private GoogleCalendarService $googleCalendarService,
-        private GoogleCalendarImportService $importService
+        private GoogleCalendarImportService $importService,
+        private GoogleCalendarSyncService $syncService
     ) {
     }
 
@@ -49,8 +51,10 @@ public function store(Request $request): JsonResponse
             'room_id' => 'nullable|exists:rooms,id',
             'sync_enabled' => 'boolean',
             'sync_direction' => 'required|in:import,export,both',
+            'sync_interval_minutes' => 'integer|min:5|max:1440',
             'service_account_json' => 'nullable|string',
             'sync_options' => 'nullable|array',
+            ...$this->syncOptionsRules(),
         ]);
 
         if ($validator->fails()) {
@@ -87,8 +91,10 @@ public function update(Request $request, int $id): JsonResponse
             'room_id' => 'nullable|exists:rooms,id',
             'sync_enabled' => 'boolean',
             'sync_direction' => 'sometimes|in:import,export,both',
+            'sync_interval_minutes' => 'integer|min:5|max:1440',
             'service_account_json' => 'nullable|string',
             'sync_options' => 'nullable|array',
+            ...$this->syncOptionsRules(),
         ]);
 
         if ($validator->fails()) {
@@ -98,7 +104,20 @@ public function update(Request $request, int $id): JsonResponse
             ], 422);
         }
 
-        $config->update($validator->validated());
+        $config->fill($validator->validated());
+
+        // A different calendar starts over with a full pull
+        if ($config->isDirty('google_calendar_id')) {
+            $config->sync_token = null;
+            $config->last_synced_at = null;
+        }
+
+        // Re-enabling or a new interval takes effect on the next scheduler tick
+        if ($config->isDirty(['sync_enabled', 'sync_interval_minutes'])) {
+            $config->next_sync_at = null;
+        }
+
+        $config->save();
 
         Log::info('Google Calendar sync config updated', [
             'config_id' => $config->id,
@@ -129,6 +148,38 @@ public function destroy(int $id): JsonResponse
         ]);
     }
 
+    /**
+     * Run the incremental two-way sync of a config now instead of waiting for the schedule.
+     */
+    public function syncNow(int $id): JsonResponse
+    {
+        $config = GoogleCalendarSyncConfig::findOrFail($id);
+
+        if (!$this->googleCalendarService->isSyncEnabled()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Google Calendar sync is disabled',
+            ], 403);
+        }
+
+        if (!$config->sync_enabled) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Sync is not enabled for this configuration',
+            ], 403);
+        }
+
+        $log = $this->syncService->sync($config);
+
+        return response()->json([
+            'success' => $log->status === 'completed',
+            'data' => $log,
+            'message' => $log->status === 'completed'
+                ? 'Sync completed successfully'
+                : 'Sync failed: ' . $log->error_message,
+        ], $log->status === 'completed' ? 200 : 502);
+    }
+
     /**
      * Import events from Google Calendar.
      */
@@ -140,6 +191,7 @@ public function import(Request $request): JsonResponse
             'end_date' => 'required|date|after_or_equal:start_date',
             'room_id' => 'nullable|exists:rooms,id',
             'auto_resolve_conflicts' => 'boolean',
+            'conflict_resolution' => 'nullable|in:' . implode(',', GoogleCalendarImportService::RESOLUTIONS),
         ]);
 
         if ($validator->fails()) {
@@ -168,7 +220,8 @@ public function import(Request $request): JsonResponse
                 $startDate,
                 $endDate,
                 $request->room_id,
-                $autoResolve
+                $autoResolve,
+                $request->conflict_resolution
             );
 
             $response = [
@@ -352,7 +405,7 @@ public function resolveConflicts(Request $request, int $logId): JsonResponse
     {
         $validator = Validator::make($request->all(), [
             'resolutions' => 'required|array',
-            'resolutions.*' => 'required|in:overwrite,skip',
+            'resolutions.*' => 'required|in:' . implode(',', GoogleCalendarImportService::RESOLUTIONS),
         ]);
 
         if ($validator->fails()) {
@@ -371,10 +424,10 @@ public function resolveConflicts(Request $request, int $logId): JsonResponse
             ], 400);
         }
 
-        if ($log->operation !== 'import') {
+        if (!in_array($log->operation, ['import', 'sync'], true)) {
             return response()->json([
                 'success' => false,
-                'message' => 'Only import logs can have conflicts',
+                'message' => 'Only import and sync logs can have conflicts',
             ], 400);
         }
 
@@ -467,4 +520,19 @@ public function cancelSync(int $logId): JsonResponse
             'message' => 'Sync operation cancelled',
         ]);
     }
+
+    /**
+     * Validation of the import rules and default conflict resolution kept in sync_options
+     */
+    private function syncOptionsRules(): array
+    {
+        return [
+            'sync_options.default_resolution' => 'nullable|in:' . implode(',', GoogleCalendarSyncConfig::UNATTENDED_RESOLUTIONS),
+            'sync_options.import_rules' => 'nullable|array|max:50',
+            'sync_options.import_rules.*.match' => 'required|in:' . implode(',', GoogleCalendarSyncConfig::RULE_MATCHES),
+            'sync_options.import_rules.*.pattern' => 'required|string|max:255',
+            'sync_options.import_rules.*.action' => 'required|in:' . implode(',', GoogleCalendarSyncConfig::RULE_ACTIONS),
+            'sync_options.import_rules.*.service_type_id' => 'nullable|required_if:sync_options.import_rules.*.action,service_type|exists:service_types,id',
+        ];
+    }
 }
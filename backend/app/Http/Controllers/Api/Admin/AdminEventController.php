@@ -10,6 +10,8 @@
 use App\Services\ConflictDetectionService;
 use App\Services\EventPricingService;
 use App\Services\NotificationService;
+use App\Services\RecurringEventService;
+use App\Services\StaffAvailabilityService;
 use App\Exceptions\ConflictException;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
@@ -20,7 +22,9 @@ class AdminEventController extends Controller
     public function __construct(
         private readonly ConflictDetectionService $conflictService,
         private readonly NotificationService $notificationService,
-        private readonly EventPricingService $pricingService
+        private readonly EventPricingService $pricingService,
+        private readonly RecurringEventService $recurringService,
+        private readonly StaffAvailabilityService $availabilityService
     ) {}
 
     /**
@@ -81,6 +85,7 @@ public function store(Request $request): JsonResponse
             'repeat_until' => 'required_if:is_recurring,true|nullable|date|after_or_equal:repeat_from',
             'skip_dates' => 'nullable|array',
             'skip_dates.*' => 'date',
+            'ignore_availability' => 'sometimes|boolean',
         ]);
 
         // Handle recurring events
@@ -97,6 +102,26 @@ public function store(Request $request): JsonResponse
      */
     private function storeSingle(Request $request, array $validated): JsonResponse
     {
+        // Warn about trainer absence / working hours and site opening hours (override with ignore_availability)
+        if (empty($validated['ignore_availability'])) {
+            $availabilityWarnings = $this->availabilityService->check(
+                (int) $validated['staff_id'],
+                (int) $validated['room_id'],
+                \Carbon\Carbon::parse($validated['starts_at']),
+                \Carbon\Carbon::parse($validated['ends_at'])
+            );
+
+            if (!empty($availabilityWarnings)) {
+                return ApiResponse::conflict(
+                    'Az esemény az edző elérhetőségén vagy a helyszín nyitvatartásán kívül esik. Biztosan létre szeretnéd hozni?',
+                    [
+                        'availability_warnings' => $availabilityWarnings,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
         try {
             return DB::transaction(function () use ($request, $validated) {
                 // Check for conflicts
@@ -129,7 +154,8 @@ private function storeSingle(Request $request, array $validated): JsonResponse
                     if (!empty($validated['client_id']) && (int) $validated['client_id'] > 0) {
                         $mainClientPricing = $this->pricingService->resolvePricingForClient(
                             (int) $validated['client_id'],
-                            $serviceTypeId
+                            $serviceTypeId,
+                            \Carbon\Carbon::parse($validated['starts_at'])
                         );
                         $eventData = array_merge($eventData, $mainClientPricing);
                     }
@@ -187,6 +213,7 @@ private function storeRecurring(Request $request, array $validated): JsonRespons
             'room_id' => $roomId,
             'notes' => $validated['notes'] ?? null,
             'status' => 'scheduled',
+            'recurring_group_id' => (string) \Illuminate\Support\Str::uuid(),
             'created_by' => $request->user()->id,
         ];
 
@@ -195,15 +222,6 @@ private function storeRecurring(Request $request, array $validated): JsonRespons
         if ($validated['type'] === 'INDIVIDUAL' && !empty($validated['service_type_id'])) {
             $serviceTypeId = (int) $validated['service_type_id'];
             $baseEventData['service_type_id'] = $serviceTypeId;
-
-            // Resolve pricing for main client
-            if (!empty($validated['client_id']) && (int) $validated['client_id'] > 0) {
-                $mainClientPricing = $this->pricingService->resolvePricingForClient(
-                    (int) $validated['client_id'],
-                    $serviceTypeId
-                );
-                $baseEventData = array_merge($baseEventData, $mainClientPricing);
-            }
         }
 
         $additionalClientIds = $validated['additional_client_ids'] ?? [];
@@ -255,6 +273,15 @@ private function storeRecurring(Request $request, array $validated): JsonRespons
                         'ends_at' => $eventEndsAt,
                     ]);
 
+                    // Resolve main client pricing per occurrence, a scheduled price change may fall within the series
+                    if ($serviceTypeId && !empty($baseEventData['client_id']) && (int) $baseEventData['client_id'] > 0) {
+                        $eventData = array_merge($eventData, $this->pricingService->resolvePricingForClient(
+                            (int) $baseEventData['client_id'],
+                            $serviceTypeId,
+                            $eventStartsAt
+                        ));
+                    }
+
                     $event = Event::create($eventData);
 
                     // Attach additional clients with pricing if provided
@@ -284,6 +311,7 @@ private function storeRecurring(Request $request, array $validated): JsonRespons
 
                 return ApiResponse::created([
                     'count' => count($createdEvents),
+                    'recurring_group_id' => $baseEventData['recurring_group_id'],
                     'events' => $createdEvents,
                     'skipped_dates' => $skippedDates,
                 ], $message);
@@ -395,7 +423,7 @@ private function attachAdditionalClientsWithPricing(Event $event, array $additio
 
                     // Add pricing if service type is set
                     if ($serviceTypeId) {
-                        $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId);
+                        $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId, $event->starts_at);
                         $pivotData = array_merge($pivotData, $pricing);
                     }
 
@@ -443,6 +471,8 @@ public function show(int $id): JsonResponse
      *
      * If there's a room/time conflict, returns 409 with conflict details.
      * To override the conflict, include force_override: true in the request.
+     * Times outside the trainer's availability or the site's opening hours are reported
+     * the same way with availability_warnings, override with ignore_availability: true.
      */
     public function update(Request $request, int $id): JsonResponse
     {
@@ -461,10 +491,14 @@ public function update(Request $request, int $id): JsonResponse
             'status' => 'sometimes|string|in:scheduled,completed,cancelled',
             'service_type_id' => 'sometimes|nullable|exists:service_types,id',
             'force_override' => 'sometimes|boolean',
+            'ignore_availability' => 'sometimes|boolean',
+            'notify_clients' => 'sometimes|boolean',
         ]);
 
         $forceOverride = $validated['force_override'] ?? false;
-        unset($validated['force_override']);
+        $ignoreAvailability = $validated['ignore_availability'] ?? false;
+        $notifyClients = $validated['notify_clients'] ?? false;
+        unset($validated['force_override'], $validated['ignore_availability'], $validated['notify_clients']);
 
         // Check for conflicts if time or room is being changed
         $isTimeOrRoomChanged = isset($validated['starts_at']) || isset($validated['ends_at']) || isset($validated['room_id']);
@@ -496,7 +530,28 @@ public function update(Request $request, int $id): JsonResponse
             }
         }
 
-        return DB::transaction(function () use ($event, $validated, $request) {
+        $isStaffChanged = array_key_exists('staff_id', $validated);
+
+        if (($isTimeOrRoomChanged || $isStaffChanged) && !$ignoreAvailability) {
+            $availabilityWarnings = $this->availabilityService->check(
+                $isStaffChanged ? ($validated['staff_id'] ? (int) $validated['staff_id'] : null) : $event->staff_id,
+                (int) ($validated['room_id'] ?? $event->room_id),
+                isset($validated['starts_at']) ? \Carbon\Carbon::parse($validated['starts_at']) : $event->starts_at,
+                isset($validated['ends_at']) ? \Carbon\Carbon::parse($validated['ends_at']) : $event->ends_at
+            );
+
+            if (!empty($availabilityWarnings)) {
+                return ApiResponse::conflict(
+                    'Az esemény az edző elérhetőségén vagy a helyszín nyitvatartásán kívül esik. Biztosan módosítani szeretnéd?',
+                    [
+                        'availability_warnings' => $availabilityWarnings,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
+        return DB::transaction(function () use ($event, $validated, $request, $notifyClients) {
             // Get the service type ID (from update or existing event)
             $serviceTypeId = isset($validated['service_type_id'])
                 ? (int) $validated['service_type_id']
@@ -511,7 +566,8 @@ public function update(Request $request, int $id): JsonResponse
                 if ($clientId && (int) $clientId > 0) {
                     $mainClientPricing = $this->pricingService->resolvePricingForClient(
                         (int) $clientId,
-                        $serviceTypeId
+                        $serviceTypeId,
+                        isset($validated['starts_at']) ? \Carbon\Carbon::parse($validated['starts_at']) : $event->starts_at
                     );
                     $validated = array_merge($validated, $mainClientPricing);
                 }
@@ -539,7 +595,7 @@ public function update(Request $request, int $id): JsonResponse
 
                             // Add pricing if service type is set
                             if ($serviceTypeId) {
-                                $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId);
+                                $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId, $event->starts_at);
                                 $pivotData = array_merge($pivotData, $pricing);
                             }
 
@@ -563,6 +619,11 @@ public function update(Request $request, int $id): JsonResponse
                 $event->additionalClients()->sync($syncData);
             }
 
+            // Notify the client when requested (e.g. admin cross-day move from the calendar)
+            if ($notifyClients) {
+                $this->notificationService->sendEventUpdate($event);
+            }
+
             $event->load(['client.user', 'additionalClients.user', 'staff.user', 'room', 'serviceType']);
 
             return ApiResponse::success($event, 'Event updated successfully');
@@ -583,4 +644,114 @@ public function destroy(int $id): JsonResponse
 
         return ApiResponse::success(null, 'Event deleted successfully');
     }
+
+    /**
+     * Update a recurring series (this / following / all events)
+     *
+     * PATCH /api/admin/events/recurring-group/{groupId}
+     *
+     * The time shift of the anchor event (event_id) is applied to every event
+     * in scope. Past events are only touched with include_past: true.
+     * Sessions moved outside the trainer's availability or the site's opening hours
+     * are reported with availability_warnings, override with ignore_availability: true.
+     */
+    public function updateGroup(Request $request, string $groupId): JsonResponse
+    {
+        $validated = $request->validate([
+            'event_id' => 'required|integer',
+            'scope' => 'required|string|in:' . implode(',', RecurringEventService::SCOPES),
+            'room_id' => 'sometimes|exists:rooms,id',
+            'starts_at' => 'sometimes|date',
+            'ends_at' => 'sometimes|date|after:starts_at',
+            'notes' => 'sometimes|nullable|string|max:1000',
+            'force_override' => 'sometimes|boolean',
+            'ignore_availability' => 'sometimes|boolean',
+            'include_past' => 'sometimes|boolean',
+        ]);
+
+        $anchor = Event::inRecurringGroup($groupId)->findOrFail($validated['event_id']);
+
+        $events = $this->recurringService->resolveScope(
+            $groupId,
+            $validated['scope'],
+            $anchor,
+            $validated['include_past'] ?? false
+        );
+
+        if ($events->isEmpty()) {
+            return ApiResponse::error('No upcoming events in this series', null, 404);
+        }
+
+        $plan = $this->recurringService->planChanges($events, $anchor, $validated);
+
+        if (!($validated['force_override'] ?? false)) {
+            $conflicts = $this->recurringService->detectConflicts($plan);
+
+            if (!empty($conflicts)) {
+                return ApiResponse::conflict(
+                    'Az esemény ütközik egy másik foglalással ebben a teremben. Biztosan módosítani szeretnéd?',
+                    [
+                        'conflicts' => $conflicts,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
+        // Same warning as a single event update, for every session of the series
+        if (!($validated['ignore_availability'] ?? false)) {
+            $availabilityWarnings = $this->recurringService->checkAvailability($events, $plan);
+
+            if (!empty($availabilityWarnings)) {
+                return ApiResponse::conflict(
+                    'Az esemény az edző elérhetőségén vagy a helyszín nyitvatartásán kívül esik. Biztosan módosítani szeretnéd?',
+                    [
+                        'availability_warnings' => $availabilityWarnings,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
+        $updated = $this->recurringService->updateEvents($events, $plan, $validated, $request->user());
+
+        return ApiResponse::success([
+            'count' => $updated->count(),
+            'events' => $updated->load(['client.user', 'additionalClients.user', 'staff.user', 'room', 'serviceType'])->values(),
+        ], $updated->count() . ' event(s) updated');
+    }
+
+    /**
+     * Delete a recurring series (this / following / all events)
+     *
+     * DELETE /api/admin/events/recurring-group/{groupId}?scope=following&event_id=123
+     */
+    public function destroyGroup(Request $request, string $groupId): JsonResponse
+    {
+        $validated = $request->validate([
+            'scope' => 'sometimes|string|in:' . implode(',', RecurringEventService::SCOPES),
+            'event_id' => 'required_unless:scope,all|nullable|integer',
+            'include_past' => 'sometimes|boolean',
+        ]);
+
+        $scope = $validated['scope'] ?? RecurringEventService::SCOPE_ALL;
+        $anchor = isset($validated['event_id'])
+            ? Event::inRecurringGroup($groupId)->findOrFail($validated['event_id'])
+            : null;
+
+        $events = $this->recurringService->resolveScope(
+            $groupId,
+            $scope,
+            $anchor,
+            $request->boolean('include_past')
+        );
+
+        if ($events->isEmpty()) {
+            return ApiResponse::error('No upcoming events in this series', null, 404);
+        }
+
+        $count = $this->recurringService->deleteEvents($events, $request->user());
+
+        return ApiResponse::success(['deleted_count' => $count], $count . ' event(s) deleted');
+    }
 }
@@ -6,7 +6,9 @@
 
 use App\Http\Controllers\Controller;
 use App\Http\Requests\Reports\AdminFinanceOverviewRequest;
+use App\Http\Requests\Reports\AdminRoomOccupancyRequest;
 use App\Http\Requests\Reports\AdminSiteClientListRequest;
+use App\Http\Requests\Reports\AdminTrainerSessionsRequest;
 use App\Http\Requests\Reports\AdminTrainerSummaryRequest;
 use App\Http\Responses\ApiResponse;
 use App\Services\ReportService;
@@ -82,7 +84,8 @@ public function siteClientList(AdminSiteClientListRequest $request): JsonRespons
      * GET /api/v1/reports/admin/finance-overview
      *
      * Generate financial overview with entry fees, trainer fees, and net income.
-     * Groups by month, week, or day.
+     * Groups by month, week, or day, with site/room/service type breakdowns and the
+     * totals of the previous period for comparison.
      */
     public function financeOverview(AdminFinanceOverviewRequest $request): JsonResponse
     {
@@ -105,4 +108,61 @@ public function financeOverview(AdminFinanceOverviewRequest $request): JsonRespo
             return ApiResponse::error('Failed to generate report', ['error' => $e->getMessage()], 500);
         }
     }
+
+    /**
+     * GET /api/v1/reports/admin/trainer-sessions
+     *
+     * List the charged 1:1 sessions and group classes of a trainer, optionally at one site.
+     * Used to drill down from the finance overview.
+     */
+    public function trainerSessions(AdminTrainerSessionsRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        try {
+            $report = $this->reportService->generateAdminTrainerSessions(
+                from: $validated['from'],
+                to: $validated['to'],
+                trainerId: (int) $validated['trainerId'],
+                siteId: isset($validated['site']) ? (int) $validated['site'] : null
+            );
+
+            return ApiResponse::success($report, 'Trainer sessions retrieved successfully');
+        } catch (\Exception $e) {
+            \Log::error('Failed to generate trainer sessions', [
+                'error' => $e->getMessage(),
+                'params' => $validated,
+            ]);
+
+            return ApiResponse::error('Failed to generate report', ['error' => $e->getMessage()], 500);
+        }
+    }
+
+    /**
+     * GET /api/v1/reports/admin/room-occupancy
+     *
+     * Room occupancy per weekday and hour, used by the occupancy heatmap.
+     */
+    public function roomOccupancy(AdminRoomOccupancyRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        try {
+            $report = $this->reportService->generateAdminRoomOccupancy(
+                from: $validated['from'],
+                to: $validated['to'],
+                siteId: isset($validated['site']) ? (int) $validated['site'] : null,
+                roomId: isset($validated['roomId']) ? (int) $validated['roomId'] : null
+            );
+
+            return ApiResponse::success($report, 'Room occupancy report generated successfully');
+        } catch (\Exception $e) {
+            \Log::error('Failed to generate room occupancy report', [
+                'error' => $e->getMessage(),
+                'params' => $validated,
+            ]);
+
+            return ApiResponse::error('Failed to generate report', ['error' => $e->getMessage()], 500);
+        }
+    }
 }
@@ -6,277 +6,123 @@
 
 use App\Http\Controllers\Controller;
 use App\Http\Responses\ApiResponse;
-use App\Models\Client;
-use App\Models\ClientPriceCode;
+use App\Models\ClientImportBatch;
 use App\Models\ServiceType;
-use App\Models\User;
+use App\Services\ClientImportService;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
-use Illuminate\Support\Facades\DB;
-use Illuminate\Support\Facades\Hash;
-use Illuminate\Support\Facades\Log;
-use Illuminate\Support\Str;
+use Illuminate\Validation\Rule;
 
 class ClientImportController extends Controller
 {
-    private const DEFAULT_EMAIL_DOMAIN = 'potoldazemailcimet.fontos.hu';
-    private const DEFAULT_PHONE = '0690555666';
+    public function __construct(
+        private readonly ClientImportService $importService
+    ) {}
 
     /**
-     * Import clients from CSV file.
+     * Read a CSV or spreadsheet into headers and rows, with a suggested column mapping.
+     * Nothing is stored: the mapped rows are sent back for the dry run and the import.
      *
-     * Expected CSV format (semicolon-separated):
-     * nev;email;tel;szolg;edzoi dij;belepo dij
-     *
-     * POST /api/admin/clients/import
+     * POST /api/admin/clients/import/parse
      */
-    public function import(Request $request): JsonResponse
+    public function parse(Request $request): JsonResponse
     {
-        $request->validate([
-            'file' => 'required|file|mimes:csv,txt|max:5120', // Max 5MB
+        $validated = $request->validate([
+            'file' => 'required|file|mimes:csv,txt,xlsx,xls,ods|max:5120', // Max 5MB
+            'delimiter' => ['nullable', Rule::in(ClientImportService::DELIMITERS)],
+            'encoding' => ['nullable', Rule::in(ClientImportService::ENCODINGS)],
         ]);
 
         $file = $request->file('file');
-        $content = file_get_contents($file->getRealPath());
-
-        // Handle BOM if present
-        $content = preg_replace('/^\xEF\xBB\xBF/', '', $content);
-
-        // Split into lines and parse
-        $lines = preg_split('/\r\n|\r|\n/', $content);
-        $lines = array_filter($lines, fn ($line) => trim($line) !== '');
-
-        if (count($lines) < 2) {
-            return ApiResponse::error('A CSV fájl üres vagy csak fejlécet tartalmaz', null, 422);
-        }
 
-        // Parse header
-        $header = str_getcsv($lines[0], ';');
-        $header = array_map(fn ($col) => mb_strtolower(trim($col)), $header);
-
-        // Validate required columns
-        $requiredColumns = ['nev', 'email', 'tel', 'szolg', 'edzoi dij', 'belepo dij'];
-        $missingColumns = array_diff($requiredColumns, $header);
-
-        if (!empty($missingColumns)) {
-            return ApiResponse::error(
-                'Hiányzó oszlopok: ' . implode(', ', $missingColumns),
-                ['missing_columns' => $missingColumns],
-                422
+        try {
+            $parsed = $this->importService->parse(
+                $file->getRealPath(),
+                $file->getClientOriginalExtension(),
+                $validated['delimiter'] ?? null,
+                $validated['encoding'] ?? null
             );
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::error($e->getMessage(), null, 422);
         }
 
-        // Build column index map
-        $columnIndex = [];
-        foreach ($header as $index => $column) {
-            $columnIndex[$column] = $index;
-        }
+        return ApiResponse::success($parsed);
+    }
 
-        $results = [
-            'total' => 0,
-            'created' => 0,
-            'updated' => 0,
-            'errors' => [],
-            'imported' => [],
-        ];
+    /**
+     * Check the mapped rows: which would create or update a client, which repeat an
+     * earlier row and which are invalid, without writing anything.
+     *
+     * POST /api/admin/clients/import/dry-run
+     */
+    public function dryRun(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->rowRules());
 
-        // Process data rows
-        for ($i = 1; $i < count($lines); $i++) {
-            $line = trim($lines[$i]);
-            if ($line === '') {
-                continue;
-            }
+        return ApiResponse::success(
+            $this->importService->dryRun($validated['rows'], (bool) ($validated['placeholder_email'] ?? false))
+        );
+    }
 
-            $results['total']++;
-            $row = str_getcsv($line, ';');
-            $rowNumber = $i + 1;
+    /**
+     * Import the mapped rows: create and update rows are applied, duplicate and invalid
+     * rows rejected, and the changes recorded in a batch that can be undone.
+     *
+     * POST /api/admin/clients/import
+     */
+    public function import(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->rowRules() + [
+            'file_name' => 'nullable|string|max:255',
+        ]);
 
-            try {
-                $result = $this->processRow($row, $columnIndex, $request->user()->id, $rowNumber);
-                if ($result['created']) {
-                    $results['created']++;
-                } else {
-                    $results['updated']++;
-                }
-                $results['imported'][] = $result;
-            } catch (\Exception $e) {
-                Log::error('CSV import error on row ' . $rowNumber, [
-                    'row' => $row,
-                    'error' => $e->getMessage(),
-                ]);
-                $results['errors'][] = [
-                    'row' => $rowNumber,
-                    'data' => $row,
-                    'error' => $e->getMessage(),
-                ];
-            }
-        }
+        $result = $this->importService->commit(
+            $validated['rows'],
+            (bool) ($validated['placeholder_email'] ?? false),
+            $validated['file_name'] ?? null,
+            $request->user()
+        );
 
         return ApiResponse::success([
-            'summary' => [
-                'total' => $results['total'],
-                'created' => $results['created'],
-                'updated' => $results['updated'],
-                'errors' => count($results['errors']),
-            ],
-            'imported' => $results['imported'],
-            'errors' => $results['errors'],
+            'batch' => $this->formatBatch($result['batch']->load('creator:id,name')),
+            'imported' => $result['imported'],
+            'rejected' => $result['rejected'],
         ], 'Import befejezve');
     }
 
     /**
-     * Process a single CSV row.
+     * Recent import batches, newest first.
+     *
+     * GET /api/admin/clients/import/batches
      */
-    private function processRow(array $row, array $columnIndex, int $createdBy, int $rowNumber): array
+    public function batches(): JsonResponse
     {
-        // Extract values with trimming
-        $name = trim($row[$columnIndex['nev']] ?? '');
-        $email = trim($row[$columnIndex['email']] ?? '');
-        $phone = trim($row[$columnIndex['tel']] ?? '');
-        $serviceCode = trim($row[$columnIndex['szolg']] ?? '');
-        $trainerFee = trim($row[$columnIndex['edzoi dij']] ?? '');
-        $entryFee = trim($row[$columnIndex['belepo dij']] ?? '');
-
-        // Apply defaults for missing email/phone
-        $emailAutoGenerated = false;
-        if ($email === '' || $email === '-' || $email === 'N/A') {
-            // Generate unique placeholder email from name
-            $nameSlug = Str::slug($name, '.');
-            $email = $nameSlug . '@' . self::DEFAULT_EMAIL_DOMAIN;
+        $batches = ClientImportBatch::with(['creator:id,name', 'undoneBy:id,name'])
+            ->orderByDesc('created_at')
+            ->orderByDesc('id')
+            ->limit(20)
+            ->get();
 
-            // Ensure uniqueness by adding number suffix if needed
-            $counter = 1;
-            while (User::where('email', $email)->exists()) {
-                $email = $nameSlug . '.' . $counter . '@' . self::DEFAULT_EMAIL_DOMAIN;
-                $counter++;
-            }
-            $emailAutoGenerated = true;
-        }
-        if ($phone === '' || $phone === '-' || $phone === 'N/A') {
-            $phone = self::DEFAULT_PHONE;
-        }
-
-        // Validate required fields
-        if ($name === '') {
-            throw new \InvalidArgumentException('Hiányzó név a(z) ' . $rowNumber . '. sorban');
-        }
-
-        // Parse fees (handle comma as decimal separator and possible spaces)
-        $trainerFee = $this->parseFee($trainerFee);
-        $entryFee = $this->parseFee($entryFee);
-
-        return DB::transaction(function () use ($name, $email, $emailAutoGenerated, $phone, $serviceCode, $trainerFee, $entryFee, $createdBy) {
-            // Find or create user
-            $user = User::where('email', $email)->first();
-            $isNewClient = false;
-
-            if (!$user) {
-                $user = User::create([
-                    'name' => $name,
-                    'email' => $email,
-                    'phone' => $phone,
-                    'role' => 'client',
-                    'status' => 'active',
-                    'password' => Hash::make(Str::random(16)), // Random password
-                ]);
-                $isNewClient = true;
-            } else {
-                // Update user data if existing
-                $user->update([
-                    'name' => $name,
-                    'phone' => $phone,
-                ]);
-            }
-
-            // Find or create client profile
-            $client = Client::where('user_id', $user->id)->first();
-            if (!$client) {
-                $client = Client::create([
-                    'user_id' => $user->id,
-                    'full_name' => $name,
-                    'date_of_joining' => now(),
-                ]);
-                $isNewClient = true;
-            } else {
-                $client->update([
-                    'full_name' => $name,
-                ]);
-            }
-
-            // Find service type by code or name (case-insensitive)
-            $serviceType = null;
-            $priceCodeCreated = false;
-
-            if ($serviceCode !== '') {
-                $serviceType = ServiceType::whereRaw('LOWER(code) = ?', [mb_strtolower($serviceCode)])
-                    ->orWhereRaw('LOWER(name) = ?', [mb_strtolower($serviceCode)])
-                    ->first();
-
-                if (!$serviceType) {
-                    throw new \InvalidArgumentException("Szolgáltatás típus nem található: {$serviceCode}");
-                }
-
-                // Create or update price code for this client and service type
-                $priceCode = ClientPriceCode::where('client_id', $client->id)
-                    ->where('service_type_id', $serviceType->id)
-                    ->where('is_active', true)
-                    ->first();
-
-                if ($priceCode) {
-                    // Update existing price code
-                    $priceCode->update([
-                        'entry_fee_brutto' => $entryFee,
-                        'trainer_fee_brutto' => $trainerFee,
-                    ]);
-                } else {
-                    // Create new price code
-                    ClientPriceCode::create([
-                        'client_id' => $client->id,
-                        'client_email' => $email,
-                        'service_type_id' => $serviceType->id,
-                        'entry_fee_brutto' => $entryFee,
-                        'trainer_fee_brutto' => $trainerFee,
-                        'currency' => 'HUF',
-                        'valid_from' => now(),
-                        'is_active' => true,
-                        'created_by' => $createdBy,
-                    ]);
-                    $priceCodeCreated = true;
-                }
-            }
-
-            return [
-                'created' => $isNewClient,
-                'client_id' => $client->id,
-                'name' => $name,
-                'email' => $email,
-                'email_auto_generated' => $emailAutoGenerated,
-                'phone' => $phone,
-                'service_type' => $serviceType?->name,
-                'entry_fee' => $entryFee,
-                'trainer_fee' => $trainerFee,
-                'price_code_created' => $priceCodeCreated,
-            ];
-        });
+        return ApiResponse::success($batches->map(fn (ClientImportBatch $batch) => $this->formatBatch($batch)));
     }
 
     /**
-     * Parse fee value - handles various formats.
+     * Undo an import batch.
+     *
+     * POST /api/admin/clients/import/batches/{batch}/undo
      */
-    private function parseFee(string $value): int
+    public function undo(Request $request, ClientImportBatch $batch): JsonResponse
     {
-        if ($value === '' || $value === '-' || $value === 'N/A') {
-            return 0;
+        try {
+            $result = $this->importService->undo($batch, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::conflict($e->getMessage());
         }
 
-        // Remove spaces, currency symbols
-        $value = preg_replace('/[^\d,.\-]/', '', $value);
-
-        // Replace comma with dot for decimal
-        $value = str_replace(',', '.', $value);
-
-        // Parse as float and convert to integer (assuming HUF, no decimals)
-        return (int) round((float) $value);
+        return ApiResponse::success([
+            'batch' => $this->formatBatch($batch->fresh(['creator:id,name', 'undoneBy:id,name'])),
+            'result' => $result,
+        ], 'Import visszavonva');
     }
 
     /**
@@ -292,4 +138,33 @@ public function serviceTypes(): JsonResponse
 
         return ApiResponse::success($serviceTypes);
     }
+
+    private function rowRules(): array
+    {
+        return [
+            'rows' => 'required|array|min:1|max:' . ClientImportService::MAX_ROWS,
+            'rows.*.row' => 'required|integer|min:1',
+            'rows.*.name' => 'nullable|string|max:255',
+            'rows.*.email' => 'nullable|string|max:255',
+            'rows.*.phone' => 'nullable|string|max:255',
+            'rows.*.service_type' => 'nullable|string|max:255',
+            'rows.*.trainer_fee' => 'nullable|string|max:50',
+            'rows.*.entry_fee' => 'nullable|string|max:50',
+            'placeholder_email' => 'nullable|boolean',
+        ];
+    }
+
+    private function formatBatch(ClientImportBatch $batch): array
+    {
+        return [
+            'id' => $batch->id,
+            'file_name' => $batch->file_name,
+            'status' => $batch->status,
+            'summary' => $batch->summary,
+            'created_by' => $batch->creator?->name,
+            'created_at' => $batch->created_at?->toIso8601String(),
+            'undone_at' => $batch->undone_at?->toIso8601String(),
+            'undone_by' => $batch->undoneBy?->name,
+        ];
+    }
 }
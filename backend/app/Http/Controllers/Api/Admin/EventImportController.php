@@ -0,0 +1,82 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Services\EventImportService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class EventImportController extends Controller
+{
+    public function __construct(
+        private readonly EventImportService $importService
+    ) {}
+
+    /**
+     * Analyse an .ics or CSV file: matched rooms, staff, clients and service types,
+     * conflicts and invalid rows, without creating anything.
+     *
+     * POST /api/admin/events/import/preview
+     */
+    public function preview(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->rules());
+
+        try {
+            $preview = $this->importService->preview(
+                $this->readFile($request),
+                isset($validated['default_room_id']) ? (int) $validated['default_room_id'] : null,
+                isset($validated['default_staff_id']) ? (int) $validated['default_staff_id'] : null
+            );
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::error($e->getMessage(), null, 422);
+        }
+
+        return ApiResponse::success($preview);
+    }
+
+    /**
+     * Import the file: valid rows are created (except the skipped ones), invalid rows rejected.
+     *
+     * POST /api/admin/events/import
+     */
+    public function import(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->rules() + [
+            'skip_rows' => 'nullable|array',
+            'skip_rows.*' => 'integer|min:1',
+        ]);
+
+        try {
+            $result = $this->importService->import(
+                $this->readFile($request),
+                array_map('intval', $validated['skip_rows'] ?? []),
+                $request->user(),
+                isset($validated['default_room_id']) ? (int) $validated['default_room_id'] : null,
+                isset($validated['default_staff_id']) ? (int) $validated['default_staff_id'] : null
+            );
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::error($e->getMessage(), null, 422);
+        }
+
+        return ApiResponse::success($result, 'Import befejezve');
+    }
+
+    private function rules(): array
+    {
+        return [
+            'file' => 'required|file|mimes:csv,txt,ics|max:5120', // Max 5MB
+            'default_room_id' => 'nullable|exists:rooms,id',
+            'default_staff_id' => 'nullable|exists:staff_profiles,id',
+        ];
+    }
+
+    private function readFile(Request $request): string
+    {
+        return (string) file_get_contents($request->file('file')->getRealPath());
+    }
+}
@@ -0,0 +1,136 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\EventMoveRequest;
+use App\Services\EventMoveService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+
+class EventMoveRequestController extends Controller
+{
+    public function __construct(
+        private readonly EventMoveService $moveService
+    ) {}
+
+    /**
+     * List move requests (pending by default)
+     *
+     * GET /api/admin/event-move-requests
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $status = $request->input('status', 'pending');
+
+        $query = EventMoveRequest::with(['event.client.user', 'event.staff.user', 'event.room', 'requester', 'reviewer', 'newRoom'])
+            ->orderBy('created_at', 'desc');
+
+        if ($status !== 'all') {
+            $query->where('status', $status);
+        }
+
+        return ApiResponse::success($query->get());
+    }
+
+    /**
+     * Approve a move request and apply the move
+     *
+     * POST /api/admin/event-move-requests/{id}/approve
+     */
+    public function approve(Request $request, int $id): JsonResponse
+    {
+        $moveRequest = EventMoveRequest::with('event')->findOrFail($id);
+
+        if (!$moveRequest->isPending()) {
+            return ApiResponse::error('Move request has already been reviewed', null, 422);
+        }
+
+        if (!$moveRequest->event) {
+            return ApiResponse::error('The event of this move request no longer exists', null, 422);
+        }
+
+        $validated = $request->validate([
+            'notify_clients' => ['sometimes', 'boolean'],
+            'review_note' => ['nullable', 'string', 'max:1000'],
+            'force_override' => ['sometimes', 'boolean'],
+        ]);
+
+        // The slot may have been taken since the request was filed
+        if (!($validated['force_override'] ?? false)) {
+            $conflicts = $this->moveService->conflicts(
+                $moveRequest->event,
+                $moveRequest->new_starts_at,
+                $moveRequest->new_ends_at,
+                $moveRequest->new_room_id
+            );
+
+            if (!empty($conflicts)) {
+                return ApiResponse::conflict(
+                    'Az új időpont ütközik egy másik foglalással. Biztosan jóváhagyod?',
+                    [
+                        'conflicts' => $conflicts,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
+        DB::transaction(function () use ($moveRequest, $request, $validated) {
+            $this->moveService->apply(
+                $moveRequest->event,
+                $moveRequest->new_starts_at,
+                $moveRequest->new_ends_at,
+                $moveRequest->new_room_id,
+                $request->user(),
+                $validated['notify_clients'] ?? true
+            );
+
+            $moveRequest->update([
+                'status' => 'approved',
+                'reviewed_by' => $request->user()->id,
+                'reviewed_at' => now(),
+                'review_note' => $validated['review_note'] ?? null,
+            ]);
+        });
+
+        return ApiResponse::success(
+            $moveRequest->fresh(['event.client.user', 'event.room', 'requester', 'reviewer', 'newRoom']),
+            'Move request approved'
+        );
+    }
+
+    /**
+     * Reject a move request
+     *
+     * POST /api/admin/event-move-requests/{id}/reject
+     */
+    public function reject(Request $request, int $id): JsonResponse
+    {
+        $moveRequest = EventMoveRequest::findOrFail($id);
+
+        if (!$moveRequest->isPending()) {
+            return ApiResponse::error('Move request has already been reviewed', null, 422);
+        }
+
+        $validated = $request->validate([
+            'review_note' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        $moveRequest->update([
+            'status' => 'rejected',
+            'reviewed_by' => $request->user()->id,
+            'reviewed_at' => now(),
+            'review_note' => $validated['review_note'] ?? null,
+        ]);
+
+        return ApiResponse::success(
+            $moveRequest->fresh(['event.client.user', 'event.room', 'requester', 'reviewer', 'newRoom']),
+            'Move request rejected'
+        );
+    }
+}
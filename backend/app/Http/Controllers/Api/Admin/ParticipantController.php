@@ -9,9 +9,12 @@
 use App\Models\ClassOccurrence;
 use App\Models\ClassRegistration;
 use App\Models\Client;
+use App\Models\ClientPayment;
 use App\Models\Event;
+use App\Services\ClientLedgerService;
 use App\Services\PassCreditService;
 use App\Services\NotificationService;
+use App\Services\WaitlistService;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\DB;
@@ -24,7 +27,9 @@ class ParticipantController extends Controller
 {
     public function __construct(
         private readonly PassCreditService $passCreditService,
-        private readonly NotificationService $notificationService
+        private readonly NotificationService $notificationService,
+        private readonly WaitlistService $waitlistService,
+        private readonly ClientLedgerService $ledgerService
     ) {}
 
     /**
@@ -34,9 +39,11 @@ public function __construct(
      */
     public function listClassParticipants(int $occurrenceId): JsonResponse
     {
-        $occurrence = ClassOccurrence::with(['registrations.client.user'])->findOrFail($occurrenceId);
+        $occurrence = ClassOccurrence::with(['registrations.client.user', 'registrations.promotedBy'])->findOrFail($occurrenceId);
 
-        $participants = $occurrence->registrations->map(function ($registration) {
+        $waitlistPositions = $this->waitlistService->positions($occurrence);
+
+        $participants = $occurrence->registrations->map(function ($registration) use ($waitlistPositions) {
             return [
                 'registration_id' => $registration->id,
                 'client_id' => $registration->client_id,
@@ -46,6 +53,12 @@ public function listClassParticipants(int $occurrenceId): JsonResponse
                 'payment_status' => $registration->payment_status,
                 'booked_at' => $registration->booked_at,
                 'checked_in_at' => $registration->checked_in_at,
+                'credits_used' => $registration->credits_used,
+                'waitlist_position' => $waitlistPositions[$registration->id] ?? null,
+                'promoted_at' => $registration->promoted_at,
+                'promotion_type' => $registration->promotion_type,
+                'promoted_by_name' => $registration->promotedBy?->name,
+                'promotion_notified_at' => $registration->promotion_notified_at,
             ];
         });
 
@@ -188,7 +201,8 @@ public function removeClassParticipant(Request $request, int $occurrenceId, int
                     $this->passCreditService->refundCredit(
                         $registration->client,
                         $creditsUsed,
-                        "Admin removed from class: {$occurrence->template->title}"
+                        "Admin removed from class: {$occurrence->template->title}",
+                        context: ['class_registration_id' => $registration->id]
                     );
                     $refundMessage = ' and credit refunded';
                 } elseif ($paymentStatus === 'unpaid') {
@@ -209,6 +223,106 @@ public function removeClassParticipant(Request $request, int $occurrenceId, int
         });
     }
 
+    /**
+     * Promote a waitlisted client into a booked spot
+     *
+     * POST /api/v1/admin/class-occurrences/{id}/waitlist/{registrationId}/promote
+     *
+     * A full class needs override_capacity: true.
+     */
+    public function promoteWaitlisted(Request $request, int $occurrenceId, int $registrationId): JsonResponse
+    {
+        $validated = $request->validate([
+            'override_capacity' => ['nullable', 'boolean'],
+        ]);
+
+        $occurrence = ClassOccurrence::with('template')->findOrFail($occurrenceId);
+
+        $registration = ClassRegistration::with(['client.user'])
+            ->where('occurrence_id', $occurrenceId)
+            ->where('status', 'waitlist')
+            ->find($registrationId);
+
+        if (!$registration) {
+            return ApiResponse::error('Waitlisted registration not found', null, 404);
+        }
+
+        $confirmedCount = $occurrence->registrations()->whereIn('status', ['booked', 'attended'])->count();
+        if ($confirmedCount >= $occurrence->capacity && !($validated['override_capacity'] ?? false)) {
+            return ApiResponse::conflict('Class is full', [
+                'capacity' => $occurrence->capacity,
+                'booked' => $confirmedCount,
+                'requires_confirmation' => true,
+            ]);
+        }
+
+        $registration = $this->waitlistService->promote($registration, $occurrence, $request->user());
+
+        return ApiResponse::success($registration->load(['client.user']), 'Client promoted from waitlist');
+    }
+
+    /**
+     * Mark a booked participant paid
+     *
+     * POST /api/v1/admin/class-occurrences/{id}/participants/{registrationId}/mark-paid
+     *
+     * Records a payment of the class price on the client's ledger.
+     */
+    public function markClassParticipantPaid(Request $request, int $occurrenceId, int $registrationId): JsonResponse
+    {
+        $validated = $request->validate([
+            'method' => ['required', 'string', 'in:' . implode(',', ClientPayment::METHODS)],
+            'reference' => ['nullable', 'string', 'max:255'],
+        ]);
+
+        $occurrence = ClassOccurrence::findOrFail($occurrenceId);
+
+        $registration = ClassRegistration::with(['client.user', 'occurrence.template'])
+            ->where('occurrence_id', $occurrence->id)
+            ->find($registrationId);
+
+        if (!$registration) {
+            return ApiResponse::error('Registration not found', null, 404);
+        }
+
+        $payment = $this->ledgerService->markRegistrationPaid($registration, $validated, $request->user());
+
+        return ApiResponse::success([
+            'registration_id' => $registration->id,
+            'payment_status' => $registration->fresh()->payment_status,
+            'payment_id' => $payment->id,
+            'amount' => $payment->amount,
+        ], 'Participant marked as paid');
+    }
+
+    /**
+     * Reorder the waitlist
+     *
+     * PUT /api/v1/admin/class-occurrences/{id}/waitlist/order
+     */
+    public function reorderWaitlist(Request $request, int $occurrenceId): JsonResponse
+    {
+        $validated = $request->validate([
+            'registration_ids' => ['required', 'array'],
+            'registration_ids.*' => ['integer', 'distinct'],
+        ]);
+
+        $occurrence = ClassOccurrence::findOrFail($occurrenceId);
+
+        try {
+            $this->waitlistService->reorder($occurrence, $validated['registration_ids']);
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), [
+                'registration_ids' => [$e->getMessage()],
+            ]);
+        }
+
+        return ApiResponse::success([
+            'occurrence_id' => $occurrenceId,
+            'positions' => $this->waitlistService->positions($occurrence),
+        ], 'Waitlist reordered');
+    }
+
     /**
      * Get the client assigned to an event
      *
@@ -290,40 +404,6 @@ public function removeEventParticipant(int $eventId): JsonResponse
      */
     private function promoteFromWaitlist(ClassOccurrence $occurrence): void
     {
-        $nextWaitlisted = ClassRegistration::with(['occurrence.template', 'client.user'])
-            ->where('occurrence_id', $occurrence->id)
-            ->where('status', 'waitlist')
-            ->orderBy('booked_at')
-            ->first();
-
-        if ($nextWaitlisted) {
-            $client = $nextWaitlisted->client;
-            $hasActivePass = $this->passCreditService->hasAvailableCredits($client);
-            $creditsRequired = $occurrence->template->credits_required ?? 1;
-
-            $creditsUsed = 0;
-            $paymentStatus = 'unpaid';
-
-            if ($hasActivePass) {
-                $this->passCreditService->deductCredit(
-                    $client,
-                    "Promoted from waitlist: {$occurrence->template->title}"
-                );
-                $creditsUsed = $creditsRequired;
-                $paymentStatus = 'paid';
-            } else {
-                $creditPriceHuf = (int) ($occurrence->template->base_price_huf ?? config('booking.credit_price_huf', 1000));
-                $unpaidAmount = $creditPriceHuf * $creditsRequired;
-                $client->increment('unpaid_balance', $unpaidAmount);
-            }
-
-            $nextWaitlisted->update([
-                'status' => 'booked',
-                'credits_used' => $creditsUsed,
-                'payment_status' => $paymentStatus,
-            ]);
-
-            $this->notificationService->sendWaitlistPromotion($nextWaitlisted);
-        }
+        $this->waitlistService->promoteNext($occurrence);
     }
 }
@@ -12,11 +12,18 @@
 use App\Models\ClassPricingDefault;
 use App\Models\ClientClassPricing;
 use App\Models\Event;
+use App\Services\PricingAnomalyService;
+use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 
 class PricingController extends Controller
 {
+    public function __construct(
+        private readonly PricingAnomalyService $anomalies
+    ) {
+    }
+
     /**
      * List all default pricing configurations.
      *
@@ -221,9 +228,13 @@ public function assignEventPricing(Request $request): JsonResponse
         $event = Event::findOrFail($validated['event_id']);
         $pricing = ClassPricingDefault::findOrFail($validated['pricing_id']);
 
-        // Update the event with the new pricing
+        // Update the event with the new pricing; the fees become a manual override of the resolved price
         $event->update([
             'pricing_id' => $pricing->id,
+            'entry_fee_brutto' => $pricing->entry_fee_brutto,
+            'trainer_fee_brutto' => $pricing->trainer_fee_brutto,
+            'currency' => $pricing->currency,
+            'price_source' => 'class_pricing_default',
         ]);
 
         // Load relationships for response
@@ -231,4 +242,45 @@ public function assignEventPricing(Request $request): JsonResponse
 
         return ApiResponse::success($event, 'Pricing assigned to event successfully');
     }
+
+    /**
+     * List 1:1 events with missing or suspicious pricing.
+     *
+     * GET /api/v1/admin/pricing/anomalies?from={date}&to={date}&client_id={id}&service_type_id={id}
+     */
+    public function anomalies(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'from' => ['required', 'date'],
+            'to' => ['required', 'date', 'after_or_equal:from'],
+            'client_id' => ['nullable', 'integer', 'exists:clients,id'],
+            'service_type_id' => ['nullable', 'integer', 'exists:service_types,id'],
+        ]);
+
+        $events = $this->anomalies->find(
+            Carbon::parse($validated['from'])->startOfDay(),
+            Carbon::parse($validated['to'])->endOfDay(),
+            isset($validated['client_id']) ? (int) $validated['client_id'] : null,
+            isset($validated['service_type_id']) ? (int) $validated['service_type_id'] : null
+        );
+
+        return ApiResponse::success($events);
+    }
+
+    /**
+     * Re-resolve the pricing of the given events from the current client price codes.
+     *
+     * POST /api/v1/admin/pricing/anomalies/resolve
+     */
+    public function resolveAnomalies(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'event_ids' => ['required', 'array', 'min:1', 'max:500'],
+            'event_ids.*' => ['integer', 'exists:events,id'],
+        ]);
+
+        $result = $this->anomalies->reResolve(array_map('intval', $validated['event_ids']));
+
+        return ApiResponse::success($result, count($result['updated']) . ' event(s) re-priced');
+    }
 }
@@ -12,6 +12,8 @@
 use App\Models\Pass;
 use App\Models\Client;
 use App\Models\StaffProfile;
+use App\Services\AdminReportFilters;
+use App\Services\AdminReportSpreadsheetService;
 use App\Services\ReportService;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
@@ -19,14 +21,12 @@
 use Carbon\Carbon;
 use PhpOffice\PhpSpreadsheet\Spreadsheet;
 use PhpOffice\PhpSpreadsheet\Writer\Xlsx;
-use PhpOffice\PhpSpreadsheet\Style\Alignment;
-use PhpOffice\PhpSpreadsheet\Style\Border;
-use PhpOffice\PhpSpreadsheet\Style\Fill;
 
 class ReportController extends Controller
 {
     public function __construct(
-        protected ReportService $reportService
+        protected ReportService $reportService,
+        protected AdminReportSpreadsheetService $spreadsheetService
     ) {}
 
     /**
@@ -39,20 +39,25 @@ public function attendance(Request $request): JsonResponse
         $validated = $request->validate([
             'date_from' => ['required', 'date'],
             'date_to' => ['required', 'date', 'after_or_equal:date_from'],
+            ...AdminReportFilters::rules(),
         ]);
 
         // Convert to Carbon instances with proper start/end of day
         $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
         $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
+        $filters = AdminReportFilters::fromArray($validated);
 
         // Individual events attendance
-        $individualEvents = Event::whereBetween('starts_at', [$dateFrom, $dateTo])->get();
+        $individualEvents = Event::whereBetween('starts_at', [$dateFrom, $dateTo])
+            ->tap($filters->applyToEvents(...))
+            ->get();
         $individualAttended = $individualEvents->where('attendance_status', 'attended')->count();
         $individualNoShows = $individualEvents->where('attendance_status', 'no_show')->count();
 
         // Class registrations attendance
-        $classRegistrations = ClassRegistration::whereHas('occurrence', function ($query) use ($dateFrom, $dateTo) {
+        $classRegistrations = ClassRegistration::whereHas('occurrence', function ($query) use ($dateFrom, $dateTo, $filters) {
             $query->whereBetween('starts_at', [$dateFrom, $dateTo]);
+            $filters->applyToOccurrences($query);
         })->get();
 
         $classAttended = $classRegistrations->where('attendance_status', 'attended')->count();
@@ -64,6 +69,7 @@ public function attendance(Request $request): JsonResponse
 
         return ApiResponse::success([
             'period' => ['from' => $dateFrom, 'to' => $dateTo],
+            'filters' => $filters->toArray(),
             'summary' => [
                 'total_sessions' => $totalSessions,
                 'total_attended' => $totalAttended,
@@ -97,19 +103,22 @@ public function payouts(Request $request): JsonResponse
         $validated = $request->validate([
             'date_from' => ['required', 'date'],
             'date_to' => ['required', 'date', 'after_or_equal:date_from'],
+            ...AdminReportFilters::rules(),
         ]);
 
         // Convert to Carbon instances with proper start/end of day
         $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
         $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
+        $filters = AdminReportFilters::fromArray($validated);
 
-        $staffMembers = StaffProfile::with('user')->get();
+        $staffMembers = $filters->applyToTrainers(StaffProfile::with('user'))->get();
 
-        $payoutData = $staffMembers->map(function ($staff) use ($dateFrom, $dateTo) {
+        $payoutData = $staffMembers->map(function ($staff) use ($dateFrom, $dateTo, $filters) {
             // Individual events with detailed info (all events, not just attended)
             $individualEvents = Event::with(['client.user', 'room', 'serviceType'])
                 ->where('staff_id', $staff->id)
                 ->whereBetween('starts_at', [$dateFrom, $dateTo])
+                ->tap($filters->applyToEvents(...))
                 ->orderBy('starts_at')
                 ->get();
 
@@ -117,6 +126,7 @@ public function payouts(Request $request): JsonResponse
             $groupClasses = ClassOccurrence::with(['template', 'room'])
                 ->where('trainer_id', $staff->id)
                 ->whereBetween('starts_at', [$dateFrom, $dateTo])
+                ->tap($filters->applyToOccurrences(...))
                 ->orderBy('starts_at')
                 ->get();
 
@@ -186,6 +196,7 @@ public function payouts(Request $request): JsonResponse
 
         return ApiResponse::success([
             'period' => ['from' => $dateFrom, 'to' => $dateTo],
+            'filters' => $filters->toArray(),
             'summary' => [
                 'total_entry_fee' => $totalEntryFee,
                 'total_trainer_fee' => $totalTrainerFee,
@@ -246,25 +257,33 @@ public function utilization(Request $request): JsonResponse
         $validated = $request->validate([
             'date_from' => ['required', 'date'],
             'date_to' => ['required', 'date', 'after_or_equal:date_from'],
+            ...AdminReportFilters::rules(),
         ]);
 
         // Convert to Carbon instances with proper start/end of day
         $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
         $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
+        $filters = AdminReportFilters::fromArray($validated);
 
         // Room utilization
-        $totalEvents = Event::whereBetween('starts_at', [$dateFrom, $dateTo])->count();
-        $totalClasses = ClassOccurrence::whereBetween('starts_at', [$dateFrom, $dateTo])->count();
+        $totalEvents = Event::whereBetween('starts_at', [$dateFrom, $dateTo])
+            ->tap($filters->applyToEvents(...))
+            ->count();
+        $totalClasses = ClassOccurrence::whereBetween('starts_at', [$dateFrom, $dateTo])
+            ->tap($filters->applyToOccurrences(...))
+            ->count();
 
         // Staff utilization
-        $staffMembers = StaffProfile::with('user')->get();
-        $staffUtilization = $staffMembers->map(function ($staff) use ($dateFrom, $dateTo) {
+        $staffMembers = $filters->applyToTrainers(StaffProfile::with('user'))->get();
+        $staffUtilization = $staffMembers->map(function ($staff) use ($dateFrom, $dateTo, $filters) {
             $eventCount = Event::where('staff_id', $staff->id)
                 ->whereBetween('starts_at', [$dateFrom, $dateTo])
+                ->tap($filters->applyToEvents(...))
                 ->count();
 
             $classCount = ClassOccurrence::where('trainer_id', $staff->id)
                 ->whereBetween('starts_at', [$dateFrom, $dateTo])
+                ->tap($filters->applyToOccurrences(...))
                 ->count();
 
             return [
@@ -278,6 +297,7 @@ public function utilization(Request $request): JsonResponse
 
         return ApiResponse::success([
             'period' => ['from' => $dateFrom, 'to' => $dateTo],
+            'filters' => $filters->toArray(),
             'summary' => [
                 'total_individual_sessions' => $totalEvents,
                 'total_group_classes' => $totalClasses,
@@ -297,15 +317,17 @@ public function clients(Request $request): JsonResponse
         $validated = $request->validate([
             'date_from' => ['required', 'date'],
             'date_to' => ['required', 'date', 'after_or_equal:date_from'],
+            ...AdminReportFilters::rules(),
         ]);
 
         // Convert to Carbon instances with proper start/end of day
         $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
         $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
+        $filters = AdminReportFilters::fromArray($validated);
 
         $clients = Client::with('user')->get();
 
-        $clientData = $clients->map(function ($client) use ($dateFrom, $dateTo) {
+        $clientData = $clients->map(function ($client) use ($dateFrom, $dateTo, $filters) {
             // Skip clients without associated user
             if (!$client->user) {
                 return null;
@@ -313,14 +335,16 @@ public function clients(Request $request): JsonResponse
 
             $classRegistrations = ClassRegistration::with(['occurrence.template', 'occurrence.room', 'occurrence.trainer.user'])
                 ->where('client_id', $client->id)
-                ->whereHas('occurrence', function ($query) use ($dateFrom, $dateTo) {
+                ->whereHas('occurrence', function ($query) use ($dateFrom, $dateTo, $filters) {
                     $query->whereBetween('starts_at', [$dateFrom, $dateTo]);
+                    $filters->applyToOccurrences($query);
                 })
                 ->get();
 
             $individualEvents = Event::with(['staff.user', 'room', 'serviceType'])
                 ->where('client_id', $client->id)
                 ->whereBetween('starts_at', [$dateFrom, $dateTo])
+                ->tap($filters->applyToEvents(...))
                 ->orderBy('starts_at')
                 ->get();
 
@@ -376,6 +400,7 @@ public function clients(Request $request): JsonResponse
 
         return ApiResponse::success([
             'period' => ['from' => $dateFrom, 'to' => $dateTo],
+            'filters' => $filters->toArray(),
             'summary' => [
                 'total_active_clients' => $clientData->count(),
             ],
@@ -605,106 +630,7 @@ public function drilldown(Request $request): JsonResponse
      */
     public function exportPayouts(Request $request): Response
     {
-        $validated = $request->validate([
-            'date_from' => ['required', 'date'],
-            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
-        ]);
-
-        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
-        $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
-
-        $staffMembers = StaffProfile::with('user')->get();
-
-        $spreadsheet = new Spreadsheet();
-        $sheet = $spreadsheet->getActiveSheet();
-        $sheet->setTitle('Kifizetések');
-
-        // Header row - itemized columns
-        $headers = ['Edző', 'Típus', 'Dátum', 'Időpont', 'Ügyfél / Óra neve', 'Terem', 'Belépődíj (HUF)', 'Edzői díj (HUF)', 'Összesen (HUF)', 'Állapot'];
-        $col = 'A';
-        foreach ($headers as $header) {
-            $sheet->setCellValue($col . '1', $header);
-            $col++;
-        }
-
-        // Style header
-        $this->styleHeaderRow($sheet, 'A1:J1');
-
-        $row = 2;
-        $totalEntryFee = 0;
-        $totalTrainerFee = 0;
-
-        foreach ($staffMembers as $staff) {
-            $staffName = $staff->user?->name ?? 'Ismeretlen';
-
-            // Individual events (1:1)
-            $individualEvents = Event::with(['client.user', 'room', 'serviceType'])
-                ->where('staff_id', $staff->id)
-                ->whereBetween('starts_at', [$dateFrom, $dateTo])
-                ->orderBy('starts_at')
-                ->get();
-
-            foreach ($individualEvents as $event) {
-                $entryFee = $event->entry_fee_brutto ?? 0;
-                $trainerFee = $event->trainer_fee_brutto ?? 0;
-
-                $sheet->setCellValue('A' . $row, $staffName);
-                $sheet->setCellValue('B' . $row, '1:1 Edzés');
-                $sheet->setCellValue('C' . $row, $event->starts_at->format('Y-m-d'));
-                $sheet->setCellValue('D' . $row, $event->starts_at->format('H:i') . ' - ' . $event->ends_at->format('H:i'));
-                $sheet->setCellValue('E' . $row, $event->client?->user?->name ?? '-');
-                $sheet->setCellValue('F' . $row, $event->room?->name ?? '-');
-                $sheet->setCellValue('G' . $row, $entryFee);
-                $sheet->setCellValue('H' . $row, $trainerFee);
-                $sheet->setCellValue('I' . $row, $entryFee + $trainerFee);
-                $sheet->setCellValue('J' . $row, $this->translateAttendanceStatus($event->attendance_status));
-                $row++;
-
-                $totalEntryFee += $entryFee;
-                $totalTrainerFee += $trainerFee;
-            }
-
-            // Group classes
-            $groupClasses = ClassOccurrence::with(['template', 'room'])
-                ->where('trainer_id', $staff->id)
-                ->whereBetween('starts_at', [$dateFrom, $dateTo])
-                ->orderBy('starts_at')
-                ->get();
-
-            foreach ($groupClasses as $oc) {
-                $entryFee = $oc->entry_fee_brutto ?? $oc->template?->entry_fee_brutto ?? 0;
-                $trainerFee = $oc->trainer_fee_brutto ?? $oc->template?->trainer_fee_brutto ?? 0;
-
-                $sheet->setCellValue('A' . $row, $staffName);
-                $sheet->setCellValue('B' . $row, 'Csoportos óra');
-                $sheet->setCellValue('C' . $row, $oc->starts_at->format('Y-m-d'));
-                $sheet->setCellValue('D' . $row, $oc->starts_at->format('H:i') . ' - ' . $oc->ends_at->format('H:i'));
-                $sheet->setCellValue('E' . $row, $oc->template?->name ?? 'Ismeretlen óra');
-                $sheet->setCellValue('F' . $row, $oc->room?->name ?? '-');
-                $sheet->setCellValue('G' . $row, $entryFee);
-                $sheet->setCellValue('H' . $row, $trainerFee);
-                $sheet->setCellValue('I' . $row, $entryFee + $trainerFee);
-                $sheet->setCellValue('J' . $row, ($oc->current_participants ?? 0) . ' résztvevő');
-                $row++;
-
-                $totalEntryFee += $entryFee;
-                $totalTrainerFee += $trainerFee;
-            }
-        }
-
-        // Summary row
-        $sheet->setCellValue('A' . $row, 'Összesen');
-        $sheet->setCellValue('G' . $row, $totalEntryFee);
-        $sheet->setCellValue('H' . $row, $totalTrainerFee);
-        $sheet->setCellValue('I' . $row, $totalEntryFee + $totalTrainerFee);
-        $this->styleSummaryRow($sheet, 'A' . $row . ':J' . $row);
-
-        // Auto-size columns
-        foreach (range('A', 'J') as $col) {
-            $sheet->getColumnDimension($col)->setAutoSize(true);
-        }
-
-        return $this->downloadXlsx($spreadsheet, 'kifizetes_riport_' . $dateFrom->format('Y-m-d') . '_' . $dateTo->format('Y-m-d') . '.xlsx');
+        return $this->exportXlsx($request, 'payouts');
     }
 
     /**
@@ -712,116 +638,7 @@ public function exportPayouts(Request $request): Response
      */
     public function exportClients(Request $request): Response
     {
-        $validated = $request->validate([
-            'date_from' => ['required', 'date'],
-            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
-        ]);
-
-        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
-        $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
-
-        $clients = Client::with('user')->get();
-
-        $spreadsheet = new Spreadsheet();
-        $sheet = $spreadsheet->getActiveSheet();
-        $sheet->setTitle('Ügyfelek');
-
-        // Header row - itemized columns (no summary columns)
-        $headers = ['Ügyfél', 'Email', 'Típus', 'Dátum', 'Időpont', 'Edző', 'Szolgáltatás', 'Terem', 'Belépődíj (HUF)', 'Edzői díj (HUF)', 'Összesen (HUF)', 'Állapot'];
-        $col = 'A';
-        foreach ($headers as $header) {
-            $sheet->setCellValue($col . '1', $header);
-            $col++;
-        }
-
-        // Style header
-        $this->styleHeaderRow($sheet, 'A1:L1');
-
-        $row = 2;
-        $totalEntryFee = 0;
-        $totalTrainerFee = 0;
-
-        foreach ($clients as $client) {
-            if (!$client->user) {
-                continue;
-            }
-
-            $clientName = $client->user->name;
-            $clientEmail = $client->user->email;
-
-            // Individual events (1:1)
-            $individualEvents = Event::with(['staff.user', 'room', 'serviceType'])
-                ->where('client_id', $client->id)
-                ->whereBetween('starts_at', [$dateFrom, $dateTo])
-                ->orderBy('starts_at')
-                ->get();
-
-            foreach ($individualEvents as $event) {
-                $entryFee = $event->entry_fee_brutto ?? 0;
-                $trainerFee = $event->trainer_fee_brutto ?? 0;
-
-                $sheet->setCellValue('A' . $row, $clientName);
-                $sheet->setCellValue('B' . $row, $clientEmail);
-                $sheet->setCellValue('C' . $row, '1:1 Edzés');
-                $sheet->setCellValue('D' . $row, $event->starts_at->format('Y-m-d'));
-                $sheet->setCellValue('E' . $row, $event->starts_at->format('H:i') . ' - ' . $event->ends_at->format('H:i'));
-                $sheet->setCellValue('F' . $row, $event->staff?->user?->name ?? '-');
-                $sheet->setCellValue('G' . $row, $event->serviceType?->name ?? '-');
-                $sheet->setCellValue('H' . $row, $event->room?->name ?? '-');
-                $sheet->setCellValue('I' . $row, $entryFee);
-                $sheet->setCellValue('J' . $row, $trainerFee);
-                $sheet->setCellValue('K' . $row, $entryFee + $trainerFee);
-                $sheet->setCellValue('L' . $row, $this->translateAttendanceStatus($event->attendance_status));
-                $row++;
-
-                $totalEntryFee += $entryFee;
-                $totalTrainerFee += $trainerFee;
-            }
-
-            // Group class registrations
-            $classRegistrations = ClassRegistration::with(['occurrence.template', 'occurrence.room', 'occurrence.trainer.user'])
-                ->where('client_id', $client->id)
-                ->whereHas('occurrence', function ($query) use ($dateFrom, $dateTo) {
-                    $query->whereBetween('starts_at', [$dateFrom, $dateTo]);
-                })
-                ->get();
-
-            foreach ($classRegistrations as $reg) {
-                $entryFee = $reg->occurrence?->entry_fee_brutto ?? $reg->occurrence?->template?->entry_fee_brutto ?? 0;
-                $trainerFee = $reg->occurrence?->trainer_fee_brutto ?? $reg->occurrence?->template?->trainer_fee_brutto ?? 0;
-
-                $sheet->setCellValue('A' . $row, $clientName);
-                $sheet->setCellValue('B' . $row, $clientEmail);
-                $sheet->setCellValue('C' . $row, 'Csoportos óra');
-                $sheet->setCellValue('D' . $row, $reg->occurrence?->starts_at?->format('Y-m-d') ?? '-');
-                $sheet->setCellValue('E' . $row, $reg->occurrence ? $reg->occurrence->starts_at->format('H:i') . ' - ' . $reg->occurrence->ends_at->format('H:i') : '-');
-                $sheet->setCellValue('F' . $row, $reg->occurrence?->trainer?->user?->name ?? '-');
-                $sheet->setCellValue('G' . $row, $reg->occurrence?->template?->name ?? 'Csoportos óra');
-                $sheet->setCellValue('H' . $row, $reg->occurrence?->room?->name ?? '-');
-                $sheet->setCellValue('I' . $row, $entryFee);
-                $sheet->setCellValue('J' . $row, $trainerFee);
-                $sheet->setCellValue('K' . $row, $entryFee + $trainerFee);
-                $sheet->setCellValue('L' . $row, $this->translateAttendanceStatus($reg->attendance_status));
-                $row++;
-
-                $totalEntryFee += $entryFee;
-                $totalTrainerFee += $trainerFee;
-            }
-        }
-
-        // Summary row
-        $sheet->setCellValue('A' . $row, 'Összesen');
-        $sheet->setCellValue('I' . $row, $totalEntryFee);
-        $sheet->setCellValue('J' . $row, $totalTrainerFee);
-        $sheet->setCellValue('K' . $row, $totalEntryFee + $totalTrainerFee);
-        $this->styleSummaryRow($sheet, 'A' . $row . ':L' . $row);
-
-        // Auto-size columns
-        foreach (range('A', 'L') as $col) {
-            $sheet->getColumnDimension($col)->setAutoSize(true);
-        }
-
-        return $this->downloadXlsx($spreadsheet, 'ugyfel_riport_' . $dateFrom->format('Y-m-d') . '_' . $dateTo->format('Y-m-d') . '.xlsx');
+        return $this->exportXlsx($request, 'clients');
     }
 
     /**
@@ -829,76 +646,7 @@ public function exportClients(Request $request): Response
      */
     public function exportAttendance(Request $request): Response
     {
-        $validated = $request->validate([
-            'date_from' => ['required', 'date'],
-            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
-        ]);
-
-        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
-        $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
-
-        $individualEvents = Event::whereBetween('starts_at', [$dateFrom, $dateTo])->get();
-        $classRegistrations = ClassRegistration::whereHas('occurrence', function ($query) use ($dateFrom, $dateTo) {
-            $query->whereBetween('starts_at', [$dateFrom, $dateTo]);
-        })->get();
-
-        $spreadsheet = new Spreadsheet();
-        $sheet = $spreadsheet->getActiveSheet();
-        $sheet->setTitle('Jelenlét');
-
-        // Header row
-        $headers = ['Típus', 'Összes', 'Megjelent', 'Nem jelent meg', 'Jelenlét %', 'Hiányzás %'];
-        $col = 'A';
-        foreach ($headers as $header) {
-            $sheet->setCellValue($col . '1', $header);
-            $col++;
-        }
-
-        $this->styleHeaderRow($sheet, 'A1:F1');
-
-        // Individual events
-        $indivAttended = $individualEvents->where('attendance_status', 'attended')->count();
-        $indivNoShows = $individualEvents->where('attendance_status', 'no_show')->count();
-        $indivTotal = $individualEvents->count();
-
-        $sheet->setCellValue('A2', 'Egyéni alkalmak');
-        $sheet->setCellValue('B2', $indivTotal);
-        $sheet->setCellValue('C2', $indivAttended);
-        $sheet->setCellValue('D2', $indivNoShows);
-        $sheet->setCellValue('E2', $indivTotal > 0 ? round(($indivAttended / $indivTotal) * 100, 2) . '%' : '0%');
-        $sheet->setCellValue('F2', $indivTotal > 0 ? round(($indivNoShows / $indivTotal) * 100, 2) . '%' : '0%');
-
-        // Group classes
-        $classAttended = $classRegistrations->where('attendance_status', 'attended')->count();
-        $classNoShows = $classRegistrations->where('attendance_status', 'no_show')->count();
-        $classTotal = $classRegistrations->count();
-
-        $sheet->setCellValue('A3', 'Csoportos órák');
-        $sheet->setCellValue('B3', $classTotal);
-        $sheet->setCellValue('C3', $classAttended);
-        $sheet->setCellValue('D3', $classNoShows);
-        $sheet->setCellValue('E3', $classTotal > 0 ? round(($classAttended / $classTotal) * 100, 2) . '%' : '0%');
-        $sheet->setCellValue('F3', $classTotal > 0 ? round(($classNoShows / $classTotal) * 100, 2) . '%' : '0%');
-
-        // Summary
-        $totalAll = $indivTotal + $classTotal;
-        $totalAttended = $indivAttended + $classAttended;
-        $totalNoShows = $indivNoShows + $classNoShows;
-
-        $sheet->setCellValue('A4', 'Összesen');
-        $sheet->setCellValue('B4', $totalAll);
-        $sheet->setCellValue('C4', $totalAttended);
-        $sheet->setCellValue('D4', $totalNoShows);
-        $sheet->setCellValue('E4', $totalAll > 0 ? round(($totalAttended / $totalAll) * 100, 2) . '%' : '0%');
-        $sheet->setCellValue('F4', $totalAll > 0 ? round(($totalNoShows / $totalAll) * 100, 2) . '%' : '0%');
-
-        $this->styleSummaryRow($sheet, 'A4:F4');
-
-        foreach (range('A', 'F') as $col) {
-            $sheet->getColumnDimension($col)->setAutoSize(true);
-        }
-
-        return $this->downloadXlsx($spreadsheet, 'jelenlet_riport_' . $dateFrom->format('Y-m-d') . '_' . $dateTo->format('Y-m-d') . '.xlsx');
+        return $this->exportXlsx($request, 'attendance');
     }
 
     /**
@@ -906,49 +654,7 @@ public function exportAttendance(Request $request): Response
      */
     public function exportRevenue(Request $request): Response
     {
-        $validated = $request->validate([
-            'date_from' => ['required', 'date'],
-            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
-        ]);
-
-        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
-        $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
-
-        $passes = Pass::whereBetween('purchased_at', [$dateFrom, $dateTo])->get();
-
-        $spreadsheet = new Spreadsheet();
-        $sheet = $spreadsheet->getActiveSheet();
-        $sheet->setTitle('Bevétel');
-
-        // Summary section
-        $sheet->setCellValue('A1', 'Bevétel riport');
-        $sheet->setCellValue('A2', 'Időszak: ' . $dateFrom->format('Y-m-d') . ' - ' . $dateTo->format('Y-m-d'));
-
-        $sheet->setCellValue('A4', 'Összesítés');
-        $this->styleHeaderRow($sheet, 'A4:B4');
-
-        $sheet->setCellValue('A5', 'Összes bevétel (HUF)');
-        $sheet->setCellValue('B5', $passes->sum('price'));
-        $sheet->setCellValue('A6', 'Eladott bérletek');
-        $sheet->setCellValue('B6', $passes->count());
-        $sheet->setCellValue('A7', 'Átlagos bérlet ár');
-        $sheet->setCellValue('B7', $passes->count() > 0 ? round($passes->sum('price') / $passes->count(), 2) : 0);
-
-        $sheet->setCellValue('A9', 'Státusz szerinti bontás');
-        $this->styleHeaderRow($sheet, 'A9:B9');
-
-        $sheet->setCellValue('A10', 'Aktív');
-        $sheet->setCellValue('B10', $passes->where('status', 'active')->count());
-        $sheet->setCellValue('A11', 'Lejárt');
-        $sheet->setCellValue('B11', $passes->where('status', 'expired')->count());
-        $sheet->setCellValue('A12', 'Felhasznált');
-        $sheet->setCellValue('B12', $passes->where('status', 'fully_used')->count());
-
-        foreach (range('A', 'B') as $col) {
-            $sheet->getColumnDimension($col)->setAutoSize(true);
-        }
-
-        return $this->downloadXlsx($spreadsheet, 'bevetel_riport_' . $dateFrom->format('Y-m-d') . '_' . $dateTo->format('Y-m-d') . '.xlsx');
+        return $this->exportXlsx($request, 'revenue');
     }
 
     /**
@@ -956,66 +662,7 @@ public function exportRevenue(Request $request): Response
      */
     public function exportUtilization(Request $request): Response
     {
-        $validated = $request->validate([
-            'date_from' => ['required', 'date'],
-            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
-        ]);
-
-        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
-        $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
-
-        $staffMembers = StaffProfile::with('user')->get();
-
-        $spreadsheet = new Spreadsheet();
-        $sheet = $spreadsheet->getActiveSheet();
-        $sheet->setTitle('Kihasználtság');
-
-        $headers = ['Edző', 'Egyéni alkalmak', 'Csoportos órák', 'Összesen'];
-        $col = 'A';
-        foreach ($headers as $header) {
-            $sheet->setCellValue($col . '1', $header);
-            $col++;
-        }
-
-        $this->styleHeaderRow($sheet, 'A1:D1');
-
-        $row = 2;
-        $totalIndiv = 0;
-        $totalGroup = 0;
-
-        foreach ($staffMembers as $staff) {
-            $eventCount = Event::where('staff_id', $staff->id)
-                ->whereBetween('starts_at', [$dateFrom, $dateTo])
-                ->count();
-
-            $classCount = ClassOccurrence::where('trainer_id', $staff->id)
-                ->whereBetween('starts_at', [$dateFrom, $dateTo])
-                ->count();
-
-            if ($eventCount > 0 || $classCount > 0) {
-                $sheet->setCellValue('A' . $row, $staff->user->name);
-                $sheet->setCellValue('B' . $row, $eventCount);
-                $sheet->setCellValue('C' . $row, $classCount);
-                $sheet->setCellValue('D' . $row, $eventCount + $classCount);
-                $row++;
-
-                $totalIndiv += $eventCount;
-                $totalGroup += $classCount;
-            }
-        }
-
-        $sheet->setCellValue('A' . $row, 'Összesen');
-        $sheet->setCellValue('B' . $row, $totalIndiv);
-        $sheet->setCellValue('C' . $row, $totalGroup);
-        $sheet->setCellValue('D' . $row, $totalIndiv + $totalGroup);
-
-        $this->styleSummaryRow($sheet, 'A' . $row . ':D' . $row);
-
-        foreach (range('A', 'D') as $col) {
-            $sheet->getColumnDimension($col)->setAutoSize(true);
-        }
-
-        return $this->downloadXlsx($spreadsheet, 'kihasznaltsag_riport_' . $dateFrom->format('Y-m-d') . '_' . $dateTo->format('Y-m-d') . '.xlsx');
+        return $this->exportXlsx($request, 'utilization');
     }
 
     /**
@@ -1024,282 +671,27 @@ public function exportUtilization(Request $request): Response
      */
     public function exportPayoutsPerClient(Request $request): Response
     {
-        $validated = $request->validate([
-            'date_from' => ['required', 'date'],
-            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
-        ]);
-
-        $dateFrom = Carbon::parse($validated['date_from'])->startOfDay();
-        $dateTo = Carbon::parse($validated['date_to'])->endOfDay();
-
-        // Fetch all individual events in range with relations
-        $events = Event::with(['client.user', 'additionalClients.user', 'staff.user', 'room', 'serviceType'])
-            ->whereBetween('starts_at', [$dateFrom, $dateTo])
-            ->orderBy('starts_at')
-            ->get();
-
-        // Fetch all group class registrations in range
-        $classRegistrations = ClassRegistration::with(['client.user', 'occurrence.template', 'occurrence.room', 'occurrence.trainer.user'])
-            ->whereHas('occurrence', function ($query) use ($dateFrom, $dateTo) {
-                $query->whereBetween('starts_at', [$dateFrom, $dateTo]);
-            })
-            ->get();
-
-        // Build per-client data: client_id => [name, email, trainers, sessions[], totals]
-        $clientData = [];
-
-        $initClient = function (int $clientId, string $name, string $email) use (&$clientData) {
-            if (!isset($clientData[$clientId])) {
-                $clientData[$clientId] = [
-                    'name' => $name,
-                    'email' => $email,
-                    'total_entry_fee' => 0,
-                    'total_trainer_fee' => 0,
-                    'session_count' => 0,
-                    'trainers' => [],
-                    'personal_count' => 0,
-                    'group_count' => 0,
-                    'details' => [],
-                ];
-            }
-        };
-
-        // --- Individual events ---
-        foreach ($events as $event) {
-            $trainerName = $event->staff?->user?->name ?? '-';
-
-            // Main client (events.client_id)
-            if ($event->client_id && $event->client) {
-                $clientId = $event->client_id;
-                $initClient($clientId, $event->client->user?->name ?? 'Ismeretlen', $event->client->user?->email ?? '-');
-
-                $entryFee = $event->entry_fee_brutto ?? 0;
-                $trainerFee = $event->trainer_fee_brutto ?? 0;
-
-                $clientData[$clientId]['total_entry_fee'] += $entryFee;
-                $clientData[$clientId]['total_trainer_fee'] += $trainerFee;
-                $clientData[$clientId]['session_count']++;
-                $clientData[$clientId]['personal_count']++;
-                if ($trainerName !== '-') {
-                    $clientData[$clientId]['trainers'][$trainerName] = true;
-                }
-                $clientData[$clientId]['details'][] = [
-                    'date' => $event->starts_at->format('Y-m-d'),
-                    'time' => $event->starts_at->format('H:i') . ' - ' . $event->ends_at->format('H:i'),
-                    'trainer' => $trainerName,
-                    'type' => 'Személyi edzés',
-                    'service' => $event->serviceType?->name ?? '-',
-                    'room' => $event->room?->name ?? '-',
-                    'entry_fee' => $entryFee,
-                    'trainer_fee' => $trainerFee,
-                    'status' => $this->translateAttendanceStatus($event->attendance_status),
-                ];
-            }
-
-            // Additional clients from pivot table
-            foreach ($event->additionalClients as $addClient) {
-                $clientId = $addClient->id;
-                $initClient($clientId, $addClient->user?->name ?? 'Ismeretlen', $addClient->user?->email ?? '-');
-
-                $entryFee = $addClient->pivot->entry_fee_brutto ?? 0;
-                $trainerFee = $addClient->pivot->trainer_fee_brutto ?? 0;
-
-                $clientData[$clientId]['total_entry_fee'] += $entryFee;
-                $clientData[$clientId]['total_trainer_fee'] += $trainerFee;
-                $clientData[$clientId]['session_count']++;
-                $clientData[$clientId]['personal_count']++;
-                if ($trainerName !== '-') {
-                    $clientData[$clientId]['trainers'][$trainerName] = true;
-                }
-                $clientData[$clientId]['details'][] = [
-                    'date' => $event->starts_at->format('Y-m-d'),
-                    'time' => $event->starts_at->format('H:i') . ' - ' . $event->ends_at->format('H:i'),
-                    'trainer' => $trainerName,
-                    'type' => 'Személyi edzés',
-                    'service' => $event->serviceType?->name ?? '-',
-                    'room' => $event->room?->name ?? '-',
-                    'entry_fee' => $entryFee,
-                    'trainer_fee' => $trainerFee,
-                    'status' => $this->translateAttendanceStatus($addClient->pivot->attendance_status ?? null),
-                ];
-            }
-        }
-
-        // --- Group class registrations ---
-        foreach ($classRegistrations as $reg) {
-            $clientId = $reg->client_id;
-            if (!$reg->client?->user) {
-                continue;
-            }
-            $initClient($clientId, $reg->client->user->name, $reg->client->user->email);
-
-            $entryFee = $reg->occurrence?->entry_fee_brutto ?? $reg->occurrence?->template?->entry_fee_brutto ?? 0;
-            $trainerFee = $reg->occurrence?->trainer_fee_brutto ?? $reg->occurrence?->template?->trainer_fee_brutto ?? 0;
-            $trainerName = $reg->occurrence?->trainer?->user?->name ?? '-';
-
-            $clientData[$clientId]['total_entry_fee'] += $entryFee;
-            $clientData[$clientId]['total_trainer_fee'] += $trainerFee;
-            $clientData[$clientId]['session_count']++;
-            $clientData[$clientId]['group_count']++;
-            if ($trainerName !== '-') {
-                $clientData[$clientId]['trainers'][$trainerName] = true;
-            }
-            $clientData[$clientId]['details'][] = [
-                'date' => $reg->occurrence?->starts_at?->format('Y-m-d') ?? '-',
-                'time' => $reg->occurrence ? $reg->occurrence->starts_at->format('H:i') . ' - ' . $reg->occurrence->ends_at->format('H:i') : '-',
-                'trainer' => $trainerName,
-                'type' => 'Csoportos óra',
-                'service' => $reg->occurrence?->template?->name ?? 'Csoportos óra',
-                'room' => $reg->occurrence?->room?->name ?? '-',
-                'entry_fee' => $entryFee,
-                'trainer_fee' => $trainerFee,
-                'status' => $this->translateAttendanceStatus($reg->attendance_status),
-            ];
-        }
-
-        // Sort by client name
-        uasort($clientData, fn($a, $b) => strcasecmp($a['name'], $b['name']));
-
-        // Create spreadsheet with 2 worksheets
-        $spreadsheet = new Spreadsheet();
-
-        // ---- Sheet 1: Összesítő (Summary) ----
-        $summarySheet = $spreadsheet->getActiveSheet();
-        $summarySheet->setTitle('Összesítő');
-
-        $summaryHeaders = ['Vendég neve', 'Email', 'Edző(k)', 'Személyi edzés (db)', 'Csoportos óra (db)', 'Alkalmak száma', 'Belépődíj összesen (HUF)', 'Edzői díj összesen (HUF)', 'Összesen (HUF)'];
-        $col = 'A';
-        foreach ($summaryHeaders as $header) {
-            $summarySheet->setCellValue($col . '1', $header);
-            $col++;
-        }
-        $this->styleHeaderRow($summarySheet, 'A1:I1');
-
-        $row = 2;
-        $grandTotalEntry = 0;
-        $grandTotalTrainer = 0;
-        $grandTotalSessions = 0;
-
-        foreach ($clientData as $data) {
-            $total = $data['total_entry_fee'] + $data['total_trainer_fee'];
-            $summarySheet->setCellValue('A' . $row, $data['name']);
-            $summarySheet->setCellValue('B' . $row, $data['email']);
-            $summarySheet->setCellValue('C' . $row, implode(', ', array_keys($data['trainers'])));
-            $summarySheet->setCellValue('D' . $row, $data['personal_count']);
-            $summarySheet->setCellValue('E' . $row, $data['group_count']);
-            $summarySheet->setCellValue('F' . $row, $data['session_count']);
-            $summarySheet->setCellValue('G' . $row, $data['total_entry_fee']);
-            $summarySheet->setCellValue('H' . $row, $data['total_trainer_fee']);
-            $summarySheet->setCellValue('I' . $row, $total);
-            $row++;
-
-            $grandTotalEntry += $data['total_entry_fee'];
-            $grandTotalTrainer += $data['total_trainer_fee'];
-            $grandTotalSessions += $data['session_count'];
-        }
-
-        // Summary row
-        $summarySheet->setCellValue('A' . $row, 'Összesen');
-        $summarySheet->setCellValue('F' . $row, $grandTotalSessions);
-        $summarySheet->setCellValue('G' . $row, $grandTotalEntry);
-        $summarySheet->setCellValue('H' . $row, $grandTotalTrainer);
-        $summarySheet->setCellValue('I' . $row, $grandTotalEntry + $grandTotalTrainer);
-        $this->styleSummaryRow($summarySheet, 'A' . $row . ':I' . $row);
-
-        foreach (range('A', 'I') as $c) {
-            $summarySheet->getColumnDimension($c)->setAutoSize(true);
-        }
-
-        // ---- Sheet 2: Részletes tételek (Detailed items) ----
-        $detailSheet = $spreadsheet->createSheet();
-        $detailSheet->setTitle('Részletes tételek');
-
-        $detailHeaders = ['Vendég neve', 'Dátum', 'Időpont', 'Edző', 'Típus', 'Szolgáltatás', 'Terem', 'Belépődíj (HUF)', 'Edzői díj (HUF)', 'Összesen (HUF)', 'Státusz'];
-        $col = 'A';
-        foreach ($detailHeaders as $header) {
-            $detailSheet->setCellValue($col . '1', $header);
-            $col++;
-        }
-        $this->styleHeaderRow($detailSheet, 'A1:K1');
-
-        $row = 2;
-        $detailTotalEntry = 0;
-        $detailTotalTrainer = 0;
-
-        foreach ($clientData as $data) {
-            // Sort details by date
-            $details = $data['details'];
-            usort($details, fn($a, $b) => strcmp($a['date'], $b['date']));
-
-            foreach ($details as $detail) {
-                $detailSheet->setCellValue('A' . $row, $data['name']);
-                $detailSheet->setCellValue('B' . $row, $detail['date']);
-                $detailSheet->setCellValue('C' . $row, $detail['time']);
-                $detailSheet->setCellValue('D' . $row, $detail['trainer']);
-                $detailSheet->setCellValue('E' . $row, $detail['type']);
-                $detailSheet->setCellValue('F' . $row, $detail['service']);
-                $detailSheet->setCellValue('G' . $row, $detail['room']);
-                $detailSheet->setCellValue('H' . $row, $detail['entry_fee']);
-                $detailSheet->setCellValue('I' . $row, $detail['trainer_fee']);
-                $detailSheet->setCellValue('J' . $row, $detail['entry_fee'] + $detail['trainer_fee']);
-                $detailSheet->setCellValue('K' . $row, $detail['status']);
-                $row++;
-
-                $detailTotalEntry += $detail['entry_fee'];
-                $detailTotalTrainer += $detail['trainer_fee'];
-            }
-        }
-
-        // Summary row
-        $detailSheet->setCellValue('A' . $row, 'Összesen');
-        $detailSheet->setCellValue('H' . $row, $detailTotalEntry);
-        $detailSheet->setCellValue('I' . $row, $detailTotalTrainer);
-        $detailSheet->setCellValue('J' . $row, $detailTotalEntry + $detailTotalTrainer);
-        $this->styleSummaryRow($detailSheet, 'A' . $row . ':K' . $row);
-
-        foreach (range('A', 'K') as $c) {
-            $detailSheet->getColumnDimension($c)->setAutoSize(true);
-        }
-
-        // Set active sheet back to summary
-        $spreadsheet->setActiveSheetIndex(0);
-
-        return $this->downloadXlsx($spreadsheet, 'vendeg_kifizetes_' . $dateFrom->format('Y-m-d') . '_' . $dateTo->format('Y-m-d') . '.xlsx');
+        return $this->exportXlsx($request, 'payouts-per-client');
     }
 
     /**
-     * Style header row
+     * Build a report workbook for the requested date range and download it
      */
-    private function styleHeaderRow($sheet, string $range): void
+    private function exportXlsx(Request $request, string $type): Response
     {
-        $sheet->getStyle($range)->applyFromArray([
-            'font' => ['bold' => true, 'color' => ['rgb' => 'FFFFFF']],
-            'fill' => [
-                'fillType' => Fill::FILL_SOLID,
-                'startColor' => ['rgb' => '4472C4'],
-            ],
-            'alignment' => ['horizontal' => Alignment::HORIZONTAL_CENTER],
-            'borders' => [
-                'allBorders' => ['borderStyle' => Border::BORDER_THIN],
-            ],
+        $validated = $request->validate([
+            'date_from' => ['required', 'date'],
+            'date_to' => ['required', 'date', 'after_or_equal:date_from'],
+            ...AdminReportFilters::rules(),
         ]);
-    }
 
-    /**
-     * Style summary row
-     */
-    private function styleSummaryRow($sheet, string $range): void
-    {
-        $sheet->getStyle($range)->applyFromArray([
-            'font' => ['bold' => true],
-            'fill' => [
-                'fillType' => Fill::FILL_SOLID,
-                'startColor' => ['rgb' => 'E2EFDA'],
-            ],
-            'borders' => [
-                'allBorders' => ['borderStyle' => Border::BORDER_THIN],
-            ],
-        ]);
+        $dateFrom = Carbon::parse($validated['date_from']);
+        $dateTo = Carbon::parse($validated['date_to']);
+
+        return $this->downloadXlsx(
+            $this->spreadsheetService->build($type, $dateFrom, $dateTo, AdminReportFilters::fromArray($validated)),
+            $this->spreadsheetService->filename($type, $dateFrom, $dateTo)
+        );
     }
 
     /**
@@ -1319,16 +711,4 @@ private function downloadXlsx(Spreadsheet $spreadsheet, string $filename): Respo
             'Cache-Control' => 'max-age=0',
         ]);
     }
-
-    /**
-     * Translate attendance status to Hungarian
-     */
-    private function translateAttendanceStatus(?string $status): string
-    {
-        return match ($status) {
-            'attended' => 'Megjelent',
-            'no_show' => 'Nem jelent meg',
-            default => 'Nem ellenőrzött',
-        };
-    }
 }
@@ -0,0 +1,100 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Http\Requests\Reports\StoreReportPresetRequest;
+use App\Http\Responses\ApiResponse;
+use App\Models\ReportPreset;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Named report filter presets, private to the admin who saved them
+ */
+class ReportPresetController extends Controller
+{
+    /**
+     * List the current admin's presets
+     *
+     * GET /api/v1/admin/report-presets
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $presets = ReportPreset::where('user_id', $request->user()->id)
+            ->orderBy('name')
+            ->get();
+
+        return ApiResponse::success($presets);
+    }
+
+    /**
+     * Save the current filters as a named preset
+     *
+     * POST /api/v1/admin/report-presets
+     */
+    public function store(StoreReportPresetRequest $request): JsonResponse
+    {
+        $preset = ReportPreset::create([
+            ...$request->validated(),
+            'filters' => $this->cleanFilters($request->validated('filters')),
+            'user_id' => $request->user()->id,
+        ]);
+
+        return ApiResponse::created($preset, 'Report preset saved');
+    }
+
+    /**
+     * Rename a preset or overwrite its filters
+     *
+     * PUT /api/v1/admin/report-presets/{reportPreset}
+     */
+    public function update(StoreReportPresetRequest $request, ReportPreset $reportPreset): JsonResponse
+    {
+        if ($reportPreset->user_id !== $request->user()->id) {
+            return ApiResponse::forbidden('You can only edit your own presets');
+        }
+
+        $reportPreset->update([
+            ...$request->validated(),
+            'filters' => $this->cleanFilters($request->validated('filters')),
+        ]);
+
+        return ApiResponse::success($reportPreset, 'Report preset updated');
+    }
+
+    /**
+     * Delete a preset
+     *
+     * DELETE /api/v1/admin/report-presets/{reportPreset}
+     */
+    public function destroy(Request $request, ReportPreset $reportPreset): JsonResponse
+    {
+        if ($reportPreset->user_id !== $request->user()->id) {
+            return ApiResponse::forbidden('You can only delete your own presets');
+        }
+
+        $reportPreset->delete();
+
+        return ApiResponse::success(null, 'Report preset deleted');
+    }
+
+    /**
+     * Keep the known non-empty filters; fixed dates are only kept for a custom range
+     */
+    private function cleanFilters(array $filters): array
+    {
+        $filters = array_intersect_key(
+            $filters,
+            array_flip(['range', 'date_from', 'date_to', 'trainer_id', 'site_id', 'room_id', 'service_type'])
+        );
+
+        if ($filters['range'] !== 'custom') {
+            unset($filters['date_from'], $filters['date_to']);
+        }
+
+        return array_filter($filters, fn ($value) => $value !== null && $value !== '');
+    }
+}
@@ -5,20 +5,29 @@
 namespace App\Http\Controllers\Api\Admin;
 
 use App\Http\Controllers\Controller;
+use App\Http\Requests\GenerateMonthlySettlementsRequest;
 use App\Http\Requests\GenerateSettlementRequest;
+use App\Http\Requests\MarkSettlementPaidRequest;
+use App\Http\Requests\StoreSettlementAdjustmentRequest;
+use App\Http\Requests\UnlockSettlementRequest;
 use App\Http\Responses\ApiResponse;
 use App\Models\Settlement;
-use App\Models\SettlementItem;
-use App\Models\StaffProfile;
-use App\Services\PricingService;
+use App\Models\SettlementAdjustment;
+use App\Models\SettlementUnlock;
+use App\Services\PayoutStatementService;
+use App\Services\SettlementGenerationService;
+use App\Services\SettlementLifecycleService;
+use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
-use Illuminate\Support\Facades\DB;
+use Illuminate\Http\Response;
 
 class SettlementController extends Controller
 {
     public function __construct(
-        private readonly PricingService $pricingService
+        private readonly SettlementGenerationService $generator,
+        private readonly SettlementLifecycleService $lifecycle,
+        private readonly PayoutStatementService $statements
     ) {
     }
 
@@ -29,7 +38,7 @@ public function __construct(
      */
     public function index(Request $request): JsonResponse
     {
-        $query = Settlement::with(['trainer', 'items'])
+        $query = Settlement::with(['trainer', 'adjustments'])
             ->withCount('items');
 
         // Filter by trainer
@@ -62,7 +71,12 @@ public function index(Request $request): JsonResponse
                 'period_end' => $settlement->period_end->toDateString(),
                 'total_trainer_fee' => $settlement->total_trainer_fee,
                 'total_entry_fee' => $settlement->total_entry_fee,
+                'total_adjustments' => $settlement->totalAdjustments(),
+                'total_payable' => $settlement->payableAmount(),
                 'status' => $settlement->status,
+                'locked_at' => $settlement->locked_at?->toIso8601String(),
+                'paid_at' => $settlement->paid_at?->toDateString(),
+                'payment_reference' => $settlement->payment_reference,
                 'notes' => $settlement->notes,
                 'items_count' => $settlement->items_count,
                 'created_at' => $settlement->created_at->toIso8601String(),
@@ -86,20 +100,12 @@ public function preview(Request $request): JsonResponse
             'to' => ['required', 'date', 'after_or_equal:from'],
         ]);
 
-        $userId = $validated['trainer_id'];
-        $periodStart = \Carbon\Carbon::parse($validated['from'])->startOfDay();
-        $periodEnd = \Carbon\Carbon::parse($validated['to'])->endOfDay();
-
-        // Convert user_id to staff_profile_id (Event.staff_id and ClassOccurrence.trainer_id reference staff_profiles.id)
-        $staffProfile = StaffProfile::where('user_id', $userId)->first();
-        $staffProfileId = $staffProfile?->id ?? $userId; // Fallback to userId if no profile found
+        $userId = (int) $validated['trainer_id'];
+        $periodStart = Carbon::parse($validated['from'])->startOfDay();
+        $periodEnd = Carbon::parse($validated['to'])->endOfDay();
 
         // Calculate settlement preview
-        $preview = $this->pricingService->calculateSettlementForTrainer(
-            $staffProfileId,
-            $periodStart,
-            $periodEnd
-        );
+        $preview = $this->generator->calculate($userId, $periodStart, $periodEnd);
 
         return ApiResponse::success([
             'trainer_id' => $userId,
@@ -109,6 +115,7 @@ public function preview(Request $request): JsonResponse
             'total_entry_fee' => $preview['total_entry_fee'],
             'items_count' => count($preview['items']),
             'items' => $preview['items'],
+            'missing_pricing' => $preview['missing_pricing'],
         ]);
     }
 
@@ -121,57 +128,29 @@ public function generate(GenerateSettlementRequest $request): JsonResponse
     {
         $validated = $request->validated();
 
-        $userId = $validated['trainer_id'];
-        $periodStart = \Carbon\Carbon::parse($validated['period_start'])->startOfDay();
-        $periodEnd = \Carbon\Carbon::parse($validated['period_end'])->endOfDay();
-
-        // Convert user_id to staff_profile_id (Event.staff_id and ClassOccurrence.trainer_id reference staff_profiles.id)
-        $staffProfile = StaffProfile::where('user_id', $userId)->first();
-        $staffProfileId = $staffProfile?->id ?? $userId; // Fallback to userId if no profile found
+        $userId = (int) $validated['trainer_id'];
+        $periodStart = Carbon::parse($validated['period_start'])->startOfDay();
+        $periodEnd = Carbon::parse($validated['period_end'])->endOfDay();
 
-        // Calculate settlement data
-        $calculation = $this->pricingService->calculateSettlementForTrainer(
-            $staffProfileId,
-            $periodStart,
-            $periodEnd
-        );
+        // A finalized or paid settlement already covers (part of) this period
+        $locked = $this->generator->lockedOverlap($userId, $periodStart, $periodEnd);
 
-        // Create settlement within a transaction
-        $settlement = DB::transaction(function () use ($validated, $calculation) {
-            // Create settlement header
-            $settlement = Settlement::create([
-                'trainer_id' => $validated['trainer_id'],
-                'period_start' => $validated['period_start'],
-                'period_end' => $validated['period_end'],
-                'total_trainer_fee' => $calculation['total_trainer_fee'],
-                'total_entry_fee' => $calculation['total_entry_fee'],
-                'status' => 'draft',
-                'notes' => $validated['notes'] ?? null,
-                'created_by' => auth()->id(),
+        if ($locked) {
+            return ApiResponse::conflict('The period overlaps a finalized settlement of this trainer', [
+                'settlement_id' => $locked->id,
+                'period_start' => $locked->period_start->toDateString(),
+                'period_end' => $locked->period_end->toDateString(),
             ]);
+        }
 
-            // Create settlement items
-            foreach ($calculation['items'] as $item) {
-                // Skip individual events for now (settlement_items table doesn't have event_id column yet)
-                // Individual events are included in totals but not saved as separate items
-                if (empty($item['class_occurrence_id'])) {
-                    continue;
-                }
-
-                SettlementItem::create([
-                    'settlement_id' => $settlement->id,
-                    'class_occurrence_id' => $item['class_occurrence_id'],
-                    'client_id' => $item['client_id'],
-                    'registration_id' => $item['registration_id'] ?? 0,
-                    'entry_fee_brutto' => $item['entry_fee_brutto'],
-                    'trainer_fee_brutto' => $item['trainer_fee_brutto'],
-                    'currency' => $item['currency'],
-                    'status' => $item['status'],
-                ]);
-            }
-
-            return $settlement;
-        });
+        $settlement = $this->generator->createDraft(
+            $userId,
+            $periodStart,
+            $periodEnd,
+            $this->generator->calculate($userId, $periodStart, $periodEnd),
+            $validated['notes'] ?? null,
+            auth()->id()
+        );
 
         // Load relationships for response
         $settlement->load(['trainer', 'items.classOccurrence.template', 'items.client']);
@@ -179,6 +158,51 @@ public function generate(GenerateSettlementRequest $request): JsonResponse
         return ApiResponse::created($settlement, 'Settlement generated successfully');
     }
 
+    /**
+     * Preview the month of every active trainer before closing it.
+     *
+     * GET /api/v1/admin/settlements/month-close/preview?month={YYYY-MM}
+     */
+    public function monthClosePreview(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'month' => ['required', 'date_format:Y-m'],
+        ]);
+
+        $month = Carbon::createFromFormat('!Y-m', $validated['month']);
+        $trainers = $this->generator->previewMonth($month);
+
+        return ApiResponse::success([
+            'month' => $validated['month'],
+            'period_start' => $month->copy()->startOfMonth()->toDateString(),
+            'period_end' => $month->copy()->endOfMonth()->toDateString(),
+            'trainers' => $trainers,
+        ]);
+    }
+
+    /**
+     * Generate the draft settlements of a month for all (or the selected) trainers.
+     *
+     * POST /api/v1/admin/settlements/month-close
+     */
+    public function monthClose(GenerateMonthlySettlementsRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        $month = Carbon::createFromFormat('!Y-m', $validated['month']);
+        $trainerIds = isset($validated['trainer_ids'])
+            ? array_map('intval', $validated['trainer_ids'])
+            : null;
+
+        $result = $this->generator->generateMonth($month, $trainerIds, $request->user());
+
+        return ApiResponse::success([
+            'month' => $validated['month'],
+            'created' => $result['created'],
+            'skipped' => $result['skipped'],
+        ], count($result['created']) . ' settlement(s) generated');
+    }
+
     /**
      * Get settlement details with all items.
      *
@@ -186,13 +210,137 @@ public function generate(GenerateSettlementRequest $request): JsonResponse
      */
     public function show(int $id): JsonResponse
     {
-        $settlement = Settlement::with([
+        return ApiResponse::success($this->detail(Settlement::findOrFail($id)));
+    }
+
+    /**
+     * Update settlement notes. Status changes go through finalize / unlock / mark-paid.
+     *
+     * PATCH /api/v1/admin/settlements/{id}
+     */
+    public function update(int $id, Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'notes' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        $settlement = Settlement::findOrFail($id);
+        $this->lifecycle->assertEditable($settlement);
+
+        $settlement->update(['notes' => $validated['notes'] ?? null]);
+
+        return ApiResponse::success($this->detail($settlement), 'Settlement updated successfully');
+    }
+
+    /**
+     * Finalize a draft settlement, locking the trainer's sessions of the period.
+     *
+     * POST /api/v1/admin/settlements/{id}/finalize
+     */
+    public function finalize(int $id, Request $request): JsonResponse
+    {
+        $settlement = $this->lifecycle->finalize(Settlement::findOrFail($id), $request->user());
+
+        return ApiResponse::success($this->detail($settlement), 'Settlement finalized');
+    }
+
+    /**
+     * Unlock a finalized settlement back to draft, recording the reason.
+     *
+     * POST /api/v1/admin/settlements/{id}/unlock
+     */
+    public function unlock(int $id, UnlockSettlementRequest $request): JsonResponse
+    {
+        $settlement = $this->lifecycle->unlock(
+            Settlement::findOrFail($id),
+            $request->validated('reason'),
+            $request->user()
+        );
+
+        return ApiResponse::success($this->detail($settlement), 'Settlement unlocked');
+    }
+
+    /**
+     * Mark a finalized settlement as paid and record the payout.
+     *
+     * POST /api/v1/admin/settlements/{id}/mark-paid
+     */
+    public function markPaid(int $id, MarkSettlementPaidRequest $request): JsonResponse
+    {
+        $settlement = $this->lifecycle->markPaid(
+            Settlement::findOrFail($id),
+            Carbon::parse($request->validated('paid_at')),
+            $request->validated('payment_reference'),
+            $request->user()
+        );
+
+        return ApiResponse::success($this->detail($settlement), 'Settlement marked as paid');
+    }
+
+    /**
+     * Add a bonus or deduction line to a draft settlement.
+     *
+     * POST /api/v1/admin/settlements/{id}/adjustments
+     */
+    public function storeAdjustment(int $id, StoreSettlementAdjustmentRequest $request): JsonResponse
+    {
+        $settlement = Settlement::findOrFail($id);
+        $validated = $request->validated();
+
+        $this->lifecycle->addAdjustment(
+            $settlement,
+            $validated['type'],
+            (int) $validated['amount'],
+            $validated['reason'],
+            $request->user()
+        );
+
+        return ApiResponse::created($this->detail($settlement), 'Adjustment added');
+    }
+
+    /**
+     * Remove an adjustment line from a draft settlement.
+     *
+     * DELETE /api/v1/admin/settlements/{id}/adjustments/{adjustmentId}
+     */
+    public function destroyAdjustment(int $id, int $adjustmentId): JsonResponse
+    {
+        $settlement = Settlement::findOrFail($id);
+        $adjustment = $settlement->adjustments()->findOrFail($adjustmentId);
+
+        $this->lifecycle->removeAdjustment($settlement, $adjustment);
+
+        return ApiResponse::success($this->detail($settlement), 'Adjustment removed');
+    }
+
+    /**
+     * Download the trainer's payout statement as PDF.
+     *
+     * GET /api/v1/admin/settlements/{id}/statement
+     */
+    public function statement(int $id): Response
+    {
+        $settlement = Settlement::findOrFail($id);
+
+        return new Response($this->statements->render($settlement), 200, [
+            'Content-Type' => 'application/pdf',
+            'Content-Disposition' => 'attachment; filename="' . $this->statements->filename($settlement) . '"',
+            'Cache-Control' => 'max-age=0',
+        ]);
+    }
+
+    /**
+     * Settlement with items, adjustments and unlock history
+     */
+    private function detail(Settlement $settlement): array
+    {
+        $settlement->load([
             'trainer',
-            'creator',
             'items.classOccurrence.template',
             'items.client',
-            'items.registration',
-        ])->findOrFail($id);
+            'adjustments.creator',
+            'unlocks.user',
+        ]);
 
         // Transform items to include additional information
         $transformedItems = $settlement->items->map(function ($item) {
@@ -211,7 +359,7 @@ public function show(int $id): JsonResponse
             ];
         });
 
-        return ApiResponse::success([
+        return [
             'id' => $settlement->id,
             'trainer_id' => $settlement->trainer_id,
             'trainer_name' => $settlement->trainer->name ?? 'Unknown',
@@ -219,38 +367,33 @@ public function show(int $id): JsonResponse
             'period_end' => $settlement->period_end->toDateString(),
             'total_trainer_fee' => $settlement->total_trainer_fee,
             'total_entry_fee' => $settlement->total_entry_fee,
+            'total_adjustments' => $settlement->totalAdjustments(),
+            'total_payable' => $settlement->payableAmount(),
             'status' => $settlement->status,
+            'locked_at' => $settlement->locked_at?->toIso8601String(),
+            'paid_at' => $settlement->paid_at?->toDateString(),
+            'payment_reference' => $settlement->payment_reference,
+            'payout_id' => $settlement->payout_id,
             'notes' => $settlement->notes,
             'created_by' => $settlement->created_by,
             'created_at' => $settlement->created_at->toIso8601String(),
             'updated_at' => $settlement->updated_at->toIso8601String(),
             'items_count' => $settlement->items->count(),
             'items' => $transformedItems,
-        ]);
-    }
-
-    /**
-     * Update settlement status (finalize or mark as paid).
-     *
-     * PATCH /api/v1/admin/settlements/{id}
-     */
-    public function updateStatus(int $id, Request $request): JsonResponse
-    {
-        $validated = $request->validate([
-            'status' => ['required', 'string', 'in:draft,finalized,paid'],
-            'notes' => ['nullable', 'string', 'max:1000'],
-        ]);
-
-        $settlement = Settlement::findOrFail($id);
-
-        // Update status and notes
-        $settlement->update([
-            'status' => $validated['status'],
-            'notes' => $validated['notes'] ?? $settlement->notes,
-        ]);
-
-        $settlement->load(['trainer', 'items']);
-
-        return ApiResponse::success($settlement, 'Settlement status updated successfully');
+            'adjustments' => $settlement->adjustments->map(fn (SettlementAdjustment $adjustment) => [
+                'id' => $adjustment->id,
+                'type' => $adjustment->type,
+                'amount' => $adjustment->amount,
+                'reason' => $adjustment->reason,
+                'created_by_name' => $adjustment->creator?->name,
+                'created_at' => $adjustment->created_at->toIso8601String(),
+            ])->values(),
+            'unlocks' => $settlement->unlocks->sortByDesc('created_at')->map(fn (SettlementUnlock $unlock) => [
+                'id' => $unlock->id,
+                'reason' => $unlock->reason,
+                'unlocked_by_name' => $unlock->user?->name,
+                'created_at' => $unlock->created_at->toIso8601String(),
+            ])->values(),
+        ];
     }
 }
@@ -0,0 +1,117 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\User;
+use App\Services\CalendarFeedService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Http\Response;
+
+class CalendarFeedController extends Controller
+{
+    public function __construct(
+        private readonly CalendarFeedService $feeds
+    ) {}
+
+    /**
+     * GET /api/v1/calendar-feed
+     *
+     * The current user's feed subscription (url is null while there is none).
+     */
+    public function show(Request $request): JsonResponse
+    {
+        return ApiResponse::success($this->subscription($request->user()));
+    }
+
+    /**
+     * POST /api/v1/calendar-feed
+     *
+     * Create the feed URL, or replace it with a new one (the old URL stops working).
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        if (!$user->staffProfile && !$user->client) {
+            return ApiResponse::forbidden('Only staff and clients have a calendar feed');
+        }
+
+        $this->feeds->issueToken($user);
+
+        return ApiResponse::success($this->subscription($user), 'Calendar feed URL created');
+    }
+
+    /**
+     * DELETE /api/v1/calendar-feed
+     *
+     * Revoke the feed URL.
+     */
+    public function destroy(Request $request): JsonResponse
+    {
+        $this->feeds->revoke($request->user());
+
+        return ApiResponse::success($this->subscription($request->user()), 'Calendar feed URL revoked');
+    }
+
+    /**
+     * GET /api/v1/calendar-feed/{token}.ics (public, the token is the credential)
+     */
+    public function feed(string $token): Response
+    {
+        $user = $this->feeds->findUserByToken($token);
+
+        abort_if(!$user || !$user->isActive(), 404);
+
+        // One write per hour is enough to show when the feed was last used
+        if (!$user->calendar_feed_accessed_at || $user->calendar_feed_accessed_at->lt(now()->subHour())) {
+            $user->forceFill(['calendar_feed_accessed_at' => now()])->saveQuietly();
+        }
+
+        return new Response($this->feeds->renderFeed($user), 200, [
+            'Content-Type' => 'text/calendar; charset=utf-8',
+            'Content-Disposition' => 'inline; filename="calendar.ics"',
+            'Cache-Control' => 'private, max-age=300',
+        ]);
+    }
+
+    /**
+     * GET /api/v1/classes/{occurrenceId}/ics
+     *
+     * "Add to calendar" download of a class, reflecting the client's own registration if any.
+     */
+    public function classOccurrence(Request $request, int $occurrenceId): Response
+    {
+        $occurrence = ClassOccurrence::findOrFail($occurrenceId);
+
+        $registration = $request->user()->client
+            ? ClassRegistration::where('occurrence_id', $occurrence->id)
+                ->where('client_id', $request->user()->client->id)
+                ->latest()
+                ->first()
+            : null;
+
+        return new Response($this->feeds->renderOccurrence($occurrence, $registration), 200, [
+            'Content-Type' => 'text/calendar; charset=utf-8',
+            'Content-Disposition' => 'attachment; filename="class-' . $occurrence->id . '.ics"',
+        ]);
+    }
+
+    private function subscription(User $user): array
+    {
+        $url = $this->feeds->feedUrl($user);
+
+        return [
+            'url' => $url,
+            'webcal_url' => $url ? preg_replace('#^https?://#', 'webcal://', $url) : null,
+            'created_at' => $user->calendar_feed_created_at?->toIso8601String(),
+            'last_accessed_at' => $user->calendar_feed_accessed_at?->toIso8601String(),
+        ];
+    }
+}
@@ -7,20 +7,24 @@
 use App\Http\Controllers\Controller;
 use App\Http\Requests\Classes\BookClassRequest;
 use App\Http\Requests\Classes\CancelBookingRequest;
+use App\Http\Requests\Classes\SwapBookingRequest;
 use App\Http\Responses\ApiResponse;
 use App\Models\ClassOccurrence;
 use App\Models\ClassRegistration;
 use App\Services\NotificationService;
+use App\Services\WaitlistService;
 use App\Services\PassCreditService;
 use App\Exceptions\PolicyViolationException;
 use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
 use Illuminate\Support\Facades\DB;
 
 class ClassBookingController extends Controller
 {
     public function __construct(
         private readonly PassCreditService $passCreditService,
-        private readonly NotificationService $notificationService
+        private readonly NotificationService $notificationService,
+        private readonly WaitlistService $waitlistService
     ) {}
 
     /**
@@ -179,7 +183,8 @@ public function cancel(CancelBookingRequest $request, int $occurrenceId): JsonRe
                     $this->passCreditService->refundCredit(
                         $registration->client,
                         $creditsUsed,
-                        "Refund for cancelled class: {$occurrence->template->title}"
+                        "Refund for cancelled class: {$occurrence->template->title}",
+                        context: ['class_registration_id' => $registration->id]
                     );
                     $refundMessage = ' and credit refunded';
                 } elseif ($paymentStatus === 'unpaid') {
@@ -201,57 +206,124 @@ public function cancel(CancelBookingRequest $request, int $occurrenceId): JsonRe
     }
 
     /**
-     * Promote the first waitlisted person to confirmed
+     * Other occurrences of the same class the booking can be swapped to
      *
-     * When promoting from waitlist, we need to handle payment:
-     * - If client has active pass: deduct credits, set payment_status = 'paid'
-     * - If no active pass: add to unpaid_balance, set payment_status = 'unpaid'
+     * GET /api/classes/{occurrenceId}/swap-options
      */
-    private function promoteFromWaitlist(ClassOccurrence $occurrence): void
+    public function swapOptions(Request $request, int $occurrenceId): JsonResponse
+    {
+        $client = $request->user()->client;
+
+        if (!$client) {
+            return ApiResponse::error('Only clients can reschedule bookings', null, 403);
+        }
+
+        $occurrence = ClassOccurrence::findOrFail($occurrenceId);
+
+        $registeredOccurrenceIds = ClassRegistration::where('client_id', $client->id)
+            ->whereIn('status', ['booked', 'waitlist'])
+            ->pluck('occurrence_id');
+
+        $options = ClassOccurrence::with(['room', 'trainer.user'])
+            ->withCount(['registrations as booked_count' => fn ($q) => $q->whereIn('status', ['booked', 'attended'])])
+            ->where('template_id', $occurrence->template_id)
+            ->where('id', '!=', $occurrence->id)
+            ->whereNotIn('id', $registeredOccurrenceIds)
+            ->upcoming()
+            ->limit(50)
+            ->get()
+            ->filter(fn (ClassOccurrence $option) => $option->booked_count < $option->capacity)
+            ->map(fn (ClassOccurrence $option) => [
+                'id' => $option->id,
+                'starts_at' => $option->starts_at,
+                'ends_at' => $option->ends_at,
+                'room' => $option->room?->name,
+                'trainer' => $option->trainer?->user?->name,
+                'available_spots' => $option->capacity - $option->booked_count,
+            ])
+            ->values();
+
+        return ApiResponse::success($options);
+    }
+
+    /**
+     * Move a booking to another occurrence of the same class
+     *
+     * POST /api/classes/{occurrenceId}/swap
+     *
+     * The registration is moved as is, so the credit (or unpaid balance) of the
+     * original booking carries over. Same deadline as a free cancellation.
+     */
+    public function swap(SwapBookingRequest $request, int $occurrenceId): JsonResponse
     {
-        // Ensure template is loaded
-        if (!$occurrence->relationLoaded('template')) {
-            $occurrence->load('template');
+        $client = $request->user()->client;
+
+        if (!$client) {
+            return ApiResponse::error('Only clients can reschedule bookings', null, 403);
         }
 
-        $nextWaitlisted = ClassRegistration::with(['client.user'])
-            ->where('occurrence_id', $occurrence->id)
-            ->where('status', 'waitlist')
-            ->orderBy('booked_at')
+        $registration = ClassRegistration::where('occurrence_id', $occurrenceId)
+            ->where('client_id', $client->id)
+            ->where('status', 'booked')
             ->first();
 
-        if ($nextWaitlisted) {
-            $client = $nextWaitlisted->client;
-            $hasActivePass = $this->passCreditService->hasAvailableCredits($client);
-            $creditsRequired = $occurrence->template?->credits_required ?? 1;
+        if (!$registration) {
+            return ApiResponse::error('No booking found for this class', null, 404);
+        }
 
-            $creditsUsed = 0;
-            $paymentStatus = 'unpaid';
-
-            if ($hasActivePass) {
-                // Has active pass - deduct credits
-                $templateTitle = $occurrence->template?->title ?? 'Class';
-                $this->passCreditService->deductCredit(
-                    $client,
-                    "Promoted from waitlist: {$templateTitle}"
-                );
-                $creditsUsed = $creditsRequired;
-                $paymentStatus = 'paid';
-            } else {
-                // No active pass - add to unpaid balance
-                $creditPriceHuf = (int) ($occurrence->template?->base_price_huf ?? config('booking.credit_price_huf', 1000));
-                $unpaidAmount = $creditPriceHuf * $creditsRequired;
-                $client->increment('unpaid_balance', $unpaidAmount);
+        $occurrence = ClassOccurrence::with('template')->findOrFail($occurrenceId);
+        $targetId = (int) $request->validated('target_occurrence_id');
+
+        $cancellationWindowHours = (int) config('booking.cancellation_window_hours', 24);
+        if (now()->diffInHours($occurrence->starts_at, absolute: false) < $cancellationWindowHours) {
+            return ApiResponse::error('Cannot reschedule within 24 hours of class start', null, 423);
+        }
+
+        return DB::transaction(function () use ($registration, $occurrence, $targetId, $client) {
+            // Lock the target so two clients can't take its last spot at the same time
+            $target = ClassOccurrence::with('template')->lockForUpdate()->findOrFail($targetId);
+
+            if ($target->id === $occurrence->id || $target->template_id !== $occurrence->template_id) {
+                throw new PolicyViolationException('Bookings can only be moved to another date of the same class');
             }
 
-            $nextWaitlisted->update([
-                'status' => 'booked',
-                'credits_used' => $creditsUsed,
-                'payment_status' => $paymentStatus,
-            ]);
+            if ($target->status !== 'scheduled' || $target->starts_at <= now()) {
+                throw new PolicyViolationException('Cannot move booking to a past or cancelled class');
+            }
 
-            // Notify promoted client
-            $this->notificationService->sendWaitlistPromotion($nextWaitlisted);
-        }
+            $alreadyRegistered = ClassRegistration::where('occurrence_id', $target->id)
+                ->where('client_id', $client->id)
+                ->whereIn('status', ['booked', 'waitlist'])
+                ->exists();
+
+            if ($alreadyRegistered) {
+                return ApiResponse::error('Already registered for this class', null, 409);
+            }
+
+            $confirmedCount = $target->registrations()->whereIn('status', ['booked', 'attended'])->count();
+            if ($confirmedCount >= $target->capacity) {
+                return ApiResponse::conflict('The selected class is full');
+            }
+
+            $registration->update(['occurrence_id' => $target->id]);
+
+            // The freed spot goes to the waitlist of the original class
+            $this->promoteFromWaitlist($occurrence);
+
+            $this->notificationService->sendBookingConfirmation($registration);
+
+            return ApiResponse::success(
+                $registration->load(['occurrence', 'client']),
+                'Booking moved'
+            );
+        });
+    }
+
+    /**
+     * Promote the first waitlisted person to confirmed
+     */
+    private function promoteFromWaitlist(ClassOccurrence $occurrence): void
+    {
+        $this->waitlistService->promoteNext($occurrence);
     }
 }
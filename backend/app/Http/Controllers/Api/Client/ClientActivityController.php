@@ -9,11 +9,16 @@
 use App\Models\ClassRegistration;
 use App\Models\Event;
 use App\Models\Pass;
+use App\Services\WaitlistService;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 
 class ClientActivityController extends Controller
 {
+    public function __construct(
+        private readonly WaitlistService $waitlistService
+    ) {}
+
     /**
      * Get client's activity history (classes + 1:1 events)
      *
@@ -210,6 +215,8 @@ public function upcoming(Request $request, int $clientId): JsonResponse
                 'ends_at' => $occurrence->ends_at->toIso8601String(),
                 'trainer' => $occurrence->trainer->user->name ?? null,
                 'room' => $occurrence->room->name ?? null,
+                'status' => $registration->status,
+                'waitlist_position' => $this->waitlistService->positionOf($registration),
                 'can_cancel' => $canCancel,
                 'cancellation_deadline' => $cancellationDeadline->toIso8601String(),
             ]);
@@ -235,6 +242,8 @@ public function upcoming(Request $request, int $clientId): JsonResponse
                 'ends_at' => $event->ends_at->toIso8601String(),
                 'trainer' => $event->staff->user->name ?? null,
                 'room' => $event->room->name ?? null,
+                // "pending" until the trainer confirms an online booking
+                'status' => $event->status,
                 'can_cancel' => $canCancel,
                 'cancellation_deadline' => $cancellationDeadline->toIso8601String(),
             ]);
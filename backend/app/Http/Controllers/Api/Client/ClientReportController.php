@@ -7,14 +7,19 @@
 use App\Http\Controllers\Controller;
 use App\Http\Requests\Reports\ClientMyActivityRequest;
 use App\Http\Requests\Reports\ClientMyFinanceRequest;
+use App\Http\Requests\Reports\ClientMyStatementRequest;
 use App\Http\Responses\ApiResponse;
+use App\Services\ClientStatementService;
 use App\Services\ReportService;
+use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Response;
 
 class ClientReportController extends Controller
 {
     public function __construct(
-        private readonly ReportService $reportService
+        private readonly ReportService $reportService,
+        private readonly ClientStatementService $statements
     ) {}
 
     /**
@@ -57,7 +62,8 @@ public function myActivity(ClientMyActivityRequest $request): JsonResponse
      * GET /api/v1/reports/client/my-finance
      *
      * Generate finance report for authenticated client.
-     * Shows pass purchases and credit usage grouped by month.
+     * Shows pass purchases and credit usage grouped by month, the entry fee
+     * charged per session and the outstanding balance.
      */
     public function myFinance(ClientMyFinanceRequest $request): JsonResponse
     {
@@ -88,4 +94,26 @@ public function myFinance(ClientMyFinanceRequest $request): JsonResponse
             return ApiResponse::error('Failed to generate report', ['error' => $e->getMessage()], 500);
         }
     }
+
+    /**
+     * GET /api/v1/reports/client/my-statement
+     *
+     * Download the authenticated client's monthly account statement as PDF.
+     */
+    public function myStatement(ClientMyStatementRequest $request): Response|JsonResponse
+    {
+        $client = $request->user()->client;
+
+        if (!$client) {
+            return ApiResponse::forbidden('Only clients can access this report');
+        }
+
+        $month = Carbon::parse($request->validated()['month'] . '-01')->startOfMonth();
+
+        return new Response($this->statements->render($client->loadMissing('user'), $month), 200, [
+            'Content-Type' => 'application/pdf',
+            'Content-Disposition' => 'attachment; filename="' . $this->statements->filename($month) . '"',
+            'Cache-Control' => 'max-age=0',
+        ]);
+    }
 }
@@ -0,0 +1,63 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Client;
+
+use App\Exceptions\ConflictException;
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Services\SelfBookingService;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class SessionBookingController extends Controller
+{
+    public function __construct(
+        private readonly SelfBookingService $selfBookingService
+    ) {}
+
+    /**
+     * Book an individual session from the public site (pending until the trainer confirms)
+     *
+     * POST /api/sessions/book
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $client = $request->user()->client;
+
+        if (!$client) {
+            return ApiResponse::error('Only clients can book sessions', null, 403);
+        }
+
+        $validated = $request->validate([
+            'service_type_id' => ['required', 'integer', 'exists:service_types,id'],
+            'staff_id' => ['required', 'integer', 'exists:staff_profiles,id'],
+            'starts_at' => ['required', 'date'],
+            'notes' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        try {
+            $event = $this->selfBookingService->book(
+                $client,
+                StaffProfile::findOrFail($validated['staff_id']),
+                ServiceType::findOrFail($validated['service_type_id']),
+                Carbon::parse($validated['starts_at']),
+                $validated['notes'] ?? null,
+                $request->user()
+            );
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['staff_id' => [$e->getMessage()]]);
+        } catch (ConflictException $e) {
+            return ApiResponse::conflict($e->getMessage(), $e->getDetails() ?? []);
+        }
+
+        return ApiResponse::created(
+            $event->load(['room.site', 'staff.user', 'serviceType']),
+            'Booking request sent, the trainer will confirm it soon'
+        );
+    }
+}
@@ -0,0 +1,84 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Http\Requests\RecordClientPaymentRequest;
+use App\Http\Responses\ApiResponse;
+use App\Models\Client;
+use App\Services\ClientLedgerService;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class ClientLedgerController extends Controller
+{
+    public function __construct(
+        private readonly ClientLedgerService $ledgerService
+    ) {}
+
+    /**
+     * Charges and payments of a client with a running balance.
+     *
+     * GET /api/v1/staff/clients/{clientId}/ledger
+     */
+    public function show(Request $request, int $clientId): JsonResponse
+    {
+        $validated = $request->validate([
+            'from' => ['nullable', 'date'],
+            'to' => ['nullable', 'date', 'after_or_equal:from'],
+        ]);
+
+        $client = Client::with('user')->findOrFail($clientId);
+
+        $ledger = $this->ledgerService->ledger(
+            $client,
+            isset($validated['from']) ? Carbon::parse($validated['from'])->startOfDay() : null,
+            isset($validated['to']) ? Carbon::parse($validated['to'])->endOfDay() : null
+        );
+
+        return ApiResponse::success(array_merge([
+            'client_id' => $client->id,
+            'client_name' => $client->user?->name ?? $client->full_name,
+            'unpaid_balance' => (float) $client->unpaid_balance,
+        ], $ledger));
+    }
+
+    /**
+     * Record a payment received from a client.
+     *
+     * POST /api/v1/staff/clients/{clientId}/payments
+     */
+    public function storePayment(RecordClientPaymentRequest $request, int $clientId): JsonResponse
+    {
+        $client = Client::findOrFail($clientId);
+
+        $payment = $this->ledgerService->recordPayment($client, $request->validated(), $request->user());
+
+        return ApiResponse::created($payment->load('recorder:id,name'), 'Payment recorded');
+    }
+
+    /**
+     * Clients with an outstanding balance, largest first.
+     *
+     * GET /api/v1/admin/reports/admin/outstanding-balances
+     */
+    public function outstanding(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'min_balance' => ['nullable', 'integer', 'min:1'],
+        ]);
+
+        $rows = $this->ledgerService->outstandingBalances((int) ($validated['min_balance'] ?? 1));
+
+        return ApiResponse::success([
+            'clients' => $rows,
+            'summary' => [
+                'client_count' => $rows->count(),
+                'total_outstanding' => (int) $rows->sum('balance'),
+            ],
+        ]);
+    }
+}
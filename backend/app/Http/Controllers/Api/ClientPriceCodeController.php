@@ -5,15 +5,22 @@
 namespace App\Http\Controllers\Api;
 
 use App\Http\Controllers\Controller;
+use App\Http\Requests\ScheduleClientPriceChangeRequest;
 use App\Http\Requests\StoreClientPriceCodeRequest;
 use App\Http\Requests\UpdateClientPriceCodeRequest;
 use App\Http\Responses\ApiResponse;
 use App\Models\Client;
 use App\Models\ClientPriceCode;
+use App\Services\PriceScheduleService;
+use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 
 class ClientPriceCodeController extends Controller
 {
+    public function __construct(
+        private readonly PriceScheduleService $scheduler
+    ) {}
+
     /**
      * List all price codes for a client.
      */
@@ -74,4 +81,52 @@ public function toggleActive(ClientPriceCode $clientPriceCode): JsonResponse
 
         return ApiResponse::success($clientPriceCode);
     }
+
+    /**
+     * Preview a future price change of a service type across clients.
+     *
+     * GET /api/v1/admin/client-price-codes/scheduled-changes/preview
+     */
+    public function scheduleChangePreview(ScheduleClientPriceChangeRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        $clients = $this->scheduler->preview(
+            (int) $validated['service_type_id'],
+            Carbon::parse($validated['effective_from']),
+            $validated['mode'],
+            (float) $validated['entry_fee_change'],
+            (float) ($validated['trainer_fee_change'] ?? 0)
+        );
+
+        return ApiResponse::success([
+            'effective_from' => $validated['effective_from'],
+            'clients' => $clients,
+        ]);
+    }
+
+    /**
+     * Schedule a future price change of a service type for all (or the selected) clients.
+     *
+     * POST /api/v1/admin/client-price-codes/scheduled-changes
+     */
+    public function scheduleChange(ScheduleClientPriceChangeRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        $result = $this->scheduler->schedule(
+            (int) $validated['service_type_id'],
+            Carbon::parse($validated['effective_from']),
+            $validated['mode'],
+            (float) $validated['entry_fee_change'],
+            (float) ($validated['trainer_fee_change'] ?? 0),
+            $validated['client_ids'] ?? null,
+            $request->user()
+        );
+
+        return ApiResponse::success(
+            $result,
+            count($result['created']) . ' price change(s) scheduled'
+        );
+    }
 }
@@ -84,6 +84,8 @@ public function show(Request $request, int $id): JsonResponse
             'export_id' => $export->id,
             'report_key' => $export->report_key,
             'format' => $export->format,
+            'file_name' => $export->downloadFilename(),
+            'params' => $export->params,
             'status' => $export->status,
             'created_at' => $export->created_at->toIso8601String(),
             'started_at' => $export->started_at?->toIso8601String(),
@@ -124,14 +126,7 @@ public function download(Request $request, int $id): StreamedResponse|JsonRespon
             return ApiResponse::error('Export file not found', null, 404);
         }
 
-        $filename = sprintf(
-            '%s_%s.%s',
-            str_replace('.', '_', $export->report_key),
-            $export->created_at->format('Ymd'),
-            $export->format
-        );
-
-        return Storage::disk('local')->download($export->file_path, $filename);
+        return Storage::disk('local')->download($export->file_path, $export->downloadFilename());
     }
 
     /**
@@ -149,10 +144,14 @@ public function index(Request $request): JsonResponse
                 'export_id' => $export->id,
                 'report_key' => $export->report_key,
                 'format' => $export->format,
+                'file_name' => $export->downloadFilename(),
+                'params' => $export->params,
                 'status' => $export->status,
                 'created_at' => $export->created_at->toIso8601String(),
                 'completed_at' => $export->completed_at?->toIso8601String(),
                 'download_url' => $export->isReady() ? route('exports.download', ['id' => $export->id]) : null,
+                'file_size' => $export->isReady() ? $export->file_size : null,
+                'error_message' => $export->hasFailed() ? $export->error_message : null,
             ]);
 
         return ApiResponse::success([
@@ -21,19 +21,21 @@ public function __construct(
      * Resolve pricing by client email and service type code.
      * Used by staff UI when creating events.
      *
-     * GET /api/v1/pricing/resolve?client_email=test@example.com&service_type_code=PT
+     * GET /api/v1/pricing/resolve?client_email=test@example.com&service_type_code=PT&date=2026-04-01
      */
     public function resolve(Request $request): JsonResponse
     {
         $request->validate([
             'client_email' => 'required|email',
             'service_type_code' => 'required|string|max:64',
+            'date' => 'nullable|date',
         ]);
 
         try {
             $pricing = $this->priceCodeService->resolveByEmailAndServiceType(
                 $request->input('client_email'),
-                $request->input('service_type_code')
+                $request->input('service_type_code'),
+                $request->date('date')
             );
 
             return ApiResponse::success($pricing);
@@ -45,19 +47,21 @@ public function resolve(Request $request): JsonResponse
     /**
      * Resolve pricing by client ID and service type ID.
      *
-     * GET /api/v1/pricing/resolve-by-ids?client_id=1&service_type_id=1
+     * GET /api/v1/pricing/resolve-by-ids?client_id=1&service_type_id=1&date=2026-04-01
      */
     public function resolveByIds(Request $request): JsonResponse
     {
         $request->validate([
             'client_id' => 'required|integer|exists:clients,id',
             'service_type_id' => 'required|integer|exists:service_types,id',
+            'date' => 'nullable|date',
         ]);
 
         try {
             $pricing = $this->priceCodeService->resolveByClientAndServiceType(
                 (int) $request->input('client_id'),
-                (int) $request->input('service_type_id')
+                (int) $request->input('service_type_id'),
+                $request->date('date')
             );
 
             return ApiResponse::success($pricing);
@@ -8,11 +8,19 @@
 use App\Http\Resources\ClassOccurrenceResource;
 use App\Http\Responses\ApiResponse;
 use App\Models\ClassOccurrence;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Services\SelfBookingService;
+use Carbon\Carbon;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 
 class PublicController extends Controller
 {
+    public function __construct(
+        private readonly SelfBookingService $selfBookingService
+    ) {}
+
     /**
      * List public class occurrences (unauthenticated)
      *
@@ -72,4 +80,74 @@ public function listClasses(Request $request): JsonResponse
 
         return ApiResponse::success(ClassOccurrenceResource::collection($classes));
     }
+
+    /**
+     * List service types bookable online (unauthenticated)
+     *
+     * GET /api/v1/public/service-types
+     */
+    public function listServiceTypes(): JsonResponse
+    {
+        $serviceTypes = ServiceType::where('is_active', true)
+            ->orderBy('name')
+            ->get(['id', 'code', 'name', 'description', 'default_entry_fee_brutto']);
+
+        return ApiResponse::success($serviceTypes->map(fn (ServiceType $type) => [
+            'id' => $type->id,
+            'code' => $type->code,
+            'name' => $type->name,
+            'description' => $type->description,
+            'price_brutto' => $type->default_entry_fee_brutto,
+            'session_minutes' => (int) config('booking.self_booking.session_minutes', 60),
+        ]));
+    }
+
+    /**
+     * List trainers bookable online for a service type (unauthenticated)
+     *
+     * GET /api/v1/public/trainers?service_type_id={id}
+     */
+    public function listTrainers(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'service_type_id' => ['required', 'integer', 'exists:service_types,id'],
+        ]);
+
+        $serviceType = ServiceType::findOrFail($validated['service_type_id']);
+
+        return ApiResponse::success($this->selfBookingService->bookableTrainers($serviceType)->map(fn (StaffProfile $staff) => [
+            'id' => $staff->id,
+            'name' => $staff->user?->name,
+            'specialization' => $staff->specialization,
+            'bio' => $staff->bio,
+            'default_site' => $staff->default_site,
+        ]));
+    }
+
+    /**
+     * Free individual session slots of a trainer (unauthenticated)
+     *
+     * GET /api/v1/public/trainers/{staffId}/slots?service_type_id={id}&from={date}&to={date}
+     */
+    public function listTrainerSlots(Request $request, int $staffId): JsonResponse
+    {
+        $validated = $request->validate([
+            'service_type_id' => ['required', 'integer', 'exists:service_types,id'],
+            'from' => ['required', 'date'],
+            'to' => ['required', 'date', 'after_or_equal:from'],
+        ]);
+
+        $staff = StaffProfile::findOrFail($staffId);
+        $serviceType = ServiceType::findOrFail($validated['service_type_id']);
+
+        if (!$this->selfBookingService->isBookable($staff, $serviceType)) {
+            return ApiResponse::error('Trainer is not bookable online for this service type', null, 404);
+        }
+
+        $from = Carbon::parse($validated['from']);
+        // Keeps a single request small, the booking window is enforced by the service
+        $to = Carbon::parse($validated['to'])->min($from->copy()->addDays(13));
+
+        return ApiResponse::success($this->selfBookingService->slots($staff, $from, $to));
+    }
 }
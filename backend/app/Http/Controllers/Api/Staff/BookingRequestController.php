@@ -0,0 +1,78 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Staff;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\Event;
+use App\Services\SelfBookingService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class BookingRequestController extends Controller
+{
+    public function __construct(
+        private readonly SelfBookingService $selfBookingService
+    ) {}
+
+    /**
+     * Pending online bookings (own sessions for staff, every trainer's for admins)
+     *
+     * GET /api/staff/booking-requests
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        $events = Event::with(['client.user', 'staff.user', 'room', 'serviceType'])
+            ->where('status', 'pending')
+            ->where('starts_at', '>', now())
+            ->when(!$user->isAdmin(), fn ($q) => $q->where('staff_id', $user->staffProfile?->id))
+            ->orderBy('starts_at')
+            ->get();
+
+        return ApiResponse::success($events);
+    }
+
+    /**
+     * Confirm a pending online booking
+     *
+     * POST /api/staff/events/{id}/confirm
+     */
+    public function confirm(Request $request, int $id): JsonResponse
+    {
+        $event = Event::with('staff')->findOrFail($id);
+
+        $this->authorize('update', $event);
+
+        try {
+            $event = $this->selfBookingService->confirm($event, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['status' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($event->load(['client.user', 'room', 'serviceType']), 'Booking confirmed');
+    }
+
+    /**
+     * Decline a pending online booking
+     *
+     * POST /api/staff/events/{id}/decline
+     */
+    public function decline(Request $request, int $id): JsonResponse
+    {
+        $event = Event::with('staff')->findOrFail($id);
+
+        $this->authorize('update', $event);
+
+        try {
+            $event = $this->selfBookingService->decline($event, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['status' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($event->load(['client.user', 'room', 'serviceType']), 'Booking declined');
+    }
+}
@@ -0,0 +1,160 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Staff;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Services\CalendarRealtimeService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use Symfony\Component\HttpFoundation\StreamedResponse;
+
+class CalendarStreamController extends Controller
+{
+    public function __construct(
+        private readonly CalendarRealtimeService $realtime
+    ) {}
+
+    /**
+     * Server-Sent Events stream of calendar changes and edit markers
+     *
+     * Emits `calendar.ready` with the starting position, `calendar.update` for every event /
+     * class occurrence change (the SSE id is the update id), `calendar.editing` whenever the
+     * set of open edit forms changes and `calendar.resync` when the requested position was
+     * already pruned. The response is closed after `realtime.stream_seconds`, the client
+     * reconnects with Last-Event-ID.
+     *
+     * GET /api/staff/calendar/stream?since={updateId}
+     */
+    public function stream(Request $request): StreamedResponse
+    {
+        $since = $request->header('Last-Event-ID') ?? $request->query('since');
+        $lastId = is_numeric($since) ? (int) $since : $this->realtime->latestId();
+
+        return response()->stream(function () use ($lastId) {
+            $deadline = microtime(true) + (int) config('realtime.stream_seconds', 30);
+            $pollInterval = max(200, (int) config('realtime.poll_interval_ms', 1000));
+            $editorsHash = null;
+            $lastSentAt = microtime(true);
+
+            echo "retry: 2000\n\n";
+
+            if ($this->realtime->needsResync($lastId)) {
+                $lastId = $this->realtime->latestId();
+                $this->sendEvent('calendar.resync', ['last_id' => $lastId], $lastId);
+            } else {
+                // Tells the client where to resume from even if no update arrives
+                $this->sendEvent('calendar.ready', ['last_id' => $lastId], $lastId);
+            }
+
+            while (microtime(true) < $deadline) {
+                foreach ($this->realtime->updatesSince($lastId) as $update) {
+                    $lastId = $update['id'];
+                    $this->sendEvent('calendar.update', $update, $lastId);
+                    $lastSentAt = microtime(true);
+                }
+
+                $editors = $this->realtime->activeEditors();
+                $hash = md5((string) json_encode($editors));
+                if ($hash !== $editorsHash) {
+                    $editorsHash = $hash;
+                    $this->sendEvent('calendar.editing', ['editors' => $editors]);
+                    $lastSentAt = microtime(true);
+                } elseif (microtime(true) - $lastSentAt > 15) {
+                    // Comment line keeps proxies from closing an idle connection
+                    echo ": ping\n\n";
+                    $this->flush();
+                    $lastSentAt = microtime(true);
+                }
+
+                if (connection_aborted()) {
+                    break;
+                }
+
+                usleep($pollInterval * 1000);
+            }
+        }, 200, [
+            'Content-Type' => 'text/event-stream',
+            'Cache-Control' => 'no-cache',
+            'Connection' => 'keep-alive',
+            'X-Accel-Buffering' => 'no',
+        ]);
+    }
+
+    /**
+     * Mark an event or class occurrence as being edited (call again as heartbeat)
+     *
+     * POST /api/staff/calendar/editing
+     */
+    public function startEditing(Request $request): JsonResponse
+    {
+        $validated = $this->validateEditingTarget($request);
+
+        $session = $this->realtime->startEditing(
+            $request->user(),
+            $validated['entity_type'],
+            (int) $validated['entity_id']
+        );
+
+        return ApiResponse::success([
+            'entity_type' => $session->entity_type,
+            'entity_id' => $session->entity_id,
+            'heartbeat_at' => $session->heartbeat_at?->toIso8601String(),
+            'ttl_seconds' => (int) config('realtime.edit_session_ttl_seconds', 60),
+        ]);
+    }
+
+    /**
+     * Release the edit marker when the edit form is closed
+     *
+     * DELETE /api/staff/calendar/editing
+     */
+    public function stopEditing(Request $request): JsonResponse
+    {
+        $validated = $this->validateEditingTarget($request);
+
+        $this->realtime->stopEditing(
+            $request->user(),
+            $validated['entity_type'],
+            (int) $validated['entity_id']
+        );
+
+        return ApiResponse::success(null, 'Edit marker released');
+    }
+
+    /**
+     * @return array{entity_type: string, entity_id: int}
+     */
+    private function validateEditingTarget(Request $request): array
+    {
+        return $request->validate([
+            'entity_type' => ['required', Rule::in([
+                CalendarRealtimeService::ENTITY_EVENT,
+                CalendarRealtimeService::ENTITY_CLASS_OCCURRENCE,
+            ])],
+            'entity_id' => ['required', 'integer', 'min:1'],
+        ]);
+    }
+
+    private function sendEvent(string $event, array $data, ?int $id = null): void
+    {
+        if ($id !== null) {
+            echo "id: {$id}\n";
+        }
+        echo "event: {$event}\n";
+        echo 'data: ' . json_encode($data) . "\n\n";
+
+        $this->flush();
+    }
+
+    private function flush(): void
+    {
+        if (ob_get_level() > 0) {
+            ob_flush();
+        }
+        flush();
+    }
+}
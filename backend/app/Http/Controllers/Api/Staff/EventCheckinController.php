@@ -101,7 +101,8 @@ private function checkinMainClient(Event $event, string $attendanceStatus): Json
             try {
                 $this->passCreditService->deductCredit(
                     $event->client,
-                    "1:1 session check-in for event #{$event->id}"
+                    "1:1 session check-in for event #{$event->id}",
+                    ['event_id' => $event->id]
                 );
                 $creditDeducted = true;
             } catch (\Exception $e) {
@@ -143,7 +144,8 @@ private function checkinAdditionalClient(Event $event, $client, string $attendan
             try {
                 $this->passCreditService->deductCredit(
                     $client,
-                    "1:1 session check-in for event #{$event->id} (additional guest)"
+                    "1:1 session check-in for event #{$event->id} (additional guest)",
+                    ['event_id' => $event->id]
                 );
                 $creditDeducted = true;
             } catch (\Exception $e) {
@@ -162,10 +164,15 @@ private function checkinAdditionalClient(Event $event, $client, string $attendan
     }
 
     /**
-     * Check in clients for a group class
+     * Check in clients for a group class (attendance sheet)
      *
      * POST /api/staff/classes/{occurrenceId}/checkin
      * Body: { "registrations": [{"registration_id": 123, "attendance_status": "attended"}] }
+     *
+     * The registration status becomes attended / no_show; a recorded status can be
+     * corrected by sending the other value. Credits are only charged once: bookings
+     * paid with a pass at booking time are not charged again, unpaid bookings are
+     * paid from the client's pass when they attend (if they have one by now).
      */
     public function checkinClass(Request $request, int $occurrenceId): JsonResponse
     {
@@ -175,7 +182,7 @@ public function checkinClass(Request $request, int $occurrenceId): JsonResponse
             'registrations.*.attendance_status' => ['required', Rule::in(['attended', 'no_show'])],
         ]);
 
-        $occurrence = ClassOccurrence::findOrFail($occurrenceId);
+        $occurrence = ClassOccurrence::with('template')->findOrFail($occurrenceId);
 
         // Authorization: only assigned trainer or admin
         $user = $request->user();
@@ -183,47 +190,53 @@ public function checkinClass(Request $request, int $occurrenceId): JsonResponse
             return ApiResponse::forbidden('Cannot check in for other trainers\' classes');
         }
 
-        $results = DB::transaction(function () use ($validated, $occurrence) {
+        $results = DB::transaction(function () use ($validated, $occurrence, $user) {
             $results = [];
 
             foreach ($validated['registrations'] as $item) {
-                $registration = ClassRegistration::with('client')->findOrFail($item['registration_id']);
+                $registration = ClassRegistration::with('client')
+                    ->where('occurrence_id', $occurrence->id)
+                    ->find($item['registration_id']);
+
+                if (!$registration || !in_array($registration->status, ['booked', 'attended', 'no_show'], true)) {
+                    $results[] = [
+                        'registration_id' => $item['registration_id'],
+                        'status' => 'skipped',
+                        'reason' => 'Not a booked participant of this class',
+                    ];
+                    continue;
+                }
 
-                // Skip if already checked in
-                if ($registration->attendance_status !== null) {
+                // Skip if already checked in with the same status
+                if ($registration->status === $item['attendance_status']) {
                     $results[] = [
                         'registration_id' => $registration->id,
                         'status' => 'skipped',
                         'reason' => 'Already checked in',
+                        'attendance_status' => $registration->status,
                     ];
                     continue;
                 }
 
                 $registration->update([
-                    'attendance_status' => $item['attendance_status'],
+                    'status' => $item['attendance_status'],
                     'checked_in_at' => now(),
+                    'checked_in_by' => $user->id,
                 ]);
 
-                // Deduct pass credit if attended
-                if ($item['attendance_status'] === 'attended' && $registration->client) {
-                    $creditsToDeduct = $occurrence->credits_required ?? 1;
-                    try {
-                        $this->passCreditService->deductCredit(
-                            $registration->client,
-                            $creditsToDeduct,
-                            "Group class: {$occurrence->classTemplate->name}"
-                        );
-
-                        $registration->update(['credits_used' => $creditsToDeduct]);
-                    } catch (\Exception $e) {
-                        \Log::warning("Failed to deduct credit for registration {$registration->id}: {$e->getMessage()}");
-                    }
-                }
+                $creditResult = $item['attendance_status'] === 'attended'
+                    ? $this->chargeAttendance($registration, $occurrence)
+                    : null;
 
                 $results[] = [
                     'registration_id' => $registration->id,
                     'status' => 'success',
                     'attendance_status' => $item['attendance_status'],
+                    'credit_result' => $creditResult,
+                    'pass_credit_deducted' => $creditResult === 'deducted',
+                    'credits_left' => $registration->client
+                        ? $this->passCreditService->getTotalAvailableCredits($registration->client)
+                        : null,
                 ];
             }
 
@@ -235,4 +248,48 @@ public function checkinClass(Request $request, int $occurrenceId): JsonResponse
             'results' => $results,
         ], 'Check-in completed');
     }
+
+    /**
+     * Settle the credit of an attended class registration.
+     *
+     * @return string already_paid | deducted | no_pass | not_charged
+     */
+    private function chargeAttendance(ClassRegistration $registration, ClassOccurrence $occurrence): string
+    {
+        if ($registration->payment_status === 'paid') {
+            return 'already_paid';
+        }
+
+        // Pending = booked without payment on purpose (e.g. admin skip_payment)
+        if ($registration->payment_status !== 'unpaid' || !$registration->client) {
+            return 'not_charged';
+        }
+
+        if (!$this->passCreditService->hasAvailableCredits($registration->client)) {
+            return 'no_pass';
+        }
+
+        $creditsRequired = $occurrence->template?->credits_required ?? 1;
+        $creditPriceHuf = (int) ($occurrence->template?->base_price_huf ?? config('booking.credit_price_huf', 1000));
+
+        try {
+            $this->passCreditService->deductCredit(
+                $registration->client,
+                "Group class check-in: {$occurrence->template?->title}",
+                ['class_registration_id' => $registration->id]
+            );
+        } catch (\Exception $e) {
+            \Log::warning("Failed to deduct credit for registration {$registration->id}: {$e->getMessage()}");
+            return 'no_pass';
+        }
+
+        // The booking put the class on the unpaid balance, it is now paid from the pass
+        $registration->update([
+            'credits_used' => $creditsRequired,
+            'payment_status' => 'paid',
+        ]);
+        $registration->client->decrement('unpaid_balance', $creditPriceHuf * $creditsRequired);
+
+        return 'deducted';
+    }
 }
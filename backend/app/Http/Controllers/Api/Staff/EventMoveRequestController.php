@@ -0,0 +1,89 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Staff;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\Event;
+use App\Models\EventMoveRequest;
+use App\Services\EventMoveService;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class EventMoveRequestController extends Controller
+{
+    public function __construct(
+        private readonly EventMoveService $moveService
+    ) {}
+
+    /**
+     * Preview a move: affected clients, conflicts and emails to be sent
+     *
+     * POST /api/staff/events/{id}/move-preview
+     */
+    public function preview(Request $request, int $id): JsonResponse
+    {
+        $event = Event::with('staff')->findOrFail($id);
+
+        $this->authorize('update', $event);
+
+        $validated = $request->validate([
+            'starts_at' => ['required', 'date'],
+            'ends_at' => ['required', 'date', 'after:starts_at'],
+            'room_id' => ['sometimes', 'nullable', 'integer', 'exists:rooms,id'],
+        ]);
+
+        return ApiResponse::success($this->moveService->preview(
+            $event,
+            Carbon::parse($validated['starts_at']),
+            Carbon::parse($validated['ends_at']),
+            isset($validated['room_id']) ? (int) $validated['room_id'] : null,
+            $request->user()
+        ));
+    }
+
+    /**
+     * Request a cross-day move (approved by an admin)
+     *
+     * POST /api/staff/events/{id}/move-requests
+     */
+    public function store(Request $request, int $id): JsonResponse
+    {
+        $event = Event::with('staff')->findOrFail($id);
+
+        $this->authorize('update', $event);
+
+        $validated = $request->validate([
+            'starts_at' => ['required', 'date'],
+            'ends_at' => ['required', 'date', 'after:starts_at'],
+            'room_id' => ['sometimes', 'nullable', 'integer', 'exists:rooms,id'],
+            'reason' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        $hasPending = EventMoveRequest::where('event_id', $event->id)->pending()->exists();
+        if ($hasPending) {
+            return ApiResponse::conflict('Ehhez az eseményhez már van függőben lévő áthelyezési kérelem.');
+        }
+
+        $moveRequest = EventMoveRequest::create([
+            'event_id' => $event->id,
+            'requested_by' => $request->user()->id,
+            'new_starts_at' => Carbon::parse($validated['starts_at']),
+            'new_ends_at' => Carbon::parse($validated['ends_at']),
+            'new_room_id' => $validated['room_id'] ?? $event->room_id,
+            'original_starts_at' => $event->starts_at,
+            'original_ends_at' => $event->ends_at,
+            'original_room_id' => $event->room_id,
+            'status' => 'pending',
+            'reason' => $validated['reason'] ?? null,
+        ]);
+
+        return ApiResponse::created(
+            $moveRequest->load(['event.client.user', 'requester', 'newRoom']),
+            'Move request submitted'
+        );
+    }
+}
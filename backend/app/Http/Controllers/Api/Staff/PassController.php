@@ -0,0 +1,245 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Staff;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\Client;
+use App\Models\Pass;
+use App\Models\PassCreditTransaction;
+use App\Services\PassManagementService;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class PassController extends Controller
+{
+    public function __construct(
+        private readonly PassManagementService $passService
+    ) {}
+
+    /**
+     * List every pass of a client (including frozen and voided ones)
+     *
+     * GET /api/staff/clients/{clientId}/passes
+     */
+    public function index(int $clientId): JsonResponse
+    {
+        $client = Client::findOrFail($clientId);
+
+        $passes = Pass::with('creator:id,name')
+            ->where('client_id', $client->id)
+            ->orderByDesc('valid_until')
+            ->orderByDesc('created_at')
+            ->get();
+
+        return ApiResponse::success([
+            'passes' => $passes->map(fn (Pass $pass) => $this->formatPass($pass))->values(),
+            'total_credits_remaining' => (int) $passes->filter->isActive()->sum('credits_left'),
+        ]);
+    }
+
+    /**
+     * Sell or issue a pass manually
+     *
+     * POST /api/staff/clients/{clientId}/passes
+     */
+    public function store(Request $request, int $clientId): JsonResponse
+    {
+        $client = Client::findOrFail($clientId);
+
+        $validated = $request->validate([
+            'type' => ['required', 'string', 'max:100'],
+            'total_credits' => ['required', 'integer', 'min:1', 'max:500'],
+            'valid_from' => ['required', 'date'],
+            'valid_until' => ['required', 'date', 'after_or_equal:valid_from'],
+            'external_order_id' => ['nullable', 'string', 'max:255'],
+            'price' => ['nullable', 'integer', 'min:0', 'max:10000000'],
+        ]);
+
+        $pass = $this->passService->issue($client, $validated, $request->user());
+
+        return ApiResponse::created($this->formatPass($pass->load('creator:id,name')), 'Pass issued');
+    }
+
+    /**
+     * Credit ledger of a client, optionally limited to one pass
+     *
+     * GET /api/staff/clients/{clientId}/pass-ledger?pass_id=
+     */
+    public function ledger(Request $request, int $clientId): JsonResponse
+    {
+        $client = Client::findOrFail($clientId);
+
+        $validated = $request->validate([
+            'pass_id' => ['nullable', 'integer'],
+        ]);
+
+        $transactions = PassCreditTransaction::with([
+                'creator:id,name',
+                'event:id,starts_at,service_type_id',
+                'event.serviceType:id,name',
+                'classRegistration.occurrence.template:id,title',
+            ])
+            ->where('client_id', $client->id)
+            ->when($validated['pass_id'] ?? null, fn ($q, $passId) => $q->where('pass_id', $passId))
+            ->orderByDesc('created_at')
+            ->orderByDesc('id')
+            ->limit(500)
+            ->get();
+
+        return ApiResponse::success($transactions->map(fn (PassCreditTransaction $transaction) => [
+            'id' => $transaction->id,
+            'pass_id' => $transaction->pass_id,
+            'type' => $transaction->type,
+            'credits' => $transaction->credits,
+            'balance_after' => $transaction->balance_after,
+            'reason' => $transaction->reason,
+            'event_id' => $transaction->event_id,
+            'class_registration_id' => $transaction->class_registration_id,
+            'session_title' => $transaction->event?->serviceType?->name
+                ?? $transaction->classRegistration?->occurrence?->template?->title,
+            'session_starts_at' => $transaction->event?->starts_at
+                ?? $transaction->classRegistration?->occurrence?->starts_at,
+            'created_by_name' => $transaction->creator?->name,
+            'created_at' => $transaction->created_at,
+        ])->values());
+    }
+
+    /**
+     * Add or remove credits with a reason
+     *
+     * POST /api/staff/passes/{id}/adjust
+     */
+    public function adjust(Request $request, int $id): JsonResponse
+    {
+        $pass = Pass::findOrFail($id);
+
+        $validated = $request->validate([
+            'credits' => ['required', 'integer', 'not_in:0', 'between:-500,500'],
+            'reason' => ['required', 'string', 'max:255'],
+        ]);
+
+        try {
+            $pass = $this->passService->adjustCredits($pass, (int) $validated['credits'], $validated['reason'], $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['credits' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($this->formatPass($pass), 'Credits adjusted');
+    }
+
+    /**
+     * Extend the expiry date of a pass
+     *
+     * POST /api/staff/passes/{id}/extend
+     */
+    public function extend(Request $request, int $id): JsonResponse
+    {
+        $pass = Pass::findOrFail($id);
+
+        $validated = $request->validate([
+            'valid_until' => ['required', 'date'],
+            'reason' => ['nullable', 'string', 'max:255'],
+        ]);
+
+        try {
+            $pass = $this->passService->extend(
+                $pass,
+                Carbon::parse($validated['valid_until']),
+                $validated['reason'] ?? null,
+                $request->user()
+            );
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['valid_until' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($this->formatPass($pass), 'Pass extended');
+    }
+
+    /**
+     * Freeze a pass
+     *
+     * POST /api/staff/passes/{id}/freeze
+     */
+    public function freeze(Request $request, int $id): JsonResponse
+    {
+        $pass = Pass::findOrFail($id);
+
+        $validated = $request->validate([
+            'reason' => ['nullable', 'string', 'max:255'],
+        ]);
+
+        try {
+            $pass = $this->passService->freeze($pass, $validated['reason'] ?? null, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['status' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($this->formatPass($pass), 'Pass frozen');
+    }
+
+    /**
+     * Unfreeze a pass (expiry is extended by the frozen days)
+     *
+     * POST /api/staff/passes/{id}/unfreeze
+     */
+    public function unfreeze(Request $request, int $id): JsonResponse
+    {
+        $pass = Pass::findOrFail($id);
+
+        try {
+            $pass = $this->passService->unfreeze($pass, $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['status' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($this->formatPass($pass), 'Pass unfrozen');
+    }
+
+    /**
+     * Void a pass, writing off its remaining credits
+     *
+     * POST /api/staff/passes/{id}/void
+     */
+    public function void(Request $request, int $id): JsonResponse
+    {
+        $pass = Pass::findOrFail($id);
+
+        $validated = $request->validate([
+            'reason' => ['required', 'string', 'max:255'],
+        ]);
+
+        try {
+            $pass = $this->passService->void($pass, $validated['reason'], $request->user());
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['status' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($this->formatPass($pass), 'Pass voided');
+    }
+
+    private function formatPass(Pass $pass): array
+    {
+        return [
+            'id' => $pass->id,
+            'client_id' => $pass->client_id,
+            'type' => $pass->type,
+            'total_credits' => $pass->total_credits,
+            'credits_left' => $pass->credits_left,
+            'valid_from' => $pass->valid_from?->toDateString(),
+            'valid_until' => $pass->valid_until?->toDateString(),
+            'source' => $pass->source,
+            'status' => $pass->status,
+            'external_order_id' => $pass->external_order_id,
+            'price' => $pass->price,
+            'frozen_at' => $pass->frozen_at,
+            'voided_at' => $pass->voided_at,
+            'void_reason' => $pass->void_reason,
+            'created_by_name' => $pass->creator?->name,
+            'created_at' => $pass->created_at,
+        ];
+    }
+}
@@ -0,0 +1,137 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api\Staff;
+
+use App\Http\Controllers\Controller;
+use App\Http\Responses\ApiResponse;
+use App\Models\StaffAvailabilityException;
+use App\Models\StaffProfile;
+use App\Services\StaffAvailabilityService;
+use Carbon\Carbon;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class StaffAvailabilityController extends Controller
+{
+    public function __construct(
+        private readonly StaffAvailabilityService $availabilityService
+    ) {}
+
+    /**
+     * Weekly working hours and absences of a trainer
+     *
+     * GET /api/staff/trainers/{staffId}/availability
+     */
+    public function show(Request $request, int $staffId): JsonResponse
+    {
+        $staff = StaffProfile::findOrFail($staffId);
+
+        return ApiResponse::success($this->availabilityService->forStaff($staff));
+    }
+
+    /**
+     * Replace the weekly working hours of a trainer (staff: own profile only)
+     *
+     * PUT /api/staff/trainers/{staffId}/availability
+     */
+    public function updateWeekly(Request $request, int $staffId): JsonResponse
+    {
+        $staff = StaffProfile::findOrFail($staffId);
+
+        if (!$this->canManage($request, $staff)) {
+            return ApiResponse::forbidden('You can only edit your own availability');
+        }
+
+        $validated = $request->validate([
+            'weekly' => 'present|array',
+            'weekly.*.weekday' => 'required|integer|between:1,7',
+            'weekly.*.start_time' => ['required', 'string', 'regex:/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/'],
+            'weekly.*.end_time' => ['required', 'string', 'regex:/^(([01]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/'],
+        ]);
+
+        try {
+            $this->availabilityService->replaceWeekly($staff, $validated['weekly']);
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['weekly' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::success($this->availabilityService->forStaff($staff), 'Availability updated');
+    }
+
+    /**
+     * Record an absence (vacation, sick day) of a trainer
+     *
+     * POST /api/staff/trainers/{staffId}/availability/exceptions
+     */
+    public function storeException(Request $request, int $staffId): JsonResponse
+    {
+        $staff = StaffProfile::findOrFail($staffId);
+
+        if (!$this->canManage($request, $staff)) {
+            return ApiResponse::forbidden('You can only edit your own availability');
+        }
+
+        $validated = $request->validate([
+            'type' => ['required', Rule::in(['vacation', 'sick', 'other'])],
+            'starts_on' => 'required|date',
+            'ends_on' => 'required|date|after_or_equal:starts_on',
+            'start_time' => ['nullable', 'string', 'regex:/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/'],
+            'end_time' => ['nullable', 'string', 'regex:/^(([01]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/'],
+            'note' => 'nullable|string|max:500',
+        ]);
+
+        try {
+            $exception = $this->availabilityService->addException($staff, $validated, $request->user()->id);
+        } catch (\InvalidArgumentException $e) {
+            return ApiResponse::unprocessable($e->getMessage(), ['start_time' => [$e->getMessage()]]);
+        }
+
+        return ApiResponse::created($this->availabilityService->formatException($exception), 'Absence recorded');
+    }
+
+    /**
+     * Delete an absence
+     *
+     * DELETE /api/staff/availability/exceptions/{id}
+     */
+    public function destroyException(Request $request, int $id): JsonResponse
+    {
+        $exception = StaffAvailabilityException::with('staff')->findOrFail($id);
+
+        if (!$this->canManage($request, $exception->staff)) {
+            return ApiResponse::forbidden('You can only edit your own availability');
+        }
+
+        $exception->delete();
+
+        return ApiResponse::success(null, 'Absence deleted');
+    }
+
+    /**
+     * Working hours of all trainers and site opening hours for calendar shading
+     *
+     * GET /api/staff/availability/calendar?date_from=...&date_to=...
+     */
+    public function calendar(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'date_from' => 'required|date',
+            'date_to' => 'required|date|after_or_equal:date_from',
+        ]);
+
+        return ApiResponse::success($this->availabilityService->calendarData(
+            Carbon::parse($validated['date_from'])->startOfDay(),
+            Carbon::parse($validated['date_to'])->endOfDay()
+        ));
+    }
+
+    private function canManage(Request $request, StaffProfile $staff): bool
+    {
+        $user = $request->user();
+
+        return $user->isAdmin() || $user->staffProfile?->id === $staff->id;
+    }
+}
@@ -13,6 +13,8 @@
 use App\Services\ConflictDetectionService;
 use App\Services\EventPricingService;
 use App\Services\NotificationService;
+use App\Services\RecurringEventService;
+use App\Services\StaffAvailabilityService;
 use App\Exceptions\ConflictException;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
@@ -23,7 +25,9 @@ class StaffEventController extends Controller
     public function __construct(
         private readonly ConflictDetectionService $conflictService,
         private readonly NotificationService $notificationService,
-        private readonly EventPricingService $pricingService
+        private readonly EventPricingService $pricingService,
+        private readonly RecurringEventService $recurringService,
+        private readonly StaffAvailabilityService $availabilityService
     ) {}
 
     /**
@@ -143,6 +147,26 @@ public function store(StoreEventRequest $request): JsonResponse
      */
     private function storeSingle(StoreEventRequest $request, $staff): JsonResponse
     {
+        // Warn about trainer absence / working hours and site opening hours (override with ignore_availability)
+        if (!$request->boolean('ignore_availability')) {
+            $availabilityWarnings = $this->availabilityService->check(
+                $staff->id,
+                $request->integer('room_id'),
+                $request->date('starts_at'),
+                $request->date('ends_at')
+            );
+
+            if (!empty($availabilityWarnings)) {
+                return ApiResponse::conflict(
+                    'Az esemény az edző elérhetőségén vagy a helyszín nyitvatartásán kívül esik. Biztosan létre szeretnéd hozni?',
+                    [
+                        'availability_warnings' => $availabilityWarnings,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
         try {
             return DB::transaction(function () use ($request, $staff) {
                 // Check for conflicts
@@ -175,7 +199,8 @@ private function storeSingle(StoreEventRequest $request, $staff): JsonResponse
                     if ($request->filled('client_id') && $request->integer('client_id') > 0) {
                         $mainClientPricing = $this->pricingService->resolvePricingForClient(
                             $request->integer('client_id'),
-                            $serviceTypeId
+                            $serviceTypeId,
+                            $request->date('starts_at')
                         );
                         $eventData = array_merge($eventData, $mainClientPricing);
                     }
@@ -229,6 +254,7 @@ private function storeRecurring(StoreEventRequest $request, $staff): JsonRespons
             'room_id' => $roomId,
             'notes' => $request->input('notes'),
             'status' => 'scheduled',
+            'recurring_group_id' => (string) \Illuminate\Support\Str::uuid(),
             'created_by' => $request->user()->id,
         ];
 
@@ -237,15 +263,6 @@ private function storeRecurring(StoreEventRequest $request, $staff): JsonRespons
         if ($request->input('type') === 'INDIVIDUAL' && $request->filled('service_type_id')) {
             $serviceTypeId = $request->integer('service_type_id');
             $baseEventData['service_type_id'] = $serviceTypeId;
-
-            // Resolve pricing for main client
-            if ($request->filled('client_id') && $request->integer('client_id') > 0) {
-                $mainClientPricing = $this->pricingService->resolvePricingForClient(
-                    $request->integer('client_id'),
-                    $serviceTypeId
-                );
-                $baseEventData = array_merge($baseEventData, $mainClientPricing);
-            }
         }
 
         $additionalClientIds = $request->input('additional_client_ids', []);
@@ -297,6 +314,15 @@ private function storeRecurring(StoreEventRequest $request, $staff): JsonRespons
                         'ends_at' => $eventEndsAt,
                     ]);
 
+                    // Resolve main client pricing per occurrence, a scheduled price change may fall within the series
+                    if ($serviceTypeId && !empty($baseEventData['client_id']) && (int) $baseEventData['client_id'] > 0) {
+                        $eventData = array_merge($eventData, $this->pricingService->resolvePricingForClient(
+                            (int) $baseEventData['client_id'],
+                            $serviceTypeId,
+                            $eventStartsAt
+                        ));
+                    }
+
                     $event = Event::create($eventData);
 
                     // Attach additional clients with pricing if provided
@@ -326,6 +352,7 @@ private function storeRecurring(StoreEventRequest $request, $staff): JsonRespons
 
                 return ApiResponse::created([
                     'count' => count($createdEvents),
+                    'recurring_group_id' => $baseEventData['recurring_group_id'],
                     'events' => $createdEvents,
                     'skipped_dates' => $skippedDates,
                 ], $message);
@@ -433,7 +460,7 @@ private function attachAdditionalClientsWithPricing(Event $event, array $additio
 
                     // Add pricing if service type is set
                     if ($serviceTypeId) {
-                        $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId);
+                        $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId, $event->starts_at);
                         $pivotData = array_merge($pivotData, $pricing);
                     }
 
@@ -468,6 +495,8 @@ private function attachAdditionalClientsWithPricing(Event $event, array $additio
      *
      * If there's a room/time conflict, returns 409 with conflict details.
      * To override the conflict, include force_override: true in the request.
+     * Times outside the trainer's availability or the site's opening hours are reported
+     * the same way with availability_warnings, override with ignore_availability: true.
      */
     public function update(UpdateEventRequest $request, int $id): JsonResponse
     {
@@ -505,6 +534,25 @@ public function update(UpdateEventRequest $request, int $id): JsonResponse
             }
         }
 
+        if ($isTimeOrRoomChanged && !$request->boolean('ignore_availability')) {
+            $availabilityWarnings = $this->availabilityService->check(
+                $event->staff_id,
+                $request->input('room_id') ? (int) $request->input('room_id') : $event->room_id,
+                $request->date('starts_at') ?? $event->starts_at,
+                $request->date('ends_at') ?? $event->ends_at
+            );
+
+            if (!empty($availabilityWarnings)) {
+                return ApiResponse::conflict(
+                    'Az esemény az edző elérhetőségén vagy a helyszín nyitvatartásán kívül esik. Biztosan módosítani szeretnéd?',
+                    [
+                        'availability_warnings' => $availabilityWarnings,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
         return DB::transaction(function () use ($request, $event) {
             // Store old values for audit
             $oldData = $event->only(['starts_at', 'ends_at', 'room_id']);
@@ -534,7 +582,7 @@ public function update(UpdateEventRequest $request, int $id): JsonResponse
 
                                 // Add pricing if service type is set
                                 if ($serviceTypeId) {
-                                    $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId);
+                                    $pricing = $this->pricingService->resolvePricingForClient($clientId, $serviceTypeId, $event->starts_at);
                                     $pivotData = array_merge($pivotData, $pricing);
                                 }
 
@@ -619,6 +667,117 @@ public function destroy(Request $request, int $id): JsonResponse
         });
     }
 
+    /**
+     * Update a recurring series (this / following / all events)
+     *
+     * PATCH /api/staff/events/recurring-group/{groupId}
+     *
+     * The time shift of the anchor event (event_id) is applied to every event
+     * in scope. Staff can only change times within the same day.
+     * Sessions moved outside the trainer's availability or the site's opening hours
+     * are reported with availability_warnings, override with ignore_availability: true.
+     */
+    public function updateGroup(Request $request, string $groupId): JsonResponse
+    {
+        $validated = $request->validate([
+            'event_id' => 'required|integer',
+            'scope' => 'required|string|in:' . implode(',', RecurringEventService::SCOPES),
+            'room_id' => 'sometimes|exists:rooms,id',
+            'starts_at' => 'sometimes|date',
+            'ends_at' => 'sometimes|date|after:starts_at',
+            'notes' => 'sometimes|nullable|string|max:1000',
+            'force_override' => 'sometimes|boolean',
+            'ignore_availability' => 'sometimes|boolean',
+        ]);
+
+        $anchor = Event::inRecurringGroup($groupId)->findOrFail($validated['event_id']);
+        $this->authorize('update', $anchor);
+
+        if (isset($validated['starts_at']) && !\Carbon\Carbon::parse($validated['starts_at'])->isSameDay($anchor->starts_at)) {
+            return ApiResponse::unprocessable('Staff can only move events within the same day. Contact admin for cross-day moves.', [
+                'starts_at' => ['Staff can only move events within the same day. Contact admin for cross-day moves.'],
+            ]);
+        }
+
+        $user = $request->user();
+        $events = $this->recurringService
+            ->resolveScope($groupId, $validated['scope'], $anchor)
+            ->filter(fn (Event $event) => $user->can('update', $event));
+
+        if ($events->isEmpty()) {
+            return ApiResponse::error('No upcoming events in this series', null, 404);
+        }
+
+        $plan = $this->recurringService->planChanges($events, $anchor, $validated);
+
+        if (!($validated['force_override'] ?? false)) {
+            $conflicts = $this->recurringService->detectConflicts($plan);
+
+            if (!empty($conflicts)) {
+                return ApiResponse::conflict(
+                    'Az esemény ütközik egy másik foglalással ebben a teremben. Biztosan módosítani szeretnéd?',
+                    [
+                        'conflicts' => $conflicts,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
+        // Same warning as a single event update, for every session of the series
+        if (!($validated['ignore_availability'] ?? false)) {
+            $availabilityWarnings = $this->recurringService->checkAvailability($events, $plan);
+
+            if (!empty($availabilityWarnings)) {
+                return ApiResponse::conflict(
+                    'Az esemény az edző elérhetőségén vagy a helyszín nyitvatartásán kívül esik. Biztosan módosítani szeretnéd?',
+                    [
+                        'availability_warnings' => $availabilityWarnings,
+                        'requires_confirmation' => true,
+                    ]
+                );
+            }
+        }
+
+        $updated = $this->recurringService->updateEvents($events, $plan, $validated, $user);
+
+        return ApiResponse::success([
+            'count' => $updated->count(),
+            'events' => $updated->load(['client.user', 'additionalClients.user', 'room'])->values(),
+        ], $updated->count() . ' event(s) updated');
+    }
+
+    /**
+     * Cancel a recurring series (this / following / all upcoming events)
+     *
+     * DELETE /api/staff/events/recurring-group/{groupId}?scope=following&event_id=123
+     */
+    public function destroyGroup(Request $request, string $groupId): JsonResponse
+    {
+        $validated = $request->validate([
+            'scope' => 'sometimes|string|in:' . implode(',', RecurringEventService::SCOPES),
+            'event_id' => 'required_unless:scope,all|nullable|integer',
+        ]);
+
+        $scope = $validated['scope'] ?? RecurringEventService::SCOPE_ALL;
+        $anchor = isset($validated['event_id'])
+            ? Event::inRecurringGroup($groupId)->findOrFail($validated['event_id'])
+            : null;
+
+        $user = $request->user();
+        $events = $this->recurringService
+            ->resolveScope($groupId, $scope, $anchor)
+            ->filter(fn (Event $event) => $user->can('delete', $event));
+
+        if ($events->isEmpty()) {
+            return ApiResponse::error('No upcoming events in this series', null, 404);
+        }
+
+        $count = $this->recurringService->deleteEvents($events, $user);
+
+        return ApiResponse::success(['deleted_count' => $count], $count . ' event(s) deleted');
+    }
+
     /**
      * Get dashboard stats for staff member
      *
@@ -0,0 +1,30 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests\Classes;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class SwapBookingRequest extends FormRequest
+{
+    public function authorize(): bool
+    {
+        return true; // Authorization logic handled in controller
+    }
+
+    public function rules(): array
+    {
+        return [
+            'target_occurrence_id' => ['required', 'integer', 'exists:class_occurrences,id'],
+        ];
+    }
+
+    public function messages(): array
+    {
+        return [
+            'target_occurrence_id.required' => 'Target class is required',
+            'target_occurrence_id.exists' => 'Target class not found',
+        ];
+    }
+}
@@ -0,0 +1,43 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class GenerateMonthlySettlementsRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Authorization is handled by middleware (admin only)
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'month' => ['required', 'date_format:Y-m', 'before_or_equal:' . now()->format('Y-m')],
+            'trainer_ids' => ['sometimes', 'array'],
+            'trainer_ids.*' => ['integer', 'exists:users,id'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'month.required' => 'Month is required',
+            'month.date_format' => 'Month must be in YYYY-MM format',
+            'month.before_or_equal' => 'Future months cannot be closed',
+        ];
+    }
+}
@@ -0,0 +1,42 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class MarkSettlementPaidRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Authorization is handled by middleware (admin only)
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'paid_at' => ['required', 'date', 'before_or_equal:today'],
+            'payment_reference' => ['required', 'string', 'max:100'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'paid_at.required' => 'Payment date is required',
+            'paid_at.before_or_equal' => 'Payment date cannot be in the future',
+            'payment_reference.required' => 'Payment reference is required',
+        ];
+    }
+}
@@ -0,0 +1,48 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests;
+
+use App\Models\ClientPayment;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class RecordClientPaymentRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Authorization is handled by middleware (staff and admin)
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'amount' => ['required', 'integer', 'min:1', 'max:10000000'],
+            'method' => ['required', Rule::in(ClientPayment::METHODS)],
+            'paid_at' => ['nullable', 'date', 'before_or_equal:now'],
+            'reference' => ['nullable', 'string', 'max:255'],
+            'notes' => ['nullable', 'string', 'max:500'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'amount.required' => 'Amount is required.',
+            'amount.min' => 'Amount must be at least 1.',
+            'method.in' => 'Method must be cash, card or transfer.',
+            'paid_at.before_or_equal' => 'Payments cannot be recorded in the future.',
+        ];
+    }
+}
@@ -0,0 +1,41 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests\Reports;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class ClientMyStatementRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // All authenticated users can access their own data
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'month' => ['required', 'date_format:Y-m', 'before_or_equal:' . now()->format('Y-m')],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'month.required' => 'Month is required',
+            'month.date_format' => 'Month must be in YYYY-MM format',
+            'month.before_or_equal' => 'Statements are only available for past and current months',
+        ];
+    }
+}
@@ -4,6 +4,8 @@
 
 namespace App\Http\Requests\Reports;
 
+use App\Services\AdminReportFilters;
+use App\Services\AdminReportSpreadsheetService;
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Validation\Rule;
 
@@ -14,8 +16,15 @@ class CreateExportRequest extends FormRequest
      */
     public function authorize(): bool
     {
-        // Authorization handled by middleware
-        return true;
+        // Report scope must match the user's role
+        $user = $this->user();
+
+        return match (strstr((string) $this->input('report_key'), '.', true)) {
+            'admin' => $user->isAdmin(),
+            'staff' => $user->staffProfile !== null,
+            'client' => $user->client !== null,
+            default => true,
+        };
     }
 
     /**
@@ -32,6 +41,7 @@ public function rules(): array
             'staff.my-trends',
             'client.my-activity',
             'client.my-finance',
+            ...array_map(fn (string $type) => "admin.{$type}", array_keys(AdminReportSpreadsheetService::TYPES)),
         ];
 
         return [
@@ -39,6 +49,8 @@ public function rules(): array
             'params' => ['required', 'array'],
             'params.from' => ['required', 'date'],
             'params.to' => ['required', 'date', 'after_or_equal:params.from'],
+            // Filters of the itemized admin reports
+            ...AdminReportFilters::rules('params.'),
             'format' => ['sometimes', Rule::in(['xlsx', 'csv', 'json'])],
         ];
     }
@@ -0,0 +1,62 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests\Reports;
+
+use App\Models\ReportPreset;
+use App\Services\AdminReportFilters;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class StoreReportPresetRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Authorization is handled by middleware (admin only)
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        $preset = $this->route('reportPreset');
+
+        return [
+            // Preset names are unique per admin
+            'name' => [
+                'required',
+                'string',
+                'max:100',
+                Rule::unique('report_presets', 'name')
+                    ->where('user_id', $this->user()->id)
+                    ->ignore($preset?->id),
+            ],
+            'filters' => ['required', 'array'],
+            'filters.range' => ['required', Rule::in(ReportPreset::RANGES)],
+            'filters.date_from' => ['required_if:filters.range,custom', 'nullable', 'date'],
+            'filters.date_to' => ['required_if:filters.range,custom', 'nullable', 'date', 'after_or_equal:filters.date_from'],
+            ...AdminReportFilters::rules('filters.'),
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'name.required' => 'Preset name is required',
+            'name.unique' => 'You already have a preset with this name',
+            'filters.range.in' => 'Invalid date range',
+            'filters.date_from.required_if' => 'Start date is required for a custom range',
+            'filters.date_to.required_if' => 'End date is required for a custom range',
+            'filters.date_to.after_or_equal' => 'End date must be equal to or after start date',
+        ];
+    }
+}
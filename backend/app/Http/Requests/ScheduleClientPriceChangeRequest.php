@@ -0,0 +1,51 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests;
+
+use App\Services\PriceScheduleService;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class ScheduleClientPriceChangeRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Authorization is handled by middleware (admin only)
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'service_type_id' => ['required', 'integer', Rule::exists('service_types', 'id')->whereNull('deleted_at')],
+            'effective_from' => ['required', 'date_format:Y-m-d', 'after:today'],
+            'mode' => ['required', Rule::in([PriceScheduleService::MODE_PERCENT, PriceScheduleService::MODE_AMOUNT])],
+            'entry_fee_change' => ['required', 'numeric', 'min:-100000', 'max:100000'],
+            'trainer_fee_change' => ['sometimes', 'numeric', 'min:-100000', 'max:100000'],
+            'client_ids' => ['sometimes', 'array'],
+            'client_ids.*' => ['integer', 'exists:clients,id'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'service_type_id.required' => 'A service type is required.',
+            'effective_from.required' => 'Effective date is required.',
+            'effective_from.after' => 'Price changes can only be scheduled for a future date.',
+            'mode.in' => 'Mode must be percent or amount.',
+            'entry_fee_change.required' => 'Entry fee change is required.',
+        ];
+    }
+}
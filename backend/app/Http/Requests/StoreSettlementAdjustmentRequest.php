@@ -0,0 +1,45 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests;
+
+use App\Models\SettlementAdjustment;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class StoreSettlementAdjustmentRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Authorization is handled by middleware (admin only)
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'type' => ['required', Rule::in(SettlementAdjustment::TYPES)],
+            'amount' => ['required', 'integer', 'min:1', 'max:10000000'],
+            'reason' => ['required', 'string', 'max:255'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'type.in' => 'Adjustment type must be bonus or deduction',
+            'amount.min' => 'Amount must be positive; use a deduction to lower the payout',
+            'reason.required' => 'A reason is required for the adjustment',
+        ];
+    }
+}
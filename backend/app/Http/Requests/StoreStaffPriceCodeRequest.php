@@ -26,6 +26,8 @@ public function authorize(): bool
      */
     public function rules(): array
     {
+        $validFrom = $this->input('valid_from');
+        $validUntil = $this->input('valid_until');
         $staffProfileId = $this->route('staffProfile')?->id;
 
         return [
@@ -33,10 +35,13 @@ public function rules(): array
                 'required',
                 'integer',
                 Rule::exists('service_types', 'id')->whereNull('deleted_at'),
-                // Ensure no duplicate active price code for same staff+service_type
-                Rule::unique('staff_price_codes')->where(function ($query) use ($staffProfileId) {
+                // Ensure no other active price code for same staff+service_type covers the same period;
+                // future-dated codes may follow the current one once its valid_until is set
+                Rule::unique('staff_price_codes')->where(function ($query) use ($staffProfileId, $validFrom, $validUntil) {
                     return $query->where('staff_profile_id', $staffProfileId)
-                        ->where('is_active', true);
+                        ->where('is_active', true)
+                        ->when($validUntil, fn ($q) => $q->where('valid_from', '<=', $validUntil))
+                        ->where(fn ($q) => $q->whereNull('valid_until')->orWhere('valid_until', '>=', $validFrom));
                 }),
             ],
             'price_code' => 'nullable|string|max:64',
@@ -57,7 +62,7 @@ public function messages(): array
         return [
             'service_type_id.required' => 'A service type is required.',
             'service_type_id.exists' => 'The selected service type does not exist.',
-            'service_type_id.unique' => 'An active price code already exists for this service type.',
+            'service_type_id.unique' => 'An active price code already exists for this service type in the given period.',
             'entry_fee_brutto.required' => 'Entry fee is required.',
             'entry_fee_brutto.min' => 'Entry fee must be at least 0.',
             'trainer_fee_brutto.required' => 'Trainer fee is required.',
@@ -5,7 +5,10 @@
 namespace App\Jobs;
 
 use App\Models\ReportExport;
+use App\Services\AdminReportFilters;
+use App\Services\AdminReportSpreadsheetService;
 use App\Services\ReportService;
+use Carbon\Carbon;
 use Illuminate\Bus\Queueable;
 use Illuminate\Contracts\Queue\ShouldQueue;
 use Illuminate\Foundation\Bus\Dispatchable;
@@ -13,6 +16,9 @@
 use Illuminate\Queue\SerializesModels;
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\Storage;
+use PhpOffice\PhpSpreadsheet\Spreadsheet;
+use PhpOffice\PhpSpreadsheet\Writer\Csv;
+use PhpOffice\PhpSpreadsheet\Writer\Xlsx;
 
 class GenerateReportExport implements ShouldQueue
 {
@@ -34,7 +40,7 @@ public function __construct(
     /**
      * Execute the job.
      */
-    public function handle(ReportService $reportService): void
+    public function handle(ReportService $reportService, AdminReportSpreadsheetService $spreadsheetService): void
     {
         Log::info('Starting report export generation', [
             'export_id' => $this->reportExport->id,
@@ -47,11 +53,10 @@ public function handle(ReportService $reportService): void
         ]);
 
         try {
-            // Generate report data based on report key
-            $reportData = $this->generateReportData($reportService);
-
-            // Convert to desired format and save
-            $filePath = $this->saveReportFile($reportData);
+            // Itemized admin reports come as ready-made workbooks, the others as report data
+            $filePath = $this->isSpreadsheetReport()
+                ? $this->saveSpreadsheet($this->generateSpreadsheet($spreadsheetService))
+                : $this->saveReportFile($this->generateReportData($reportService));
 
             // Update export record
             $this->reportExport->update([
@@ -143,64 +148,126 @@ private function generateReportData(ReportService $reportService): array
         };
     }
 
+    /**
+     * Whether the report key refers to an itemized admin report (e.g. admin.payouts)
+     */
+    private function isSpreadsheetReport(): bool
+    {
+        return str_starts_with($this->reportExport->report_key, 'admin.')
+            && array_key_exists(substr($this->reportExport->report_key, 6), AdminReportSpreadsheetService::TYPES);
+    }
+
+    /**
+     * Build the workbook of an itemized admin report
+     */
+    private function generateSpreadsheet(AdminReportSpreadsheetService $spreadsheetService): Spreadsheet
+    {
+        $params = $this->reportExport->params;
+
+        return $spreadsheetService->build(
+            substr($this->reportExport->report_key, 6),
+            Carbon::parse($params['from']),
+            Carbon::parse($params['to']),
+            AdminReportFilters::fromArray($params)
+        );
+    }
+
     /**
      * Save report file to storage
      */
     private function saveReportFile(array $reportData): string
     {
-        $format = $this->reportExport->format;
+        if ($this->reportExport->format === 'json') {
+            return $this->store(json_encode($reportData, JSON_PRETTY_PRINT));
+        }
+
+        return $this->saveSpreadsheet($this->convertToSpreadsheet($reportData));
+    }
+
+    /**
+     * Save a workbook in the requested format. CSV contains the first worksheet only.
+     */
+    private function saveSpreadsheet(Spreadsheet $spreadsheet): string
+    {
+        if ($this->reportExport->format === 'json') {
+            return $this->store(json_encode($spreadsheet->getSheet(0)->toArray(), JSON_PRETTY_PRINT));
+        }
+
+        $writer = $this->reportExport->format === 'csv'
+            ? (new Csv($spreadsheet))->setUseBOM(true)->setSheetIndex(0)
+            : new Xlsx($spreadsheet);
+
+        ob_start();
+        $writer->save('php://output');
+
+        return $this->store(ob_get_clean());
+    }
+
+    private function store(string $content): string
+    {
         $filename = sprintf(
             'reports/%s_%s_%d.%s',
             str_replace('.', '_', $this->reportExport->report_key),
             now()->format('Ymd_His'),
             $this->reportExport->id,
-            $format
+            $this->reportExport->format
         );
 
-        $content = match ($format) {
-            'json' => json_encode($reportData, JSON_PRETTY_PRINT),
-            'csv' => $this->convertToCsv($reportData),
-            'xlsx' => $this->convertToXlsx($reportData),
-            default => json_encode($reportData, JSON_PRETTY_PRINT),
-        };
-
         Storage::disk('local')->put($filename, $content);
 
         return $filename;
     }
 
     /**
-     * Convert report data to CSV format
+     * Convert report data to a workbook: the report rows on the first sheet (nested
+     * breakdowns left out), the summary figures on the second one
      */
-    private function convertToCsv(array $reportData): string
+    private function convertToSpreadsheet(array $reportData): Spreadsheet
     {
-        $csv = '';
-
-        // Add headers
-        if (isset($reportData['grouped_data']) && is_array($reportData['grouped_data'])) {
-            $firstRow = reset($reportData['grouped_data']);
-            if ($firstRow) {
-                $csv .= implode(',', array_keys($firstRow)) . "\n";
-
-                // Add data rows
-                foreach ($reportData['grouped_data'] as $row) {
-                    $csv .= implode(',', array_values($row)) . "\n";
-                }
+        $reportData = collect($reportData)->toArray();
+        $rows = collect($reportData)
+            ->except(['summary', 'filters'])
+            ->first(fn ($value) => is_array($value) && array_is_list($value), []);
+
+        $spreadsheet = new Spreadsheet();
+        $dataSheet = $spreadsheet->getActiveSheet();
+        $dataSheet->setTitle('Adatok');
+
+        $headers = collect($rows)
+            ->flatMap(fn (array $row) => array_keys(array_filter($row, fn ($value) => !is_array($value))))
+            ->unique()
+            ->values()
+            ->all();
+
+        $dataSheet->fromArray(
+            [$headers, ...array_map(fn (array $row) => array_map(fn ($key) => $row[$key] ?? null, $headers), $rows)],
+            null,
+            'A1',
+            true
+        );
+
+        $summarySheet = $spreadsheet->createSheet();
+        $summarySheet->setTitle('Összesítő');
+        $summary = array_filter($reportData['summary'] ?? [], fn ($value) => !is_array($value));
+        $summarySheet->fromArray(
+            array_map(fn ($key, $value) => [$key, $value], array_keys($summary), array_values($summary)),
+            null,
+            'A1',
+            true
+        );
+
+        $dataSheet->getStyle('1:1')->getFont()->setBold(true);
+        $summarySheet->getStyle('A:A')->getFont()->setBold(true);
+
+        foreach ([$dataSheet, $summarySheet] as $sheet) {
+            foreach ($sheet->getColumnIterator() as $column) {
+                $sheet->getColumnDimension($column->getColumnIndex())->setAutoSize(true);
             }
         }
 
-        return $csv;
-    }
+        $spreadsheet->setActiveSheetIndex(0);
 
-    /**
-     * Convert report data to XLSX format
-     * Note: This is a placeholder. For production, use a package like PhpSpreadsheet or Laravel Excel.
-     */
-    private function convertToXlsx(array $reportData): string
-    {
-        // For now, return JSON as placeholder
-        // In production, use: https://github.com/SpartnerNL/Laravel-Excel
-        return json_encode($reportData, JSON_PRETTY_PRINT);
+        return $spreadsheet;
     }
 
     /**
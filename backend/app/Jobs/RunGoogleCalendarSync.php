@@ -0,0 +1,63 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Jobs;
+
+use App\Models\GoogleCalendarSyncConfig;
+use App\Services\GoogleCalendarSyncService;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldBeUnique;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Bus\Dispatchable;
+use Illuminate\Queue\InteractsWithQueue;
+use Illuminate\Queue\SerializesModels;
+
+/**
+ * One scheduled sync run of a Google Calendar sync config. The sync service
+ * records failures and backs off itself, so the job is not retried.
+ */
+class RunGoogleCalendarSync implements ShouldQueue, ShouldBeUnique
+{
+    use Dispatchable, InteractsWithQueue, Queueable, SerializesModels;
+
+    public int $tries = 1;
+
+    /**
+     * Delete the job if its models no longer exist.
+     */
+    public bool $deleteWhenMissingModels = true;
+
+    /**
+     * Seconds a queued run keeps a second one of the same config out
+     */
+    public int $uniqueFor = 600;
+
+    public function __construct(
+        public GoogleCalendarSyncConfig $config
+    ) {}
+
+    public function uniqueId(): string
+    {
+        return (string) $this->config->id;
+    }
+
+    /**
+     * Execute the job.
+     */
+    public function handle(GoogleCalendarSyncService $syncService): void
+    {
+        $syncService->sync($this->config);
+    }
+
+    /**
+     * Get the tags that should be assigned to the job.
+     */
+    public function tags(): array
+    {
+        return [
+            'gcal-scheduled-sync',
+            'sync-config:' . $this->config->id,
+        ];
+    }
+}
@@ -56,6 +56,8 @@ public function handle(): void
                 'sent_at' => now(),
             ]);
 
+            $this->registration->update(['promotion_notified_at' => now()]);
+
             Log::info('Waitlist promotion sent', [
                 'registration_id' => $this->registration->id,
             ]);
@@ -5,8 +5,10 @@
 namespace App\Mail;
 
 use App\Models\ClassRegistration;
+use App\Services\CalendarFeedService;
 use Illuminate\Bus\Queueable;
 use Illuminate\Mail\Mailable;
+use Illuminate\Mail\Mailables\Attachment;
 use Illuminate\Mail\Mailables\Content;
 use Illuminate\Mail\Mailables\Envelope;
 use Illuminate\Queue\SerializesModels;
@@ -42,4 +44,21 @@ public function content(): Content
             ],
         );
     }
+
+    /**
+     * The class as an .ics file, so it can be added to any calendar
+     *
+     * @return array<int, Attachment>
+     */
+    public function attachments(): array
+    {
+        $occurrence = $this->registration->occurrence;
+
+        return [
+            Attachment::fromData(
+                fn () => app(CalendarFeedService::class)->renderOccurrence($occurrence, $this->registration),
+                "class-{$occurrence->id}.ics"
+            )->withMime('text/calendar'),
+        ];
+    }
 }
@@ -5,8 +5,10 @@
 namespace App\Mail;
 
 use App\Models\Event;
+use App\Services\CalendarFeedService;
 use Illuminate\Bus\Queueable;
 use Illuminate\Mail\Mailable;
+use Illuminate\Mail\Mailables\Attachment;
 use Illuminate\Mail\Mailables\Content;
 use Illuminate\Mail\Mailables\Envelope;
 use Illuminate\Queue\SerializesModels;
@@ -54,4 +56,23 @@ public function content(): Content
             ],
         );
     }
+
+    /**
+     * Confirmations and updates carry the session as an .ics file
+     *
+     * @return array<int, Attachment>
+     */
+    public function attachments(): array
+    {
+        if (!in_array($this->notificationType, ['event_confirmation', 'event_update'], true)) {
+            return [];
+        }
+
+        return [
+            Attachment::fromData(
+                fn () => app(CalendarFeedService::class)->renderEvent($this->event),
+                "session-{$this->event->id}.ics"
+            )->withMime('text/calendar'),
+        ];
+    }
 }
@@ -0,0 +1,42 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class CalendarEditSession extends Model
+{
+    public $timestamps = false;
+
+    protected $fillable = [
+        'entity_type',
+        'entity_id',
+        'user_id',
+        'heartbeat_at',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'entity_id' => 'integer',
+            'heartbeat_at' => 'datetime',
+        ];
+    }
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Sessions whose editor sent a heartbeat recently enough to still count as editing.
+     */
+    public function scopeActive(Builder $query): Builder
+    {
+        return $query->where('heartbeat_at', '>=', now()->subSeconds((int) config('realtime.edit_session_ttl_seconds', 60)));
+    }
+}
@@ -0,0 +1,46 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\MassPrunable;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class CalendarUpdate extends Model
+{
+    use MassPrunable;
+
+    public $timestamps = false;
+
+    protected $fillable = [
+        'entity_type',
+        'entity_id',
+        'action',
+        'actor_user_id',
+        'created_at',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'entity_id' => 'integer',
+            'created_at' => 'datetime',
+        ];
+    }
+
+    /**
+     * The feed only needs to cover reconnect gaps, older rows are pruned.
+     */
+    public function prunable(): Builder
+    {
+        return static::where('created_at', '<', now()->subHours((int) config('realtime.retention_hours', 24)));
+    }
+
+    public function actor(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'actor_user_id');
+    }
+}
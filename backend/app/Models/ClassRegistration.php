@@ -19,8 +19,15 @@ class ClassRegistration extends Model
         'status',
         'booked_at',
         'cancelled_at',
+        'checked_in_at',
+        'checked_in_by',
         'credits_used',
         'payment_status',
+        'waitlist_position',
+        'promoted_at',
+        'promotion_type',
+        'promoted_by',
+        'promotion_notified_at',
     ];
 
     protected function casts(): array
@@ -28,11 +35,42 @@ protected function casts(): array
         return [
             'booked_at' => 'datetime',
             'cancelled_at' => 'datetime',
+            'checked_in_at' => 'datetime',
+            'promoted_at' => 'datetime',
+            'promotion_notified_at' => 'datetime',
+            'waitlist_position' => 'integer',
             'created_at' => 'datetime',
             'updated_at' => 'datetime',
         ];
     }
 
+    /**
+     * Boot method to put registrations that join the waitlist at the end of the queue,
+     * whether they are created there or moved there later
+     */
+    protected static function booted(): void
+    {
+        static::saving(function (ClassRegistration $registration) {
+            if ($registration->status !== 'waitlist') {
+                return;
+            }
+
+            // A position set explicitly wins; a stale one from an earlier stint on the list does not
+            $joining = $registration->exists
+                ? $registration->isDirty('status') && !$registration->isDirty('waitlist_position')
+                : $registration->waitlist_position === null;
+
+            if (!$joining) {
+                return;
+            }
+
+            $registration->waitlist_position = (int) static::where('occurrence_id', $registration->occurrence_id)
+                ->where('status', 'waitlist')
+                ->whereKeyNot($registration->getKey())
+                ->max('waitlist_position') + 1;
+        });
+    }
+
     public function occurrence(): BelongsTo
     {
         return $this->belongsTo(ClassOccurrence::class, 'occurrence_id');
@@ -51,6 +89,11 @@ public function client(): BelongsTo
         return $this->belongsTo(Client::class);
     }
 
+    public function promotedBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'promoted_by');
+    }
+
     public function settlementItems(): HasMany
     {
         return $this->hasMany(SettlementItem::class, 'registration_id');
@@ -80,6 +123,17 @@ public function scopeCancelled($query)
         return $query->where('status', 'cancelled');
     }
 
+    /**
+     * Scope: Waitlisted registrations in queue order
+     */
+    public function scopeWaitlistQueue($query)
+    {
+        return $query->where('status', 'waitlist')
+            ->orderByRaw('waitlist_position IS NULL')
+            ->orderBy('waitlist_position')
+            ->orderBy('booked_at');
+    }
+
     /**
      * Scope: Filter by booked status (confirmed or attended)
      */
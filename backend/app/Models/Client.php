@@ -66,6 +66,11 @@ public function passes(): HasMany
         return $this->hasMany(Pass::class);
     }
 
+    public function payments(): HasMany
+    {
+        return $this->hasMany(ClientPayment::class);
+    }
+
     public function classRegistrations(): HasMany
     {
         return $this->hasMany(ClassRegistration::class);
@@ -0,0 +1,50 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class ClientImportBatch extends Model
+{
+    public const STATUS_COMPLETED = 'completed';
+    public const STATUS_UNDONE = 'undone';
+
+    protected $fillable = [
+        'file_name',
+        'status',
+        'summary',
+        'changes',
+        'created_by',
+        'undone_at',
+        'undone_by',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'summary' => 'array',
+            'changes' => 'array',
+            'undone_at' => 'datetime',
+            'created_at' => 'datetime',
+            'updated_at' => 'datetime',
+        ];
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    public function undoneBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'undone_by');
+    }
+
+    public function isUndone(): bool
+    {
+        return $this->status === self::STATUS_UNDONE;
+    }
+}
@@ -0,0 +1,53 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class ClientPayment extends Model
+{
+    use HasFactory;
+
+    public const METHODS = ['cash', 'card', 'transfer'];
+
+    protected $fillable = [
+        'client_id',
+        'amount',
+        'currency',
+        'method',
+        'paid_at',
+        'reference',
+        'notes',
+        'class_registration_id',
+        'recorded_by',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'amount' => 'integer',
+            'paid_at' => 'datetime',
+            'created_at' => 'datetime',
+            'updated_at' => 'datetime',
+        ];
+    }
+
+    public function client(): BelongsTo
+    {
+        return $this->belongsTo(Client::class);
+    }
+
+    public function classRegistration(): BelongsTo
+    {
+        return $this->belongsTo(ClassRegistration::class);
+    }
+
+    public function recorder(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'recorded_by');
+    }
+}
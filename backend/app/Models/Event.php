@@ -35,6 +35,9 @@ class Event extends Model
         'starts_at',
         'ends_at',
         'google_event_id',
+        'google_sync_config_id',
+        'recurring_group_id',
+        'import_uid',
         'notes',
         'created_by',
         'updated_by',
@@ -56,6 +59,7 @@ protected function casts(): array
             'deleted_at' => 'datetime',
             'entry_fee_brutto' => 'integer',
             'trainer_fee_brutto' => 'integer',
+            'google_sync_config_id' => 'integer',
         ];
     }
 
@@ -159,6 +163,11 @@ public function eventChanges(): HasMany
         return $this->hasMany(EventChange::class);
     }
 
+    public function moveRequests(): HasMany
+    {
+        return $this->hasMany(EventMoveRequest::class);
+    }
+
     public function scopeUpcoming(Builder $query): Builder
     {
         return $query->where('starts_at', '>', now())
@@ -231,6 +240,14 @@ public function scopeWithTotalHours(Builder $query): Builder
         return $query->selectRaw('TIMESTAMPDIFF(MINUTE, starts_at, ends_at) / 60.0 as hours');
     }
 
+    /**
+     * Scope: Events of one recurring series
+     */
+    public function scopeInRecurringGroup(Builder $query, string $groupId): Builder
+    {
+        return $query->where('recurring_group_id', $groupId);
+    }
+
     /**
      * Scope: Only individual sessions (exclude BLOCK events)
      */
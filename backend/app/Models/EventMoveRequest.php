@@ -0,0 +1,69 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class EventMoveRequest extends Model
+{
+    protected $fillable = [
+        'event_id',
+        'requested_by',
+        'new_starts_at',
+        'new_ends_at',
+        'new_room_id',
+        'original_starts_at',
+        'original_ends_at',
+        'original_room_id',
+        'status',
+        'reason',
+        'reviewed_by',
+        'reviewed_at',
+        'review_note',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'new_starts_at' => 'datetime',
+            'new_ends_at' => 'datetime',
+            'original_starts_at' => 'datetime',
+            'original_ends_at' => 'datetime',
+            'reviewed_at' => 'datetime',
+        ];
+    }
+
+    public function event(): BelongsTo
+    {
+        return $this->belongsTo(Event::class);
+    }
+
+    public function requester(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'requested_by');
+    }
+
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_by');
+    }
+
+    public function newRoom(): BelongsTo
+    {
+        return $this->belongsTo(Room::class, 'new_room_id');
+    }
+
+    public function scopePending(Builder $query): Builder
+    {
+        return $query->where('status', 'pending');
+    }
+
+    public function isPending(): bool
+    {
+        return $this->status === 'pending';
+    }
+}
@@ -4,6 +4,7 @@
 
 namespace App\Models;
 
+use Illuminate\Database\Eloquent\Builder;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
@@ -21,19 +22,64 @@ class GoogleCalendarSyncConfig extends Model
         'room_id',
         'sync_enabled',
         'sync_direction',
+        'sync_interval_minutes',
         'service_account_json',
         'sync_options',
+        'sync_token',
         'last_import_at',
         'last_export_at',
+        'last_synced_at',
+        'next_sync_at',
+        'consecutive_failures',
+        'last_error',
     ];
 
+    /**
+     * The sync token is internal state of the incremental pull.
+     */
+    protected $hidden = ['sync_token'];
+
+    /**
+     * Accessors to append to the model's array form.
+     */
+    protected $appends = ['health'];
+
+    public const HEALTH_HEALTHY = 'healthy';
+    public const HEALTH_PENDING = 'pending';
+    public const HEALTH_DEGRADED = 'degraded';
+    public const HEALTH_FAILING = 'failing';
+    public const HEALTH_STALE = 'stale';
+    public const HEALTH_DISABLED = 'disabled';
+
+    /**
+     * Consecutive failed runs after which a config counts as failing
+     */
+    public const FAILING_AFTER = 3;
+
+    /**
+     * Import rules stored in sync_options.import_rules: how a rule matches the
+     * Google event summary, and what it does with a matching event
+     */
+    public const RULE_MATCHES = ['starts_with', 'contains'];
+    public const RULE_ACTIONS = ['skip', 'service_type'];
+
+    /**
+     * Conflict resolutions allowed as sync_options.default_resolution: the ones that leave
+     * existing sessions alone, as nobody reviews them (overwrite and merge are manual only)
+     */
+    public const UNATTENDED_RESOLUTIONS = ['skip', 'keep_both', 'shift'];
+
     protected function casts(): array
     {
         return [
             'sync_enabled' => 'boolean',
             'sync_options' => 'array',
+            'sync_interval_minutes' => 'integer',
+            'consecutive_failures' => 'integer',
             'last_import_at' => 'datetime',
             'last_export_at' => 'datetime',
+            'last_synced_at' => 'datetime',
+            'next_sync_at' => 'datetime',
             'created_at' => 'datetime',
             'updated_at' => 'datetime',
             'deleted_at' => 'datetime',
@@ -59,4 +105,89 @@ public function isExportEnabled(): bool
     {
         return $this->sync_enabled && in_array($this->sync_direction, ['export', 'both']);
     }
+
+    /**
+     * Import rules from sync_options, in the order they are applied
+     *
+     * @return array<int, array{match: string, pattern: string, action: string, service_type_id?: int|null}>
+     */
+    public function importRules(): array
+    {
+        return array_values($this->sync_options['import_rules'] ?? []);
+    }
+
+    /**
+     * First import rule with the given action whose pattern matches the summary (case-insensitive)
+     */
+    public function matchImportRule(?string $summary, string $action): ?array
+    {
+        $summary = mb_strtolower(trim($summary ?? ''));
+
+        foreach ($this->importRules() as $rule) {
+            $pattern = mb_strtolower(trim($rule['pattern'] ?? ''));
+
+            if ($rule['action'] !== $action || $pattern === '') {
+                continue;
+            }
+
+            $matches = ($rule['match'] ?? 'contains') === 'starts_with'
+                ? str_starts_with($summary, $pattern)
+                : str_contains($summary, $pattern);
+
+            if ($matches) {
+                return $rule;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Resolution applied to conflicts without asking (scheduled syncs, auto-resolving imports).
+     * Null leaves them for manual resolution, as does a resolution that may not run unattended.
+     */
+    public function defaultConflictResolution(): ?string
+    {
+        $resolution = $this->sync_options['default_resolution'] ?? null;
+
+        return in_array($resolution, self::UNATTENDED_RESOLUTIONS, true) ? $resolution : null;
+    }
+
+    /**
+     * Enabled configs whose scheduled run is due
+     */
+    public function scopeDueForSync(Builder $query): Builder
+    {
+        return $query->where('sync_enabled', true)
+            ->where(fn (Builder $q) => $q->whereNull('next_sync_at')->orWhere('next_sync_at', '<=', now()));
+    }
+
+    /**
+     * Health of the scheduled sync: failing runs, a scheduler that stopped
+     * picking the config up (stale), or never run yet (pending).
+     */
+    public function getHealthAttribute(): string
+    {
+        if (!$this->sync_enabled) {
+            return self::HEALTH_DISABLED;
+        }
+
+        if ($this->consecutive_failures >= self::FAILING_AFTER) {
+            return self::HEALTH_FAILING;
+        }
+
+        if ($this->consecutive_failures > 0) {
+            return self::HEALTH_DEGRADED;
+        }
+
+        if (!$this->last_synced_at) {
+            return self::HEALTH_PENDING;
+        }
+
+        if ($this->next_sync_at && $this->next_sync_at->lt(now()->subMinutes(2 * $this->sync_interval_minutes))) {
+            return self::HEALTH_STALE;
+        }
+
+        return self::HEALTH_HEALTHY;
+    }
 }
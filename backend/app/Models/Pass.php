@@ -8,6 +8,7 @@
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 
 class Pass extends Model
 {
@@ -32,6 +33,10 @@ class Pass extends Model
         'expires_at',
         'credits_total',
         'credits_remaining',
+        'created_by',
+        'frozen_at',
+        'voided_at',
+        'void_reason',
     ];
 
     protected function casts(): array
@@ -39,18 +44,48 @@ protected function casts(): array
         return [
             'total_credits' => 'integer',
             'credits_left' => 'integer',
+            'price' => 'integer',
             'valid_from' => 'date',
             'valid_until' => 'date',
+            'frozen_at' => 'datetime',
+            'voided_at' => 'datetime',
             'created_at' => 'datetime',
             'updated_at' => 'datetime',
         ];
     }
 
+    protected static function booted(): void
+    {
+        // Open the credit ledger of every pass (manual, WooCommerce or Stripe)
+        static::created(function (Pass $pass) {
+            PassCreditTransaction::create([
+                'pass_id' => $pass->id,
+                'client_id' => $pass->client_id,
+                'type' => 'issue',
+                'credits' => (int) $pass->credits_left,
+                'balance_after' => (int) $pass->credits_left,
+                'reason' => 'Pass issued (' . ($pass->source ?? 'manual') . ')',
+                'created_by' => $pass->created_by,
+                'created_at' => now(),
+            ]);
+        });
+    }
+
     public function client(): BelongsTo
     {
         return $this->belongsTo(Client::class);
     }
 
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    public function transactions(): HasMany
+    {
+        return $this->hasMany(PassCreditTransaction::class);
+    }
+
     public function scopeActive(Builder $query): Builder
     {
         return $query->where('status', 'active')
@@ -71,6 +106,16 @@ public function scopeExpired(Builder $query): Builder
                      });
     }
 
+    public function isFrozen(): bool
+    {
+        return $this->status === 'suspended' && $this->frozen_at !== null;
+    }
+
+    public function isVoided(): bool
+    {
+        return $this->status === 'voided';
+    }
+
     public function isActive(): bool
     {
         return $this->status === 'active' 
@@ -0,0 +1,60 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class PassCreditTransaction extends Model
+{
+    public $timestamps = false;
+
+    protected $fillable = [
+        'pass_id',
+        'client_id',
+        'type',
+        'credits',
+        'balance_after',
+        'reason',
+        'event_id',
+        'class_registration_id',
+        'created_by',
+        'created_at',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'credits' => 'integer',
+            'balance_after' => 'integer',
+            'created_at' => 'datetime',
+        ];
+    }
+
+    public function pass(): BelongsTo
+    {
+        return $this->belongsTo(Pass::class);
+    }
+
+    public function client(): BelongsTo
+    {
+        return $this->belongsTo(Client::class);
+    }
+
+    public function event(): BelongsTo
+    {
+        return $this->belongsTo(Event::class);
+    }
+
+    public function classRegistration(): BelongsTo
+    {
+        return $this->belongsTo(ClassRegistration::class);
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+}
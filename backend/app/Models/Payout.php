@@ -7,6 +7,7 @@
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasOne;
 
 class Payout extends Model
 {
@@ -18,7 +19,11 @@ class Payout extends Model
         'period_to',
         'hours_total',
         'amount_total',
+        'breakdown',
         'exported_at',
+        'paid_at',
+        'payment_reference',
+        'created_by',
     ];
 
     protected function casts(): array
@@ -28,7 +33,9 @@ protected function casts(): array
             'period_to' => 'date',
             'hours_total' => 'decimal:2',
             'amount_total' => 'decimal:2',
+            'breakdown' => 'array',
             'exported_at' => 'datetime',
+            'paid_at' => 'date',
             'created_at' => 'datetime',
             'updated_at' => 'datetime',
         ];
@@ -38,4 +45,9 @@ public function staff(): BelongsTo
     {
         return $this->belongsTo(User::class, 'staff_id');
     }
+
+    public function settlement(): HasOne
+    {
+        return $this->hasOne(Settlement::class);
+    }
 }
@@ -65,4 +65,18 @@ public function isProcessing(): bool
     {
         return in_array($this->status, ['pending', 'processing']);
     }
+
+    /**
+     * Download file name, e.g. admin_payouts_2025-01-01_2025-01-31.xlsx
+     */
+    public function downloadFilename(): string
+    {
+        return sprintf(
+            '%s_%s_%s.%s',
+            str_replace('.', '_', $this->report_key),
+            $this->params['from'] ?? $this->created_at->format('Y-m-d'),
+            $this->params['to'] ?? $this->created_at->format('Y-m-d'),
+            $this->format
+        );
+    }
 }
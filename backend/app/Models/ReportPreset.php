@@ -0,0 +1,36 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class ReportPreset extends Model
+{
+    /**
+     * Relative date ranges a preset can store instead of fixed dates
+     */
+    public const RANGES = ['custom', 'last_7_days', 'last_30_days', 'this_month', 'last_month'];
+
+    protected $fillable = [
+        'user_id',
+        'name',
+        'filters',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'filters' => 'array',
+            'created_at' => 'datetime',
+            'updated_at' => 'datetime',
+        ];
+    }
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+}
@@ -20,6 +20,11 @@ class Settlement extends Model
         'total_trainer_fee',
         'total_entry_fee',
         'status',
+        'locked_at',
+        'finalized_by',
+        'paid_at',
+        'payment_reference',
+        'payout_id',
         'notes',
         'created_by',
     ];
@@ -31,6 +36,8 @@ protected function casts(): array
             'period_end' => 'date',
             'total_trainer_fee' => 'integer',
             'total_entry_fee' => 'integer',
+            'locked_at' => 'datetime',
+            'paid_at' => 'date',
             'created_at' => 'datetime',
             'updated_at' => 'datetime',
         ];
@@ -46,11 +53,55 @@ public function creator(): BelongsTo
         return $this->belongsTo(User::class, 'created_by');
     }
 
+    public function finalizer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'finalized_by');
+    }
+
     public function items(): HasMany
     {
         return $this->hasMany(SettlementItem::class);
     }
 
+    public function adjustments(): HasMany
+    {
+        return $this->hasMany(SettlementAdjustment::class);
+    }
+
+    public function unlocks(): HasMany
+    {
+        return $this->hasMany(SettlementUnlock::class);
+    }
+
+    public function payout(): BelongsTo
+    {
+        return $this->belongsTo(Payout::class);
+    }
+
+    /**
+     * Finalized and paid settlements lock their period for the trainer
+     */
+    public function isLocked(): bool
+    {
+        return $this->locked_at !== null;
+    }
+
+    /**
+     * Sum of bonuses minus deductions
+     */
+    public function totalAdjustments(): int
+    {
+        return $this->adjustments->sum(fn (SettlementAdjustment $adjustment) => $adjustment->signedAmount());
+    }
+
+    /**
+     * Amount paid out to the trainer: trainer fee plus adjustments
+     */
+    public function payableAmount(): int
+    {
+        return $this->total_trainer_fee + $this->totalAdjustments();
+    }
+
     /**
      * Scope to filter by status.
      */
@@ -67,6 +118,14 @@ public function scopeForTrainer($query, int $trainerId)
         return $query->where('trainer_id', $trainerId);
     }
 
+    /**
+     * Scope to locked (finalized or paid) settlements.
+     */
+    public function scopeLocked($query)
+    {
+        return $query->whereNotNull('locked_at');
+    }
+
     /**
      * Scope to filter by period.
      */
@@ -75,4 +134,13 @@ public function scopeInPeriod($query, string $startDate, string $endDate)
         return $query->where('period_start', '>=', $startDate)
             ->where('period_end', '<=', $endDate);
     }
+
+    /**
+     * Scope to settlements whose period overlaps the given dates.
+     */
+    public function scopeOverlapping($query, string $startDate, string $endDate)
+    {
+        return $query->whereDate('period_start', '<=', $endDate)
+            ->whereDate('period_end', '>=', $startDate);
+    }
 }
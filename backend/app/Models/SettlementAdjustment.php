@@ -0,0 +1,51 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class SettlementAdjustment extends Model
+{
+    use HasFactory;
+
+    public const TYPES = ['bonus', 'deduction'];
+
+    protected $fillable = [
+        'settlement_id',
+        'type',
+        'amount',
+        'reason',
+        'created_by',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'amount' => 'integer',
+            'created_at' => 'datetime',
+            'updated_at' => 'datetime',
+        ];
+    }
+
+    public function settlement(): BelongsTo
+    {
+        return $this->belongsTo(Settlement::class);
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Amount with its sign (deductions are negative)
+     */
+    public function signedAmount(): int
+    {
+        return $this->type === 'deduction' ? -$this->amount : $this->amount;
+    }
+}
@@ -0,0 +1,32 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class StaffAvailability extends Model
+{
+    protected $fillable = [
+        'staff_id',
+        'weekday',
+        'start_time',
+        'end_time',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'weekday' => 'integer',
+            'created_at' => 'datetime',
+            'updated_at' => 'datetime',
+        ];
+    }
+
+    public function staff(): BelongsTo
+    {
+        return $this->belongsTo(StaffProfile::class, 'staff_id');
+    }
+}
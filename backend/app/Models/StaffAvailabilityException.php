@@ -0,0 +1,57 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class StaffAvailabilityException extends Model
+{
+    protected $fillable = [
+        'staff_id',
+        'type',
+        'starts_on',
+        'ends_on',
+        'start_time',
+        'end_time',
+        'note',
+        'created_by',
+    ];
+
+    protected function casts(): array
+    {
+        return [
+            'starts_on' => 'date',
+            'ends_on' => 'date',
+            'created_at' => 'datetime',
+            'updated_at' => 'datetime',
+        ];
+    }
+
+    public function staff(): BelongsTo
+    {
+        return $this->belongsTo(StaffProfile::class, 'staff_id');
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    /**
+     * Exceptions touching the given date range (inclusive).
+     */
+    public function scopeOverlapping(Builder $query, string $fromDate, string $toDate): Builder
+    {
+        return $query->where('starts_on', '<=', $toDate)
+            ->where('ends_on', '>=', $fromDate);
+    }
+
+    public function isFullDay(): bool
+    {
+        return $this->start_time === null || $this->end_time === null;
+    }
+}
@@ -73,4 +73,14 @@ public function priceCodes(): HasMany
     {
         return $this->hasMany(StaffPriceCode::class);
     }
+
+    public function availabilities(): HasMany
+    {
+        return $this->hasMany(StaffAvailability::class, 'staff_id');
+    }
+
+    public function availabilityExceptions(): HasMany
+    {
+        return $this->hasMany(StaffAvailabilityException::class, 'staff_id');
+    }
 }
@@ -33,12 +33,15 @@ class User extends Authenticatable
     protected $hidden = [
         'password',
         'remember_token',
+        'calendar_feed_token',
     ];
 
     protected function casts(): array
     {
         return [
             'last_login_at' => 'datetime',
+            'calendar_feed_created_at' => 'datetime',
+            'calendar_feed_accessed_at' => 'datetime',
             'password' => 'hashed',
             'created_at' => 'datetime',
             'updated_at' => 'datetime',
@@ -0,0 +1,78 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Observers;
+
+use App\Models\ClassOccurrence;
+use App\Services\CalendarRealtimeService;
+use App\Services\SettlementLockService;
+
+class ClassOccurrenceObserver
+{
+    public function __construct(
+        private readonly CalendarRealtimeService $calendarRealtime,
+        private readonly SettlementLockService $settlementLock
+    ) {}
+
+    /**
+     * Handle the ClassOccurrence "creating" event.
+     */
+    public function creating(ClassOccurrence $occurrence): void
+    {
+        $this->settlementLock->assertOccurrenceEditable($occurrence);
+    }
+
+    /**
+     * Handle the ClassOccurrence "updating" event.
+     */
+    public function updating(ClassOccurrence $occurrence): void
+    {
+        $this->settlementLock->assertOccurrenceEditable($occurrence);
+    }
+
+    /**
+     * Handle the ClassOccurrence "deleting" event.
+     */
+    public function deleting(ClassOccurrence $occurrence): void
+    {
+        $this->settlementLock->assertOccurrenceDeletable($occurrence);
+    }
+
+    /**
+     * Handle the ClassOccurrence "created" event.
+     */
+    public function created(ClassOccurrence $occurrence): void
+    {
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_CLASS_OCCURRENCE, $occurrence->id, 'created');
+    }
+
+    /**
+     * Handle the ClassOccurrence "updated" event.
+     */
+    public function updated(ClassOccurrence $occurrence): void
+    {
+        // The Google Calendar id written back by the sync job is not a calendar change
+        if (array_diff(array_keys($occurrence->getDirty()), ['google_event_id', 'updated_at']) === []) {
+            return;
+        }
+
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_CLASS_OCCURRENCE, $occurrence->id, 'updated');
+    }
+
+    /**
+     * Handle the ClassOccurrence "deleted" event.
+     */
+    public function deleted(ClassOccurrence $occurrence): void
+    {
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_CLASS_OCCURRENCE, $occurrence->id, 'deleted');
+    }
+
+    /**
+     * Handle the ClassOccurrence "restored" event.
+     */
+    public function restored(ClassOccurrence $occurrence): void
+    {
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_CLASS_OCCURRENCE, $occurrence->id, 'created');
+    }
+}
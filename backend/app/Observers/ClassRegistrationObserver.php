@@ -0,0 +1,84 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Observers;
+
+use App\Models\ClassRegistration;
+use App\Services\CalendarRealtimeService;
+use App\Services\SettlementLockService;
+
+/**
+ * Bookings change the free spots shown on the calendar, so they are pushed
+ * as updates of their class occurrence.
+ */
+class ClassRegistrationObserver
+{
+    public function __construct(
+        private readonly CalendarRealtimeService $calendarRealtime,
+        private readonly SettlementLockService $settlementLock
+    ) {}
+
+    /**
+     * Handle the ClassRegistration "creating" event.
+     */
+    public function creating(ClassRegistration $registration): void
+    {
+        $this->settlementLock->assertRegistrationEditable($registration);
+    }
+
+    /**
+     * Handle the ClassRegistration "updating" event.
+     */
+    public function updating(ClassRegistration $registration): void
+    {
+        $this->settlementLock->assertRegistrationEditable($registration);
+    }
+
+    /**
+     * Handle the ClassRegistration "deleting" event.
+     */
+    public function deleting(ClassRegistration $registration): void
+    {
+        $this->settlementLock->assertRegistrationEditable($registration, deleting: true);
+    }
+
+    /**
+     * Handle the ClassRegistration "created" event.
+     */
+    public function created(ClassRegistration $registration): void
+    {
+        $this->publishOccurrence((int) $registration->occurrence_id);
+    }
+
+    /**
+     * Handle the ClassRegistration "updated" event.
+     */
+    public function updated(ClassRegistration $registration): void
+    {
+        if ($registration->isDirty('occurrence_id')) {
+            // A rescheduled booking frees a spot on its previous occurrence
+            $this->publishOccurrence((int) $registration->getOriginal('occurrence_id'));
+            $this->publishOccurrence((int) $registration->occurrence_id);
+
+            return;
+        }
+
+        if ($registration->isDirty('status')) {
+            $this->publishOccurrence((int) $registration->occurrence_id);
+        }
+    }
+
+    /**
+     * Handle the ClassRegistration "deleted" event.
+     */
+    public function deleted(ClassRegistration $registration): void
+    {
+        $this->publishOccurrence((int) $registration->occurrence_id);
+    }
+
+    private function publishOccurrence(int $occurrenceId): void
+    {
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_CLASS_OCCURRENCE, $occurrenceId, 'updated');
+    }
+}
@@ -9,6 +9,8 @@
 use App\Models\Event;
 use App\Models\EventChange;
 use App\Services\CalendarChangeLogger;
+use App\Services\CalendarRealtimeService;
+use App\Services\SettlementLockService;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Log;
 
@@ -19,13 +21,53 @@ class EventObserver
      */
     protected CalendarChangeLogger $calendarChangeLogger;
 
+    /**
+     * CalendarRealtimeService instance (pushes changes to open calendars).
+     */
+    protected CalendarRealtimeService $calendarRealtime;
+
+    /**
+     * SettlementLockService instance (finalized settlement periods are read-only).
+     */
+    protected SettlementLockService $settlementLock;
+
     /**
      * Constructor with dependency injection.
      */
-    public function __construct(CalendarChangeLogger $calendarChangeLogger)
-    {
+    public function __construct(
+        CalendarChangeLogger $calendarChangeLogger,
+        CalendarRealtimeService $calendarRealtime,
+        SettlementLockService $settlementLock
+    ) {
         $this->calendarChangeLogger = $calendarChangeLogger;
+        $this->calendarRealtime = $calendarRealtime;
+        $this->settlementLock = $settlementLock;
     }
+
+    /**
+     * Handle the Event "creating" event.
+     */
+    public function creating(Event $event): void
+    {
+        $this->settlementLock->assertEventEditable($event);
+    }
+
+    /**
+     * Handle the Event "updating" event.
+     */
+    public function updating(Event $event): void
+    {
+        $this->settlementLock->assertEventEditable($event);
+    }
+
+    /**
+     * Handle the Event "deleting" event.
+     */
+    public function deleting(Event $event): void
+    {
+        $this->settlementLock->assertEventDeletable($event);
+    }
+
     /**
      * Handle the Event "created" event.
      */
@@ -33,6 +75,7 @@ public function created(Event $event): void
     {
         // Log event creation to new audit trail
         $this->calendarChangeLogger->logCreated($event);
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_EVENT, $event->id, 'created');
 
         // Keep legacy logging for backwards compatibility
         $this->logChange($event, 'created', [
@@ -75,6 +118,11 @@ public function updated(Event $event): void
         // Log event update to new audit trail
         $this->calendarChangeLogger->logUpdated($event, $originalAttributes);
 
+        // The Google Calendar id written back by the sync job is not a calendar change
+        if (array_diff(array_keys($event->getDirty()), ['google_event_id', 'updated_at']) !== []) {
+            $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_EVENT, $event->id, 'updated');
+        }
+
         // Determine action type based on changes for legacy logging
         $action = 'updated';
         $changedFields = array_keys($event->getDirty());
@@ -144,7 +192,8 @@ public function updated(Event $event): void
             'type',
         ];
 
-        $hasRelevantChanges = false;
+        // A confirmed online booking is synced for the first time
+        $hasRelevantChanges = $event->isDirty('status') && $event->getOriginal('status') === 'pending';
         foreach ($relevantFields as $field) {
             if ($event->isDirty($field)) {
                 $hasRelevantChanges = true;
@@ -175,6 +224,7 @@ public function deleted(Event $event): void
     {
         // Log event deletion to new audit trail
         $this->calendarChangeLogger->logDeleted($event);
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_EVENT, $event->id, 'deleted');
 
         // Keep legacy logging for backwards compatibility
         $this->logChange($event, 'deleted', [
@@ -200,6 +250,7 @@ public function restored(Event $event): void
         $this->logChange($event, 'updated', [
             'action_detail' => 'restored_from_soft_delete',
         ]);
+        $this->calendarRealtime->publish(CalendarRealtimeService::ENTITY_EVENT, $event->id, 'created');
 
         // When an event is restored, re-sync to Google Calendar
         if ($event->status === 'scheduled') {
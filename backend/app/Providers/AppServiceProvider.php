@@ -2,7 +2,11 @@
 
 namespace App\Providers;
 
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
 use App\Models\Event;
+use App\Observers\ClassOccurrenceObserver;
+use App\Observers\ClassRegistrationObserver;
 use App\Observers\EventObserver;
 use Illuminate\Support\ServiceProvider;
 
@@ -23,5 +27,7 @@ public function boot(): void
     {
         // Register model observers
         Event::observe(EventObserver::class);
+        ClassOccurrence::observe(ClassOccurrenceObserver::class);
+        ClassRegistration::observe(ClassRegistrationObserver::class);
     }
 }
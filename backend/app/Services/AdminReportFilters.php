@@ -0,0 +1,108 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use Illuminate\Database\Eloquent\Builder;
+
+/**
+ * Optional trainer / site / room / service type filters of the itemized admin reports,
+ * shared by the JSON endpoints and the spreadsheet exports so both show the same rows.
+ *
+ * service_type narrows a report to 1:1 sessions (INDIVIDUAL) or group classes (GROUP_CLASS).
+ */
+final class AdminReportFilters
+{
+    public const SERVICE_TYPES = ['INDIVIDUAL', 'GROUP_CLASS'];
+
+    public function __construct(
+        public readonly ?int $trainerId = null,
+        public readonly ?int $siteId = null,
+        public readonly ?int $roomId = null,
+        public readonly ?string $serviceType = null,
+    ) {}
+
+    /**
+     * Build from request input or stored export params (trainer_id, site_id, room_id, service_type)
+     */
+    public static function fromArray(array $input): self
+    {
+        $int = fn (string $key) => isset($input[$key]) && $input[$key] !== '' ? (int) $input[$key] : null;
+
+        return new self(
+            trainerId: $int('trainer_id'),
+            siteId: $int('site_id'),
+            roomId: $int('room_id'),
+            serviceType: in_array($input['service_type'] ?? null, self::SERVICE_TYPES, true) ? $input['service_type'] : null,
+        );
+    }
+
+    /**
+     * Validation rules of the filter parameters
+     */
+    public static function rules(string $prefix = ''): array
+    {
+        return [
+            "{$prefix}trainer_id" => ['nullable', 'integer', 'exists:staff_profiles,id'],
+            "{$prefix}site_id" => ['nullable', 'integer', 'exists:sites,id'],
+            "{$prefix}room_id" => ['nullable', 'integer', 'exists:rooms,id'],
+            "{$prefix}service_type" => ['nullable', 'in:' . implode(',', self::SERVICE_TYPES)],
+        ];
+    }
+
+    /**
+     * The filters that are set, echoed back in the report responses
+     */
+    public function toArray(): array
+    {
+        return array_filter([
+            'trainer_id' => $this->trainerId,
+            'site_id' => $this->siteId,
+            'room_id' => $this->roomId,
+            'service_type' => $this->serviceType,
+        ], fn ($value) => $value !== null);
+    }
+
+    public function includesIndividual(): bool
+    {
+        return $this->serviceType !== 'GROUP_CLASS';
+    }
+
+    public function includesGroup(): bool
+    {
+        return $this->serviceType !== 'INDIVIDUAL';
+    }
+
+    /**
+     * Restrict an Event query (1:1 sessions)
+     */
+    public function applyToEvents(Builder $query): Builder
+    {
+        return $query
+            ->when(!$this->includesIndividual(), fn ($q) => $q->whereRaw('1 = 0'))
+            ->when($this->trainerId, fn ($q, $id) => $q->where('staff_id', $id))
+            ->when($this->roomId, fn ($q, $id) => $q->where('room_id', $id))
+            ->when($this->siteId, fn ($q, $id) => $q->whereHas('room', fn ($r) => $r->where('site_id', $id)));
+    }
+
+    /**
+     * Restrict a ClassOccurrence query (group classes), also usable inside whereHas('occurrence')
+     */
+    public function applyToOccurrences(Builder $query): Builder
+    {
+        return $query
+            ->when(!$this->includesGroup(), fn ($q) => $q->whereRaw('1 = 0'))
+            ->when($this->trainerId, fn ($q, $id) => $q->where('trainer_id', $id))
+            ->when($this->roomId, fn ($q, $id) => $q->where('room_id', $id))
+            ->when($this->siteId, fn ($q, $id) => $q->whereHas('room', fn ($r) => $r->where('site_id', $id)));
+    }
+
+    /**
+     * Restrict a StaffProfile query to the selected trainer
+     */
+    public function applyToTrainers(Builder $query): Builder
+    {
+        return $query->when($this->trainerId, fn ($q, $id) => $q->whereKey($id));
+    }
+}
@@ -0,0 +1,197 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\Event;
+use App\Models\User;
+use Illuminate\Support\Str;
+
+/**
+ * Personal iCalendar feeds and single-item .ics files.
+ *
+ * Every staff member and client can have one private feed URL, identified by a random
+ * token; regenerating the token revokes the previous URL. The feed lists the user's
+ * sessions and classes from FEED_PAST_DAYS ago to FEED_FUTURE_DAYS ahead, cancelled
+ * ones included so subscribed calendars drop them.
+ */
+class CalendarFeedService
+{
+    private const FEED_PAST_DAYS = 30;
+    private const FEED_FUTURE_DAYS = 180;
+
+    /**
+     * Registrations that put a class in the client's calendar (waitlisted ones as tentative)
+     */
+    private const LISTED_REGISTRATION_STATUSES = ['booked', 'waitlist', 'attended', 'no_show', 'cancelled'];
+
+    /**
+     * Create (or replace) the user's feed token. The previous feed URL stops working.
+     */
+    public function issueToken(User $user): string
+    {
+        $token = Str::random(48);
+
+        $user->forceFill([
+            'calendar_feed_token' => $token,
+            'calendar_feed_created_at' => now(),
+            'calendar_feed_accessed_at' => null,
+        ])->save();
+
+        return $token;
+    }
+
+    public function revoke(User $user): void
+    {
+        $user->forceFill([
+            'calendar_feed_token' => null,
+            'calendar_feed_created_at' => null,
+            'calendar_feed_accessed_at' => null,
+        ])->save();
+    }
+
+    public function findUserByToken(string $token): ?User
+    {
+        return User::where('calendar_feed_token', $token)->first();
+    }
+
+    public function feedUrl(User $user): ?string
+    {
+        return $user->calendar_feed_token
+            ? url("/api/v1/calendar-feed/{$user->calendar_feed_token}.ics")
+            : null;
+    }
+
+    /**
+     * The user's feed: staff get their sessions and the classes they teach,
+     * clients their sessions (as main or additional client) and class registrations
+     */
+    public function renderFeed(User $user): string
+    {
+        $calendar = new ICalendarWriter(config('app.name') . ' – ' . $user->name);
+        $from = now()->subDays(self::FEED_PAST_DAYS);
+        $until = now()->addDays(self::FEED_FUTURE_DAYS);
+
+        if ($staff = $user->staffProfile) {
+            Event::with(['client', 'room', 'serviceType'])
+                ->where('staff_id', $staff->id)
+                ->whereBetween('starts_at', [$from, $until])
+                ->orderBy('starts_at')
+                ->get()
+                ->each(fn (Event $event) => $calendar->addEvent($this->eventEntry($event, true)));
+
+            ClassOccurrence::with(['template', 'room'])
+                ->where('trainer_id', $staff->id)
+                ->whereBetween('starts_at', [$from, $until])
+                ->orderBy('starts_at')
+                ->get()
+                ->each(fn (ClassOccurrence $occurrence) => $calendar->addEvent($this->occurrenceEntry($occurrence)));
+        } elseif ($client = $user->client) {
+            Event::with(['staff.user', 'room', 'serviceType'])
+                ->where(fn ($query) => $query
+                    ->where('client_id', $client->id)
+                    ->orWhereHas('additionalClients', fn ($q) => $q->where('clients.id', $client->id)))
+                ->where('type', 'INDIVIDUAL')
+                ->whereBetween('starts_at', [$from, $until])
+                ->orderBy('starts_at')
+                ->get()
+                ->each(fn (Event $event) => $calendar->addEvent($this->eventEntry($event, false)));
+
+            // A class re-booked after a cancellation has several registrations, one entry (UID) per class
+            ClassRegistration::with(['occurrence.template', 'occurrence.room', 'occurrence.trainer.user'])
+                ->where('client_id', $client->id)
+                ->whereIn('status', self::LISTED_REGISTRATION_STATUSES)
+                ->whereHas('occurrence', fn ($q) => $q->whereBetween('starts_at', [$from, $until]))
+                ->latest()
+                ->orderByDesc('id')
+                ->get()
+                ->unique('occurrence_id')
+                ->each(fn (ClassRegistration $registration) => $calendar->addEvent(
+                    $this->occurrenceEntry($registration->occurrence, $registration)
+                ));
+        }
+
+        return $calendar->render();
+    }
+
+    /**
+     * A single class as an .ics file, for "add to calendar" and booking confirmations
+     */
+    public function renderOccurrence(ClassOccurrence $occurrence, ?ClassRegistration $registration = null): string
+    {
+        $occurrence->loadMissing(['template', 'room', 'trainer.user']);
+
+        return (new ICalendarWriter(config('app.name')))
+            ->addEvent($this->occurrenceEntry($occurrence, $registration))
+            ->render();
+    }
+
+    /**
+     * A single session as an .ics file, seen by its client
+     */
+    public function renderEvent(Event $event): string
+    {
+        $event->loadMissing(['staff.user', 'room', 'serviceType']);
+
+        return (new ICalendarWriter(config('app.name')))
+            ->addEvent($this->eventEntry($event, false))
+            ->render();
+    }
+
+    private function eventEntry(Event $event, bool $forStaff): array
+    {
+        $service = $event->type === 'BLOCK' ? 'Blocked' : ($event->serviceType?->name ?? 'Session');
+        $with = $forStaff ? $event->client?->full_name : $event->staff?->user?->name;
+
+        return [
+            'uid' => "event-{$event->id}@" . $this->uidHost(),
+            'starts_at' => $event->starts_at,
+            'ends_at' => $event->ends_at,
+            'summary' => $with ? "{$service} – {$with}" : $service,
+            // Notes are internal, only staff see them
+            'description' => $forStaff ? $event->notes : null,
+            'location' => $event->room?->name,
+            'status' => match ($event->status) {
+                'cancelled' => 'CANCELLED',
+                'pending' => 'TENTATIVE',
+                default => 'CONFIRMED',
+            },
+            'updated_at' => $event->updated_at,
+        ];
+    }
+
+    private function occurrenceEntry(ClassOccurrence $occurrence, ?ClassRegistration $registration = null): array
+    {
+        $title = $occurrence->template?->title ?? 'Class';
+
+        $status = match (true) {
+            $occurrence->status === 'cancelled', $registration?->status === 'cancelled' => 'CANCELLED',
+            $registration?->status === 'waitlist' => 'TENTATIVE',
+            default => 'CONFIRMED',
+        };
+
+        return [
+            'uid' => "class-{$occurrence->id}@" . $this->uidHost(),
+            'starts_at' => $occurrence->starts_at,
+            'ends_at' => $occurrence->ends_at,
+            'summary' => $registration?->status === 'waitlist' ? "{$title} (waitlist)" : $title,
+            // The staff feed is the trainer's own, it does not load them
+            'description' => $occurrence->relationLoaded('trainer') && $occurrence->trainer?->user
+                ? "Trainer: {$occurrence->trainer->user->name}"
+                : null,
+            'location' => $occurrence->room?->name,
+            'status' => $status,
+            'updated_at' => $registration?->updated_at?->gt($occurrence->updated_at)
+                ? $registration->updated_at
+                : $occurrence->updated_at,
+        ];
+    }
+
+    private function uidHost(): string
+    {
+        return parse_url((string) config('app.url'), PHP_URL_HOST) ?: 'functionalfit';
+    }
+}
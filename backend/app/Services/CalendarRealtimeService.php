@@ -0,0 +1,163 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Http\Resources\ClassOccurrenceResource;
+use App\Models\CalendarEditSession;
+use App\Models\CalendarUpdate;
+use App\Models\ClassOccurrence;
+use App\Models\Event;
+use App\Models\User;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Log;
+
+class CalendarRealtimeService
+{
+    public const ENTITY_EVENT = 'event';
+    public const ENTITY_CLASS_OCCURRENCE = 'class_occurrence';
+
+    /**
+     * Record a change of an event or class occurrence for open calendars.
+     */
+    public function publish(string $entityType, int $entityId, string $action): void
+    {
+        try {
+            CalendarUpdate::create([
+                'entity_type' => $entityType,
+                'entity_id' => $entityId,
+                'action' => $action,
+                'actor_user_id' => Auth::id(),
+                'created_at' => now(),
+            ]);
+        } catch (\Exception $e) {
+            // Log error but don't fail the main operation
+            Log::error('Failed to publish calendar update', [
+                'entity_type' => $entityType,
+                'entity_id' => $entityId,
+                'action' => $action,
+                'error' => $e->getMessage(),
+            ]);
+        }
+    }
+
+    /**
+     * Id of the newest update, a fresh stream starts after it.
+     */
+    public function latestId(): int
+    {
+        return (int) CalendarUpdate::max('id');
+    }
+
+    /**
+     * Whether updates after $lastId were already pruned, so replaying the feed would miss changes.
+     */
+    public function needsResync(int $lastId): bool
+    {
+        $oldestId = CalendarUpdate::min('id');
+
+        return $oldestId !== null && $lastId < (int) $oldestId - 1;
+    }
+
+    /**
+     * Updates after $lastId with the current state of the changed item.
+     *
+     * The item is serialized the same way as the calendar list endpoints return it,
+     * so the frontend can put it straight into its caches. It is null for deletions.
+     *
+     * @return array<int, array<string, mixed>>
+     */
+    public function updatesSince(int $lastId, int $limit = 100): array
+    {
+        $updates = CalendarUpdate::with('actor:id,name')
+            ->where('id', '>', $lastId)
+            ->orderBy('id')
+            ->limit($limit)
+            ->get();
+
+        return $updates->map(function (CalendarUpdate $update) {
+            $item = $update->action === 'deleted'
+                ? null
+                : $this->serializeItem($update->entity_type, $update->entity_id);
+
+            return [
+                'id' => $update->id,
+                'entity_type' => $update->entity_type,
+                'entity_id' => $update->entity_id,
+                // The item may have been deleted since this update was recorded
+                'action' => $update->action !== 'deleted' && $item === null ? 'deleted' : $update->action,
+                'item' => $item,
+                'actor' => $update->actor ? [
+                    'id' => $update->actor->id,
+                    'name' => $update->actor->name,
+                ] : null,
+                'created_at' => $update->created_at?->toIso8601String(),
+            ];
+        })->all();
+    }
+
+    /**
+     * Mark an item as being edited by the user (also used as heartbeat).
+     */
+    public function startEditing(User $user, string $entityType, int $entityId): CalendarEditSession
+    {
+        return CalendarEditSession::updateOrCreate(
+            [
+                'entity_type' => $entityType,
+                'entity_id' => $entityId,
+                'user_id' => $user->id,
+            ],
+            ['heartbeat_at' => now()]
+        );
+    }
+
+    /**
+     * Release the edit marker of the user on an item.
+     */
+    public function stopEditing(User $user, string $entityType, int $entityId): void
+    {
+        CalendarEditSession::where('entity_type', $entityType)
+            ->where('entity_id', $entityId)
+            ->where('user_id', $user->id)
+            ->delete();
+    }
+
+    /**
+     * Items currently open in an edit form, with who is editing them.
+     *
+     * @return array<int, array<string, mixed>>
+     */
+    public function activeEditors(): array
+    {
+        return CalendarEditSession::with('user:id,name')
+            ->active()
+            ->orderBy('entity_type')
+            ->orderBy('entity_id')
+            ->orderBy('user_id')
+            ->get()
+            ->map(fn (CalendarEditSession $session) => [
+                'entity_type' => $session->entity_type,
+                'entity_id' => $session->entity_id,
+                'user_id' => $session->user_id,
+                'user_name' => $session->user?->name,
+            ])
+            ->all();
+    }
+
+    /**
+     * Current state of an item, null if it no longer exists.
+     */
+    private function serializeItem(string $entityType, int $entityId): ?array
+    {
+        if ($entityType === self::ENTITY_EVENT) {
+            $event = Event::with(['client.user', 'additionalClients.user', 'staff.user', 'room'])->find($entityId);
+
+            return $event?->toArray();
+        }
+
+        $occurrence = ClassOccurrence::with(['template', 'room', 'trainer', 'registrations'])->find($entityId);
+
+        return $occurrence ? (new ClassOccurrenceResource($occurrence))->resolve() : null;
+    }
+}
@@ -0,0 +1,697 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Client;
+use App\Models\ClientImportBatch;
+use App\Models\ClientPriceCode;
+use App\Models\ServiceType;
+use App\Models\User;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Hash;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
+use PhpOffice\PhpSpreadsheet\IOFactory;
+
+/**
+ * Admin client import in three steps:
+ *
+ *  1. parse()  - read a CSV (any delimiter and encoding) or spreadsheet into headers and
+ *                raw rows, with a suggested header-to-field mapping;
+ *  2. dryRun() - check the mapped rows (which the admin may have fixed inline) and tell
+ *                per row whether it would create a client, update one, repeat an earlier
+ *                row or is invalid, without writing anything;
+ *  3. commit() - run the same checks again, apply the create and update rows and store
+ *                what changed in a ClientImportBatch, which undo() can roll back.
+ *
+ * Fields: name, email, phone, service_type (code or name), trainer_fee, entry_fee.
+ * A missing email is an error, unless the admin asks for placeholder addresses
+ * (<name>@potoldazemailcimet.fontos.hu), which are then shown as a warning per row.
+ */
+class ClientImportService
+{
+    public const FIELDS = ['name', 'email', 'phone', 'service_type', 'trainer_fee', 'entry_fee'];
+
+    public const DELIMITERS = [';', ',', "\t", '|'];
+    public const ENCODINGS = ['UTF-8', 'UTF-16', 'Windows-1250', 'ISO-8859-2'];
+
+    public const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'ods'];
+
+    public const MAX_ROWS = 5000;
+
+    private const PLACEHOLDER_EMAIL_DOMAIN = 'potoldazemailcimet.fontos.hu';
+    private const DEFAULT_PHONE = '0690555666';
+
+    /**
+     * Header aliases per field, compared lowercased with "_" read as a space.
+     * The first aliases are the headers of the original import format.
+     */
+    private const FIELD_ALIASES = [
+        'name' => ['nev', 'név', 'name', 'full name', 'vendeg', 'vendég', 'client'],
+        'email' => ['email', 'e-mail', 'email cim', 'email cím', 'e-mail cím'],
+        'phone' => ['tel', 'telefon', 'telefonszam', 'telefonszám', 'phone', 'mobile'],
+        'service_type' => ['szolg', 'szolgaltatas', 'szolgáltatás', 'service', 'service type'],
+        'trainer_fee' => ['edzoi dij', 'edzői díj', 'trainer fee'],
+        'entry_fee' => ['belepo dij', 'belépő díj', 'entry fee'],
+    ];
+
+    private const EMPTY_VALUES = ['', '-', 'N/A'];
+
+    /** @var array<string, ServiceType|null> */
+    private array $serviceTypes = [];
+
+    /**
+     * Read the file into headers and rows. Text files are converted to UTF-8 from the
+     * given (or detected) encoding and split on the given (or detected) delimiter;
+     * spreadsheets are read from their first sheet.
+     *
+     * @return array{format: string, encoding: string|null, delimiter: string|null, headers: string[],
+     *     rows: array<int, array{row: int, values: string[]}>, mapping: array<string, int|null>}
+     * @throws \InvalidArgumentException when the file is empty or cannot be read
+     */
+    public function parse(string $path, string $extension, ?string $delimiter = null, ?string $encoding = null): array
+    {
+        $extension = strtolower($extension);
+
+        if (in_array($extension, self::SPREADSHEET_EXTENSIONS, true)) {
+            $format = $extension;
+            $lines = $this->readSpreadsheet($path);
+        } else {
+            $format = 'csv';
+            $content = (string) file_get_contents($path);
+            $encoding ??= $this->detectEncoding($content);
+            $content = $this->toUtf8($content, $encoding);
+            $delimiter ??= $this->detectDelimiter($content);
+            $lines = $this->readCsv($content, $delimiter);
+        }
+
+        $headers = array_map(fn ($heading) => trim((string) $heading), array_shift($lines) ?? []);
+
+        $rows = [];
+        foreach ($lines as $index => $values) {
+            $values = array_map(fn ($value) => trim((string) $value), $values);
+
+            if (implode('', $values) === '') {
+                continue;
+            }
+
+            // Line number in the file, the header is line 1
+            $rows[] = ['row' => $index + 2, 'values' => array_pad($values, count($headers), '')];
+        }
+
+        if ($headers === [] || $rows === []) {
+            throw new \InvalidArgumentException('A fájl üres vagy csak fejlécet tartalmaz');
+        }
+
+        if (count($rows) > self::MAX_ROWS) {
+            throw new \InvalidArgumentException('Egyszerre legfeljebb ' . self::MAX_ROWS . ' sor importálható');
+        }
+
+        return [
+            'format' => $format,
+            'encoding' => $format === 'csv' ? $encoding : null,
+            'delimiter' => $format === 'csv' ? $delimiter : null,
+            'headers' => $headers,
+            'rows' => $rows,
+            'mapping' => $this->suggestMapping($headers),
+        ];
+    }
+
+    /**
+     * Check the mapped rows without writing anything.
+     *
+     * @param array<int, array{row: int, name?: ?string, email?: ?string, phone?: ?string,
+     *     service_type?: ?string, trainer_fee?: ?string, entry_fee?: ?string}> $rows
+     * @return array{rows: array<int, array>, summary: array{total: int, create: int, update: int, duplicate: int, invalid: int}}
+     */
+    public function dryRun(array $rows, bool $placeholderEmail = false): array
+    {
+        $results = [];
+        $seenEmails = [];
+        $seenNames = [];
+        $reservedEmails = [];
+
+        foreach ($rows as $input) {
+            $result = $this->checkRow($input, $placeholderEmail, $reservedEmails);
+
+            if ($result['status'] !== 'invalid') {
+                $emailKey = mb_strtolower((string) $result['email']);
+                $nameKey = mb_strtolower($result['name']);
+
+                if (isset($seenEmails[$emailKey])) {
+                    $result['status'] = 'duplicate';
+                    $result['duplicate_of'] = $seenEmails[$emailKey];
+                } elseif ($result['placeholder_email'] && isset($seenNames[$nameKey])) {
+                    // Without an email the name is all there is to tell two rows apart
+                    $result['status'] = 'duplicate';
+                    $result['duplicate_of'] = $seenNames[$nameKey];
+                } elseif ($result['placeholder_email'] && ($existing = $this->findClientByName($result['name']))) {
+                    $result['status'] = 'duplicate';
+                    $result['client'] = ['id' => $existing->id, 'name' => $existing->full_name];
+                }
+
+                if ($result['status'] !== 'duplicate') {
+                    $seenEmails[$emailKey] = $result['row'];
+                    $seenNames[$nameKey] ??= $result['row'];
+                }
+            }
+
+            $results[] = $result;
+        }
+
+        return [
+            'rows' => $results,
+            'summary' => [
+                'total' => count($results),
+                'create' => count(array_filter($results, fn ($row) => $row['status'] === 'create')),
+                'update' => count(array_filter($results, fn ($row) => $row['status'] === 'update')),
+                'duplicate' => count(array_filter($results, fn ($row) => $row['status'] === 'duplicate')),
+                'invalid' => count(array_filter($results, fn ($row) => $row['status'] === 'invalid')),
+            ],
+        ];
+    }
+
+    /**
+     * Apply the create and update rows of the dry run and record the batch. Duplicate and
+     * invalid rows are rejected; each row is written in its own transaction.
+     *
+     * @return array{batch: ClientImportBatch, imported: array<int, array>, rejected: array<int, array>}
+     */
+    public function commit(array $rows, bool $placeholderEmail, ?string $fileName, User $user): array
+    {
+        $dryRun = $this->dryRun($rows, $placeholderEmail);
+
+        $changes = [];
+        $imported = [];
+        $rejected = [];
+
+        foreach ($dryRun['rows'] as $row) {
+            if (!in_array($row['status'], ['create', 'update'], true)) {
+                $rejected[] = [
+                    'row' => $row['row'],
+                    'status' => $row['status'],
+                    'errors' => $row['errors'],
+                    'duplicate_of' => $row['duplicate_of'],
+                ];
+                continue;
+            }
+
+            try {
+                $change = DB::transaction(fn () => $this->applyRow($row, $user));
+            } catch (\Throwable $e) {
+                Log::error('Client import failed on row ' . $row['row'], ['error' => $e->getMessage()]);
+                $rejected[] = [
+                    'row' => $row['row'],
+                    'status' => 'invalid',
+                    'errors' => [['code' => 'save_failed', 'value' => $e->getMessage()]],
+                    'duplicate_of' => null,
+                ];
+                continue;
+            }
+
+            $changes[] = $change;
+            $imported[] = [
+                'row' => $row['row'],
+                'status' => $change['client_created'] ? 'create' : 'update',
+                'client_id' => $change['client_id'],
+                'name' => $row['name'],
+                'email' => $row['email'],
+                'placeholder_email' => $row['placeholder_email'],
+                'service_type' => $row['service_type']['name'] ?? null,
+                'trainer_fee' => $row['trainer_fee'],
+                'entry_fee' => $row['entry_fee'],
+            ];
+        }
+
+        $batch = ClientImportBatch::create([
+            'file_name' => $fileName,
+            'status' => ClientImportBatch::STATUS_COMPLETED,
+            'summary' => [
+                'total' => $dryRun['summary']['total'],
+                'created' => count(array_filter($imported, fn ($row) => $row['status'] === 'create')),
+                'updated' => count(array_filter($imported, fn ($row) => $row['status'] === 'update')),
+                'rejected' => count($rejected),
+            ],
+            'changes' => $changes,
+            'created_by' => $user->id,
+        ]);
+
+        return [
+            'batch' => $batch,
+            'imported' => $imported,
+            'rejected' => $rejected,
+        ];
+    }
+
+    /**
+     * Roll back a batch: clients, users and price codes it created are deleted, the
+     * values it overwrote are restored. Clients that have been booked, paid or given a
+     * pass since the import are kept, and clients edited since the import are left as
+     * they are; both are reported instead of being rolled back.
+     *
+     * @return array{deleted: int, restored: int, kept: array<int, array{client_id: int, name: string}>,
+     *     changed: array<int, array{client_id: int, name: string}>}
+     * @throws \InvalidArgumentException when the batch has already been undone
+     */
+    public function undo(ClientImportBatch $batch, User $user): array
+    {
+        return DB::transaction(function () use ($batch, $user) {
+            // Two undo requests at once must not both roll the batch back
+            $batch = ClientImportBatch::whereKey($batch->id)->lockForUpdate()->firstOrFail();
+
+            if ($batch->isUndone()) {
+                throw new \InvalidArgumentException('Ez az import már vissza lett vonva');
+            }
+
+            $result = ['deleted' => 0, 'restored' => 0, 'kept' => [], 'changed' => []];
+
+            foreach (array_reverse($batch->changes ?? []) as $change) {
+                $client = Client::withTrashed()->find($change['client_id']);
+
+                if ($change['client_created']) {
+                    if ($client && $this->hasActivity($client, $change['price_code_id'])) {
+                        $result['kept'][] = ['client_id' => $client->id, 'name' => $client->full_name];
+                        continue;
+                    }
+
+                    if ($client && $this->changedSinceImport($change, $client)) {
+                        $result['changed'][] = ['client_id' => $client->id, 'name' => $client->full_name];
+                        continue;
+                    }
+
+                    if ($change['price_code_created']) {
+                        ClientPriceCode::whereKey($change['price_code_id'])->delete();
+                    }
+
+                    $client?->forceDelete();
+
+                    if ($change['user_created']) {
+                        User::withTrashed()->whereKey($change['user_id'])->first()?->forceDelete();
+                    } elseif ($change['user_before'] !== null) {
+                        // The client was created for an account that existed before the import
+                        User::whereKey($change['user_id'])->update($change['user_before']);
+                    }
+
+                    $result['deleted']++;
+                    continue;
+                }
+
+                if ($client && $this->changedSinceImport($change, $client)) {
+                    $result['changed'][] = ['client_id' => $client->id, 'name' => $client->full_name];
+                    continue;
+                }
+
+                if ($change['price_code_created']) {
+                    ClientPriceCode::whereKey($change['price_code_id'])->delete();
+                } elseif ($change['price_code_before'] !== null) {
+                    ClientPriceCode::whereKey($change['price_code_id'])->update($change['price_code_before']);
+                }
+
+                $client?->update($change['client_before']);
+
+                if ($change['user_before'] !== null) {
+                    User::whereKey($change['user_id'])->update($change['user_before']);
+                }
+
+                $result['restored']++;
+            }
+
+            $batch->update([
+                'status' => ClientImportBatch::STATUS_UNDONE,
+                'summary' => array_merge($batch->summary ?? [], ['undo' => $result]),
+                'undone_at' => now(),
+                'undone_by' => $user->id,
+            ]);
+
+            return $result;
+        });
+    }
+
+    /**
+     * @param array<string, bool> $reservedEmails Placeholder emails handed out to earlier rows
+     */
+    private function checkRow(array $input, bool $placeholderEmail, array &$reservedEmails): array
+    {
+        $value = function (string $field) use ($input): ?string {
+            $cell = trim((string) ($input[$field] ?? ''));
+
+            return in_array($cell, self::EMPTY_VALUES, true) ? null : $cell;
+        };
+
+        $errors = [];
+        $warnings = [];
+
+        $name = $value('name');
+        if ($name === null) {
+            $errors[] = ['code' => 'name_missing', 'value' => null];
+        }
+
+        $email = $value('email');
+        $isPlaceholder = false;
+        if ($email === null) {
+            if ($placeholderEmail && $name !== null) {
+                $email = $this->placeholderEmail($name, $reservedEmails);
+                $isPlaceholder = true;
+                $warnings[] = ['code' => 'placeholder_email', 'value' => $email];
+            } elseif (!$placeholderEmail) {
+                $errors[] = ['code' => 'email_missing', 'value' => null];
+            }
+        } elseif (filter_var($email, FILTER_VALIDATE_EMAIL) === false) {
+            $errors[] = ['code' => 'invalid_email', 'value' => $email];
+        }
+
+        $existingUser = $email !== null && !$isPlaceholder
+            ? User::withTrashed()->with('client')->whereRaw('LOWER(email) = ?', [mb_strtolower($email)])->first()
+            : null;
+
+        if ($existingUser && ($existingUser->trashed() || $existingUser->role !== 'client')) {
+            // Staff, admin and deleted accounts are never taken over by an import
+            $errors[] = ['code' => 'email_in_use', 'value' => $email];
+        }
+
+        $phone = $value('phone');
+        if ($phone !== null && mb_strlen($phone) > 20) {
+            $errors[] = ['code' => 'invalid_phone', 'value' => $phone];
+        }
+
+        $serviceTypeValue = $value('service_type');
+        $serviceType = $serviceTypeValue !== null ? $this->findServiceType($serviceTypeValue) : null;
+        if ($serviceTypeValue !== null && !$serviceType) {
+            $errors[] = ['code' => 'service_type_not_found', 'value' => $serviceTypeValue];
+        }
+
+        $fees = [];
+        foreach (['trainer_fee', 'entry_fee'] as $field) {
+            $fees[$field] = $this->parseFee($value($field));
+            if ($fees[$field] === false) {
+                $errors[] = ['code' => 'invalid_fee', 'value' => $value($field)];
+                $fees[$field] = null;
+            }
+        }
+
+        $client = $existingUser?->client;
+
+        return [
+            'row' => (int) $input['row'],
+            'status' => $errors !== [] ? 'invalid' : ($existingUser ? 'update' : 'create'),
+            'name' => (string) $name,
+            'email' => $email,
+            'placeholder_email' => $isPlaceholder,
+            'phone' => $phone,
+            'service_type' => $serviceType ? ['id' => $serviceType->id, 'name' => $serviceType->name] : null,
+            'trainer_fee' => $fees['trainer_fee'],
+            'entry_fee' => $fees['entry_fee'],
+            'client' => $client ? ['id' => $client->id, 'name' => $client->full_name] : null,
+            'user_id' => $existingUser?->id,
+            'duplicate_of' => null,
+            'errors' => $errors,
+            'warnings' => $warnings,
+        ];
+    }
+
+    /**
+     * Write one checked row and return what it changed, for undo().
+     */
+    private function applyRow(array $row, User $createdBy): array
+    {
+        $change = [
+            'row' => $row['row'],
+            'user_id' => null,
+            'user_created' => false,
+            'user_before' => null,
+            'user_after' => null,
+            'client_id' => null,
+            'client_created' => false,
+            'client_before' => null,
+            'client_after' => null,
+            'price_code_id' => null,
+            'price_code_created' => false,
+            'price_code_before' => null,
+            'price_code_after' => null,
+        ];
+
+        $user = $row['user_id'] ? User::find($row['user_id']) : null;
+
+        if (!$user) {
+            $user = User::create([
+                'name' => $row['name'],
+                'email' => $row['email'],
+                'phone' => $row['phone'] ?? self::DEFAULT_PHONE,
+                'role' => 'client',
+                'status' => 'active',
+                'password' => Hash::make(Str::random(16)), // Random password
+            ]);
+            $change['user_created'] = true;
+        } else {
+            $change['user_before'] = ['name' => $user->name, 'phone' => $user->phone];
+            // An empty phone cell does not wipe the phone number on record
+            $user->update(array_filter([
+                'name' => $row['name'],
+                'phone' => $row['phone'],
+            ], fn ($value) => $value !== null));
+            $change['user_after'] = ['name' => $user->name, 'phone' => $user->phone];
+        }
+        $change['user_id'] = $user->id;
+
+        $client = Client::where('user_id', $user->id)->first();
+        if (!$client) {
+            $client = Client::create([
+                'user_id' => $user->id,
+                'full_name' => $row['name'],
+                'date_of_joining' => now(),
+            ]);
+            $change['client_created'] = true;
+        } else {
+            $change['client_before'] = ['full_name' => $client->full_name];
+            $client->update(['full_name' => $row['name']]);
+            $change['client_after'] = ['full_name' => $client->full_name];
+        }
+        $change['client_id'] = $client->id;
+
+        if ($row['service_type']) {
+            $priceCode = ClientPriceCode::where('client_id', $client->id)
+                ->where('service_type_id', $row['service_type']['id'])
+                ->where('is_active', true)
+                ->first();
+
+            if ($priceCode) {
+                $change['price_code_before'] = [
+                    'entry_fee_brutto' => $priceCode->entry_fee_brutto,
+                    'trainer_fee_brutto' => $priceCode->trainer_fee_brutto,
+                ];
+                $priceCode->update([
+                    'entry_fee_brutto' => $row['entry_fee'] ?? 0,
+                    'trainer_fee_brutto' => $row['trainer_fee'] ?? 0,
+                ]);
+            } else {
+                $priceCode = ClientPriceCode::create([
+                    'client_id' => $client->id,
+                    'client_email' => $user->email,
+                    'service_type_id' => $row['service_type']['id'],
+                    'entry_fee_brutto' => $row['entry_fee'] ?? 0,
+                    'trainer_fee_brutto' => $row['trainer_fee'] ?? 0,
+                    'currency' => 'HUF',
+                    'valid_from' => now(),
+                    'is_active' => true,
+                    'created_by' => $createdBy->id,
+                ]);
+                $change['price_code_created'] = true;
+            }
+            $change['price_code_id'] = $priceCode->id;
+            $change['price_code_after'] = [
+                'entry_fee_brutto' => $priceCode->entry_fee_brutto,
+                'trainer_fee_brutto' => $priceCode->trainer_fee_brutto,
+            ];
+        }
+
+        return $change;
+    }
+
+    /**
+     * Whether anything besides the import refers to the client by now. The price
+     * code the import created for the client does not count.
+     */
+    private function hasActivity(Client $client, ?int $importedPriceCodeId): bool
+    {
+        return $client->events()->exists()
+            || $client->additionalEvents()->exists()
+            || $client->classRegistrations()->exists()
+            || $client->passes()->exists()
+            || $client->payments()->exists()
+            || $client->settlementItems()->exists()
+            || $client->priceCodes()->when($importedPriceCodeId, fn ($query) => $query->whereKeyNot($importedPriceCodeId))->exists();
+    }
+
+    /**
+     * Whether the user, client or price code a row wrote has been edited since,
+     * so restoring the values from before the import would overwrite the later edit.
+     */
+    private function changedSinceImport(array $change, Client $client): bool
+    {
+        // Batches imported before the written values were recorded have no *_after
+        $differs = fn (?array $after, ?Model $model) => $after !== null
+            && $model !== null
+            && $model->only(array_keys($after)) != $after;
+
+        return $differs($change['client_after'] ?? null, $client)
+            || $differs($change['user_after'] ?? null, User::find($change['user_id']))
+            || $differs($change['price_code_after'] ?? null, ClientPriceCode::find($change['price_code_id']));
+    }
+
+    /**
+     * @return array<int, array<int, mixed>>
+     */
+    private function readSpreadsheet(string $path): array
+    {
+        try {
+            $sheet = IOFactory::load($path)->getSheet(0);
+        } catch (\Throwable $e) {
+            throw new \InvalidArgumentException('A táblázat nem olvasható: ' . $e->getMessage());
+        }
+
+        // Formatted values, so that e.g. phone numbers and dates read as shown in Excel
+        return $sheet->toArray('', true, true, false);
+    }
+
+    /**
+     * @return array<int, array<int, string|null>>
+     */
+    private function readCsv(string $content, string $delimiter): array
+    {
+        $stream = fopen('php://temp', 'r+');
+        fwrite($stream, $content);
+        rewind($stream);
+
+        $lines = [];
+        while (($values = fgetcsv($stream, null, $delimiter, '"', '')) !== false) {
+            $lines[] = $values;
+        }
+        fclose($stream);
+
+        return $lines;
+    }
+
+    private function detectEncoding(string $content): string
+    {
+        if (str_starts_with($content, "\xFF\xFE") || str_starts_with($content, "\xFE\xFF")) {
+            return 'UTF-16';
+        }
+
+        // Excel on Hungarian Windows saves "CSV" as Windows-1250
+        return mb_check_encoding($content, 'UTF-8') ? 'UTF-8' : 'Windows-1250';
+    }
+
+    /**
+     * @throws \InvalidArgumentException when the content is not valid in the encoding
+     */
+    private function toUtf8(string $content, string $encoding): string
+    {
+        if ($encoding !== 'UTF-8') {
+            $converted = @iconv($encoding, 'UTF-8', $content);
+
+            if ($converted === false) {
+                throw new \InvalidArgumentException("A fájl nem olvasható {$encoding} kódolással");
+            }
+
+            $content = $converted;
+        } elseif (!mb_check_encoding($content, 'UTF-8')) {
+            throw new \InvalidArgumentException('A fájl nem UTF-8 kódolású, válassz másik kódolást');
+        }
+
+        return (string) preg_replace('/^\xEF\xBB\xBF/', '', $content);
+    }
+
+    private function detectDelimiter(string $content): string
+    {
+        $headerLine = strtok($content, "\r\n") ?: '';
+
+        $counts = [];
+        foreach (self::DELIMITERS as $delimiter) {
+            $counts[$delimiter] = substr_count($headerLine, $delimiter);
+        }
+        arsort($counts);
+
+        return array_key_first($counts);
+    }
+
+    /**
+     * @param string[] $headers
+     * @return array<string, int|null>
+     */
+    private function suggestMapping(array $headers): array
+    {
+        $normalized = array_map(fn ($heading) => str_replace('_', ' ', mb_strtolower($heading)), $headers);
+
+        $mapping = [];
+        foreach (self::FIELD_ALIASES as $field => $aliases) {
+            $mapping[$field] = null;
+
+            foreach ($normalized as $index => $heading) {
+                if (in_array($heading, $aliases, true)) {
+                    $mapping[$field] = $index;
+                    break;
+                }
+            }
+        }
+
+        return $mapping;
+    }
+
+    /**
+     * Fee in whole forints: spaces, currency and thousand separators are ignored, a
+     * comma is a decimal separator. Null when empty, false when not a number.
+     */
+    private function parseFee(?string $value): int|false|null
+    {
+        if ($value === null) {
+            return null;
+        }
+
+        $value = str_replace(',', '.', (string) preg_replace('/[^\d,.\-]/', '', $value));
+
+        if (!is_numeric($value)) {
+            return false;
+        }
+
+        return (int) round((float) $value);
+    }
+
+    /**
+     * @param array<string, bool> $reservedEmails
+     */
+    private function placeholderEmail(string $name, array &$reservedEmails): string
+    {
+        $slug = Str::slug($name, '.');
+        $email = $slug . '@' . self::PLACEHOLDER_EMAIL_DOMAIN;
+
+        $counter = 1;
+        while (isset($reservedEmails[$email]) || User::withTrashed()->where('email', $email)->exists()) {
+            $email = $slug . '.' . $counter . '@' . self::PLACEHOLDER_EMAIL_DOMAIN;
+            $counter++;
+        }
+        $reservedEmails[$email] = true;
+
+        return $email;
+    }
+
+    private function findServiceType(string $codeOrName): ?ServiceType
+    {
+        $key = mb_strtolower($codeOrName);
+
+        if (!array_key_exists($key, $this->serviceTypes)) {
+            $this->serviceTypes[$key] = ServiceType::whereRaw('LOWER(code) = ?', [$key])
+                ->orWhereRaw('LOWER(name) = ?', [$key])
+                ->first();
+        }
+
+        return $this->serviceTypes[$key];
+    }
+
+    private function findClientByName(string $name): ?Client
+    {
+        return Client::whereRaw('LOWER(full_name) = ?', [mb_strtolower($name)])->first();
+    }
+}
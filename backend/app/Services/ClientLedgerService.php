@@ -0,0 +1,354 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Exceptions\ConflictException;
+use App\Models\ClassRegistration;
+use App\Models\Client;
+use App\Models\ClientPayment;
+use App\Models\Event;
+use App\Models\Pass;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Money a client owes and has paid, built from the records that cause it:
+ *
+ * - session: a past 1:1 session at its stored entry fee, unless a pass credit paid for it
+ * - class: a group class booked onto the balance (no pass credit used), at the template's
+ *   credit price, the same amount the booking added to clients.unpaid_balance
+ * - pass: a pass sold with a price; WooCommerce and Stripe passes were paid at checkout,
+ *   so they come with an "online" payment line
+ * - payment: money recorded at the desk (cash, card, transfer)
+ *
+ * Charges are positive, payments negative; the balance is what the client still owes.
+ */
+class ClientLedgerService
+{
+    public const TYPE_SESSION = 'session';
+    public const TYPE_CLASS = 'class';
+    public const TYPE_PASS = 'pass';
+    public const TYPE_PAYMENT = 'payment';
+
+    private const ONLINE_SOURCES = ['woocommerce', 'stripe'];
+
+    /**
+     * Ledger lines of a client in date order with a running balance.
+     * With a period the lines before it are summed into the opening balance; the totals
+     * cover the period and the balance is the one at its end.
+     *
+     * @return array{opening_balance: int, entries: array, totals: array{charges: int, payments: int, balance: int}}
+     */
+    public function ledger(Client $client, ?Carbon $from = null, ?Carbon $to = null): array
+    {
+        $entries = $this->entries($client)
+            ->sortBy([['date', 'asc'], ['sort', 'asc']])
+            ->values();
+
+        $balance = 0;
+        $opening = 0;
+        $lines = [];
+
+        foreach ($entries as $entry) {
+            $balance += $entry['amount'];
+
+            if ($from && $entry['date']->lt($from)) {
+                $opening = $balance;
+                continue;
+            }
+            if ($to && $entry['date']->gt($to)) {
+                continue;
+            }
+
+            unset($entry['sort']);
+            $lines[] = array_merge($entry, [
+                'date' => $entry['date']->toIso8601String(),
+                'balance_after' => $balance,
+            ]);
+        }
+
+        $periodLines = collect($lines);
+        $charges = (int) $periodLines->where('amount', '>', 0)->sum('amount');
+        $payments = (int) -$periodLines->where('amount', '<', 0)->sum('amount');
+
+        return [
+            'opening_balance' => $opening,
+            'entries' => $lines,
+            'totals' => [
+                'charges' => $charges,
+                'payments' => $payments,
+                'balance' => $opening + $charges - $payments,
+            ],
+        ];
+    }
+
+    /**
+     * Clients who owe money, largest balance first
+     *
+     * @return Collection<int, array<string, mixed>>
+     */
+    public function outstandingBalances(int $minBalance = 1): Collection
+    {
+        $sum = fn (Builder $query, string $column) => $query
+            ->groupBy('client_id')
+            ->selectRaw("client_id, SUM({$column}) as total")
+            ->pluck('total', 'client_id');
+
+        $sessions = $sum($this->sessionCharges(), 'entry_fee_brutto');
+        $classes = $this->classCharges()
+            ->groupBy('class_registrations.client_id')
+            ->selectRaw(
+                'class_registrations.client_id, SUM(COALESCE(class_templates.base_price_huf, ?) * COALESCE(class_templates.credits_required, 1)) as total',
+                [(int) config('booking.credit_price_huf', 1000)]
+            )
+            ->pluck('total', 'client_id');
+        $passes = $sum($this->passCharges(), 'price');
+        $onlinePasses = $sum($this->passCharges()->whereIn('source', self::ONLINE_SOURCES), 'price');
+        $payments = $sum(ClientPayment::query(), 'amount');
+        $lastPayments = ClientPayment::groupBy('client_id')
+            ->selectRaw('client_id, MAX(paid_at) as last_paid_at')
+            ->pluck('last_paid_at', 'client_id');
+
+        $clientIds = collect([$sessions, $classes, $passes])
+            ->flatMap(fn (Collection $totals) => $totals->keys())
+            ->unique();
+
+        $clients = Client::with('user:id,name,email')->whereKey($clientIds)->get()->keyBy('id');
+
+        return $clientIds
+            ->map(function ($clientId) use ($clients, $sessions, $classes, $passes, $onlinePasses, $payments, $lastPayments) {
+                $charges = (int) $sessions->get($clientId, 0) + (int) $classes->get($clientId, 0) + (int) $passes->get($clientId, 0);
+                $paid = (int) $payments->get($clientId, 0) + (int) $onlinePasses->get($clientId, 0);
+                $client = $clients->get($clientId);
+
+                return [
+                    'client_id' => (int) $clientId,
+                    'client_name' => $client?->user?->name ?? $client?->full_name ?? 'Unknown',
+                    'client_email' => $client?->user?->email,
+                    'session_charges' => (int) $sessions->get($clientId, 0),
+                    'class_charges' => (int) $classes->get($clientId, 0),
+                    'pass_charges' => (int) $passes->get($clientId, 0),
+                    'payments' => $paid,
+                    'balance' => $charges - $paid,
+                    'last_payment_at' => $lastPayments->get($clientId)
+                        ? Carbon::parse($lastPayments->get($clientId))->toIso8601String()
+                        : null,
+                ];
+            })
+            ->filter(fn (array $row) => $row['balance'] >= $minBalance)
+            ->sortByDesc('balance')
+            ->values();
+    }
+
+    /**
+     * Record money received from a client. Payments reduce the open class booking
+     * balance (clients.unpaid_balance) as far as it goes.
+     */
+    public function recordPayment(Client $client, array $data, User $recordedBy): ClientPayment
+    {
+        return DB::transaction(function () use ($client, $data, $recordedBy) {
+            $payment = ClientPayment::create([
+                'client_id' => $client->id,
+                'amount' => $data['amount'],
+                'currency' => 'HUF',
+                'method' => $data['method'],
+                'paid_at' => $data['paid_at'] ?? now(),
+                'reference' => $data['reference'] ?? null,
+                'notes' => $data['notes'] ?? null,
+                'recorded_by' => $recordedBy->id,
+            ]);
+
+            $client->refresh();
+            $client->update(['unpaid_balance' => max(0, (float) $client->unpaid_balance - $payment->amount)]);
+
+            return $payment;
+        });
+    }
+
+    /**
+     * Mark a class registration paid by recording a payment of its price
+     *
+     * @throws ConflictException when the registration is already settled
+     */
+    public function markRegistrationPaid(ClassRegistration $registration, array $data, User $recordedBy): ClientPayment
+    {
+        if (in_array($registration->payment_status, ['paid', 'comped'], true) || !$registration->client) {
+            throw new ConflictException('This registration is already settled', [
+                'payment_status' => $registration->payment_status,
+            ]);
+        }
+
+        if ($registration->status === 'waitlist' || $registration->status === 'cancelled') {
+            throw new ConflictException('Only booked registrations can be marked paid', [
+                'status' => $registration->status,
+            ]);
+        }
+
+        return DB::transaction(function () use ($registration, $data, $recordedBy) {
+            $wasUnpaid = $registration->payment_status === 'unpaid';
+            $amount = $this->registrationPrice($registration);
+
+            $payment = ClientPayment::create([
+                'client_id' => $registration->client_id,
+                'amount' => $amount,
+                'currency' => 'HUF',
+                'method' => $data['method'],
+                'paid_at' => now(),
+                'reference' => $data['reference'] ?? null,
+                'class_registration_id' => $registration->id,
+                'recorded_by' => $recordedBy->id,
+            ]);
+
+            $registration->update(['payment_status' => 'paid']);
+
+            // Only unpaid bookings were put on the open balance
+            if ($wasUnpaid) {
+                $client = $registration->client->refresh();
+                $client->update(['unpaid_balance' => max(0, (float) $client->unpaid_balance - $amount)]);
+            }
+
+            return $payment;
+        });
+    }
+
+    /**
+     * Price of a group class booking, as charged when it was booked onto the balance
+     */
+    public function registrationPrice(ClassRegistration $registration): int
+    {
+        $template = $registration->occurrence?->template;
+        $creditPriceHuf = (int) ($template?->base_price_huf ?? config('booking.credit_price_huf', 1000));
+
+        return $creditPriceHuf * ($template?->credits_required ?? 1);
+    }
+
+    /**
+     * @return Collection<int, array<string, mixed>>
+     */
+    private function entries(Client $client): Collection
+    {
+        $sessions = $this->sessionCharges()
+            ->where('client_id', $client->id)
+            ->with('serviceType:id,name')
+            ->get()
+            ->map(fn (Event $event) => [
+                'type' => self::TYPE_SESSION,
+                'date' => $event->starts_at,
+                'description' => $event->serviceType?->name ?? 'Session',
+                'amount' => (int) $event->entry_fee_brutto,
+                'event_id' => $event->id,
+                'sort' => 1,
+            ]);
+
+        $classes = $this->classCharges()
+            ->where('class_registrations.client_id', $client->id)
+            ->select('class_registrations.*')
+            ->with('occurrence.template')
+            ->get()
+            ->map(fn (ClassRegistration $registration) => [
+                'type' => self::TYPE_CLASS,
+                'date' => $registration->booked_at ?? $registration->created_at,
+                'description' => $registration->occurrence?->template?->title ?? 'Class',
+                'amount' => $this->registrationPrice($registration),
+                'class_registration_id' => $registration->id,
+                'session_starts_at' => $registration->occurrence?->starts_at?->toIso8601String(),
+                'payment_status' => $registration->payment_status,
+                'sort' => 1,
+            ]);
+
+        $passes = $this->passCharges()
+            ->where('client_id', $client->id)
+            ->get()
+            ->flatMap(function (Pass $pass) {
+                $date = $pass->created_at;
+                $lines = [[
+                    'type' => self::TYPE_PASS,
+                    'date' => $date,
+                    'description' => $pass->type,
+                    'amount' => (int) $pass->price,
+                    'pass_id' => $pass->id,
+                    'sort' => 1,
+                ]];
+
+                if (in_array($pass->source, self::ONLINE_SOURCES, true)) {
+                    $lines[] = [
+                        'type' => self::TYPE_PAYMENT,
+                        'date' => $date,
+                        'description' => $pass->type,
+                        'amount' => -(int) $pass->price,
+                        'pass_id' => $pass->id,
+                        'method' => 'online',
+                        'reference' => $pass->external_order_id,
+                        'sort' => 2,
+                    ];
+                }
+
+                return $lines;
+            });
+
+        $payments = ClientPayment::with('recorder:id,name')
+            ->where('client_id', $client->id)
+            ->get()
+            ->map(fn (ClientPayment $payment) => [
+                'type' => self::TYPE_PAYMENT,
+                'date' => $payment->paid_at,
+                'description' => $payment->notes,
+                'amount' => -$payment->amount,
+                'payment_id' => $payment->id,
+                'class_registration_id' => $payment->class_registration_id,
+                'method' => $payment->method,
+                'reference' => $payment->reference,
+                'recorded_by_name' => $payment->recorder?->name,
+                'sort' => 2,
+            ]);
+
+        return collect()->concat($sessions)->concat($classes)->concat($passes)->concat($payments);
+    }
+
+    /**
+     * Past 1:1 sessions with a stored entry fee that no pass credit paid for
+     */
+    private function sessionCharges(): Builder
+    {
+        return Event::query()
+            ->where('type', 'INDIVIDUAL')
+            ->whereNotNull('client_id')
+            ->whereNotIn('status', ['cancelled', 'pending'])
+            ->where('starts_at', '<=', now())
+            ->where('entry_fee_brutto', '>', 0)
+            ->whereNotExists(fn ($query) => $query
+                ->select(DB::raw(1))
+                ->from('pass_credit_transactions')
+                ->whereColumn('pass_credit_transactions.event_id', 'events.id')
+                ->whereColumn('pass_credit_transactions.client_id', 'events.client_id')
+                ->where('pass_credit_transactions.type', 'deduction'));
+    }
+
+    /**
+     * Group class bookings paid (or to be paid) in money instead of pass credits
+     */
+    private function classCharges(): Builder
+    {
+        return ClassRegistration::query()
+            ->join('class_occurrences', 'class_occurrences.id', '=', 'class_registrations.occurrence_id')
+            ->join('class_templates', 'class_templates.id', '=', 'class_occurrences.template_id')
+            ->whereIn('class_registrations.status', ['booked', 'attended', 'no_show'])
+            ->whereIn('class_registrations.payment_status', ['unpaid', 'paid'])
+            ->where('class_registrations.credits_used', 0);
+    }
+
+    /**
+     * Passes sold with a price (voided passes are not charged)
+     */
+    private function passCharges(): Builder
+    {
+        return Pass::query()
+            ->where('price', '>', 0)
+            ->whereNull('voided_at');
+    }
+}
@@ -0,0 +1,184 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Client;
+use Carbon\Carbon;
+
+/**
+ * Monthly account statement (havi egyenlegkivonat) of a client as a PDF:
+ * the opening balance, the charges and payments of the month and the closing balance.
+ */
+class ClientStatementService
+{
+    private const MARGIN = 50;
+    private const PAGE_BOTTOM = 790;
+    private const LINE_HEIGHT = 15;
+
+    private const TYPE_LABELS = [
+        ClientLedgerService::TYPE_SESSION => 'Alkalom',
+        ClientLedgerService::TYPE_CLASS => 'Csoportos óra',
+        ClientLedgerService::TYPE_PASS => 'Bérlet',
+        ClientLedgerService::TYPE_PAYMENT => 'Befizetés',
+    ];
+
+    private const METHOD_LABELS = [
+        'cash' => 'készpénz',
+        'card' => 'kártya',
+        'transfer' => 'átutalás',
+        'online' => 'online',
+    ];
+
+    private SimplePdf $pdf;
+    private float $y;
+
+    public function __construct(
+        private readonly ClientLedgerService $ledgerService
+    ) {}
+
+    /**
+     * Download file name, e.g. egyenlegkivonat_2025-03.pdf
+     */
+    public function filename(Carbon $month): string
+    {
+        return sprintf('egyenlegkivonat_%s.pdf', $month->format('Y-m'));
+    }
+
+    /**
+     * Render the statement of the month as PDF bytes
+     */
+    public function render(Client $client, Carbon $month): string
+    {
+        $from = $month->copy()->startOfMonth();
+        $to = $month->copy()->endOfMonth();
+        $ledger = $this->ledgerService->ledger($client, $from, $to);
+
+        $this->pdf = (new SimplePdf())->addPage();
+        $this->y = self::MARGIN;
+
+        $this->header($client, $from, $to);
+        $this->entries($ledger);
+        $this->totals($ledger);
+
+        return $this->pdf->output();
+    }
+
+    private function header(Client $client, Carbon $from, Carbon $to): void
+    {
+        $this->pdf->text(self::MARGIN, $this->y, 'Egyenlegkivonat', 18, true);
+        $this->y += 30;
+
+        $rows = [
+            'Vendég' => $client->user?->name ?? $client->full_name ?? 'Ismeretlen',
+            'Időszak' => $from->format('Y-m-d') . ' - ' . $to->format('Y-m-d'),
+            'Készült' => now()->format('Y-m-d H:i'),
+        ];
+
+        foreach ($rows as $label => $value) {
+            $this->pdf->text(self::MARGIN, $this->y, $label . ':', 10, true);
+            $this->pdf->text(self::MARGIN + 110, $this->y, (string) $value);
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        $this->y += 10;
+    }
+
+    private function entries(array $ledger): void
+    {
+        $right = SimplePdf::PAGE_WIDTH - self::MARGIN;
+
+        $this->tableHeader();
+
+        $this->pdf->text(self::MARGIN, $this->y, 'Nyitó egyenleg', 9, true);
+        $this->pdf->text($right, $this->y, $this->money($ledger['opening_balance']), 9, true, 'right');
+        $this->y += self::LINE_HEIGHT;
+
+        foreach ($ledger['entries'] as $entry) {
+            $this->ensureSpace();
+            $this->pdf->text(self::MARGIN, $this->y, substr($entry['date'], 0, 10), 9);
+            $this->pdf->text(self::MARGIN + 70, $this->y, self::TYPE_LABELS[$entry['type']] ?? $entry['type'], 9);
+            $this->pdf->text(self::MARGIN + 160, $this->y, $this->truncate($this->describe($entry), 40), 9);
+            $this->pdf->text($right - 90, $this->y, $this->money($entry['amount']), 9, false, 'right');
+            $this->pdf->text($right, $this->y, $this->money($entry['balance_after']), 9, false, 'right');
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        if ($ledger['entries'] === []) {
+            $this->pdf->text(self::MARGIN, $this->y, 'Nincs terhelés vagy befizetés az időszakban.', 9);
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        $this->y += 10;
+    }
+
+    private function tableHeader(): void
+    {
+        $right = SimplePdf::PAGE_WIDTH - self::MARGIN;
+
+        $this->pdf->text(self::MARGIN, $this->y, 'Dátum', 9, true);
+        $this->pdf->text(self::MARGIN + 70, $this->y, 'Típus', 9, true);
+        $this->pdf->text(self::MARGIN + 160, $this->y, 'Megnevezés', 9, true);
+        $this->pdf->text($right - 90, $this->y, 'Összeg', 9, true, 'right');
+        $this->pdf->text($right, $this->y, 'Egyenleg', 9, true, 'right');
+        $this->pdf->rule(self::MARGIN, $right, $this->y + 5);
+        $this->y += self::LINE_HEIGHT + 2;
+    }
+
+    private function totals(array $ledger): void
+    {
+        $right = SimplePdf::PAGE_WIDTH - self::MARGIN;
+        ['charges' => $charges, 'payments' => $payments, 'balance' => $closing] = $ledger['totals'];
+
+        $this->ensureSpace(4);
+        $this->pdf->rule(self::MARGIN, $right, $this->y - 8);
+
+        $this->pdf->text(self::MARGIN, $this->y, 'Terhelések a hónapban', 10);
+        $this->pdf->text($right, $this->y, $this->money($charges), 10, false, 'right');
+        $this->y += self::LINE_HEIGHT;
+
+        $this->pdf->text(self::MARGIN, $this->y, 'Befizetések a hónapban', 10);
+        $this->pdf->text($right, $this->y, $this->money($payments), 10, false, 'right');
+        $this->y += self::LINE_HEIGHT;
+
+        $this->pdf->rule(self::MARGIN, $right, $this->y - 8);
+        $this->pdf->text(self::MARGIN, $this->y + 4, $closing > 0 ? 'Fizetendő' : 'Záró egyenleg', 12, true);
+        $this->pdf->text($right, $this->y + 4, $this->money($closing), 12, true, 'right');
+    }
+
+    private function describe(array $entry): string
+    {
+        if ($entry['type'] === ClientLedgerService::TYPE_PAYMENT) {
+            $method = self::METHOD_LABELS[$entry['method'] ?? ''] ?? '';
+
+            return trim($method . ' ' . ($entry['reference'] ?? ''));
+        }
+
+        return (string) ($entry['description'] ?? '');
+    }
+
+    /**
+     * Start a new page (repeating the table header) when the next lines would not fit
+     */
+    private function ensureSpace(int $lines = 1): void
+    {
+        if ($this->y + $lines * self::LINE_HEIGHT <= self::PAGE_BOTTOM) {
+            return;
+        }
+
+        $this->pdf->addPage();
+        $this->y = self::MARGIN;
+        $this->tableHeader();
+    }
+
+    private function money(int $amount): string
+    {
+        return number_format($amount, 0, ',', ' ') . ' Ft';
+    }
+
+    private function truncate(string $text, int $length): string
+    {
+        return mb_strlen($text) > $length ? mb_substr($text, 0, $length - 1) . '…' : $text;
+    }
+}
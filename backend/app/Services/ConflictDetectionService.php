@@ -282,4 +282,60 @@ public function detectConflicts(
 
         return $conflicts;
     }
+
+    /**
+     * List what a time slot overlaps in a room, for the Google Calendar and file import
+     * previews and the Google Calendar conflict resolutions.
+     *
+     * Unlike detectConflicts() this is never disabled: an imported event is not a
+     * booking joining a session, so double-booking the room must be surfaced.
+     *
+     * @return array<int, array{event_id: int, event_type: string, title: string, starts_at: string, ends_at: string, overlap_minutes: int}>
+     */
+    public function findRoomOverlaps(
+        int $roomId,
+        \DateTimeInterface $startsAt,
+        \DateTimeInterface $endsAt,
+        ?int $excludeEventId = null
+    ): array {
+        $startsAt = Carbon::instance($startsAt);
+        $endsAt = Carbon::instance($endsAt);
+
+        $overlap = fn (Carbon $start, Carbon $end) => (int) max($startsAt, $start)->diffInMinutes(min($endsAt, $end), true);
+
+        $events = Event::with('client')
+            ->where('room_id', $roomId)
+            ->where('status', '!=', 'cancelled')
+            ->where('starts_at', '<', $endsAt)
+            ->where('ends_at', '>', $startsAt)
+            ->when($excludeEventId, fn($q) => $q->where('id', '!=', $excludeEventId))
+            ->orderBy('starts_at')
+            ->get()
+            ->map(fn (Event $event) => [
+                'event_id' => $event->id,
+                'event_type' => 'event',
+                'title' => $event->client?->full_name ?? $event->type,
+                'starts_at' => $event->starts_at->toIso8601String(),
+                'ends_at' => $event->ends_at->toIso8601String(),
+                'overlap_minutes' => $overlap($event->starts_at, $event->ends_at),
+            ]);
+
+        $occurrences = ClassOccurrence::with('template')
+            ->where('room_id', $roomId)
+            ->where('status', '!=', 'cancelled')
+            ->where('starts_at', '<', $endsAt)
+            ->where('ends_at', '>', $startsAt)
+            ->orderBy('starts_at')
+            ->get()
+            ->map(fn (ClassOccurrence $occurrence) => [
+                'event_id' => $occurrence->id,
+                'event_type' => 'class_occurrence',
+                'title' => $occurrence->template?->title ?? 'Class',
+                'starts_at' => $occurrence->starts_at->toIso8601String(),
+                'ends_at' => $occurrence->ends_at->toIso8601String(),
+                'overlap_minutes' => $overlap($occurrence->starts_at, $occurrence->ends_at),
+            ]);
+
+        return $events->concat($occurrences)->values()->all();
+    }
 }
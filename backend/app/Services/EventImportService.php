@@ -0,0 +1,544 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * Admin event import from .ics files or CSV.
+ *
+ * CSV format (UTF-8, separated by ";" or ","), one session per row after a header:
+ *   date;start;end;room;staff;client;service_type;type;notes
+ *   2025-03-10;09:00;10:00;Studio A;Kiss Anna;Nagy Péter;PT;INDIVIDUAL;First session
+ * date, start and end are required; room and staff fall back to the defaults of the
+ * import; client, service_type, type and notes are optional. Hungarian headers (datum,
+ * kezdes, vege, terem, edzo, vendeg, szolgaltatas, tipus, megjegyzes) work too.
+ *
+ * ICS: LOCATION is the room, ORGANIZER/ATTENDEE emails the staff member and client,
+ * CATEGORIES the service type, SUMMARY and DESCRIPTION become the notes. The UID is kept
+ * on the session, an event imported before is rejected when the file is imported again,
+ * as is a repeat of an event earlier in the same file.
+ *
+ * Rows are matched by name (or email, or service type code), case-insensitively, and
+ * checked against the room's sessions and classes and against the other rows of the file.
+ * The file is analysed again on import, so nothing is stored between preview and import.
+ */
+class EventImportService
+{
+    public const FORMAT_ICS = 'ics';
+    public const FORMAT_CSV = 'csv';
+
+    private const TYPES = ['INDIVIDUAL', 'BLOCK'];
+
+    /**
+     * Header aliases, the first of each list is the canonical column
+     */
+    private const CSV_COLUMNS = [
+        'date' => ['date', 'datum', 'dátum'],
+        'start' => ['start', 'kezdes', 'kezdés'],
+        'end' => ['end', 'vege', 'vége'],
+        'room' => ['room', 'terem'],
+        'staff' => ['staff', 'trainer', 'edzo', 'edző'],
+        'client' => ['client', 'vendeg', 'vendég'],
+        'service_type' => ['service_type', 'szolgaltatas', 'szolgáltatás', 'szolg'],
+        'type' => ['type', 'tipus', 'típus'],
+        'notes' => ['notes', 'megjegyzes', 'megjegyzés'],
+    ];
+
+    private const REQUIRED_CSV_COLUMNS = ['date', 'start', 'end'];
+
+    /** @var array<string, array<string, mixed>> */
+    private array $lookups = [];
+
+    public function __construct(
+        private readonly ConflictDetectionService $conflictService,
+        private readonly EventPricingService $pricingService,
+        private readonly ICalendarParser $parser
+    ) {}
+
+    /**
+     * Analyse a file without creating anything.
+     *
+     * @return array{format: string, rows: array<int, array>, summary: array{total: int, ok: int, conflict: int, invalid: int}}
+     * @throws \InvalidArgumentException when the file cannot be read as ICS or CSV
+     */
+    public function preview(string $content, ?int $defaultRoomId = null, ?int $defaultStaffId = null): array
+    {
+        $format = ICalendarParser::looksLikeICalendar($content) ? self::FORMAT_ICS : self::FORMAT_CSV;
+
+        $sources = $format === self::FORMAT_ICS ? $this->readIcs($content) : $this->readCsv($content);
+
+        $defaultRoom = $defaultRoomId ? Room::find($defaultRoomId) : null;
+        $defaultStaff = $defaultStaffId ? StaffProfile::with('user')->find($defaultStaffId) : null;
+
+        $rows = array_map(
+            fn (array $source) => $this->resolveRow($source, $defaultRoom, $defaultStaff),
+            $sources
+        );
+
+        $rows = $this->markRepeatedUids($rows);
+        $rows = $this->markConflicts($rows);
+
+        return [
+            'format' => $format,
+            'rows' => $rows,
+            'summary' => $this->summarize($rows),
+        ];
+    }
+
+    /**
+     * Create the events of the valid rows. Conflicting rows are created too unless
+     * listed in $skipRows (as in the recurring event preview), invalid rows are rejected.
+     *
+     * @param int[] $skipRows Row numbers not to import
+     * @return array{summary: array{total: int, created: int, skipped: int, rejected: int},
+     *     created: array<int, array{row: int, event_id: int}>, skipped: int[], rejected: array<int, array{row: int, errors: array}>}
+     */
+    public function import(string $content, array $skipRows, User $user, ?int $defaultRoomId = null, ?int $defaultStaffId = null): array
+    {
+        $preview = $this->preview($content, $defaultRoomId, $defaultStaffId);
+
+        $created = [];
+        $skipped = [];
+        $rejected = [];
+
+        foreach ($preview['rows'] as $row) {
+            if ($row['status'] === 'invalid') {
+                $rejected[] = ['row' => $row['row'], 'errors' => $row['errors']];
+                continue;
+            }
+
+            if (in_array($row['row'], $skipRows, true)) {
+                $skipped[] = $row['row'];
+                continue;
+            }
+
+            try {
+                $event = DB::transaction(fn () => $this->createEvent($row, $user));
+                $created[] = ['row' => $row['row'], 'event_id' => $event->id];
+            } catch (\Throwable $e) {
+                Log::error('Event import failed on row ' . $row['row'], ['error' => $e->getMessage()]);
+                $rejected[] = ['row' => $row['row'], 'errors' => [['code' => 'create_failed', 'value' => $e->getMessage()]]];
+            }
+        }
+
+        return [
+            'summary' => [
+                'total' => count($preview['rows']),
+                'created' => count($created),
+                'skipped' => count($skipped),
+                'rejected' => count($rejected),
+            ],
+            'created' => $created,
+            'skipped' => $skipped,
+            'rejected' => $rejected,
+        ];
+    }
+
+    /**
+     * @return array<int, array>
+     */
+    private function readIcs(string $content): array
+    {
+        $sources = [];
+
+        foreach ($this->parser->parse($content) as $index => $event) {
+            $emails = array_values(array_unique(array_filter([$event['organizer'], ...$event['attendees']])));
+            $notes = implode("\n", array_filter([$event['summary'], $event['description']]));
+
+            $sources[] = [
+                'row' => $index + 1,
+                // Moved occurrences of a recurring event share its UID
+                'uid' => $event['uid'] !== null
+                    ? $event['uid'] . ($event['recurrence_id'] !== null ? '/' . $event['recurrence_id'] : '')
+                    : null,
+                'title' => $event['summary'],
+                'starts_at' => $event['all_day'] ? null : $event['starts_at'],
+                'ends_at' => $event['all_day'] ? null : $event['ends_at'],
+                'room' => $event['location'],
+                // Whoever of the organizer and attendees is on staff runs it, the first client attends it
+                'staff' => $this->firstMatch($emails, fn (string $email) => $this->findStaff($email)),
+                'client' => $this->firstMatch($emails, fn (string $email) => $this->findClient($email)),
+                'service_type' => $this->firstMatch($event['categories'], fn (string $category) => $this->findServiceType($category)),
+                'type' => null,
+                'notes' => $notes !== '' ? $notes : null,
+                'errors' => array_values(array_filter([
+                    $event['all_day'] ? ['code' => 'all_day', 'value' => null] : null,
+                    $event['recurring'] ? ['code' => 'recurring', 'value' => null] : null,
+                    $event['status'] === 'CANCELLED' ? ['code' => 'cancelled', 'value' => null] : null,
+                ])),
+            ];
+        }
+
+        if ($sources === []) {
+            throw new \InvalidArgumentException('A fájl nem tartalmaz eseményt');
+        }
+
+        return $sources;
+    }
+
+    /**
+     * @return array<int, array>
+     */
+    private function readCsv(string $content): array
+    {
+        $content = preg_replace('/^\xEF\xBB\xBF/', '', $content);
+        $lines = preg_split('/\r\n|\r|\n/', $content);
+
+        $headerLine = array_shift($lines) ?? '';
+        $delimiter = substr_count($headerLine, ';') >= substr_count($headerLine, ',') ? ';' : ',';
+
+        $columns = [];
+        foreach (str_getcsv($headerLine, $delimiter) as $index => $heading) {
+            $heading = mb_strtolower(trim($heading));
+
+            foreach (self::CSV_COLUMNS as $column => $aliases) {
+                if (in_array($heading, $aliases, true)) {
+                    $columns[$column] = $index;
+                }
+            }
+        }
+
+        $missing = array_diff(self::REQUIRED_CSV_COLUMNS, array_keys($columns));
+        if ($missing !== []) {
+            throw new \InvalidArgumentException('Hiányzó oszlopok: ' . implode(', ', $missing));
+        }
+
+        $sources = [];
+
+        foreach ($lines as $index => $line) {
+            if (trim($line) === '') {
+                continue;
+            }
+
+            $values = str_getcsv($line, $delimiter);
+            $value = function (string $column) use ($columns, $values): ?string {
+                $cell = isset($columns[$column]) ? trim($values[$columns[$column]] ?? '') : '';
+
+                return $cell !== '' ? $cell : null;
+            };
+
+            [$startsAt, $endsAt] = [
+                $this->parseCsvTime($value('date'), $value('start')),
+                $this->parseCsvTime($value('date'), $value('end')),
+            ];
+
+            $sources[] = [
+                // Line number in the file, the header is line 1
+                'row' => $index + 2,
+                'uid' => null,
+                'title' => $value('notes'),
+                'starts_at' => $startsAt,
+                'ends_at' => $endsAt,
+                'room' => $value('room'),
+                'staff' => $value('staff'),
+                'client' => $value('client'),
+                'service_type' => $value('service_type'),
+                'type' => $value('type'),
+                'notes' => $value('notes'),
+                'errors' => !$startsAt || !$endsAt
+                    ? [['code' => 'invalid_date', 'value' => trim(($value('date') ?? '') . ' ' . ($value('start') ?? '') . '–' . ($value('end') ?? ''))]]
+                    : [],
+            ];
+        }
+
+        if ($sources === []) {
+            throw new \InvalidArgumentException('A CSV fájl üres vagy csak fejlécet tartalmaz');
+        }
+
+        return $sources;
+    }
+
+    /**
+     * Map a source row to rooms, staff, clients and service types and validate it
+     */
+    private function resolveRow(array $source, ?Room $defaultRoom, ?StaffProfile $defaultStaff): array
+    {
+        $errors = $source['errors'];
+
+        $hasTimeError = array_intersect(array_column($errors, 'code'), ['invalid_date', 'all_day']) !== [];
+        if ((!$source['starts_at'] || !$source['ends_at']) && !$hasTimeError) {
+            $errors[] = ['code' => 'invalid_date', 'value' => null];
+        }
+
+        [$room, $roomError] = $this->resolve('room', $source['room'], fn (string $name) => $this->findRoom($name), $defaultRoom);
+        [$staff, $staffError] = $this->resolve('staff', $source['staff'], fn (string $name) => $this->findStaff($name), $defaultStaff);
+        [$client, $clientError] = $this->resolve('client', $source['client'], fn (string $name) => $this->findClient($name));
+        [$serviceType, $serviceTypeError] = $this->resolve('service_type', $source['service_type'], fn (string $name) => $this->findServiceType($name));
+
+        array_push($errors, ...array_filter([$roomError, $staffError, $clientError, $serviceTypeError]));
+
+        $type = $source['type'] !== null ? strtoupper($source['type']) : ($client ? 'INDIVIDUAL' : 'BLOCK');
+        if (!in_array($type, self::TYPES, true)) {
+            $errors[] = ['code' => 'invalid_type', 'value' => $source['type']];
+        }
+
+        // A 1:1 session needs a client and a service type to be priced
+        if ($type === 'INDIVIDUAL') {
+            if (!$client && !$clientError) {
+                $errors[] = ['code' => 'client_missing', 'value' => null];
+            }
+            if (!$serviceType && !$serviceTypeError) {
+                $errors[] = ['code' => 'service_type_missing', 'value' => null];
+            }
+        }
+
+        if ($source['starts_at'] && $source['ends_at'] && $source['ends_at']->lte($source['starts_at'])) {
+            $errors[] = ['code' => 'invalid_time_range', 'value' => null];
+        }
+
+        // Deleted sessions keep their UID too, the column is unique
+        if ($source['uid'] !== null && Event::withTrashed()->where('import_uid', $source['uid'])->exists()) {
+            $errors[] = ['code' => 'already_imported', 'value' => null];
+        }
+
+        return [
+            'row' => $source['row'],
+            'uid' => $source['uid'],
+            'title' => $source['title'],
+            'starts_at' => $source['starts_at']?->toIso8601String(),
+            'ends_at' => $source['ends_at']?->toIso8601String(),
+            'type' => $type,
+            'room' => $room ? ['id' => $room->id, 'name' => $room->name] : null,
+            'staff' => $staff ? ['id' => $staff->id, 'name' => $staff->user?->name] : null,
+            'client' => $client ? ['id' => $client->id, 'name' => $client->full_name] : null,
+            'service_type' => $serviceType ? ['id' => $serviceType->id, 'name' => $serviceType->name] : null,
+            'notes' => $source['notes'],
+            'status' => $errors === [] ? 'ok' : 'invalid',
+            'errors' => $errors,
+            'conflicts' => [],
+            'conflict_with' => null,
+        ];
+    }
+
+    /**
+     * Resolve a name to a model: [model, error]. A model passed instead of a name
+     * (ICS emails are matched while reading) is used as is.
+     *
+     * @return array{0: mixed, 1: array{code: string, value: string|null}|null}
+     */
+    private function resolve(string $field, mixed $value, callable $find, mixed $default = null): array
+    {
+        if (is_object($value)) {
+            return [$value, null];
+        }
+
+        if ($value === null || $value === '') {
+            return in_array($field, ['room', 'staff'], true) && !$default
+                ? [null, ['code' => "{$field}_missing", 'value' => null]]
+                : [$default, null];
+        }
+
+        $matches = $find($value);
+
+        return match (count($matches)) {
+            0 => [null, ['code' => "{$field}_not_found", 'value' => $value]],
+            1 => [$matches[0], null],
+            default => [null, ['code' => "{$field}_ambiguous", 'value' => $value]],
+        };
+    }
+
+    /**
+     * Reject events whose UID an earlier event of the same file already has
+     */
+    private function markRepeatedUids(array $rows): array
+    {
+        $firstRows = [];
+
+        foreach ($rows as $index => $row) {
+            if ($row['uid'] === null) {
+                continue;
+            }
+
+            if (isset($firstRows[$row['uid']])) {
+                $rows[$index]['errors'][] = ['code' => 'duplicate_uid', 'value' => (string) $firstRows[$row['uid']]];
+                $rows[$index]['status'] = 'invalid';
+                continue;
+            }
+
+            $firstRows[$row['uid']] = $row['row'];
+        }
+
+        return $rows;
+    }
+
+    /**
+     * Flag valid rows overlapping sessions or classes in their room, or each other
+     */
+    private function markConflicts(array $rows): array
+    {
+        foreach ($rows as $index => $row) {
+            if ($row['status'] !== 'ok') {
+                continue;
+            }
+
+            $startsAt = Carbon::parse($row['starts_at']);
+            $endsAt = Carbon::parse($row['ends_at']);
+
+            $conflicts = $this->conflictService->findRoomOverlaps($row['room']['id'], $startsAt, $endsAt);
+
+            foreach ($rows as $other) {
+                if ($other['row'] === $row['row'] || $other['status'] === 'invalid' || $other['room']['id'] !== $row['room']['id']) {
+                    continue;
+                }
+
+                $otherStart = Carbon::parse($other['starts_at']);
+                $otherEnd = Carbon::parse($other['ends_at']);
+
+                if ($otherStart->lt($endsAt) && $otherEnd->gt($startsAt)) {
+                    $conflicts[] = [
+                        'event_id' => $other['row'],
+                        'event_type' => 'import_row',
+                        'title' => $other['client']['name'] ?? $other['title'] ?? $other['type'],
+                        'starts_at' => $other['starts_at'],
+                        'ends_at' => $other['ends_at'],
+                        'overlap_minutes' => (int) max($startsAt, $otherStart)->diffInMinutes(min($endsAt, $otherEnd), true),
+                    ];
+                }
+            }
+
+            if ($conflicts !== []) {
+                $first = $conflicts[0];
+                $rows[$index]['status'] = 'conflict';
+                $rows[$index]['conflicts'] = $conflicts;
+                $rows[$index]['conflict_with'] = $first['title'] . ' - ' . Carbon::parse($first['starts_at'])->format('H:i');
+            }
+        }
+
+        return $rows;
+    }
+
+    private function createEvent(array $row, User $user): Event
+    {
+        $data = [
+            'type' => $row['type'],
+            'status' => 'scheduled',
+            'staff_id' => $row['staff']['id'],
+            'client_id' => $row['client']['id'] ?? null,
+            'room_id' => $row['room']['id'],
+            'starts_at' => Carbon::parse($row['starts_at']),
+            'ends_at' => Carbon::parse($row['ends_at']),
+            'notes' => $row['notes'],
+            'import_uid' => $row['uid'],
+            'created_by' => $user->id,
+        ];
+
+        if ($row['type'] === 'INDIVIDUAL') {
+            $data['service_type_id'] = $row['service_type']['id'];
+            $data = array_merge($data, $this->pricingService->resolvePricingForClient($row['client']['id'], $row['service_type']['id'], $data['starts_at']));
+        }
+
+        return Event::create($data);
+    }
+
+    private function summarize(array $rows): array
+    {
+        $count = fn (string $status) => count(array_filter($rows, fn (array $row) => $row['status'] === $status));
+
+        return [
+            'total' => count($rows),
+            'ok' => $count('ok'),
+            'conflict' => $count('conflict'),
+            'invalid' => $count('invalid'),
+        ];
+    }
+
+    private function parseCsvTime(?string $date, ?string $time): ?Carbon
+    {
+        if ($date === null || $time === null) {
+            return null;
+        }
+
+        // 2025-03-10, 2025.03.10. and 2025/03/10 are all accepted
+        $date = str_replace(['.', '/'], '-', rtrim($date, '.'));
+
+        try {
+            return Carbon::createFromFormat('Y-m-d H:i', "{$date} " . substr($time, 0, 5), config('app.timezone'));
+        } catch (\Exception) {
+            return null;
+        }
+    }
+
+    /**
+     * The first value that matches exactly one model
+     */
+    private function firstMatch(array $values, callable $find): ?object
+    {
+        foreach ($values as $value) {
+            $matches = $find($value);
+
+            if (count($matches) === 1) {
+                return $matches[0];
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * @return Room[]
+     */
+    private function findRoom(string $name): array
+    {
+        return $this->lookups['room'][mb_strtolower($name)] ??= Room::whereRaw('LOWER(name) = ?', [mb_strtolower($name)])
+            ->get()
+            ->all();
+    }
+
+    /**
+     * @return StaffProfile[]
+     */
+    private function findStaff(string $nameOrEmail): array
+    {
+        $key = mb_strtolower($nameOrEmail);
+
+        return $this->lookups['staff'][$key] ??= StaffProfile::with('user')
+            ->whereHas('user', fn ($query) => $query
+                ->whereRaw('LOWER(email) = ?', [$key])
+                ->orWhereRaw('LOWER(name) = ?', [$key]))
+            ->get()
+            ->all();
+    }
+
+    /**
+     * @return Client[]
+     */
+    private function findClient(string $nameOrEmail): array
+    {
+        $key = mb_strtolower($nameOrEmail);
+        $technicalGuestId = Client::getTechnicalGuestId();
+
+        return $this->lookups['client'][$key] ??= Client::query()
+            ->where(fn ($query) => $query
+                ->whereRaw('LOWER(full_name) = ?', [$key])
+                ->orWhereHas('user', fn ($q) => $q->whereRaw('LOWER(email) = ?', [$key])))
+            ->when($technicalGuestId, fn ($query) => $query->where('id', '!=', $technicalGuestId))
+            ->get()
+            ->all();
+    }
+
+    /**
+     * @return ServiceType[]
+     */
+    private function findServiceType(string $codeOrName): array
+    {
+        $key = mb_strtolower($codeOrName);
+
+        return $this->lookups['service_type'][$key] ??= ServiceType::where('is_active', true)
+            ->where(fn ($query) => $query
+                ->whereRaw('LOWER(code) = ?', [$key])
+                ->orWhereRaw('LOWER(name) = ?', [$key]))
+            ->get()
+            ->all();
+    }
+}
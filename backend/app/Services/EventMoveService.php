@@ -0,0 +1,153 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Event;
+use App\Models\EventChange;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+
+class EventMoveService
+{
+    public function __construct(
+        private readonly ConflictDetectionService $conflictService,
+        private readonly NotificationService $notificationService
+    ) {}
+
+    /**
+     * Preview the effect of moving an event: affected clients, conflicts and
+     * the notification emails that would be queued.
+     *
+     * @return array<string, mixed>
+     */
+    public function preview(Event $event, Carbon $startsAt, Carbon $endsAt, ?int $roomId, User $user): array
+    {
+        $event->loadMissing(['client.user', 'additionalClients.user']);
+
+        $roomId = $roomId ?? $event->room_id;
+        $isCrossDay = !$startsAt->isSameDay($event->starts_at);
+
+        $conflicts = $this->conflicts($event, $startsAt, $endsAt, (int) $roomId);
+
+        $affectedClients = $event->allClients()
+            ->unique('id')
+            ->map(fn ($client) => [
+                'id' => $client->id,
+                'name' => $client->user?->name ?? $client->full_name,
+                'email' => $client->user?->email,
+                'is_technical_guest' => $client->isTechnicalGuest(),
+            ])
+            ->values()
+            ->all();
+
+        // SendEventNotification only emails the main client of the event
+        $notifications = [];
+        if ($event->client && !$event->client->isTechnicalGuest() && $event->client->user?->email) {
+            $notifications[] = [
+                'template' => 'event_update',
+                'client_id' => $event->client->id,
+                'recipient_name' => $event->client->user->name,
+                'recipient_email' => $event->client->user->email,
+            ];
+        }
+
+        return [
+            'event_id' => $event->id,
+            'original_starts_at' => $event->starts_at->toIso8601String(),
+            'original_ends_at' => $event->ends_at->toIso8601String(),
+            'starts_at' => $startsAt->toIso8601String(),
+            'ends_at' => $endsAt->toIso8601String(),
+            'room_id' => (int) $roomId,
+            'is_cross_day' => $isCrossDay,
+            'requires_approval' => $isCrossDay && !$user->isAdmin(),
+            'affected_clients' => $affectedClients,
+            'conflicts' => $conflicts,
+            'notifications' => $notifications,
+        ];
+    }
+
+    /**
+     * What the new slot overlaps: sessions and classes in the room, and other sessions
+     * of the event's trainer. Used by the preview and again when a request is approved,
+     * since the slot may have been taken in the meantime.
+     *
+     * @return array<int, array{event_id: int, event_type: string, title: string, starts_at: string, ends_at: string, overlap_minutes: int}>
+     */
+    public function conflicts(Event $event, Carbon $startsAt, Carbon $endsAt, ?int $roomId = null): array
+    {
+        $conflicts = $this->conflictService->findRoomOverlaps(
+            (int) ($roomId ?? $event->room_id),
+            $startsAt,
+            $endsAt,
+            $event->id
+        );
+
+        if ($event->staff_id) {
+            $roomEventIds = array_column(
+                array_filter($conflicts, fn (array $conflict) => $conflict['event_type'] === 'event'),
+                'event_id'
+            );
+
+            $staffEvents = Event::with('client')
+                ->where('staff_id', $event->staff_id)
+                ->where('id', '!=', $event->id)
+                ->whereNotIn('id', $roomEventIds)
+                ->where('status', '!=', 'cancelled')
+                ->where('starts_at', '<', $endsAt)
+                ->where('ends_at', '>', $startsAt)
+                ->orderBy('starts_at')
+                ->get();
+
+            foreach ($staffEvents as $staffEvent) {
+                $conflicts[] = [
+                    'event_id' => $staffEvent->id,
+                    'event_type' => 'event',
+                    'title' => $staffEvent->client?->full_name ?? $staffEvent->type,
+                    'starts_at' => $staffEvent->starts_at->toIso8601String(),
+                    'ends_at' => $staffEvent->ends_at->toIso8601String(),
+                    'overlap_minutes' => (int) max($startsAt, $staffEvent->starts_at)
+                        ->diffInMinutes(min($endsAt, $staffEvent->ends_at), true),
+                ];
+            }
+        }
+
+        return $conflicts;
+    }
+
+    /**
+     * Move an event to a new slot, log the change and notify the client.
+     */
+    public function apply(Event $event, Carbon $startsAt, Carbon $endsAt, ?int $roomId, User $user, bool $notifyClients = true): Event
+    {
+        return DB::transaction(function () use ($event, $startsAt, $endsAt, $roomId, $user, $notifyClients) {
+            $oldData = $event->only(['starts_at', 'ends_at', 'room_id']);
+
+            $event->update([
+                'starts_at' => $startsAt,
+                'ends_at' => $endsAt,
+                'room_id' => $roomId ?? $event->room_id,
+                'updated_by' => $user->id,
+            ]);
+
+            EventChange::create([
+                'event_id' => $event->id,
+                'by_user_id' => $user->id,
+                'action' => 'moved',
+                'meta' => [
+                    'old' => $oldData,
+                    'new' => $event->only(['starts_at', 'ends_at', 'room_id']),
+                ],
+                'created_at' => now(),
+            ]);
+
+            if ($notifyClients) {
+                $this->notificationService->sendEventUpdate($event);
+            }
+
+            return $event;
+        });
+    }
+}
@@ -5,6 +5,7 @@
 namespace App\Services;
 
 use App\Models\ServiceType;
+use Carbon\Carbon;
 
 class EventPricingService
 {
@@ -18,12 +19,13 @@ public function __construct(
      *
      * @param int $clientId The client ID
      * @param int $serviceTypeId The service type ID
+     * @param Carbon|null $at The session start, so a scheduled price change applies from its date
      * @return array{entry_fee_brutto: int, trainer_fee_brutto: int, currency: string, price_source: string}
      */
-    public function resolvePricingForClient(int $clientId, int $serviceTypeId): array
+    public function resolvePricingForClient(int $clientId, int $serviceTypeId, ?Carbon $at = null): array
     {
         try {
-            $pricing = $this->priceCodeService->resolveByClientAndServiceType($clientId, $serviceTypeId);
+            $pricing = $this->priceCodeService->resolveByClientAndServiceType($clientId, $serviceTypeId, $at);
 
             return [
                 'entry_fee_brutto' => $pricing['entry_fee_brutto'],
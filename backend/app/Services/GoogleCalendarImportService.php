@@ -9,14 +9,32 @@
 use App\Models\GoogleCalendarSyncLog;
 use App\Models\Room;
 use App\Models\StaffProfile;
+use Carbon\Carbon;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Log;
 
 class GoogleCalendarImportService
 {
+    /**
+     * How a conflicting Google event is resolved:
+     * skip it, overwrite (cancel the overlapped sessions), keep both (import it as a BLOCK
+     * next to them), shift it to the nearest free slot, or merge its title/notes into
+     * the overlapped session without importing it
+     */
+    public const RESOLUTIONS = ['skip', 'overwrite', 'keep_both', 'shift', 'merge'];
+
+    /**
+     * Search step and range (either direction, same day) for a shifted event's new slot
+     */
+    private const SHIFT_STEP_MINUTES = 15;
+    private const SHIFT_SEARCH_HOURS = 12;
+
     public function __construct(
         private GoogleCalendarService $googleCalendarService,
-        private ConflictDetectionService $conflictDetectionService
+        private ConflictDetectionService $conflictDetectionService,
+        private NotificationService $notificationService,
+        private EventMoveService $eventMoveService,
+        private StaffAvailabilityService $availabilityService
     ) {
     }
 
@@ -27,7 +45,8 @@ public function __construct(
      * @param \DateTime $startDate
      * @param \DateTime $endDate
      * @param int|null $roomId Optional room filter
-     * @param bool $autoResolveConflicts Whether to automatically skip conflicting events
+     * @param bool $autoResolveConflicts Whether to resolve conflicting events without asking
+     * @param string|null $autoResolution Resolution used when auto-resolving, defaults to the config's (or keep both)
      * @return GoogleCalendarSyncLog
      */
     public function importEvents(
@@ -35,8 +54,11 @@ public function importEvents(
         \DateTime $startDate,
         \DateTime $endDate,
         ?int $roomId = null,
-        bool $autoResolveConflicts = false
+        bool $autoResolveConflicts = false,
+        ?string $autoResolution = null
     ): GoogleCalendarSyncLog {
+        $autoResolution ??= $config->defaultConflictResolution() ?? 'keep_both';
+
         // Create sync log
         $log = GoogleCalendarSyncLog::create([
             'sync_config_id' => $config->id,
@@ -62,6 +84,7 @@ public function importEvents(
             $log->update(['events_processed' => count($googleEvents)]);
 
             $conflicts = [];
+            $resolutions = [];
             $created = 0;
             $updated = 0;
             $skipped = 0;
@@ -75,6 +98,21 @@ public function importEvents(
                         continue;
                     }
 
+                    if ($config->matchImportRule($googleEvent['summary'], 'skip')) {
+                        $skipped++;
+                        continue;
+                    }
+
+                    // Check if event already exists (by google_event_id)
+                    $existingEvent = Event::where('google_event_id', $googleEvent['google_event_id'])->first();
+
+                    if ($existingEvent) {
+                        // Update existing event
+                        $this->updateEventFromGoogleEvent($existingEvent, $googleEvent, $config);
+                        $updated++;
+                        continue;
+                    }
+
                     // Check for conflicts
                     $conflict = $this->detectConflicts(
                         $googleEvent,
@@ -91,20 +129,21 @@ public function importEvents(
                             $skipped++;
                             continue;
                         }
-                    }
 
-                    // Check if event already exists (by google_event_id)
-                    $existingEvent = Event::where('google_event_id', $googleEvent['google_event_id'])->first();
+                        $outcome = $this->applyResolution($autoResolution, $googleEvent, $conflict, $config, $roomId);
+                        $resolutions[$googleEvent['google_event_id']] = ['resolution' => $autoResolution, 'outcome' => $outcome];
 
-                    if ($existingEvent) {
-                        // Update existing event
-                        $this->updateEventFromGoogleEvent($existingEvent, $googleEvent, $config);
-                        $updated++;
-                    } else {
-                        // Create new event
-                        $this->createEventFromGoogleEvent($googleEvent, $config, $roomId);
-                        $created++;
+                        match ($outcome) {
+                            'created' => $created++,
+                            'updated' => $updated++,
+                            default => $skipped++,
+                        };
+                        continue;
                     }
+
+                    // Create new event
+                    $this->createEventFromGoogleEvent($googleEvent, $config, $roomId);
+                    $created++;
                 } catch (\Exception $e) {
                     $failed++;
                     Log::error('Failed to import individual Google Calendar event', [
@@ -116,7 +155,7 @@ public function importEvents(
 
             // Update sync log with results
             $log->update([
-                'status' => count($conflicts) > 0 && !$autoResolveConflicts ? 'completed' : 'completed',
+                'status' => 'completed',
                 'completed_at' => now(),
                 'events_created' => $created,
                 'events_updated' => $updated,
@@ -124,6 +163,7 @@ public function importEvents(
                 'events_failed' => $failed,
                 'conflicts_detected' => count($conflicts),
                 'conflicts' => $conflicts,
+                'metadata' => $resolutions ? ['resolutions' => $resolutions] : null,
             ]);
 
             // Update config last import timestamp
@@ -146,6 +186,217 @@ public function importEvents(
         }
     }
 
+    /**
+     * Apply an incremental change set from a scheduled sync.
+     *
+     * Deleted Google events remove what they were imported into; deleting an event we
+     * pushed cancels the session here. Edits made in Google are taken over unless the
+     * event was changed here later (the push then sends the local version): imported
+     * events in full, our pushed sessions only their new time. Conflicting new events
+     * get the config's default resolution, or without one are skipped and recorded for
+     * manual resolution. A pushed session moved onto a booked room or trainer, or outside
+     * working hours, is not moved but recorded the same way.
+     *
+     * @param array $googleEvents Changes from GoogleCalendarService::listEventChanges()
+     * @return array{created: int, updated: int, deleted: int, skipped: int, failed: int, conflicts: array, resolutions: array}
+     */
+    public function applyChanges(GoogleCalendarSyncConfig $config, array $googleEvents): array
+    {
+        $results = ['created' => 0, 'updated' => 0, 'deleted' => 0, 'skipped' => 0, 'failed' => 0, 'conflicts' => [], 'resolutions' => []];
+
+        foreach ($googleEvents as $googleEvent) {
+            try {
+                if ($googleEvent['status'] === 'cancelled') {
+                    $results[$this->applyDeletion($googleEvent) ? 'deleted' : 'skipped']++;
+                    continue;
+                }
+
+                // Our own pushes come back in the change set, possibly moved in Google
+                if ($googleEvent['is_from_our_system']) {
+                    $event = $this->movedEvent($googleEvent);
+
+                    if (!$event) {
+                        $results['skipped']++;
+                        continue;
+                    }
+
+                    $conflict = $this->detectMoveConflicts($event, $googleEvent);
+
+                    if ($conflict) {
+                        $results['conflicts'][] = $conflict;
+                        $results['skipped']++;
+                        continue;
+                    }
+
+                    $this->moveEvent($event, Carbon::parse($googleEvent['start_time']), Carbon::parse($googleEvent['end_time']), $googleEvent);
+                    $results['updated']++;
+                    continue;
+                }
+
+                if ($config->matchImportRule($googleEvent['summary'], 'skip')) {
+                    $results['skipped']++;
+                    continue;
+                }
+
+                $existingEvent = Event::where('google_event_id', $googleEvent['google_event_id'])->first();
+
+                if ($existingEvent) {
+                    if ($this->changedHereSince($existingEvent, $googleEvent)) {
+                        $results['skipped']++;
+                        continue;
+                    }
+
+                    $this->updateEventFromGoogleEvent($existingEvent, $googleEvent, $config);
+                    $results['updated']++;
+                    continue;
+                }
+
+                $startsAt = new \DateTime($googleEvent['start_time']);
+                $conflict = $this->detectConflicts($googleEvent, $config->room_id, $startsAt, new \DateTime($googleEvent['end_time']));
+
+                if ($conflict) {
+                    $results['conflicts'][] = $conflict;
+                    $resolution = $config->defaultConflictResolution();
+
+                    if (!$resolution) {
+                        $results['skipped']++;
+                        continue;
+                    }
+
+                    $outcome = $this->applyResolution($resolution, $googleEvent, $conflict, $config, null);
+                    $results['resolutions'][$googleEvent['google_event_id']] = ['resolution' => $resolution, 'outcome' => $outcome];
+                    $results[$outcome]++;
+                    continue;
+                }
+
+                $this->createEventFromGoogleEvent($googleEvent, $config, null);
+                $results['created']++;
+            } catch (\Exception $e) {
+                $results['failed']++;
+                Log::error('Failed to apply Google Calendar change', [
+                    'config_id' => $config->id,
+                    'google_event_id' => $googleEvent['google_event_id'],
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        return $results;
+    }
+
+    /**
+     * The session we pushed when Google has it at another time. Null when it was not
+     * moved, is cancelled or was changed here since.
+     */
+    private function movedEvent(array $googleEvent): ?Event
+    {
+        $event = $googleEvent['internal_event_id'] ? Event::find($googleEvent['internal_event_id']) : null;
+
+        if (!$event || $event->status === 'cancelled' || $this->changedHereSince($event, $googleEvent)) {
+            return null;
+        }
+
+        $startsAt = Carbon::parse($googleEvent['start_time']);
+        $endsAt = Carbon::parse($googleEvent['end_time']);
+
+        return $event->starts_at->equalTo($startsAt) && $event->ends_at->equalTo($endsAt) ? null : $event;
+    }
+
+    /**
+     * Move a session we pushed to the time it was given in Google and let its clients know.
+     */
+    private function moveEvent(Event $event, Carbon $startsAt, Carbon $endsAt, array $googleEvent): void
+    {
+        $timezone = config('app.timezone');
+
+        $event->update([
+            'starts_at' => $startsAt->copy()->setTimezone($timezone),
+            'ends_at' => $endsAt->copy()->setTimezone($timezone),
+        ]);
+        $this->notificationService->sendEventUpdate($event);
+
+        Log::info('Google Calendar move applied', [
+            'event_id' => $event->id,
+            'google_event_id' => $googleEvent['google_event_id'],
+        ]);
+    }
+
+    /**
+     * Room and trainer overlaps and availability warnings of a session moved in Google,
+     * as a conflict record like detectConflicts() makes, or null when the slot is free.
+     */
+    private function detectMoveConflicts(Event $event, array $googleEvent): ?array
+    {
+        $startsAt = Carbon::parse($googleEvent['start_time']);
+        $endsAt = Carbon::parse($googleEvent['end_time']);
+
+        $conflicts = $this->eventMoveService->conflicts($event, $startsAt, $endsAt);
+        $warnings = $this->availabilityService->check($event->staff_id, $event->room_id, $startsAt, $endsAt);
+
+        if (empty($conflicts) && empty($warnings)) {
+            return null;
+        }
+
+        return [
+            'google_event_id' => $googleEvent['google_event_id'],
+            'google_summary' => $googleEvent['summary'],
+            'google_description' => $googleEvent['description'],
+            'google_location' => $googleEvent['location'],
+            'google_start' => $googleEvent['start_time'],
+            'google_end' => $googleEvent['end_time'],
+            'room_id' => $event->room_id,
+            'internal_event_id' => $event->id,
+            'conflicting_events' => array_map(fn (array $conflict) => [
+                'event_id' => $conflict['event_id'],
+                'type' => $conflict['event_type'],
+                'title' => $conflict['title'],
+                'start' => $conflict['starts_at'],
+                'end' => $conflict['ends_at'],
+                'overlap_minutes' => $conflict['overlap_minutes'],
+            ], $conflicts),
+            'availability_warnings' => $warnings,
+        ];
+    }
+
+    /**
+     * Last change wins: true when the local event was saved after the Google edit
+     */
+    private function changedHereSince(Event $event, array $googleEvent): bool
+    {
+        return $googleEvent['updated'] !== null
+            && $event->updated_at !== null
+            && $event->updated_at->gte(Carbon::parse($googleEvent['updated']));
+    }
+
+    /**
+     * Propagate a Google deletion. Returns false when nothing here matched.
+     */
+    private function applyDeletion(array $googleEvent): bool
+    {
+        $event = $googleEvent['internal_event_id']
+            ? Event::find($googleEvent['internal_event_id'])
+            : Event::where('google_event_id', $googleEvent['google_event_id'])->first();
+
+        if (!$event) {
+            return false;
+        }
+
+        if ($event->google_sync_config_id) {
+            $event->delete();
+        } elseif ($event->status !== 'cancelled') {
+            $event->update(['status' => 'cancelled']);
+        } else {
+            return false;
+        }
+
+        Log::info('Google Calendar deletion applied', [
+            'event_id' => $event->id,
+            'google_event_id' => $googleEvent['google_event_id'],
+        ]);
+
+        return true;
+    }
+
     /**
      * Detect conflicts for a Google Calendar event.
      */
@@ -163,12 +414,7 @@ private function detectConflicts(
         $endsAt = new \DateTime($googleEvent['end_time']);
 
         // Check if there are any existing events in this time slot
-        $conflicts = $this->conflictDetectionService->detectConflicts(
-            $roomId,
-            $startsAt,
-            $endsAt,
-            null // No event ID since we're importing new events
-        );
+        $conflicts = $this->conflictDetectionService->findRoomOverlaps($roomId, $startsAt, $endsAt);
 
         if (empty($conflicts)) {
             return null;
@@ -177,12 +423,16 @@ private function detectConflicts(
         return [
             'google_event_id' => $googleEvent['google_event_id'],
             'google_summary' => $googleEvent['summary'],
+            'google_description' => $googleEvent['description'],
+            'google_location' => $googleEvent['location'],
             'google_start' => $googleEvent['start_time'],
             'google_end' => $googleEvent['end_time'],
+            'room_id' => $roomId,
             'conflicting_events' => array_map(function ($conflict) {
                 return [
                     'event_id' => $conflict['event_id'],
                     'type' => $conflict['event_type'],
+                    'title' => $conflict['title'],
                     'start' => $conflict['starts_at'],
                     'end' => $conflict['ends_at'],
                     'overlap_minutes' => $conflict['overlap_minutes'],
@@ -225,8 +475,10 @@ private function createEventFromGoogleEvent(
             'status' => $googleEvent['status'] === 'cancelled' ? 'cancelled' : 'scheduled',
             'starts_at' => $startsAt,
             'ends_at' => $endsAt,
+            'service_type_id' => $config->matchImportRule($googleEvent['summary'], 'service_type')['service_type_id'] ?? null,
             'notes' => $this->buildNotesFromGoogleEvent($googleEvent),
             'google_event_id' => $googleEvent['google_event_id'],
+            'google_sync_config_id' => $config->id,
         ]);
     }
 
@@ -241,12 +493,14 @@ private function updateEventFromGoogleEvent(
         $startsAt = new \DateTime($googleEvent['start_time']);
         $endsAt = new \DateTime($googleEvent['end_time']);
 
+        $serviceTypeRule = $config->matchImportRule($googleEvent['summary'], 'service_type');
+
         $event->update([
             'starts_at' => $startsAt,
             'ends_at' => $endsAt,
             'status' => $googleEvent['status'] === 'cancelled' ? 'cancelled' : 'scheduled',
             'notes' => $this->buildNotesFromGoogleEvent($googleEvent),
-        ]);
+        ] + ($serviceTypeRule ? ['service_type_id' => $serviceTypeRule['service_type_id']] : []));
 
         return $event;
     }
@@ -270,6 +524,10 @@ private function buildNotesFromGoogleEvent(array $googleEvent): string
             $notes[] = "Location: {$googleEvent['location']}";
         }
 
+        if (isset($googleEvent['shifted_from'])) {
+            $notes[] = "Shifted from: {$googleEvent['shifted_from']}";
+        }
+
         $notes[] = "Imported from Google Calendar";
         $notes[] = "Google Event ID: {$googleEvent['google_event_id']}";
 
@@ -277,10 +535,13 @@ private function buildNotesFromGoogleEvent(array $googleEvent): string
     }
 
     /**
-     * Resolve conflicts by overwriting existing events.
+     * Resolve the conflicts recorded on an import or sync log.
+     *
+     * Each conflict gets its own resolution (see RESOLUTIONS); conflicts resolved by an
+     * earlier call are left alone, so a log can be resolved in several passes.
      *
      * @param GoogleCalendarSyncLog $log
-     * @param array $conflictResolutions Array of [google_event_id => 'overwrite'|'skip']
+     * @param array $conflictResolutions Array of [google_event_id => resolution], unlisted conflicts are skipped
      * @return GoogleCalendarSyncLog
      */
     public function resolveConflicts(
@@ -292,35 +553,221 @@ public function resolveConflicts(
         }
 
         $config = $log->syncConfig;
-        $conflicts = $log->conflicts;
-        $resolved = 0;
+        $outcomes = $log->metadata['resolutions'] ?? [];
+        $counts = ['created' => 0, 'updated' => 0, 'skipped' => 0, 'failed' => 0];
 
-        foreach ($conflicts as $conflict) {
+        foreach ($log->conflicts as $conflict) {
             $googleEventId = $conflict['google_event_id'];
-            $resolution = $conflictResolutions[$googleEventId] ?? 'skip';
 
-            if ($resolution === 'overwrite') {
-                // Delete conflicting events and import the Google Calendar event
-                foreach ($conflict['conflicting_events'] as $conflictingEvent) {
-                    $event = Event::find($conflictingEvent['event_id']);
-                    if ($event) {
-                        $event->delete();
-                    }
-                }
+            if (isset($outcomes[$googleEventId])) {
+                continue;
+            }
 
-                // Re-import this specific event
-                // (Implementation would fetch this specific event and import it)
-                $resolved++;
+            $resolution = $conflictResolutions[$googleEventId] ?? 'skip';
+
+            try {
+                $outcome = DB::transaction(fn () => $this->applyResolution(
+                    $resolution,
+                    $this->googleEventFromConflict($conflict),
+                    $conflict,
+                    $config,
+                    $conflict['room_id'] ?? null
+                ));
+
+                $outcomes[$googleEventId] = ['resolution' => $resolution, 'outcome' => $outcome];
+            } catch (\Exception $e) {
+                $outcome = 'failed';
+                $outcomes[$googleEventId] = ['resolution' => $resolution, 'outcome' => $outcome, 'error' => $e->getMessage()];
+
+                Log::warning('Failed to resolve Google Calendar conflict', [
+                    'log_id' => $log->id,
+                    'google_event_id' => $googleEventId,
+                    'resolution' => $resolution,
+                    'error' => $e->getMessage(),
+                ]);
             }
+
+            $counts[$outcome]++;
         }
 
         $log->update([
+            'events_created' => $log->events_created + $counts['created'],
+            'events_updated' => $log->events_updated + $counts['updated'],
+            'events_failed' => $log->events_failed + $counts['failed'],
             'metadata' => array_merge($log->metadata ?? [], [
-                'conflicts_resolved' => $resolved,
+                'conflicts_resolved' => $counts['created'] + $counts['updated'],
+                'resolutions' => $outcomes,
                 'resolution_timestamp' => now()->toIso8601String(),
             ]),
         ]);
 
         return $log;
     }
+
+    /**
+     * Apply one resolution to a conflicting Google event.
+     *
+     * @return string What happened to it: created, updated or skipped
+     * @throws \Exception When the resolution cannot be applied (no free slot, nothing to merge into)
+     */
+    private function applyResolution(
+        string $resolution,
+        array $googleEvent,
+        array $conflict,
+        GoogleCalendarSyncConfig $config,
+        ?int $roomId
+    ): string {
+        if (!empty($conflict['internal_event_id'])) {
+            return $this->applyMoveResolution($resolution, $googleEvent, $conflict);
+        }
+
+        switch ($resolution) {
+            case 'overwrite':
+                $this->cancelOverlapped($conflict);
+                $this->createEventFromGoogleEvent($googleEvent, $config, $roomId);
+                return 'created';
+
+            case 'keep_both':
+                $this->createEventFromGoogleEvent($googleEvent, $config, $roomId);
+                return 'created';
+
+            case 'shift':
+                $startsAt = Carbon::parse($googleEvent['start_time']);
+                $endsAt = Carbon::parse($googleEvent['end_time']);
+                $slot = $this->findFreeSlot($conflict['room_id'] ?? $roomId ?? $config->room_id, $startsAt, $endsAt);
+
+                if (!$slot) {
+                    throw new \Exception('No free slot found on the same day');
+                }
+
+                $this->createEventFromGoogleEvent([
+                    'start_time' => $slot[0]->toIso8601String(),
+                    'end_time' => $slot[1]->toIso8601String(),
+                    'shifted_from' => $startsAt->format('Y-m-d H:i'),
+                ] + $googleEvent, $config, $roomId);
+                return 'created';
+
+            case 'merge':
+                $target = collect($conflict['conflicting_events'])->firstWhere('type', 'event');
+                $event = $target ? Event::find($target['event_id']) : null;
+
+                if (!$event) {
+                    throw new \Exception('No overlapping session to merge into');
+                }
+
+                $merged = array_filter([
+                    "Merged from Google Calendar: {$googleEvent['summary']}",
+                    $googleEvent['description'],
+                ]);
+
+                $event->update(['notes' => trim(($event->notes ?? '') . "\n\n" . implode("\n", $merged))]);
+                return 'updated';
+
+            default:
+                return 'skipped';
+        }
+    }
+
+    /**
+     * Resolve a conflicting move of a session we pushed: the session is moved (overwrite,
+     * keep_both) or moved to the nearest free slot (shift), never imported. Merge has
+     * nothing to merge into and skips it like skip.
+     *
+     * @return string updated or skipped
+     * @throws \Exception When no free slot is found for shift
+     */
+    private function applyMoveResolution(string $resolution, array $googleEvent, array $conflict): string
+    {
+        $event = Event::find($conflict['internal_event_id']);
+
+        if (!$event || $event->status === 'cancelled' || !in_array($resolution, ['overwrite', 'keep_both', 'shift'], true)) {
+            return 'skipped';
+        }
+
+        $startsAt = Carbon::parse($googleEvent['start_time']);
+        $endsAt = Carbon::parse($googleEvent['end_time']);
+
+        if ($resolution === 'shift') {
+            $slot = $this->findFreeSlot($event->room_id, $startsAt, $endsAt, $event->id);
+
+            if (!$slot) {
+                throw new \Exception('No free slot found on the same day');
+            }
+
+            [$startsAt, $endsAt] = $slot;
+        }
+
+        if ($resolution === 'overwrite') {
+            $this->cancelOverlapped($conflict);
+        }
+
+        $this->moveEvent($event, $startsAt, $endsAt, $googleEvent);
+        return 'updated';
+    }
+
+    /**
+     * Cancel the sessions a conflicting Google event overlaps. Class occurrences are never
+     * touched by an import; sessions are cancelled and their clients notified, as when
+     * cancelled by hand
+     */
+    private function cancelOverlapped(array $conflict): void
+    {
+        foreach ($conflict['conflicting_events'] as $conflictingEvent) {
+            $event = $conflictingEvent['type'] === 'event' ? Event::find($conflictingEvent['event_id']) : null;
+
+            if ($event && $event->status !== 'cancelled') {
+                $event->update(['status' => 'cancelled']);
+                $this->notificationService->sendEventCancellation($event);
+            }
+        }
+    }
+
+    /**
+     * Nearest slot of the same length on the same day with nothing else in the room,
+     * searched in SHIFT_STEP_MINUTES steps, later before earlier at equal distance
+     *
+     * @return array{0: Carbon, 1: Carbon}|null
+     */
+    private function findFreeSlot(?int $roomId, Carbon $startsAt, Carbon $endsAt, ?int $excludeEventId = null): ?array
+    {
+        if (!$roomId) {
+            return null;
+        }
+
+        $maxSteps = intdiv(self::SHIFT_SEARCH_HOURS * 60, self::SHIFT_STEP_MINUTES);
+
+        for ($step = 1; $step <= $maxSteps; $step++) {
+            foreach ([1, -1] as $direction) {
+                $offset = $direction * $step * self::SHIFT_STEP_MINUTES;
+                $start = $startsAt->copy()->addMinutes($offset);
+                $end = $endsAt->copy()->addMinutes($offset);
+
+                if (!$start->isSameDay($startsAt) || !$end->copy()->subSecond()->isSameDay($startsAt)) {
+                    continue;
+                }
+
+                if (empty($this->conflictDetectionService->findRoomOverlaps($roomId, $start, $end, $excludeEventId))) {
+                    return [$start, $end];
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Rebuild the Google event data a conflict was recorded from
+     */
+    private function googleEventFromConflict(array $conflict): array
+    {
+        return [
+            'google_event_id' => $conflict['google_event_id'],
+            'summary' => $conflict['google_summary'],
+            'description' => $conflict['google_description'] ?? null,
+            'location' => $conflict['google_location'] ?? null,
+            'start_time' => $conflict['google_start'],
+            'end_time' => $conflict['google_end'],
+            'status' => 'confirmed',
+        ];
+    }
 }
@@ -51,7 +51,8 @@ private function initializeClient(): void
             ]);
         }
 
-        $this->calendarService = new Calendar($this->client);
+        // A different API root (e.g. a local fake Google Calendar API) can be configured
+        $this->calendarService = new Calendar($this->client, config('services.google_calendar.api_url') ?: null);
     }
 
     /**
@@ -548,11 +549,167 @@ public function importEventsFromGoogleCalendar(
         }
     }
 
+    /**
+     * List what changed in a Google Calendar since the given sync token, deletions included.
+     * Without a token it is a full listing from $initialFrom that hands out the first token.
+     *
+     * An expired token fails with a 410 GoogleServiceException; the caller starts over without one.
+     *
+     * @return array{events: array, next_sync_token: string|null}
+     */
+    public function listEventChanges(string $calendarId, ?string $syncToken, \DateTimeInterface $initialFrom): array
+    {
+        $optParams = [
+            'singleEvents' => true,
+            'showDeleted' => true,
+            'maxResults' => 2500,
+        ];
+
+        if ($syncToken) {
+            $optParams['syncToken'] = $syncToken;
+        } else {
+            $optParams['timeMin'] = $initialFrom->format('c');
+        }
+
+        $events = [];
+        $pageToken = null;
+
+        do {
+            if ($pageToken) {
+                $optParams['pageToken'] = $pageToken;
+            }
+
+            $response = $this->executeWithRetry(function () use ($calendarId, $optParams) {
+                return $this->calendarService->events->listEvents($calendarId, $optParams);
+            });
+
+            foreach ($response->getItems() as $googleEvent) {
+                $events[] = $this->convertGoogleEventToArray($googleEvent);
+            }
+
+            $pageToken = $response->getNextPageToken();
+        } while ($pageToken);
+
+        Log::info('Listed Google Calendar changes', [
+            'calendar_id' => $calendarId,
+            'incremental' => $syncToken !== null,
+            'count' => count($events),
+        ]);
+
+        return [
+            'events' => $events,
+            'next_sync_token' => $response->getNextSyncToken(),
+        ];
+    }
+
+    /**
+     * Create or update an event in the given calendar.
+     *
+     * @return string Google Calendar event ID
+     */
+    public function pushEventToCalendar(Event $event, string $calendarId): string
+    {
+        $existingGoogleEventId = $this->findExistingGoogleEvent($event, $calendarId);
+
+        return $existingGoogleEventId
+            ? $this->updateGoogleEvent($event, $calendarId, $existingGoogleEventId)
+            : $this->createGoogleEvent($event, $calendarId);
+    }
+
+    /**
+     * Move the Google copy of an imported event to the event's local time. The rest of
+     * it (title, description) stays as Google has it.
+     *
+     * @return bool False when the copy is gone, already at that time or was edited in
+     *              Google after the local change (last change wins)
+     */
+    public function pushEventTimes(Event $event, string $calendarId): bool
+    {
+        try {
+            $googleEvent = $this->executeWithRetry(function () use ($calendarId, $event) {
+                return $this->calendarService->events->get($calendarId, $event->google_event_id);
+            });
+        } catch (GoogleServiceException $e) {
+            if (in_array($e->getCode(), [404, 410], true)) {
+                return false;
+            }
+            throw $e;
+        }
+
+        $startsAt = $googleEvent->getStart()?->getDateTime();
+        $endsAt = $googleEvent->getEnd()?->getDateTime();
+
+        $unchanged = $startsAt && $endsAt
+            && $event->starts_at->equalTo(new \DateTime($startsAt))
+            && $event->ends_at->equalTo(new \DateTime($endsAt));
+        $editedInGoogle = $googleEvent->getUpdated()
+            && $event->updated_at->lt(new \DateTime($googleEvent->getUpdated()));
+
+        if ($googleEvent->getStatus() === 'cancelled' || $unchanged || $editedInGoogle) {
+            return false;
+        }
+
+        $timezone = config('app.timezone', 'Europe/Budapest');
+
+        $start = new EventDateTime();
+        $start->setDateTime($event->starts_at->format('c'));
+        $start->setTimeZone($timezone);
+        $googleEvent->setStart($start);
+
+        $end = new EventDateTime();
+        $end->setDateTime($event->ends_at->format('c'));
+        $end->setTimeZone($timezone);
+        $googleEvent->setEnd($end);
+
+        $this->executeWithRetry(function () use ($calendarId, $event, $googleEvent) {
+            return $this->calendarService->events->update($calendarId, $event->google_event_id, $googleEvent);
+        });
+
+        Log::info('Imported event moved in Google Calendar', [
+            'event_id' => $event->id,
+            'google_event_id' => $event->google_event_id,
+        ]);
+
+        return true;
+    }
+
+    /**
+     * Delete an event from the given calendar. Returns false when it was not there.
+     */
+    public function removeEventFromCalendar(Event $event, string $calendarId): bool
+    {
+        $googleEventId = $this->findExistingGoogleEvent($event, $calendarId);
+
+        if (!$googleEventId) {
+            return false;
+        }
+
+        try {
+            $this->executeWithRetry(function () use ($calendarId, $googleEventId) {
+                $this->calendarService->events->delete($calendarId, $googleEventId);
+            });
+        } catch (GoogleServiceException $e) {
+            // 404 / 410: already gone
+            if (!in_array($e->getCode(), [404, 410], true)) {
+                throw $e;
+            }
+        }
+
+        Log::info('Event removed from Google Calendar', [
+            'event_id' => $event->id,
+            'calendar_id' => $calendarId,
+            'google_event_id' => $googleEventId,
+        ]);
+
+        return true;
+    }
+
     /**
      * Convert Google Calendar event to array format.
      */
     private function convertGoogleEventToArray(GoogleEvent $googleEvent): array
     {
+        // Deleted events in an incremental listing carry little more than their id and status
         $start = $googleEvent->getStart();
         $end = $googleEvent->getEnd();
 
@@ -569,8 +726,8 @@ private function convertGoogleEventToArray(GoogleEvent $googleEvent): array
             'summary' => $googleEvent->getSummary(),
             'description' => $googleEvent->getDescription(),
             'location' => $googleEvent->getLocation(),
-            'start_time' => $start->getDateTime() ?? $start->getDate(),
-            'end_time' => $end->getDateTime() ?? $end->getDate(),
+            'start_time' => $start?->getDateTime() ?? $start?->getDate(),
+            'end_time' => $end?->getDateTime() ?? $end?->getDate(),
             'status' => $googleEvent->getStatus(),
             'is_from_our_system' => $isFromOurSystem,
             'internal_event_id' => $internalEventId,
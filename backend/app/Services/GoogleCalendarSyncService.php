@@ -0,0 +1,241 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Event;
+use App\Models\GoogleCalendarSyncConfig;
+use App\Models\GoogleCalendarSyncLog;
+use Google\Service\Exception as GoogleServiceException;
+use Illuminate\Support\Facades\Log;
+
+/**
+ * Scheduled two-way sync of a Google Calendar sync config.
+ *
+ * A run pulls the Google changes since the config's sync token and pushes the local
+ * events changed since the previous run, deletions included in both directions. When an
+ * event was edited on both sides the later change wins. Events imported from the
+ * calendar only send back their time; title and description stay Google's.
+ * The first run (or one after Google expired the token) is a full pull from
+ * INITIAL_PULL_DAYS ago and pushes the upcoming INITIAL_PUSH_DAYS.
+ */
+class GoogleCalendarSyncService
+{
+    private const INITIAL_PULL_DAYS = 30;
+    private const INITIAL_PUSH_DAYS = 90;
+
+    /**
+     * Longest wait between retries of a failing config
+     */
+    private const MAX_RETRY_MINUTES = 360;
+
+    public function __construct(
+        private GoogleCalendarService $googleCalendarService,
+        private GoogleCalendarImportService $importService
+    ) {
+    }
+
+    /**
+     * Run one sync of a config. Failures are recorded on the config and the log
+     * (the next attempt backs off) instead of being thrown.
+     */
+    public function sync(GoogleCalendarSyncConfig $config): GoogleCalendarSyncLog
+    {
+        $startedAt = now();
+
+        $log = GoogleCalendarSyncLog::create([
+            'sync_config_id' => $config->id,
+            'operation' => 'sync',
+            'status' => 'in_progress',
+            'started_at' => $startedAt,
+            'filters' => [
+                'incremental' => $config->sync_token !== null,
+                'since' => $config->last_synced_at?->toIso8601String(),
+            ],
+            'conflicts' => [],
+        ]);
+
+        try {
+            $pulled = $config->isImportEnabled() ? $this->pull($config) : null;
+            $pushed = $config->isExportEnabled() ? $this->push($config) : null;
+
+            $conflicts = $pulled['conflicts'] ?? [];
+
+            $log->update([
+                'status' => 'completed',
+                'completed_at' => now(),
+                'events_processed' => ($pulled['processed'] ?? 0) + ($pushed['processed'] ?? 0),
+                'events_created' => ($pulled['created'] ?? 0) + ($pushed['created'] ?? 0),
+                'events_updated' => ($pulled['updated'] ?? 0) + ($pushed['updated'] ?? 0),
+                'events_skipped' => $pulled['skipped'] ?? 0,
+                'events_failed' => ($pulled['failed'] ?? 0) + ($pushed['failed'] ?? 0),
+                'conflicts_detected' => count($conflicts),
+                'conflicts' => $conflicts,
+                'metadata' => [
+                    'pulled' => $pulled ? array_diff_key($pulled, ['conflicts' => true, 'resolutions' => true]) : null,
+                    'pushed' => $pushed,
+                    'resolutions' => $pulled['resolutions'] ?? [],
+                ],
+            ]);
+
+            $config->update(array_filter([
+                'last_synced_at' => $startedAt,
+                'last_import_at' => $pulled ? now() : null,
+                'last_export_at' => $pushed ? now() : null,
+                'next_sync_at' => now()->addMinutes($config->sync_interval_minutes),
+            ]) + [
+                'consecutive_failures' => 0,
+                'last_error' => null,
+            ]);
+        } catch (\Throwable $e) {
+            $failures = $config->consecutive_failures + 1;
+
+            $log->update([
+                'status' => 'failed',
+                'completed_at' => now(),
+                'error_message' => $e->getMessage(),
+            ]);
+
+            $config->update([
+                'consecutive_failures' => $failures,
+                'last_error' => $e->getMessage(),
+                'next_sync_at' => now()->addMinutes($this->retryDelayMinutes($config, $failures)),
+            ]);
+
+            Log::error('Scheduled Google Calendar sync failed', [
+                'config_id' => $config->id,
+                'consecutive_failures' => $failures,
+                'error' => $e->getMessage(),
+            ]);
+        }
+
+        return $log->fresh();
+    }
+
+    /**
+     * Apply the Google changes since the stored sync token, then keep the new token
+     *
+     * @return array<string, mixed>
+     */
+    private function pull(GoogleCalendarSyncConfig $config): array
+    {
+        $fullResync = false;
+
+        try {
+            $changes = $this->listChanges($config, $config->sync_token);
+        } catch (GoogleServiceException $e) {
+            // 410 Gone: Google expired the token, start over with a full pull
+            if ($e->getCode() !== 410) {
+                throw $e;
+            }
+
+            Log::warning('Google Calendar sync token expired, running full pull', ['config_id' => $config->id]);
+
+            $fullResync = true;
+            $changes = $this->listChanges($config, null);
+        }
+
+        $results = $this->importService->applyChanges($config, $changes['events']);
+
+        $config->update(['sync_token' => $changes['next_sync_token']]);
+
+        return ['processed' => count($changes['events']), 'full_resync' => $fullResync] + $results;
+    }
+
+    /**
+     * @return array{events: array, next_sync_token: string|null}
+     */
+    private function listChanges(GoogleCalendarSyncConfig $config, ?string $syncToken): array
+    {
+        return $this->googleCalendarService->listEventChanges(
+            $config->google_calendar_id,
+            $syncToken,
+            now()->subDays(self::INITIAL_PULL_DAYS)
+        );
+    }
+
+    /**
+     * Push the local events of the config's room changed since the last run.
+     * Deleted and cancelled events are removed from the calendar.
+     *
+     * @return array{processed: int, created: int, updated: int, deleted: int, failed: int, errors: array}
+     */
+    private function push(GoogleCalendarSyncConfig $config): array
+    {
+        $results = ['processed' => 0, 'created' => 0, 'updated' => 0, 'deleted' => 0, 'failed' => 0, 'errors' => []];
+
+        $query = Event::withTrashed()
+            ->with(['room', 'staff.user', 'client.user'])
+            ->when($config->room_id, fn ($q) => $q->where('room_id', $config->room_id));
+
+        if ($config->last_synced_at) {
+            $since = $config->last_synced_at;
+            $query->where(fn ($q) => $q->where('updated_at', '>', $since)->orWhere('deleted_at', '>', $since));
+        } else {
+            $query->whereNull('deleted_at')
+                ->where('status', 'scheduled')
+                ->whereBetween('starts_at', [now(), now()->addDays(self::INITIAL_PUSH_DAYS)]);
+        }
+
+        foreach ($query->get() as $event) {
+            // Imported from another calendar: that calendar owns it
+            if ($event->google_sync_config_id && $event->google_sync_config_id !== $config->id) {
+                continue;
+            }
+
+            $removed = $event->trashed() || in_array($event->status, ['cancelled', 'pending'], true);
+
+            $results['processed']++;
+
+            try {
+                // Imported from this calendar: local moves go back, the rest is Google's
+                if ($event->google_sync_config_id === $config->id && !$removed) {
+                    if ($this->googleCalendarService->pushEventTimes($event, $config->google_calendar_id)) {
+                        $results['updated']++;
+                    }
+                    continue;
+                }
+
+                if ($removed) {
+                    if ($this->googleCalendarService->removeEventFromCalendar($event, $config->google_calendar_id)) {
+                        $results['deleted']++;
+                    }
+                    continue;
+                }
+
+                $hadGoogleId = $event->google_event_id !== null;
+                $googleEventId = $this->googleCalendarService->pushEventToCalendar($event, $config->google_calendar_id);
+
+                // Write the id back without touching updated_at, or the next run would push it again
+                if (!$hadGoogleId) {
+                    Event::withoutTimestamps(fn () => $event->updateQuietly(['google_event_id' => $googleEventId]));
+                }
+
+                $results[$hadGoogleId ? 'updated' : 'created']++;
+            } catch (\Exception $e) {
+                $results['failed']++;
+                $results['errors'][] = [
+                    'event_id' => $event->id,
+                    'error' => $e->getMessage(),
+                ];
+
+                Log::error('Failed to push event to Google Calendar', [
+                    'config_id' => $config->id,
+                    'event_id' => $event->id,
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        return $results;
+    }
+
+    /**
+     * Failing configs back off: interval × 2^(failures - 1), capped
+     */
+    private function retryDelayMinutes(GoogleCalendarSyncConfig $config, int $failures): int
+    {
+        return min($config->sync_interval_minutes * 2 ** ($failures - 1), self::MAX_RETRY_MINUTES);
+    }
+}
@@ -0,0 +1,223 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use Carbon\Carbon;
+
+/**
+ * Minimal iCalendar (RFC 5545) reader, the counterpart of ICalendarWriter.
+ *
+ * Reads the VEVENTs of a file with the properties the event import needs. Times are
+ * returned in the app timezone; floating times are taken as app time, TZID times in
+ * their zone. Recurrence rules are reported but not expanded.
+ */
+final class ICalendarParser
+{
+    /**
+     * @return array<int, array{uid: string|null, recurrence_id: string|null, summary: string|null, description: string|null,
+     *     location: string|null, status: string|null, starts_at: Carbon|null, ends_at: Carbon|null,
+     *     all_day: bool, recurring: bool, organizer: string|null, attendees: string[], categories: string[]}>
+     */
+    public function parse(string $content): array
+    {
+        $events = [];
+        $current = null;
+        $depth = 0;
+
+        foreach ($this->unfold($content) as $line) {
+            [$name, $params, $value] = $this->parseLine($line);
+
+            if ($name === 'BEGIN' && strtoupper($value) === 'VEVENT') {
+                $current = [];
+                $depth = 0;
+                continue;
+            }
+
+            if ($current === null) {
+                continue;
+            }
+
+            // Skip nested components (VALARM) of the event
+            if ($name === 'BEGIN') {
+                $depth++;
+                continue;
+            }
+
+            if ($name === 'END') {
+                if ($depth > 0) {
+                    $depth--;
+                    continue;
+                }
+
+                $events[] = $this->buildEvent($current);
+                $current = null;
+                continue;
+            }
+
+            if ($depth === 0) {
+                $current[$name][] = ['params' => $params, 'value' => $value];
+            }
+        }
+
+        return $events;
+    }
+
+    public static function looksLikeICalendar(string $content): bool
+    {
+        return str_starts_with(ltrim($content), 'BEGIN:VCALENDAR');
+    }
+
+    /**
+     * @param array<string, array<int, array{params: array<string, string>, value: string}>> $properties
+     */
+    private function buildEvent(array $properties): array
+    {
+        $text = fn (string $name) => isset($properties[$name]) ? $this->unescape($properties[$name][0]['value']) : null;
+
+        $start = $properties['DTSTART'][0] ?? null;
+        $allDay = $start !== null && (($start['params']['VALUE'] ?? null) === 'DATE' || strlen($start['value']) === 8);
+        $startsAt = $start ? $this->parseTime($start['value'], $start['params']['TZID'] ?? null) : null;
+
+        $endsAt = null;
+        if ($end = $properties['DTEND'][0] ?? null) {
+            $endsAt = $this->parseTime($end['value'], $end['params']['TZID'] ?? null);
+        } elseif ($startsAt && isset($properties['DURATION'])) {
+            try {
+                $endsAt = $startsAt->copy()->add(new \DateInterval(ltrim($properties['DURATION'][0]['value'], '+')));
+            } catch (\Exception) {
+                $endsAt = null;
+            }
+        }
+
+        $attendees = array_values(array_filter(array_map(
+            fn (array $attendee) => $this->email($attendee['value']),
+            $properties['ATTENDEE'] ?? []
+        )));
+
+        $categories = [];
+        foreach ($properties['CATEGORIES'] ?? [] as $property) {
+            foreach (preg_split('/(?<!\\\\),/', $property['value']) as $category) {
+                if (($category = trim($this->unescape($category))) !== '') {
+                    $categories[] = $category;
+                }
+            }
+        }
+
+        return [
+            'uid' => $text('UID'),
+            'recurrence_id' => $text('RECURRENCE-ID'),
+            'summary' => $text('SUMMARY'),
+            'description' => $text('DESCRIPTION'),
+            'location' => $text('LOCATION'),
+            'status' => ($status = $text('STATUS')) ? strtoupper($status) : null,
+            'starts_at' => $startsAt,
+            'ends_at' => $endsAt,
+            'all_day' => $allDay,
+            'recurring' => isset($properties['RRULE']) || isset($properties['RDATE']),
+            'organizer' => isset($properties['ORGANIZER']) ? $this->email($properties['ORGANIZER'][0]['value']) : null,
+            'attendees' => $attendees,
+            'categories' => $categories,
+        ];
+    }
+
+    /**
+     * Join folded lines (continuation lines start with a space or tab)
+     *
+     * @return string[]
+     */
+    private function unfold(string $content): array
+    {
+        $content = preg_replace('/^\xEF\xBB\xBF/', '', $content);
+        $content = preg_replace('/\r\n[ \t]|\n[ \t]|\r[ \t]/', '', $content);
+
+        return array_values(array_filter(
+            preg_split('/\r\n|\r|\n/', $content),
+            fn (string $line) => trim($line) !== ''
+        ));
+    }
+
+    /**
+     * Split "NAME;PARAM=a;PARAM2="b:c":value", colons inside quoted parameters included
+     *
+     * @return array{0: string, 1: array<string, string>, 2: string}
+     */
+    private function parseLine(string $line): array
+    {
+        $inQuotes = false;
+        $separator = null;
+
+        for ($i = 0, $length = strlen($line); $i < $length; $i++) {
+            if ($line[$i] === '"') {
+                $inQuotes = !$inQuotes;
+            } elseif ($line[$i] === ':' && !$inQuotes) {
+                $separator = $i;
+                break;
+            }
+        }
+
+        if ($separator === null) {
+            return [strtoupper(trim($line)), [], ''];
+        }
+
+        // Semicolons outside quotes separate the parameters
+        $head = preg_split('/;(?=(?:[^"]*"[^"]*")*[^"]*$)/', substr($line, 0, $separator));
+        $params = [];
+
+        foreach (array_slice($head, 1) as $param) {
+            [$key, $paramValue] = array_pad(explode('=', $param, 2), 2, '');
+            $params[strtoupper($key)] = trim($paramValue, '"');
+        }
+
+        return [strtoupper($head[0]), $params, substr($line, $separator + 1)];
+    }
+
+    private function parseTime(string $value, ?string $timezone): ?Carbon
+    {
+        $appTimezone = config('app.timezone');
+
+        try {
+            if (preg_match('/^\d{8}$/', $value)) {
+                return Carbon::createFromFormat('!Ymd', $value, $appTimezone);
+            }
+
+            if (preg_match('/^\d{8}T\d{6}Z$/', $value)) {
+                return Carbon::createFromFormat('Ymd\THis\Z', $value, 'UTC')->setTimezone($appTimezone);
+            }
+
+            if (preg_match('/^\d{8}T\d{6}$/', $value)) {
+                $zone = $timezone && in_array($timezone, \DateTimeZone::listIdentifiers(), true) ? $timezone : $appTimezone;
+
+                return Carbon::createFromFormat('Ymd\THis', $value, $zone)->setTimezone($appTimezone);
+            }
+        } catch (\Exception) {
+            return null;
+        }
+
+        return null;
+    }
+
+    private function email(string $value): ?string
+    {
+        $value = trim($value);
+
+        if (stripos($value, 'mailto:') === 0) {
+            $value = substr($value, 7);
+        }
+
+        return filter_var($value, FILTER_VALIDATE_EMAIL) ? mb_strtolower($value) : null;
+    }
+
+    /**
+     * Reverse of ICalendarWriter::escape()
+     */
+    private function unescape(string $text): string
+    {
+        return preg_replace_callback(
+            '/\\\\([\\\\;,nN])/',
+            fn (array $match) => strtolower($match[1]) === 'n' ? "\n" : $match[1],
+            $text
+        );
+    }
+}
@@ -0,0 +1,119 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+/**
+ * Minimal iCalendar (RFC 5545) writer for calendar feeds and .ics attachments.
+ *
+ * Only VEVENTs with UTC times are written, so no VTIMEZONE is needed. Lines end in
+ * CRLF and are folded at 75 octets without splitting multibyte characters.
+ */
+final class ICalendarWriter
+{
+    private const PRODUCT_ID = '-//FunctionalFit//Booking//HU';
+
+    /** @var string[] */
+    private array $events = [];
+
+    public function __construct(
+        private string $name
+    ) {}
+
+    /**
+     * @param array{uid: string, starts_at: \DateTimeInterface, ends_at: \DateTimeInterface, summary: string,
+     *     description?: string|null, location?: string|null, status?: string, updated_at?: \DateTimeInterface|null} $event
+     *     status is CONFIRMED, TENTATIVE or CANCELLED
+     */
+    public function addEvent(array $event): self
+    {
+        $lines = [
+            'BEGIN:VEVENT',
+            'UID:' . $event['uid'],
+            'DTSTAMP:' . $this->utc($event['updated_at'] ?? now()),
+            'DTSTART:' . $this->utc($event['starts_at']),
+            'DTEND:' . $this->utc($event['ends_at']),
+            'SUMMARY:' . $this->escape($event['summary']),
+        ];
+
+        if (!empty($event['description'])) {
+            $lines[] = 'DESCRIPTION:' . $this->escape($event['description']);
+        }
+
+        if (!empty($event['location'])) {
+            $lines[] = 'LOCATION:' . $this->escape($event['location']);
+        }
+
+        $lines[] = 'STATUS:' . ($event['status'] ?? 'CONFIRMED');
+
+        if (isset($event['updated_at'])) {
+            $lines[] = 'LAST-MODIFIED:' . $this->utc($event['updated_at']);
+        }
+
+        $lines[] = 'END:VEVENT';
+
+        $this->events[] = implode("\r\n", array_map(fn (string $line) => $this->fold($line), $lines));
+
+        return $this;
+    }
+
+    public function render(): string
+    {
+        $lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:' . self::PRODUCT_ID,
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            $this->fold('X-WR-CALNAME:' . $this->escape($this->name)),
+            ...$this->events,
+            'END:VCALENDAR',
+        ];
+
+        return implode("\r\n", $lines) . "\r\n";
+    }
+
+    private function utc(\DateTimeInterface $time): string
+    {
+        return \DateTimeImmutable::createFromInterface($time)
+            ->setTimezone(new \DateTimeZone('UTC'))
+            ->format('Ymd\THis\Z');
+    }
+
+    /**
+     * Escape a TEXT value: backslash, semicolon, comma and newlines
+     */
+    private function escape(string $text): string
+    {
+        return str_replace(
+            ['\\', ';', ',', "\r\n", "\n", "\r"],
+            ['\\\\', '\\;', '\\,', '\\n', '\\n', '\\n'],
+            $text
+        );
+    }
+
+    /**
+     * Fold a content line into 75-octet chunks, continuation lines start with a space
+     */
+    private function fold(string $line): string
+    {
+        $chunks = [];
+        $current = '';
+
+        foreach (mb_str_split($line) as $char) {
+            $limit = $chunks === [] ? 75 : 74;
+
+            if (strlen($current) + strlen($char) > $limit) {
+                $chunks[] = $current;
+                $current = '';
+            }
+
+            $current .= $char;
+        }
+
+        $chunks[] = $current;
+
+        return implode("\r\n ", $chunks);
+    }
+}
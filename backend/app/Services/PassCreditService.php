@@ -7,6 +7,7 @@
 use App\Exceptions\PolicyViolationException;
 use App\Models\Client;
 use App\Models\Pass;
+use App\Models\PassCreditTransaction;
 use Illuminate\Support\Facades\DB;
 
 class PassCreditService
@@ -36,11 +37,12 @@ public function getAvailablePass(Client $client): ?Pass
     /**
      * Deduct one credit from client's pass.
      *
+     * @param array{event_id?: int, class_registration_id?: int, created_by?: int} $context ledger references
      * @throws PolicyViolationException
      */
-    public function deductCredit(Client $client, string $reason): Pass
+    public function deductCredit(Client $client, string $reason, array $context = []): Pass
     {
-        return DB::transaction(function () use ($client, $reason) {
+        return DB::transaction(function () use ($client, $reason, $context) {
             $pass = $this->getAvailablePass($client);
 
             if (!$pass) {
@@ -69,16 +71,20 @@ public function deductCredit(Client $client, string $reason): Pass
 
             $pass->save();
 
+            $this->recordTransaction($pass, 'deduction', -1, $reason, $context);
+
             return $pass;
         });
     }
 
     /**
      * Refund credits to client's pass.
+     *
+     * @param array{event_id?: int, class_registration_id?: int, created_by?: int} $context ledger references
      */
-    public function refundCredit(Client $client, int $credits = 1, string $reason = '', ?int $passId = null): Pass
+    public function refundCredit(Client $client, int $credits = 1, string $reason = '', ?int $passId = null, array $context = []): Pass
     {
-        return DB::transaction(function () use ($client, $credits, $reason, $passId) {
+        return DB::transaction(function () use ($client, $credits, $reason, $passId, $context) {
             // If pass ID is provided, refund to that specific pass
             if ($passId) {
                 $pass = Pass::lockForUpdate()
@@ -103,10 +109,33 @@ public function refundCredit(Client $client, int $credits = 1, string $reason =
 
             $pass->save();
 
+            $this->recordTransaction($pass, 'refund', $credits, $reason, $context);
+
             return $pass;
         });
     }
 
+    /**
+     * Append an entry to the credit ledger of a pass.
+     *
+     * @param array{event_id?: int, class_registration_id?: int, created_by?: int} $context
+     */
+    public function recordTransaction(Pass $pass, string $type, int $credits, ?string $reason, array $context = []): PassCreditTransaction
+    {
+        return PassCreditTransaction::create([
+            'pass_id' => $pass->id,
+            'client_id' => $pass->client_id,
+            'type' => $type,
+            'credits' => $credits,
+            'balance_after' => (int) $pass->credits_left,
+            'reason' => $reason !== '' ? $reason : null,
+            'event_id' => $context['event_id'] ?? null,
+            'class_registration_id' => $context['class_registration_id'] ?? null,
+            'created_by' => $context['created_by'] ?? auth()->id(),
+            'created_at' => now(),
+        ]);
+    }
+
     /**
      * Get total available credits for a client across all active passes.
      */
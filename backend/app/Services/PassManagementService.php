@@ -0,0 +1,205 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Client;
+use App\Models\Pass;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+
+class PassManagementService
+{
+    public function __construct(
+        private readonly PassCreditService $passCreditService
+    ) {}
+
+    /**
+     * Sell or issue a pass manually (front desk, gift, correction).
+     */
+    public function issue(Client $client, array $data, User $user): Pass
+    {
+        return Pass::create([
+            'client_id' => $client->id,
+            'type' => $data['type'],
+            'total_credits' => $data['total_credits'],
+            'credits_left' => $data['total_credits'],
+            'valid_from' => $data['valid_from'],
+            'valid_until' => $data['valid_until'],
+            'source' => 'manual',
+            'status' => 'active',
+            'external_order_id' => $data['external_order_id'] ?? null,
+            'price' => $data['price'] ?? null,
+            'created_by' => $user->id,
+        ]);
+    }
+
+    /**
+     * Add or remove credits with a mandatory reason.
+     *
+     * @throws \InvalidArgumentException when the pass is voided or the balance would go negative
+     */
+    public function adjustCredits(Pass $pass, int $credits, string $reason, User $user): Pass
+    {
+        $this->ensureNotVoided($pass);
+
+        return DB::transaction(function () use ($pass, $credits, $reason, $user) {
+            $pass = Pass::lockForUpdate()->findOrFail($pass->id);
+
+            if ($pass->credits_left + $credits < 0) {
+                throw new \InvalidArgumentException('The pass only has ' . $pass->credits_left . ' credits left');
+            }
+
+            $pass->credits_left += $credits;
+            if ($pass->credits_left > $pass->total_credits) {
+                $pass->total_credits = $pass->credits_left;
+            }
+
+            if ($pass->status === 'depleted' && $pass->credits_left > 0) {
+                $pass->status = 'active';
+            } elseif ($pass->status === 'active' && $pass->credits_left === 0) {
+                $pass->status = 'depleted';
+            }
+
+            $pass->save();
+
+            $this->passCreditService->recordTransaction($pass, 'adjustment', $credits, $reason, [
+                'created_by' => $user->id,
+            ]);
+
+            return $pass;
+        });
+    }
+
+    /**
+     * Move the expiry date of a pass; an expired pass becomes usable again.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function extend(Pass $pass, Carbon $validUntil, ?string $reason, User $user): Pass
+    {
+        $this->ensureNotVoided($pass);
+
+        if ($validUntil->lt($pass->valid_until)) {
+            throw new \InvalidArgumentException('The new expiry date must be after the current one');
+        }
+
+        return DB::transaction(function () use ($pass, $validUntil, $reason, $user) {
+            $previous = $pass->valid_until->toDateString();
+
+            $pass->valid_until = $validUntil;
+            if ($pass->status === 'expired') {
+                $pass->status = $pass->credits_left > 0 ? 'active' : 'depleted';
+            }
+            $pass->save();
+
+            $this->passCreditService->recordTransaction(
+                $pass,
+                'extension',
+                0,
+                trim("Expiry {$previous} → {$validUntil->toDateString()}. " . ($reason ?? '')),
+                ['created_by' => $user->id]
+            );
+
+            return $pass;
+        });
+    }
+
+    /**
+     * Freeze a pass: it cannot be used for bookings until it is unfrozen.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function freeze(Pass $pass, ?string $reason, User $user): Pass
+    {
+        $this->ensureNotVoided($pass);
+
+        if ($pass->isFrozen()) {
+            throw new \InvalidArgumentException('The pass is already frozen');
+        }
+
+        return DB::transaction(function () use ($pass, $reason, $user) {
+            $pass->update([
+                'status' => 'suspended',
+                'frozen_at' => now(),
+            ]);
+
+            $this->passCreditService->recordTransaction($pass, 'freeze', 0, $reason, [
+                'created_by' => $user->id,
+            ]);
+
+            return $pass;
+        });
+    }
+
+    /**
+     * Unfreeze a pass. The expiry date is pushed out by the number of days
+     * the pass was frozen, so the client doesn't lose validity.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function unfreeze(Pass $pass, User $user): Pass
+    {
+        if (!$pass->isFrozen()) {
+            throw new \InvalidArgumentException('The pass is not frozen');
+        }
+
+        return DB::transaction(function () use ($pass, $user) {
+            $frozenDays = (int) $pass->frozen_at->startOfDay()->diffInDays(now()->startOfDay());
+
+            $pass->update([
+                'status' => $pass->credits_left > 0 ? 'active' : 'depleted',
+                'frozen_at' => null,
+                'valid_until' => $pass->valid_until->copy()->addDays($frozenDays),
+            ]);
+
+            $this->passCreditService->recordTransaction(
+                $pass,
+                'unfreeze',
+                0,
+                "Frozen for {$frozenDays} days, expiry extended to {$pass->valid_until->toDateString()}",
+                ['created_by' => $user->id]
+            );
+
+            return $pass;
+        });
+    }
+
+    /**
+     * Void a pass (refunded purchase, duplicate webhook, fraud).
+     * Remaining credits are written off in the ledger.
+     *
+     * @throws \InvalidArgumentException
+     */
+    public function void(Pass $pass, string $reason, User $user): Pass
+    {
+        $this->ensureNotVoided($pass);
+
+        return DB::transaction(function () use ($pass, $reason, $user) {
+            $writtenOff = (int) $pass->credits_left;
+
+            $pass->update([
+                'status' => 'voided',
+                'credits_left' => 0,
+                'frozen_at' => null,
+                'voided_at' => now(),
+                'void_reason' => $reason,
+            ]);
+
+            $this->passCreditService->recordTransaction($pass, 'void', -$writtenOff, $reason, [
+                'created_by' => $user->id,
+            ]);
+
+            return $pass;
+        });
+    }
+
+    private function ensureNotVoided(Pass $pass): void
+    {
+        if ($pass->isVoided()) {
+            throw new \InvalidArgumentException('The pass has been voided');
+        }
+    }
+}
@@ -0,0 +1,218 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Settlement;
+use App\Models\SettlementAdjustment;
+use App\Models\StaffProfile;
+
+/**
+ * Per-trainer payout statement (kifizetési kimutatás) of a settlement as a PDF:
+ * the sessions of the period, the adjustments and the amount payable.
+ */
+class PayoutStatementService
+{
+    private const MARGIN = 50;
+    private const PAGE_BOTTOM = 790;
+    private const LINE_HEIGHT = 15;
+
+    private const STATUS_LABELS = [
+        'draft' => 'Piszkozat',
+        'finalized' => 'Lezárva',
+        'paid' => 'Kifizetve',
+    ];
+
+    private const ATTENDANCE_LABELS = [
+        'attended' => 'Megjelent',
+        'no_show' => 'Nem jelent meg',
+        'cancelled' => 'Lemondva',
+        'late_cancel' => 'Késői lemondás',
+    ];
+
+    private SimplePdf $pdf;
+    private float $y;
+
+    public function __construct(
+        private readonly PricingService $pricingService
+    ) {}
+
+    /**
+     * Download file name, e.g. kifizetesi_kimutatas_12_2025-01-01_2025-01-31.pdf
+     */
+    public function filename(Settlement $settlement): string
+    {
+        return sprintf(
+            'kifizetesi_kimutatas_%d_%s_%s.pdf',
+            $settlement->id,
+            $settlement->period_start->format('Y-m-d'),
+            $settlement->period_end->format('Y-m-d')
+        );
+    }
+
+    /**
+     * Render the statement as PDF bytes
+     */
+    public function render(Settlement $settlement): string
+    {
+        $settlement->loadMissing(['trainer', 'adjustments', 'items.classOccurrence.template', 'items.client']);
+
+        $this->pdf = (new SimplePdf())->addPage();
+        $this->y = self::MARGIN;
+
+        $this->header($settlement);
+        $this->sessions($settlement);
+        $this->totals($settlement);
+
+        return $this->pdf->output();
+    }
+
+    private function header(Settlement $settlement): void
+    {
+        $this->pdf->text(self::MARGIN, $this->y, 'Kifizetési kimutatás', 18, true);
+        $this->y += 30;
+
+        $rows = [
+            'Edző' => $settlement->trainer?->name ?? 'Ismeretlen',
+            'Időszak' => $settlement->period_start->format('Y-m-d') . ' - ' . $settlement->period_end->format('Y-m-d'),
+            'Elszámolás' => '#' . $settlement->id,
+            'Állapot' => self::STATUS_LABELS[$settlement->status] ?? $settlement->status,
+        ];
+
+        if ($settlement->paid_at) {
+            $rows['Kifizetés dátuma'] = $settlement->paid_at->format('Y-m-d');
+            $rows['Közlemény'] = $settlement->payment_reference ?? '-';
+        }
+
+        foreach ($rows as $label => $value) {
+            $this->pdf->text(self::MARGIN, $this->y, $label . ':', 10, true);
+            $this->pdf->text(self::MARGIN + 110, $this->y, (string) $value);
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        $this->y += 10;
+    }
+
+    /**
+     * Session lines: 1:1 events of the period and the settled group class bookings
+     */
+    private function sessions(Settlement $settlement): void
+    {
+        $lines = [];
+
+        $staffProfileId = StaffProfile::where('user_id', $settlement->trainer_id)->value('id');
+        if ($staffProfileId) {
+            // The period is locked, so the 1:1 fees are the same as when the settlement was generated
+            $calculation = $this->pricingService->calculateSettlementForTrainer(
+                (int) $staffProfileId,
+                $settlement->period_start->copy()->startOfDay(),
+                $settlement->period_end->copy()->endOfDay()
+            );
+
+            foreach ($calculation['items'] as $item) {
+                if ($item['type'] !== 'individual') {
+                    continue;
+                }
+
+                $lines[] = [
+                    'date' => substr($item['class_date'], 0, 10),
+                    'name' => $item['class_name'],
+                    'client' => $item['client_name'],
+                    'status' => $item['status'],
+                    'fee' => (int) $item['trainer_fee_brutto'],
+                ];
+            }
+        }
+
+        foreach ($settlement->items as $item) {
+            $lines[] = [
+                'date' => $item->classOccurrence?->starts_at?->format('Y-m-d') ?? '-',
+                'name' => $item->classOccurrence?->template?->title ?? 'Ismeretlen',
+                'client' => $item->client?->full_name ?? 'Ismeretlen',
+                'status' => $item->status,
+                'fee' => $item->trainer_fee_brutto,
+            ];
+        }
+
+        usort($lines, fn (array $a, array $b) => strcmp($a['date'], $b['date']));
+
+        $this->tableHeader();
+
+        foreach ($lines as $line) {
+            $this->ensureSpace();
+            $this->pdf->text(self::MARGIN, $this->y, $line['date'], 9);
+            $this->pdf->text(self::MARGIN + 70, $this->y, $this->truncate($line['name'], 30), 9);
+            $this->pdf->text(self::MARGIN + 230, $this->y, $this->truncate($line['client'], 28), 9);
+            $this->pdf->text(self::MARGIN + 380, $this->y, self::ATTENDANCE_LABELS[$line['status']] ?? $line['status'], 9);
+            $this->pdf->text(SimplePdf::PAGE_WIDTH - self::MARGIN, $this->y, $this->money($line['fee']), 9, false, 'right');
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        if ($lines === []) {
+            $this->pdf->text(self::MARGIN, $this->y, 'Nincs alkalom az időszakban.', 9);
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        $this->y += 10;
+    }
+
+    private function tableHeader(): void
+    {
+        $this->pdf->text(self::MARGIN, $this->y, 'Dátum', 9, true);
+        $this->pdf->text(self::MARGIN + 70, $this->y, 'Alkalom', 9, true);
+        $this->pdf->text(self::MARGIN + 230, $this->y, 'Ügyfél', 9, true);
+        $this->pdf->text(self::MARGIN + 380, $this->y, 'Állapot', 9, true);
+        $this->pdf->text(SimplePdf::PAGE_WIDTH - self::MARGIN, $this->y, 'Edzői díj', 9, true, 'right');
+        $this->pdf->rule(self::MARGIN, SimplePdf::PAGE_WIDTH - self::MARGIN, $this->y + 5);
+        $this->y += self::LINE_HEIGHT + 2;
+    }
+
+    private function totals(Settlement $settlement): void
+    {
+        $right = SimplePdf::PAGE_WIDTH - self::MARGIN;
+
+        $this->ensureSpace(4 + $settlement->adjustments->count());
+        $this->pdf->rule(self::MARGIN, $right, $this->y - 8);
+
+        $this->pdf->text(self::MARGIN, $this->y, 'Edzői díjak összesen', 10);
+        $this->pdf->text($right, $this->y, $this->money($settlement->total_trainer_fee), 10, false, 'right');
+        $this->y += self::LINE_HEIGHT;
+
+        foreach ($settlement->adjustments as $adjustment) {
+            /** @var SettlementAdjustment $adjustment */
+            $label = ($adjustment->type === 'bonus' ? 'Bónusz' : 'Levonás') . ': ' . $this->truncate($adjustment->reason, 60);
+            $this->pdf->text(self::MARGIN, $this->y, $label, 10);
+            $this->pdf->text($right, $this->y, $this->money($adjustment->signedAmount()), 10, false, 'right');
+            $this->y += self::LINE_HEIGHT;
+        }
+
+        $this->pdf->rule(self::MARGIN, $right, $this->y - 8);
+        $this->pdf->text(self::MARGIN, $this->y + 4, 'Kifizetendő', 12, true);
+        $this->pdf->text($right, $this->y + 4, $this->money($settlement->payableAmount()), 12, true, 'right');
+    }
+
+    /**
+     * Start a new page (repeating the table header) when the next lines would not fit
+     */
+    private function ensureSpace(int $lines = 1): void
+    {
+        if ($this->y + $lines * self::LINE_HEIGHT <= self::PAGE_BOTTOM) {
+            return;
+        }
+
+        $this->pdf->addPage();
+        $this->y = self::MARGIN;
+        $this->tableHeader();
+    }
+
+    private function money(int $amount): string
+    {
+        return number_format($amount, 0, ',', ' ') . ' Ft';
+    }
+
+    private function truncate(string $text, int $length): string
+    {
+        return mb_strlen($text) > $length ? mb_substr($text, 0, $length - 1) . '…' : $text;
+    }
+}
@@ -21,12 +21,14 @@ class PriceCodeService
      *
      * @param string $clientEmail
      * @param string $serviceTypeCode
+     * @param Carbon|null $at Date the price applies to, the session start (defaults to now)
      * @return array{entry_fee_brutto: int, trainer_fee_brutto: int, currency: string, source: string, price_code?: string}
      * @throws MissingPricingException
      */
     public function resolveByEmailAndServiceType(
         string $clientEmail,
-        string $serviceTypeCode
+        string $serviceTypeCode,
+        ?Carbon $at = null
     ): array {
         // 1. Find active service type by code
         $serviceType = ServiceType::byCode($serviceTypeCode)
@@ -52,7 +54,7 @@ public function resolveByEmailAndServiceType(
         // 3. Query client_price_codes for active, valid price
         $priceCode = ClientPriceCode::forClientAndServiceType($client->id, $serviceType->id)
             ->active()
-            ->validAt(Carbon::now())
+            ->validAt($at ?? Carbon::now())
             ->orderBy('valid_from', 'desc')
             ->first();
 
@@ -76,12 +78,14 @@ public function resolveByEmailAndServiceType(
      *
      * @param int $clientId
      * @param int $serviceTypeId
+     * @param Carbon|null $at Date the price applies to, the session start (defaults to now)
      * @return array{entry_fee_brutto: int, trainer_fee_brutto: int, currency: string, source: string, price_code?: string}
      * @throws MissingPricingException
      */
     public function resolveByClientAndServiceType(
         int $clientId,
-        int $serviceTypeId
+        int $serviceTypeId,
+        ?Carbon $at = null
     ): array {
         $serviceType = ServiceType::find($serviceTypeId);
 
@@ -92,7 +96,7 @@ public function resolveByClientAndServiceType(
         // Query client_price_codes for active, valid price
         $priceCode = ClientPriceCode::forClientAndServiceType($clientId, $serviceTypeId)
             ->active()
-            ->validAt(Carbon::now())
+            ->validAt($at ?? Carbon::now())
             ->orderBy('valid_from', 'desc')
             ->first();
 
@@ -216,12 +220,14 @@ public function updateClientEmail(Client $client, string $newEmail): void
      *
      * @param string $staffEmail
      * @param string $serviceTypeCode
+     * @param Carbon|null $at Date the price applies to, the session start (defaults to now)
      * @return array{entry_fee_brutto: int, trainer_fee_brutto: int, currency: string, source: string, price_code?: string}
      * @throws MissingPricingException
      */
     public function resolveByStaffEmailAndServiceType(
         string $staffEmail,
-        string $serviceTypeCode
+        string $serviceTypeCode,
+        ?Carbon $at = null
     ): array {
         // 1. Find active service type by code
         $serviceType = ServiceType::byCode($serviceTypeCode)
@@ -247,7 +253,7 @@ public function resolveByStaffEmailAndServiceType(
         // 3. Query staff_price_codes for active, valid price
         $priceCode = StaffPriceCode::forStaffAndServiceType($staffProfile->id, $serviceType->id)
             ->active()
-            ->validAt(Carbon::now())
+            ->validAt($at ?? Carbon::now())
             ->orderBy('valid_from', 'desc')
             ->first();
 
@@ -271,12 +277,14 @@ public function resolveByStaffEmailAndServiceType(
      *
      * @param int $staffProfileId
      * @param int $serviceTypeId
+     * @param Carbon|null $at Date the price applies to, the session start (defaults to now)
      * @return array{entry_fee_brutto: int, trainer_fee_brutto: int, currency: string, source: string, price_code?: string}
      * @throws MissingPricingException
      */
     public function resolveByStaffAndServiceType(
         int $staffProfileId,
-        int $serviceTypeId
+        int $serviceTypeId,
+        ?Carbon $at = null
     ): array {
         $serviceType = ServiceType::find($serviceTypeId);
 
@@ -287,7 +295,7 @@ public function resolveByStaffAndServiceType(
         // Query staff_price_codes for active, valid price
         $priceCode = StaffPriceCode::forStaffAndServiceType($staffProfileId, $serviceTypeId)
             ->active()
-            ->validAt(Carbon::now())
+            ->validAt($at ?? Carbon::now())
             ->orderBy('valid_from', 'desc')
             ->first();
 
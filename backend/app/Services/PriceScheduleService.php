@@ -0,0 +1,152 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\ClientPriceCode;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Schedules future-dated price changes of client price codes.
+ *
+ * The price code a client has on the effective date is closed one second before it,
+ * and a copy with the changed fees takes over from the effective date. The resolver
+ * keeps using the current code until then, so a change can be scheduled weeks ahead.
+ */
+class PriceScheduleService
+{
+    public const MODE_PERCENT = 'percent';
+    public const MODE_AMOUNT = 'amount';
+
+    public const SKIP_ALREADY_SCHEDULED = 'already_scheduled';
+    public const SKIP_NOT_SELECTED = 'not_selected';
+
+    /**
+     * One row per client with an active price code for the service type on the effective date
+     *
+     * @return Collection<int, array<string, mixed>>
+     */
+    public function preview(
+        int $serviceTypeId,
+        Carbon $effectiveFrom,
+        string $mode,
+        float $entryFeeChange,
+        float $trainerFeeChange
+    ): Collection {
+        $effectiveFrom = $effectiveFrom->copy()->startOfDay();
+
+        $codes = ClientPriceCode::where('service_type_id', $serviceTypeId)
+            ->active()
+            ->with('client.user')
+            ->get()
+            ->groupBy('client_id');
+
+        return $codes
+            ->map(function (Collection $clientCodes) use ($effectiveFrom, $mode, $entryFeeChange, $trainerFeeChange) {
+                $current = $clientCodes
+                    ->filter(fn (ClientPriceCode $code) => $code->valid_from->lte($effectiveFrom)
+                        && ($code->valid_until === null || $code->valid_until->gte($effectiveFrom)))
+                    ->sortByDesc('valid_from')
+                    ->first();
+
+                if ($current === null) {
+                    return null;
+                }
+
+                $scheduled = $clientCodes->first(fn (ClientPriceCode $code) => $code->valid_from->gte($effectiveFrom));
+
+                return [
+                    'client_id' => $current->client_id,
+                    'client_name' => $current->client?->user?->name ?? $current->client?->full_name ?? 'Unknown',
+                    'price_code_id' => $current->id,
+                    'price_code' => $current->price_code,
+                    'valid_from' => $current->valid_from->toDateString(),
+                    'valid_until' => $current->valid_until?->toDateString(),
+                    'currency' => $current->currency,
+                    'current_entry_fee_brutto' => $current->entry_fee_brutto,
+                    'current_trainer_fee_brutto' => $current->trainer_fee_brutto,
+                    'new_entry_fee_brutto' => $this->changed($current->entry_fee_brutto, $mode, $entryFeeChange),
+                    'new_trainer_fee_brutto' => $this->changed($current->trainer_fee_brutto, $mode, $trainerFeeChange),
+                    'skip_reason' => $scheduled ? self::SKIP_ALREADY_SCHEDULED : null,
+                ];
+            })
+            ->filter()
+            ->sortBy('client_name')
+            ->values();
+    }
+
+    /**
+     * Schedule the change for the given clients (all eligible clients when null)
+     *
+     * @param int[]|null $clientIds
+     * @return array{created: array, skipped: array}
+     */
+    public function schedule(
+        int $serviceTypeId,
+        Carbon $effectiveFrom,
+        string $mode,
+        float $entryFeeChange,
+        float $trainerFeeChange,
+        ?array $clientIds,
+        User $createdBy
+    ): array {
+        $effectiveFrom = $effectiveFrom->copy()->startOfDay();
+        $rows = $this->preview($serviceTypeId, $effectiveFrom, $mode, $entryFeeChange, $trainerFeeChange);
+
+        $created = [];
+        $skipped = [];
+
+        DB::transaction(function () use ($rows, $clientIds, $effectiveFrom, $createdBy, &$created, &$skipped) {
+            foreach ($rows as $row) {
+                if ($clientIds !== null && !in_array($row['client_id'], $clientIds, true)) {
+                    continue;
+                }
+
+                if ($row['skip_reason'] !== null) {
+                    $skipped[] = ['client_id' => $row['client_id'], 'client_name' => $row['client_name'], 'reason' => $row['skip_reason']];
+                    continue;
+                }
+
+                $current = ClientPriceCode::findOrFail($row['price_code_id']);
+
+                $next = $current->replicate(['created_at', 'updated_at']);
+                $next->fill([
+                    'entry_fee_brutto' => $row['new_entry_fee_brutto'],
+                    'trainer_fee_brutto' => $row['new_trainer_fee_brutto'],
+                    'valid_from' => $effectiveFrom,
+                    'valid_until' => $current->valid_until,
+                    'created_by' => $createdBy->id,
+                ]);
+
+                $current->update(['valid_until' => $effectiveFrom->copy()->subSecond()]);
+                $next->save();
+
+                $created[] = [
+                    'client_id' => $row['client_id'],
+                    'client_name' => $row['client_name'],
+                    'price_code_id' => $next->id,
+                    'entry_fee_brutto' => $next->entry_fee_brutto,
+                    'trainer_fee_brutto' => $next->trainer_fee_brutto,
+                ];
+            }
+        });
+
+        return [
+            'created' => $created,
+            'skipped' => $skipped,
+        ];
+    }
+
+    private function changed(int $fee, string $mode, float $change): int
+    {
+        $value = $mode === self::MODE_PERCENT
+            ? $fee * (1 + $change / 100)
+            : $fee + $change;
+
+        return max(0, (int) round($value));
+    }
+}
@@ -0,0 +1,173 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Exceptions\LockedResourceException;
+use App\Models\ClientPriceCode;
+use App\Models\Event;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+/**
+ * Finds 1:1 events whose stored pricing is missing or suspicious and re-resolves them.
+ *
+ * An event is reported when
+ * - it has no service type, so no price can be resolved at all (no_service_type),
+ * - it has no price source or no fees stored (missing_price),
+ * - it fell back to the service type default although the client had an active price
+ *   code for that service type valid at the session (unexpected_fallback).
+ */
+class PricingAnomalyService
+{
+    public const NO_SERVICE_TYPE = 'no_service_type';
+    public const MISSING_PRICE = 'missing_price';
+    public const UNEXPECTED_FALLBACK = 'unexpected_fallback';
+
+    public function __construct(
+        private readonly EventPricingService $eventPricingService
+    ) {}
+
+    /**
+     * Events with pricing anomalies in the period, oldest first
+     *
+     * @return Collection<int, array<string, mixed>>
+     */
+    public function find(Carbon $from, Carbon $to, ?int $clientId = null, ?int $serviceTypeId = null): Collection
+    {
+        $events = Event::where('type', 'INDIVIDUAL')
+            ->whereNotNull('client_id')
+            ->where('status', '!=', 'cancelled')
+            ->whereBetween('starts_at', [$from, $to])
+            ->when($clientId, fn ($query) => $query->where('client_id', $clientId))
+            ->when($serviceTypeId, fn ($query) => $query->where('service_type_id', $serviceTypeId))
+            ->where(fn ($query) => $query
+                ->whereNull('service_type_id')
+                ->orWhereNull('price_source')
+                ->orWhere(fn ($query) => $query->whereNull('entry_fee_brutto')->whereNull('trainer_fee_brutto'))
+                ->orWhere('price_source', 'service_type_default'))
+            ->with(['client.user', 'serviceType', 'staff.user'])
+            ->orderBy('starts_at')
+            ->get();
+
+        // Active price codes of the clients that fell back to a service type default
+        $priceCodes = ClientPriceCode::whereIn('client_id', $events->pluck('client_id')->unique())
+            ->whereIn('service_type_id', $events->pluck('service_type_id')->filter()->unique())
+            ->active()
+            ->orderByDesc('valid_from')
+            ->get()
+            ->groupBy(fn (ClientPriceCode $code) => $code->client_id . ':' . $code->service_type_id);
+
+        return $events
+            ->map(function (Event $event) use ($priceCodes) {
+                // The code the resolver would pick at the session, as in PriceCodeService
+                $priceCode = $priceCodes->get($event->client_id . ':' . $event->service_type_id)?->first(
+                    fn (ClientPriceCode $code) => $code->valid_from?->lte($event->starts_at)
+                        && ($code->valid_until === null || $code->valid_until->gte($event->starts_at))
+                );
+                $anomaly = $this->anomalyOf($event, $priceCode);
+
+                return $anomaly === null ? null : $this->present($event, $anomaly, $priceCode);
+            })
+            ->filter()
+            ->values();
+    }
+
+    /**
+     * Re-resolve the stored pricing of the given events from the price codes valid at each session
+     *
+     * @param int[] $eventIds
+     * @return array{updated: array, unchanged: int[], failed: array}
+     */
+    public function reResolve(array $eventIds): array
+    {
+        $updated = [];
+        $unchanged = [];
+        $failed = [];
+
+        foreach (Event::whereKey($eventIds)->get() as $event) {
+            if (!$event->service_type_id || !$event->client_id) {
+                $failed[] = ['event_id' => $event->id, 'reason' => self::NO_SERVICE_TYPE];
+                continue;
+            }
+
+            $pricing = $this->eventPricingService->resolvePricingForClient($event->client_id, $event->service_type_id, $event->starts_at);
+
+            $event->fill($pricing);
+            if (!$event->isDirty()) {
+                $unchanged[] = $event->id;
+                continue;
+            }
+
+            try {
+                $event->save();
+            } catch (LockedResourceException $e) {
+                $failed[] = ['event_id' => $event->id, 'reason' => 'locked'];
+                continue;
+            }
+
+            $updated[] = ['event_id' => $event->id] + $pricing;
+        }
+
+        return [
+            'updated' => $updated,
+            'unchanged' => $unchanged,
+            'failed' => $failed,
+        ];
+    }
+
+    private function anomalyOf(Event $event, ?ClientPriceCode $priceCode): ?string
+    {
+        if (!$event->service_type_id) {
+            return self::NO_SERVICE_TYPE;
+        }
+
+        if ($event->price_source === null || ($event->entry_fee_brutto === null && $event->trainer_fee_brutto === null)) {
+            return self::MISSING_PRICE;
+        }
+
+        if ($event->price_source === 'service_type_default' && $priceCode !== null) {
+            return self::UNEXPECTED_FALLBACK;
+        }
+
+        return null;
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function present(Event $event, string $anomaly, ?ClientPriceCode $priceCode): array
+    {
+        return [
+            'event_id' => $event->id,
+            'starts_at' => $event->starts_at->toIso8601String(),
+            'status' => $event->status,
+            'anomaly' => $anomaly,
+            'client' => [
+                'id' => $event->client_id,
+                'name' => $event->client?->user?->name ?? $event->client?->full_name ?? 'Unknown',
+            ],
+            'service_type' => $event->serviceType ? [
+                'id' => $event->serviceType->id,
+                'code' => $event->serviceType->code,
+                'name' => $event->serviceType->name,
+            ] : null,
+            'staff_name' => $event->staff?->user?->name,
+            'entry_fee_brutto' => $event->entry_fee_brutto,
+            'trainer_fee_brutto' => $event->trainer_fee_brutto,
+            'currency' => $event->currency,
+            'price_source' => $event->price_source,
+            'pricing_id' => $event->pricing_id,
+            'expected_price_code' => $priceCode ? [
+                'id' => $priceCode->id,
+                'price_code' => $priceCode->price_code,
+                'entry_fee_brutto' => $priceCode->entry_fee_brutto,
+                'trainer_fee_brutto' => $priceCode->trainer_fee_brutto,
+                'is_active' => $priceCode->is_active,
+                'valid_from' => $priceCode->valid_from?->toDateString(),
+                'valid_until' => $priceCode->valid_until?->toDateString(),
+            ] : null,
+        ];
+    }
+}
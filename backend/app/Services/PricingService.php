@@ -101,13 +101,17 @@ public function resolvePrice(Client $client, ClassOccurrence $occurrence, ?Carbo
      * @param int $trainerId
      * @param Carbon $periodStart
      * @param Carbon $periodEnd
-     * @return array{total_trainer_fee: int, total_entry_fee: int, items: array}
+     * Registrations without a resolvable price are left out of the totals and listed
+     * under missing_pricing.
+     *
+     * @return array{total_trainer_fee: int, total_entry_fee: int, items: array, missing_pricing: array}
      */
     public function calculateSettlementForTrainer(int $trainerId, Carbon $periodStart, Carbon $periodEnd): array
     {
         $totalTrainerFee = 0;
         $totalEntryFee = 0;
         $items = [];
+        $missingPricing = [];
 
         // ========================================
         // 1. Individual Events (1:1 sessions)
@@ -199,6 +203,16 @@ public function calculateSettlementForTrainer(int $trainerId, Carbon $periodStar
                         'client_id' => $registration->client_id,
                         'error' => $e->getMessage(),
                     ]);
+
+                    $missingPricing[] = [
+                        'class_occurrence_id' => $occurrence->id,
+                        'class_template_id' => $occurrence->template_id,
+                        'client_id' => $registration->client_id,
+                        'registration_id' => $registration->id,
+                        'class_name' => $occurrence->template->title ?? 'Unknown',
+                        'client_name' => $registration->client->full_name ?? 'Unknown',
+                        'class_date' => $occurrence->starts_at->toIso8601String(),
+                    ];
                 }
             }
         }
@@ -207,6 +221,7 @@ public function calculateSettlementForTrainer(int $trainerId, Carbon $periodStar
             'total_trainer_fee' => $totalTrainerFee,
             'total_entry_fee' => $totalEntryFee,
             'items' => $items,
+            'missing_pricing' => $missingPricing,
         ];
     }
 
@@ -0,0 +1,210 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Event;
+use App\Models\EventChange;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Support\Facades\DB;
+
+class RecurringEventService
+{
+    public const SCOPE_THIS = 'this';
+    public const SCOPE_FOLLOWING = 'following';
+    public const SCOPE_ALL = 'all';
+
+    public const SCOPES = [self::SCOPE_THIS, self::SCOPE_FOLLOWING, self::SCOPE_ALL];
+
+    public function __construct(
+        private readonly ConflictDetectionService $conflictService,
+        private readonly NotificationService $notificationService,
+        private readonly StaffAvailabilityService $availabilityService
+    ) {}
+
+    /**
+     * Resolve the events of a recurring series affected by a scoped change.
+     *
+     * "this" only returns the anchor event, "following" the anchor and every
+     * later event, "all" the whole series. Past events are left untouched
+     * unless $includePast is set (admin).
+     *
+     * @return Collection<int, Event>
+     */
+    public function resolveScope(string $groupId, string $scope, ?Event $anchor, bool $includePast = false): Collection
+    {
+        if ($scope === self::SCOPE_THIS) {
+            return new Collection($anchor ? [$anchor] : []);
+        }
+
+        return Event::inRecurringGroup($groupId)
+            ->when(
+                $scope === self::SCOPE_FOLLOWING && $anchor,
+                fn ($q) => $q->where('starts_at', '>=', $anchor->starts_at)
+            )
+            ->when(!$includePast, fn ($q) => $q->where('starts_at', '>', now()))
+            ->orderBy('starts_at')
+            ->get();
+    }
+
+    /**
+     * Plan the new slot of every event when the anchor event is moved.
+     *
+     * The time shift and new duration of the anchor are applied to each event,
+     * so every event keeps its own date relative to the anchor.
+     *
+     * @param Collection<int, Event> $events
+     * @return array<int, array{starts_at: Carbon, ends_at: Carbon, room_id: int}>
+     */
+    public function planChanges(Collection $events, Event $anchor, array $changes): array
+    {
+        $shiftMinutes = isset($changes['starts_at'])
+            ? $anchor->starts_at->diffInMinutes(Carbon::parse($changes['starts_at']), false)
+            : 0;
+
+        $newAnchorStart = $anchor->starts_at->copy()->addMinutes((int) $shiftMinutes);
+        $durationMinutes = isset($changes['ends_at'])
+            ? $newAnchorStart->diffInMinutes(Carbon::parse($changes['ends_at']))
+            : null;
+
+        $plan = [];
+        foreach ($events as $event) {
+            $startsAt = $event->starts_at->copy()->addMinutes((int) $shiftMinutes);
+            $endsAt = $durationMinutes !== null
+                ? $startsAt->copy()->addMinutes((int) $durationMinutes)
+                : $event->ends_at->copy()->addMinutes((int) $shiftMinutes);
+
+            $plan[$event->id] = [
+                'starts_at' => $startsAt,
+                'ends_at' => $endsAt,
+                'room_id' => (int) ($changes['room_id'] ?? $event->room_id),
+            ];
+        }
+
+        return $plan;
+    }
+
+    /**
+     * Collect room conflicts of a planned series change.
+     *
+     * @param array<int, array{starts_at: Carbon, ends_at: Carbon, room_id: int}> $plan
+     * @return array<int, array<string, mixed>>
+     */
+    public function detectConflicts(array $plan): array
+    {
+        $conflicts = [];
+        foreach ($plan as $eventId => $slot) {
+            $eventConflicts = $this->conflictService->detectConflicts(
+                roomId: $slot['room_id'],
+                startsAt: $slot['starts_at'],
+                endsAt: $slot['ends_at'],
+                excludeEventId: $eventId
+            );
+
+            // Events of the same series moving together don't conflict with each other
+            $eventConflicts = array_filter(
+                $eventConflicts,
+                fn ($conflict) => !($conflict['event_type'] === 'event' && isset($plan[$conflict['event_id']]))
+            );
+
+            foreach ($eventConflicts as $conflict) {
+                $conflicts[] = array_merge($conflict, ['for_event_id' => $eventId]);
+            }
+        }
+
+        return $conflicts;
+    }
+
+    /**
+     * Collect trainer availability and site opening hours warnings of a planned series change.
+     *
+     * @param Collection<int, Event> $events
+     * @param array<int, array{starts_at: Carbon, ends_at: Carbon, room_id: int}> $plan
+     * @return array<int, array<string, mixed>>
+     */
+    public function checkAvailability(Collection $events, array $plan): array
+    {
+        $warnings = [];
+        foreach ($events as $event) {
+            $slot = $plan[$event->id];
+
+            foreach ($this->availabilityService->check($event->staff_id, $slot['room_id'], $slot['starts_at'], $slot['ends_at']) as $warning) {
+                $warnings[] = array_merge($warning, ['for_event_id' => $event->id]);
+            }
+        }
+
+        return $warnings;
+    }
+
+    /**
+     * Apply a planned change (time, room, notes) to the events of a series.
+     *
+     * @param Collection<int, Event> $events
+     * @param array<int, array{starts_at: Carbon, ends_at: Carbon, room_id: int}> $plan
+     * @return Collection<int, Event>
+     */
+    public function updateEvents(Collection $events, array $plan, array $changes, User $user): Collection
+    {
+        return DB::transaction(function () use ($events, $plan, $changes, $user) {
+            foreach ($events as $event) {
+                $oldData = $event->only(['starts_at', 'ends_at', 'room_id', 'notes']);
+
+                $data = $plan[$event->id];
+                if (array_key_exists('notes', $changes)) {
+                    $data['notes'] = $changes['notes'];
+                }
+                $data['updated_by'] = $user->id;
+
+                $event->update($data);
+
+                EventChange::create([
+                    'event_id' => $event->id,
+                    'by_user_id' => $user->id,
+                    'action' => 'updated',
+                    'meta' => [
+                        'old' => $oldData,
+                        'new' => $event->only(['starts_at', 'ends_at', 'room_id', 'notes']),
+                        'recurring_group_id' => $event->recurring_group_id,
+                    ],
+                    'created_at' => now(),
+                ]);
+
+                $this->notificationService->sendEventUpdate($event);
+            }
+
+            return $events;
+        });
+    }
+
+    /**
+     * Soft delete the events of a series, log and notify each client.
+     *
+     * @param Collection<int, Event> $events
+     */
+    public function deleteEvents(Collection $events, User $user): int
+    {
+        return DB::transaction(function () use ($events, $user) {
+            foreach ($events as $event) {
+                $event->delete();
+
+                EventChange::create([
+                    'event_id' => $event->id,
+                    'by_user_id' => $user->id,
+                    'action' => 'deleted',
+                    'meta' => [
+                        'deleted_at' => now()->toIso8601String(),
+                        'recurring_group_id' => $event->recurring_group_id,
+                    ],
+                    'created_at' => now(),
+                ]);
+
+                $this->notificationService->sendEventCancellation($event);
+            }
+
+            return $events->count();
+        });
+    }
+}
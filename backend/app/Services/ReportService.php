@@ -23,6 +23,10 @@
  */
 class ReportService
 {
+    public function __construct(
+        private readonly ClientLedgerService $ledgerService
+    ) {}
+
     /**
      * Trainer Summary Aggregation
      *
@@ -748,9 +752,28 @@ public function generateAdminFinanceOverview(
             'currency' => 'HUF',
         ];
 
+        // Same KPIs for the previous period (e.g. the previous month)
+        [$previousFrom, $previousTo] = $this->previousPeriod($fromDate, $toDate);
+        $previousData = $this->trends([
+            'from' => $previousFrom,
+            'to' => $previousTo,
+            'granularity' => 'month',
+        ]);
+        $previousEntryFee = (float) $previousData->sum('total_entry_fee');
+        $previousTrainerFee = (float) $previousData->sum('total_trainer_fee');
+
         return [
             'summary' => $summary,
             'periods' => $periods,
+            'breakdown' => $this->financeBreakdown($fromDate, $toDate),
+            'comparison' => [
+                'from' => $previousFrom->toDateString(),
+                'to' => $previousTo->toDateString(),
+                'total_entry_fee' => $previousEntryFee,
+                'total_trainer_fee' => $previousTrainerFee,
+                'net_income' => $previousEntryFee - $previousTrainerFee,
+                'total_sessions' => (int) $previousData->sum('total_sessions'),
+            ],
             'filters' => [
                 'from' => $from,
                 'to' => $to,
@@ -759,6 +782,333 @@ public function generateAdminFinanceOverview(
         ];
     }
 
+    /**
+     * Generate Admin Trainer Sessions Report
+     *
+     * Charged (attended or no-show) 1:1 sessions and group classes of a trainer, the
+     * session level of the finance overview drilldown (site → trainer → session)
+     *
+     * @param string $from Start date (Y-m-d)
+     * @param string $to End date (Y-m-d)
+     * @param int $trainerId Staff profile ID
+     * @param int|null $siteId Filter by site
+     * @return array
+     */
+    public function generateAdminTrainerSessions(
+        string $from,
+        string $to,
+        int $trainerId,
+        ?int $siteId = null
+    ): array {
+        $fromDate = Carbon::parse($from)->startOfDay();
+        $toDate = Carbon::parse($to)->endOfDay();
+        $inSite = fn ($q) => $q->where('site_id', $siteId);
+
+        $events = Event::with(['client.user', 'room', 'serviceType'])
+            ->where('staff_id', $trainerId)
+            ->whereBetween('starts_at', [$fromDate, $toDate])
+            ->whereIn('attendance_status', ['attended', 'no_show'])
+            ->when($siteId, fn ($q) => $q->whereHas('room', $inSite))
+            ->orderBy('starts_at')
+            ->get();
+
+        $occurrences = ClassOccurrence::with([
+            'template',
+            'room',
+            'registrations' => fn ($q) => $q->whereIn('status', ['attended', 'no_show']),
+            'registrations.settlementItems',
+        ])
+            ->where('trainer_id', $trainerId)
+            ->whereBetween('starts_at', [$fromDate, $toDate])
+            ->whereHas('registrations', fn ($q) => $q->whereIn('status', ['attended', 'no_show']))
+            ->when($siteId, fn ($q) => $q->whereHas('room', $inSite))
+            ->orderBy('starts_at')
+            ->get();
+
+        // Same shapes as the payouts report (IndividualSessionDetail / GroupSessionDetail)
+        $individualSessions = $events->map(fn (Event $event) => [
+            'id' => $event->id,
+            'date' => $event->starts_at->format('Y-m-d'),
+            'time' => $event->starts_at->format('H:i') . ' - ' . $event->ends_at->format('H:i'),
+            'client_name' => $event->client?->user?->name ?? '-',
+            'service_type' => $event->serviceType?->name ?? '-',
+            'room' => $event->room?->name ?? '-',
+            'entry_fee' => $event->entry_fee_brutto ?? 0,
+            'trainer_fee' => $event->trainer_fee_brutto ?? 0,
+            'total_fee' => ($event->entry_fee_brutto ?? 0) + ($event->trainer_fee_brutto ?? 0),
+            'attendance_status' => $event->attendance_status,
+        ])->values();
+
+        $groupSessions = $occurrences->map(function (ClassOccurrence $occurrence) {
+            $items = $occurrence->registrations->flatMap->settlementItems;
+
+            return [
+                'id' => $occurrence->id,
+                'date' => $occurrence->starts_at->format('Y-m-d'),
+                'time' => $occurrence->starts_at->format('H:i') . ' - ' . $occurrence->ends_at->format('H:i'),
+                'class_name' => $occurrence->template?->name ?? 'Ismeretlen óra',
+                'room' => $occurrence->room?->name ?? '-',
+                'participants' => $occurrence->registrations->count(),
+                'entry_fee' => (int) $items->sum('entry_fee_brutto'),
+                'trainer_fee' => (int) $items->sum('trainer_fee_brutto'),
+            ];
+        })->values();
+
+        $trainer = StaffProfile::with('user')->find($trainerId);
+        $site = $siteId ? \App\Models\Site::find($siteId) : null;
+
+        return [
+            'summary' => [
+                'trainer_id' => $trainerId,
+                'trainer_name' => $trainer?->user?->name ?? 'Unknown',
+                'site_id' => $siteId,
+                'site_name' => $site?->name,
+                'total_entry_fee' => $individualSessions->sum('entry_fee') + $groupSessions->sum('entry_fee'),
+                'total_trainer_fee' => $individualSessions->sum('trainer_fee') + $groupSessions->sum('trainer_fee'),
+                'individual_count' => $individualSessions->count(),
+                'group_count' => $groupSessions->count(),
+                'currency' => 'HUF',
+            ],
+            'individual_sessions' => $individualSessions,
+            'group_sessions' => $groupSessions,
+            'filters' => [
+                'from' => $from,
+                'to' => $to,
+                'trainer_id' => $trainerId,
+                'site_id' => $siteId,
+            ],
+        ];
+    }
+
+    /**
+     * Generate Admin Room Occupancy Report
+     *
+     * Booked minutes of 1:1 sessions and group classes per weekday × hour, relative to the
+     * room hours available in the period (every day of the range, all matching rooms)
+     *
+     * @param string $from Start date (Y-m-d)
+     * @param string $to End date (Y-m-d)
+     * @param int|null $siteId Filter by site
+     * @param int|null $roomId Filter by room
+     * @return array
+     */
+    public function generateAdminRoomOccupancy(
+        string $from,
+        string $to,
+        ?int $siteId = null,
+        ?int $roomId = null
+    ): array {
+        $fromDate = Carbon::parse($from)->startOfDay();
+        $toDate = Carbon::parse($to)->endOfDay();
+
+        $roomCount = \App\Models\Room::query()
+            ->when($siteId, fn ($q) => $q->where('site_id', $siteId))
+            ->when($roomId, fn ($q) => $q->where('id', $roomId))
+            ->count();
+
+        $inScope = function ($q) use ($siteId, $roomId) {
+            $q->when($roomId, fn ($q) => $q->where('room_id', $roomId))
+                ->when($siteId, fn ($q) => $q->whereHas('room', fn ($r) => $r->where('site_id', $siteId)));
+        };
+
+        $slots = Event::query()
+            ->select(['starts_at', 'ends_at'])
+            ->whereBetween('starts_at', [$fromDate, $toDate])
+            ->where('status', '!=', 'cancelled')
+            ->where($inScope)
+            ->get()
+            ->concat(
+                ClassOccurrence::query()
+                    ->select(['starts_at', 'ends_at'])
+                    ->whereBetween('starts_at', [$fromDate, $toDate])
+                    ->where('status', '!=', 'cancelled')
+                    ->where($inScope)
+                    ->get()
+            );
+
+        // Booked minutes keyed by ISO weekday (1 = Monday) and hour
+        $booked = [];
+        foreach ($slots as $slot) {
+            $cursor = $slot->starts_at->copy();
+            while ($cursor->lt($slot->ends_at)) {
+                $hourEnd = $cursor->copy()->startOfHour()->addHour()->min($slot->ends_at);
+                $key = $cursor->dayOfWeekIso . '-' . $cursor->hour;
+                $booked[$key] = ($booked[$key] ?? 0) + $cursor->diffInMinutes($hourEnd);
+                $cursor = $hourEnd;
+            }
+        }
+
+        // How many times each weekday occurs in the range
+        $weekdayCounts = array_fill(1, 7, 0);
+        for ($day = $fromDate->copy(); $day->lte($toDate); $day->addDay()) {
+            $weekdayCounts[$day->dayOfWeekIso]++;
+        }
+
+        $cells = [];
+        foreach (range(1, 7) as $weekday) {
+            $availableMinutes = $weekdayCounts[$weekday] * $roomCount * 60;
+            foreach (range(0, 23) as $hour) {
+                $minutes = (int) ($booked[$weekday . '-' . $hour] ?? 0);
+                $cells[] = [
+                    'weekday' => $weekday,
+                    'hour' => $hour,
+                    'booked_minutes' => $minutes,
+                    'occupancy_rate' => $availableMinutes > 0 ? round(($minutes / $availableMinutes) * 100, 2) : 0,
+                ];
+            }
+        }
+
+        $peak = collect($cells)->sortByDesc('occupancy_rate')->first();
+
+        return [
+            'summary' => [
+                'room_count' => $roomCount,
+                'total_booked_hours' => round(array_sum($booked) / 60, 2),
+                'peak_weekday' => $peak['booked_minutes'] > 0 ? $peak['weekday'] : null,
+                'peak_hour' => $peak['booked_minutes'] > 0 ? $peak['hour'] : null,
+                'peak_occupancy_rate' => $peak['occupancy_rate'],
+            ],
+            'cells' => $cells,
+            'filters' => [
+                'from' => $from,
+                'to' => $to,
+                'site' => $siteId,
+                'room_id' => $roomId,
+            ],
+        ];
+    }
+
+    /**
+     * Entry and trainer fee totals per site (with its trainers), room and service type
+     *
+     * Counts the same sessions as trends(): attended and no-show 1:1 sessions and class
+     * registrations, so the breakdowns add up to the finance overview summary.
+     * Group classes have no service type and are listed as "Csoportos órák".
+     */
+    private function financeBreakdown(Carbon $from, Carbon $to): array
+    {
+        $eventRows = Event::query()
+            ->select([
+                'room_id',
+                'service_type_id',
+                'staff_id as trainer_id',
+                DB::raw('COUNT(*) as total_sessions'),
+                DB::raw('SUM(COALESCE(entry_fee_brutto, 0)) as total_entry_fee'),
+                DB::raw('SUM(COALESCE(trainer_fee_brutto, 0)) as total_trainer_fee'),
+            ])
+            ->whereBetween('starts_at', [$from, $to])
+            ->whereIn('attendance_status', ['attended', 'no_show'])
+            ->groupBy('room_id', 'service_type_id', 'staff_id')
+            ->get();
+
+        $registrationRows = ClassRegistration::query()
+            ->select([
+                'co.room_id',
+                DB::raw('NULL as service_type_id'),
+                'co.trainer_id',
+                DB::raw('COUNT(*) as total_sessions'),
+                DB::raw('SUM(COALESCE(si.entry_fee_brutto, 0)) as total_entry_fee'),
+                DB::raw('SUM(COALESCE(si.trainer_fee_brutto, 0)) as total_trainer_fee'),
+            ])
+            ->join('class_occurrences as co', 'class_registrations.occurrence_id', '=', 'co.id')
+            ->leftJoin('settlement_items as si', 'class_registrations.id', '=', 'si.registration_id')
+            ->whereBetween('co.starts_at', [$from, $to])
+            ->whereIn('class_registrations.status', ['attended', 'no_show'])
+            ->groupBy('co.room_id', 'co.trainer_id')
+            ->get();
+
+        $rows = $eventRows->concat($registrationRows)->map(fn ($row) => [
+            'room_id' => $row->room_id,
+            'service_type_id' => $row->service_type_id,
+            'trainer_id' => $row->trainer_id,
+            'total_sessions' => (int) $row->total_sessions,
+            'total_entry_fee' => (float) $row->total_entry_fee,
+            'total_trainer_fee' => (float) $row->total_trainer_fee,
+        ]);
+
+        $rooms = \App\Models\Room::with('site')->whereIn('id', $rows->pluck('room_id')->unique()->filter())->get()->keyBy('id');
+        $serviceTypes = ServiceType::whereIn('id', $rows->pluck('service_type_id')->unique()->filter())->get()->keyBy('id');
+        $trainers = StaffProfile::with('user')->whereIn('id', $rows->pluck('trainer_id')->unique()->filter())->get()->keyBy('id');
+
+        $rows = $rows->map(fn (array $row) => $row + [
+            'site_id' => $rooms->get($row['room_id'])?->site_id,
+        ]);
+
+        $totals = fn (Collection $group) => [
+            'total_entry_fee' => $group->sum('total_entry_fee'),
+            'total_trainer_fee' => $group->sum('total_trainer_fee'),
+            'net_income' => $group->sum('total_entry_fee') - $group->sum('total_trainer_fee'),
+            'total_sessions' => $group->sum('total_sessions'),
+        ];
+
+        $byFees = fn (array $a, array $b) => $b['total_entry_fee'] <=> $a['total_entry_fee'];
+
+        $sites = $rows->groupBy(fn (array $row) => (string) $row['site_id'])->map(function (Collection $group) use ($rooms, $trainers, $totals, $byFees) {
+            $room = $rooms->get($group->first()['room_id']);
+
+            return [
+                'id' => $room?->site_id,
+                'name' => $room?->site?->name ?? 'Unknown',
+                ...$totals($group),
+                'trainers' => $group->groupBy('trainer_id')->map(fn (Collection $trainerRows, $trainerId) => [
+                    'id' => (int) $trainerId,
+                    'name' => $trainers->get($trainerId)?->user?->name ?? 'Unknown',
+                    ...$totals($trainerRows),
+                ])->sort($byFees)->values(),
+            ];
+        })->sort($byFees)->values();
+
+        $roomTotals = $rows->groupBy(fn (array $row) => (string) $row['room_id'])->map(function (Collection $group) use ($rooms, $totals) {
+            $room = $rooms->get($group->first()['room_id']);
+
+            return [
+                'id' => $room?->id,
+                'name' => $room?->name ?? 'Unknown',
+                'site_name' => $room?->site?->name ?? 'Unknown',
+                ...$totals($group),
+            ];
+        })->sort($byFees)->values();
+
+        $serviceTypeTotals = $rows->groupBy(fn (array $row) => (string) $row['service_type_id'])->map(function (Collection $group) use ($serviceTypes, $totals) {
+            $serviceTypeId = $group->first()['service_type_id'];
+
+            return [
+                'id' => $serviceTypeId,
+                'name' => $serviceTypeId === null ? 'Csoportos órák' : ($serviceTypes->get($serviceTypeId)?->name ?? 'Unknown'),
+                ...$totals($group),
+            ];
+        })->sort($byFees)->values();
+
+        return [
+            'sites' => $sites,
+            'rooms' => $roomTotals,
+            'service_types' => $serviceTypeTotals,
+        ];
+    }
+
+    /**
+     * The period preceding a date range: the previous calendar month for a whole month,
+     * otherwise the same number of days right before the range
+     *
+     * @return array{0: Carbon, 1: Carbon}
+     */
+    private function previousPeriod(Carbon $from, Carbon $to): array
+    {
+        if ($from->isSameDay($from->copy()->startOfMonth())
+            && $to->isSameDay($from->copy()->endOfMonth())) {
+            $previousFrom = $from->copy()->subMonthNoOverflow()->startOfMonth();
+
+            return [$previousFrom, $previousFrom->copy()->endOfMonth()];
+        }
+
+        $days = (int) $from->copy()->startOfDay()->diffInDays($to->copy()->startOfDay()) + 1;
+
+        return [
+            $from->copy()->subDays($days)->startOfDay(),
+            $from->copy()->subDay()->endOfDay(),
+        ];
+    }
+
     // =========================================================================
     // STAFF REPORT METHODS (Scoped to authenticated staff member)
     // =========================================================================
@@ -1295,10 +1645,23 @@ public function generateClientMyFinance(
                 ];
             });
 
+        $sessions = $this->clientFinanceSessions($clientId, $fromDate, $toDate);
+        $summary['total_session_charges'] = $sessions->sum('entry_fee');
+
+        $client = Client::findOrFail($clientId);
+        $ledger = $this->ledgerService->ledger($client);
+
         return [
             'summary' => $summary,
             'breakdown' => $breakdown,
             'active_passes' => $activePasses,
+            'sessions' => $sessions->values(),
+            'passes' => $passes->sortByDesc('created_at')->map(fn ($pass) => $this->clientPassSummary($pass))->values(),
+            'balance' => [
+                'charges' => $ledger['totals']['charges'],
+                'payments' => $ledger['totals']['payments'],
+                'outstanding' => $ledger['totals']['balance'],
+            ],
             'filters' => [
                 'from' => $from,
                 'to' => $to,
@@ -1306,4 +1669,99 @@ public function generateClientMyFinance(
             ],
         ];
     }
+
+    /**
+     * Sessions of a client in the period with what they were charged for each.
+     *
+     * Sessions paid with a pass credit have no entry fee; 1:1 sessions are charged their
+     * stored entry fee, group classes booked onto the balance their booking price.
+     */
+    private function clientFinanceSessions(int $clientId, Carbon $fromDate, Carbon $toDate): Collection
+    {
+        $events = Event::query()
+            ->where('client_id', $clientId)
+            ->where('type', 'INDIVIDUAL')
+            ->whereNotIn('status', ['cancelled', 'pending'])
+            ->whereBetween('starts_at', [$fromDate, $toDate])
+            ->with(['serviceType', 'room', 'staff.user'])
+            ->get();
+
+        $paidWithPass = \App\Models\PassCreditTransaction::query()
+            ->where('client_id', $clientId)
+            ->where('type', 'deduction')
+            ->whereIn('event_id', $events->pluck('id'))
+            ->pluck('event_id')
+            ->all();
+
+        $eventRows = $events->map(function (Event $event) use ($paidWithPass) {
+            $creditsUsed = in_array($event->id, $paidWithPass, true) ? 1 : 0;
+
+            return [
+                'id' => $event->id,
+                'date' => $event->starts_at->toDateString(),
+                'time' => $event->starts_at->format('H:i'),
+                'type' => 'INDIVIDUAL',
+                'service_name' => $event->serviceType?->name ?? '1:1',
+                'trainer_name' => $event->staff?->user?->name ?? 'Unknown',
+                'room_name' => $event->room?->name ?? '',
+                'credits_used' => $creditsUsed,
+                'attendance_status' => in_array($event->attendance_status, ['attended', 'no_show'], true) ? $event->attendance_status : null,
+                'entry_fee' => $creditsUsed > 0 ? 0 : (int) ($event->entry_fee_brutto ?? 0),
+                'payment_status' => null,
+            ];
+        });
+
+        $registrationRows = ClassRegistration::query()
+            ->where('client_id', $clientId)
+            ->whereIn('status', ['booked', 'attended', 'no_show'])
+            ->whereHas('occurrence', fn ($q) => $q->whereBetween('starts_at', [$fromDate, $toDate]))
+            ->with(['occurrence.template', 'occurrence.room', 'occurrence.trainer.user'])
+            ->get()
+            ->map(function (ClassRegistration $registration) {
+                $occurrence = $registration->occurrence;
+                $charged = (int) $registration->credits_used === 0
+                    && in_array($registration->payment_status, ['unpaid', 'paid'], true);
+
+                return [
+                    'id' => $registration->id,
+                    'date' => $occurrence->starts_at->toDateString(),
+                    'time' => $occurrence->starts_at->format('H:i'),
+                    'type' => 'GROUP_CLASS',
+                    'service_name' => $occurrence->template?->title ?? 'Csoportos óra',
+                    'trainer_name' => $occurrence->trainer?->user?->name ?? 'Unknown',
+                    'room_name' => $occurrence->room?->name ?? '',
+                    'credits_used' => (int) $registration->credits_used,
+                    'attendance_status' => $registration->status === 'booked' ? null : $registration->status,
+                    'entry_fee' => $charged ? $this->ledgerService->registrationPrice($registration) : 0,
+                    'payment_status' => $registration->payment_status,
+                ];
+            });
+
+        return $eventRows->concat($registrationRows)
+            ->sortBy([['date', 'desc'], ['time', 'desc']]);
+    }
+
+    /**
+     * A pass in the shape of the client pass summary
+     */
+    private function clientPassSummary(\App\Models\Pass $pass): array
+    {
+        $status = match (true) {
+            $pass->status === 'depleted' || $pass->credits_left <= 0 => 'fully_used',
+            $pass->status === 'active' => 'active',
+            default => 'expired',
+        };
+
+        return [
+            'id' => $pass->id,
+            'name' => $pass->type,
+            'purchased_at' => $pass->created_at->toIso8601String(),
+            'expires_at' => $pass->valid_until?->toDateString(),
+            'total_credits' => (int) $pass->total_credits,
+            'remaining_credits' => (int) $pass->credits_left,
+            'price' => (int) ($pass->price ?? 0),
+            'currency' => 'HUF',
+            'status' => $status,
+        ];
+    }
 }
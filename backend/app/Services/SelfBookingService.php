@@ -0,0 +1,271 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Exceptions\ConflictException;
+use App\Models\ClassOccurrence;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\ServiceType;
+use App\Models\Site;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Carbon\CarbonPeriod;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+class SelfBookingService
+{
+    public function __construct(
+        private readonly StaffAvailabilityService $availabilityService,
+        private readonly EventPricingService $pricingService,
+        private readonly NotificationService $notificationService
+    ) {}
+
+    /**
+     * Trainers clients can book online for the given service type.
+     *
+     * Only visible, bookable trainers with weekly working hours are offered. Trainers with
+     * price codes must have an active one for the service type, trainers without any price
+     * code offer every service type.
+     *
+     * @return Collection<int, StaffProfile>
+     */
+    public function bookableTrainers(ServiceType $serviceType): Collection
+    {
+        return $this->bookableTrainersQuery($serviceType)
+            ->with('user:id,name')
+            ->get()
+            ->sortBy(fn (StaffProfile $staff) => $staff->user?->name)
+            ->values();
+    }
+
+    public function isBookable(StaffProfile $staff, ServiceType $serviceType): bool
+    {
+        return $this->bookableTrainersQuery($serviceType)->whereKey($staff->id)->exists();
+    }
+
+    /**
+     * Free session slots of a trainer between two dates (inclusive).
+     *
+     * A slot lies within the trainer's weekly hours, outside their absences, events and
+     * classes, and has at least one room that is free and open at that time.
+     *
+     * @return array<int, array{starts_at: string, ends_at: string, room_id: int, site: string}>
+     */
+    public function slots(StaffProfile $staff, Carbon $from, Carbon $to): array
+    {
+        $timezone = config('app.timezone');
+        $sessionMinutes = (int) config('booking.self_booking.session_minutes', 60);
+        $stepMinutes = max(5, (int) config('booking.self_booking.slot_step_minutes', 30));
+        $earliest = now($timezone)->addHours((int) config('booking.self_booking.min_notice_hours', 12));
+        $latest = now($timezone)->addDays((int) config('booking.self_booking.max_days_ahead', 30))->endOfDay();
+
+        $rangeStart = $from->copy()->setTimezone($timezone)->startOfDay()->max($earliest->copy()->startOfDay());
+        $rangeEnd = $to->copy()->setTimezone($timezone)->endOfDay()->min($latest);
+
+        if ($rangeStart->gt($rangeEnd)) {
+            return [];
+        }
+
+        $staff->load([
+            'availabilities',
+            'availabilityExceptions' => fn ($q) => $q->overlapping($rangeStart->toDateString(), $rangeEnd->toDateString()),
+        ]);
+
+        $trainerBusy = $this->busyTimes($rangeStart, $rangeEnd, 'staff_id', 'trainer_id', [$staff->id]);
+        $rooms = $this->candidateRooms($staff);
+        $roomBusy = $this->busyTimes($rangeStart, $rangeEnd, 'room_id', 'room_id', $rooms->pluck('room_id')->all())
+            ->groupBy('room_id');
+
+        $slots = [];
+
+        foreach (CarbonPeriod::create($rangeStart->copy()->startOfDay(), $rangeEnd->copy()->startOfDay()) as $day) {
+            $ranges = $staff->availabilities
+                ->where('weekday', $day->dayOfWeekIso)
+                ->sortBy('start_time');
+
+            foreach ($ranges as $range) {
+                $cursor = $day->copy()->setTimeFromTimeString((string) $range->start_time);
+                $rangeClose = $day->copy()->setTimeFromTimeString((string) $range->end_time);
+
+                for (; $cursor->copy()->addMinutes($sessionMinutes)->lte($rangeClose); $cursor->addMinutes($stepMinutes)) {
+                    $startsAt = $cursor->copy();
+                    $endsAt = $cursor->copy()->addMinutes($sessionMinutes);
+
+                    if ($startsAt->lt($earliest) || $endsAt->gt($latest)
+                        || $this->overlaps($trainerBusy, $startsAt, $endsAt)
+                        || !$this->availabilityService->isStaffAvailable($staff, $startsAt, $endsAt)) {
+                        continue;
+                    }
+
+                    $room = $rooms->first(fn (array $room) => $this->availabilityService->isOpen($room['opening_hours'], $startsAt, $endsAt)
+                        && !$this->overlaps($roomBusy->get($room['room_id'], collect()), $startsAt, $endsAt));
+
+                    if ($room) {
+                        $slots[] = [
+                            'starts_at' => $startsAt->toIso8601String(),
+                            'ends_at' => $endsAt->toIso8601String(),
+                            'room_id' => $room['room_id'],
+                            'site' => $room['site'],
+                        ];
+                    }
+                }
+            }
+        }
+
+        return $slots;
+    }
+
+    /**
+     * Book a free slot for a client. The session stays pending until the trainer confirms it.
+     *
+     * @throws \InvalidArgumentException When the trainer cannot be booked for the service type
+     * @throws ConflictException When the slot is no longer free
+     */
+    public function book(Client $client, StaffProfile $staff, ServiceType $serviceType, Carbon $startsAt, ?string $notes, User $user): Event
+    {
+        if (!$this->isBookable($staff, $serviceType)) {
+            throw new \InvalidArgumentException('Ez az edző nem foglalható online erre a szolgáltatásra.');
+        }
+
+        return DB::transaction(function () use ($client, $staff, $serviceType, $startsAt, $notes, $user) {
+            // Serializes concurrent bookings of the same trainer
+            StaffProfile::whereKey($staff->id)->lockForUpdate()->first();
+
+            $slot = collect($this->slots($staff, $startsAt, $startsAt))
+                ->first(fn (array $slot) => Carbon::parse($slot['starts_at'])->equalTo($startsAt));
+
+            if (!$slot) {
+                throw new ConflictException('A választott időpont már nem foglalható, kérjük válassz másikat.', [
+                    'conflict_type' => 'slot_unavailable',
+                ]);
+            }
+
+            return Event::create([
+                'type' => 'INDIVIDUAL',
+                'status' => 'pending',
+                'staff_id' => $staff->id,
+                'client_id' => $client->id,
+                'room_id' => $slot['room_id'],
+                'service_type_id' => $serviceType->id,
+                'starts_at' => Carbon::parse($slot['starts_at']),
+                'ends_at' => Carbon::parse($slot['ends_at']),
+                'notes' => $notes,
+                'created_by' => $user->id,
+                ...$this->pricingService->resolvePricingForClient($client->id, $serviceType->id, Carbon::parse($slot['starts_at'])),
+            ]);
+        });
+    }
+
+    /**
+     * Confirm a pending online booking and notify the client.
+     *
+     * @throws \InvalidArgumentException When the event is not pending
+     */
+    public function confirm(Event $event, User $user): Event
+    {
+        $this->ensurePending($event);
+
+        $event->update(['status' => 'scheduled', 'updated_by' => $user->id]);
+        $this->notificationService->sendEventConfirmation($event);
+
+        return $event;
+    }
+
+    /**
+     * Decline a pending online booking and notify the client.
+     *
+     * @throws \InvalidArgumentException When the event is not pending
+     */
+    public function decline(Event $event, User $user): Event
+    {
+        $this->ensurePending($event);
+
+        $event->update(['status' => 'cancelled', 'updated_by' => $user->id]);
+        $this->notificationService->sendEventCancellation($event);
+
+        return $event;
+    }
+
+    private function ensurePending(Event $event): void
+    {
+        if ($event->status !== 'pending') {
+            throw new \InvalidArgumentException('Csak jóváhagyásra váró foglalás hagyható jóvá vagy utasítható el.');
+        }
+    }
+
+    private function bookableTrainersQuery(ServiceType $serviceType): Builder
+    {
+        $today = now()->toDateString();
+
+        return StaffProfile::query()
+            ->where('is_available_for_booking', true)
+            ->where('visibility', true)
+            ->whereHas('availabilities')
+            ->where(function (Builder $q) use ($serviceType, $today) {
+                $q->whereDoesntHave('priceCodes')
+                    ->orWhereHas('priceCodes', fn (Builder $codes) => $codes
+                        ->where('service_type_id', $serviceType->id)
+                        ->where('is_active', true)
+                        ->where(fn (Builder $from) => $from->whereNull('valid_from')->orWhere('valid_from', '<=', $today))
+                        ->where(fn (Builder $until) => $until->whereNull('valid_until')->orWhere('valid_until', '>=', $today)));
+            });
+    }
+
+    /**
+     * Rooms a session can take place in: those of the trainer's default site, or of every
+     * active site when no default is set.
+     *
+     * @return Collection<int, array{room_id: int, site: string, opening_hours: array|null}>
+     */
+    private function candidateRooms(StaffProfile $staff): Collection
+    {
+        $sites = Site::with('rooms:id,site_id')->where('is_active', true)->orderBy('id')->get();
+
+        if ($staff->default_site && $sites->contains('name', $staff->default_site)) {
+            $sites = $sites->where('name', $staff->default_site);
+        }
+
+        return $sites->flatMap(fn (Site $site) => $site->rooms->map(fn ($room) => [
+            'room_id' => $room->id,
+            'site' => $site->name,
+            'opening_hours' => $this->availabilityService->openingHours($site),
+        ]))->values();
+    }
+
+    /**
+     * Non-cancelled events (pending ones included) and class occurrences in the range.
+     *
+     * @param string $eventColumn Column of events matched against $ids
+     * @param string $occurrenceColumn Column of class occurrences matched against $ids
+     * @param array<int, int> $ids
+     */
+    private function busyTimes(Carbon $from, Carbon $to, string $eventColumn, string $occurrenceColumn, array $ids): Collection
+    {
+        $events = Event::query()
+            ->whereIn($eventColumn, $ids)
+            ->where('status', '!=', 'cancelled')
+            ->where('starts_at', '<', $to)
+            ->where('ends_at', '>', $from)
+            ->get(['room_id', 'starts_at', 'ends_at']);
+
+        $occurrences = ClassOccurrence::query()
+            ->whereIn($occurrenceColumn, $ids)
+            ->where('status', '!=', 'cancelled')
+            ->where('starts_at', '<', $to)
+            ->where('ends_at', '>', $from)
+            ->get(['room_id', 'starts_at', 'ends_at']);
+
+        return $events->toBase()->merge($occurrences->toBase());
+    }
+
+    private function overlaps(Collection $busy, Carbon $startsAt, Carbon $endsAt): bool
+    {
+        return $busy->contains(fn ($item) => $item->starts_at->lt($endsAt) && $item->ends_at->gt($startsAt));
+    }
+}
@@ -0,0 +1,298 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\ClassRegistration;
+use App\Models\Event;
+use App\Models\Settlement;
+use App\Models\SettlementItem;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Builds draft settlements from the pricing calculation, for one trainer or for
+ * every active trainer of a month at once ("close the month").
+ *
+ * Settlements reference users.id, while events and class occurrences reference
+ * staff_profiles.id; the methods here take user ids and map them.
+ */
+class SettlementGenerationService
+{
+    public const SKIP_LOCKED = 'locked';
+    public const SKIP_EXISTING = 'existing_settlement';
+    public const SKIP_EMPTY = 'no_items';
+
+    public function __construct(
+        private readonly PricingService $pricingService
+    ) {}
+
+    /**
+     * Pricing calculation of a trainer (users.id) for the period
+     *
+     * @return array{total_trainer_fee: int, total_entry_fee: int, items: array, missing_pricing: array}
+     */
+    public function calculate(int $userId, Carbon $periodStart, Carbon $periodEnd): array
+    {
+        $staffProfileId = StaffProfile::where('user_id', $userId)->value('id') ?? $userId; // Fallback to userId if no profile found
+
+        return $this->pricingService->calculateSettlementForTrainer(
+            (int) $staffProfileId,
+            $periodStart->copy()->startOfDay(),
+            $periodEnd->copy()->endOfDay()
+        );
+    }
+
+    /**
+     * A finalized or paid settlement of the trainer covering (part of) the period
+     */
+    public function lockedOverlap(int $userId, Carbon $periodStart, Carbon $periodEnd): ?Settlement
+    {
+        return Settlement::locked()
+            ->forTrainer($userId)
+            ->overlapping($periodStart->toDateString(), $periodEnd->toDateString())
+            ->first();
+    }
+
+    /**
+     * Store a draft settlement with its group class items
+     */
+    public function createDraft(
+        int $userId,
+        Carbon $periodStart,
+        Carbon $periodEnd,
+        array $calculation,
+        ?string $notes,
+        ?int $createdBy
+    ): Settlement {
+        return DB::transaction(function () use ($userId, $periodStart, $periodEnd, $calculation, $notes, $createdBy) {
+            $settlement = Settlement::create([
+                'trainer_id' => $userId,
+                'period_start' => $periodStart->toDateString(),
+                'period_end' => $periodEnd->toDateString(),
+                'total_trainer_fee' => $calculation['total_trainer_fee'],
+                'total_entry_fee' => $calculation['total_entry_fee'],
+                'status' => 'draft',
+                'notes' => $notes,
+                'created_by' => $createdBy,
+            ]);
+
+            foreach ($calculation['items'] as $item) {
+                // Skip individual events for now (settlement_items table doesn't have event_id column yet)
+                // Individual events are included in totals but not saved as separate items
+                if (empty($item['class_occurrence_id'])) {
+                    continue;
+                }
+
+                SettlementItem::create([
+                    'settlement_id' => $settlement->id,
+                    'class_occurrence_id' => $item['class_occurrence_id'],
+                    'client_id' => $item['client_id'],
+                    'registration_id' => $item['registration_id'] ?? 0,
+                    'entry_fee_brutto' => $item['entry_fee_brutto'],
+                    'trainer_fee_brutto' => $item['trainer_fee_brutto'],
+                    'currency' => $item['currency'],
+                    'status' => $item['status'],
+                ]);
+            }
+
+            return $settlement;
+        });
+    }
+
+    /**
+     * Preview the month of every active trainer: totals, sessions with missing pricing,
+     * past sessions without attendance and the reason a trainer would be skipped.
+     *
+     * @return array<int, array<string, mixed>>
+     */
+    public function previewMonth(Carbon $month): array
+    {
+        [$periodStart, $periodEnd] = $this->monthBounds($month);
+
+        return $this->activeTrainers()
+            ->map(fn (StaffProfile $staffProfile) => Arr::except(
+                $this->previewTrainer($staffProfile, $periodStart, $periodEnd),
+                'calculation'
+            ))
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Generate the drafts of the month. Trainers with a settlement already overlapping
+     * the month, or without anything to settle, are skipped.
+     *
+     * @param int[]|null $trainerIds users.id of the trainers to include; null for every active trainer
+     * @return array{created: array, skipped: array}
+     */
+    public function generateMonth(Carbon $month, ?array $trainerIds, User $by): array
+    {
+        [$periodStart, $periodEnd] = $this->monthBounds($month);
+
+        $created = [];
+        $skipped = [];
+
+        foreach ($this->activeTrainers() as $staffProfile) {
+            if ($trainerIds !== null && !in_array($staffProfile->user_id, $trainerIds, true)) {
+                continue;
+            }
+
+            $row = $this->previewTrainer($staffProfile, $periodStart, $periodEnd);
+
+            if ($row['skip_reason'] !== null) {
+                $skipped[] = [
+                    'trainer_id' => $row['trainer_id'],
+                    'trainer_name' => $row['trainer_name'],
+                    'reason' => $row['skip_reason'],
+                    'existing_settlement_id' => $row['existing_settlement']['id'] ?? null,
+                ];
+                continue;
+            }
+
+            $settlement = $this->createDraft(
+                $staffProfile->user_id,
+                $periodStart,
+                $periodEnd,
+                $row['calculation'],
+                null,
+                $by->id
+            );
+
+            $created[] = [
+                'settlement_id' => $settlement->id,
+                'trainer_id' => $row['trainer_id'],
+                'trainer_name' => $row['trainer_name'],
+                'total_trainer_fee' => $settlement->total_trainer_fee,
+                'missing_pricing_count' => count($row['missing_pricing']),
+                'unchecked_attendance_count' => count($row['unchecked_attendance']),
+            ];
+        }
+
+        return [
+            'created' => $created,
+            'skipped' => $skipped,
+        ];
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function previewTrainer(StaffProfile $staffProfile, Carbon $periodStart, Carbon $periodEnd): array
+    {
+        $calculation = $this->pricingService->calculateSettlementForTrainer(
+            $staffProfile->id,
+            $periodStart,
+            $periodEnd
+        );
+
+        $existing = Settlement::forTrainer($staffProfile->user_id)
+            ->overlapping($periodStart->toDateString(), $periodEnd->toDateString())
+            ->orderByDesc('locked_at')
+            ->first();
+
+        $skipReason = match (true) {
+            $existing?->isLocked() === true => self::SKIP_LOCKED,
+            $existing !== null => self::SKIP_EXISTING,
+            $calculation['items'] === [] => self::SKIP_EMPTY,
+            default => null,
+        };
+
+        $items = collect($calculation['items']);
+
+        return [
+            'trainer_id' => $staffProfile->user_id,
+            'trainer_name' => $staffProfile->user->name,
+            'total_trainer_fee' => $calculation['total_trainer_fee'],
+            'total_entry_fee' => $calculation['total_entry_fee'],
+            'items_count' => $items->count(),
+            'individual_count' => $items->where('type', 'individual')->count(),
+            'group_count' => $items->where('type', 'group')->count(),
+            'missing_pricing' => $calculation['missing_pricing'],
+            'unchecked_attendance' => $this->uncheckedAttendance($staffProfile->id, $periodStart, $periodEnd),
+            'existing_settlement' => $existing ? [
+                'id' => $existing->id,
+                'status' => $existing->status,
+                'period_start' => $existing->period_start->toDateString(),
+                'period_end' => $existing->period_end->toDateString(),
+            ] : null,
+            'skip_reason' => $skipReason,
+            'calculation' => $calculation,
+        ];
+    }
+
+    /**
+     * Past, not cancelled sessions of the period whose attendance was never recorded
+     */
+    private function uncheckedAttendance(int $staffProfileId, Carbon $periodStart, Carbon $periodEnd): array
+    {
+        $until = $periodEnd->copy()->min(now());
+
+        $events = Event::where('staff_id', $staffProfileId)
+            ->where('type', 'INDIVIDUAL')
+            ->whereNotIn('status', ['cancelled', 'pending'])
+            ->whereNull('attendance_status')
+            ->whereBetween('starts_at', [$periodStart, $until])
+            ->with(['client.user', 'serviceType'])
+            ->orderBy('starts_at')
+            ->get()
+            ->map(fn (Event $event) => [
+                'type' => 'individual',
+                'event_id' => $event->id,
+                'class_occurrence_id' => null,
+                'registration_id' => null,
+                'class_name' => '1:1 ' . ($event->serviceType->name ?? 'Edzés'),
+                'client_name' => $event->client->user->name ?? 'Unknown',
+                'class_date' => $event->starts_at->toIso8601String(),
+            ]);
+
+        $registrations = ClassRegistration::where('status', 'booked')
+            ->whereHas('occurrence', fn ($query) => $query
+                ->where('trainer_id', $staffProfileId)
+                ->where('status', '!=', 'cancelled')
+                ->whereBetween('starts_at', [$periodStart, $until]))
+            ->with(['occurrence.template', 'client'])
+            ->get()
+            ->map(fn (ClassRegistration $registration) => [
+                'type' => 'group',
+                'event_id' => null,
+                'class_occurrence_id' => $registration->occurrence_id,
+                'registration_id' => $registration->id,
+                'class_name' => $registration->occurrence->template->title ?? 'Unknown',
+                'client_name' => $registration->client->full_name ?? 'Unknown',
+                'class_date' => $registration->occurrence->starts_at->toIso8601String(),
+            ]);
+
+        return $events->concat($registrations)
+            ->sortBy('class_date')
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Staff profiles of active staff users
+     *
+     * @return Collection<int, StaffProfile>
+     */
+    private function activeTrainers(): Collection
+    {
+        return StaffProfile::with('user')
+            ->whereHas('user', fn ($query) => $query->where('role', 'staff')->where('status', 'active'))
+            ->get()
+            ->sortBy(fn (StaffProfile $staffProfile) => $staffProfile->user->name)
+            ->values();
+    }
+
+    /**
+     * @return array{0: Carbon, 1: Carbon}
+     */
+    private function monthBounds(Carbon $month): array
+    {
+        return [$month->copy()->startOfMonth()->startOfDay(), $month->copy()->endOfMonth()->endOfDay()];
+    }
+}
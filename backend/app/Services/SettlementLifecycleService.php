@@ -0,0 +1,197 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Exceptions\ConflictException;
+use App\Exceptions\LockedResourceException;
+use App\Models\ClassOccurrence;
+use App\Models\Event;
+use App\Models\Payout;
+use App\Models\Settlement;
+use App\Models\SettlementAdjustment;
+use App\Models\SettlementUnlock;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Settlement workflow: draft -> finalized (locked) -> paid.
+ *
+ * Finalizing locks the trainer's sessions of the period (see SettlementLockService).
+ * An admin can unlock a finalized settlement back to draft with a recorded reason;
+ * paying it creates the Payout record and closes it for good.
+ */
+class SettlementLifecycleService
+{
+    /**
+     * @throws ConflictException
+     */
+    public function finalize(Settlement $settlement, User $by): Settlement
+    {
+        $this->assertStatus($settlement, 'draft', 'Only draft settlements can be finalized');
+
+        $settlement->update([
+            'status' => 'finalized',
+            'locked_at' => now(),
+            'finalized_by' => $by->id,
+        ]);
+
+        return $settlement;
+    }
+
+    /**
+     * Reopen a finalized settlement so its period can be edited again
+     *
+     * @throws ConflictException
+     */
+    public function unlock(Settlement $settlement, string $reason, User $by): Settlement
+    {
+        $this->assertStatus($settlement, 'finalized', 'Only finalized settlements can be unlocked; paid settlements are closed');
+
+        return DB::transaction(function () use ($settlement, $reason, $by) {
+            SettlementUnlock::create([
+                'settlement_id' => $settlement->id,
+                'reason' => $reason,
+                'unlocked_by' => $by->id,
+                'created_at' => now(),
+            ]);
+
+            $settlement->update([
+                'status' => 'draft',
+                'locked_at' => null,
+                'finalized_by' => null,
+            ]);
+
+            return $settlement;
+        });
+    }
+
+    /**
+     * Record the transfer: creates the trainer's Payout and marks the settlement paid
+     *
+     * @throws ConflictException
+     */
+    public function markPaid(Settlement $settlement, Carbon $paidAt, string $reference, User $by): Settlement
+    {
+        $this->assertStatus($settlement, 'finalized', 'Only finalized settlements can be marked as paid');
+
+        // Payouts reference staff_profiles.id, settlements users.id
+        $staffProfile = StaffProfile::where('user_id', $settlement->trainer_id)->first();
+        if (!$staffProfile) {
+            throw new ConflictException('The trainer has no staff profile to pay out to', [
+                'trainer_id' => $settlement->trainer_id,
+            ]);
+        }
+
+        return DB::transaction(function () use ($settlement, $staffProfile, $paidAt, $reference, $by) {
+            $settlement->loadMissing(['adjustments', 'items']);
+
+            $payout = Payout::create([
+                'staff_id' => $staffProfile->id,
+                'period_from' => $settlement->period_start,
+                'period_to' => $settlement->period_end,
+                'hours_total' => $this->hoursTotal($settlement, $staffProfile),
+                'amount_total' => $settlement->payableAmount(),
+                'breakdown' => [
+                    'settlement_id' => $settlement->id,
+                    'total_trainer_fee' => $settlement->total_trainer_fee,
+                    'total_entry_fee' => $settlement->total_entry_fee,
+                    'adjustments' => $settlement->adjustments->map(fn (SettlementAdjustment $adjustment) => [
+                        'type' => $adjustment->type,
+                        'amount' => $adjustment->amount,
+                        'reason' => $adjustment->reason,
+                    ])->values()->all(),
+                    'total_adjustments' => $settlement->totalAdjustments(),
+                ],
+                'paid_at' => $paidAt->toDateString(),
+                'payment_reference' => $reference,
+                'created_by' => $by->id,
+            ]);
+
+            $settlement->update([
+                'status' => 'paid',
+                'paid_at' => $paidAt->toDateString(),
+                'payment_reference' => $reference,
+                'payout_id' => $payout->id,
+            ]);
+
+            return $settlement;
+        });
+    }
+
+    /**
+     * @throws LockedResourceException
+     */
+    public function addAdjustment(Settlement $settlement, string $type, int $amount, string $reason, User $by): SettlementAdjustment
+    {
+        $this->assertEditable($settlement);
+
+        return $settlement->adjustments()->create([
+            'type' => $type,
+            'amount' => $amount,
+            'reason' => $reason,
+            'created_by' => $by->id,
+        ]);
+    }
+
+    /**
+     * @throws LockedResourceException
+     */
+    public function removeAdjustment(Settlement $settlement, SettlementAdjustment $adjustment): void
+    {
+        $this->assertEditable($settlement);
+
+        $adjustment->delete();
+    }
+
+    /**
+     * @throws LockedResourceException
+     */
+    public function assertEditable(Settlement $settlement): void
+    {
+        if ($settlement->isLocked()) {
+            throw new LockedResourceException(
+                'Settlement is locked',
+                'Finalized and paid settlements cannot be changed; unlock a finalized settlement first'
+            );
+        }
+    }
+
+    /**
+     * @throws ConflictException
+     */
+    private function assertStatus(Settlement $settlement, string $expected, string $message): void
+    {
+        if ($settlement->status !== $expected) {
+            throw new ConflictException($message, [
+                'settlement_id' => $settlement->id,
+                'status' => $settlement->status,
+            ]);
+        }
+    }
+
+    /**
+     * Hours worked in the settlement: attended 1:1 sessions and the settled group classes
+     */
+    private function hoursTotal(Settlement $settlement, StaffProfile $staffProfile): float
+    {
+        $from = $settlement->period_start->copy()->startOfDay();
+        $to = $settlement->period_end->copy()->endOfDay();
+
+        $individualHours = Event::where('staff_id', $staffProfile->id)
+            ->where('type', 'INDIVIDUAL')
+            ->where('attendance_status', 'attended')
+            ->whereBetween('starts_at', [$from, $to])
+            ->get()
+            ->sum(fn (Event $event) => $event->starts_at->floatDiffInHours($event->ends_at));
+
+        $groupHours = ClassOccurrence::whereKey($settlement->items->pluck('class_occurrence_id')->unique())
+            ->get()
+            ->sum(fn (ClassOccurrence $occurrence) => $occurrence->starts_at->floatDiffInHours($occurrence->ends_at));
+
+        return round($individualHours + $groupHours, 2);
+    }
+}
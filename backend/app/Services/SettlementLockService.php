@@ -0,0 +1,154 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Exceptions\LockedResourceException;
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\Event;
+use App\Models\Settlement;
+use App\Models\StaffProfile;
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Model;
+
+/**
+ * Guards the sessions of a finalized settlement period against edits.
+ *
+ * A locked settlement covers a trainer and a date range; 1:1 events, class
+ * occurrences and their registrations of that trainer inside the range cannot be
+ * created, changed or deleted until an admin unlocks the settlement.
+ */
+class SettlementLockService
+{
+    /**
+     * Columns written by sync jobs and bookkeeping that do not change the settled amounts
+     */
+    private const IGNORED_FIELDS = [
+        Event::class => ['google_event_id', 'updated_at', 'updated_by'],
+        ClassOccurrence::class => ['google_event_id', 'updated_at'],
+        ClassRegistration::class => ['payment_status', 'waitlist_position', 'promotion_notified_at', 'updated_at'],
+    ];
+
+    /**
+     * The locked settlement covering a trainer (staff profile id) on a date, if any
+     */
+    public function lockingSettlement(?int $staffProfileId, mixed $at): ?Settlement
+    {
+        if (!$staffProfileId || !$at) {
+            return null;
+        }
+
+        // Settlements reference users.id, sessions reference staff_profiles.id
+        $userId = StaffProfile::whereKey($staffProfileId)->value('user_id');
+        if (!$userId) {
+            return null;
+        }
+
+        $date = Carbon::parse($at)->toDateString();
+
+        return Settlement::locked()
+            ->forTrainer((int) $userId)
+            ->whereDate('period_start', '<=', $date)
+            ->whereDate('period_end', '>=', $date)
+            ->first();
+    }
+
+    /**
+     * Creating or updating a 1:1 event: both its old and new trainer/date must be open
+     *
+     * @throws LockedResourceException
+     */
+    public function assertEventEditable(Event $event): void
+    {
+        if ($this->onlyIgnoredFieldsChanged($event)) {
+            return;
+        }
+
+        $this->assertOpen($event->getOriginal('staff_id'), $event->getOriginal('starts_at'));
+        $this->assertOpen($event->staff_id, $event->starts_at);
+    }
+
+    /**
+     * @throws LockedResourceException
+     */
+    public function assertEventDeletable(Event $event): void
+    {
+        $this->assertOpen($event->getOriginal('staff_id'), $event->getOriginal('starts_at'));
+    }
+
+    /**
+     * Creating or updating a class occurrence
+     *
+     * @throws LockedResourceException
+     */
+    public function assertOccurrenceEditable(ClassOccurrence $occurrence): void
+    {
+        if ($this->onlyIgnoredFieldsChanged($occurrence)) {
+            return;
+        }
+
+        $this->assertOpen($occurrence->getOriginal('trainer_id'), $occurrence->getOriginal('starts_at'));
+        $this->assertOpen($occurrence->trainer_id, $occurrence->starts_at);
+    }
+
+    /**
+     * @throws LockedResourceException
+     */
+    public function assertOccurrenceDeletable(ClassOccurrence $occurrence): void
+    {
+        $this->assertOpen($occurrence->getOriginal('trainer_id'), $occurrence->getOriginal('starts_at'));
+    }
+
+    /**
+     * Booking, cancelling or checking in on a class (also moving a booking between classes)
+     *
+     * @throws LockedResourceException
+     */
+    public function assertRegistrationEditable(ClassRegistration $registration, bool $deleting = false): void
+    {
+        if (!$deleting && $this->onlyIgnoredFieldsChanged($registration)) {
+            return;
+        }
+
+        $occurrenceIds = array_unique(array_filter([
+            $registration->getOriginal('occurrence_id'),
+            $registration->occurrence_id,
+        ]));
+
+        foreach (ClassOccurrence::whereKey($occurrenceIds)->get() as $occurrence) {
+            $this->assertOpen($occurrence->trainer_id, $occurrence->starts_at);
+        }
+    }
+
+    /**
+     * @throws LockedResourceException
+     */
+    private function assertOpen(mixed $staffProfileId, mixed $at): void
+    {
+        $settlement = $this->lockingSettlement($staffProfileId ? (int) $staffProfileId : null, $at);
+
+        if ($settlement) {
+            throw new LockedResourceException(
+                'This session belongs to a finalized settlement and cannot be modified',
+                sprintf(
+                    'Settlement #%d (%s - %s) is %s; an admin has to unlock it first',
+                    $settlement->id,
+                    $settlement->period_start->toDateString(),
+                    $settlement->period_end->toDateString(),
+                    $settlement->status
+                )
+            );
+        }
+    }
+
+    private function onlyIgnoredFieldsChanged(Model $model): bool
+    {
+        if (!$model->exists) {
+            return false;
+        }
+
+        return array_diff(array_keys($model->getDirty()), self::IGNORED_FIELDS[$model::class] ?? []) === [];
+    }
+}
@@ -0,0 +1,154 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+/**
+ * Minimal PDF writer for plain text documents (payout statements).
+ *
+ * A4 pages with the built-in Helvetica fonts, text and horizontal rules only. Without
+ * embedded fonts text is limited to Windows-1252, so Hungarian ő/ű are printed as ö/ü.
+ * Coordinates are points measured from the top-left corner of the page.
+ */
+final class SimplePdf
+{
+    public const PAGE_WIDTH = 595.28;
+    public const PAGE_HEIGHT = 841.89;
+
+    /**
+     * Helvetica glyph widths (1/1000 em) of the printable ASCII range, used to right-align text
+     */
+    private const HELVETICA_WIDTHS = [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+        556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+    ];
+
+    /** @var string[] content stream of each page */
+    private array $pages = [];
+
+    public function addPage(): self
+    {
+        $this->pages[] = '';
+
+        return $this;
+    }
+
+    /**
+     * Write a line of text; $align 'right' makes $x the right edge of the text
+     */
+    public function text(float $x, float $y, string $text, float $size = 10, bool $bold = false, string $align = 'left'): self
+    {
+        $encoded = $this->encode($text);
+
+        if ($align === 'right') {
+            $x -= $this->textWidth($encoded, $size);
+        }
+
+        $this->append(sprintf(
+            "BT /%s %.1F Tf %.2F %.2F Td (%s) Tj ET\n",
+            $bold ? 'F2' : 'F1',
+            $size,
+            $x,
+            self::PAGE_HEIGHT - $y,
+            $this->escape($encoded)
+        ));
+
+        return $this;
+    }
+
+    /**
+     * Horizontal rule from $x1 to $x2
+     */
+    public function rule(float $x1, float $x2, float $y, float $width = 0.5): self
+    {
+        $pdfY = self::PAGE_HEIGHT - $y;
+        $this->append(sprintf("%.2F w %.2F %.2F m %.2F %.2F l S\n", $width, $x1, $pdfY, $x2, $pdfY));
+
+        return $this;
+    }
+
+    /**
+     * The document as PDF bytes
+     */
+    public function output(): string
+    {
+        if ($this->pages === []) {
+            $this->addPage();
+        }
+
+        // 1: catalog, 2: page tree, 3-4: fonts, then a page and a content object per page
+        $objects = [
+            1 => '<< /Type /Catalog /Pages 2 0 R >>',
+            3 => '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+            4 => '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        ];
+
+        $kids = [];
+        foreach ($this->pages as $index => $content) {
+            $pageId = 5 + $index * 2;
+            $kids[] = "{$pageId} 0 R";
+            $objects[$pageId] = sprintf(
+                '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 %.2F %.2F] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents %d 0 R >>',
+                self::PAGE_WIDTH,
+                self::PAGE_HEIGHT,
+                $pageId + 1
+            );
+            $objects[$pageId + 1] = sprintf("<< /Length %d >>\nstream\n%sendstream", strlen($content), $content);
+        }
+        $objects[2] = sprintf('<< /Type /Pages /Kids [%s] /Count %d >>', implode(' ', $kids), count($kids));
+        ksort($objects);
+
+        $pdf = "%PDF-1.4\n";
+        $offsets = [];
+        foreach ($objects as $id => $body) {
+            $offsets[$id] = strlen($pdf);
+            $pdf .= "{$id} 0 obj\n{$body}\nendobj\n";
+        }
+
+        $xref = strlen($pdf);
+        $pdf .= sprintf("xref\n0 %d\n0000000000 65535 f \n", count($objects) + 1);
+        foreach ($offsets as $offset) {
+            $pdf .= sprintf("%010d 00000 n \n", $offset);
+        }
+        $pdf .= sprintf("trailer\n<< /Size %d /Root 1 0 R >>\nstartxref\n%d\n%%%%EOF\n", count($objects) + 1, $xref);
+
+        return $pdf;
+    }
+
+    private function append(string $operators): void
+    {
+        if ($this->pages === []) {
+            $this->addPage();
+        }
+
+        $this->pages[array_key_last($this->pages)] .= $operators;
+    }
+
+    private function encode(string $text): string
+    {
+        $text = strtr($text, ['ő' => 'ö', 'Ő' => 'Ö', 'ű' => 'ü', 'Ű' => 'Ü']);
+
+        return mb_convert_encoding($text, 'Windows-1252', 'UTF-8');
+    }
+
+    private function escape(string $text): string
+    {
+        return strtr($text, ['\\' => '\\\\', '(' => '\\(', ')' => '\\)', "\r" => '', "\n" => ' ']);
+    }
+
+    private function textWidth(string $encoded, float $size): float
+    {
+        $width = 0;
+        foreach (str_split($encoded) as $char) {
+            $code = ord($char);
+            $width += self::HELVETICA_WIDTHS[$code - 32] ?? 556;
+        }
+
+        return $width * $size / 1000;
+    }
+}
@@ -0,0 +1,407 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\Room;
+use App\Models\Site;
+use App\Models\StaffAvailability;
+use App\Models\StaffAvailabilityException;
+use App\Models\StaffProfile;
+use Carbon\Carbon;
+use Carbon\CarbonPeriod;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+
+class StaffAvailabilityService
+{
+    private const WEEKDAY_KEYS = [
+        1 => 'monday',
+        2 => 'tuesday',
+        3 => 'wednesday',
+        4 => 'thursday',
+        5 => 'friday',
+        6 => 'saturday',
+        7 => 'sunday',
+    ];
+
+    /**
+     * Replace the weekly working hours of a trainer.
+     *
+     * @param array<int, array{weekday: int, start_time: string, end_time: string}> $slots
+     * @return Collection<int, StaffAvailability>
+     * @throws \InvalidArgumentException When a range is empty or ranges of a day overlap
+     */
+    public function replaceWeekly(StaffProfile $staff, array $slots): Collection
+    {
+        $byDay = collect($slots)
+            ->map(fn (array $slot) => [
+                'weekday' => (int) $slot['weekday'],
+                'start_time' => $this->normalizeTime($slot['start_time']),
+                'end_time' => $this->normalizeTime($slot['end_time']),
+            ])
+            ->sortBy(['weekday', 'start_time'])
+            ->groupBy('weekday');
+
+        foreach ($byDay as $weekday => $daySlots) {
+            $previousEnd = null;
+            foreach ($daySlots as $slot) {
+                if ($slot['start_time'] >= $slot['end_time']) {
+                    throw new \InvalidArgumentException(
+                        "A kezdés időpontjának a befejezés előtt kell lennie ({$slot['start_time']}–{$slot['end_time']})."
+                    );
+                }
+                if ($previousEnd !== null && $slot['start_time'] < $previousEnd) {
+                    throw new \InvalidArgumentException(
+                        'Az egy napra megadott idősávok nem fedhetik egymást (' . self::WEEKDAY_KEYS[$weekday] . ').'
+                    );
+                }
+                $previousEnd = $slot['end_time'];
+            }
+        }
+
+        return DB::transaction(function () use ($staff, $byDay) {
+            $staff->availabilities()->delete();
+
+            foreach ($byDay->flatten(1) as $slot) {
+                $staff->availabilities()->create($slot);
+            }
+
+            return $staff->availabilities()->orderBy('weekday')->orderBy('start_time')->get();
+        });
+    }
+
+    /**
+     * Record an absence (vacation, sick day) of a trainer.
+     *
+     * @throws \InvalidArgumentException When the time range is incomplete or empty
+     */
+    public function addException(StaffProfile $staff, array $data, ?int $createdBy = null): StaffAvailabilityException
+    {
+        $startTime = isset($data['start_time']) ? $this->normalizeTime($data['start_time']) : null;
+        $endTime = isset($data['end_time']) ? $this->normalizeTime($data['end_time']) : null;
+
+        if (($startTime === null) !== ($endTime === null)) {
+            throw new \InvalidArgumentException('Részleges távollétnél a kezdés és a befejezés időpontja is kötelező.');
+        }
+        if ($startTime !== null && $startTime >= $endTime) {
+            throw new \InvalidArgumentException('A kezdés időpontjának a befejezés előtt kell lennie.');
+        }
+
+        return $staff->availabilityExceptions()->create([
+            'type' => $data['type'],
+            'starts_on' => $data['starts_on'],
+            'ends_on' => $data['ends_on'],
+            'start_time' => $startTime,
+            'end_time' => $endTime,
+            'note' => $data['note'] ?? null,
+            'created_by' => $createdBy,
+        ]);
+    }
+
+    /**
+     * Reasons why an event at the given time falls outside working hours.
+     *
+     * Returns an empty array when the trainer is available and the site of the room is open.
+     * Trainers without weekly hours are treated as always available (only absences count).
+     *
+     * @return array<int, array<string, string>>
+     */
+    public function check(?int $staffId, ?int $roomId, Carbon $startsAt, Carbon $endsAt): array
+    {
+        // Working hours are wall-clock times of the studio
+        $startsAt = $startsAt->copy()->setTimezone(config('app.timezone'));
+        $endsAt = $endsAt->copy()->setTimezone(config('app.timezone'));
+
+        $warnings = [];
+
+        if ($staffId) {
+            $warnings = array_merge($warnings, $this->checkStaff($staffId, $startsAt, $endsAt));
+        }
+
+        if ($roomId) {
+            $warnings = array_merge($warnings, $this->checkSite($roomId, $startsAt, $endsAt));
+        }
+
+        return $warnings;
+    }
+
+    /**
+     * Working hours and absences of every trainer plus site opening hours for calendar shading.
+     */
+    public function calendarData(Carbon $from, Carbon $to): array
+    {
+        $trainers = StaffProfile::with([
+            'user:id,name',
+            'availabilities' => fn ($q) => $q->orderBy('weekday')->orderBy('start_time'),
+            'availabilityExceptions' => fn ($q) => $q->overlapping($from->toDateString(), $to->toDateString())
+                ->orderBy('starts_on'),
+        ])->get();
+
+        $sites = Site::with('rooms:id,site_id')->where('is_active', true)->get();
+
+        return [
+            'trainers' => $trainers->map(fn (StaffProfile $staff) => [
+                'staff_id' => $staff->id,
+                'name' => $staff->user?->name,
+                'weekly' => $staff->availabilities->map(fn (StaffAvailability $slot) => $this->formatSlot($slot))->values(),
+                'exceptions' => $staff->availabilityExceptions->map(fn (StaffAvailabilityException $exception) => $this->formatException($exception))->values(),
+            ])->values(),
+            'sites' => $sites->map(fn (Site $site) => [
+                'site_id' => $site->id,
+                'name' => $site->name,
+                'opening_hours' => $this->openingHours($site),
+                'room_ids' => $site->rooms->pluck('id')->values(),
+            ])->values(),
+        ];
+    }
+
+    /**
+     * Weekly hours and upcoming absences of one trainer for the editor.
+     */
+    public function forStaff(StaffProfile $staff): array
+    {
+        return [
+            'staff_id' => $staff->id,
+            'weekly' => $staff->availabilities()->orderBy('weekday')->orderBy('start_time')->get()
+                ->map(fn (StaffAvailability $slot) => $this->formatSlot($slot))->values(),
+            'exceptions' => $staff->availabilityExceptions()
+                ->where('ends_on', '>=', now()->subDays(30)->toDateString())
+                ->orderBy('starts_on')
+                ->get()
+                ->map(fn (StaffAvailabilityException $exception) => $this->formatException($exception))->values(),
+        ];
+    }
+
+    public function formatSlot(StaffAvailability $slot): array
+    {
+        return [
+            'id' => $slot->id,
+            'weekday' => $slot->weekday,
+            'start_time' => substr((string) $slot->start_time, 0, 5),
+            'end_time' => substr((string) $slot->end_time, 0, 5),
+        ];
+    }
+
+    public function formatException(StaffAvailabilityException $exception): array
+    {
+        return [
+            'id' => $exception->id,
+            'staff_id' => $exception->staff_id,
+            'type' => $exception->type,
+            'starts_on' => $exception->starts_on->toDateString(),
+            'ends_on' => $exception->ends_on->toDateString(),
+            'start_time' => $exception->start_time ? substr((string) $exception->start_time, 0, 5) : null,
+            'end_time' => $exception->end_time ? substr((string) $exception->end_time, 0, 5) : null,
+            'note' => $exception->note,
+        ];
+    }
+
+    /**
+     * Opening hours of a site keyed by weekday name, normalized to {open, close}.
+     *
+     * Accepts both the {open, close} objects saved by the admin form and the "06:00-22:00"
+     * strings used by older seed data. Days without hours are closed.
+     *
+     * @return array<string, array{open: string, close: string}|null>|null Null when the site has no opening hours at all
+     */
+    public function openingHours(Site $site): ?array
+    {
+        $hours = $site->opening_hours;
+
+        if (empty($hours) || !is_array($hours)) {
+            return null;
+        }
+
+        $normalized = [];
+        foreach (self::WEEKDAY_KEYS as $day) {
+            $value = $hours[$day] ?? null;
+
+            if (is_string($value) && str_contains($value, '-')) {
+                [$open, $close] = array_map('trim', explode('-', $value, 2));
+                $value = ['open' => $open, 'close' => $close];
+            }
+
+            $normalized[$day] = is_array($value) && !empty($value['open']) && !empty($value['close'])
+                ? ['open' => $this->normalizeTime($value['open'], false), 'close' => $this->normalizeTime($value['close'], false)]
+                : null;
+        }
+
+        return $normalized;
+    }
+
+    /**
+     * Whether the trainer works at the given time and has no absence then.
+     *
+     * Expects wall-clock times and the weekly hours and absences of the period
+     * loaded on the profile, so free slots can be searched without extra queries.
+     */
+    public function isStaffAvailable(StaffProfile $staff, Carbon $startsAt, Carbon $endsAt): bool
+    {
+        if ($staff->availabilities->isNotEmpty() && !$this->withinWeekly($staff->availabilities, $startsAt, $endsAt)) {
+            return false;
+        }
+
+        $lastDay = $endsAt->copy()->subSecond()->startOfDay();
+
+        return !$staff->availabilityExceptions->contains(
+            fn (StaffAvailabilityException $exception) => $exception->starts_on->lte($lastDay)
+                && $exception->ends_on->gte($startsAt->copy()->startOfDay())
+                && $this->exceptionCovers($exception, $startsAt, $endsAt)
+        );
+    }
+
+    /**
+     * Whether the given wall-clock time range falls within normalized opening hours.
+     * Sites without opening hours are always open.
+     *
+     * @param array<string, array{open: string, close: string}|null>|null $hours
+     */
+    public function isOpen(?array $hours, Carbon $startsAt, Carbon $endsAt): bool
+    {
+        if ($hours === null) {
+            return true;
+        }
+
+        $day = $hours[self::WEEKDAY_KEYS[$startsAt->dayOfWeekIso]];
+
+        if ($day === null) {
+            return false;
+        }
+
+        // Events ending exactly at midnight count as ending at 24:00 of the start day
+        $endTime = $endsAt->isSameDay($startsAt) ? $endsAt->format('H:i') : '24:00';
+
+        return $startsAt->format('H:i') >= $day['open'] && $endTime <= $day['close'];
+    }
+
+    /**
+     * @return array<int, array<string, string>>
+     */
+    private function checkStaff(int $staffId, Carbon $startsAt, Carbon $endsAt): array
+    {
+        $staff = StaffProfile::with('availabilities')->find($staffId);
+
+        if (!$staff) {
+            return [];
+        }
+
+        $warnings = [];
+
+        $exceptions = $staff->availabilityExceptions()
+            ->overlapping($startsAt->toDateString(), $endsAt->toDateString())
+            ->get();
+
+        foreach ($exceptions as $exception) {
+            if ($this->exceptionCovers($exception, $startsAt, $endsAt)) {
+                $warnings[] = [
+                    'code' => 'staff_exception',
+                    'type' => $exception->type,
+                    'message' => 'Az edző erre az időpontra távollétet jelzett ('
+                        . $exception->starts_on->toDateString()
+                        . ($exception->ends_on->isSameDay($exception->starts_on) ? '' : ' – ' . $exception->ends_on->toDateString())
+                        . ').',
+                ];
+                break;
+            }
+        }
+
+        if ($staff->availabilities->isNotEmpty() && !$this->withinWeekly($staff->availabilities, $startsAt, $endsAt)) {
+            $warnings[] = [
+                'code' => 'outside_availability',
+                'message' => 'Az esemény az edző munkaidején kívül esik.',
+            ];
+        }
+
+        return $warnings;
+    }
+
+    /**
+     * @return array<int, array<string, string>>
+     */
+    private function checkSite(int $roomId, Carbon $startsAt, Carbon $endsAt): array
+    {
+        $room = Room::find($roomId);
+        $site = $room?->site_id ? Site::find($room->site_id) : null;
+        $hours = $site ? $this->openingHours($site) : null;
+
+        if ($hours === null) {
+            return [];
+        }
+
+        $day = $hours[self::WEEKDAY_KEYS[$startsAt->dayOfWeekIso]];
+
+        if ($day === null) {
+            return [[
+                'code' => 'site_closed',
+                'message' => "A(z) {$site->name} helyszín ezen a napon zárva tart.",
+            ]];
+        }
+
+        if (!$this->isOpen($hours, $startsAt, $endsAt)) {
+            return [[
+                'code' => 'outside_opening_hours',
+                'message' => "Az esemény a(z) {$site->name} helyszín nyitvatartásán ({$day['open']}–{$day['close']}) kívül esik.",
+            ]];
+        }
+
+        return [];
+    }
+
+    /**
+     * Whether every day of the event is covered by one weekly range of the trainer.
+     */
+    private function withinWeekly(Collection $slots, Carbon $startsAt, Carbon $endsAt): bool
+    {
+        foreach (CarbonPeriod::create($startsAt->copy()->startOfDay(), $endsAt->copy()->subSecond()->startOfDay()) as $date) {
+            $from = $date->isSameDay($startsAt) ? $startsAt->format('H:i:s') : '00:00:00';
+            $to = $date->isSameDay($endsAt) ? $endsAt->format('H:i:s') : '24:00:00';
+
+            $covered = $slots->contains(fn (StaffAvailability $slot) => $slot->weekday === $date->dayOfWeekIso
+                && $this->normalizeTime((string) $slot->start_time) <= $from
+                && $this->normalizeTime((string) $slot->end_time) >= $to);
+
+            if (!$covered) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private function exceptionCovers(StaffAvailabilityException $exception, Carbon $startsAt, Carbon $endsAt): bool
+    {
+        if ($exception->isFullDay()) {
+            return true;
+        }
+
+        // Partial absences repeat on every day of the range
+        foreach (CarbonPeriod::create($startsAt->copy()->startOfDay(), $endsAt->copy()->subSecond()->startOfDay()) as $date) {
+            if ($date->lt($exception->starts_on) || $date->gt($exception->ends_on)) {
+                continue;
+            }
+
+            $from = $date->isSameDay($startsAt) ? $startsAt->format('H:i:s') : '00:00:00';
+            $to = $date->isSameDay($endsAt) ? $endsAt->format('H:i:s') : '24:00:00';
+
+            if ($from < $this->normalizeTime((string) $exception->end_time)
+                && $to > $this->normalizeTime((string) $exception->start_time)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * "9:00" / "09:00" / "09:00:00" to "09:00:00" (or "09:00" without seconds).
+     */
+    private function normalizeTime(string $time, bool $withSeconds = true): string
+    {
+        $parts = explode(':', trim($time));
+        $normalized = sprintf('%02d:%02d', (int) $parts[0], (int) ($parts[1] ?? 0));
+
+        return $withSeconds ? $normalized . ':' . sprintf('%02d', (int) ($parts[2] ?? 0)) : $normalized;
+    }
+}
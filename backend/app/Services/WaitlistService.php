@@ -0,0 +1,142 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services;
+
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\User;
+use Illuminate\Support\Facades\DB;
+
+class WaitlistService
+{
+    public function __construct(
+        private readonly PassCreditService $passCreditService,
+        private readonly NotificationService $notificationService
+    ) {}
+
+    /**
+     * Queue positions (1-based) of the waitlisted registrations of an occurrence.
+     *
+     * @return array<int, int> registration id => position
+     */
+    public function positions(ClassOccurrence $occurrence): array
+    {
+        return ClassRegistration::where('occurrence_id', $occurrence->id)
+            ->waitlistQueue()
+            ->pluck('id')
+            ->values()
+            ->mapWithKeys(fn (int $id, int $index) => [$id => $index + 1])
+            ->all();
+    }
+
+    /**
+     * Queue position of a single waitlisted registration (null if not waitlisted).
+     */
+    public function positionOf(ClassRegistration $registration): ?int
+    {
+        if ($registration->status !== 'waitlist') {
+            return null;
+        }
+
+        return $this->positions($registration->occurrence)[$registration->id] ?? null;
+    }
+
+    /**
+     * Promote the first waitlisted client after a booked spot was freed.
+     */
+    public function promoteNext(ClassOccurrence $occurrence): ?ClassRegistration
+    {
+        $nextWaitlisted = ClassRegistration::with(['client.user'])
+            ->where('occurrence_id', $occurrence->id)
+            ->waitlistQueue()
+            ->first();
+
+        if (!$nextWaitlisted) {
+            return null;
+        }
+
+        return $this->promote($nextWaitlisted, $occurrence);
+    }
+
+    /**
+     * Move a waitlisted client into a booked spot and notify them.
+     *
+     * Payment is handled like a regular booking:
+     * - If client has active pass: deduct credits, set payment_status = 'paid'
+     * - If no active pass: add to unpaid_balance, set payment_status = 'unpaid'
+     *
+     * Without $promotedBy the promotion is recorded as automatic.
+     */
+    public function promote(ClassRegistration $registration, ClassOccurrence $occurrence, ?User $promotedBy = null): ClassRegistration
+    {
+        if ($registration->status !== 'waitlist') {
+            throw new \InvalidArgumentException('Only waitlisted registrations can be promoted');
+        }
+
+        $occurrence->loadMissing('template');
+
+        return DB::transaction(function () use ($registration, $occurrence, $promotedBy) {
+            $client = $registration->client;
+            $creditsRequired = $occurrence->template?->credits_required ?? 1;
+            $templateTitle = $occurrence->template?->title ?? 'Class';
+
+            $creditsUsed = 0;
+            $paymentStatus = 'unpaid';
+
+            if ($this->passCreditService->hasAvailableCredits($client)) {
+                $this->passCreditService->deductCredit(
+                    $client,
+                    "Promoted from waitlist: {$templateTitle}",
+                    ['class_registration_id' => $registration->id]
+                );
+                $creditsUsed = $creditsRequired;
+                $paymentStatus = 'paid';
+            } else {
+                $creditPriceHuf = (int) ($occurrence->template?->base_price_huf ?? config('booking.credit_price_huf', 1000));
+                $client->increment('unpaid_balance', $creditPriceHuf * $creditsRequired);
+            }
+
+            $registration->update([
+                'status' => 'booked',
+                'credits_used' => $creditsUsed,
+                'payment_status' => $paymentStatus,
+                'waitlist_position' => null,
+                'promoted_at' => now(),
+                'promotion_type' => $promotedBy ? 'manual' : 'auto',
+                'promoted_by' => $promotedBy?->id,
+            ]);
+
+            $this->notificationService->sendWaitlistPromotion($registration);
+
+            return $registration;
+        });
+    }
+
+    /**
+     * Reorder the waitlist of an occurrence.
+     *
+     * @param array<int, int> $registrationIds every waitlisted registration id, in the new order
+     */
+    public function reorder(ClassOccurrence $occurrence, array $registrationIds): void
+    {
+        $currentIds = array_keys($this->positions($occurrence));
+
+        $requested = array_map('intval', $registrationIds);
+        $sortedRequested = $requested;
+        $sortedCurrent = $currentIds;
+        sort($sortedRequested);
+        sort($sortedCurrent);
+
+        if ($sortedRequested !== $sortedCurrent) {
+            throw new \InvalidArgumentException('The new order must contain every waitlisted registration exactly once');
+        }
+
+        DB::transaction(function () use ($requested) {
+            foreach ($requested as $index => $registrationId) {
+                ClassRegistration::whereKey($registrationId)->update(['waitlist_position' => $index + 1]);
+            }
+        });
+    }
+}
@@ -29,4 +29,23 @@
 
     'cancellation_window_hours' => env('BOOKING_CANCELLATION_WINDOW_HOURS', 24),
 
+    /*
+    |--------------------------------------------------------------------------
+    | Public Self-Booking of Individual Sessions
+    |--------------------------------------------------------------------------
+    |
+    | Free slots offered on the public site: length of a session, spacing of
+    | the offered start times, the minimum notice before a session and how
+    | far ahead clients can book. Booked sessions stay pending until the
+    | trainer confirms them.
+    |
+    */
+
+    'self_booking' => [
+        'session_minutes' => env('SELF_BOOKING_SESSION_MINUTES', 60),
+        'slot_step_minutes' => env('SELF_BOOKING_SLOT_STEP_MINUTES', 30),
+        'min_notice_hours' => env('SELF_BOOKING_MIN_NOTICE_HOURS', 12),
+        'max_days_ahead' => env('SELF_BOOKING_MAX_DAYS_AHEAD', 30),
+    ],
+
 ];
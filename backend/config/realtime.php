@@ -0,0 +1,48 @@
+<?php
+
+declare(strict_types=1);
+
+return [
+
+    /*
+    |--------------------------------------------------------------------------
+    | Calendar Stream
+    |--------------------------------------------------------------------------
+    |
+    | The calendar stream is a Server-Sent Events response that pushes event
+    | and class occurrence changes to open calendars. A single request is kept
+    | open for at most `stream_seconds`, after which the browser reconnects and
+    | resumes from the last received update id. The feed is checked every
+    | `poll_interval_ms` milliseconds.
+    |
+    */
+
+    'stream_seconds' => env('REALTIME_STREAM_SECONDS', 30),
+
+    'poll_interval_ms' => env('REALTIME_POLL_INTERVAL_MS', 1000),
+
+    /*
+    |--------------------------------------------------------------------------
+    | Edit Sessions
+    |--------------------------------------------------------------------------
+    |
+    | An open edit form sends a heartbeat periodically. Without a heartbeat for
+    | this many seconds the "being edited by" marker disappears.
+    |
+    */
+
+    'edit_session_ttl_seconds' => env('REALTIME_EDIT_SESSION_TTL_SECONDS', 60),
+
+    /*
+    |--------------------------------------------------------------------------
+    | Retention
+    |--------------------------------------------------------------------------
+    |
+    | Updates older than this are pruned, a client reconnecting after a longer
+    | gap refetches the calendar instead of replaying the feed.
+    |
+    */
+
+    'retention_hours' => env('REALTIME_RETENTION_HOURS', 24),
+
+];
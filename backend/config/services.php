@@ -42,6 +42,8 @@
         'service_account_path' => env('GOOGLE_SERVICE_ACCOUNT_PATH', storage_path('app/google-service-account.json')),
         'sync_enabled' => env('GOOGLE_CALENDAR_SYNC_ENABLED', false),
         'application_name' => env('GOOGLE_CALENDAR_APP_NAME', 'FunctionalFit Calendar'),
+        // Override the Google Calendar API root, e.g. to run against a local fake API
+        'api_url' => env('GOOGLE_CALENDAR_API_URL'),
         'scopes' => [
             'https://www.googleapis.com/auth/calendar',
             'https://www.googleapis.com/auth/calendar.events',
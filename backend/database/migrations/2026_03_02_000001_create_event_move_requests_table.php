@@ -0,0 +1,54 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Event Move Requests table: Cross-day moves requested by staff.
+     * Staff can only move their events within the same day, moving to another
+     * day creates a pending request that an admin approves or rejects.
+     */
+    public function up(): void
+    {
+        Schema::create('event_move_requests', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('event_id')->constrained('events')->onDelete('cascade');
+            $table->foreignId('requested_by')->constrained('users')->onDelete('cascade');
+
+            // Requested new slot
+            $table->timestamp('new_starts_at');
+            $table->timestamp('new_ends_at');
+            $table->foreignId('new_room_id')->nullable()->constrained('rooms')->onDelete('set null');
+
+            // Original slot (kept for the admin review screen)
+            $table->timestamp('original_starts_at');
+            $table->timestamp('original_ends_at');
+            $table->unsignedBigInteger('original_room_id')->nullable();
+
+            $table->enum('status', ['pending', 'approved', 'rejected'])->default('pending');
+            $table->text('reason')->nullable()->comment('Reason given by the requesting staff member');
+
+            // Review
+            $table->foreignId('reviewed_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamp('reviewed_at')->nullable();
+            $table->text('review_note')->nullable();
+
+            $table->timestamps();
+
+            $table->index(['status', 'created_at'], 'idx_event_move_requests_status');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('event_move_requests');
+    }
+};
@@ -0,0 +1,31 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('events', function (Blueprint $table) {
+            $table->uuid('recurring_group_id')->nullable()->after('google_event_id')
+                ->comment('Shared by all events created together as one weekly recurring series');
+            $table->index('recurring_group_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('events', function (Blueprint $table) {
+            $table->dropIndex(['recurring_group_id']);
+            $table->dropColumn('recurring_group_id');
+        });
+    }
+};
@@ -0,0 +1,65 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Adds an explicit waitlist order (staff can reorder the queue) and
+     * tracks when, how and by whom a waitlisted client was promoted.
+     */
+    public function up(): void
+    {
+        Schema::table('class_registrations', function (Blueprint $table) {
+            $table->unsignedInteger('waitlist_position')->nullable()->after('payment_status')
+                ->comment('Queue order while status = waitlist, ties broken by booked_at');
+            $table->timestamp('promoted_at')->nullable()->after('waitlist_position');
+            $table->enum('promotion_type', ['auto', 'manual'])->nullable()->after('promoted_at')
+                ->comment('auto = freed spot, manual = promoted by staff/admin');
+            $table->foreignId('promoted_by')->nullable()->after('promotion_type')
+                ->constrained('users')->nullOnDelete();
+            $table->timestamp('promotion_notified_at')->nullable()->after('promoted_by');
+        });
+
+        // Number the existing queues per occurrence in booking order
+        $position = 0;
+        $occurrenceId = null;
+
+        DB::table('class_registrations')
+            ->where('status', 'waitlist')
+            ->orderBy('occurrence_id')
+            ->orderBy('booked_at')
+            ->orderBy('id')
+            ->select(['id', 'occurrence_id'])
+            ->chunk(500, function ($registrations) use (&$position, &$occurrenceId) {
+                foreach ($registrations as $registration) {
+                    if ($registration->occurrence_id !== $occurrenceId) {
+                        $occurrenceId = $registration->occurrence_id;
+                        $position = 0;
+                    }
+
+                    DB::table('class_registrations')
+                        ->where('id', $registration->id)
+                        ->update(['waitlist_position' => ++$position]);
+                }
+            });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('class_registrations', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('promoted_by');
+            $table->dropColumn(['waitlist_position', 'promoted_at', 'promotion_type', 'promotion_notified_at']);
+        });
+    }
+};
@@ -0,0 +1,57 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Credit ledger of passes: every issue, deduction (check-in/booking),
+     * refund (cancellation) and manual correction is recorded with the
+     * resulting balance. Also adds freeze/void bookkeeping to passes.
+     */
+    public function up(): void
+    {
+        Schema::create('pass_credit_transactions', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('pass_id')->constrained('passes')->cascadeOnDelete();
+            $table->foreignId('client_id')->constrained('clients')->cascadeOnDelete();
+            $table->enum('type', ['issue', 'deduction', 'refund', 'adjustment', 'extension', 'freeze', 'unfreeze', 'void']);
+            $table->integer('credits')->default(0)->comment('Signed credit change, 0 for lifecycle entries');
+            $table->integer('balance_after');
+            $table->string('reason')->nullable();
+            $table->foreignId('event_id')->nullable()->constrained('events')->nullOnDelete();
+            $table->foreignId('class_registration_id')->nullable()->constrained('class_registrations')->nullOnDelete();
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamp('created_at')->useCurrent();
+
+            $table->index(['client_id', 'created_at']);
+            $table->index(['pass_id', 'created_at']);
+        });
+
+        Schema::table('passes', function (Blueprint $table) {
+            $table->enum('status', ['active', 'expired', 'depleted', 'suspended', 'voided'])->default('active')->change();
+            $table->timestamp('frozen_at')->nullable()->after('status');
+            $table->timestamp('voided_at')->nullable()->after('frozen_at');
+            $table->string('void_reason')->nullable()->after('voided_at');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('passes', function (Blueprint $table) {
+            $table->dropColumn(['frozen_at', 'voided_at', 'void_reason']);
+            $table->enum('status', ['active', 'expired', 'depleted', 'suspended'])->default('active')->change();
+        });
+
+        Schema::dropIfExists('pass_credit_transactions');
+    }
+};
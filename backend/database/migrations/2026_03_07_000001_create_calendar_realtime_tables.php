@@ -0,0 +1,50 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Calendar updates: append-only feed of event and class occurrence changes,
+     * read by the calendar stream to push changes to open calendars.
+     * Calendar edit sessions: who has an event or class open in an edit form,
+     * kept alive by heartbeats from the client.
+     */
+    public function up(): void
+    {
+        Schema::create('calendar_updates', function (Blueprint $table) {
+            $table->id();
+            $table->enum('entity_type', ['event', 'class_occurrence']);
+            $table->unsignedBigInteger('entity_id');
+            $table->enum('action', ['created', 'updated', 'deleted']);
+            $table->foreignId('actor_user_id')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamp('created_at')->useCurrent();
+
+            $table->index('created_at', 'idx_calendar_updates_created');
+        });
+
+        Schema::create('calendar_edit_sessions', function (Blueprint $table) {
+            $table->id();
+            $table->enum('entity_type', ['event', 'class_occurrence']);
+            $table->unsignedBigInteger('entity_id');
+            $table->foreignId('user_id')->constrained('users')->onDelete('cascade');
+            $table->timestamp('heartbeat_at');
+
+            $table->unique(['entity_type', 'entity_id', 'user_id'], 'uniq_calendar_edit_sessions');
+            $table->index('heartbeat_at', 'idx_calendar_edit_sessions_heartbeat');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('calendar_edit_sessions');
+        Schema::dropIfExists('calendar_updates');
+    }
+};
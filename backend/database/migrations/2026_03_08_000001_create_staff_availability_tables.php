@@ -0,0 +1,55 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Staff availabilities: weekly working hours of a trainer (several ranges per day allowed).
+     * A trainer without any weekly range is treated as available at any time.
+     * Staff availability exceptions: vacation, sick days and other absences overriding
+     * the weekly hours, either for whole days or for a time range on each day.
+     */
+    public function up(): void
+    {
+        Schema::create('staff_availabilities', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('staff_id')->constrained('staff_profiles')->onDelete('cascade');
+            $table->unsignedTinyInteger('weekday')->comment('ISO-8601 weekday, 1 = Monday ... 7 = Sunday');
+            $table->time('start_time');
+            $table->time('end_time');
+            $table->timestamps();
+
+            $table->index(['staff_id', 'weekday'], 'idx_staff_availabilities_staff_weekday');
+        });
+
+        Schema::create('staff_availability_exceptions', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('staff_id')->constrained('staff_profiles')->onDelete('cascade');
+            $table->enum('type', ['vacation', 'sick', 'other'])->default('vacation');
+            $table->date('starts_on');
+            $table->date('ends_on');
+            // Null times mean the whole day is unavailable
+            $table->time('start_time')->nullable();
+            $table->time('end_time')->nullable();
+            $table->string('note', 500)->nullable();
+            $table->foreignId('created_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamps();
+
+            $table->index(['staff_id', 'starts_on', 'ends_on'], 'idx_staff_availability_exceptions_range');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('staff_availability_exceptions');
+        Schema::dropIfExists('staff_availabilities');
+    }
+};
@@ -0,0 +1,36 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Individual sessions booked on the public site start as "pending"
+     * until the trainer (or an admin) confirms or declines them.
+     */
+    public function up(): void
+    {
+        Schema::table('events', function (Blueprint $table) {
+            $table->enum('status', ['pending', 'scheduled', 'completed', 'cancelled', 'no_show'])->default('scheduled')->change();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        DB::table('events')->where('status', 'pending')->update(['status' => 'cancelled']);
+
+        Schema::table('events', function (Blueprint $table) {
+            $table->enum('status', ['scheduled', 'completed', 'cancelled', 'no_show'])->default('scheduled')->change();
+        });
+    }
+};
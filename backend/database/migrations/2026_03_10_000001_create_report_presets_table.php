@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Named report filter sets ("Újbuda PT last month") saved by an admin. Filters hold the
+     * report query params (date range or relative range, trainer, site, room, service type).
+     */
+    public function up(): void
+    {
+        Schema::create('report_presets', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained('users')->onDelete('cascade');
+            $table->string('name', 100);
+            $table->json('filters');
+            $table->timestamps();
+
+            $table->unique(['user_id', 'name'], 'uq_report_presets_user_name');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('report_presets');
+    }
+};
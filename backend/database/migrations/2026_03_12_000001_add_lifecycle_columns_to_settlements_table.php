@@ -0,0 +1,51 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Settlement lifecycle:
+     * - locked_at: set when finalized; events, classes and bookings of the trainer
+     *   inside the period cannot be edited while it is set
+     * - paid_at / payment_reference: the transfer, also kept on the linked payout
+     */
+    public function up(): void
+    {
+        Schema::table('settlements', function (Blueprint $table) {
+            $table->timestamp('locked_at')->nullable()->after('status');
+            $table->foreignId('finalized_by')->nullable()->after('locked_at')->constrained('users')->onDelete('set null');
+            $table->date('paid_at')->nullable()->after('finalized_by');
+            $table->string('payment_reference', 100)->nullable()->after('paid_at');
+            $table->foreignId('payout_id')->nullable()->after('payment_reference')->constrained('payouts')->onDelete('set null');
+
+            $table->index(['trainer_id', 'locked_at'], 'idx_trainer_locked');
+        });
+
+        Schema::table('payouts', function (Blueprint $table) {
+            $table->date('paid_at')->nullable()->after('exported_at');
+            $table->string('payment_reference', 100)->nullable()->after('paid_at');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('payouts', function (Blueprint $table) {
+            $table->dropColumn(['paid_at', 'payment_reference']);
+        });
+
+        Schema::table('settlements', function (Blueprint $table) {
+            $table->dropIndex('idx_trainer_locked');
+            $table->dropConstrainedForeignId('payout_id');
+            $table->dropConstrainedForeignId('finalized_by');
+            $table->dropColumn(['locked_at', 'paid_at', 'payment_reference']);
+        });
+    }
+};
@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Settlement adjustments: manual bonus / deduction lines on top of the
+     * calculated trainer fee. Amounts are positive, the type gives the sign.
+     */
+    public function up(): void
+    {
+        Schema::create('settlement_adjustments', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('settlement_id')->constrained('settlements')->onDelete('cascade');
+            $table->enum('type', ['bonus', 'deduction']);
+            $table->integer('amount')->unsigned()->comment('Amount in HUF');
+            $table->string('reason', 255);
+            $table->foreignId('created_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamps();
+
+            $table->index('settlement_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('settlement_adjustments');
+    }
+};
@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Settlement unlocks: audit trail of finalized settlements reopened by an admin.
+     * NO UPDATES OR DELETES: one row per unlock, with the reason given.
+     */
+    public function up(): void
+    {
+        Schema::create('settlement_unlocks', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('settlement_id')->constrained('settlements')->onDelete('cascade');
+            $table->text('reason');
+            $table->foreignId('unlocked_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamp('created_at')->useCurrent();
+
+            $table->index('settlement_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('settlement_unlocks');
+    }
+};
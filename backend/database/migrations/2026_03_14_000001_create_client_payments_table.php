@@ -0,0 +1,41 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Client payments: money received from a client at the desk (cash, card or
+     * bank transfer). Optionally tied to the class registration it settled.
+     */
+    public function up(): void
+    {
+        Schema::create('client_payments', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('client_id')->constrained('clients')->onDelete('cascade');
+            $table->integer('amount')->unsigned()->comment('Amount in HUF');
+            $table->string('currency', 3)->default('HUF');
+            $table->enum('method', ['cash', 'card', 'transfer']);
+            $table->timestamp('paid_at');
+            $table->string('reference', 255)->nullable();
+            $table->string('notes', 500)->nullable();
+            $table->foreignId('class_registration_id')->nullable()->constrained('class_registrations')->onDelete('set null');
+            $table->foreignId('recorded_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamps();
+
+            $table->index(['client_id', 'paid_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('client_payments');
+    }
+};
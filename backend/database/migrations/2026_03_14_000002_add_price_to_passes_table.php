@@ -0,0 +1,31 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Purchase price of a pass, charged to the client's balance. Passes bought
+     * through WooCommerce or Stripe are paid at checkout.
+     */
+    public function up(): void
+    {
+        Schema::table('passes', function (Blueprint $table) {
+            $table->integer('price')->unsigned()->nullable()->after('external_reference')->comment('Purchase price in HUF');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('passes', function (Blueprint $table) {
+            $table->dropColumn('price');
+        });
+    }
+};
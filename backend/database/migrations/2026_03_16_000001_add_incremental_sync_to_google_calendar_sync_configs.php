@@ -0,0 +1,73 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Sync configs run on a schedule: each run pulls only the Google changes since
+     * the stored sync token and pushes local changes since the last run. Events
+     * imported from a config remember it, so they are never pushed back.
+     */
+    public function up(): void
+    {
+        Schema::table('google_calendar_sync_configs', function (Blueprint $table) {
+            $table->unsignedSmallInteger('sync_interval_minutes')->default(15)->after('sync_direction');
+            $table->text('sync_token')->nullable()->after('sync_options')->comment('Google nextSyncToken of the last pull');
+            $table->timestamp('last_synced_at')->nullable()->after('last_export_at');
+            $table->timestamp('next_sync_at')->nullable()->after('last_synced_at');
+            $table->unsignedInteger('consecutive_failures')->default(0)->after('next_sync_at');
+            $table->text('last_error')->nullable()->after('consecutive_failures');
+
+            $table->index(['sync_enabled', 'next_sync_at']);
+        });
+
+        Schema::table('google_calendar_sync_logs', function (Blueprint $table) {
+            $table->enum('operation', ['import', 'export', 'sync'])->change();
+        });
+
+        Schema::table('events', function (Blueprint $table) {
+            $table->foreignId('google_sync_config_id')
+                ->nullable()
+                ->after('google_event_id')
+                ->constrained('google_calendar_sync_configs')
+                ->nullOnDelete()
+                ->comment('Set on events imported from a Google Calendar sync config');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('events', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('google_sync_config_id');
+        });
+
+        DB::table('google_calendar_sync_logs')->where('operation', 'sync')->update(['operation' => 'import']);
+
+        Schema::table('google_calendar_sync_logs', function (Blueprint $table) {
+            $table->enum('operation', ['import', 'export'])->change();
+        });
+
+        Schema::table('google_calendar_sync_configs', function (Blueprint $table) {
+            $table->dropIndex(['sync_enabled', 'next_sync_at']);
+            $table->dropColumn([
+                'sync_interval_minutes',
+                'sync_token',
+                'last_synced_at',
+                'next_sync_at',
+                'consecutive_failures',
+                'last_error',
+            ]);
+        });
+    }
+};
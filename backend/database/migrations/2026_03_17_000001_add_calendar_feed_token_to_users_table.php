@@ -0,0 +1,34 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Private iCalendar feed of a staff member or client. The token is the only
+     * credential of the feed URL; clearing or replacing it revokes the URL.
+     */
+    public function up(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            $table->string('calendar_feed_token', 64)->nullable()->unique()->after('remember_token');
+            $table->timestamp('calendar_feed_created_at')->nullable()->after('calendar_feed_token');
+            $table->timestamp('calendar_feed_accessed_at')->nullable()->after('calendar_feed_created_at');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            $table->dropUnique(['calendar_feed_token']);
+            $table->dropColumn(['calendar_feed_token', 'calendar_feed_created_at', 'calendar_feed_accessed_at']);
+        });
+    }
+};
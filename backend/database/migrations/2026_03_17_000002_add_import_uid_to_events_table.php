@@ -0,0 +1,33 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * UID (and RECURRENCE-ID) of the .ics event a session was imported from, so the
+     * same file imported again does not create the sessions twice. Unique, so two
+     * imports running at once cannot both create one either.
+     */
+    public function up(): void
+    {
+        Schema::table('events', function (Blueprint $table) {
+            $table->string('import_uid')->nullable()->after('recurring_group_id')->unique();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('events', function (Blueprint $table) {
+            $table->dropUnique(['import_uid']);
+            $table->dropColumn('import_uid');
+        });
+    }
+};
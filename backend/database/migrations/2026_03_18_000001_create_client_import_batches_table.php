@@ -0,0 +1,39 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * Client import batches: one row per committed client import, with the records it
+     * created and the previous values of the ones it updated, so the batch can be undone.
+     */
+    public function up(): void
+    {
+        Schema::create('client_import_batches', function (Blueprint $table) {
+            $table->id();
+            $table->string('file_name')->nullable();
+            $table->string('status', 20)->default('completed'); // completed, undone
+            $table->json('summary');
+            $table->json('changes');
+            $table->foreignId('created_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamp('undone_at')->nullable();
+            $table->foreignId('undone_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamps();
+
+            $table->index(['status', 'created_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('client_import_batches');
+    }
+};
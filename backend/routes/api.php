@@ -123,14 +123,21 @@
 use App\Http\Controllers\Api\PublicController;
 use App\Http\Controllers\Api\SettingsController;
 use App\Http\Controllers\Api\NotificationPreferenceController;
+use App\Http\Controllers\Api\CalendarFeedController;
 use App\Http\Controllers\Api\Client\ClassController;
 use App\Http\Controllers\Api\Client\ClassBookingController;
 use App\Http\Controllers\Api\Client\ClientActivityController;
+use App\Http\Controllers\Api\Client\SessionBookingController;
 use App\Http\Controllers\Api\Staff\StaffEventController;
+use App\Http\Controllers\Api\Staff\EventMoveRequestController;
+use App\Http\Controllers\Api\Staff\BookingRequestController;
+use App\Http\Controllers\Api\Staff\CalendarStreamController;
+use App\Http\Controllers\Api\Staff\StaffAvailabilityController;
 use App\Http\Controllers\Api\Staff\EventCheckinController;
 use App\Http\Controllers\Api\Staff\StaffExportController;
 use App\Http\Controllers\Api\Staff\RoomController as StaffRoomController;
 use App\Http\Controllers\Api\Staff\ClientController as StaffClientController;
+use App\Http\Controllers\Api\Staff\PassController as StaffPassController;
 use App\Http\Controllers\Api\Admin\UserController;
 use App\Http\Controllers\Api\Admin\RoomController;
 use App\Http\Controllers\Api\Admin\SiteController;
@@ -143,14 +150,18 @@
 use App\Http\Controllers\Api\Admin\EventChangeController;
 use App\Http\Controllers\Api\Admin\CalendarChangeController;
 use App\Http\Controllers\Api\Admin\AdminEventController;
+use App\Http\Controllers\Api\Admin\EventImportController;
 use App\Http\Controllers\Api\Admin\AdminSettingsController;
+use App\Http\Controllers\Api\Admin\EventMoveRequestController as AdminEventMoveRequestController;
 use App\Http\Controllers\Api\Staff\StaffParticipantController;
 use App\Http\Controllers\Api\WebhookController;
 use App\Http\Controllers\Api\ServiceTypeController;
 use App\Http\Controllers\Api\ClientPriceCodeController;
+use App\Http\Controllers\Api\ClientLedgerController;
 use App\Http\Controllers\Api\StaffPriceCodeController;
 use App\Http\Controllers\Api\PricingResolveController;
 use App\Http\Controllers\Api\Admin\AdminReportController;
+use App\Http\Controllers\Api\Admin\ReportPresetController;
 use App\Http\Controllers\Api\Staff\StaffReportController;
 use App\Http\Controllers\Api\Client\ClientReportController;
 use App\Http\Controllers\Api\ExportController;
@@ -162,9 +173,12 @@
     // PUBLIC ROUTES (No authentication required)
     // ============================================
 
-    // Public classes calendar (unauthenticated)
+    // Public classes calendar and individual session slots (unauthenticated)
     Route::prefix('public')->group(function () {
         Route::get('/classes', [PublicController::class, 'listClasses']);
+        Route::get('/service-types', [PublicController::class, 'listServiceTypes']);
+        Route::get('/trainers', [PublicController::class, 'listTrainers']);
+        Route::get('/trainers/{staffId}/slots', [PublicController::class, 'listTrainerSlots']);
     });
 
     // Auth routes
@@ -184,6 +198,10 @@
         Route::get('/technical-guest-client-id', [SettingsController::class, 'getTechnicalGuestClientId']);
     });
 
+    // Personal iCalendar feed (public, the token in the URL is the credential)
+    Route::get('/calendar-feed/{token}.ics', [CalendarFeedController::class, 'feed'])
+        ->where('token', '[A-Za-z0-9]+');
+
     // Webhook routes (public, verified by signature)
     Route::prefix('webhooks')->group(function () {
         Route::post('/woocommerce', [WebhookController::class, 'woocommerce']);
@@ -220,11 +238,19 @@
             Route::get('/', [ClassController::class, 'index']);
             Route::get('/{id}', [ClassController::class, 'show']);
 
-            // Book/cancel (clients only)
+            // Book/cancel/reschedule (clients only)
             Route::post('/{occurrenceId}/book', [ClassBookingController::class, 'book']);
             Route::post('/{occurrenceId}/cancel', [ClassBookingController::class, 'cancel']);
+            Route::get('/{occurrenceId}/swap-options', [ClassBookingController::class, 'swapOptions']);
+            Route::post('/{occurrenceId}/swap', [ClassBookingController::class, 'swap']);
+
+            // "Add to calendar" .ics download (all authenticated users)
+            Route::get('/{occurrenceId}/ics', [CalendarFeedController::class, 'classOccurrence']);
         });
 
+        // Individual sessions booked online (clients only, confirmed by the trainer)
+        Route::post('/sessions/book', [SessionBookingController::class, 'store']);
+
         Route::prefix('clients/{clientId}')->group(function () {
             Route::get('/activity', [ClientActivityController::class, 'index']);
             Route::get('/passes', [ClientActivityController::class, 'passes']);
@@ -235,12 +261,18 @@
         Route::prefix('reports/client')->group(function () {
             Route::get('/my-activity', [ClientReportController::class, 'myActivity']);
             Route::get('/my-finance', [ClientReportController::class, 'myFinance']);
+            Route::get('/my-statement', [ClientReportController::class, 'myStatement']);
         });
 
         // Notification preferences (all authenticated users)
         Route::get('/notification-preferences', [NotificationPreferenceController::class, 'index']);
         Route::put('/notification-preferences', [NotificationPreferenceController::class, 'update']);
 
+        // Personal calendar feed URL (staff and clients)
+        Route::get('/calendar-feed', [CalendarFeedController::class, 'show']);
+        Route::post('/calendar-feed', [CalendarFeedController::class, 'store']);
+        Route::delete('/calendar-feed', [CalendarFeedController::class, 'destroy']);
+
         // ============================================
         // EXPORT ROUTES (All authenticated users)
         // ============================================
@@ -271,10 +303,32 @@
             Route::get('/all-events', [StaffEventController::class, 'allEvents']);
             Route::post('/events', [StaffEventController::class, 'store']);
             Route::post('/events/preview-recurring', [StaffEventController::class, 'previewRecurring']);
+            Route::patch('/events/recurring-group/{groupId}', [StaffEventController::class, 'updateGroup']);
             Route::delete('/events/recurring-group/{groupId}', [StaffEventController::class, 'destroyGroup']);
             Route::patch('/events/{id}', [StaffEventController::class, 'update']);
             Route::delete('/events/{id}', [StaffEventController::class, 'destroy']);
 
+            // Online booking requests (pending individual sessions)
+            Route::get('/booking-requests', [BookingRequestController::class, 'index']);
+            Route::post('/events/{id}/confirm', [BookingRequestController::class, 'confirm']);
+            Route::post('/events/{id}/decline', [BookingRequestController::class, 'decline']);
+
+            // Cross-day moves (preview + request for admin approval)
+            Route::post('/events/{id}/move-preview', [EventMoveRequestController::class, 'preview']);
+            Route::post('/events/{id}/move-requests', [EventMoveRequestController::class, 'store']);
+
+            // Realtime calendar (SSE stream + "being edited by" markers)
+            Route::get('/calendar/stream', [CalendarStreamController::class, 'stream']);
+            Route::post('/calendar/editing', [CalendarStreamController::class, 'startEditing']);
+            Route::delete('/calendar/editing', [CalendarStreamController::class, 'stopEditing']);
+
+            // Trainer working hours and absences
+            Route::get('/availability/calendar', [StaffAvailabilityController::class, 'calendar']);
+            Route::get('/trainers/{staffId}/availability', [StaffAvailabilityController::class, 'show']);
+            Route::put('/trainers/{staffId}/availability', [StaffAvailabilityController::class, 'updateWeekly']);
+            Route::post('/trainers/{staffId}/availability/exceptions', [StaffAvailabilityController::class, 'storeException']);
+            Route::delete('/availability/exceptions/{id}', [StaffAvailabilityController::class, 'destroyException']);
+
             // Check-in
             Route::post('/events/{eventId}/checkin', [EventCheckinController::class, 'checkinEvent']);
             Route::post('/classes/{occurrenceId}/checkin', [EventCheckinController::class, 'checkinClass']);
@@ -291,6 +345,20 @@
             Route::get('/clients/{id}', [StaffClientController::class, 'show']);
             Route::patch('/clients/{id}', [StaffClientController::class, 'update']);
 
+            // Pass management (issue, adjust credits, extend, freeze, void) and credit ledger
+            Route::get('/clients/{clientId}/passes', [StaffPassController::class, 'index']);
+            Route::post('/clients/{clientId}/passes', [StaffPassController::class, 'store']);
+            Route::get('/clients/{clientId}/pass-ledger', [StaffPassController::class, 'ledger']);
+            Route::post('/passes/{id}/adjust', [StaffPassController::class, 'adjust']);
+            Route::post('/passes/{id}/extend', [StaffPassController::class, 'extend']);
+            Route::post('/passes/{id}/freeze', [StaffPassController::class, 'freeze']);
+            Route::post('/passes/{id}/unfreeze', [StaffPassController::class, 'unfreeze']);
+            Route::post('/passes/{id}/void', [StaffPassController::class, 'void']);
+
+            // Client balance ledger and desk payments
+            Route::get('/clients/{clientId}/ledger', [ClientLedgerController::class, 'show']);
+            Route::post('/clients/{clientId}/payments', [ClientLedgerController::class, 'storePayment']);
+
             // Service types (read-only for staff)
             Route::get('/service-types', [ServiceTypeController::class, 'index']);
 
@@ -324,6 +392,9 @@
             Route::get('/class-occurrences/{id}/participants', [StaffParticipantController::class, 'listClassParticipants']);
             Route::post('/class-occurrences/{id}/participants', [StaffParticipantController::class, 'addClassParticipant']);
             Route::delete('/class-occurrences/{id}/participants/{clientId}', [StaffParticipantController::class, 'removeClassParticipant']);
+            Route::post('/class-occurrences/{id}/participants/{registrationId}/mark-paid', [StaffParticipantController::class, 'markClassParticipantPaid']);
+            Route::post('/class-occurrences/{id}/waitlist/{registrationId}/promote', [StaffParticipantController::class, 'promoteWaitlisted']);
+            Route::put('/class-occurrences/{id}/waitlist/order', [StaffParticipantController::class, 'reorderWaitlist']);
             Route::get('/events/{id}/participant', [StaffParticipantController::class, 'getEventParticipant']);
             Route::post('/events/{id}/participant', [StaffParticipantController::class, 'assignEventParticipant']);
             Route::delete('/events/{id}/participant', [StaffParticipantController::class, 'removeEventParticipant']);
@@ -375,8 +446,17 @@
                 Route::get('/trainer-summary', [AdminReportController::class, 'trainerSummary']);
                 Route::get('/site-client-list', [AdminReportController::class, 'siteClientList']);
                 Route::get('/finance-overview', [AdminReportController::class, 'financeOverview']);
+                Route::get('/trainer-sessions', [AdminReportController::class, 'trainerSessions']);
+                Route::get('/room-occupancy', [AdminReportController::class, 'roomOccupancy']);
+                Route::get('/outstanding-balances', [ClientLedgerController::class, 'outstanding']);
             });
 
+            // Saved report filter presets (per admin)
+            Route::get('/report-presets', [ReportPresetController::class, 'index']);
+            Route::post('/report-presets', [ReportPresetController::class, 'store']);
+            Route::put('/report-presets/{reportPreset}', [ReportPresetController::class, 'update']);
+            Route::delete('/report-presets/{reportPreset}', [ReportPresetController::class, 'destroy']);
+
             // Audit logs
             Route::get('/audit-logs', [AuditLogController::class, 'index']);
             Route::get('/events/{eventId}/audit-logs', [AuditLogController::class, 'showEventLogs']);
@@ -392,15 +472,26 @@
             Route::get('/events', [AdminEventController::class, 'index']);
             Route::post('/events', [AdminEventController::class, 'store']);
             Route::post('/events/preview-recurring', [AdminEventController::class, 'previewRecurring']);
+            Route::post('/events/import/preview', [EventImportController::class, 'preview']);
+            Route::post('/events/import', [EventImportController::class, 'import']);
+            Route::patch('/events/recurring-group/{groupId}', [AdminEventController::class, 'updateGroup']);
             Route::delete('/events/recurring-group/{groupId}', [AdminEventController::class, 'destroyGroup']);
             Route::get('/events/{id}', [AdminEventController::class, 'show']);
             Route::put('/events/{id}', [AdminEventController::class, 'update']);
             Route::delete('/events/{id}', [AdminEventController::class, 'destroy']);
 
+            // Event move requests (cross-day moves requested by staff)
+            Route::get('/event-move-requests', [AdminEventMoveRequestController::class, 'index']);
+            Route::post('/event-move-requests/{id}/approve', [AdminEventMoveRequestController::class, 'approve']);
+            Route::post('/event-move-requests/{id}/reject', [AdminEventMoveRequestController::class, 'reject']);
+
             // Participant management (admin can manage any event/class)
             Route::get('/class-occurrences/{id}/participants', [ParticipantController::class, 'listClassParticipants']);
             Route::post('/class-occurrences/{id}/participants', [ParticipantController::class, 'addClassParticipant']);
             Route::delete('/class-occurrences/{id}/participants/{clientId}', [ParticipantController::class, 'removeClassParticipant']);
+            Route::post('/class-occurrences/{id}/participants/{registrationId}/mark-paid', [ParticipantController::class, 'markClassParticipantPaid']);
+            Route::post('/class-occurrences/{id}/waitlist/{registrationId}/promote', [ParticipantController::class, 'promoteWaitlisted']);
+            Route::put('/class-occurrences/{id}/waitlist/order', [ParticipantController::class, 'reorderWaitlist']);
             Route::get('/events/{id}/participant', [ParticipantController::class, 'getEventParticipant']);
             Route::post('/events/{id}/participant', [ParticipantController::class, 'assignEventParticipant']);
             Route::delete('/events/{id}/participant', [ParticipantController::class, 'removeEventParticipant']);
@@ -422,6 +513,8 @@
                 Route::delete('/class-defaults/{id}', [App\Http\Controllers\Api\Admin\PricingController::class, 'destroyDefault']);
                 Route::post('/assign', [App\Http\Controllers\Api\Admin\PricingController::class, 'assignPricing']);
                 Route::post('/assign-event', [App\Http\Controllers\Api\Admin\PricingController::class, 'assignEventPricing']);
+                Route::get('/anomalies', [App\Http\Controllers\Api\Admin\PricingController::class, 'anomalies']);
+                Route::post('/anomalies/resolve', [App\Http\Controllers\Api\Admin\PricingController::class, 'resolveAnomalies']);
                 Route::get('/clients/{clientId}', [App\Http\Controllers\Api\Admin\PricingController::class, 'listClientPricing']);
                 Route::post('/client-class', [App\Http\Controllers\Api\Admin\PricingController::class, 'storeClientPricing']);
             });
@@ -431,8 +524,16 @@
                 Route::get('/', [App\Http\Controllers\Api\Admin\SettlementController::class, 'index']);
                 Route::get('/preview', [App\Http\Controllers\Api\Admin\SettlementController::class, 'preview']);
                 Route::post('/generate', [App\Http\Controllers\Api\Admin\SettlementController::class, 'generate']);
+                Route::get('/month-close/preview', [App\Http\Controllers\Api\Admin\SettlementController::class, 'monthClosePreview']);
+                Route::post('/month-close', [App\Http\Controllers\Api\Admin\SettlementController::class, 'monthClose']);
                 Route::get('/{id}', [App\Http\Controllers\Api\Admin\SettlementController::class, 'show']);
-                Route::patch('/{id}', [App\Http\Controllers\Api\Admin\SettlementController::class, 'updateStatus']);
+                Route::patch('/{id}', [App\Http\Controllers\Api\Admin\SettlementController::class, 'update']);
+                Route::post('/{id}/finalize', [App\Http\Controllers\Api\Admin\SettlementController::class, 'finalize']);
+                Route::post('/{id}/unlock', [App\Http\Controllers\Api\Admin\SettlementController::class, 'unlock']);
+                Route::post('/{id}/mark-paid', [App\Http\Controllers\Api\Admin\SettlementController::class, 'markPaid']);
+                Route::post('/{id}/adjustments', [App\Http\Controllers\Api\Admin\SettlementController::class, 'storeAdjustment']);
+                Route::delete('/{id}/adjustments/{adjustmentId}', [App\Http\Controllers\Api\Admin\SettlementController::class, 'destroyAdjustment']);
+                Route::get('/{id}/statement', [App\Http\Controllers\Api\Admin\SettlementController::class, 'statement']);
             });
 
             // Service Types management
@@ -440,6 +541,8 @@
             Route::patch('service-types/{service_type}/toggle-active', [ServiceTypeController::class, 'toggleActive']);
 
             // Client Price Codes management
+            Route::get('client-price-codes/scheduled-changes/preview', [ClientPriceCodeController::class, 'scheduleChangePreview']);
+            Route::post('client-price-codes/scheduled-changes', [ClientPriceCodeController::class, 'scheduleChange']);
             Route::get('clients/{client}/price-codes', [ClientPriceCodeController::class, 'index']);
             Route::post('clients/{client}/price-codes', [ClientPriceCodeController::class, 'store']);
             Route::patch('client-price-codes/{clientPriceCode}', [ClientPriceCodeController::class, 'update']);
@@ -457,8 +560,12 @@
             Route::apiResource('motivational-quotes', App\Http\Controllers\Api\Admin\MotivationalQuoteController::class)
                 ->only(['index', 'store', 'update', 'destroy']);
 
-            // Client CSV Import
+            // Client import (CSV / spreadsheet)
+            Route::post('clients/import/parse', [App\Http\Controllers\Api\Admin\ClientImportController::class, 'parse']);
+            Route::post('clients/import/dry-run', [App\Http\Controllers\Api\Admin\ClientImportController::class, 'dryRun']);
             Route::post('clients/import', [App\Http\Controllers\Api\Admin\ClientImportController::class, 'import']);
+            Route::get('clients/import/batches', [App\Http\Controllers\Api\Admin\ClientImportController::class, 'batches']);
+            Route::post('clients/import/batches/{batch}/undo', [App\Http\Controllers\Api\Admin\ClientImportController::class, 'undo']);
             Route::get('clients/import/service-types', [App\Http\Controllers\Api\Admin\ClientImportController::class, 'serviceTypes']);
 
             // Admin settings
@@ -475,6 +582,7 @@
                 Route::post('/configs', [App\Http\Controllers\Admin\GoogleCalendarSyncController::class, 'store']);
                 Route::put('/configs/{id}', [App\Http\Controllers\Admin\GoogleCalendarSyncController::class, 'update']);
                 Route::delete('/configs/{id}', [App\Http\Controllers\Admin\GoogleCalendarSyncController::class, 'destroy']);
+                Route::post('/configs/{id}/sync', [App\Http\Controllers\Admin\GoogleCalendarSyncController::class, 'syncNow']);
 
                 // Test connection
                 Route::post('/test-connection', [App\Http\Controllers\Admin\GoogleCalendarSyncController::class, 'testConnection']);
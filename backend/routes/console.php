@@ -44,6 +44,12 @@
     ->withoutOverlapping()
     ->runInBackground();
 
+// Incremental two-way Google Calendar sync; each config runs on its own interval
+Schedule::command('gcal:sync')
+    ->everyMinute()
+    ->onOneServer()
+    ->withoutOverlapping();
+
 // Calculate monthly payouts on the 1st of each month at 3:00 AM
 Schedule::command('payouts:calculate-monthly')
     ->monthlyOn(1, '03:00')
@@ -62,3 +68,8 @@
 Schedule::command('queue:prune-failed --hours=168')
     ->dailyAt('01:00')
     ->timezone('Europe/Budapest');
+
+// Clean up the realtime calendar feed daily at 1:30 AM
+Schedule::command('model:prune', ['--model' => 'App\\Models\\CalendarUpdate'])
+    ->dailyAt('01:30')
+    ->timezone('Europe/Budapest');
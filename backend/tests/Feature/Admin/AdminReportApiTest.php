@@ -319,6 +319,160 @@ public function test_admin_can_get_finance_overview_grouped_by_month(): void
         $this->assertEquals(15000, $data['summary']['net_income']); // 40000 - 25000
     }
 
+    public function test_finance_overview_breaks_down_fees_and_compares_to_previous_month(): void
+    {
+        $lastMonth = Carbon::now()->subMonthNoOverflow()->startOfMonth();
+
+        Event::factory()->count(2)->create([
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'service_type_id' => $this->serviceType->id,
+            'attendance_status' => 'attended',
+            'starts_at' => $lastMonth->copy()->addDays(3)->setTime(10, 0),
+            'ends_at' => $lastMonth->copy()->addDays(3)->setTime(11, 0),
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+        ]);
+
+        Event::factory()->create([
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'service_type_id' => $this->serviceType->id,
+            'attendance_status' => 'attended',
+            'starts_at' => $lastMonth->copy()->subMonthNoOverflow()->addDays(3)->setTime(10, 0),
+            'ends_at' => $lastMonth->copy()->subMonthNoOverflow()->addDays(3)->setTime(11, 0),
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->getJson('/api/v1/admin/reports/admin/finance-overview?' . http_build_query([
+            'from' => $lastMonth->format('Y-m-d'),
+            'to' => $lastMonth->copy()->endOfMonth()->format('Y-m-d'),
+            'groupBy' => 'month',
+        ]));
+
+        $response->assertOk()
+            ->assertJsonPath('data.breakdown.sites.0.name', 'Test Site')
+            ->assertJsonPath('data.breakdown.sites.0.trainers.0.id', $this->trainer->id)
+            ->assertJsonPath('data.breakdown.rooms.0.name', 'Test Room')
+            ->assertJsonPath('data.breakdown.service_types.0.name', 'Personal Training')
+            ->assertJsonPath('data.comparison.from', $lastMonth->copy()->subMonthNoOverflow()->format('Y-m-d'));
+
+        $this->assertEquals(16000, $response->json('data.breakdown.sites.0.total_entry_fee'));
+        $this->assertEquals(8000, $response->json('data.comparison.total_entry_fee'));
+    }
+
+    public function test_admin_can_drill_down_to_trainer_sessions(): void
+    {
+        Event::factory()->create([
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'service_type_id' => $this->serviceType->id,
+            'attendance_status' => 'attended',
+            'starts_at' => Carbon::now()->subDays(5)->setTime(10, 0),
+            'ends_at' => Carbon::now()->subDays(5)->setTime(11, 0),
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->getJson('/api/v1/admin/reports/admin/trainer-sessions?' . http_build_query([
+            'from' => Carbon::now()->subMonth()->format('Y-m-d'),
+            'to' => Carbon::now()->format('Y-m-d'),
+            'trainerId' => $this->trainer->id,
+            'site' => $this->site->id,
+        ]));
+
+        $response->assertOk()
+            ->assertJsonCount(1, 'data.individual_sessions')
+            ->assertJsonPath('data.individual_sessions.0.service_type', 'Personal Training')
+            ->assertJsonPath('data.individual_sessions.0.total_fee', 13000)
+            ->assertJsonCount(0, 'data.group_sessions');
+    }
+
+    public function test_itemized_reports_accept_trainer_site_room_and_service_type_filters(): void
+    {
+        $otherTrainer = StaffProfile::factory()->create();
+        $otherRoom = Room::factory()->create(['site_id' => Site::factory()->create()->id]);
+
+        foreach ([[$this->trainer, $this->room], [$otherTrainer, $this->room], [$this->trainer, $otherRoom]] as [$trainer, $room]) {
+            Event::factory()->create([
+                'staff_id' => $trainer->id,
+                'client_id' => $this->client->id,
+                'room_id' => $room->id,
+                'starts_at' => Carbon::now()->subDays(5)->setTime(10, 0),
+                'ends_at' => Carbon::now()->subDays(5)->setTime(11, 0),
+            ]);
+        }
+
+        Sanctum::actingAs($this->admin);
+
+        $params = [
+            'date_from' => Carbon::now()->subMonth()->format('Y-m-d'),
+            'date_to' => Carbon::now()->format('Y-m-d'),
+        ];
+
+        $this->getJson('/api/v1/admin/reports/utilization?' . http_build_query($params + [
+            'trainer_id' => $this->trainer->id,
+            'site_id' => $this->site->id,
+        ]))
+            ->assertOk()
+            ->assertJsonPath('data.summary.total_individual_sessions', 1)
+            ->assertJsonCount(1, 'data.staff_utilization')
+            ->assertJsonPath('data.filters.site_id', $this->site->id);
+
+        $this->getJson('/api/v1/admin/reports/attendance?' . http_build_query($params + [
+            'service_type' => 'GROUP_CLASS',
+        ]))
+            ->assertOk()
+            ->assertJsonPath('data.by_type.individual.total', 0);
+    }
+
+    public function test_admin_can_get_room_occupancy_by_weekday_and_hour(): void
+    {
+        // Monday, spans two hour slots
+        Event::factory()->create([
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'status' => 'scheduled',
+            'starts_at' => Carbon::parse('2025-01-06 10:30'),
+            'ends_at' => Carbon::parse('2025-01-06 11:30'),
+        ]);
+        Event::factory()->create([
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'status' => 'cancelled',
+            'starts_at' => Carbon::parse('2025-01-07 10:00'),
+            'ends_at' => Carbon::parse('2025-01-07 11:00'),
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->getJson('/api/v1/admin/reports/admin/room-occupancy?' . http_build_query([
+            'from' => '2025-01-06',
+            'to' => '2025-01-12',
+            'site' => $this->site->id,
+        ]));
+
+        $response->assertOk()
+            ->assertJsonCount(7 * 24, 'data.cells')
+            ->assertJsonPath('data.summary.room_count', 1)
+            ->assertJsonPath('data.summary.peak_weekday', 1);
+
+        $cells = collect($response->json('data.cells'));
+        $this->assertEquals(30, $cells->firstWhere(fn ($c) => $c['weekday'] === 1 && $c['hour'] === 10)['booked_minutes']);
+        $this->assertEquals(50, $cells->firstWhere(fn ($c) => $c['weekday'] === 1 && $c['hour'] === 11)['occupancy_rate']);
+        $this->assertEquals(0, $cells->firstWhere(fn ($c) => $c['weekday'] === 2 && $c['hour'] === 10)['booked_minutes']);
+    }
+
     public function test_admin_can_get_finance_overview_grouped_by_week(): void
     {
         Sanctum::actingAs($this->admin);
@@ -0,0 +1,281 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\Client;
+use App\Models\ClientImportBatch;
+use App\Models\ClientPriceCode;
+use App\Models\Pass;
+use App\Models\ServiceType;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Http\UploadedFile;
+use Laravel\Sanctum\Sanctum;
+use PhpOffice\PhpSpreadsheet\Spreadsheet;
+use PhpOffice\PhpSpreadsheet\Writer\Xlsx;
+
+class ClientImportApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private Client $client;
+    private ServiceType $serviceType;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+        $this->client = Client::factory()->create([
+            'user_id' => User::factory()->create([
+                'role' => 'client',
+                'name' => 'Nagy Péter',
+                'email' => 'peter@example.com',
+                'phone' => '+36301112222',
+            ])->id,
+            'full_name' => 'Nagy Péter',
+        ]);
+        $this->serviceType = ServiceType::factory()->create(['code' => 'PT', 'name' => 'Personal training']);
+
+        Sanctum::actingAs($this->admin);
+    }
+
+    public function test_parse_reads_windows_1250_csv_with_any_delimiter_and_suggests_mapping(): void
+    {
+        $content = iconv('UTF-8', 'Windows-1250', "Név,E-mail,Telefon,Szolgáltatás\nKovács Éva,eva@example.com,+36701234567,PT\n\n");
+
+        $response = $this->postJson('/api/v1/admin/clients/import/parse', [
+            'file' => UploadedFile::fake()->createWithContent('clients.csv', $content),
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.format', 'csv')
+            ->assertJsonPath('data.encoding', 'Windows-1250')
+            ->assertJsonPath('data.delimiter', ',')
+            ->assertJsonPath('data.headers', ['Név', 'E-mail', 'Telefon', 'Szolgáltatás'])
+            ->assertJsonPath('data.rows', [
+                ['row' => 2, 'values' => ['Kovács Éva', 'eva@example.com', '+36701234567', 'PT']],
+            ])
+            ->assertJsonPath('data.mapping', [
+                'name' => 0,
+                'email' => 1,
+                'phone' => 2,
+                'service_type' => 3,
+                'trainer_fee' => null,
+                'entry_fee' => null,
+            ]);
+    }
+
+    public function test_parse_reads_the_first_sheet_of_an_xlsx_file(): void
+    {
+        $spreadsheet = new Spreadsheet();
+        $spreadsheet->getActiveSheet()->fromArray([
+            ['nev', 'email', 'edzoi dij'],
+            ['Kovács Éva', 'eva@example.com', 8000],
+        ]);
+        $path = tempnam(sys_get_temp_dir(), 'import') . '.xlsx';
+        (new Xlsx($spreadsheet))->save($path);
+
+        $response = $this->postJson('/api/v1/admin/clients/import/parse', [
+            'file' => new UploadedFile($path, 'clients.xlsx', null, null, true),
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.format', 'xlsx')
+            ->assertJsonPath('data.rows.0.values', ['Kovács Éva', 'eva@example.com', '8000'])
+            ->assertJsonPath('data.mapping.trainer_fee', 2);
+
+        @unlink($path);
+    }
+
+    public function test_dry_run_classifies_rows_without_writing(): void
+    {
+        $response = $this->postJson('/api/v1/admin/clients/import/dry-run', [
+            'rows' => [
+                ['row' => 2, 'name' => 'Kovács Éva', 'email' => 'eva@example.com', 'service_type' => 'pt', 'trainer_fee' => '8 000 Ft'],
+                ['row' => 3, 'name' => 'Nagy Péter', 'email' => 'PETER@example.com'],
+                ['row' => 4, 'name' => 'Kovács Éva', 'email' => 'eva@example.com'],
+                ['row' => 5, 'name' => 'Minta Kata', 'email' => ''],
+                ['row' => 6, 'name' => '', 'email' => 'nobody@example.com', 'service_type' => 'Yoga'],
+                ['row' => 7, 'name' => 'Admin', 'email' => $this->admin->email],
+            ],
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.summary', ['total' => 6, 'create' => 1, 'update' => 1, 'duplicate' => 1, 'invalid' => 3]);
+
+        $rows = $response->json('data.rows');
+        $this->assertEquals(['create', 'update', 'duplicate', 'invalid', 'invalid', 'invalid'], array_column($rows, 'status'));
+        $this->assertEquals($this->serviceType->id, $rows[0]['service_type']['id']);
+        $this->assertEquals(8000, $rows[0]['trainer_fee']);
+        $this->assertEquals($this->client->id, $rows[1]['client']['id']);
+        $this->assertEquals(2, $rows[2]['duplicate_of']);
+        $this->assertEquals([['code' => 'email_missing', 'value' => null]], $rows[3]['errors']);
+        $this->assertEquals(['name_missing', 'service_type_not_found'], array_column($rows[4]['errors'], 'code'));
+        $this->assertEquals('email_in_use', $rows[5]['errors'][0]['code']);
+
+        $this->assertEquals(0, ClientImportBatch::count());
+        $this->assertFalse(User::where('email', 'eva@example.com')->exists());
+    }
+
+    public function test_placeholder_emails_are_only_used_when_asked_for(): void
+    {
+        $rows = $this->postJson('/api/v1/admin/clients/import/dry-run', [
+            'rows' => [
+                ['row' => 2, 'name' => 'Minta Kata'],
+                ['row' => 3, 'name' => 'Minta Kata'],
+                ['row' => 4, 'name' => 'Nagy Péter'],
+            ],
+            'placeholder_email' => true,
+        ])->assertOk()->json('data.rows');
+
+        $this->assertEquals('create', $rows[0]['status']);
+        $this->assertEquals('minta.kata@potoldazemailcimet.fontos.hu', $rows[0]['email']);
+        $this->assertEquals('placeholder_email', $rows[0]['warnings'][0]['code']);
+        $this->assertEquals('duplicate', $rows[1]['status']);
+        $this->assertEquals(2, $rows[1]['duplicate_of']);
+        $this->assertEquals('duplicate', $rows[2]['status']);
+        $this->assertEquals($this->client->id, $rows[2]['client']['id']);
+    }
+
+    public function test_import_applies_rows_and_records_a_batch(): void
+    {
+        ClientPriceCode::create([
+            'client_id' => $this->client->id,
+            'client_email' => 'peter@example.com',
+            'service_type_id' => $this->serviceType->id,
+            'entry_fee_brutto' => 1000,
+            'trainer_fee_brutto' => 5000,
+            'currency' => 'HUF',
+            'valid_from' => now(),
+            'is_active' => true,
+        ]);
+
+        $response = $this->postJson('/api/v1/admin/clients/import', [
+            'file_name' => 'clients.csv',
+            'rows' => [
+                ['row' => 2, 'name' => 'Kovács Éva', 'email' => 'eva@example.com', 'service_type' => 'PT', 'trainer_fee' => '8000', 'entry_fee' => '2000'],
+                ['row' => 3, 'name' => 'Nagy Péter Pál', 'email' => 'peter@example.com', 'service_type' => 'PT', 'trainer_fee' => '6000', 'entry_fee' => '1500'],
+                ['row' => 4, 'name' => '', 'email' => 'nobody@example.com'],
+            ],
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.batch.status', 'completed')
+            ->assertJsonPath('data.batch.file_name', 'clients.csv')
+            ->assertJsonPath('data.batch.summary', ['total' => 3, 'created' => 1, 'updated' => 1, 'rejected' => 1])
+            ->assertJsonPath('data.rejected.0.row', 4);
+
+        $eva = User::where('email', 'eva@example.com')->first();
+        $this->assertEquals('client', $eva->role);
+        $this->assertEquals(8000, $eva->client->priceCodes()->first()->trainer_fee_brutto);
+
+        $this->assertEquals('Nagy Péter Pál', $this->client->fresh()->full_name);
+        // An empty phone cell keeps the number on record
+        $this->assertEquals('+36301112222', $this->client->user->fresh()->phone);
+        $this->assertEquals(6000, $this->client->priceCodes()->first()->trainer_fee_brutto);
+    }
+
+    public function test_undo_rolls_back_a_batch(): void
+    {
+        $batchId = $this->postJson('/api/v1/admin/clients/import', [
+            'rows' => [
+                ['row' => 2, 'name' => 'Kovács Éva', 'email' => 'eva@example.com', 'service_type' => 'PT', 'trainer_fee' => '8000'],
+                ['row' => 3, 'name' => 'Minta Kata', 'email' => 'kata@example.com'],
+                ['row' => 4, 'name' => 'Nagy Péter Pál', 'email' => 'peter@example.com', 'phone' => '+36709998888'],
+            ],
+        ])->assertOk()->json('data.batch.id');
+
+        // Kata has bought a pass since, she stays
+        $kata = User::where('email', 'kata@example.com')->first()->client;
+        Pass::factory()->create(['client_id' => $kata->id]);
+
+        $this->postJson("/api/v1/admin/clients/import/batches/{$batchId}/undo")
+            ->assertOk()
+            ->assertJsonPath('data.batch.status', 'undone')
+            ->assertJsonPath('data.result.deleted', 1)
+            ->assertJsonPath('data.result.restored', 1)
+            ->assertJsonPath('data.result.kept.0.client_id', $kata->id);
+
+        $this->assertFalse(User::withTrashed()->where('email', 'eva@example.com')->exists());
+        $this->assertEquals(0, ClientPriceCode::count());
+        $this->assertNotNull($kata->fresh());
+        $this->assertEquals('Nagy Péter', $this->client->fresh()->full_name);
+        $this->assertEquals('+36301112222', $this->client->user->fresh()->phone);
+
+        $this->postJson("/api/v1/admin/clients/import/batches/{$batchId}/undo")->assertStatus(409);
+
+        $this->getJson('/api/v1/admin/clients/import/batches')
+            ->assertOk()
+            ->assertJsonPath('data.0.id', $batchId)
+            ->assertJsonPath('data.0.undone_by', $this->admin->name);
+    }
+
+    public function test_undo_restores_an_account_that_existed_without_a_client(): void
+    {
+        $user = User::factory()->create([
+            'role' => 'client',
+            'name' => 'Kovács Éva',
+            'email' => 'eva@example.com',
+            'phone' => '+36301234567',
+        ]);
+
+        $batchId = $this->postJson('/api/v1/admin/clients/import', [
+            'rows' => [
+                ['row' => 2, 'name' => 'Kovács Éva Anna', 'email' => 'eva@example.com', 'phone' => '+36709998888'],
+            ],
+        ])->assertOk()->json('data.batch.id');
+
+        $this->assertNotNull($user->fresh()->client);
+
+        $this->postJson("/api/v1/admin/clients/import/batches/{$batchId}/undo")
+            ->assertOk()
+            ->assertJsonPath('data.result.deleted', 1);
+
+        $user->refresh();
+        $this->assertNull($user->client);
+        $this->assertEquals('Kovács Éva', $user->name);
+        $this->assertEquals('+36301234567', $user->phone);
+    }
+
+    public function test_undo_leaves_kept_and_later_edited_clients_alone(): void
+    {
+        $batchId = $this->postJson('/api/v1/admin/clients/import', [
+            'rows' => [
+                ['row' => 2, 'name' => 'Minta Kata', 'email' => 'kata@example.com', 'service_type' => 'PT', 'trainer_fee' => '8000'],
+                ['row' => 3, 'name' => 'Nagy Péter Pál', 'email' => 'peter@example.com', 'service_type' => 'PT', 'trainer_fee' => '6000'],
+            ],
+        ])->assertOk()->json('data.batch.id');
+
+        $kata = User::where('email', 'kata@example.com')->first()->client;
+        Pass::factory()->create(['client_id' => $kata->id]);
+
+        // Péter's name was corrected by hand after the import
+        $this->client->update(['full_name' => 'Nagy Péter József']);
+
+        $this->postJson("/api/v1/admin/clients/import/batches/{$batchId}/undo")
+            ->assertOk()
+            ->assertJsonPath('data.result.deleted', 0)
+            ->assertJsonPath('data.result.restored', 0)
+            ->assertJsonPath('data.result.kept.0.client_id', $kata->id)
+            ->assertJsonPath('data.result.changed.0.client_id', $this->client->id);
+
+        // The kept client keeps the price code she was imported with
+        $this->assertEquals(8000, $kata->priceCodes()->first()->trainer_fee_brutto);
+        $this->assertEquals('Nagy Péter József', $this->client->fresh()->full_name);
+        $this->assertEquals(6000, $this->client->priceCodes()->first()->trainer_fee_brutto);
+    }
+
+    public function test_staff_cannot_import_clients(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'staff']));
+
+        $this->postJson('/api/v1/admin/clients/import/dry-run', [
+            'rows' => [['row' => 2, 'name' => 'Kovács Éva', 'email' => 'eva@example.com']],
+        ])->assertForbidden();
+    }
+}
@@ -0,0 +1,291 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\ClassTemplate;
+use App\Models\Client;
+use App\Models\ClientPayment;
+use App\Models\Event;
+use App\Models\Pass;
+use App\Models\PassCreditTransaction;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class ClientLedgerApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private Client $client;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        Carbon::setTestNow(Carbon::parse('2025-03-15 10:00'));
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+        $this->client = Client::factory()->create(['unpaid_balance' => 0]);
+    }
+
+    protected function tearDown(): void
+    {
+        Carbon::setTestNow();
+
+        parent::tearDown();
+    }
+
+    private function session(Carbon $startsAt, int $entryFee, array $attributes = []): Event
+    {
+        return Event::factory()->startingAt($startsAt)->create(array_merge([
+            'type' => 'INDIVIDUAL',
+            'status' => 'completed',
+            'client_id' => $this->client->id,
+            'entry_fee_brutto' => $entryFee,
+        ], $attributes));
+    }
+
+    private function unpaidRegistration(int $price = 2500): ClassRegistration
+    {
+        $template = ClassTemplate::factory()->create(['base_price_huf' => $price, 'credits_required' => 1]);
+        $occurrence = ClassOccurrence::factory()->create([
+            'template_id' => $template->id,
+            'trainer_id' => $template->trainer_id,
+        ]);
+
+        $this->client->update(['unpaid_balance' => $this->client->unpaid_balance + $price]);
+
+        return ClassRegistration::factory()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $this->client->id,
+            'credits_used' => 0,
+            'payment_status' => 'unpaid',
+        ]);
+    }
+
+    public function test_ledger_lists_charges_and_payments_with_running_balance(): void
+    {
+        $this->session(Carbon::parse('2025-03-01 09:00'), 10000);
+        ClientPayment::create([
+            'client_id' => $this->client->id,
+            'amount' => 4000,
+            'method' => 'cash',
+            'paid_at' => Carbon::parse('2025-03-02 12:00'),
+            'recorded_by' => $this->admin->id,
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger")
+            ->assertOk()
+            ->assertJsonCount(2, 'data.entries')
+            ->assertJsonPath('data.entries.0.type', 'session')
+            ->assertJsonPath('data.entries.0.balance_after', 10000)
+            ->assertJsonPath('data.entries.1.type', 'payment')
+            ->assertJsonPath('data.entries.1.amount', -4000)
+            ->assertJsonPath('data.entries.1.balance_after', 6000)
+            ->assertJsonPath('data.totals.balance', 6000);
+    }
+
+    public function test_sessions_paid_with_pass_credit_are_not_charged(): void
+    {
+        $event = $this->session(Carbon::parse('2025-03-01 09:00'), 10000);
+        $pass = Pass::factory()->create(['client_id' => $this->client->id]);
+        PassCreditTransaction::create([
+            'pass_id' => $pass->id,
+            'client_id' => $this->client->id,
+            'event_id' => $event->id,
+            'type' => 'deduction',
+            'credits' => -1,
+            'balance_after' => $pass->credits_left - 1,
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger")
+            ->assertOk()
+            ->assertJsonCount(0, 'data.entries')
+            ->assertJsonPath('data.totals.balance', 0);
+    }
+
+    public function test_future_sessions_are_not_charged_yet(): void
+    {
+        $this->session(Carbon::parse('2025-03-20 09:00'), 10000, ['status' => 'scheduled']);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger")
+            ->assertOk()
+            ->assertJsonCount(0, 'data.entries');
+    }
+
+    public function test_online_pass_purchase_is_settled_at_checkout(): void
+    {
+        Pass::factory()->create([
+            'client_id' => $this->client->id,
+            'source' => 'stripe',
+            'price' => 30000,
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger")
+            ->assertOk()
+            ->assertJsonCount(2, 'data.entries')
+            ->assertJsonPath('data.entries.1.method', 'online')
+            ->assertJsonPath('data.totals.balance', 0);
+    }
+
+    public function test_ledger_period_starts_from_opening_balance(): void
+    {
+        $this->session(Carbon::parse('2025-02-10 09:00'), 8000);
+        $this->session(Carbon::parse('2025-03-05 09:00'), 10000);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger?from=2025-03-01&to=2025-03-31")
+            ->assertOk()
+            ->assertJsonPath('data.opening_balance', 8000)
+            ->assertJsonCount(1, 'data.entries')
+            ->assertJsonPath('data.entries.0.balance_after', 18000)
+            ->assertJsonPath('data.totals.charges', 10000)
+            ->assertJsonPath('data.totals.payments', 0)
+            ->assertJsonPath('data.totals.balance', 18000);
+
+        // Lines after the period count neither in the totals nor in the closing balance
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger?to=2025-02-28")
+            ->assertOk()
+            ->assertJsonPath('data.totals.charges', 8000)
+            ->assertJsonPath('data.totals.balance', 8000);
+    }
+
+    public function test_records_payment_and_reduces_unpaid_balance(): void
+    {
+        $this->unpaidRegistration(2500);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson("/api/v1/staff/clients/{$this->client->id}/payments", [
+            'amount' => 2000,
+            'method' => 'card',
+            'reference' => 'POS-1234',
+        ])
+            ->assertCreated()
+            ->assertJsonPath('data.amount', 2000)
+            ->assertJsonPath('data.method', 'card');
+
+        $this->assertDatabaseHas('client_payments', [
+            'client_id' => $this->client->id,
+            'amount' => 2000,
+            'recorded_by' => $this->admin->id,
+        ]);
+        $this->assertEquals(500, (float) $this->client->fresh()->unpaid_balance);
+    }
+
+    public function test_payment_validation(): void
+    {
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson("/api/v1/staff/clients/{$this->client->id}/payments", [
+            'amount' => 0,
+            'method' => 'bitcoin',
+            'paid_at' => '2025-04-01',
+        ])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['amount', 'method', 'paid_at']);
+    }
+
+    public function test_mark_participant_paid_records_linked_payment(): void
+    {
+        $registration = $this->unpaidRegistration(2500);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson("/api/v1/admin/class-occurrences/{$registration->occurrence_id}/participants/{$registration->id}/mark-paid", [
+            'method' => 'cash',
+        ])
+            ->assertOk()
+            ->assertJsonPath('data.payment_status', 'paid')
+            ->assertJsonPath('data.amount', 2500);
+
+        $this->assertDatabaseHas('client_payments', [
+            'class_registration_id' => $registration->id,
+            'amount' => 2500,
+            'method' => 'cash',
+        ]);
+        $this->assertEquals(0, (float) $this->client->fresh()->unpaid_balance);
+
+        $this->getJson("/api/v1/staff/clients/{$this->client->id}/ledger")
+            ->assertOk()
+            ->assertJsonPath('data.totals.balance', 0);
+    }
+
+    public function test_mark_paid_rejects_settled_registration(): void
+    {
+        $registration = $this->unpaidRegistration();
+        $registration->update(['payment_status' => 'paid']);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson("/api/v1/admin/class-occurrences/{$registration->occurrence_id}/participants/{$registration->id}/mark-paid", [
+            'method' => 'cash',
+        ])->assertStatus(409);
+
+        $this->assertDatabaseCount('client_payments', 0);
+    }
+
+    public function test_staff_can_only_mark_paid_in_own_classes(): void
+    {
+        $registration = $this->unpaidRegistration();
+        $staffUser = User::factory()->create(['role' => 'staff']);
+        StaffProfile::factory()->create(['user_id' => $staffUser->id]);
+
+        Sanctum::actingAs($staffUser);
+
+        $this->postJson("/api/v1/staff/class-occurrences/{$registration->occurrence_id}/participants/{$registration->id}/mark-paid", [
+            'method' => 'cash',
+        ])->assertForbidden();
+    }
+
+    public function test_outstanding_balances_report(): void
+    {
+        $this->session(Carbon::parse('2025-03-01 09:00'), 10000);
+        $settled = Client::factory()->create();
+        Event::factory()->startingAt(Carbon::parse('2025-03-02 09:00'))->create([
+            'status' => 'completed',
+            'client_id' => $settled->id,
+            'entry_fee_brutto' => 5000,
+        ]);
+        ClientPayment::create([
+            'client_id' => $settled->id,
+            'amount' => 5000,
+            'method' => 'transfer',
+            'paid_at' => Carbon::parse('2025-03-03 12:00'),
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson('/api/v1/admin/reports/admin/outstanding-balances')
+            ->assertOk()
+            ->assertJsonCount(1, 'data.clients')
+            ->assertJsonPath('data.clients.0.client_id', $this->client->id)
+            ->assertJsonPath('data.clients.0.session_charges', 10000)
+            ->assertJsonPath('data.summary.total_outstanding', 10000);
+    }
+
+    public function test_outstanding_balances_requires_admin(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'staff']));
+
+        $this->getJson('/api/v1/admin/reports/admin/outstanding-balances')
+            ->assertForbidden();
+    }
+}
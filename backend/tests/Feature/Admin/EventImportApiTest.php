@@ -0,0 +1,289 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Http\UploadedFile;
+use Laravel\Sanctum\Sanctum;
+
+class EventImportApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private Room $room;
+    private StaffProfile $staff;
+    private Client $client;
+    private ServiceType $serviceType;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+        $this->room = Room::factory()->create(['name' => 'Studio A']);
+        $this->staff = StaffProfile::factory()->create([
+            'user_id' => User::factory()->create(['role' => 'staff', 'name' => 'Kiss Anna', 'email' => 'anna@example.com'])->id,
+        ]);
+        $this->client = Client::factory()->create([
+            'user_id' => User::factory()->create(['role' => 'client', 'email' => 'peter@example.com'])->id,
+            'full_name' => 'Nagy Péter',
+        ]);
+        $this->serviceType = ServiceType::factory()->create(['code' => 'PT', 'name' => 'Personal training']);
+
+        Sanctum::actingAs($this->admin);
+    }
+
+    private function csv(string ...$rows): UploadedFile
+    {
+        return UploadedFile::fake()->createWithContent(
+            'events.csv',
+            implode("\n", ['date;start;end;room;staff;client;service_type;type;notes', ...$rows])
+        );
+    }
+
+    public function test_preview_maps_rows_and_flags_invalid_ones(): void
+    {
+        $response = $this->postJson('/api/v1/admin/events/import/preview', [
+            'file' => $this->csv(
+                '2025-03-10;09:00;10:00;studio a;Kiss Anna;nagy péter;pt;;First session',
+                '2025-03-10;11:00;12:00;Studio B;Kiss Anna;;;;',
+                '2025-03-10;14:00;13:00;Studio A;anna@example.com;;;;',
+            ),
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.format', 'csv')
+            ->assertJsonPath('data.summary.total', 3)
+            ->assertJsonPath('data.summary.ok', 1)
+            ->assertJsonPath('data.summary.invalid', 2);
+
+        $rows = $response->json('data.rows');
+        $this->assertEquals(2, $rows[0]['row']);
+        $this->assertEquals('INDIVIDUAL', $rows[0]['type']);
+        $this->assertEquals($this->room->id, $rows[0]['room']['id']);
+        $this->assertEquals($this->staff->id, $rows[0]['staff']['id']);
+        $this->assertEquals($this->client->id, $rows[0]['client']['id']);
+        $this->assertEquals($this->serviceType->id, $rows[0]['service_type']['id']);
+        $this->assertEquals([['code' => 'room_not_found', 'value' => 'Studio B']], $rows[1]['errors']);
+        $this->assertEquals('invalid_time_range', $rows[2]['errors'][0]['code']);
+        $this->assertEquals(0, Event::count());
+    }
+
+    public function test_preview_flags_conflicts_with_existing_sessions_and_other_rows(): void
+    {
+        Event::factory()->create([
+            'room_id' => $this->room->id,
+            'staff_id' => $this->staff->id,
+            'status' => 'scheduled',
+            'starts_at' => Carbon::parse('2025-03-10 09:30'),
+            'ends_at' => Carbon::parse('2025-03-10 10:30'),
+        ]);
+
+        $rows = $this->postJson('/api/v1/admin/events/import/preview', [
+            'file' => $this->csv(
+                '2025-03-10;09:00;10:00;Studio A;Kiss Anna;;;;',
+                '2025-03-10;15:00;16:00;Studio A;Kiss Anna;;;;',
+                '2025-03-10;15:30;16:30;Studio A;Kiss Anna;;;;',
+                '2025-03-10;18:00;19:00;Studio A;Kiss Anna;;;;',
+            ),
+        ])->assertOk()->json('data.rows');
+
+        $this->assertEquals(['conflict', 'conflict', 'conflict', 'ok'], array_column($rows, 'status'));
+        $this->assertEquals('event', $rows[0]['conflicts'][0]['event_type']);
+        $this->assertEquals(30, $rows[0]['conflicts'][0]['overlap_minutes']);
+        $this->assertEquals('import_row', $rows[1]['conflicts'][0]['event_type']);
+        $this->assertEquals(4, $rows[1]['conflicts'][0]['event_id']);
+    }
+
+    public function test_import_creates_valid_rows_and_reports_rejected_ones(): void
+    {
+        $response = $this->postJson('/api/v1/admin/events/import', [
+            'file' => $this->csv(
+                '2025-03-10;09:00;10:00;Studio A;Kiss Anna;Nagy Péter;PT;;First session',
+                '2025-03-10;09:30;10:30;Studio A;Kiss Anna;;;;',
+                '2025-03-11;09:00;10:00;Studio A;Unknown Trainer;;;;',
+                '2025-03-12;09:00;10:00;;;;;BLOCK;Maintenance',
+            ),
+            'skip_rows' => [3],
+            'default_room_id' => $this->room->id,
+            'default_staff_id' => $this->staff->id,
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.summary.created', 2)
+            ->assertJsonPath('data.summary.skipped', 1)
+            ->assertJsonPath('data.summary.rejected', 1)
+            ->assertJsonPath('data.skipped', [3])
+            ->assertJsonPath('data.rejected.0.row', 4)
+            ->assertJsonPath('data.rejected.0.errors.0.code', 'staff_not_found');
+
+        $session = Event::where('client_id', $this->client->id)->first();
+        $this->assertEquals('INDIVIDUAL', $session->type);
+        $this->assertEquals($this->serviceType->id, $session->service_type_id);
+        $this->assertEquals('First session', $session->notes);
+        $this->assertEquals($this->admin->id, $session->created_by);
+        $this->assertNotNull($session->price_source);
+
+        $block = Event::where('type', 'BLOCK')->first();
+        $this->assertEquals($this->room->id, $block->room_id);
+        $this->assertEquals($this->staff->id, $block->staff_id);
+        $this->assertEquals('2025-03-12 09:00', $block->starts_at->format('Y-m-d H:i'));
+    }
+
+    public function test_imports_an_ics_file(): void
+    {
+        $ics = implode("\r\n", [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'BEGIN:VEVENT',
+            'UID:first@example.com',
+            'DTSTART;TZID=Europe/Budapest:20250310T090000',
+            'DTEND;TZID=Europe/Budapest:20250310T100000',
+            'SUMMARY:Knee rehab\, week 2',
+            'LOCATION:Studio A',
+            'ORGANIZER;CN=Anna:mailto:anna@example.com',
+            'ATTENDEE;CN="Nagy, Péter";ROLE=REQ-PARTICIPANT:mailto:peter@example.com',
+            'CATEGORIES:Yoga,PT',
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            'END:VALARM',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:second@example.com',
+            'DTSTART:20250311T080000Z',
+            'DURATION:PT45M',
+            'SUMMARY:Team meeting',
+            'LOCATION:Studio A',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:holiday@example.com',
+            'DTSTART;VALUE=DATE:20250315',
+            'SUMMARY:Holiday',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:weekly@example.com',
+            'DTSTART:20250312T080000Z',
+            'DTEND:20250312T090000Z',
+            'RRULE:FREQ=WEEKLY',
+            'LOCATION:Studio A',
+            'END:VEVENT',
+            'END:VCALENDAR',
+        ]);
+
+        $response = $this->postJson('/api/v1/admin/events/import', [
+            'file' => UploadedFile::fake()->createWithContent('calendar.ics', $ics),
+            'default_staff_id' => $this->staff->id,
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.summary.created', 2)
+            ->assertJsonPath('data.rejected.0.errors.0.code', 'all_day')
+            ->assertJsonPath('data.rejected.1.errors.0.code', 'recurring');
+
+        $session = Event::where('client_id', $this->client->id)->first();
+        $this->assertEquals('2025-03-10 09:00', $session->starts_at->format('Y-m-d H:i'));
+        $this->assertEquals($this->serviceType->id, $session->service_type_id);
+        $this->assertEquals('Knee rehab, week 2', $session->notes);
+
+        $meeting = Event::where('type', 'BLOCK')->first();
+        $this->assertEquals('2025-03-11 09:00', $meeting->starts_at->format('Y-m-d H:i'));
+        $this->assertEquals('2025-03-11 09:45', $meeting->ends_at->format('Y-m-d H:i'));
+    }
+
+    public function test_rejects_ics_events_imported_before(): void
+    {
+        $ics = implode("\r\n", [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'BEGIN:VEVENT',
+            'UID:meeting@example.com',
+            'DTSTART:20250311T080000Z',
+            'DURATION:PT45M',
+            'SUMMARY:Team meeting',
+            'LOCATION:Studio A',
+            'END:VEVENT',
+            'END:VCALENDAR',
+        ]);
+
+        $import = fn () => $this->postJson('/api/v1/admin/events/import', [
+            'file' => UploadedFile::fake()->createWithContent('calendar.ics', $ics),
+            'default_staff_id' => $this->staff->id,
+        ])->assertOk();
+
+        $import()->assertJsonPath('data.summary.created', 1);
+        $import()
+            ->assertJsonPath('data.summary.created', 0)
+            ->assertJsonPath('data.rejected.0.errors.0.code', 'already_imported');
+
+        $this->assertEquals(1, Event::count());
+        $this->assertEquals('meeting@example.com', Event::first()->import_uid);
+    }
+
+    public function test_rejects_repeated_uids_within_one_file(): void
+    {
+        $event = fn (string $day) => [
+            'BEGIN:VEVENT',
+            'UID:meeting@example.com',
+            "DTSTART:202503{$day}T080000Z",
+            'DURATION:PT45M',
+            'SUMMARY:Team meeting',
+            'LOCATION:Studio A',
+            'END:VEVENT',
+        ];
+        $ics = implode("\r\n", ['BEGIN:VCALENDAR', 'VERSION:2.0', ...$event('11'), ...$event('12'), 'END:VCALENDAR']);
+
+        $this->postJson('/api/v1/admin/events/import', [
+            'file' => UploadedFile::fake()->createWithContent('calendar.ics', $ics),
+            'default_staff_id' => $this->staff->id,
+        ])
+            ->assertOk()
+            ->assertJsonPath('data.summary.created', 1)
+            ->assertJsonPath('data.rejected.0.row', 2)
+            ->assertJsonPath('data.rejected.0.errors.0.code', 'duplicate_uid')
+            ->assertJsonPath('data.rejected.0.errors.0.value', '1');
+
+        $this->assertEquals(1, Event::count());
+    }
+
+    public function test_rejects_individual_rows_without_a_service_type(): void
+    {
+        $response = $this->postJson('/api/v1/admin/events/import', [
+            'file' => $this->csv(
+                '2025-03-10;09:00;10:00;Studio A;Kiss Anna;Nagy Péter;;;',
+                '2025-03-10;11:00;12:00;Studio A;Kiss Anna;;PT;INDIVIDUAL;',
+            ),
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.summary.created', 0)
+            ->assertJsonPath('data.rejected.0.errors.0.code', 'service_type_missing')
+            ->assertJsonPath('data.rejected.1.errors.0.code', 'client_missing');
+    }
+
+    public function test_rejects_csv_without_required_columns(): void
+    {
+        $this->postJson('/api/v1/admin/events/import/preview', [
+            'file' => UploadedFile::fake()->createWithContent('events.csv', "room;staff\nStudio A;Kiss Anna"),
+        ])->assertStatus(422);
+    }
+
+    public function test_staff_cannot_import_events(): void
+    {
+        Sanctum::actingAs($this->staff->user);
+
+        $this->postJson('/api/v1/admin/events/import/preview', [
+            'file' => $this->csv('2025-03-10;09:00;10:00;Studio A;Kiss Anna;;;;'),
+        ])->assertForbidden();
+    }
+}
@@ -0,0 +1,149 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\Settlement;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class MonthCloseApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private User $anna;
+    private User $bela;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+
+        $this->anna = User::factory()->create(['role' => 'staff', 'name' => 'Anna Kovács']);
+        $annaProfile = StaffProfile::factory()->create(['user_id' => $this->anna->id]);
+
+        $this->bela = User::factory()->create(['role' => 'staff', 'name' => 'Béla Nagy']);
+        $belaProfile = StaffProfile::factory()->create(['user_id' => $this->bela->id]);
+
+        $idle = User::factory()->create(['role' => 'staff', 'name' => 'Csaba Tóth']);
+        StaffProfile::factory()->create(['user_id' => $idle->id]);
+
+        $inactive = User::factory()->create(['role' => 'staff', 'name' => 'Dóra Kiss', 'status' => 'inactive']);
+        StaffProfile::factory()->create(['user_id' => $inactive->id]);
+
+        // Anna: one attended session and one whose attendance was never recorded
+        $this->session($annaProfile, '2025-01-15 10:00', ['attendance_status' => 'attended', 'trainer_fee_brutto' => 6000, 'entry_fee_brutto' => 9000]);
+        $this->session($annaProfile, '2025-01-20 10:00', ['attendance_status' => null]);
+
+        // Béla: January is already finalized
+        $this->session($belaProfile, '2025-01-10 10:00', ['attendance_status' => 'attended', 'trainer_fee_brutto' => 5000, 'entry_fee_brutto' => 8000]);
+        Settlement::create([
+            'trainer_id' => $this->bela->id,
+            'period_start' => '2025-01-01',
+            'period_end' => '2025-01-31',
+            'total_trainer_fee' => 5000,
+            'total_entry_fee' => 8000,
+            'status' => 'finalized',
+            'locked_at' => now(),
+            'created_by' => $this->admin->id,
+        ]);
+    }
+
+    private function session(StaffProfile $trainer, string $startsAt, array $attributes): Event
+    {
+        return Event::factory()->create(array_merge([
+            'staff_id' => $trainer->id,
+            'client_id' => Client::factory()->create()->id,
+            'room_id' => Room::factory()->create()->id,
+            'starts_at' => Carbon::parse($startsAt),
+            'ends_at' => Carbon::parse($startsAt)->addHour(),
+        ], $attributes));
+    }
+
+    public function test_preview_lists_every_active_trainer_with_issues_and_skip_reasons(): void
+    {
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->getJson('/api/v1/admin/settlements/month-close/preview?month=2025-01');
+
+        $response->assertOk()
+            ->assertJsonPath('data.period_start', '2025-01-01')
+            ->assertJsonPath('data.period_end', '2025-01-31')
+            ->assertJsonCount(3, 'data.trainers')
+            ->assertJsonPath('data.trainers.0.trainer_name', 'Anna Kovács')
+            ->assertJsonPath('data.trainers.0.total_trainer_fee', 6000)
+            ->assertJsonPath('data.trainers.0.skip_reason', null)
+            ->assertJsonCount(1, 'data.trainers.0.unchecked_attendance')
+            ->assertJsonPath('data.trainers.1.trainer_name', 'Béla Nagy')
+            ->assertJsonPath('data.trainers.1.skip_reason', 'locked')
+            ->assertJsonPath('data.trainers.2.trainer_name', 'Csaba Tóth')
+            ->assertJsonPath('data.trainers.2.skip_reason', 'no_items');
+    }
+
+    public function test_month_close_generates_drafts_and_reports_skipped_trainers(): void
+    {
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->postJson('/api/v1/admin/settlements/month-close', ['month' => '2025-01']);
+
+        $response->assertOk()
+            ->assertJsonCount(1, 'data.created')
+            ->assertJsonPath('data.created.0.trainer_id', $this->anna->id)
+            ->assertJsonPath('data.created.0.total_trainer_fee', 6000)
+            ->assertJsonPath('data.created.0.unchecked_attendance_count', 1)
+            ->assertJsonCount(2, 'data.skipped')
+            ->assertJsonPath('data.skipped.0.reason', 'locked')
+            ->assertJsonPath('data.skipped.1.reason', 'no_items');
+
+        $draft = Settlement::forTrainer($this->anna->id)->firstOrFail();
+        $this->assertSame('draft', $draft->status);
+        $this->assertSame('2025-01-01', $draft->period_start->toDateString());
+        $this->assertSame('2025-01-31', $draft->period_end->toDateString());
+
+        // Running it again does not duplicate the draft
+        $this->postJson('/api/v1/admin/settlements/month-close', ['month' => '2025-01'])
+            ->assertOk()
+            ->assertJsonCount(0, 'data.created')
+            ->assertJsonPath('data.skipped.0.reason', 'existing_settlement')
+            ->assertJsonPath('data.skipped.0.existing_settlement_id', $draft->id);
+    }
+
+    public function test_month_close_can_be_limited_to_selected_trainers(): void
+    {
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/settlements/month-close', [
+            'month' => '2025-01',
+            'trainer_ids' => [$this->bela->id],
+        ])
+            ->assertOk()
+            ->assertJsonCount(0, 'data.created')
+            ->assertJsonCount(1, 'data.skipped');
+
+        $this->assertFalse(Settlement::forTrainer($this->anna->id)->exists());
+    }
+
+    public function test_month_close_validates_month_and_requires_admin(): void
+    {
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/settlements/month-close', ['month' => '2025-13'])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['month']);
+
+        Sanctum::actingAs($this->anna);
+
+        $this->getJson('/api/v1/admin/settlements/month-close/preview?month=2025-01')
+            ->assertStatus(403);
+    }
+}
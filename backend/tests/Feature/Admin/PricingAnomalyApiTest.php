@@ -0,0 +1,200 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\ClassPricingDefault;
+use App\Models\ClassTemplate;
+use App\Models\Client;
+use App\Models\ClientPriceCode;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class PricingAnomalyApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private ServiceType $serviceType;
+    private Client $client;
+    private StaffProfile $trainer;
+    private Room $room;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+        $this->serviceType = ServiceType::factory()->pt()->create();
+        $this->client = Client::factory()->create();
+        $this->trainer = StaffProfile::factory()->create();
+        $this->room = Room::factory()->create();
+    }
+
+    private function event(array $attributes): Event
+    {
+        return Event::factory()->create(array_merge([
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'service_type_id' => $this->serviceType->id,
+            'starts_at' => Carbon::parse('2025-03-10 10:00'),
+            'ends_at' => Carbon::parse('2025-03-10 11:00'),
+        ], $attributes));
+    }
+
+    public function test_lists_missing_prices_and_unexpected_fallbacks(): void
+    {
+        ClientPriceCode::factory()->create([
+            'client_id' => $this->client->id,
+            'service_type_id' => $this->serviceType->id,
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+            'price_code' => 'VIP',
+            'is_active' => true,
+            'valid_from' => Carbon::parse('2025-01-01'),
+        ]);
+
+        $fallback = $this->event([
+            'entry_fee_brutto' => 10000,
+            'trainer_fee_brutto' => 6000,
+            'price_source' => 'service_type_default',
+        ]);
+        $missing = $this->event([
+            'starts_at' => Carbon::parse('2025-03-12 10:00'),
+            'ends_at' => Carbon::parse('2025-03-12 11:00'),
+            'entry_fee_brutto' => null,
+            'trainer_fee_brutto' => null,
+            'price_source' => null,
+        ]);
+        // Correctly priced events are not reported
+        $this->event([
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+            'price_source' => 'client_price_code',
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson('/api/v1/admin/pricing/anomalies?from=2025-03-01&to=2025-03-31')
+            ->assertOk()
+            ->assertJsonCount(2, 'data')
+            ->assertJsonPath('data.0.event_id', $fallback->id)
+            ->assertJsonPath('data.0.anomaly', 'unexpected_fallback')
+            ->assertJsonPath('data.0.expected_price_code.price_code', 'VIP')
+            ->assertJsonPath('data.1.event_id', $missing->id)
+            ->assertJsonPath('data.1.anomaly', 'missing_price');
+    }
+
+    public function test_fallback_is_expected_without_a_price_code_valid_at_the_session(): void
+    {
+        // Starts after the session
+        ClientPriceCode::factory()->create([
+            'client_id' => $this->client->id,
+            'service_type_id' => $this->serviceType->id,
+            'is_active' => true,
+            'valid_from' => Carbon::parse('2025-04-01'),
+        ]);
+        // Valid at the session but switched off
+        ClientPriceCode::factory()->create([
+            'client_id' => $this->client->id,
+            'service_type_id' => $this->serviceType->id,
+            'is_active' => false,
+            'valid_from' => Carbon::parse('2025-01-01'),
+        ]);
+
+        $this->event([
+            'entry_fee_brutto' => 10000,
+            'trainer_fee_brutto' => 6000,
+            'price_source' => 'service_type_default',
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson('/api/v1/admin/pricing/anomalies?from=2025-03-01&to=2025-03-31')
+            ->assertOk()
+            ->assertJsonCount(0, 'data');
+    }
+
+    public function test_re_resolves_event_pricing_from_client_price_codes(): void
+    {
+        ClientPriceCode::factory()->create([
+            'client_id' => $this->client->id,
+            'service_type_id' => $this->serviceType->id,
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+            'is_active' => true,
+            'valid_from' => Carbon::parse('2025-01-01'),
+        ]);
+
+        $event = $this->event([
+            'entry_fee_brutto' => null,
+            'trainer_fee_brutto' => null,
+            'price_source' => null,
+        ]);
+        $withoutServiceType = $this->event(['service_type_id' => null]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/pricing/anomalies/resolve', [
+            'event_ids' => [$event->id, $withoutServiceType->id],
+        ])
+            ->assertOk()
+            ->assertJsonPath('data.updated.0.event_id', $event->id)
+            ->assertJsonPath('data.updated.0.price_source', 'client_price_code')
+            ->assertJsonPath('data.failed.0.event_id', $withoutServiceType->id)
+            ->assertJsonPath('data.failed.0.reason', 'no_service_type');
+
+        $event->refresh();
+        $this->assertSame(8000, $event->entry_fee_brutto);
+        $this->assertSame(5000, $event->trainer_fee_brutto);
+        $this->assertSame('client_price_code', $event->price_source);
+    }
+
+    public function test_assigning_event_pricing_overrides_the_fees(): void
+    {
+        $event = $this->event([
+            'entry_fee_brutto' => null,
+            'trainer_fee_brutto' => null,
+            'price_source' => null,
+        ]);
+        $pricing = ClassPricingDefault::create([
+            'name' => 'Special rate',
+            'class_template_id' => ClassTemplate::factory()->create()->id,
+            'entry_fee_brutto' => 7000,
+            'trainer_fee_brutto' => 4500,
+            'currency' => 'HUF',
+            'valid_from' => now()->subDay(),
+            'is_active' => true,
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/pricing/assign-event', [
+            'event_id' => $event->id,
+            'pricing_id' => $pricing->id,
+        ])->assertOk();
+
+        $event->refresh();
+        $this->assertSame($pricing->id, $event->pricing_id);
+        $this->assertSame(7000, $event->entry_fee_brutto);
+        $this->assertSame(4500, $event->trainer_fee_brutto);
+        $this->assertSame('class_pricing_default', $event->price_source);
+    }
+
+    public function test_staff_cannot_list_anomalies(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'staff']));
+
+        $this->getJson('/api/v1/admin/pricing/anomalies?from=2025-03-01&to=2025-03-31')
+            ->assertStatus(403);
+    }
+}
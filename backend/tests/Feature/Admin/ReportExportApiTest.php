@@ -0,0 +1,116 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Jobs\GenerateReportExport;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\ReportExport;
+use App\Models\Room;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Illuminate\Support\Facades\Storage;
+use Laravel\Sanctum\Sanctum;
+
+class ReportExportApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        Storage::fake('local');
+        $this->admin = User::factory()->create(['role' => 'admin']);
+    }
+
+    public function test_admin_can_queue_itemized_report_export(): void
+    {
+        Queue::fake();
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->postJson('/api/v1/exports/reports', [
+            'report_key' => 'admin.payouts',
+            'params' => ['from' => '2025-01-01', 'to' => '2025-01-31'],
+            'format' => 'csv',
+        ]);
+
+        $response->assertStatus(201)
+            ->assertJsonPath('data.status', 'pending');
+
+        // Workers read the reports queue next to default, see docker-compose and DEPLOYMENT.md
+        Queue::assertPushedOn('reports', GenerateReportExport::class);
+    }
+
+    public function test_export_job_writes_csv_of_itemized_report(): void
+    {
+        $trainer = StaffProfile::factory()->create();
+        Event::factory()->create([
+            'staff_id' => $trainer->id,
+            'client_id' => Client::factory()->create()->id,
+            'room_id' => Room::factory()->create()->id,
+            'starts_at' => Carbon::parse('2025-01-10 10:00'),
+            'ends_at' => Carbon::parse('2025-01-10 11:00'),
+            'entry_fee_brutto' => 8000,
+            'trainer_fee_brutto' => 5000,
+        ]);
+
+        $export = ReportExport::create([
+            'user_id' => $this->admin->id,
+            'report_key' => 'admin.payouts',
+            'params' => ['from' => '2025-01-01', 'to' => '2025-01-31'],
+            'format' => 'csv',
+            'status' => 'pending',
+        ]);
+
+        GenerateReportExport::dispatchSync($export);
+
+        $export->refresh();
+        $this->assertSame('completed', $export->status);
+
+        $content = Storage::disk('local')->get($export->file_path);
+        $this->assertStringContainsString('"Edző"', $content);
+        $this->assertStringContainsString('"8000"', $content);
+
+        Sanctum::actingAs($this->admin);
+        $this->getJson('/api/v1/exports')
+            ->assertOk()
+            ->assertJsonPath('data.exports.0.file_name', 'admin_payouts_2025-01-01_2025-01-31.csv');
+    }
+
+    public function test_export_job_writes_xlsx_of_report_data(): void
+    {
+        $export = ReportExport::create([
+            'user_id' => $this->admin->id,
+            'report_key' => 'admin.finance-overview',
+            'params' => ['from' => '2025-01-01', 'to' => '2025-01-31', 'groupBy' => 'month'],
+            'format' => 'xlsx',
+            'status' => 'pending',
+        ]);
+
+        GenerateReportExport::dispatchSync($export);
+
+        $export->refresh();
+        $this->assertSame('completed', $export->status);
+        // XLSX files are zip archives
+        $this->assertStringStartsWith('PK', Storage::disk('local')->get($export->file_path));
+    }
+
+    public function test_staff_cannot_export_admin_reports(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'staff']));
+
+        $this->postJson('/api/v1/exports/reports', [
+            'report_key' => 'admin.payouts',
+            'params' => ['from' => '2025-01-01', 'to' => '2025-01-31'],
+        ])->assertStatus(403);
+    }
+}
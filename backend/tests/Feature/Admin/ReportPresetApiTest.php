@@ -0,0 +1,92 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\ReportPreset;
+use App\Models\Site;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class ReportPresetApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+    }
+
+    public function test_admin_can_save_and_list_own_presets(): void
+    {
+        $site = Site::factory()->create();
+        ReportPreset::create([
+            'user_id' => User::factory()->create(['role' => 'admin'])->id,
+            'name' => 'Someone else',
+            'filters' => ['range' => 'this_month'],
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/report-presets', [
+            'name' => 'Újbuda PT last month',
+            'filters' => [
+                'range' => 'last_month',
+                'date_from' => '2025-01-01',
+                'site_id' => $site->id,
+                'service_type' => 'INDIVIDUAL',
+                'room_id' => null,
+            ],
+        ])
+            ->assertStatus(201)
+            ->assertJsonPath('data.filters', [
+                'range' => 'last_month',
+                'site_id' => $site->id,
+                'service_type' => 'INDIVIDUAL',
+            ]);
+
+        $this->getJson('/api/v1/admin/report-presets')
+            ->assertOk()
+            ->assertJsonCount(1, 'data')
+            ->assertJsonPath('data.0.name', 'Újbuda PT last month');
+    }
+
+    public function test_preset_names_are_unique_per_admin_and_custom_range_needs_dates(): void
+    {
+        ReportPreset::create([
+            'user_id' => $this->admin->id,
+            'name' => 'Monthly',
+            'filters' => ['range' => 'this_month'],
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/report-presets', [
+            'name' => 'Monthly',
+            'filters' => ['range' => 'custom'],
+        ])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['name', 'filters.date_from', 'filters.date_to']);
+    }
+
+    public function test_admin_cannot_delete_another_admins_preset(): void
+    {
+        $preset = ReportPreset::create([
+            'user_id' => User::factory()->create(['role' => 'admin'])->id,
+            'name' => 'Private',
+            'filters' => ['range' => 'this_month'],
+        ]);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->deleteJson("/api/v1/admin/report-presets/{$preset->id}")->assertStatus(403);
+        $this->assertDatabaseHas('report_presets', ['id' => $preset->id]);
+    }
+}
@@ -0,0 +1,170 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\Client;
+use App\Models\ClientPriceCode;
+use App\Models\ServiceType;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class ScheduledPriceChangeApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private ServiceType $serviceType;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        Carbon::setTestNow(Carbon::parse('2025-03-15 10:00'));
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+        $this->serviceType = ServiceType::factory()->pt()->create();
+    }
+
+    protected function tearDown(): void
+    {
+        Carbon::setTestNow();
+
+        parent::tearDown();
+    }
+
+    private function priceCode(Client $client, array $attributes = []): ClientPriceCode
+    {
+        return ClientPriceCode::factory()->create(array_merge([
+            'client_id' => $client->id,
+            'service_type_id' => $this->serviceType->id,
+            'entry_fee_brutto' => 10000,
+            'trainer_fee_brutto' => 6000,
+            'valid_from' => Carbon::parse('2025-01-01'),
+            'valid_until' => null,
+            'is_active' => true,
+        ], $attributes));
+    }
+
+    private function payload(array $overrides = []): array
+    {
+        return array_merge([
+            'service_type_id' => $this->serviceType->id,
+            'effective_from' => '2025-04-01',
+            'mode' => 'percent',
+            'entry_fee_change' => 10,
+            'trainer_fee_change' => 5,
+        ], $overrides);
+    }
+
+    public function test_preview_lists_clients_with_new_fees(): void
+    {
+        $client = Client::factory()->create();
+        $this->priceCode($client);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->getJson('/api/v1/admin/client-price-codes/scheduled-changes/preview?' . http_build_query($this->payload()))
+            ->assertOk()
+            ->assertJsonCount(1, 'data.clients')
+            ->assertJsonPath('data.clients.0.client_id', $client->id)
+            ->assertJsonPath('data.clients.0.new_entry_fee_brutto', 11000)
+            ->assertJsonPath('data.clients.0.new_trainer_fee_brutto', 6300)
+            ->assertJsonPath('data.clients.0.skip_reason', null);
+    }
+
+    public function test_schedules_price_change_from_effective_date(): void
+    {
+        $client = Client::factory()->create();
+        $current = $this->priceCode($client, ['price_code' => 'VIP']);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/client-price-codes/scheduled-changes', $this->payload([
+            'mode' => 'amount',
+            'entry_fee_change' => 1500,
+            'trainer_fee_change' => 0,
+        ]))
+            ->assertOk()
+            ->assertJsonCount(1, 'data.created')
+            ->assertJsonPath('data.created.0.entry_fee_brutto', 11500);
+
+        $current->refresh();
+        $this->assertSame('2025-03-31 23:59:59', $current->valid_until->toDateTimeString());
+
+        $next = ClientPriceCode::where('client_id', $client->id)->whereKeyNot($current->id)->firstOrFail();
+        $this->assertSame('VIP', $next->price_code);
+        $this->assertSame(11500, $next->entry_fee_brutto);
+        $this->assertSame(6000, $next->trainer_fee_brutto);
+        $this->assertSame('2025-04-01 00:00:00', $next->valid_from->toDateTimeString());
+        $this->assertNull($next->valid_until);
+    }
+
+    public function test_sessions_are_priced_at_their_own_date(): void
+    {
+        $client = Client::factory()->create();
+        $this->priceCode($client);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/client-price-codes/scheduled-changes', $this->payload())->assertOk();
+
+        $resolve = fn (?string $date) => $this->getJson('/api/v1/pricing/resolve-by-ids?' . http_build_query(array_filter([
+            'client_id' => $client->id,
+            'service_type_id' => $this->serviceType->id,
+            'date' => $date,
+        ])));
+
+        $resolve(null)->assertOk()->assertJsonPath('data.entry_fee_brutto', 10000);
+        $resolve('2025-03-31 18:00')->assertOk()->assertJsonPath('data.entry_fee_brutto', 10000);
+        $resolve('2025-04-01 08:00')
+            ->assertOk()
+            ->assertJsonPath('data.entry_fee_brutto', 11000)
+            ->assertJsonPath('data.trainer_fee_brutto', 6300);
+    }
+
+    public function test_skips_clients_with_a_change_already_scheduled(): void
+    {
+        $client = Client::factory()->create();
+        $this->priceCode($client, ['valid_until' => Carbon::parse('2025-04-30 23:59:59')]);
+        $this->priceCode($client, ['valid_from' => Carbon::parse('2025-05-01')]);
+        $other = Client::factory()->create();
+        $this->priceCode($other);
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/client-price-codes/scheduled-changes', $this->payload([
+            'client_ids' => [$client->id],
+        ]))
+            ->assertOk()
+            ->assertJsonCount(0, 'data.created')
+            ->assertJsonPath('data.skipped.0.client_id', $client->id)
+            ->assertJsonPath('data.skipped.0.reason', 'already_scheduled');
+
+        // Clients that were not selected are left alone
+        $this->assertSame(1, ClientPriceCode::where('client_id', $other->id)->count());
+    }
+
+    public function test_effective_date_must_be_in_the_future(): void
+    {
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson('/api/v1/admin/client-price-codes/scheduled-changes', $this->payload([
+            'effective_from' => '2025-03-15',
+        ]))
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('effective_from');
+    }
+
+    public function test_staff_cannot_schedule_price_changes(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'staff']));
+
+        $this->postJson('/api/v1/admin/client-price-codes/scheduled-changes', $this->payload())
+            ->assertStatus(403);
+    }
+}
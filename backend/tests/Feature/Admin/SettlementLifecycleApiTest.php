@@ -0,0 +1,175 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Admin;
+
+use Tests\TestCase;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\Payout;
+use App\Models\Room;
+use App\Models\Settlement;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class SettlementLifecycleApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $admin;
+    private User $trainerUser;
+    private StaffProfile $trainer;
+    private Event $event;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->admin = User::factory()->create(['role' => 'admin']);
+        $this->trainerUser = User::factory()->create(['role' => 'staff', 'name' => 'Kovács Anna']);
+        $this->trainer = StaffProfile::factory()->create(['user_id' => $this->trainerUser->id]);
+
+        $this->event = Event::factory()->create([
+            'staff_id' => $this->trainer->id,
+            'client_id' => Client::factory()->create()->id,
+            'room_id' => Room::factory()->create()->id,
+            'attendance_status' => 'attended',
+            'starts_at' => Carbon::parse('2025-01-15 10:00'),
+            'ends_at' => Carbon::parse('2025-01-15 11:00'),
+            'trainer_fee_brutto' => 6000,
+            'entry_fee_brutto' => 9000,
+        ]);
+    }
+
+    private function draftSettlement(): Settlement
+    {
+        return Settlement::create([
+            'trainer_id' => $this->trainerUser->id,
+            'period_start' => '2025-01-01',
+            'period_end' => '2025-01-31',
+            'total_trainer_fee' => 6000,
+            'total_entry_fee' => 9000,
+            'status' => 'draft',
+            'created_by' => $this->admin->id,
+        ]);
+    }
+
+    public function test_finalized_settlement_locks_sessions_until_unlocked_with_reason(): void
+    {
+        $settlement = $this->draftSettlement();
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/finalize")
+            ->assertOk()
+            ->assertJsonPath('data.status', 'finalized');
+
+        $this->assertNotNull($settlement->fresh()->locked_at);
+
+        // Sessions of the trainer inside the period are read-only
+        $this->putJson("/api/v1/admin/events/{$this->event->id}", ['notes' => 'Changed later'])
+            ->assertStatus(423)
+            ->assertJsonPath('errors.locked', true);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/unlock", [])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['reason']);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/unlock", ['reason' => 'Missed a no-show'])
+            ->assertOk()
+            ->assertJsonPath('data.status', 'draft')
+            ->assertJsonPath('data.unlocks.0.reason', 'Missed a no-show');
+
+        $this->event->update(['notes' => 'Changed later']);
+        $this->assertSame('Changed later', $this->event->fresh()->notes);
+    }
+
+    public function test_adjustments_count_towards_payout_and_mark_paid_records_payout(): void
+    {
+        $settlement = $this->draftSettlement();
+
+        Sanctum::actingAs($this->admin);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/adjustments", [
+            'type' => 'bonus',
+            'amount' => 2000,
+            'reason' => 'Extra class cover',
+        ])->assertStatus(201);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/adjustments", [
+            'type' => 'deduction',
+            'amount' => 500,
+            'reason' => 'Locker key',
+        ])
+            ->assertStatus(201)
+            ->assertJsonPath('data.total_adjustments', 1500)
+            ->assertJsonPath('data.total_payable', 7500);
+
+        // Paying needs a finalized settlement
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/mark-paid", [
+            'paid_at' => '2025-02-05',
+            'payment_reference' => 'UTALAS-2025-02-001',
+        ])->assertStatus(409);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/finalize")->assertOk();
+
+        // Finalized settlements take no more adjustments
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/adjustments", [
+            'type' => 'bonus',
+            'amount' => 1000,
+            'reason' => 'Too late',
+        ])->assertStatus(423);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/mark-paid", [
+            'paid_at' => '2025-02-05',
+            'payment_reference' => 'UTALAS-2025-02-001',
+        ])
+            ->assertOk()
+            ->assertJsonPath('data.status', 'paid')
+            ->assertJsonPath('data.paid_at', '2025-02-05')
+            ->assertJsonPath('data.payment_reference', 'UTALAS-2025-02-001');
+
+        $payout = Payout::firstOrFail();
+        $this->assertSame($this->trainer->id, $payout->staff_id);
+        $this->assertEquals(7500, $payout->amount_total);
+        $this->assertEquals(1.0, $payout->hours_total);
+        $this->assertSame('UTALAS-2025-02-001', $payout->payment_reference);
+        $this->assertSame($payout->id, $settlement->fresh()->payout_id);
+
+        // Paid settlements stay closed
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/unlock", ['reason' => 'Wrong amount'])
+            ->assertStatus(409);
+    }
+
+    public function test_admin_can_download_payout_statement_pdf(): void
+    {
+        $settlement = $this->draftSettlement();
+
+        Sanctum::actingAs($this->admin);
+
+        $response = $this->get("/api/v1/admin/settlements/{$settlement->id}/statement");
+
+        $response->assertOk()
+            ->assertHeader('Content-Type', 'application/pdf');
+        $this->assertStringStartsWith('%PDF-1.4', $response->getContent());
+        $this->assertStringContainsString(
+            "kifizetesi_kimutatas_{$settlement->id}_2025-01-01_2025-01-31.pdf",
+            $response->headers->get('Content-Disposition')
+        );
+    }
+
+    public function test_staff_cannot_unlock_settlements(): void
+    {
+        $settlement = $this->draftSettlement();
+        $settlement->update(['status' => 'finalized', 'locked_at' => now()]);
+
+        Sanctum::actingAs($this->trainerUser);
+
+        $this->postJson("/api/v1/admin/settlements/{$settlement->id}/unlock", ['reason' => 'Please reopen'])
+            ->assertStatus(403);
+    }
+}
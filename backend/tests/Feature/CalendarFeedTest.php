@@ -0,0 +1,217 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature;
+
+use App\Mail\BookingConfirmation;
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\ClassTemplate;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Models\User;
+use App\Services\CalendarFeedService;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+use Tests\TestCase;
+
+class CalendarFeedTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $clientUser;
+    private Client $client;
+    private User $staffUser;
+    private StaffProfile $staff;
+    private Room $room;
+    private ServiceType $serviceType;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->clientUser = User::factory()->create(['role' => 'client']);
+        $this->client = Client::factory()->create(['user_id' => $this->clientUser->id]);
+
+        $this->staffUser = User::factory()->create(['role' => 'staff', 'name' => 'Trainer Tina']);
+        $this->staff = StaffProfile::factory()->create(['user_id' => $this->staffUser->id]);
+
+        $this->room = Room::factory()->create(['name' => 'Studio A']);
+        $this->serviceType = ServiceType::factory()->create(['name' => 'Physiotherapy']);
+    }
+
+    public function test_client_feed_lists_own_sessions_and_classes(): void
+    {
+        $this->session($this->client, 'Knee rehab exercises');
+        $this->session(Client::factory()->create(), 'Someone else');
+        $occurrence = $this->occurrence('Morning Pilates');
+        ClassRegistration::factory()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $this->client->id,
+        ]);
+
+        Sanctum::actingAs($this->clientUser);
+        $url = $this->postJson('/api/v1/calendar-feed')->assertOk()->json('data.url');
+
+        $ics = $this->get(parse_url($url, PHP_URL_PATH))
+            ->assertOk()
+            ->assertHeader('Content-Type', 'text/calendar; charset=utf-8')
+            ->getContent();
+
+        $this->assertStringContainsString('BEGIN:VCALENDAR', $ics);
+        $this->assertStringContainsString('Physiotherapy – Trainer Tina', $ics);
+        $this->assertStringContainsString('SUMMARY:Morning Pilates', $ics);
+        $this->assertStringNotContainsString('Someone else', $ics);
+        // Session notes are internal
+        $this->assertStringNotContainsString('Knee rehab exercises', $ics);
+        $this->assertEquals(2, substr_count($ics, 'BEGIN:VEVENT'));
+    }
+
+    public function test_client_feed_lists_a_rebooked_class_once(): void
+    {
+        $occurrence = $this->occurrence('Morning Pilates');
+        ClassRegistration::factory()->cancelled()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $this->client->id,
+            'created_at' => now()->subDay(),
+        ]);
+        ClassRegistration::factory()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $this->client->id,
+        ]);
+
+        Sanctum::actingAs($this->clientUser);
+        $url = $this->postJson('/api/v1/calendar-feed')->json('data.url');
+
+        $ics = $this->get(parse_url($url, PHP_URL_PATH))->assertOk()->getContent();
+
+        $this->assertEquals(1, substr_count($ics, 'BEGIN:VEVENT'));
+        $this->assertStringNotContainsString('STATUS:CANCELLED', $ics);
+    }
+
+    public function test_staff_feed_includes_notes_and_taught_classes(): void
+    {
+        $this->session($this->client, 'Knee rehab exercises');
+        $this->occurrence('Evening Yoga');
+
+        Sanctum::actingAs($this->staffUser);
+        $url = $this->postJson('/api/v1/calendar-feed')->assertOk()->json('data.url');
+
+        $ics = $this->get(parse_url($url, PHP_URL_PATH))->assertOk()->getContent();
+
+        $this->assertStringContainsString('Physiotherapy – ' . $this->client->full_name, $ics);
+        $this->assertStringContainsString('DESCRIPTION:Knee rehab exercises', $ics);
+        $this->assertStringContainsString('SUMMARY:Evening Yoga', $ics);
+    }
+
+    public function test_regenerating_the_url_revokes_the_old_one(): void
+    {
+        Sanctum::actingAs($this->clientUser);
+
+        $oldUrl = $this->postJson('/api/v1/calendar-feed')->json('data.url');
+        $newUrl = $this->postJson('/api/v1/calendar-feed')->json('data.url');
+
+        $this->assertNotEquals($oldUrl, $newUrl);
+        $this->get(parse_url($oldUrl, PHP_URL_PATH))->assertNotFound();
+        $this->get(parse_url($newUrl, PHP_URL_PATH))->assertOk();
+    }
+
+    public function test_client_can_revoke_the_feed(): void
+    {
+        Sanctum::actingAs($this->clientUser);
+        $url = $this->postJson('/api/v1/calendar-feed')->json('data.url');
+
+        $this->deleteJson('/api/v1/calendar-feed')
+            ->assertOk()
+            ->assertJsonPath('data.url', null);
+
+        $this->get(parse_url($url, PHP_URL_PATH))->assertNotFound();
+        $this->getJson('/api/v1/calendar-feed')->assertJsonPath('data.url', null);
+    }
+
+    public function test_feed_records_last_access(): void
+    {
+        Sanctum::actingAs($this->clientUser);
+        $url = $this->postJson('/api/v1/calendar-feed')->json('data.url');
+
+        $this->get(parse_url($url, PHP_URL_PATH))->assertOk();
+
+        $this->assertNotNull($this->clientUser->fresh()->calendar_feed_accessed_at);
+        $this->assertNotNull($this->getJson('/api/v1/calendar-feed')->json('data.last_accessed_at'));
+    }
+
+    public function test_user_without_staff_or_client_profile_cannot_create_a_feed(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+
+        $this->postJson('/api/v1/calendar-feed')->assertForbidden();
+    }
+
+    public function test_client_can_download_a_class_as_ics(): void
+    {
+        $occurrence = $this->occurrence('Morning Pilates');
+        ClassRegistration::factory()->waitlist()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $this->client->id,
+        ]);
+
+        Sanctum::actingAs($this->clientUser);
+
+        $ics = $this->get("/api/v1/classes/{$occurrence->id}/ics")
+            ->assertOk()
+            ->assertHeader('Content-Disposition', 'attachment; filename="class-' . $occurrence->id . '.ics"')
+            ->getContent();
+
+        $this->assertStringContainsString('SUMMARY:Morning Pilates (waitlist)', $ics);
+        $this->assertStringContainsString('STATUS:TENTATIVE', $ics);
+        $this->assertStringContainsString('LOCATION:Studio A', $ics);
+    }
+
+    public function test_booking_confirmation_attaches_the_class(): void
+    {
+        $occurrence = $this->occurrence('Morning Pilates');
+        $registration = ClassRegistration::factory()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $this->client->id,
+        ]);
+
+        $mailable = new BookingConfirmation($registration);
+
+        $mailable->assertHasAttachedData(
+            app(CalendarFeedService::class)->renderOccurrence($occurrence, $registration),
+            "class-{$occurrence->id}.ics",
+            ['mime' => 'text/calendar']
+        );
+    }
+
+    private function session(Client $client, string $notes): Event
+    {
+        return Event::factory()->create([
+            'type' => 'INDIVIDUAL',
+            'status' => 'scheduled',
+            'staff_id' => $this->staff->id,
+            'client_id' => $client->id,
+            'room_id' => $this->room->id,
+            'service_type_id' => $this->serviceType->id,
+            'starts_at' => Carbon::now()->addDays(2)->setTime(10, 0),
+            'ends_at' => Carbon::now()->addDays(2)->setTime(11, 0),
+            'notes' => $notes,
+        ]);
+    }
+
+    private function occurrence(string $title): ClassOccurrence
+    {
+        return ClassOccurrence::factory()
+            ->startingAt(Carbon::now()->addDays(3)->setTime(8, 0), 60)
+            ->create([
+                'template_id' => ClassTemplate::factory()->create(['title' => $title])->id,
+                'room_id' => $this->room->id,
+                'trainer_id' => $this->staff->id,
+            ]);
+    }
+}
@@ -0,0 +1,92 @@
+<?php
+
+declare(strict_types=1);
+
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\Client;
+use App\Models\Pass;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+uses(RefreshDatabase::class);
+
+describe('Group class attendance sheet', function () {
+    beforeEach(function () {
+        $this->staffUser = User::factory()->staff()->create();
+        $this->staffProfile = StaffProfile::factory()->create(['user_id' => $this->staffUser->id]);
+        $this->occurrence = ClassOccurrence::factory()
+            ->startingAt(Carbon::now()->subHour())
+            ->create(['trainer_id' => $this->staffProfile->id]);
+
+        Sanctum::actingAs($this->staffUser);
+    });
+
+    it('records attendance for several participants at once', function () {
+        $attended = ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $this->occurrence->id]);
+        $noShow = ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $this->occurrence->id]);
+
+        $response = $this->postJson("/api/v1/staff/classes/{$this->occurrence->id}/checkin", [
+            'registrations' => [
+                ['registration_id' => $attended->id, 'attendance_status' => 'attended'],
+                ['registration_id' => $noShow->id, 'attendance_status' => 'no_show'],
+            ],
+        ]);
+
+        $response->assertOk();
+        expect($attended->fresh()->status)->toBe('attended');
+        expect($attended->fresh()->checked_in_by)->toBe($this->staffUser->id);
+        expect($noShow->fresh()->status)->toBe('no_show');
+        expect($response->json('data.results.0.credit_result'))->toBe('already_paid');
+    });
+
+    it('does not charge a pass again for a booking paid at booking time', function () {
+        $client = Client::factory()->create();
+        $pass = Pass::factory()->active()->withCredits(10, 9)->create(['client_id' => $client->id]);
+        $registration = ClassRegistration::factory()->confirmed()->create([
+            'occurrence_id' => $this->occurrence->id,
+            'client_id' => $client->id,
+        ]);
+
+        $this->postJson("/api/v1/staff/classes/{$this->occurrence->id}/checkin", [
+            'registrations' => [['registration_id' => $registration->id, 'attendance_status' => 'attended']],
+        ])->assertOk();
+
+        expect($pass->fresh()->credits_left)->toBe(9);
+    });
+
+    it('pays an unpaid booking from the pass on attendance', function () {
+        $client = Client::factory()->create(['unpaid_balance' => 1000]);
+        $pass = Pass::factory()->active()->withCredits(10, 5)->create(['client_id' => $client->id]);
+        $registration = ClassRegistration::factory()->create([
+            'occurrence_id' => $this->occurrence->id,
+            'client_id' => $client->id,
+            'credits_used' => 0,
+            'payment_status' => 'unpaid',
+        ]);
+
+        $response = $this->postJson("/api/v1/staff/classes/{$this->occurrence->id}/checkin", [
+            'registrations' => [['registration_id' => $registration->id, 'attendance_status' => 'attended']],
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.results.0.credit_result', 'deducted')
+            ->assertJsonPath('data.results.0.credits_left', 4);
+        expect($pass->fresh()->credits_left)->toBe(4);
+        expect($registration->fresh()->payment_status)->toBe('paid');
+    });
+
+    it('skips registrations of other classes', function () {
+        $other = ClassRegistration::factory()->confirmed()->create();
+
+        $response = $this->postJson("/api/v1/staff/classes/{$this->occurrence->id}/checkin", [
+            'registrations' => [['registration_id' => $other->id, 'attendance_status' => 'attended']],
+        ]);
+
+        $response->assertOk()->assertJsonPath('data.results.0.status', 'skipped');
+        expect($other->fresh()->status)->toBe('booked');
+    });
+});
@@ -394,6 +394,99 @@
     });
 });
 
+describe('POST /api/v1/classes/{id}/swap - Reschedule Booking', function () {
+    beforeEach(function () {
+        $this->user = User::factory()->client()->create();
+        $this->client = Client::factory()->create(['user_id' => $this->user->id]);
+        $this->template = ClassTemplate::factory()->create();
+        Sanctum::actingAs($this->user);
+    });
+
+    it('lists other dates of the same class with free spots', function () {
+        // Arrange
+        $current = ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(3))
+            ->create(['template_id' => $this->template->id]);
+        ClassRegistration::factory()->confirmed()->create([
+            'occurrence_id' => $current->id,
+            'client_id' => $this->client->id,
+        ]);
+        $free = ClassOccurrence::factory()->withCapacity(5)->startingAt(Carbon::now()->addDays(5))
+            ->create(['template_id' => $this->template->id]);
+        $full = ClassOccurrence::factory()->withCapacity(1)->startingAt(Carbon::now()->addDays(6))
+            ->create(['template_id' => $this->template->id]);
+        ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $full->id]);
+        ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(5))->create();
+
+        // Act
+        $response = $this->getJson("/api/v1/classes/{$current->id}/swap-options");
+
+        // Assert
+        $response->assertOk();
+        expect(collect($response->json('data'))->pluck('id')->all())->toBe([$free->id]);
+    });
+
+    it('moves the booking and keeps the credit', function () {
+        // Arrange
+        $pass = Pass::factory()->active()->withCredits(10, 9)->create(['client_id' => $this->client->id]);
+        $current = ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(3))
+            ->create(['template_id' => $this->template->id]);
+        $target = ClassOccurrence::factory()->withCapacity(5)->startingAt(Carbon::now()->addDays(5))
+            ->create(['template_id' => $this->template->id]);
+        $registration = ClassRegistration::factory()->confirmed()->create([
+            'occurrence_id' => $current->id,
+            'client_id' => $this->client->id,
+        ]);
+
+        // Act
+        $response = $this->postJson("/api/v1/classes/{$current->id}/swap", [
+            'target_occurrence_id' => $target->id,
+        ]);
+
+        // Assert
+        $response->assertOk();
+        $registration->refresh();
+        expect($registration->occurrence_id)->toBe($target->id);
+        expect($registration->payment_status)->toBe('paid');
+        expect($pass->fresh()->credits_left)->toBe(9);
+    });
+
+    it('prevents rescheduling within 24h of class start', function () {
+        // Arrange
+        $current = ClassOccurrence::factory()->startingAt(Carbon::now()->addHours(10))
+            ->create(['template_id' => $this->template->id]);
+        $target = ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(5))
+            ->create(['template_id' => $this->template->id]);
+        ClassRegistration::factory()->confirmed()->create([
+            'occurrence_id' => $current->id,
+            'client_id' => $this->client->id,
+        ]);
+
+        // Act & Assert
+        $this->postJson("/api/v1/classes/{$current->id}/swap", ['target_occurrence_id' => $target->id])
+            ->assertStatus(423);
+    });
+
+    it('prevents moving to a different class or a full one', function () {
+        // Arrange
+        $current = ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(3))
+            ->create(['template_id' => $this->template->id]);
+        ClassRegistration::factory()->confirmed()->create([
+            'occurrence_id' => $current->id,
+            'client_id' => $this->client->id,
+        ]);
+        $otherClass = ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(5))->create();
+        $full = ClassOccurrence::factory()->withCapacity(1)->startingAt(Carbon::now()->addDays(5))
+            ->create(['template_id' => $this->template->id]);
+        ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $full->id]);
+
+        // Act & Assert
+        $this->postJson("/api/v1/classes/{$current->id}/swap", ['target_occurrence_id' => $otherClass->id])
+            ->assertStatus(451);
+        $this->postJson("/api/v1/classes/{$current->id}/swap", ['target_occurrence_id' => $full->id])
+            ->assertStatus(409);
+    });
+});
+
 describe('Class Booking - Edge Cases', function () {
     beforeEach(function () {
         $this->user = User::factory()->client()->create();
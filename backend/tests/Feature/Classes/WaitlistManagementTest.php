@@ -0,0 +1,126 @@
+<?php
+
+declare(strict_types=1);
+
+use App\Jobs\SendWaitlistPromotion;
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\Client;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+uses(RefreshDatabase::class);
+
+describe('Staff waitlist management', function () {
+    beforeEach(function () {
+        Queue::fake();
+
+        $this->staffUser = User::factory()->staff()->create();
+        $this->staffProfile = StaffProfile::factory()->create(['user_id' => $this->staffUser->id]);
+        $this->occurrence = ClassOccurrence::factory()
+            ->withCapacity(1)
+            ->startingAt(Carbon::now()->addDays(3))
+            ->create(['trainer_id' => $this->staffProfile->id]);
+
+        ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $this->occurrence->id]);
+
+        // Waitlist positions are assigned in creation order
+        $this->first = ClassRegistration::factory()->waitlist()->create(['occurrence_id' => $this->occurrence->id]);
+        $this->second = ClassRegistration::factory()->waitlist()->create(['occurrence_id' => $this->occurrence->id]);
+
+        Sanctum::actingAs($this->staffUser);
+    });
+
+    it('lists waitlisted clients with their queue position', function () {
+        $response = $this->getJson("/api/v1/staff/class-occurrences/{$this->occurrence->id}/participants");
+
+        $response->assertOk();
+        $participants = collect($response->json('data.participants'));
+        expect($participants->firstWhere('registration_id', $this->first->id)['waitlist_position'])->toBe(1);
+        expect($participants->firstWhere('registration_id', $this->second->id)['waitlist_position'])->toBe(2);
+    });
+
+    it('puts a registration moved onto the waitlist at the end of the queue', function () {
+        $registration = ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $this->occurrence->id]);
+
+        $registration->update(['status' => 'waitlist']);
+
+        expect($registration->fresh()->waitlist_position)->toBe(3);
+    });
+
+    it('reorders the waitlist', function () {
+        $response = $this->putJson("/api/v1/staff/class-occurrences/{$this->occurrence->id}/waitlist/order", [
+            'registration_ids' => [$this->second->id, $this->first->id],
+        ]);
+
+        $response->assertOk();
+        expect($this->second->fresh()->waitlist_position)->toBe(1);
+        expect($this->first->fresh()->waitlist_position)->toBe(2);
+    });
+
+    it('rejects an order that does not contain the whole waitlist', function () {
+        $this->putJson("/api/v1/staff/class-occurrences/{$this->occurrence->id}/waitlist/order", [
+            'registration_ids' => [$this->second->id],
+        ])->assertUnprocessable();
+    });
+
+    it('requires confirmation to promote into a full class', function () {
+        $this->postJson("/api/v1/staff/class-occurrences/{$this->occurrence->id}/waitlist/{$this->second->id}/promote")
+            ->assertStatus(409);
+
+        expect($this->second->fresh()->status)->toBe('waitlist');
+    });
+
+    it('promotes a waitlisted client manually and records who did it', function () {
+        $response = $this->postJson(
+            "/api/v1/staff/class-occurrences/{$this->occurrence->id}/waitlist/{$this->second->id}/promote",
+            ['override_capacity' => true]
+        );
+
+        $response->assertOk();
+        $promoted = $this->second->fresh();
+        expect($promoted->status)->toBe('booked');
+        expect($promoted->promotion_type)->toBe('manual');
+        expect($promoted->promoted_by)->toBe($this->staffUser->id);
+        expect($promoted->waitlist_position)->toBeNull();
+        Queue::assertPushed(SendWaitlistPromotion::class);
+    });
+
+    it('forbids managing the waitlist of another trainer\'s class', function () {
+        $otherOccurrence = ClassOccurrence::factory()->startingAt(Carbon::now()->addDays(3))->create();
+        $waitlisted = ClassRegistration::factory()->waitlist()->create(['occurrence_id' => $otherOccurrence->id]);
+
+        $this->postJson("/api/v1/staff/class-occurrences/{$otherOccurrence->id}/waitlist/{$waitlisted->id}/promote")
+            ->assertForbidden();
+    });
+});
+
+describe('Client waitlist position', function () {
+    it('shows the waitlist position in upcoming bookings', function () {
+        $user = User::factory()->client()->create();
+        $client = Client::factory()->create(['user_id' => $user->id]);
+        $occurrence = ClassOccurrence::factory()
+            ->withCapacity(1)
+            ->startingAt(Carbon::now()->addDays(3))
+            ->create();
+
+        ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $occurrence->id]);
+        ClassRegistration::factory()->waitlist()->create(['occurrence_id' => $occurrence->id]);
+        ClassRegistration::factory()->waitlist()->create([
+            'occurrence_id' => $occurrence->id,
+            'client_id' => $client->id,
+        ]);
+
+        Sanctum::actingAs($user);
+        $response = $this->getJson("/api/v1/clients/{$client->id}/upcoming");
+
+        $response->assertOk();
+        $booking = collect($response->json('data'))->firstWhere('type', 'class');
+        expect($booking['status'])->toBe('waitlist');
+        expect($booking['waitlist_position'])->toBe(2);
+    });
+});
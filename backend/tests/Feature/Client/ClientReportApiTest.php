@@ -307,6 +307,88 @@ public function test_client_finance_shows_active_passes(): void
         $this->assertEquals(5, $activePasses[0]['remaining_credits']);
     }
 
+    public function test_client_finance_shows_entry_fee_per_session_and_balance(): void
+    {
+        // Arrange: one 1:1 session charged at its entry fee, one paid with a pass credit
+        $charged = Event::factory()->create([
+            'type' => 'INDIVIDUAL',
+            'status' => 'completed',
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'service_type_id' => $this->serviceType->id,
+            'entry_fee_brutto' => 12000,
+            'starts_at' => Carbon::now()->subDays(5),
+            'ends_at' => Carbon::now()->subDays(5)->addHour(),
+        ]);
+        $covered = Event::factory()->create([
+            'type' => 'INDIVIDUAL',
+            'status' => 'completed',
+            'staff_id' => $this->trainer->id,
+            'client_id' => $this->client->id,
+            'room_id' => $this->room->id,
+            'entry_fee_brutto' => 12000,
+            'starts_at' => Carbon::now()->subDays(3),
+            'ends_at' => Carbon::now()->subDays(3)->addHour(),
+        ]);
+        $pass = Pass::factory()->create([
+            'client_id' => $this->client->id,
+            'source' => 'manual',
+            'price' => 40000,
+        ]);
+        \App\Models\PassCreditTransaction::create([
+            'pass_id' => $pass->id,
+            'client_id' => $this->client->id,
+            'event_id' => $covered->id,
+            'type' => 'deduction',
+            'credits' => -1,
+            'balance_after' => $pass->credits_left - 1,
+        ]);
+
+        Sanctum::actingAs($this->clientUser);
+
+        // Act
+        $response = $this->getJson('/api/v1/reports/client/my-finance?' . http_build_query([
+            'from' => Carbon::now()->subMonth()->format('Y-m-d'),
+            'to' => Carbon::now()->format('Y-m-d'),
+            'groupBy' => 'month',
+        ]));
+
+        // Assert
+        $response->assertOk();
+        $sessions = collect($response->json('data.sessions'))->keyBy('id');
+        $this->assertEquals(12000, $sessions[$charged->id]['entry_fee']);
+        $this->assertEquals('Personal Training', $sessions[$charged->id]['service_name']);
+        $this->assertEquals(0, $sessions[$covered->id]['entry_fee']);
+        $this->assertEquals(1, $sessions[$covered->id]['credits_used']);
+        $this->assertEquals(12000, $response->json('data.summary.total_session_charges'));
+        $this->assertEquals(40000, $response->json('data.passes.0.price'));
+        $this->assertEquals(52000, $response->json('data.balance.outstanding'));
+    }
+
+    public function test_client_can_download_monthly_statement(): void
+    {
+        Sanctum::actingAs($this->clientUser);
+
+        $month = Carbon::now()->format('Y-m');
+        $response = $this->get('/api/v1/reports/client/my-statement?month=' . $month);
+
+        $response->assertOk();
+        $response->assertHeader('Content-Type', 'application/pdf');
+        $this->assertStringContainsString('egyenlegkivonat_' . $month . '.pdf', $response->headers->get('Content-Disposition'));
+        $this->assertStringStartsWith('%PDF', $response->getContent());
+    }
+
+    public function test_monthly_statement_rejects_future_month(): void
+    {
+        Sanctum::actingAs($this->clientUser);
+
+        $response = $this->getJson('/api/v1/reports/client/my-statement?month=' . Carbon::now()->addMonths(2)->format('Y-m'));
+
+        $response->assertStatus(422);
+        $response->assertJsonValidationErrors(['month']);
+    }
+
     // =========================================================================
     // VALIDATION TESTS
     // =========================================================================
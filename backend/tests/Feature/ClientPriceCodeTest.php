@@ -81,6 +81,45 @@ public function test_admin_can_create_client_price_code(): void
         ]);
     }
 
+    public function test_admin_can_create_future_dated_price_code_after_current_one(): void
+    {
+        ClientPriceCode::factory()->create([
+            'client_id' => $this->client->id,
+            'service_type_id' => $this->serviceType->id,
+            'valid_from' => now()->subMonth(),
+            'valid_until' => now()->addMonth()->startOfDay()->subSecond(),
+        ]);
+
+        $this->actingAs($this->admin)
+            ->postJson("/api/v1/admin/clients/{$this->client->id}/price-codes", [
+                'service_type_id' => $this->serviceType->id,
+                'entry_fee_brutto' => 9000,
+                'trainer_fee_brutto' => 6000,
+                'valid_from' => now()->addMonth()->format('Y-m-d'),
+            ])
+            ->assertCreated();
+    }
+
+    public function test_overlapping_active_price_code_is_rejected(): void
+    {
+        ClientPriceCode::factory()->create([
+            'client_id' => $this->client->id,
+            'service_type_id' => $this->serviceType->id,
+            'valid_from' => now()->subMonth(),
+            'valid_until' => null,
+        ]);
+
+        $this->actingAs($this->admin)
+            ->postJson("/api/v1/admin/clients/{$this->client->id}/price-codes", [
+                'service_type_id' => $this->serviceType->id,
+                'entry_fee_brutto' => 9000,
+                'trainer_fee_brutto' => 6000,
+                'valid_from' => now()->addMonth()->format('Y-m-d'),
+            ])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('service_type_id');
+    }
+
     public function test_admin_can_update_client_price_code(): void
     {
         $priceCode = ClientPriceCode::factory()->create([
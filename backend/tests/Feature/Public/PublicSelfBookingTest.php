@@ -0,0 +1,112 @@
+<?php
+
+declare(strict_types=1);
+
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\ServiceType;
+use App\Models\Site;
+use App\Models\StaffAvailability;
+use App\Models\StaffProfile;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    Queue::fake();
+
+    $this->serviceType = ServiceType::factory()->personalTraining()->create();
+    $this->staffUser = User::factory()->create(['role' => 'staff']);
+    $this->staff = StaffProfile::factory()->create([
+        'user_id' => $this->staffUser->id,
+        'default_site' => null,
+        'is_available_for_booking' => true,
+    ]);
+
+    $site = Site::factory()->create(['opening_hours' => null]);
+    $this->room = Room::factory()->forSite($site->id)->create();
+
+    // Monday 09:00-11:00, two weeks ahead so the minimum notice never applies
+    StaffAvailability::create(['staff_id' => $this->staff->id, 'weekday' => 1, 'start_time' => '09:00', 'end_time' => '11:00']);
+    $this->monday = Carbon::now()->next(Carbon::MONDAY)->addWeek()->startOfDay();
+});
+
+describe('GET /api/v1/public/trainers/{staffId}/slots', function () {
+    it('lists free slots within the weekly hours', function () {
+        $response = $this->getJson("/api/v1/public/trainers/{$this->staff->id}/slots?" . http_build_query([
+            'service_type_id' => $this->serviceType->id,
+            'from' => $this->monday->toDateString(),
+            'to' => $this->monday->toDateString(),
+        ]));
+
+        $response->assertOk();
+        $starts = collect($response->json('data'))->map(fn ($slot) => Carbon::parse($slot['starts_at'])->format('H:i'))->all();
+        expect($starts)->toBe(['09:00', '09:30', '10:00']);
+    });
+
+    it('hides slots overlapping the trainer\'s events', function () {
+        Event::factory()->create([
+            'staff_id' => $this->staff->id,
+            'room_id' => $this->room->id,
+            'status' => 'scheduled',
+            'starts_at' => $this->monday->copy()->setTime(9, 30),
+            'ends_at' => $this->monday->copy()->setTime(10, 0),
+        ]);
+
+        $response = $this->getJson("/api/v1/public/trainers/{$this->staff->id}/slots?" . http_build_query([
+            'service_type_id' => $this->serviceType->id,
+            'from' => $this->monday->toDateString(),
+            'to' => $this->monday->toDateString(),
+        ]));
+
+        $starts = collect($response->json('data'))->map(fn ($slot) => Carbon::parse($slot['starts_at'])->format('H:i'))->all();
+        expect($starts)->toBe(['10:00']);
+    });
+});
+
+describe('POST /api/v1/sessions/book', function () {
+    it('creates a pending individual session that the trainer confirms', function () {
+        $client = Client::factory()->create();
+        Sanctum::actingAs($client->user);
+
+        $response = $this->postJson('/api/v1/sessions/book', [
+            'service_type_id' => $this->serviceType->id,
+            'staff_id' => $this->staff->id,
+            'starts_at' => $this->monday->copy()->setTime(9, 0)->toIso8601String(),
+        ]);
+
+        $response->assertCreated()
+            ->assertJsonPath('data.status', 'pending')
+            ->assertJsonPath('data.type', 'INDIVIDUAL');
+
+        $event = Event::findOrFail($response->json('data.id'));
+        expect($event->entry_fee_brutto)->toBe(10000);
+
+        // The same slot cannot be booked twice
+        $this->postJson('/api/v1/sessions/book', [
+            'service_type_id' => $this->serviceType->id,
+            'staff_id' => $this->staff->id,
+            'starts_at' => $this->monday->copy()->setTime(9, 30)->toIso8601String(),
+        ])->assertStatus(409);
+
+        Sanctum::actingAs($this->staffUser);
+        $this->postJson("/api/v1/staff/events/{$event->id}/confirm")
+            ->assertOk()
+            ->assertJsonPath('data.status', 'scheduled');
+    });
+
+    it('rejects staff users', function () {
+        Sanctum::actingAs($this->staffUser);
+
+        $this->postJson('/api/v1/sessions/book', [
+            'service_type_id' => $this->serviceType->id,
+            'staff_id' => $this->staff->id,
+            'starts_at' => $this->monday->copy()->setTime(9, 0)->toIso8601String(),
+        ])->assertForbidden();
+    });
+});
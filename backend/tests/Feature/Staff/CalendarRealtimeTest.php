@@ -0,0 +1,189 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Staff;
+
+use Tests\TestCase;
+use App\Models\CalendarEditSession;
+use App\Models\CalendarUpdate;
+use App\Models\ClassOccurrence;
+use App\Models\ClassRegistration;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\StaffProfile;
+use App\Models\User;
+use App\Services\CalendarRealtimeService;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+class CalendarRealtimeTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $staffUser;
+    private StaffProfile $staffProfile;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        Queue::fake();
+
+        $this->staffUser = User::factory()->create(['role' => 'staff']);
+        $this->staffProfile = StaffProfile::factory()->create(['user_id' => $this->staffUser->id]);
+    }
+
+    private function createEvent(): Event
+    {
+        return Event::factory()->create([
+            'staff_id' => $this->staffProfile->id,
+            'room_id' => Room::factory()->create()->id,
+            'type' => 'BLOCK',
+            'starts_at' => Carbon::now()->addDays(2)->setTime(10, 0),
+            'ends_at' => Carbon::now()->addDays(2)->setTime(11, 0),
+        ]);
+    }
+
+    /**
+     * Test event create, update and delete are recorded in the calendar feed
+     */
+    public function test_event_changes_are_published(): void
+    {
+        Sanctum::actingAs($this->staffUser);
+
+        $event = $this->createEvent();
+        $event->update(['starts_at' => Carbon::now()->addDays(2)->setTime(12, 0), 'ends_at' => Carbon::now()->addDays(2)->setTime(13, 0)]);
+        $event->delete();
+
+        $actions = CalendarUpdate::where('entity_type', 'event')
+            ->where('entity_id', $event->id)
+            ->orderBy('id')
+            ->pluck('action')
+            ->all();
+
+        $this->assertEquals(['created', 'updated', 'deleted'], $actions);
+        $this->assertEquals($this->staffUser->id, CalendarUpdate::latest('id')->first()->actor_user_id);
+    }
+
+    /**
+     * Test the Google Calendar id written back by the sync job is not pushed as a change
+     */
+    public function test_google_event_id_update_is_not_published(): void
+    {
+        $event = $this->createEvent();
+        $countBefore = CalendarUpdate::count();
+
+        $event->update(['google_event_id' => 'gcal-123']);
+
+        $this->assertEquals($countBefore, CalendarUpdate::count());
+    }
+
+    /**
+     * Test booking a class publishes an update of its occurrence
+     */
+    public function test_class_booking_publishes_occurrence_update(): void
+    {
+        $occurrence = ClassOccurrence::factory()->withCapacity(5)->startingAt(Carbon::now()->addDays(3))->create();
+        $countBefore = CalendarUpdate::where('entity_type', 'class_occurrence')->where('entity_id', $occurrence->id)->count();
+
+        ClassRegistration::factory()->confirmed()->create(['occurrence_id' => $occurrence->id]);
+
+        $this->assertEquals(
+            $countBefore + 1,
+            CalendarUpdate::where('entity_type', 'class_occurrence')->where('entity_id', $occurrence->id)->count()
+        );
+    }
+
+    /**
+     * Test updates are replayed with the current item, and deletions without it
+     */
+    public function test_updates_since_contains_current_item(): void
+    {
+        $service = app(CalendarRealtimeService::class);
+        $lastId = $service->latestId();
+
+        $event = $this->createEvent();
+        $deleted = $this->createEvent();
+        $deleted->delete();
+
+        $updates = collect($service->updatesSince($lastId));
+
+        $created = $updates->firstWhere('entity_id', $event->id);
+        $this->assertEquals('created', $created['action']);
+        $this->assertEquals($event->id, $created['item']['id']);
+        $this->assertArrayHasKey('staff', $created['item']);
+
+        // The deleted event's "created" update is replayed as a deletion
+        $this->assertTrue($updates->where('entity_id', $deleted->id)->every(fn ($u) => $u['action'] === 'deleted' && $u['item'] === null));
+    }
+
+    /**
+     * Test the stream sends updates after the given position as Server-Sent Events
+     */
+    public function test_stream_sends_updates_as_server_sent_events(): void
+    {
+        config(['realtime.stream_seconds' => 1, 'realtime.poll_interval_ms' => 200]);
+        $lastId = app(CalendarRealtimeService::class)->latestId();
+        $event = $this->createEvent();
+
+        Sanctum::actingAs($this->staffUser);
+        $response = $this->get("/api/v1/staff/calendar/stream?since={$lastId}");
+
+        $response->assertOk();
+        $this->assertStringStartsWith('text/event-stream', $response->headers->get('Content-Type'));
+
+        $content = $response->streamedContent();
+        $this->assertStringContainsString('event: calendar.update', $content);
+        $this->assertStringContainsString('"entity_id":' . $event->id, $content);
+        $this->assertStringContainsString('event: calendar.editing', $content);
+    }
+
+    /**
+     * Test edit markers are listed until released
+     */
+    public function test_edit_markers_can_be_set_and_released(): void
+    {
+        $event = $this->createEvent();
+        Sanctum::actingAs($this->staffUser);
+
+        $this->postJson('/api/v1/staff/calendar/editing', ['entity_type' => 'event', 'entity_id' => $event->id])
+            ->assertOk();
+
+        $editors = app(CalendarRealtimeService::class)->activeEditors();
+        $this->assertCount(1, $editors);
+        $this->assertEquals($this->staffUser->name, $editors[0]['user_name']);
+
+        $this->deleteJson('/api/v1/staff/calendar/editing', ['entity_type' => 'event', 'entity_id' => $event->id])
+            ->assertOk();
+
+        $this->assertEquals(0, CalendarEditSession::count());
+    }
+
+    /**
+     * Test edit markers without a recent heartbeat are ignored
+     */
+    public function test_stale_edit_markers_are_ignored(): void
+    {
+        CalendarEditSession::create([
+            'entity_type' => 'event',
+            'entity_id' => 1,
+            'user_id' => $this->staffUser->id,
+            'heartbeat_at' => now()->subMinutes(5),
+        ]);
+
+        $this->assertSame([], app(CalendarRealtimeService::class)->activeEditors());
+    }
+
+    /**
+     * Test clients cannot open the calendar stream
+     */
+    public function test_clients_cannot_open_stream(): void
+    {
+        Sanctum::actingAs(User::factory()->create(['role' => 'client']));
+
+        $this->getJson('/api/v1/staff/calendar/stream')->assertForbidden();
+    }
+}
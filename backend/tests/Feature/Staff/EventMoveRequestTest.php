@@ -0,0 +1,182 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Staff;
+
+use Tests\TestCase;
+use App\Jobs\SendEventNotification;
+use App\Models\User;
+use App\Models\StaffProfile;
+use App\Models\Client;
+use App\Models\Event;
+use App\Models\EventMoveRequest;
+use App\Models\Room;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+class EventMoveRequestTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $staffUser;
+    private Event $event;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        Queue::fake();
+
+        $this->staffUser = User::factory()->create(['role' => 'staff']);
+        $staffProfile = StaffProfile::factory()->create(['user_id' => $this->staffUser->id]);
+        $clientUser = User::factory()->create(['role' => 'client']);
+        $client = Client::factory()->create(['user_id' => $clientUser->id]);
+
+        $this->event = Event::factory()->create([
+            'staff_id' => $staffProfile->id,
+            'room_id' => Room::factory()->create()->id,
+            'client_id' => $client->id,
+            'type' => 'INDIVIDUAL',
+            'starts_at' => Carbon::now()->addDays(2)->setTime(10, 0),
+            'ends_at' => Carbon::now()->addDays(2)->setTime(11, 0),
+        ]);
+    }
+
+    /**
+     * Test move preview lists the affected client and the email to be sent
+     */
+    public function test_move_preview_lists_clients_and_notifications(): void
+    {
+        Sanctum::actingAs($this->staffUser);
+
+        $response = $this->postJson("/api/v1/staff/events/{$this->event->id}/move-preview", [
+            'starts_at' => Carbon::now()->addDays(3)->setTime(10, 0)->toIso8601String(),
+            'ends_at' => Carbon::now()->addDays(3)->setTime(11, 0)->toIso8601String(),
+        ]);
+
+        $response->assertOk();
+        $response->assertJsonPath('data.is_cross_day', true);
+        $response->assertJsonPath('data.requires_approval', true);
+        $response->assertJsonCount(1, 'data.affected_clients');
+        $response->assertJsonPath('data.notifications.0.template', 'event_update');
+    }
+
+    /**
+     * Test staff can request a cross-day move and admin approval applies it
+     */
+    public function test_admin_approval_applies_requested_move(): void
+    {
+        $newStart = Carbon::now()->addDays(3)->setTime(14, 0);
+
+        Sanctum::actingAs($this->staffUser);
+        $response = $this->postJson("/api/v1/staff/events/{$this->event->id}/move-requests", [
+            'starts_at' => $newStart->toIso8601String(),
+            'ends_at' => $newStart->copy()->addHour()->toIso8601String(),
+            'reason' => 'Client asked for Thursday',
+        ]);
+
+        $response->assertCreated();
+        $moveRequestId = $response->json('data.id');
+
+        // Event is untouched until approval
+        $this->assertTrue($this->event->fresh()->starts_at->isSameDay(Carbon::now()->addDays(2)));
+
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+        $this->postJson("/api/v1/admin/event-move-requests/{$moveRequestId}/approve")
+            ->assertOk()
+            ->assertJsonPath('data.status', 'approved');
+
+        $this->assertTrue($this->event->fresh()->starts_at->equalTo($newStart));
+        Queue::assertPushed(SendEventNotification::class);
+    }
+
+    /**
+     * Test approval checks the slot again and asks for confirmation when it has been taken
+     */
+    public function test_approval_requires_confirmation_when_the_slot_was_taken(): void
+    {
+        $newStart = Carbon::now()->addDays(3)->setTime(14, 0);
+
+        $moveRequest = EventMoveRequest::create([
+            'event_id' => $this->event->id,
+            'requested_by' => $this->staffUser->id,
+            'new_starts_at' => $newStart,
+            'new_ends_at' => $newStart->copy()->addHour(),
+            'original_starts_at' => $this->event->starts_at,
+            'original_ends_at' => $this->event->ends_at,
+            'original_room_id' => $this->event->room_id,
+            'status' => 'pending',
+        ]);
+
+        // Booked for the same trainer after the request was filed
+        $taken = Event::factory()->create([
+            'staff_id' => $this->event->staff_id,
+            'room_id' => Room::factory()->create()->id,
+            'status' => 'scheduled',
+            'starts_at' => $newStart->copy()->addMinutes(30),
+            'ends_at' => $newStart->copy()->addMinutes(90),
+        ]);
+
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+
+        $this->postJson("/api/v1/admin/event-move-requests/{$moveRequest->id}/approve")
+            ->assertStatus(409)
+            ->assertJsonPath('errors.requires_confirmation', true)
+            ->assertJsonPath('errors.conflicts.0.event_id', $taken->id);
+
+        $this->assertEquals('pending', $moveRequest->fresh()->status);
+        $this->assertFalse($this->event->fresh()->starts_at->equalTo($newStart));
+
+        $this->postJson("/api/v1/admin/event-move-requests/{$moveRequest->id}/approve", ['force_override' => true])
+            ->assertOk()
+            ->assertJsonPath('data.status', 'approved');
+
+        $this->assertTrue($this->event->fresh()->starts_at->equalTo($newStart));
+    }
+
+    /**
+     * Test a second pending request for the same event is rejected
+     */
+    public function test_duplicate_pending_request_returns_conflict(): void
+    {
+        EventMoveRequest::create([
+            'event_id' => $this->event->id,
+            'requested_by' => $this->staffUser->id,
+            'new_starts_at' => Carbon::now()->addDays(4)->setTime(10, 0),
+            'new_ends_at' => Carbon::now()->addDays(4)->setTime(11, 0),
+            'original_starts_at' => $this->event->starts_at,
+            'original_ends_at' => $this->event->ends_at,
+            'original_room_id' => $this->event->room_id,
+            'status' => 'pending',
+        ]);
+
+        Sanctum::actingAs($this->staffUser);
+        $this->postJson("/api/v1/staff/events/{$this->event->id}/move-requests", [
+            'starts_at' => Carbon::now()->addDays(5)->setTime(10, 0)->toIso8601String(),
+            'ends_at' => Carbon::now()->addDays(5)->setTime(11, 0)->toIso8601String(),
+        ])->assertStatus(409);
+    }
+
+    /**
+     * Test staff cannot review move requests
+     */
+    public function test_staff_cannot_approve_move_requests(): void
+    {
+        $moveRequest = EventMoveRequest::create([
+            'event_id' => $this->event->id,
+            'requested_by' => $this->staffUser->id,
+            'new_starts_at' => Carbon::now()->addDays(4)->setTime(10, 0),
+            'new_ends_at' => Carbon::now()->addDays(4)->setTime(11, 0),
+            'original_starts_at' => $this->event->starts_at,
+            'original_ends_at' => $this->event->ends_at,
+            'status' => 'pending',
+        ]);
+
+        Sanctum::actingAs($this->staffUser);
+        $this->postJson("/api/v1/admin/event-move-requests/{$moveRequest->id}/approve")
+            ->assertForbidden();
+    }
+}
@@ -0,0 +1,149 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Staff;
+
+use Tests\TestCase;
+use App\Models\User;
+use App\Models\Client;
+use App\Models\Pass;
+use App\Models\PassCreditTransaction;
+use App\Services\PassCreditService;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+
+class PassManagementApiTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $staff;
+    private Client $client;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->staff = User::factory()->staff()->create();
+        $this->client = Client::factory()->create();
+
+        Sanctum::actingAs($this->staff);
+    }
+
+    /**
+     * Test staff can issue a pass manually and it opens the ledger
+     */
+    public function test_staff_can_issue_pass(): void
+    {
+        $response = $this->postJson("/api/v1/staff/clients/{$this->client->id}/passes", [
+            'type' => '10_session',
+            'total_credits' => 10,
+            'valid_from' => Carbon::today()->toDateString(),
+            'valid_until' => Carbon::today()->addMonths(2)->toDateString(),
+        ]);
+
+        $response->assertCreated()
+            ->assertJsonPath('data.credits_left', 10)
+            ->assertJsonPath('data.source', 'manual');
+
+        $this->assertDatabaseHas('pass_credit_transactions', [
+            'pass_id' => $response->json('data.id'),
+            'type' => 'issue',
+            'credits' => 10,
+            'created_by' => $this->staff->id,
+        ]);
+    }
+
+    /**
+     * Test credit adjustment requires a reason and cannot go negative
+     */
+    public function test_staff_can_adjust_credits_with_reason(): void
+    {
+        $pass = Pass::factory()->active()->withCredits(10, 2)->create(['client_id' => $this->client->id]);
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/adjust", ['credits' => 3])
+            ->assertUnprocessable();
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/adjust", ['credits' => -5, 'reason' => 'Mistake'])
+            ->assertUnprocessable();
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/adjust", ['credits' => 3, 'reason' => 'Goodwill'])
+            ->assertOk()
+            ->assertJsonPath('data.credits_left', 5);
+
+        $this->assertDatabaseHas('pass_credit_transactions', [
+            'pass_id' => $pass->id,
+            'type' => 'adjustment',
+            'credits' => 3,
+            'balance_after' => 5,
+            'reason' => 'Goodwill',
+        ]);
+    }
+
+    /**
+     * Test a frozen pass is not used for bookings and unfreezing extends its expiry
+     */
+    public function test_freeze_and_unfreeze_pass(): void
+    {
+        $pass = Pass::factory()->active()->withCredits(10, 10)->create(['client_id' => $this->client->id]);
+        $originalExpiry = $pass->valid_until->copy();
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/freeze", ['reason' => 'Injury'])
+            ->assertOk()
+            ->assertJsonPath('data.status', 'suspended');
+
+        $this->assertFalse(app(PassCreditService::class)->hasAvailableCredits($this->client));
+
+        Carbon::setTestNow(Carbon::now()->addDays(7));
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/unfreeze")
+            ->assertOk()
+            ->assertJsonPath('data.status', 'active')
+            ->assertJsonPath('data.valid_until', $originalExpiry->addDays(7)->toDateString());
+
+        Carbon::setTestNow();
+    }
+
+    /**
+     * Test voiding a pass writes off its credits and blocks further changes
+     */
+    public function test_void_pass(): void
+    {
+        $pass = Pass::factory()->active()->withCredits(10, 4)->create(['client_id' => $this->client->id]);
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/void", ['reason' => 'Refunded order'])
+            ->assertOk()
+            ->assertJsonPath('data.status', 'voided')
+            ->assertJsonPath('data.credits_left', 0);
+
+        $this->assertDatabaseHas('pass_credit_transactions', [
+            'pass_id' => $pass->id,
+            'type' => 'void',
+            'credits' => -4,
+        ]);
+
+        $this->postJson("/api/v1/staff/passes/{$pass->id}/extend", [
+            'valid_until' => Carbon::today()->addYear()->toDateString(),
+        ])->assertUnprocessable();
+    }
+
+    /**
+     * Test the ledger lists deductions and refunds of the client
+     */
+    public function test_ledger_lists_deductions_and_refunds(): void
+    {
+        $pass = Pass::factory()->active()->withCredits(10, 10)->create(['client_id' => $this->client->id]);
+        $service = app(PassCreditService::class);
+
+        $service->deductCredit($this->client, 'Check-in');
+        $service->refundCredit($this->client, 1, 'Cancelled');
+
+        $response = $this->getJson("/api/v1/staff/clients/{$this->client->id}/pass-ledger?pass_id={$pass->id}");
+
+        $response->assertOk();
+        $types = collect($response->json('data'))->pluck('type')->all();
+        $this->assertSame(['refund', 'deduction', 'issue'], $types);
+        $this->assertSame(3, PassCreditTransaction::where('pass_id', $pass->id)->count());
+    }
+}
@@ -0,0 +1,238 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Staff;
+
+use Tests\TestCase;
+use App\Models\Event;
+use App\Models\Room;
+use App\Models\Site;
+use App\Models\StaffAvailability;
+use App\Models\StaffAvailabilityException;
+use App\Models\StaffProfile;
+use App\Models\User;
+use App\Services\StaffAvailabilityService;
+use Carbon\Carbon;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+class StaffAvailabilityTest extends TestCase
+{
+    use RefreshDatabase;
+
+    private User $staffUser;
+    private StaffProfile $staffProfile;
+    private Room $room;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        Queue::fake();
+
+        $this->staffUser = User::factory()->create(['role' => 'staff']);
+        $this->staffProfile = StaffProfile::factory()->create(['user_id' => $this->staffUser->id]);
+
+        $site = Site::factory()->create([
+            'opening_hours' => [
+                'monday' => ['open' => '07:00', 'close' => '21:00'],
+                'tuesday' => ['open' => '07:00', 'close' => '21:00'],
+                'wednesday' => ['open' => '07:00', 'close' => '21:00'],
+                'thursday' => ['open' => '07:00', 'close' => '21:00'],
+                'friday' => ['open' => '07:00', 'close' => '21:00'],
+                'saturday' => ['open' => '08:00', 'close' => '14:00'],
+            ],
+        ]);
+        $this->room = Room::factory()->forSite($site->id)->create();
+    }
+
+    private function nextMonday(): Carbon
+    {
+        return Carbon::now()->next(Carbon::MONDAY)->startOfDay();
+    }
+
+    private function blockEventData(Carbon $startsAt, Carbon $endsAt): array
+    {
+        return [
+            'type' => 'BLOCK',
+            'room_id' => $this->room->id,
+            'starts_at' => $startsAt->toIso8601String(),
+            'ends_at' => $endsAt->toIso8601String(),
+        ];
+    }
+
+    /**
+     * Test staff can replace their own weekly working hours
+     */
+    public function test_staff_can_replace_own_weekly_hours(): void
+    {
+        StaffAvailability::create(['staff_id' => $this->staffProfile->id, 'weekday' => 3, 'start_time' => '10:00', 'end_time' => '12:00']);
+        Sanctum::actingAs($this->staffUser);
+
+        $response = $this->putJson("/api/v1/staff/trainers/{$this->staffProfile->id}/availability", [
+            'weekly' => [
+                ['weekday' => 1, 'start_time' => '14:00', 'end_time' => '18:00'],
+                ['weekday' => 1, 'start_time' => '08:00', 'end_time' => '12:00'],
+            ],
+        ]);
+
+        $response->assertOk()
+            ->assertJsonPath('data.weekly.0.start_time', '08:00')
+            ->assertJsonPath('data.weekly.1.start_time', '14:00');
+
+        $this->assertEquals(2, StaffAvailability::where('staff_id', $this->staffProfile->id)->count());
+    }
+
+    /**
+     * Test overlapping ranges of a day are rejected
+     */
+    public function test_overlapping_weekly_ranges_are_rejected(): void
+    {
+        Sanctum::actingAs($this->staffUser);
+
+        $this->putJson("/api/v1/staff/trainers/{$this->staffProfile->id}/availability", [
+            'weekly' => [
+                ['weekday' => 2, 'start_time' => '08:00', 'end_time' => '12:00'],
+                ['weekday' => 2, 'start_time' => '11:00', 'end_time' => '15:00'],
+            ],
+        ])->assertUnprocessable();
+    }
+
+    /**
+     * Test staff cannot edit another trainer's availability, admins can
+     */
+    public function test_only_owner_or_admin_can_edit_availability(): void
+    {
+        $other = StaffProfile::factory()->create();
+        $payload = ['weekly' => [['weekday' => 1, 'start_time' => '08:00', 'end_time' => '12:00']]];
+
+        Sanctum::actingAs($this->staffUser);
+        $this->putJson("/api/v1/staff/trainers/{$other->id}/availability", $payload)->assertForbidden();
+
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+        $this->putJson("/api/v1/staff/trainers/{$other->id}/availability", $payload)->assertOk();
+    }
+
+    /**
+     * Test creating an event outside working hours asks for confirmation
+     */
+    public function test_event_outside_working_hours_requires_confirmation(): void
+    {
+        StaffAvailability::create(['staff_id' => $this->staffProfile->id, 'weekday' => 1, 'start_time' => '08:00', 'end_time' => '12:00']);
+        Sanctum::actingAs($this->staffUser);
+
+        $monday = $this->nextMonday();
+        $data = $this->blockEventData($monday->copy()->setTime(15, 0), $monday->copy()->setTime(16, 0));
+
+        $response = $this->postJson('/api/v1/staff/events', $data);
+
+        $response->assertStatus(409)
+            ->assertJsonPath('errors.requires_confirmation', true)
+            ->assertJsonPath('errors.availability_warnings.0.code', 'outside_availability');
+
+        $this->postJson('/api/v1/staff/events', [...$data, 'ignore_availability' => true])
+            ->assertCreated();
+    }
+
+    /**
+     * Test moving a recurring series outside working hours asks for confirmation
+     */
+    public function test_series_moved_outside_working_hours_requires_confirmation(): void
+    {
+        StaffAvailability::create(['staff_id' => $this->staffProfile->id, 'weekday' => 1, 'start_time' => '08:00', 'end_time' => '12:00']);
+        Sanctum::actingAs($this->staffUser);
+
+        $groupId = (string) \Illuminate\Support\Str::uuid();
+        $events = collect(range(0, 2))->map(fn (int $week) => Event::factory()->create([
+            'type' => 'BLOCK',
+            'staff_id' => $this->staffProfile->id,
+            'room_id' => $this->room->id,
+            'recurring_group_id' => $groupId,
+            'starts_at' => $this->nextMonday()->addWeeks($week)->setTime(9, 0),
+            'ends_at' => $this->nextMonday()->addWeeks($week)->setTime(10, 0),
+        ]))->all();
+
+        $data = [
+            'event_id' => $events[0]->id,
+            'scope' => 'all',
+            'starts_at' => $events[0]->starts_at->copy()->setTime(15, 0)->toIso8601String(),
+            'ends_at' => $events[0]->starts_at->copy()->setTime(16, 0)->toIso8601String(),
+        ];
+
+        $response = $this->patchJson("/api/v1/staff/events/recurring-group/{$groupId}", $data);
+
+        $response->assertStatus(409)
+            ->assertJsonPath('errors.requires_confirmation', true)
+            ->assertJsonPath('errors.availability_warnings.0.code', 'outside_availability')
+            ->assertJsonCount(3, 'errors.availability_warnings');
+        $this->assertEquals('09:00', $events[2]->fresh()->starts_at->format('H:i'));
+
+        $this->patchJson("/api/v1/staff/events/recurring-group/{$groupId}", [...$data, 'ignore_availability' => true])
+            ->assertOk()
+            ->assertJsonPath('data.count', 3);
+    }
+
+    /**
+     * Test events inside working hours are created without a warning
+     */
+    public function test_event_inside_working_hours_is_created(): void
+    {
+        StaffAvailability::create(['staff_id' => $this->staffProfile->id, 'weekday' => 1, 'start_time' => '08:00', 'end_time' => '12:00']);
+        Sanctum::actingAs($this->staffUser);
+
+        $monday = $this->nextMonday();
+
+        $this->postJson('/api/v1/staff/events', $this->blockEventData($monday->copy()->setTime(9, 0), $monday->copy()->setTime(10, 0)))
+            ->assertCreated();
+    }
+
+    /**
+     * Test absences and site opening hours produce warnings
+     */
+    public function test_absence_and_closed_site_are_reported(): void
+    {
+        $service = app(StaffAvailabilityService::class);
+        $monday = $this->nextMonday();
+
+        StaffAvailabilityException::create([
+            'staff_id' => $this->staffProfile->id,
+            'type' => 'vacation',
+            'starts_on' => $monday->toDateString(),
+            'ends_on' => $monday->copy()->addDays(2)->toDateString(),
+        ]);
+
+        $warnings = $service->check($this->staffProfile->id, $this->room->id, $monday->copy()->addDay()->setTime(10, 0), $monday->copy()->addDay()->setTime(11, 0));
+        $this->assertEquals(['staff_exception'], array_column($warnings, 'code'));
+
+        $sunday = $monday->copy()->addDays(6);
+        $warnings = $service->check(null, $this->room->id, $sunday->copy()->setTime(10, 0), $sunday->copy()->setTime(11, 0));
+        $this->assertEquals(['site_closed'], array_column($warnings, 'code'));
+
+        $saturday = $monday->copy()->addDays(5);
+        $warnings = $service->check(null, $this->room->id, $saturday->copy()->setTime(13, 30), $saturday->copy()->setTime(14, 30));
+        $this->assertEquals(['outside_opening_hours'], array_column($warnings, 'code'));
+    }
+
+    /**
+     * Test the calendar shading data lists trainers and sites
+     */
+    public function test_calendar_data_contains_trainers_and_sites(): void
+    {
+        StaffAvailability::create(['staff_id' => $this->staffProfile->id, 'weekday' => 1, 'start_time' => '08:00', 'end_time' => '12:00']);
+        Sanctum::actingAs($this->staffUser);
+
+        $monday = $this->nextMonday();
+
+        $response = $this->getJson('/api/v1/staff/availability/calendar?date_from=' . $monday->toDateString() . '&date_to=' . $monday->copy()->addDays(6)->toDateString());
+
+        $response->assertOk();
+        $trainer = collect($response->json('data.trainers'))->firstWhere('staff_id', $this->staffProfile->id);
+        $this->assertEquals('08:00', $trainer['weekly'][0]['start_time']);
+
+        $site = collect($response->json('data.sites'))->firstWhere('site_id', $this->room->site_id);
+        $this->assertNull($site['opening_hours']['sunday']);
+        $this->assertContains($this->room->id, $site['room_ids']);
+    }
+}
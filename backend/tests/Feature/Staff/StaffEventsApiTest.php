@@ -659,4 +659,111 @@ public function test_expanded_additional_clients_in_api_response(): void
         expect($eventData)->not->toBeNull();
         expect($eventData['expanded_additional_clients'])->toHaveCount(2);
     }
+
+    /**
+     * Create a weekly recurring series of four upcoming events for a staff member
+     *
+     * @return array<int, Event>
+     */
+    private function createRecurringSeries(StaffProfile $staffProfile, string $groupId): array
+    {
+        $room = Room::factory()->create();
+        $client = Client::factory()->create();
+
+        return collect(range(1, 4))->map(fn (int $week) => Event::factory()->create([
+            'staff_id' => $staffProfile->id,
+            'room_id' => $room->id,
+            'client_id' => $client->id,
+            'type' => 'INDIVIDUAL',
+            'recurring_group_id' => $groupId,
+            'starts_at' => Carbon::now()->addWeeks($week)->setTime(10, 0),
+            'ends_at' => Carbon::now()->addWeeks($week)->setTime(11, 0),
+        ]))->all();
+    }
+
+    /**
+     * Test staff can delete "this and following" events of a recurring series
+     */
+    public function test_staff_can_delete_following_events_of_recurring_series(): void
+    {
+        // Arrange
+        $staff = User::factory()->create(['role' => 'staff']);
+        $staffProfile = StaffProfile::factory()->create(['user_id' => $staff->id]);
+        $groupId = (string) \Illuminate\Support\Str::uuid();
+        $events = $this->createRecurringSeries($staffProfile, $groupId);
+
+        // Act: delete from the third occurrence onwards
+        Sanctum::actingAs($staff);
+        $response = $this->deleteJson("/api/v1/staff/events/recurring-group/{$groupId}?scope=following&event_id={$events[2]->id}");
+
+        // Assert
+        $response->assertOk();
+        $response->assertJsonPath('data.deleted_count', 2);
+        $this->assertNotSoftDeleted('events', ['id' => $events[0]->id]);
+        $this->assertNotSoftDeleted('events', ['id' => $events[1]->id]);
+        $this->assertSoftDeleted('events', ['id' => $events[2]->id]);
+        $this->assertSoftDeleted('events', ['id' => $events[3]->id]);
+    }
+
+    /**
+     * Test staff can change the time and room of a whole recurring series
+     */
+    public function test_staff_can_update_whole_recurring_series(): void
+    {
+        // Arrange
+        $staff = User::factory()->create(['role' => 'staff']);
+        $staffProfile = StaffProfile::factory()->create(['user_id' => $staff->id]);
+        $groupId = (string) \Illuminate\Support\Str::uuid();
+        $events = $this->createRecurringSeries($staffProfile, $groupId);
+        $newRoom = Room::factory()->create();
+
+        // Act: move the second occurrence one hour later, applied to all
+        Sanctum::actingAs($staff);
+        $response = $this->patchJson("/api/v1/staff/events/recurring-group/{$groupId}", [
+            'event_id' => $events[1]->id,
+            'scope' => 'all',
+            'room_id' => $newRoom->id,
+            'starts_at' => $events[1]->starts_at->copy()->setTime(11, 0)->toIso8601String(),
+            'ends_at' => $events[1]->starts_at->copy()->setTime(12, 30)->toIso8601String(),
+            'notes' => 'New slot',
+        ]);
+
+        // Assert
+        $response->assertOk();
+        $response->assertJsonPath('data.count', 4);
+
+        foreach ($events as $event) {
+            $fresh = $event->fresh();
+            expect($fresh->starts_at->format('H:i'))->toBe('11:00');
+            expect($fresh->ends_at->format('H:i'))->toBe('12:30');
+            expect($fresh->starts_at->isSameDay($event->starts_at))->toBeTrue();
+            expect($fresh->room_id)->toBe($newRoom->id);
+            expect($fresh->notes)->toBe('New slot');
+        }
+    }
+
+    /**
+     * Test staff cannot shift a recurring series to another day
+     */
+    public function test_staff_cannot_move_recurring_series_to_different_day(): void
+    {
+        // Arrange
+        $staff = User::factory()->create(['role' => 'staff']);
+        $staffProfile = StaffProfile::factory()->create(['user_id' => $staff->id]);
+        $groupId = (string) \Illuminate\Support\Str::uuid();
+        $events = $this->createRecurringSeries($staffProfile, $groupId);
+
+        // Act
+        Sanctum::actingAs($staff);
+        $response = $this->patchJson("/api/v1/staff/events/recurring-group/{$groupId}", [
+            'event_id' => $events[0]->id,
+            'scope' => 'all',
+            'starts_at' => $events[0]->starts_at->copy()->addDay()->toIso8601String(),
+            'ends_at' => $events[0]->ends_at->copy()->addDay()->toIso8601String(),
+        ]);
+
+        // Assert
+        $response->assertUnprocessable();
+        expect($events[0]->fresh()->starts_at->equalTo($events[0]->starts_at))->toBeTrue();
+    }
 }
@@ -0,0 +1,238 @@
+<?php
+
+declare(strict_types=1);
+
+use App\Jobs\SendEventNotification;
+use App\Models\Event;
+use App\Models\GoogleCalendarSyncConfig;
+use App\Models\Room;
+use App\Models\ServiceType;
+use App\Models\StaffProfile;
+use App\Models\User;
+use App\Services\GoogleCalendarImportService;
+use App\Services\GoogleCalendarService;
+use App\Services\GoogleCalendarSyncService;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Bus;
+use Laravel\Sanctum\Sanctum;
+use Tests\Integration\GoogleCalendar\FakeGoogleCalendarApi;
+use Tests\Integration\IntegrationTestCase;
+
+uses(IntegrationTestCase::class);
+
+beforeEach(function () {
+    config(['services.google_calendar.sync_enabled' => true]);
+
+    $service = new GoogleCalendarService();
+    $this->google = (new FakeGoogleCalendarApi())->install($service);
+    $this->app->instance(GoogleCalendarService::class, $service);
+
+    $this->calendarId = 'front-desk@group.calendar.google.com';
+    $this->room = Room::factory()->create();
+    $this->staff = StaffProfile::factory()->create();
+    $this->day = now()->addDays(2)->startOfDay();
+
+    $this->config = GoogleCalendarSyncConfig::create([
+        'name' => 'Front desk',
+        'google_calendar_id' => $this->calendarId,
+        'room_id' => $this->room->id,
+        'sync_enabled' => true,
+        'sync_direction' => 'import',
+    ])->fresh();
+
+    $this->seedGoogle = fn (string $summary, string $time, int $minutes = 60) => $this->google->seed($this->calendarId, [
+        'summary' => $summary,
+        'description' => "About {$summary}",
+        'start' => ['dateTime' => $this->day->copy()->setTimeFromTimeString($time)->toIso8601String()],
+        'end' => ['dateTime' => $this->day->copy()->setTimeFromTimeString($time)->addMinutes($minutes)->toIso8601String()],
+    ]);
+
+    $this->session = fn (string $time) => Event::factory()->create([
+        'type' => 'INDIVIDUAL',
+        'status' => 'scheduled',
+        'staff_id' => $this->staff->id,
+        'room_id' => $this->room->id,
+        'starts_at' => $this->day->copy()->setTimeFromTimeString($time),
+        'ends_at' => $this->day->copy()->setTimeFromTimeString($time)->addHour(),
+        'google_event_id' => null,
+        'notes' => 'Regular session',
+    ]);
+
+    $this->import = fn (bool $autoResolve = false, ?string $resolution = null) => app(GoogleCalendarImportService::class)->importEvents(
+        $this->config->fresh(),
+        $this->day->toDateTime(),
+        $this->day->copy()->endOfDay()->toDateTime(),
+        null,
+        $autoResolve,
+        $resolution
+    );
+
+    $this->resolve = fn ($log, array $resolutions) => app(GoogleCalendarImportService::class)->resolveConflicts($log->fresh(), $resolutions);
+});
+
+describe('Import rules', function () {
+    it('skips events matching a skip rule', function () {
+        $this->config->update(['sync_options' => ['import_rules' => [
+            ['match' => 'starts_with', 'pattern' => 'private', 'action' => 'skip'],
+        ]]]);
+
+        $privateId = ($this->seedGoogle)('Private: dentist', '08:00');
+        $meetingId = ($this->seedGoogle)('Team meeting', '14:00');
+
+        $log = ($this->import)();
+
+        expect(Event::where('google_event_id', $privateId)->exists())->toBeFalse()
+            ->and(Event::where('google_event_id', $meetingId)->exists())->toBeTrue()
+            ->and($log->events_skipped)->toBe(1)
+            ->and($log->events_created)->toBe(1);
+    });
+
+    it('maps a summary keyword to a service type', function () {
+        $yoga = ServiceType::factory()->create();
+        $this->config->update(['sync_options' => ['import_rules' => [
+            ['match' => 'contains', 'pattern' => 'Yoga', 'action' => 'service_type', 'service_type_id' => $yoga->id],
+        ]]]);
+
+        $yogaId = ($this->seedGoogle)('Morning yoga', '08:00');
+        $otherId = ($this->seedGoogle)('Cleaning', '14:00');
+
+        ($this->import)();
+
+        expect(Event::where('google_event_id', $yogaId)->first()->service_type_id)->toBe($yoga->id)
+            ->and(Event::where('google_event_id', $otherId)->first()->service_type_id)->toBeNull();
+    });
+});
+
+describe('Conflict resolution', function () {
+    it('records the overlapped sessions for the preview', function () {
+        $session = ($this->session)('10:00');
+        ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = ($this->import)();
+
+        expect($log->conflicts)->toHaveCount(1)
+            ->and($log->conflicts[0]['room_id'])->toBe($this->room->id)
+            ->and($log->conflicts[0]['conflicting_events'][0]['event_id'])->toBe($session->id)
+            ->and($log->conflicts[0]['conflicting_events'][0]['overlap_minutes'])->toBe(30)
+            ->and($log->events_skipped)->toBe(1);
+    });
+
+    it('keeps both events as a block next to the session', function () {
+        $session = ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = ($this->resolve)(($this->import)(), [$googleId => 'keep_both']);
+
+        $imported = Event::where('google_event_id', $googleId)->first();
+        expect($imported->type)->toBe('BLOCK')
+            ->and($imported->starts_at->format('H:i'))->toBe('10:30')
+            ->and($session->fresh()->trashed())->toBeFalse()
+            ->and($log->events_created)->toBe(1)
+            ->and($log->metadata['resolutions'][$googleId]['outcome'])->toBe('created');
+    });
+
+    it('shifts the event to the nearest free slot', function () {
+        ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        ($this->resolve)(($this->import)(), [$googleId => 'shift']);
+
+        $imported = Event::where('google_event_id', $googleId)->first();
+        expect($imported->starts_at->format('H:i'))->toBe('11:00')
+            ->and($imported->ends_at->format('H:i'))->toBe('12:00')
+            ->and($imported->notes)->toContain('Shifted from');
+    });
+
+    it('merges the title and notes into the session', function () {
+        $session = ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = ($this->resolve)(($this->import)(), [$googleId => 'merge']);
+
+        expect(Event::where('google_event_id', $googleId)->exists())->toBeFalse()
+            ->and($session->fresh()->notes)->toContain('Regular session')
+            ->and($session->fresh()->notes)->toContain('Photo shoot')
+            ->and($session->fresh()->notes)->toContain('About Photo shoot')
+            ->and($log->events_updated)->toBe(1);
+    });
+
+    it('overwrites the session with the Google event', function () {
+        $session = ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        ($this->resolve)(($this->import)(), [$googleId => 'overwrite']);
+
+        expect($session->fresh()->status)->toBe('cancelled')
+            ->and(Event::where('google_event_id', $googleId)->exists())->toBeTrue();
+        Bus::assertDispatched(SendEventNotification::class);
+    });
+
+    it('does not resolve a conflict twice', function () {
+        ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = ($this->resolve)(($this->import)(), [$googleId => 'keep_both']);
+        ($this->resolve)($log, [$googleId => 'keep_both']);
+
+        expect(Event::where('google_event_id', $googleId)->count())->toBe(1);
+    });
+
+    it('auto-resolves with the chosen resolution', function () {
+        ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = ($this->import)(true, 'shift');
+
+        expect(Event::where('google_event_id', $googleId)->first()->starts_at->format('H:i'))->toBe('11:00')
+            ->and($log->metadata['resolutions'][$googleId]['resolution'])->toBe('shift');
+    });
+
+    it('applies the default resolution of the config on scheduled syncs', function () {
+        $this->config->update(['sync_options' => ['default_resolution' => 'keep_both']]);
+        ($this->session)('10:00');
+        $googleId = ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = app(GoogleCalendarSyncService::class)->sync($this->config->fresh());
+
+        expect(Event::where('google_event_id', $googleId)->exists())->toBeTrue()
+            ->and($log->conflicts_detected)->toBe(1)
+            ->and($log->metadata['resolutions'][$googleId]['outcome'])->toBe('created');
+    });
+});
+
+describe('Sync options validation', function () {
+    it('does not allow overwrite or merge as the unattended default', function (string $resolution) {
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+
+        $this->putJson("/api/v1/admin/google-calendar-sync/configs/{$this->config->id}", [
+            'sync_options' => ['default_resolution' => $resolution],
+        ])
+            ->assertStatus(422)
+            ->assertJsonStructure(['errors' => ['sync_options.default_resolution']]);
+    })->with(['overwrite', 'merge']);
+
+    it('leaves conflicts for manual resolution when a stored default may not run unattended', function () {
+        $this->config->update(['sync_options' => ['default_resolution' => 'overwrite']]);
+        $session = ($this->session)('10:00');
+        ($this->seedGoogle)('Photo shoot', '10:30');
+
+        $log = app(GoogleCalendarSyncService::class)->sync($this->config->fresh());
+
+        expect($session->fresh()->status)->toBe('scheduled')
+            ->and($log->conflicts_detected)->toBe(1)
+            ->and($log->metadata['resolutions'])->toBeEmpty();
+    });
+
+    it('rejects import rules without a service type to map to', function () {
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+
+        $this->putJson("/api/v1/admin/google-calendar-sync/configs/{$this->config->id}", [
+            'sync_options' => [
+                'default_resolution' => 'shift',
+                'import_rules' => [['match' => 'contains', 'pattern' => 'Yoga', 'action' => 'service_type']],
+            ],
+        ])
+            ->assertStatus(422)
+            ->assertJsonStructure(['errors' => ['sync_options.import_rules.0.service_type_id']]);
+    });
+});
@@ -0,0 +1,239 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Integration\GoogleCalendar;
+
+use App\Services\GoogleCalendarService;
+use GuzzleHttp\Client as GuzzleClient;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Promise\Create;
+use GuzzleHttp\Promise\PromiseInterface;
+use GuzzleHttp\Psr7\Response;
+use Psr\Http\Message\RequestInterface;
+
+/**
+ * In-memory stand-in for the Google Calendar v3 events API, plugged into the
+ * Google client as its Guzzle handler. Covers what the sync uses: list (with
+ * sync tokens, showDeleted and privateExtendedProperty), get, insert, update,
+ * delete and calendars.get.
+ *
+ * Every change bumps a revision; a sync token remembers the revision it was
+ * issued at, so an incremental list returns exactly what changed after it.
+ */
+class FakeGoogleCalendarApi
+{
+    /** @var array<string, array<string, array>> calendar id => event id => event */
+    private array $calendars = [];
+
+    private int $revision = 0;
+    private int $nextId = 1;
+    private bool $tokensExpired = false;
+
+    /** @var array<int, array{method: string, path: string, query: array}> */
+    public array $requests = [];
+
+    /**
+     * When set, every request fails with this HTTP status
+     */
+    public ?int $failWith = null;
+
+    /**
+     * Route the service's Google client through this fake
+     */
+    public function install(GoogleCalendarService $service): static
+    {
+        $service->getClient()->setHttpClient(new GuzzleClient([
+            'handler' => HandlerStack::create($this),
+            'base_uri' => 'https://www.googleapis.com',
+        ]));
+
+        return $this;
+    }
+
+    /**
+     * An event created in Google by someone else
+     */
+    public function seed(string $calendarId, array $attributes): string
+    {
+        return $this->store($calendarId, $attributes)['id'];
+    }
+
+    public function updateEvent(string $calendarId, string $eventId, array $attributes): void
+    {
+        $this->store($calendarId, array_merge($this->calendars[$calendarId][$eventId], $attributes));
+    }
+
+    public function deleteEvent(string $calendarId, string $eventId): void
+    {
+        $this->updateEvent($calendarId, $eventId, ['status' => 'cancelled']);
+    }
+
+    /**
+     * Events that are not deleted
+     *
+     * @return array<int, array>
+     */
+    public function events(string $calendarId): array
+    {
+        return array_values(array_filter(
+            $this->calendars[$calendarId] ?? [],
+            fn (array $event) => $event['status'] !== 'cancelled'
+        ));
+    }
+
+    public function event(string $calendarId, string $eventId): ?array
+    {
+        return $this->calendars[$calendarId][$eventId] ?? null;
+    }
+
+    /**
+     * Make every issued sync token invalid (Google answers 410 Gone)
+     */
+    public function expireSyncTokens(): void
+    {
+        $this->tokensExpired = true;
+    }
+
+    public function __invoke(RequestInterface $request, array $options): PromiseInterface
+    {
+        parse_str($request->getUri()->getQuery(), $query);
+        $path = rawurldecode(preg_replace('#^/calendar/v3/#', '', $request->getUri()->getPath()));
+        $method = $request->getMethod();
+
+        $this->requests[] = ['method' => $method, 'path' => $path, 'query' => $query];
+
+        if ($this->failWith) {
+            return $this->error($this->failWith, 'Simulated failure', 'backendError');
+        }
+
+        if (!preg_match('#^calendars/([^/]+)(?:/events(?:/([^/]+))?)?$#', $path, $matches)) {
+            return $this->error(404, 'Not Found');
+        }
+
+        $calendarId = $matches[1];
+        $isEvents = str_contains($path, '/events');
+        $eventId = $matches[2] ?? null;
+        $body = json_decode((string) $request->getBody(), true) ?: [];
+
+        return match (true) {
+            !$isEvents => $this->json(['id' => $calendarId, 'summary' => $calendarId, 'timeZone' => 'Europe/Budapest']),
+            $eventId === null && $method === 'GET' => $this->list($calendarId, $query),
+            $eventId === null && $method === 'POST' => $this->json($this->present($this->store($calendarId, $body))),
+            $method === 'GET' => $this->get($calendarId, $eventId),
+            $method === 'PUT' => $this->update($calendarId, $eventId, $body),
+            $method === 'DELETE' => $this->delete($calendarId, $eventId),
+            default => $this->error(405, 'Method Not Allowed'),
+        };
+    }
+
+    private function list(string $calendarId, array $query): PromiseInterface
+    {
+        $events = $this->calendars[$calendarId] ?? [];
+
+        if (isset($query['syncToken'])) {
+            if ($this->tokensExpired || !preg_match('/^rev-(\d+)$/', $query['syncToken'], $token)) {
+                return $this->error(410, 'Sync token is no longer valid, a full sync is required.', 'fullSyncRequired');
+            }
+
+            $events = array_filter($events, fn (array $event) => $event['_revision'] > (int) $token[1]);
+        } else {
+            if (($query['showDeleted'] ?? 'false') !== 'true') {
+                $events = array_filter($events, fn (array $event) => $event['status'] !== 'cancelled');
+            }
+
+            if (isset($query['timeMin'])) {
+                $timeMin = strtotime($query['timeMin']);
+                $events = array_filter($events, fn (array $event) => strtotime($event['end']['dateTime']) >= $timeMin);
+            }
+        }
+
+        if (isset($query['privateExtendedProperty'])) {
+            [$key, $value] = explode('=', $query['privateExtendedProperty'], 2);
+            $events = array_filter(
+                $events,
+                fn (array $event) => $event['status'] !== 'cancelled'
+                    && ($event['extendedProperties']['private'][$key] ?? null) === $value
+            );
+        }
+
+        $this->tokensExpired = false;
+
+        return $this->json([
+            'kind' => 'calendar#events',
+            'items' => array_values(array_map(fn (array $event) => $this->present($event), $events)),
+            'nextSyncToken' => 'rev-' . $this->revision,
+        ]);
+    }
+
+    private function get(string $calendarId, string $eventId): PromiseInterface
+    {
+        $event = $this->event($calendarId, $eventId);
+
+        return $event ? $this->json($this->present($event)) : $this->error(404, 'Not Found');
+    }
+
+    private function update(string $calendarId, string $eventId, array $body): PromiseInterface
+    {
+        if (!$this->event($calendarId, $eventId)) {
+            return $this->error(404, 'Not Found');
+        }
+
+        return $this->json($this->present($this->store($calendarId, array_merge($body, ['id' => $eventId]))));
+    }
+
+    private function delete(string $calendarId, string $eventId): PromiseInterface
+    {
+        $event = $this->event($calendarId, $eventId);
+
+        if (!$event) {
+            return $this->error(404, 'Not Found');
+        }
+
+        if ($event['status'] === 'cancelled') {
+            return $this->error(410, 'Resource has been deleted', 'deleted');
+        }
+
+        $this->deleteEvent($calendarId, $eventId);
+
+        return Create::promiseFor(new Response(204));
+    }
+
+    private function store(string $calendarId, array $event): array
+    {
+        $event['id'] ??= 'gevt' . $this->nextId++;
+        $event['status'] ??= 'confirmed';
+        $event['_revision'] = ++$this->revision;
+        $event['updated'] = now()->toIso8601String();
+
+        return $this->calendars[$calendarId][$event['id']] = $event;
+    }
+
+    /**
+     * Deleted events only carry their id and status, like the real API
+     */
+    private function present(array $event): array
+    {
+        unset($event['_revision']);
+
+        return $event['status'] === 'cancelled'
+            ? ['kind' => 'calendar#event', 'id' => $event['id'], 'status' => 'cancelled']
+            : ['kind' => 'calendar#event'] + $event;
+    }
+
+    private function json(array $data, int $status = 200): PromiseInterface
+    {
+        return Create::promiseFor(new Response($status, ['Content-Type' => 'application/json'], json_encode($data)));
+    }
+
+    private function error(int $code, string $message, string $reason = 'notFound'): PromiseInterface
+    {
+        return $this->json([
+            'error' => [
+                'code' => $code,
+                'message' => $message,
+                'errors' => [['domain' => 'global', 'reason' => $reason, 'message' => $message]],
+            ],
+        ], $code);
+    }
+}
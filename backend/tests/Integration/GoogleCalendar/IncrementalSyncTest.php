@@ -0,0 +1,306 @@
+<?php
+
+declare(strict_types=1);
+
+use App\Jobs\RunGoogleCalendarSync;
+use App\Jobs\SendEventNotification;
+use App\Models\Event;
+use App\Models\GoogleCalendarSyncConfig;
+use App\Models\Room;
+use App\Models\StaffProfile;
+use App\Models\User;
+use App\Services\GoogleCalendarImportService;
+use App\Services\GoogleCalendarService;
+use App\Services\GoogleCalendarSyncService;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Artisan;
+use Illuminate\Support\Facades\Bus;
+use Laravel\Sanctum\Sanctum;
+use Tests\Integration\GoogleCalendar\FakeGoogleCalendarApi;
+use Tests\Integration\IntegrationTestCase;
+
+uses(IntegrationTestCase::class);
+
+const FAKE_CALENDAR_ID = 'studio@group.calendar.google.com';
+
+function fakeGoogleEvent(string $summary, Carbon $startsAt, int $minutes = 60): array
+{
+    return [
+        'summary' => $summary,
+        'start' => ['dateTime' => $startsAt->toIso8601String()],
+        'end' => ['dateTime' => $startsAt->copy()->addMinutes($minutes)->toIso8601String()],
+    ];
+}
+
+beforeEach(function () {
+    config(['services.google_calendar.sync_enabled' => true]);
+
+    $service = new GoogleCalendarService();
+    $this->google = (new FakeGoogleCalendarApi())->install($service);
+    $this->app->instance(GoogleCalendarService::class, $service);
+
+    $this->room = Room::factory()->create();
+    $this->staff = StaffProfile::factory()->create();
+
+    $this->config = GoogleCalendarSyncConfig::create([
+        'name' => 'Studio',
+        'google_calendar_id' => FAKE_CALENDAR_ID,
+        'room_id' => $this->room->id,
+        'sync_enabled' => true,
+        'sync_direction' => 'both',
+        'sync_interval_minutes' => 15,
+    ])->fresh();
+
+    $this->session = fn (Carbon $startsAt) => Event::factory()->create([
+        'type' => 'INDIVIDUAL',
+        'status' => 'scheduled',
+        'staff_id' => $this->staff->id,
+        'room_id' => $this->room->id,
+        'starts_at' => $startsAt,
+        'ends_at' => $startsAt->copy()->addHour(),
+        'google_event_id' => null,
+    ]);
+
+    $this->sync = fn () => app(GoogleCalendarSyncService::class)->sync($this->config->fresh());
+});
+
+describe('Scheduled Google Calendar sync', function () {
+    it('pulls Google events and pushes upcoming sessions on the first run', function () {
+        $googleId = $this->google->seed(FAKE_CALENDAR_ID, fakeGoogleEvent('Dentist', now()->addDay()->setTime(12, 0)));
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+
+        $log = ($this->sync)();
+
+        expect($log->status)->toBe('completed')
+            ->and($log->operation)->toBe('sync');
+
+        $imported = Event::where('google_event_id', $googleId)->first();
+        expect($imported)->not->toBeNull()
+            ->and($imported->type)->toBe('BLOCK')
+            ->and($imported->google_sync_config_id)->toBe($this->config->id);
+
+        $pushed = collect($this->google->events(FAKE_CALENDAR_ID))
+            ->firstWhere('extendedProperties.private.internal_event_id', (string) $session->id);
+        expect($pushed)->not->toBeNull()
+            ->and($session->fresh()->google_event_id)->toBe($pushed['id']);
+
+        // The imported event is not pushed back
+        expect($this->google->events(FAKE_CALENDAR_ID))->toHaveCount(2);
+
+        $config = $this->config->fresh();
+        expect($config->sync_token)->not->toBeNull()
+            ->and($config->consecutive_failures)->toBe(0)
+            ->and(abs($config->next_sync_at->diffInMinutes(now()->addMinutes(15))) < 1)->toBeTrue()
+            ->and($config->health)->toBe(GoogleCalendarSyncConfig::HEALTH_HEALTHY);
+    });
+
+    it('only asks Google for changes since the last sync token', function () {
+        ($this->sync)();
+
+        $this->google->seed(FAKE_CALENDAR_ID, fakeGoogleEvent('Meeting', now()->addDay()->setTime(15, 0)));
+        ($this->sync)();
+
+        $lastList = collect($this->google->requests)
+            ->where('method', 'GET')
+            ->filter(fn (array $request) => str_ends_with($request['path'], '/events') && !isset($request['query']['privateExtendedProperty']))
+            ->last();
+
+        expect($lastList['query'])->toHaveKey('syncToken')
+            ->and($lastList['query'])->not->toHaveKey('timeMin')
+            ->and(Event::whereNotNull('google_sync_config_id')->count())->toBe(1);
+    });
+
+    it('removes imported events deleted in Google', function () {
+        $googleId = $this->google->seed(FAKE_CALENDAR_ID, fakeGoogleEvent('Dentist', now()->addDay()->setTime(12, 0)));
+        ($this->sync)();
+
+        $this->google->deleteEvent(FAKE_CALENDAR_ID, $googleId);
+        $log = ($this->sync)();
+
+        expect(Event::where('google_event_id', $googleId)->exists())->toBeFalse()
+            ->and(Event::withTrashed()->where('google_event_id', $googleId)->first()->trashed())->toBeTrue()
+            ->and($log->metadata['pulled']['deleted'])->toBe(1);
+    });
+
+    it('cancels a session whose pushed copy was deleted in Google', function () {
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+        ($this->sync)();
+
+        $this->google->deleteEvent(FAKE_CALENDAR_ID, $session->fresh()->google_event_id);
+        ($this->sync)();
+
+        expect($session->fresh()->status)->toBe('cancelled');
+    });
+
+    it('deletes events from Google that were deleted here', function () {
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+        $googleId = $this->google->seed(FAKE_CALENDAR_ID, fakeGoogleEvent('Dentist', now()->addDay()->setTime(12, 0)));
+        ($this->sync)();
+
+        $this->travel(5)->minutes();
+
+        $session->fresh()->delete();
+        Event::where('google_event_id', $googleId)->first()->delete();
+
+        ($this->sync)();
+
+        expect($this->google->events(FAKE_CALENDAR_ID))->toBeEmpty();
+    });
+
+    it('pushes sessions changed since the last run', function () {
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+        ($this->sync)();
+
+        $this->travel(5)->minutes();
+        $session->fresh()->update([
+            'starts_at' => now()->addDays(3)->setTime(10, 0),
+            'ends_at' => now()->addDays(3)->setTime(11, 0),
+        ]);
+
+        $log = ($this->sync)();
+
+        $pushed = $this->google->event(FAKE_CALENDAR_ID, $session->fresh()->google_event_id);
+        expect(Carbon::parse($pushed['start']['dateTime'])->equalTo(now()->addDays(3)->setTime(10, 0)))->toBeTrue()
+            ->and($log->metadata['pushed']['updated'])->toBe(1);
+    });
+
+    it('takes over a session moved in Google and tells its clients', function () {
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+        ($this->sync)();
+
+        $this->travel(5)->minutes();
+        $movedTo = now()->addDays(2)->setTime(11, 0)->startOfMinute();
+        $this->google->updateEvent(FAKE_CALENDAR_ID, $session->fresh()->google_event_id, fakeGoogleEvent('Moved', $movedTo));
+
+        $log = ($this->sync)();
+
+        expect($session->fresh()->starts_at->equalTo($movedTo))->toBeTrue()
+            ->and($log->metadata['pulled']['updated'])->toBe(1);
+        Bus::assertDispatched(SendEventNotification::class);
+    });
+
+    it('records a session moved in Google onto a booked room instead of moving it', function () {
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+        ($this->sync)();
+
+        $movedTo = now()->addDays(2)->setTime(11, 0)->startOfMinute();
+        $booked = ($this->session)($movedTo->copy());
+
+        $this->travel(5)->minutes();
+        $this->google->updateEvent(FAKE_CALENDAR_ID, $session->fresh()->google_event_id, fakeGoogleEvent('Moved', $movedTo));
+
+        $log = ($this->sync)();
+
+        expect($session->fresh()->starts_at->format('H:i'))->toBe('09:00')
+            ->and($log->conflicts)->toHaveCount(1)
+            ->and($log->conflicts[0]['internal_event_id'])->toBe($session->id)
+            ->and($log->conflicts[0]['conflicting_events'][0]['event_id'])->toBe($booked->id);
+
+        // Keeping both applies the move after all, without importing a copy
+        app(GoogleCalendarImportService::class)->resolveConflicts($log, [$log->conflicts[0]['google_event_id'] => 'keep_both']);
+
+        expect($session->fresh()->starts_at->equalTo($movedTo))->toBeTrue()
+            ->and(Event::where('google_sync_config_id', $this->config->id)->count())->toBe(0);
+    });
+
+    it('keeps the later local change when a session was edited on both sides', function () {
+        $session = ($this->session)(now()->addDays(2)->setTime(9, 0));
+        ($this->sync)();
+
+        $this->travel(5)->minutes();
+        $this->google->updateEvent(FAKE_CALENDAR_ID, $session->fresh()->google_event_id, fakeGoogleEvent('Moved', now()->addDays(2)->setTime(11, 0)));
+
+        $this->travel(5)->minutes();
+        $localTime = now()->addDays(3)->setTime(14, 0)->startOfMinute();
+        $session->fresh()->update(['starts_at' => $localTime, 'ends_at' => $localTime->copy()->addHour()]);
+
+        ($this->sync)();
+
+        $pushed = $this->google->event(FAKE_CALENDAR_ID, $session->fresh()->google_event_id);
+        expect($session->fresh()->starts_at->equalTo($localTime))->toBeTrue()
+            ->and(Carbon::parse($pushed['start']['dateTime'])->equalTo($localTime))->toBeTrue();
+    });
+
+    it('moves the Google copy of an imported event moved here', function () {
+        $googleId = $this->google->seed(FAKE_CALENDAR_ID, fakeGoogleEvent('Dentist', now()->addDay()->setTime(12, 0)));
+        ($this->sync)();
+
+        $this->travel(5)->minutes();
+        $movedTo = now()->addDay()->setTime(16, 0)->startOfMinute();
+        Event::where('google_event_id', $googleId)->first()->update([
+            'starts_at' => $movedTo,
+            'ends_at' => $movedTo->copy()->addHour(),
+        ]);
+
+        $log = ($this->sync)();
+
+        $copy = $this->google->event(FAKE_CALENDAR_ID, $googleId);
+        expect(Carbon::parse($copy['start']['dateTime'])->equalTo($movedTo))->toBeTrue()
+            ->and($copy['summary'])->toBe('Dentist')
+            ->and($log->metadata['pushed']['updated'])->toBe(1);
+    });
+
+    it('starts over with a full pull when Google expires the sync token', function () {
+        ($this->sync)();
+
+        $this->google->expireSyncTokens();
+        $log = ($this->sync)();
+
+        expect($log->status)->toBe('completed')
+            ->and($log->metadata['pulled']['full_resync'])->toBeTrue();
+    });
+
+    it('backs off and reports a failing config', function () {
+        $this->google->failWith = 403;
+
+        ($this->sync)();
+        ($this->sync)();
+        $log = ($this->sync)();
+
+        $config = $this->config->fresh();
+
+        expect($log->status)->toBe('failed')
+            ->and($config->consecutive_failures)->toBe(3)
+            ->and($config->last_error)->not->toBeNull()
+            ->and($config->health)->toBe(GoogleCalendarSyncConfig::HEALTH_FAILING)
+            ->and(abs($config->next_sync_at->diffInMinutes(now()->addMinutes(60))) < 1)->toBeTrue();
+
+        $this->google->failWith = null;
+        ($this->sync)();
+
+        expect($this->config->fresh()->consecutive_failures)->toBe(0);
+    });
+});
+
+describe('gcal:sync command', function () {
+    it('queues a run for every config that is due', function () {
+        $notDue = GoogleCalendarSyncConfig::create([
+            'name' => 'Later',
+            'google_calendar_id' => 'later@group.calendar.google.com',
+            'sync_enabled' => true,
+            'sync_direction' => 'import',
+            'next_sync_at' => now()->addMinutes(10),
+        ]);
+
+        expect(Artisan::call('gcal:sync'))->toBe(0);
+
+        Bus::assertDispatched(RunGoogleCalendarSync::class, fn ($job) => $job->config->id === $this->config->id);
+        Bus::assertNotDispatched(RunGoogleCalendarSync::class, fn ($job) => $job->config->id === $notDue->id);
+    });
+});
+
+describe('Sync now endpoint', function () {
+    it('runs the sync and lists next run and health', function () {
+        Sanctum::actingAs(User::factory()->create(['role' => 'admin']));
+
+        $this->postJson("/api/v1/admin/google-calendar-sync/configs/{$this->config->id}/sync")
+            ->assertOk()
+            ->assertJsonPath('data.operation', 'sync')
+            ->assertJsonPath('data.status', 'completed');
+
+        $this->getJson('/api/v1/admin/google-calendar-sync/configs')
+            ->assertOk()
+            ->assertJsonPath('data.0.health', 'healthy')
+            ->assertJsonMissingPath('data.0.sync_token');
+    });
+});
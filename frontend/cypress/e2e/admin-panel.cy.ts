@@ -602,22 +602,213 @@ describe('Admin Panel', () => {
       });
     });
 
-    it('should export report to Excel', () => {
-      cy.intercept('GET', '**/api/v1/admin/reports/attendance/export*', {
+    it('should queue report export and list it in My exports', () => {
+      cy.intercept('POST', '**/api/v1/exports/reports', {
+        statusCode: 201,
+        body: { success: true, data: { export_id: 1, status: 'pending', created_at: '2025-11-15T10:00:00+01:00' } },
+      }).as('queueExport');
+
+      cy.intercept('GET', '**/api/v1/exports', {
         statusCode: 200,
-        headers: {
-          'content-type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: {
+          success: true,
+          data: {
+            exports: [
+              {
+                export_id: 1,
+                report_key: 'admin.attendance',
+                format: 'csv',
+                file_name: 'admin_attendance_2025-11-01_2025-11-15.csv',
+                params: { from: '2025-11-01', to: '2025-11-15' },
+                status: 'completed',
+                created_at: '2025-11-15T10:00:00+01:00',
+                completed_at: '2025-11-15T10:00:05+01:00',
+                download_url: '/api/v1/exports/1/download',
+                file_size: 2048,
+                error_message: null,
+              },
+            ],
+            total: 1,
+          },
+        },
+      }).as('listExports');
+
+      cy.intercept('GET', '**/api/v1/exports/1/download', {
+        statusCode: 200,
+        headers: { 'content-type': 'text/csv' },
+        body: 'mock-csv-content',
+      }).as('downloadExport');
+
+      cy.visit('/admin/reports');
+
+      cy.getByTestId('export-format-select').click();
+      cy.get('[role="option"]').contains('CSV').click();
+      cy.getByTestId('export-attendance-btn').click();
+
+      cy.wait('@queueExport').then((interception) => {
+        expect(interception.request.body.report_key).to.equal('admin.attendance');
+        expect(interception.request.body.format).to.equal('csv');
+      });
+
+      cy.getByTestId('my-exports-panel').should('contain', 'admin_attendance_2025-11-01_2025-11-15.csv');
+      cy.getByTestId('export-download-1').should('not.be.disabled').click();
+      cy.wait('@downloadExport');
+    });
+
+    it('should drill down the finance dashboard from site to trainer sessions', () => {
+      const totals = { total_entry_fee: 16000, total_trainer_fee: 10000, net_income: 6000, total_sessions: 2 };
+
+      cy.intercept('GET', '**/api/v1/admin/reports/admin/finance-overview*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: { ...totals, total_hours: 2, average_attendance_rate: 100, currency: 'HUF' },
+            periods: [{ period: '2025-11', ...totals, total_hours: 2, attendance_rate: 100 }],
+            breakdown: {
+              sites: [{ id: 1, name: 'Central', ...totals, trainers: [{ id: 7, name: 'Anna Trainer', ...totals }] }],
+              rooms: [{ id: 3, name: 'Room A', site_name: 'Central', ...totals }],
+              service_types: [{ id: 2, name: 'Personal Training', ...totals }],
+            },
+            comparison: { from: '2025-10-01', to: '2025-10-31', ...totals, total_entry_fee: 8000 },
+            filters: { from: '2025-11-01', to: '2025-11-30', group_by: 'month' },
+          },
+        },
+      }).as('getFinanceOverview');
+
+      cy.intercept('GET', '**/api/v1/admin/reports/admin/site-client-list*', {
+        statusCode: 200,
+        body: { success: true, data: { summary: {}, clients: [], filters: {} } },
+      }).as('getSiteClients');
+
+      cy.intercept('GET', '**/api/v1/admin/reports/admin/trainer-sessions*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: {},
+            individual_sessions: [
+              {
+                id: 11,
+                date: '2025-11-04',
+                time: '10:00 - 11:00',
+                client_name: 'Kata Client',
+                service_type: 'Personal Training',
+                room: 'Room A',
+                entry_fee: 8000,
+                trainer_fee: 5000,
+                total_fee: 13000,
+                attendance_status: 'attended',
+              },
+            ],
+            group_sessions: [],
+          },
         },
-        body: 'mock-xlsx-content',
-      }).as('exportReport');
+      }).as('getTrainerSessions');
 
       cy.visit('/admin/reports');
+      cy.getByTestId('finance-tab').click();
+      cy.wait('@getFinanceOverview');
 
-      cy.contains(/export|exportál/i).click();
+      cy.getByTestId('finance-dashboard').should('contain', '100.0%');
+      cy.getByTestId('finance-site-1').click();
+      cy.wait('@getSiteClients');
 
-      cy.waitForApi('@exportReport');
+      cy.getByTestId('finance-trainer-7').click();
+      cy.wait('@getTrainerSessions').then((interception) => {
+        expect(interception.request.url).to.include('trainerId=7');
+        expect(interception.request.url).to.include('site=1');
+      });
 
-      cy.contains(/download|letöltés/i).should('be.visible');
+      cy.contains('Kata Client').should('be.visible');
+      cy.getByTestId('finance-breadcrumb').should('contain', 'Anna Trainer');
+    });
+
+    it('should chart weekly trends and room occupancy for the selected range', () => {
+      cy.intercept('GET', '**/api/v1/admin/reports/admin/finance-overview*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: { total_entry_fee: 30000, total_trainer_fee: 18000, net_income: 12000, total_sessions: 4, total_hours: 4, average_attendance_rate: 75, currency: 'HUF' },
+            periods: [
+              { period: '2025-02', total_entry_fee: 16000, total_trainer_fee: 10000, net_income: 6000, total_sessions: 2, total_hours: 2, attendance_rate: 100 },
+              { period: '2025-03', total_entry_fee: 14000, total_trainer_fee: 8000, net_income: 6000, total_sessions: 2, total_hours: 2, attendance_rate: 50 },
+            ],
+            breakdown: { sites: [], rooms: [], service_types: [] },
+            comparison: { from: '2024-12-01', to: '2024-12-31', total_entry_fee: 0, total_trainer_fee: 0, net_income: 0, total_sessions: 0 },
+            filters: { from: '2025-01-06', to: '2025-01-19', group_by: 'week' },
+          },
+        },
+      }).as('getWeeklyOverview');
+      cy.intercept('GET', '**/api/v1/admin/reports/admin/room-occupancy*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: { room_count: 1, total_booked_hours: 1, peak_weekday: 1, peak_hour: 10, peak_occupancy_rate: 50 },
+            cells: [{ weekday: 1, hour: 10, booked_minutes: 60, occupancy_rate: 50 }],
+            filters: { from: '2025-01-06', to: '2025-01-19', site: null, room_id: null },
+          },
+        },
+      }).as('getRoomOccupancy');
+
+      cy.visit('/admin/reports');
+      cy.get('#date_from').clear().type('2025-01-06');
+      cy.getByTestId('trends-tab').click();
+
+      cy.wait('@getWeeklyOverview').then((interception) => {
+        expect(interception.request.url).to.include('groupBy=week');
+        expect(interception.request.url).to.include('from=2025-01-06');
+      });
+      cy.wait('@getRoomOccupancy');
+
+      cy.getByTestId('attendance-rate-chart').find('circle').should('have.length', 2);
+      cy.getByTestId('weekly-revenue-chart').find('rect').should('have.length', 4);
+      cy.getByTestId('heatmap-cell-1-10').should('have.attr', 'title').and('contain', '50.0%');
+    });
+
+    it('should apply report filters from the URL and save them as a preset', () => {
+      cy.intercept('GET', '**/api/v1/admin/reports/attendance*').as('getAttendance');
+      cy.intercept('GET', '**/api/v1/admin/report-presets', {
+        statusCode: 200,
+        body: { success: true, data: [] },
+      }).as('getPresets');
+      cy.intercept('POST', '**/api/v1/admin/report-presets', {
+        statusCode: 201,
+        body: {
+          success: true,
+          data: {
+            id: 1,
+            user_id: 1,
+            name: 'Group classes',
+            filters: { range: 'last_month', service_type: 'GROUP_CLASS' },
+            created_at: '2025-01-20T10:00:00Z',
+            updated_at: '2025-01-20T10:00:00Z',
+          },
+        },
+      }).as('savePreset');
+
+      cy.visit('/admin/reports?from=2025-01-01&to=2025-01-31&service_type=GROUP_CLASS');
+
+      cy.wait('@getAttendance').then((interception) => {
+        expect(interception.request.url).to.include('date_from=2025-01-01');
+        expect(interception.request.url).to.include('service_type=GROUP_CLASS');
+      });
+      cy.get('#date_from').should('have.value', '2025-01-01');
+
+      cy.getByTestId('save-preset-btn').click();
+      cy.getByTestId('preset-name-input').type('Group classes');
+      cy.getByTestId('preset-range-select').click();
+      cy.get('[role="option"]').contains(/last month|előző hónap/i).click();
+      cy.getByTestId('confirm-save-preset-btn').click();
+
+      cy.wait('@savePreset').then((interception) => {
+        expect(interception.request.body).to.deep.equal({
+          name: 'Group classes',
+          filters: { service_type: 'GROUP_CLASS', range: 'last_month' },
+        });
+      });
     });
 
     it('should load payouts report', () => {
@@ -648,6 +839,663 @@ describe('Admin Panel', () => {
     });
   });
 
+  context('Settlements', () => {
+    it('should close a month for all trainers and list the skipped ones', () => {
+      cy.intercept('GET', '**/api/v1/admin/settlements/month-close/preview*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            month: '2025-01',
+            period_start: '2025-01-01',
+            period_end: '2025-01-31',
+            trainers: [
+              {
+                trainer_id: 2,
+                trainer_name: 'Anna Kovács',
+                total_trainer_fee: 6000,
+                total_entry_fee: 9000,
+                items_count: 1,
+                individual_count: 1,
+                group_count: 0,
+                missing_pricing: [],
+                unchecked_attendance: [
+                  {
+                    type: 'individual',
+                    event_id: 11,
+                    class_occurrence_id: null,
+                    registration_id: null,
+                    class_name: '1:1 Edzés',
+                    client_name: 'Kiss Péter',
+                    class_date: '2025-01-20T10:00:00+01:00',
+                  },
+                ],
+                existing_settlement: null,
+                skip_reason: null,
+              },
+              {
+                trainer_id: 3,
+                trainer_name: 'Béla Nagy',
+                total_trainer_fee: 5000,
+                total_entry_fee: 8000,
+                items_count: 1,
+                individual_count: 1,
+                group_count: 0,
+                missing_pricing: [],
+                unchecked_attendance: [],
+                existing_settlement: { id: 7, status: 'finalized', period_start: '2025-01-01', period_end: '2025-01-31' },
+                skip_reason: 'locked',
+              },
+            ],
+          },
+        },
+      }).as('getMonthClosePreview');
+      cy.intercept('POST', '**/api/v1/admin/settlements/month-close', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            month: '2025-01',
+            created: [
+              {
+                settlement_id: 12,
+                trainer_id: 2,
+                trainer_name: 'Anna Kovács',
+                total_trainer_fee: 6000,
+                missing_pricing_count: 0,
+                unchecked_attendance_count: 1,
+              },
+            ],
+            skipped: [{ trainer_id: 3, trainer_name: 'Béla Nagy', reason: 'locked', existing_settlement_id: 7 }],
+          },
+        },
+      }).as('closeMonth');
+
+      cy.visit('/admin/settlements');
+
+      cy.getByTestId('open-month-close-btn').click();
+      cy.getByTestId('month-close-month-input').clear().type('2025-01');
+      cy.getByTestId('month-close-preview-btn').click();
+
+      cy.wait('@getMonthClosePreview').its('request.url').should('include', 'month=2025-01');
+      cy.getByTestId('month-close-select-3').should('be.disabled');
+      cy.getByTestId('month-close-issues-toggle-2').click();
+      cy.getByTestId('month-close-unchecked-2').should('contain', 'Kiss Péter');
+
+      cy.getByTestId('month-close-generate-btn').click();
+
+      cy.wait('@closeMonth').then((interception) => {
+        expect(interception.request.body).to.deep.equal({ month: '2025-01', trainer_ids: [2, 3] });
+      });
+      cy.getByTestId('month-close-result').should('contain', 'Anna Kovács');
+      cy.getByTestId('month-close-skipped').should('contain', 'Béla Nagy');
+    });
+  });
+
+  context('Pricing anomalies', () => {
+    it('should group anomalous sessions and re-resolve the selected ones', () => {
+      cy.intercept('GET', '**/api/v1/admin/pricing/anomalies*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: [
+            {
+              event_id: 31,
+              starts_at: '2025-03-10T10:00:00+01:00',
+              status: 'completed',
+              anomaly: 'unexpected_fallback',
+              client: { id: 5, name: 'Kiss Péter' },
+              service_type: { id: 2, code: 'PT', name: 'Személyi edzés' },
+              staff_name: 'Anna Kovács',
+              entry_fee_brutto: 10000,
+              trainer_fee_brutto: 6000,
+              currency: 'HUF',
+              price_source: 'service_type_default',
+              pricing_id: null,
+              expected_price_code: {
+                id: 9,
+                price_code: 'VIP',
+                entry_fee_brutto: 8000,
+                trainer_fee_brutto: 5000,
+                is_active: true,
+                valid_from: '2025-01-01',
+                valid_until: null,
+              },
+            },
+          ],
+        },
+      }).as('getAnomalies');
+      cy.intercept('GET', '**/api/v1/pricing/resolve-by-ids*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: { entry_fee_brutto: 8000, trainer_fee_brutto: 5000, currency: 'HUF', source: 'client_price_code', price_code: 'VIP' },
+        },
+      }).as('resolveByIds');
+      cy.intercept('POST', '**/api/v1/admin/pricing/anomalies/resolve', {
+        statusCode: 200,
+        body: { success: true, data: { updated: [{ event_id: 31 }], unchanged: [], failed: [] } },
+      }).as('resolveAnomalies');
+
+      cy.visit('/admin/pricing-anomalies');
+
+      cy.wait('@getAnomalies');
+      cy.wait('@resolveByIds').its('request.url').should('include', 'client_id=5');
+      cy.getByTestId('anomaly-group-resolved-5-2').should('contain', 'VIP');
+
+      cy.getByTestId('anomaly-group-select-5-2').click();
+      cy.getByTestId('resolve-selected-btn').click();
+
+      cy.wait('@resolveAnomalies').its('request.body').should('deep.equal', { event_ids: [31] });
+    });
+  });
+
+  context('Price history', () => {
+    it('should flag overlapping class pricing on the timeline', () => {
+      const pricing = (id: number, validFrom: string, validUntil: string | null) => ({
+        id,
+        name: `Rate ${id}`,
+        class_template_id: 3,
+        class_template: { id: 3, title: 'Pilates', color: '#22c55e' },
+        entry_fee_brutto: 3000 + id * 500,
+        trainer_fee_brutto: 2000,
+        currency: 'HUF',
+        valid_from: validFrom,
+        valid_until: validUntil,
+        is_active: true,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      });
+
+      cy.intercept('GET', '**/api/v1/admin/pricing/class-defaults*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: [pricing(1, '2025-01-01T00:00:00Z', '2025-06-30T00:00:00Z'), pricing(2, '2025-06-01T00:00:00Z', null)],
+        },
+      }).as('getClassDefaults');
+
+      cy.visit('/admin/pricing');
+      cy.wait('@getClassDefaults');
+
+      cy.getByTestId('pricing-timeline-toggle').click();
+      cy.getByTestId('pricing-timeline-3').should('be.visible');
+      cy.getByTestId('price-timeline-entry-1').should('exist');
+      cy.getByTestId('pricing-timeline-3-issues').should('contain', 'Rate 1');
+    });
+
+    it('should schedule a price increase for the selected clients', () => {
+      cy.intercept('GET', '**/api/v1/admin/service-types', {
+        statusCode: 200,
+        body: { success: true, data: [{ id: 2, code: 'PT', name: 'Személyi edzés', is_active: true }] },
+      }).as('getServiceTypes');
+      cy.intercept('GET', '**/api/v1/admin/client-price-codes/scheduled-changes/preview*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            effective_from: '2099-01-01',
+            clients: [
+              {
+                client_id: 5,
+                client_name: 'Kiss Péter',
+                price_code_id: 9,
+                price_code: 'VIP',
+                valid_from: '2025-01-01',
+                valid_until: null,
+                currency: 'HUF',
+                current_entry_fee_brutto: 10000,
+                current_trainer_fee_brutto: 6000,
+                new_entry_fee_brutto: 11000,
+                new_trainer_fee_brutto: 6000,
+                skip_reason: null,
+              },
+            ],
+          },
+        },
+      }).as('previewChange');
+      cy.intercept('POST', '**/api/v1/admin/client-price-codes/scheduled-changes', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            created: [{ client_id: 5, client_name: 'Kiss Péter', price_code_id: 10, entry_fee_brutto: 11000, trainer_fee_brutto: 6000 }],
+            skipped: [],
+          },
+        },
+      }).as('scheduleChange');
+
+      cy.visit('/admin/pricing');
+      cy.getByTestId('schedule-price-change-btn').click();
+      cy.wait('@getServiceTypes');
+
+      cy.getByTestId('price-schedule-service-type-select').click();
+      cy.contains('[role="option"]', 'Személyi edzés').click();
+      cy.getByTestId('price-schedule-effective-from-input').clear().type('2099-01-01');
+      cy.getByTestId('price-schedule-entry-fee-input').clear().type('10');
+      cy.getByTestId('price-schedule-preview-btn').click();
+
+      cy.wait('@previewChange');
+      cy.getByTestId('price-schedule-row-5').should('contain', 'Kiss Péter');
+      cy.getByTestId('price-schedule-submit-btn').click();
+
+      cy.wait('@scheduleChange').then((interception) => {
+        expect(interception.request.body).to.deep.include({
+          service_type_id: 2,
+          effective_from: '2099-01-01',
+          mode: 'percent',
+          entry_fee_change: 10,
+          client_ids: [5],
+        });
+      });
+      cy.getByTestId('price-schedule-result').should('be.visible');
+    });
+  });
+
+  context('Outstanding balances', () => {
+    it('should list clients who owe and record a payment from the ledger', () => {
+      cy.intercept('GET', '**/api/v1/admin/reports/admin/outstanding-balances*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            clients: [
+              {
+                client_id: 5,
+                client_name: 'Kiss Péter',
+                client_email: 'kiss@example.com',
+                session_charges: 20000,
+                class_charges: 2500,
+                pass_charges: 0,
+                payments: 10000,
+                balance: 12500,
+                last_payment_at: '2025-03-02T12:00:00Z',
+              },
+            ],
+            summary: { client_count: 1, total_outstanding: 12500 },
+          },
+        },
+      }).as('getOutstanding');
+      cy.intercept('GET', '**/api/v1/staff/clients/5/ledger*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            client_id: 5,
+            client_name: 'Kiss Péter',
+            unpaid_balance: 2500,
+            opening_balance: 0,
+            entries: [
+              { type: 'session', date: '2025-03-01T09:00:00Z', description: 'Személyi edzés', amount: 20000, balance_after: 20000, event_id: 11 },
+              { type: 'payment', date: '2025-03-02T12:00:00Z', description: null, amount: -10000, balance_after: 10000, payment_id: 3, method: 'cash', reference: null, recorded_by_name: 'Admin' },
+              { type: 'class', date: '2025-03-05T08:00:00Z', description: 'Pilates', amount: 2500, balance_after: 12500, class_registration_id: 8, payment_status: 'unpaid', session_starts_at: '2025-03-06T08:00:00Z' },
+            ],
+            totals: { charges: 22500, payments: 10000, balance: 12500 },
+          },
+        },
+      }).as('getLedger');
+      cy.intercept('POST', '**/api/v1/staff/clients/5/payments', {
+        statusCode: 201,
+        body: {
+          success: true,
+          data: { id: 4, client_id: 5, amount: 12500, currency: 'HUF', method: 'card', paid_at: '2025-03-15T10:00:00Z', reference: null, notes: null, class_registration_id: null, created_at: '2025-03-15T10:00:00Z' },
+        },
+      }).as('recordPayment');
+
+      cy.visit('/admin/outstanding-balances');
+      cy.wait('@getOutstanding');
+
+      cy.getByTestId('outstanding-total').should('contain', '12');
+      cy.getByTestId('outstanding-row-5').should('contain', 'Kiss Péter');
+
+      cy.getByTestId('outstanding-open-5').click();
+      cy.wait('@getLedger');
+      cy.getByTestId('client-ledger-entry-2').should('contain', 'Pilates');
+
+      cy.getByTestId('record-payment-btn').click();
+      cy.getByTestId('payment-amount-input').should('have.value', '12500');
+      cy.getByTestId('payment-method-select').click();
+      cy.get('[role="option"]').eq(1).click();
+      cy.getByTestId('payment-submit-btn').click();
+
+      cy.wait('@recordPayment').then((interception) => {
+        expect(interception.request.body).to.deep.include({ amount: 12500, method: 'card' });
+      });
+    });
+  });
+
+  context('Event import', () => {
+    it('should preview conflicts and import the kept rows', () => {
+      const row = (number: number, status: string, extra: Record<string, unknown> = {}) => ({
+        row: number,
+        title: null,
+        starts_at: '2025-03-10T09:00:00+01:00',
+        ends_at: '2025-03-10T10:00:00+01:00',
+        type: 'BLOCK',
+        room: { id: 1, name: 'Studio A' },
+        staff: { id: 2, name: 'Kiss Anna' },
+        client: null,
+        service_type: null,
+        notes: null,
+        status,
+        errors: [],
+        conflicts: [],
+        conflict_with: null,
+        ...extra,
+      });
+
+      cy.intercept('POST', '**/api/v1/admin/events/import/preview', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            format: 'csv',
+            rows: [
+              row(2, 'ok'),
+              row(3, 'conflict', {
+                conflicts: [{ event_id: 10, event_type: 'event', title: 'Nagy Péter', starts_at: '2025-03-10T09:30:00+01:00', ends_at: '2025-03-10T10:30:00+01:00', overlap_minutes: 30 }],
+                conflict_with: 'Nagy Péter - 09:30',
+              }),
+              row(4, 'invalid', { room: null, errors: [{ code: 'room_not_found', value: 'Studio B' }] }),
+            ],
+            summary: { total: 3, ok: 1, conflict: 1, invalid: 1 },
+          },
+        },
+      }).as('previewImport');
+      cy.intercept('POST', '**/api/v1/admin/events/import', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: { total: 3, created: 2, skipped: 0, rejected: 1 },
+            created: [{ row: 2, event_id: 100 }, { row: 3, event_id: 101 }],
+            skipped: [],
+            rejected: [{ row: 4, errors: [{ code: 'room_not_found', value: 'Studio B' }] }],
+          },
+        },
+      }).as('import');
+
+      cy.visit('/admin/event-import');
+      cy.getByTestId('event-import-file').selectFile(
+        { contents: Cypress.Buffer.from('date;start;end;room;staff\n2025-03-10;09:00;10:00;Studio A;Kiss Anna'), fileName: 'events.csv' },
+        { force: true }
+      );
+      cy.getByTestId('event-import-preview-btn').click();
+      cy.wait('@previewImport');
+
+      // Conflicts start out skipped, invalid rows cannot be imported
+      cy.getByTestId('event-import-skip-3').should('have.attr', 'data-state', 'checked');
+      cy.getByTestId('event-import-skip-4').should('be.disabled');
+      cy.getByTestId('event-import-row-4').should('contain', 'Studio B');
+
+      cy.getByTestId('event-import-skip-3').click();
+      cy.getByTestId('event-import-confirm-btn').click();
+      cy.wait('@import');
+
+      cy.getByTestId('event-import-result').should('contain', '2');
+      cy.getByTestId('event-import-rejected-4').should('contain', 'Studio B');
+    });
+  });
+
+  context('Client import', () => {
+    it('should map columns, fix a row after the dry run, import and undo the batch', () => {
+      const checked = (row: number, status: string, extra: Record<string, unknown> = {}) => ({
+        row,
+        status,
+        name: 'Kovács Éva',
+        email: 'eva@example.com',
+        placeholder_email: false,
+        phone: null,
+        service_type: null,
+        trainer_fee: null,
+        entry_fee: null,
+        client: null,
+        duplicate_of: null,
+        errors: [],
+        warnings: [],
+        ...extra,
+      });
+      const batch = {
+        id: 7,
+        file_name: 'clients.csv',
+        status: 'completed',
+        summary: { total: 2, created: 2, updated: 0, rejected: 0 },
+        created_by: 'Admin',
+        created_at: '2025-03-10T09:00:00+01:00',
+        undone_at: null,
+        undone_by: null,
+      };
+
+      cy.intercept('GET', '**/api/v1/admin/clients/import/batches', {
+        statusCode: 200,
+        body: { success: true, data: [] },
+      }).as('batches');
+      cy.intercept('POST', '**/api/v1/admin/clients/import/parse', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            format: 'csv',
+            encoding: 'UTF-8',
+            delimiter: ',',
+            headers: ['Teljes név', 'E-mail'],
+            rows: [
+              { row: 2, values: ['Kovács Éva', 'eva@example.com'] },
+              { row: 3, values: ['Minta Kata', 'kata@'] },
+            ],
+            mapping: { name: null, email: 1, phone: null, service_type: null, trainer_fee: null, entry_fee: null },
+          },
+        },
+      }).as('parse');
+
+      cy.visit('/admin/client-import');
+      cy.getByTestId('client-import-file').selectFile(
+        { contents: Cypress.Buffer.from('Teljes név,E-mail\nKovács Éva,eva@example.com\nMinta Kata,kata@'), fileName: 'clients.csv' },
+        { force: true }
+      );
+      cy.getByTestId('client-import-parse-btn').click();
+      cy.wait('@parse');
+
+      // The name column was not recognised, it has to be mapped by hand
+      cy.getByTestId('client-import-check-btn').should('be.disabled');
+      cy.getByTestId('client-import-map-name').click();
+      cy.get('[role="option"]').contains('Teljes név').click();
+
+      cy.intercept('POST', '**/api/v1/admin/clients/import/dry-run', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            rows: [
+              checked(2, 'create'),
+              checked(3, 'invalid', { name: 'Minta Kata', email: 'kata@', errors: [{ code: 'invalid_email', value: 'kata@' }] }),
+            ],
+            summary: { total: 2, create: 1, update: 0, duplicate: 0, invalid: 1 },
+          },
+        },
+      }).as('dryRun');
+      cy.getByTestId('client-import-check-btn').click();
+      cy.wait('@dryRun').its('request.body.rows.1').should('deep.include', { row: 3, name: 'Minta Kata', email: 'kata@' });
+
+      cy.getByTestId('client-import-row-3').should('contain', 'kata@');
+
+      // Fixing a row asks for a new check before importing
+      cy.getByTestId('client-import-cell-3-email').clear().type('kata@example.com');
+      cy.getByTestId('client-import-confirm-btn').should('be.disabled');
+
+      cy.intercept('POST', '**/api/v1/admin/clients/import/dry-run', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            rows: [checked(2, 'create'), checked(3, 'create', { name: 'Minta Kata', email: 'kata@example.com' })],
+            summary: { total: 2, create: 2, update: 0, duplicate: 0, invalid: 0 },
+          },
+        },
+      }).as('recheck');
+      cy.getByTestId('client-import-recheck-btn').click();
+      cy.wait('@recheck').its('request.body.rows.1.email').should('eq', 'kata@example.com');
+
+      cy.intercept('POST', '**/api/v1/admin/clients/import', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            batch,
+            imported: [
+              { row: 2, status: 'create', client_id: 11, name: 'Kovács Éva', email: 'eva@example.com', placeholder_email: false, service_type: null, trainer_fee: null, entry_fee: null },
+              { row: 3, status: 'create', client_id: 12, name: 'Minta Kata', email: 'kata@example.com', placeholder_email: false, service_type: null, trainer_fee: null, entry_fee: null },
+            ],
+            rejected: [],
+          },
+        },
+      }).as('import');
+      cy.getByTestId('client-import-confirm-btn').click();
+      cy.wait('@import').its('request.body').should('deep.include', { file_name: 'clients.csv', placeholder_email: false });
+      cy.getByTestId('client-import-result').should('contain', '2');
+
+      cy.intercept('POST', '**/api/v1/admin/clients/import/batches/7/undo', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            batch: { ...batch, status: 'undone', undone_at: '2025-03-10T09:05:00+01:00', undone_by: 'Admin' },
+            result: { deleted: 2, restored: 0, kept: [] },
+          },
+        },
+      }).as('undo');
+      cy.on('window:confirm', () => true);
+      cy.getByTestId('client-import-undo-btn').click();
+      cy.wait('@undo');
+      cy.getByTestId('client-import-undo-btn').should('not.exist');
+    });
+  });
+
+  context('Google Calendar sync', () => {
+    it('should show health and next run, and sync a config on demand', () => {
+      const config = {
+        id: 3,
+        name: 'Studio',
+        google_calendar_id: 'studio@group.calendar.google.com',
+        room_id: null,
+        sync_enabled: true,
+        sync_direction: 'both',
+        sync_interval_minutes: 15,
+        service_account_json: null,
+        sync_options: null,
+        last_import_at: '2025-03-15T09:45:00Z',
+        last_export_at: '2025-03-15T09:45:00Z',
+        last_synced_at: '2025-03-15T09:45:00Z',
+        next_sync_at: '2099-01-01T10:00:00Z',
+        consecutive_failures: 2,
+        last_error: 'Forbidden',
+        health: 'degraded',
+        created_at: '2025-03-01T00:00:00Z',
+        updated_at: '2025-03-15T09:45:00Z',
+        deleted_at: null,
+      };
+
+      cy.intercept('GET', '**/api/v1/admin/google-calendar-sync/configs', {
+        statusCode: 200,
+        body: { success: true, data: [config] },
+      }).as('getConfigs');
+      cy.intercept('POST', '**/api/v1/admin/google-calendar-sync/configs/3/sync', {
+        statusCode: 200,
+        body: {
+          success: true,
+          message: 'Sync completed successfully',
+          data: { id: 50, sync_config_id: 3, operation: 'sync', status: 'completed', events_created: 2, events_updated: 1, events_failed: 0 },
+        },
+      }).as('syncNow');
+
+      cy.visit('/admin/google-calendar-sync');
+      cy.wait('@getConfigs');
+
+      cy.getByTestId('sync-config-health-3').contains(/retrying|újrapróbálás/i).should('be.visible');
+      cy.getByTestId('sync-config-next-run-3').should('contain', '2099-01-01');
+
+      cy.getByTestId('sync-config-sync-now-3').click();
+      cy.wait('@syncNow');
+      cy.contains(/sync completed|szinkronizálás befejezve/i).should('be.visible');
+    });
+
+    it('should preview overlapping events and resolve each conflict', () => {
+      const conflict = {
+        google_event_id: 'gevt1',
+        google_summary: 'Photo shoot',
+        google_start: '2099-01-05T10:30:00Z',
+        google_end: '2099-01-05T11:30:00Z',
+        room_id: 1,
+        conflicting_events: [
+          { event_id: 12, type: 'event', title: 'Kiss Anna', start: '2099-01-05T10:00:00Z', end: '2099-01-05T11:00:00Z', overlap_minutes: 30 },
+        ],
+      };
+      const log = {
+        id: 60,
+        sync_config_id: 4,
+        operation: 'import',
+        status: 'completed',
+        events_processed: 1,
+        events_created: 0,
+        events_updated: 0,
+        events_skipped: 1,
+        events_failed: 0,
+        conflicts_detected: 1,
+        conflicts: [conflict],
+        metadata: null,
+      };
+
+      cy.intercept('GET', '**/api/v1/admin/google-calendar-sync/configs', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: [{
+            id: 4,
+            name: 'Front desk',
+            google_calendar_id: 'front@group.calendar.google.com',
+            room_id: null,
+            sync_enabled: true,
+            sync_direction: 'import',
+            sync_interval_minutes: 15,
+            sync_options: { default_resolution: 'shift', import_rules: [] },
+            last_synced_at: null,
+            next_sync_at: null,
+            consecutive_failures: 0,
+            last_error: null,
+            health: 'pending',
+          }],
+        },
+      }).as('getConfigs');
+      cy.intercept('POST', '**/api/v1/admin/google-calendar-sync/import', {
+        statusCode: 200,
+        body: { success: true, data: log, conflicts: [conflict] },
+      }).as('import');
+      cy.intercept('POST', '**/api/v1/admin/google-calendar-sync/logs/60/resolve-conflicts', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: { ...log, events_created: 1, metadata: { resolutions: { gevt1: { resolution: 'keep_both', outcome: 'created' } } } },
+        },
+      }).as('resolve');
+
+      cy.visit('/admin/google-calendar-sync');
+      cy.wait('@getConfigs');
+
+      cy.getByTestId('sync-config-import-4').click();
+      cy.contains('button', /start import|import indítása/i).click();
+      cy.wait('@import');
+
+      cy.getByTestId('conflict-preview-gevt1').should('contain', 'Photo shoot').and('contain', 'Kiss Anna');
+      cy.getByTestId('conflict-preview-overlap').should('exist');
+
+      cy.getByTestId('conflict-resolution-gevt1').click();
+      cy.contains('[role="option"]', /keep both|mindkettő megtartása/i).click();
+      cy.contains('button', /resolve conflicts|konfliktusok feloldása/i).click();
+
+      cy.wait('@resolve').its('request.body').should('deep.equal', { resolutions: { gevt1: 'keep_both' } });
+    });
+  });
+
   context('Authorization (RBAC)', () => {
     it('should show 403 error when non-admin tries to access admin panel', () => {
       cy.fixture('users').then((users) => {
@@ -704,4 +704,159 @@ describe('Calendar Event Management', () => {
       cy.contains(new Date().getDate()).should('be.visible');
     });
   });
+
+  context('Room Columns View', () => {
+    beforeEach(() => {
+      cy.fixture('users').then((users) => {
+        const admin = users.admin;
+        cy.login(admin.email, admin.password);
+        cy.visit('/calendar');
+      });
+    });
+
+    it('should show one column per room', () => {
+      cy.contains('button', /rooms|termek/i).click();
+
+      cy.get('[data-testid="room-columns-view"]').should('be.visible');
+      cy.get('.fc-timegrid').should('not.exist');
+    });
+
+    it('should move an event to another room via the update endpoint', () => {
+      cy.intercept('PATCH', '**/api/v1/staff/events/*').as('updateEvent');
+      cy.contains('button', /rooms|termek/i).click();
+      cy.wait(1000);
+
+      // Drag the first event into the second room column
+      const dataTransfer = new DataTransfer();
+      cy.get('[data-testid="room-columns-view"] [draggable="true"]').first()
+        .trigger('dragstart', { dataTransfer });
+      cy.get('[data-testid="room-columns-view"] > div').eq(2).find('.relative').first()
+        .trigger('dragover', { dataTransfer })
+        .trigger('drop', { dataTransfer });
+
+      cy.contains(/save changes|módosítás mentése/i).click();
+      cy.wait('@updateEvent').its('request.body').should('have.property', 'room_id');
+    });
+  });
+
+  context('Live Updates', () => {
+    // Local stand-in for the calendar stream: one pushed event + an edit marker on it
+    const startsAt = new Date();
+    startsAt.setHours(10, 0, 0, 0);
+    const endsAt = new Date(startsAt.getTime() + 60 * 60 * 1000);
+    const pushedEvent = {
+      id: 90001,
+      type: 'BLOCK',
+      status: 'scheduled',
+      staff_id: null,
+      client_id: null,
+      room_id: null,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      notes: 'Live pushed block',
+    };
+    const stream = [
+      'id: 1\nevent: calendar.ready\ndata: {"last_id":1}\n\n',
+      `id: 2\nevent: calendar.update\ndata: ${JSON.stringify({
+        id: 2,
+        entity_type: 'event',
+        entity_id: pushedEvent.id,
+        action: 'created',
+        item: pushedEvent,
+        actor: { id: 999, name: 'Other Receptionist' },
+        created_at: new Date().toISOString(),
+      })}\n\n`,
+      `event: calendar.editing\ndata: ${JSON.stringify({
+        editors: [{ entity_type: 'event', entity_id: pushedEvent.id, user_id: 999, user_name: 'Other Receptionist' }],
+      })}\n\n`,
+    ].join('');
+
+    beforeEach(() => {
+      cy.intercept('GET', '**/api/v1/admin/events*', { body: { success: true, data: [] } });
+      cy.intercept('GET', '**/api/v1/staff/calendar/stream*', {
+        headers: { 'content-type': 'text/event-stream' },
+        body: stream,
+      }).as('calendarStream');
+
+      cy.fixture('users').then((users) => {
+        const admin = users.admin;
+        cy.login(admin.email, admin.password);
+        cy.visit('/calendar');
+      });
+    });
+
+    it('should connect to the calendar stream', () => {
+      cy.wait('@calendarStream');
+      cy.get('[data-testid="calendar-live-status"]').should('be.visible');
+    });
+
+    it('should show an event pushed by the server without a refetch', () => {
+      cy.wait('@calendarStream');
+      cy.get('.fc-event').contains('Live pushed block').should('be.visible');
+    });
+
+    it('should mark an event that another user is editing', () => {
+      cy.wait('@calendarStream');
+      cy.get('.fc-event-being-edited').should('have.length', 1);
+      cy.get('.fc-event-editing-badge').should('have.attr', 'title').and('contain', 'Other Receptionist');
+    });
+  });
+
+  context('Availability Shading', () => {
+    const today = new Date();
+    const todayString = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const openDay = { open: '08:00', close: '20:00' };
+
+    beforeEach(() => {
+      cy.intercept('GET', '**/api/v1/staff/availability/calendar*', {
+        body: {
+          success: true,
+          data: {
+            trainers: [{
+              staff_id: 777,
+              name: 'Absent Trainer',
+              weekly: [],
+              exceptions: [{
+                id: 1,
+                staff_id: 777,
+                type: 'vacation',
+                starts_on: todayString,
+                ends_on: todayString,
+                start_time: null,
+                end_time: null,
+                note: null,
+              }],
+            }],
+            sites: [{
+              site_id: 1,
+              name: 'Test Site',
+              opening_hours: {
+                monday: openDay, tuesday: openDay, wednesday: openDay, thursday: openDay,
+                friday: openDay, saturday: openDay, sunday: openDay,
+              },
+              room_ids: [],
+            }],
+          },
+        },
+      }).as('availabilityCalendar');
+
+      cy.fixture('users').then((users) => {
+        const admin = users.admin;
+        cy.login(admin.email, admin.password);
+        cy.visit('/calendar');
+      });
+    });
+
+    it('should shade the closed hours of the sites', () => {
+      cy.wait('@availabilityCalendar');
+      cy.get('.fc-bg-event.fc-closed-hours').should('exist');
+    });
+
+    it('should shade the absence of the selected trainer', () => {
+      cy.wait('@availabilityCalendar');
+      cy.get('[data-testid="availability-trainer-select"]').click();
+      cy.contains('[role="option"]', 'Absent Trainer').click();
+      cy.get('.fc-bg-event.fc-unavailable-vacation').should('exist');
+    });
+  });
 });
@@ -471,4 +471,45 @@ describe('Class Booking Flow', () => {
       // cy.wait('@getFilteredClasses');
     });
   });
+
+  context('Individual Session Self-Booking', () => {
+    it('should book a free slot of a trainer as a pending session', () => {
+      const monday = new Date();
+      monday.setDate(monday.getDate() + ((8 - monday.getDay()) % 7 || 7));
+      monday.setHours(9, 0, 0, 0);
+      const slotEnd = new Date(monday.getTime() + 60 * 60 * 1000);
+
+      cy.intercept('GET', '**/api/v1/public/service-types', {
+        body: { success: true, data: [{ id: 1, code: 'PT', name: 'Personal Training', description: null, price_brutto: 10000, session_minutes: 60 }] },
+      }).as('getServiceTypes');
+      cy.intercept('GET', '**/api/v1/public/trainers?*', {
+        body: { success: true, data: [{ id: 7, name: 'Test Trainer', specialization: null, bio: null, default_site: 'SASAD' }] },
+      }).as('getTrainers');
+      cy.intercept('GET', '**/api/v1/public/trainers/7/slots*', {
+        body: { success: true, data: [{ starts_at: monday.toISOString(), ends_at: slotEnd.toISOString(), room_id: 1, site: 'SASAD' }] },
+      }).as('getSlots');
+      cy.intercept('POST', '**/api/v1/sessions/book', {
+        statusCode: 201,
+        body: { success: true, data: { id: '99', status: 'pending', type: 'INDIVIDUAL' } },
+      }).as('bookSession');
+
+      cy.visit('/public/sessions');
+      cy.wait('@getServiceTypes');
+
+      cy.getByTestId('service-type-1').click();
+      cy.wait('@getTrainers');
+      cy.getByTestId('trainer-7').click();
+      cy.wait('@getSlots');
+
+      // Next Monday always falls into the following week
+      cy.getByTestId('slots-next-week').click();
+      cy.wait('@getSlots');
+
+      cy.getByTestId('session-slot').first().click();
+      cy.getByTestId('session-book-button').click();
+
+      cy.wait('@bookSession').its('request.body').should('include', { service_type_id: 1, staff_id: 7 });
+      cy.getByTestId('session-booked-notice').should('be.visible');
+    });
+  });
 });
@@ -554,6 +554,107 @@ describe('Client Activity Portal', () => {
     });
   });
 
+  context('Finance Page', () => {
+    it('should show charges per session, pass spend and balance', () => {
+      cy.intercept('GET', '**/api/v1/reports/client/my-finance*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: {
+              total_passes_purchased: 1,
+              total_amount_spent: 30000,
+              total_credits_purchased: 10,
+              total_credits_used: 1,
+              total_session_charges: 12000,
+              currency: 'HUF',
+            },
+            breakdown: [],
+            sessions: [
+              { id: 11, type: 'INDIVIDUAL', date: '2025-03-01', time: '09:00', service_name: 'Személyi edzés', trainer_name: 'Nagy Anna', room_name: 'Terem 1', attendance_status: 'attended', credits_used: 0, entry_fee: 12000, payment_status: 'unpaid' },
+              { id: 7, type: 'GROUP_CLASS', date: '2025-03-03', time: '18:00', service_name: 'Pilates', trainer_name: 'Kovács Béla', room_name: 'Terem 2', attendance_status: 'attended', credits_used: 1, entry_fee: 0, payment_status: 'paid' },
+            ],
+            passes: [
+              { id: 3, name: '10 alkalmas bérlet', purchased_at: '2025-03-02T10:00:00Z', expires_at: '2025-06-02T10:00:00Z', total_credits: 10, remaining_credits: 9, price: 30000, currency: 'HUF', status: 'active' },
+            ],
+            balance: { charges: 42000, payments: 30000, outstanding: 12000 },
+            filters: { from: '2025-01-01', to: '2025-03-31', group_by: 'month' },
+          },
+        },
+      }).as('getFinance');
+
+      cy.visit('/finance');
+      cy.wait('@getFinance');
+
+      cy.getByTestId('finance-outstanding').should('contain', '12');
+      cy.getByTestId('finance-session-INDIVIDUAL-11').should('contain', '12');
+      cy.getByTestId('finance-session-GROUP_CLASS-7').contains(/paid with pass|bérlettel fizetve/i).should('be.visible');
+      cy.getByTestId('finance-pass-3').should('contain', '10 alkalmas bérlet');
+    });
+
+    it('should download the monthly statement', () => {
+      cy.intercept('GET', '**/api/v1/reports/client/my-finance*', {
+        statusCode: 200,
+        body: {
+          success: true,
+          data: {
+            summary: { total_passes_purchased: 0, total_amount_spent: 0, total_credits_purchased: 0, total_credits_used: 0, total_session_charges: 0, currency: 'HUF' },
+            breakdown: [],
+            sessions: [],
+            passes: [],
+            balance: { charges: 0, payments: 0, outstanding: 0 },
+            filters: { from: '2025-01-01', to: '2025-03-31', group_by: 'month' },
+          },
+        },
+      });
+      cy.intercept('GET', '**/api/v1/reports/client/my-statement*', {
+        statusCode: 200,
+        headers: { 'content-type': 'application/pdf' },
+        body: '%PDF-1.4',
+      }).as('getStatement');
+
+      cy.visit('/finance');
+
+      cy.getByTestId('finance-statement-month').clear().type('2025-02');
+      cy.getByTestId('finance-statement-download').click();
+
+      cy.wait('@getStatement').its('request.url').should('include', 'month=2025-02');
+    });
+  });
+
+  context('Calendar subscription', () => {
+    it('should create, regenerate and revoke the private calendar link', () => {
+      const subscription = (token: string | null) => ({
+        url: token ? `http://localhost:8080/api/v1/calendar-feed/${token}.ics` : null,
+        webcal_url: token ? `webcal://localhost:8080/api/v1/calendar-feed/${token}.ics` : null,
+        created_at: token ? '2025-03-01T10:00:00+01:00' : null,
+        last_accessed_at: null,
+      });
+
+      cy.intercept('GET', '**/api/v1/calendar-feed', { statusCode: 200, body: { success: true, data: subscription(null) } }).as('getFeed');
+      cy.intercept('POST', '**/api/v1/calendar-feed', { statusCode: 200, body: { success: true, data: subscription('firsttoken') } }).as('createFeed');
+      cy.intercept('DELETE', '**/api/v1/calendar-feed', { statusCode: 200, body: { success: true, data: subscription(null) } }).as('revokeFeed');
+
+      cy.visit('/settings');
+      cy.wait('@getFeed');
+
+      cy.getByTestId('calendar-feed-create').click();
+      cy.wait('@createFeed');
+      cy.getByTestId('calendar-feed-url').should('have.value', 'http://localhost:8080/api/v1/calendar-feed/firsttoken.ics');
+
+      cy.intercept('POST', '**/api/v1/calendar-feed', { statusCode: 200, body: { success: true, data: subscription('secondtoken') } }).as('regenerateFeed');
+      cy.on('window:confirm', () => true);
+      cy.getByTestId('calendar-feed-regenerate').click();
+      cy.wait('@regenerateFeed');
+      cy.getByTestId('calendar-feed-url').should('have.value', 'http://localhost:8080/api/v1/calendar-feed/secondtoken.ics');
+
+      cy.getByTestId('calendar-feed-revoke').click();
+      cy.wait('@revokeFeed');
+      cy.getByTestId('calendar-feed-url').should('not.exist');
+      cy.getByTestId('calendar-feed-create').should('be.visible');
+    });
+  });
+
   context('Responsive Behavior', () => {
     it('should be responsive on mobile viewport', () => {
       cy.viewport('iphone-x');
@@ -0,0 +1,69 @@
+// Trainer working hours and absences API (staff/admin)
+import apiClient from './client'
+import type { ApiResponse } from '@/types/api'
+import type {
+  AvailabilityCalendarData,
+  AvailabilityException,
+  CreateAvailabilityExceptionRequest,
+  StaffAvailability,
+  WeeklyAvailabilitySlot,
+} from '@/types/staff'
+
+export const availabilityApi = {
+  /**
+   * Weekly working hours and recent / upcoming absences of a trainer
+   */
+  get: async (staffId: number): Promise<StaffAvailability> => {
+    const response = await apiClient.get<ApiResponse<StaffAvailability>>(
+      `/staff/trainers/${staffId}/availability`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Replace the weekly working hours of a trainer
+   */
+  updateWeekly: async (staffId: number, weekly: WeeklyAvailabilitySlot[]): Promise<StaffAvailability> => {
+    const response = await apiClient.put<ApiResponse<StaffAvailability>>(
+      `/staff/trainers/${staffId}/availability`,
+      { weekly: weekly.map(({ weekday, start_time, end_time }) => ({ weekday, start_time, end_time })) }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Record an absence (vacation, sick day)
+   */
+  addException: async (staffId: number, data: CreateAvailabilityExceptionRequest): Promise<AvailabilityException> => {
+    const response = await apiClient.post<ApiResponse<AvailabilityException>>(
+      `/staff/trainers/${staffId}/availability/exceptions`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Delete an absence
+   */
+  deleteException: async (exceptionId: number): Promise<void> => {
+    await apiClient.delete(`/staff/availability/exceptions/${exceptionId}`)
+  },
+
+  /**
+   * Working hours of all trainers and site opening hours for calendar shading
+   */
+  calendar: async (dateFrom: string, dateTo: string): Promise<AvailabilityCalendarData> => {
+    const response = await apiClient.get<ApiResponse<AvailabilityCalendarData>>(
+      '/staff/availability/calendar',
+      { params: { date_from: dateFrom, date_to: dateTo } }
+    )
+    return response.data.data
+  },
+}
+
+export const availabilityKeys = {
+  all: ['availability'] as const,
+  staff: (staffId: number) => [...availabilityKeys.all, 'staff', staffId] as const,
+  calendar: (dateFrom: string, dateTo: string) =>
+    [...availabilityKeys.all, 'calendar', dateFrom, dateTo] as const,
+}
@@ -0,0 +1,44 @@
+import apiClient from './client';
+
+export interface CalendarFeedSubscription {
+  url: string | null;
+  webcal_url: string | null;
+  created_at: string | null;
+  last_accessed_at: string | null;
+}
+
+export interface CalendarFeedResponse {
+  data: CalendarFeedSubscription;
+}
+
+export const calendarFeedApi = {
+  /**
+   * Get current user's calendar feed (url is null while none was created)
+   */
+  async get(): Promise<CalendarFeedSubscription> {
+    const response = await apiClient.get<CalendarFeedResponse>('/calendar-feed');
+    return response.data.data;
+  },
+
+  /**
+   * Create the feed URL, or replace it with a new one (the old URL stops working)
+   */
+  async regenerate(): Promise<CalendarFeedSubscription> {
+    const response = await apiClient.post<CalendarFeedResponse>('/calendar-feed');
+    return response.data.data;
+  },
+
+  /**
+   * Revoke the feed URL
+   */
+  async revoke(): Promise<CalendarFeedSubscription> {
+    const response = await apiClient.delete<CalendarFeedResponse>('/calendar-feed');
+    return response.data.data;
+  },
+};
+
+// React Query keys factory
+export const calendarFeedKeys = {
+  all: ['calendarFeed'] as const,
+  current: () => [...calendarFeedKeys.all, 'current'] as const,
+};
@@ -9,6 +9,8 @@ import type {
   CancelBookingRequest,
   CancelBookingResponse,
   ClassRegistration,
+  ClassSwapOption,
+  SwapBookingRequest,
 } from '@/types/class'
 
 export const classesApi = {
@@ -60,6 +62,27 @@ export const classesApi = {
     return response.data.data
   },
 
+  /**
+   * Other dates of the same class with free spots (for rescheduling a booking)
+   */
+  getSwapOptions: async (occurrenceId: string): Promise<ClassSwapOption[]> => {
+    const response = await apiClient.get<ApiResponse<ClassSwapOption[]>>(
+      `/classes/${occurrenceId}/swap-options`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Move a booking to another date of the same class, keeping its credit (24h window check on backend)
+   */
+  swap: async (occurrenceId: string, data: SwapBookingRequest): Promise<ClassRegistration> => {
+    const response = await apiClient.post<ApiResponse<ClassRegistration>>(
+      `/classes/${occurrenceId}/swap`,
+      data
+    )
+    return response.data.data
+  },
+
   /**
    * Get my registrations for a specific class occurrence
    */
@@ -70,6 +93,14 @@ export const classesApi = {
     return response.data.data
   },
 
+  /**
+   * Download the class as an .ics file ("Add to calendar"), with my registration status
+   */
+  downloadIcs: async (occurrenceId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/classes/${occurrenceId}/ics`, { responseType: 'blob' })
+    return response.data
+  },
+
   /**
    * Update class occurrence (admin only - force move)
    */
@@ -93,4 +124,5 @@ export const classKeys = {
   details: () => [...classKeys.all, 'detail'] as const,
   detail: (id: string) => [...classKeys.details(), id] as const,
   registration: (id: string) => [...classKeys.all, 'registration', id] as const,
+  swapOptions: (id: string) => [...classKeys.all, 'swap-options', id] as const,
 }
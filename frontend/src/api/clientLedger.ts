@@ -0,0 +1,53 @@
+// Client balance ledger and payment recording API (staff/admin)
+import apiClient from './client'
+import type { ApiResponse } from '@/types/api'
+import type {
+  ClientLedger,
+  ClientLedgerFilters,
+  ClientPayment,
+  OutstandingBalancesReport,
+  RecordPaymentRequest,
+} from '@/types/client'
+
+export const clientLedgerApi = {
+  /**
+   * Charges and payments of a client with a running balance
+   */
+  get: async (clientId: number, filters?: ClientLedgerFilters): Promise<ClientLedger> => {
+    const response = await apiClient.get<ApiResponse<ClientLedger>>(
+      `/staff/clients/${clientId}/ledger`,
+      { params: filters }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Record money received from a client
+   */
+  recordPayment: async (clientId: number, data: RecordPaymentRequest): Promise<ClientPayment> => {
+    const response = await apiClient.post<ApiResponse<ClientPayment>>(
+      `/staff/clients/${clientId}/payments`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Clients who owe money, largest balance first (admin only)
+   */
+  outstanding: async (minBalance?: number): Promise<OutstandingBalancesReport> => {
+    const response = await apiClient.get<ApiResponse<OutstandingBalancesReport>>(
+      '/admin/reports/admin/outstanding-balances',
+      { params: minBalance ? { min_balance: minBalance } : undefined }
+    )
+    return response.data.data
+  },
+}
+
+// React Query keys factory for client ledgers
+export const clientLedgerKeys = {
+  all: ['client-ledger'] as const,
+  byClient: (clientId: number, filters?: ClientLedgerFilters) =>
+    [...clientLedgerKeys.all, 'client', clientId, filters ?? {}] as const,
+  outstanding: (minBalance?: number) => [...clientLedgerKeys.all, 'outstanding', minBalance ?? 1] as const,
+}
@@ -150,13 +150,18 @@ export const clientsApi = {
   },
 
   /**
-   * Import clients from CSV (admin only)
+   * Read an import file into headers, rows and a suggested column mapping (admin only)
    */
-  importCsv: async (file: File): Promise<ClientImportResult> => {
+  parseImport: async (
+    file: File,
+    options: { delimiter?: string; encoding?: string } = {}
+  ): Promise<ClientImportParseResult> => {
     const formData = new FormData()
     formData.append('file', file)
-    const response = await apiClient.post<ApiResponse<ClientImportResult>>(
-      '/admin/clients/import',
+    if (options.delimiter) formData.append('delimiter', options.delimiter)
+    if (options.encoding) formData.append('encoding', options.encoding)
+    const response = await apiClient.post<ApiResponse<ClientImportParseResult>>(
+      '/admin/clients/import/parse',
       formData,
       {
         headers: {
@@ -166,34 +171,141 @@ export const clientsApi = {
     )
     return response.data.data
   },
+
+  /**
+   * Check mapped import rows without writing anything (admin only)
+   */
+  importDryRun: async (rows: ClientImportInputRow[], placeholderEmail: boolean): Promise<ClientImportDryRun> => {
+    const response = await apiClient.post<ApiResponse<ClientImportDryRun>>(
+      '/admin/clients/import/dry-run',
+      { rows, placeholder_email: placeholderEmail }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Import mapped rows as a batch that can be undone (admin only)
+   */
+  importRows: async (
+    rows: ClientImportInputRow[],
+    placeholderEmail: boolean,
+    fileName?: string
+  ): Promise<ClientImportResult> => {
+    const response = await apiClient.post<ApiResponse<ClientImportResult>>(
+      '/admin/clients/import',
+      { rows, placeholder_email: placeholderEmail, file_name: fileName }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Recent import batches (admin only)
+   */
+  importBatches: async (): Promise<ClientImportBatch[]> => {
+    const response = await apiClient.get<ApiResponse<ClientImportBatch[]>>('/admin/clients/import/batches')
+    return response.data.data
+  },
+
+  /**
+   * Undo an import batch (admin only)
+   */
+  undoImport: async (batchId: number): Promise<ClientImportUndoResult> => {
+    const response = await apiClient.post<ApiResponse<ClientImportUndoResult>>(
+      `/admin/clients/import/batches/${batchId}/undo`
+    )
+    return response.data.data
+  },
 }
 
-export interface ClientImportResult {
+export type ClientImportField = 'name' | 'email' | 'phone' | 'service_type' | 'trainer_fee' | 'entry_fee'
+
+export interface ClientImportParseResult {
+  format: 'csv' | 'xlsx' | 'xls' | 'ods'
+  encoding: string | null
+  delimiter: string | null
+  headers: string[]
+  rows: Array<{ row: number; values: string[] }>
+  mapping: Record<ClientImportField, number | null>
+}
+
+export type ClientImportInputRow = { row: number } & Partial<Record<ClientImportField, string>>
+
+export type ClientImportRowStatus = 'create' | 'update' | 'duplicate' | 'invalid'
+
+export interface ClientImportIssue {
+  code: string
+  value: string | null
+}
+
+export interface ClientImportCheckedRow {
+  row: number
+  status: ClientImportRowStatus
+  name: string
+  email: string | null
+  placeholder_email: boolean
+  phone: string | null
+  service_type: { id: number; name: string } | null
+  trainer_fee: number | null
+  entry_fee: number | null
+  client: { id: number; name: string } | null
+  duplicate_of: number | null
+  errors: ClientImportIssue[]
+  warnings: ClientImportIssue[]
+}
+
+export interface ClientImportDryRun {
+  rows: ClientImportCheckedRow[]
+  summary: Record<'total' | ClientImportRowStatus, number>
+}
+
+export interface ClientImportBatch {
+  id: number
+  file_name: string | null
+  status: 'completed' | 'undone'
   summary: {
     total: number
     created: number
     updated: number
-    errors: number
+    rejected: number
+    undo?: ClientImportUndoResult['result']
   }
+  created_by: string | null
+  created_at: string
+  undone_at: string | null
+  undone_by: string | null
+}
+
+export interface ClientImportResult {
+  batch: ClientImportBatch
   imported: Array<{
-    created: boolean
+    row: number
+    status: 'create' | 'update'
     client_id: number
     name: string
     email: string
-    email_auto_generated: boolean
-    phone: string
+    placeholder_email: boolean
     service_type: string | null
-    entry_fee: number
-    trainer_fee: number
-    price_code_created: boolean
+    trainer_fee: number | null
+    entry_fee: number | null
   }>
-  errors: Array<{
+  rejected: Array<{
     row: number
-    data: string[]
-    error: string
+    status: ClientImportRowStatus
+    errors: ClientImportIssue[]
+    duplicate_of: number | null
   }>
 }
 
+export interface ClientImportUndoResult {
+  batch: ClientImportBatch
+  result: {
+    deleted: number
+    restored: number
+    kept: Array<{ client_id: number; name: string }>
+    changed: Array<{ client_id: number; name: string }>
+  }
+}
+
 // React Query keys factory for clients
 export const clientKeys = {
   all: ['clients'] as const,
@@ -205,4 +317,5 @@ export const clientKeys = {
     [...clientKeys.detail(id), 'activity', filters] as const,
   passes: (id: string) => [...clientKeys.detail(id), 'passes'] as const,
   upcoming: (id: string) => [...clientKeys.detail(id), 'upcoming'] as const,
+  importBatches: () => [...clientKeys.all, 'import-batches'] as const,
 }
@@ -8,8 +8,20 @@ import type {
   UpdateEventRequest,
   CheckInRequest,
   CheckInResponse,
+  ClassCheckInItem,
+  ClassCheckInResponse,
   RecurringPreviewResponse,
   RecurringEventResponse,
+  UpdateRecurringGroupRequest,
+  RecurringGroupUpdateResponse,
+  DeleteRecurringGroupParams,
+  MoveEventRequest,
+  MovePreviewResponse,
+  EventMoveRequest,
+  EventMoveRequestStatus,
+  EventImportOptions,
+  EventImportPreview,
+  EventImportResult,
 } from '@/types/event'
 
 export const eventsApi = {
@@ -106,6 +118,17 @@ export const eventsApi = {
     return response.data.data
   },
 
+  /**
+   * Record attendance of a group class for several participants at once
+   */
+  checkInClass: async (occurrenceId: string | number, registrations: ClassCheckInItem[]): Promise<ClassCheckInResponse> => {
+    const response = await apiClient.post<ApiResponse<ClassCheckInResponse>>(
+      `/staff/classes/${occurrenceId}/checkin`,
+      { registrations }
+    )
+    return response.data.data
+  },
+
   /**
    * Preview recurring events (staff only - check for conflicts)
    */
@@ -149,6 +172,169 @@ export const eventsApi = {
     )
     return response.data.data
   },
+
+  /**
+   * Update room, time or notes of a recurring series (staff - same-day only)
+   */
+  updateGroup: async (groupId: string, data: UpdateRecurringGroupRequest): Promise<RecurringGroupUpdateResponse> => {
+    const response = await apiClient.patch<ApiResponse<RecurringGroupUpdateResponse>>(
+      `/staff/events/recurring-group/${groupId}`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Update room, time or notes of a recurring series as admin
+   */
+  adminUpdateGroup: async (groupId: string, data: UpdateRecurringGroupRequest): Promise<RecurringGroupUpdateResponse> => {
+    const response = await apiClient.patch<ApiResponse<RecurringGroupUpdateResponse>>(
+      `/admin/events/recurring-group/${groupId}`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Delete events of a recurring series (staff - upcoming own events only)
+   */
+  deleteGroup: async (groupId: string, params: DeleteRecurringGroupParams): Promise<{ deleted_count: number }> => {
+    const response = await apiClient.delete<ApiResponse<{ deleted_count: number }>>(
+      `/staff/events/recurring-group/${groupId}`,
+      { params }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Delete events of a recurring series as admin
+   */
+  adminDeleteGroup: async (groupId: string, params: DeleteRecurringGroupParams): Promise<{ deleted_count: number }> => {
+    const response = await apiClient.delete<ApiResponse<{ deleted_count: number }>>(
+      `/admin/events/recurring-group/${groupId}`,
+      { params }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Preview a move (affected clients, conflicts, emails to be sent)
+   */
+  previewMove: async (eventId: string, data: MoveEventRequest): Promise<MovePreviewResponse> => {
+    const response = await apiClient.post<ApiResponse<MovePreviewResponse>>(
+      `/staff/events/${eventId}/move-preview`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Request a cross-day move (staff - approved by an admin)
+   */
+  requestMove: async (
+    eventId: string,
+    data: MoveEventRequest & { reason?: string }
+  ): Promise<EventMoveRequest> => {
+    const response = await apiClient.post<ApiResponse<EventMoveRequest>>(
+      `/staff/events/${eventId}/move-requests`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * List move requests (admin only, pending by default)
+   */
+  getMoveRequests: async (status: EventMoveRequestStatus | 'all' = 'pending'): Promise<EventMoveRequest[]> => {
+    const response = await apiClient.get<ApiResponse<EventMoveRequest[]>>('/admin/event-move-requests', {
+      params: { status },
+    })
+    return response.data.data
+  },
+
+  /**
+   * Approve a move request and apply the move (admin only)
+   */
+  approveMoveRequest: async (
+    requestId: number,
+    data?: { notify_clients?: boolean; review_note?: string; force_override?: boolean }
+  ): Promise<EventMoveRequest> => {
+    const response = await apiClient.post<ApiResponse<EventMoveRequest>>(
+      `/admin/event-move-requests/${requestId}/approve`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Reject a move request (admin only)
+   */
+  rejectMoveRequest: async (requestId: number, data?: { review_note?: string }): Promise<EventMoveRequest> => {
+    const response = await apiClient.post<ApiResponse<EventMoveRequest>>(
+      `/admin/event-move-requests/${requestId}/reject`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * List pending online bookings (own sessions for staff, all for admins)
+   */
+  getBookingRequests: async (): Promise<Event[]> => {
+    const response = await apiClient.get<ApiResponse<Event[]>>('/staff/booking-requests')
+    return response.data.data
+  },
+
+  /**
+   * Confirm a pending online booking
+   */
+  confirmBooking: async (eventId: string): Promise<Event> => {
+    const response = await apiClient.post<ApiResponse<Event>>(`/staff/events/${eventId}/confirm`)
+    return response.data.data
+  },
+
+  /**
+   * Decline a pending online booking
+   */
+  declineBooking: async (eventId: string): Promise<Event> => {
+    const response = await apiClient.post<ApiResponse<Event>>(`/staff/events/${eventId}/decline`)
+    return response.data.data
+  },
+
+  /**
+   * Analyse an .ics or CSV file for import (admin only, nothing is created)
+   */
+  adminImportPreview: async (file: File, options: EventImportOptions = {}): Promise<EventImportPreview> => {
+    const response = await apiClient.post<ApiResponse<EventImportPreview>>(
+      '/admin/events/import/preview',
+      importFormData(file, options),
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Import an .ics or CSV file (admin only) - valid rows are created except the skipped ones
+   */
+  adminImport: async (file: File, options: EventImportOptions = {}, skipRows: number[] = []): Promise<EventImportResult> => {
+    const formData = importFormData(file, options)
+    skipRows.forEach((row) => formData.append('skip_rows[]', String(row)))
+
+    const response = await apiClient.post<ApiResponse<EventImportResult>>(
+      '/admin/events/import',
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    )
+    return response.data.data
+  },
+}
+
+function importFormData(file: File, options: EventImportOptions): FormData {
+  const formData = new FormData()
+  formData.append('file', file)
+  if (options.default_room_id) formData.append('default_room_id', String(options.default_room_id))
+  if (options.default_staff_id) formData.append('default_staff_id', String(options.default_staff_id))
+  return formData
 }
 
 // React Query keys factory for events
@@ -159,4 +345,7 @@ export const eventKeys = {
   myEvents: (filters?: EventListFilters) => [...eventKeys.all, 'my', filters] as const,
   allEvents: (filters?: EventListFilters) => [...eventKeys.all, 'admin-all', filters] as const,
   allEventsForStaff: (filters?: EventListFilters) => [...eventKeys.all, 'staff-all', filters] as const,
+  movePreview: (eventId: string, data: MoveEventRequest) => [...eventKeys.all, 'move-preview', eventId, data] as const,
+  moveRequests: (status: EventMoveRequestStatus | 'all' = 'pending') => [...eventKeys.all, 'move-requests', status] as const,
+  bookingRequests: () => [...eventKeys.all, 'booking-requests'] as const,
 }
@@ -61,6 +61,14 @@ export const syncConfigsApi = {
     )
     return data
   },
+
+  // Run the incremental two-way sync now instead of waiting for the schedule
+  syncNow: async (id: number) => {
+    const { data } = await apiClient.post<{ success: boolean; data: GoogleCalendarSyncLog; message: string }>(
+      `/admin/google-calendar-sync/configs/${id}/sync`
+    )
+    return data.data
+  },
 }
 
 // Sync Operations API
@@ -8,10 +8,16 @@ export interface ClassParticipant {
   client_id: string
   client_name: string
   client_email: string
-  status: 'booked' | 'waitlist' | 'cancelled' | 'attended'
+  status: 'booked' | 'waitlist' | 'cancelled' | 'attended' | 'no_show'
   payment_status: 'pending' | 'paid' | 'unpaid' | 'comped'
   booked_at: string
   checked_in_at: string | null
+  credits_used: number
+  waitlist_position: number | null // 1-based queue position while on the waitlist
+  promoted_at: string | null
+  promotion_type: 'auto' | 'manual' | null
+  promoted_by_name: string | null
+  promotion_notified_at: string | null
 }
 
 export interface ClassParticipantsResponse {
@@ -39,6 +45,23 @@ export interface AddClassParticipantRequest {
   notes?: string
 }
 
+export interface WaitlistOrderResponse {
+  occurrence_id: string
+  positions: Record<string, number> // registration id => position
+}
+
+export interface MarkParticipantPaidRequest {
+  method: 'cash' | 'card' | 'transfer'
+  reference?: string | null
+}
+
+export interface MarkParticipantPaidResponse {
+  registration_id: number
+  payment_status: ClassParticipant['payment_status']
+  payment_id: number
+  amount: number
+}
+
 export interface AssignEventParticipantRequest {
   client_id: number
 }
@@ -73,6 +96,38 @@ export const adminParticipantsApi = {
     return response.data.data
   },
 
+  promoteWaitlisted: async (
+    occurrenceId: string | number,
+    registrationId: string | number,
+    options?: { override_capacity?: boolean }
+  ): Promise<ClassParticipant> => {
+    const response = await apiClient.post<ApiResponse<ClassParticipant>>(
+      `/admin/class-occurrences/${occurrenceId}/waitlist/${registrationId}/promote`,
+      options
+    )
+    return response.data.data
+  },
+
+  markClassParticipantPaid: async (
+    occurrenceId: string | number,
+    registrationId: string | number,
+    data: MarkParticipantPaidRequest
+  ): Promise<MarkParticipantPaidResponse> => {
+    const response = await apiClient.post<ApiResponse<MarkParticipantPaidResponse>>(
+      `/admin/class-occurrences/${occurrenceId}/participants/${registrationId}/mark-paid`,
+      data
+    )
+    return response.data.data
+  },
+
+  reorderWaitlist: async (occurrenceId: string | number, registrationIds: Array<string | number>): Promise<WaitlistOrderResponse> => {
+    const response = await apiClient.put<ApiResponse<WaitlistOrderResponse>>(
+      `/admin/class-occurrences/${occurrenceId}/waitlist/order`,
+      { registration_ids: registrationIds }
+    )
+    return response.data.data
+  },
+
   // Event participants (1:1 sessions)
   getEventParticipant: async (eventId: string | number): Promise<EventParticipantResponse> => {
     const response = await apiClient.get<ApiResponse<EventParticipantResponse>>(
@@ -127,6 +182,38 @@ export const staffParticipantsApi = {
     return response.data.data
   },
 
+  promoteWaitlisted: async (
+    occurrenceId: string | number,
+    registrationId: string | number,
+    options?: { override_capacity?: boolean }
+  ): Promise<ClassParticipant> => {
+    const response = await apiClient.post<ApiResponse<ClassParticipant>>(
+      `/staff/class-occurrences/${occurrenceId}/waitlist/${registrationId}/promote`,
+      options
+    )
+    return response.data.data
+  },
+
+  markClassParticipantPaid: async (
+    occurrenceId: string | number,
+    registrationId: string | number,
+    data: MarkParticipantPaidRequest
+  ): Promise<MarkParticipantPaidResponse> => {
+    const response = await apiClient.post<ApiResponse<MarkParticipantPaidResponse>>(
+      `/staff/class-occurrences/${occurrenceId}/participants/${registrationId}/mark-paid`,
+      data
+    )
+    return response.data.data
+  },
+
+  reorderWaitlist: async (occurrenceId: string | number, registrationIds: Array<string | number>): Promise<WaitlistOrderResponse> => {
+    const response = await apiClient.put<ApiResponse<WaitlistOrderResponse>>(
+      `/staff/class-occurrences/${occurrenceId}/waitlist/order`,
+      { registration_ids: registrationIds }
+    )
+    return response.data.data
+  },
+
   // Event participants (1:1 sessions)
   getEventParticipant: async (eventId: string | number): Promise<EventParticipantResponse> => {
     const response = await apiClient.get<ApiResponse<EventParticipantResponse>>(
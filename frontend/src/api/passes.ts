@@ -0,0 +1,105 @@
+// Pass management API (staff/admin)
+import apiClient from './client'
+import type { ApiResponse } from '@/types/api'
+import type {
+  ClientPassList,
+  IssuePassRequest,
+  ManagedPass,
+  PassLedgerEntry,
+} from '@/types/client'
+
+export const passesApi = {
+  /**
+   * List every pass of a client, including frozen and voided ones
+   */
+  list: async (clientId: number): Promise<ClientPassList> => {
+    const response = await apiClient.get<ApiResponse<ClientPassList>>(
+      `/staff/clients/${clientId}/passes`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Sell or issue a pass manually
+   */
+  issue: async (clientId: number, data: IssuePassRequest): Promise<ManagedPass> => {
+    const response = await apiClient.post<ApiResponse<ManagedPass>>(
+      `/staff/clients/${clientId}/passes`,
+      data
+    )
+    return response.data.data
+  },
+
+  /**
+   * Credit ledger of a client, optionally limited to one pass
+   */
+  ledger: async (clientId: number, passId?: number): Promise<PassLedgerEntry[]> => {
+    const response = await apiClient.get<ApiResponse<PassLedgerEntry[]>>(
+      `/staff/clients/${clientId}/pass-ledger`,
+      { params: passId ? { pass_id: passId } : undefined }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Add (positive) or remove (negative) credits with a reason
+   */
+  adjust: async (passId: number, credits: number, reason: string): Promise<ManagedPass> => {
+    const response = await apiClient.post<ApiResponse<ManagedPass>>(
+      `/staff/passes/${passId}/adjust`,
+      { credits, reason }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Extend the expiry date of a pass
+   */
+  extend: async (passId: number, validUntil: string, reason?: string): Promise<ManagedPass> => {
+    const response = await apiClient.post<ApiResponse<ManagedPass>>(
+      `/staff/passes/${passId}/extend`,
+      { valid_until: validUntil, reason }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Freeze a pass (cannot be used until unfrozen)
+   */
+  freeze: async (passId: number, reason?: string): Promise<ManagedPass> => {
+    const response = await apiClient.post<ApiResponse<ManagedPass>>(
+      `/staff/passes/${passId}/freeze`,
+      { reason }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Unfreeze a pass; expiry is pushed out by the frozen days
+   */
+  unfreeze: async (passId: number): Promise<ManagedPass> => {
+    const response = await apiClient.post<ApiResponse<ManagedPass>>(
+      `/staff/passes/${passId}/unfreeze`
+    )
+    return response.data.data
+  },
+
+  /**
+   * Void a pass, writing off its remaining credits
+   */
+  void: async (passId: number, reason: string): Promise<ManagedPass> => {
+    const response = await apiClient.post<ApiResponse<ManagedPass>>(
+      `/staff/passes/${passId}/void`,
+      { reason }
+    )
+    return response.data.data
+  },
+}
+
+// React Query keys factory for pass management
+export const passKeys = {
+  all: ['passes'] as const,
+  byClient: (clientId: number) => [...passKeys.all, 'client', clientId] as const,
+  ledger: (clientId: number, passId?: number) =>
+    [...passKeys.byClient(clientId), 'ledger', passId ?? 'all'] as const,
+}
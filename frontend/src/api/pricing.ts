@@ -4,6 +4,9 @@ import type {
   ClientClassPricing,
   CreateClassPricingDefaultRequest,
   CreateClientClassPricingRequest,
+  PricingAnomaly,
+  PricingAnomalyFilters,
+  ResolvePricingAnomaliesResult,
 } from '@/types/pricing'
 
 // Query keys factory
@@ -20,6 +23,7 @@ export const pricingKeys = {
     filters,
   ] as const,
   clientPrice: (id: number) => [...pricingKeys.clientPricing(), id] as const,
+  anomalies: (filters: PricingAnomalyFilters) => [...pricingKeys.all, 'anomalies', filters] as const,
 }
 
 // Class Pricing Defaults API
@@ -99,3 +103,24 @@ export const clientClassPricingApi = {
     await apiClient.delete(`/admin/pricing/client-class/${id}`)
   },
 }
+
+// Pricing Anomalies API
+export const pricingAnomaliesApi = {
+  /**
+   * 1:1 events of the period with missing or suspicious pricing
+   */
+  list: async (params: PricingAnomalyFilters) => {
+    const { data } = await apiClient.get<{ data: PricingAnomaly[] }>('/admin/pricing/anomalies', { params })
+    return data.data
+  },
+
+  /**
+   * Re-resolve and store the pricing of the given events from the current price codes
+   */
+  resolve: async (eventIds: number[]) => {
+    const { data } = await apiClient.post<{ data: ResolvePricingAnomaliesResult }>('/admin/pricing/anomalies/resolve', {
+      event_ids: eventIds,
+    })
+    return data.data
+  },
+}
@@ -1,10 +1,17 @@
 // Public API client functions for unauthenticated access
 import axios from 'axios'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import apiClient from './client'
 import type { ApiResponse } from '@/types/api'
+import type { Event } from '@/types/event'
 import type {
+  BookSessionRequest,
   PublicClassOccurrence,
   PublicClassFilters,
+  PublicServiceType,
+  PublicSessionSlot,
+  PublicSlotFilters,
+  PublicTrainer,
   QuickRegisterRequest,
   QuickRegisterResponse,
 } from '@/types/public'
@@ -33,6 +40,43 @@ export const publicApi = {
     return response.data.data
   },
 
+  /**
+   * Get service types bookable online (unauthenticated)
+   */
+  getServiceTypes: async (): Promise<PublicServiceType[]> => {
+    const response = await publicClient.get<ApiResponse<PublicServiceType[]>>('/public/service-types')
+    return response.data.data
+  },
+
+  /**
+   * Get trainers bookable online for a service type (unauthenticated)
+   */
+  getTrainers: async (serviceTypeId: number): Promise<PublicTrainer[]> => {
+    const response = await publicClient.get<ApiResponse<PublicTrainer[]>>('/public/trainers', {
+      params: { service_type_id: serviceTypeId },
+    })
+    return response.data.data
+  },
+
+  /**
+   * Get free individual session slots of a trainer (unauthenticated)
+   */
+  getTrainerSlots: async (staffId: number, filters: PublicSlotFilters): Promise<PublicSessionSlot[]> => {
+    const response = await publicClient.get<ApiResponse<PublicSessionSlot[]>>(
+      `/public/trainers/${staffId}/slots`,
+      { params: filters }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Book an individual session as the logged-in client (pending until the trainer confirms)
+   */
+  bookSession: async (data: BookSessionRequest): Promise<Event> => {
+    const response = await apiClient.post<ApiResponse<Event>>('/sessions/book', data)
+    return response.data.data
+  },
+
   /**
    * Quick registration for new users
    */
@@ -50,6 +94,10 @@ export const publicKeys = {
   all: ['public'] as const,
   classes: () => [...publicKeys.all, 'classes'] as const,
   classList: (filters?: PublicClassFilters) => [...publicKeys.classes(), filters] as const,
+  serviceTypes: () => [...publicKeys.all, 'service-types'] as const,
+  trainers: (serviceTypeId?: number) => [...publicKeys.all, 'trainers', serviceTypeId] as const,
+  slots: () => [...publicKeys.all, 'slots'] as const,
+  trainerSlots: (staffId?: number, filters?: PublicSlotFilters) => [...publicKeys.slots(), staffId, filters] as const,
 }
 
 // React Query hooks
@@ -65,6 +113,41 @@ export const usePublicClasses = (filters?: PublicClassFilters) => {
   })
 }
 
+/**
+ * Hook to fetch service types bookable online
+ */
+export const usePublicServiceTypes = () => {
+  return useQuery({
+    queryKey: publicKeys.serviceTypes(),
+    queryFn: publicApi.getServiceTypes,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+/**
+ * Hook to fetch trainers bookable online for a service type
+ */
+export const usePublicTrainers = (serviceTypeId?: number) => {
+  return useQuery({
+    queryKey: publicKeys.trainers(serviceTypeId),
+    queryFn: () => publicApi.getTrainers(serviceTypeId!),
+    enabled: !!serviceTypeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to fetch free session slots of a trainer
+ */
+export const usePublicTrainerSlots = (staffId?: number, filters?: PublicSlotFilters) => {
+  return useQuery({
+    queryKey: publicKeys.trainerSlots(staffId, filters),
+    queryFn: () => publicApi.getTrainerSlots(staffId!, filters!),
+    enabled: !!staffId && !!filters,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
 /**
  * Hook for quick registration mutation
  */
@@ -0,0 +1,112 @@
+// Realtime calendar API: Server-Sent Events stream of calendar changes and edit markers (Staff/Admin)
+import apiClient from './client'
+import type { ApiResponse } from '@/types/api'
+import type { CalendarEditingTarget, CalendarEditor, CalendarUpdate } from '@/types/realtime'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080/api/v1'
+
+// The stream can be pointed at a local stand-in server for testing
+const STREAM_URL = import.meta.env.VITE_REALTIME_URL || `${API_URL}/staff/calendar/stream`
+
+export interface CalendarStreamHandlers {
+  onOpen?: () => void
+  onUpdate: (update: CalendarUpdate) => void
+  onEditing: (editors: CalendarEditor[]) => void
+  onResync: () => void
+}
+
+/**
+ * Dispatch one parsed SSE message to its handler
+ */
+const dispatchMessage = (eventName: string, data: string, handlers: CalendarStreamHandlers) => {
+  if (!data) return
+  const payload = JSON.parse(data)
+
+  switch (eventName) {
+    case 'calendar.update':
+      handlers.onUpdate(payload as CalendarUpdate)
+      break
+    case 'calendar.editing':
+      handlers.onEditing((payload.editors ?? []) as CalendarEditor[])
+      break
+    case 'calendar.resync':
+      handlers.onResync()
+      break
+  }
+}
+
+export const calendarRealtimeApi = {
+  /**
+   * Read the calendar stream until the server closes it; resolves with the last received update id.
+   * Uses fetch instead of EventSource so the bearer token can be sent.
+   */
+  stream: async (since: number | null, handlers: CalendarStreamHandlers, signal: AbortSignal): Promise<number | null> => {
+    const token = localStorage.getItem('auth_token')
+    const url = since !== null ? `${STREAM_URL}?since=${since}` : STREAM_URL
+
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      credentials: 'include',
+      signal,
+    })
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Calendar stream failed with status ${response.status}`)
+    }
+
+    handlers.onOpen?.()
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let lastId = since
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // Messages are separated by a blank line
+      let separator = buffer.indexOf('\n\n')
+      while (separator !== -1) {
+        const message = buffer.slice(0, separator)
+        buffer = buffer.slice(separator + 2)
+        separator = buffer.indexOf('\n\n')
+
+        let eventName = 'message'
+        const dataLines: string[] = []
+        for (const line of message.split('\n')) {
+          if (line.startsWith(':')) continue // keep-alive comment
+          const colon = line.indexOf(':')
+          const field = colon === -1 ? line : line.slice(0, colon)
+          const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+          if (field === 'event') eventName = fieldValue
+          else if (field === 'data') dataLines.push(fieldValue)
+          else if (field === 'id' && fieldValue !== '') lastId = Number(fieldValue)
+        }
+
+        dispatchMessage(eventName, dataLines.join('\n'), handlers)
+      }
+    }
+
+    return lastId
+  },
+
+  /**
+   * Mark an event or class as being edited by the current user (repeat as heartbeat)
+   */
+  startEditing: async (target: CalendarEditingTarget): Promise<{ ttl_seconds: number }> => {
+    const response = await apiClient.post<ApiResponse<{ ttl_seconds: number }>>('/staff/calendar/editing', target)
+    return response.data.data
+  },
+
+  /**
+   * Release the "being edited" marker when the edit form is closed
+   */
+  stopEditing: async (target: CalendarEditingTarget): Promise<void> => {
+    await apiClient.delete('/staff/calendar/editing', { data: target })
+  },
+}
@@ -13,7 +13,22 @@ import type {
   ClientSummaryStats,
   ClientSessionHistory,
   ClientPassSummary,
+  ClientFinanceReport,
   ExportFormat,
+  AdminExportReportType,
+  CreateReportExportRequest,
+  ReportExportJob,
+  FinanceGroupBy,
+  FinanceOverviewReport,
+  TrainerSummaryReport,
+  SiteClientListReport,
+  TrainerSessionsReport,
+  RoomOccupancyReport,
+  StaffTrendsGranularity,
+  StaffTrendsReport,
+  ReportFilterParams,
+  ReportPreset,
+  SaveReportPresetRequest,
 } from '@/types/reports'
 
 // ============================================
@@ -22,13 +37,17 @@ import type {
 
 export const adminReportsApi = {
   /**
-   * Get attendance report
+   * Get attendance report, optionally filtered by trainer, site, room and service type
    */
-  getAttendance: async (dateFrom: string, dateTo: string): Promise<AttendanceReportData> => {
+  getAttendance: async (
+    dateFrom: string,
+    dateTo: string,
+    filters: ReportFilterParams = {}
+  ): Promise<AttendanceReportData> => {
     const response = await apiClient.get<ApiResponse<AttendanceReportData>>(
       '/admin/reports/attendance',
       {
-        params: { date_from: dateFrom, date_to: dateTo },
+        params: { date_from: dateFrom, date_to: dateTo, ...filters },
       }
     )
     return response.data.data
@@ -37,18 +56,22 @@ export const adminReportsApi = {
   /**
    * Get payouts report
    */
-  getPayouts: async (dateFrom: string, dateTo: string): Promise<PayoutReportData> => {
+  getPayouts: async (
+    dateFrom: string,
+    dateTo: string,
+    filters: ReportFilterParams = {}
+  ): Promise<PayoutReportData> => {
     const response = await apiClient.get<ApiResponse<PayoutReportData>>(
       '/admin/reports/payouts',
       {
-        params: { date_from: dateFrom, date_to: dateTo },
+        params: { date_from: dateFrom, date_to: dateTo, ...filters },
       }
     )
     return response.data.data
   },
 
   /**
-   * Get revenue report
+   * Get revenue report (pass sales, only the date range applies)
    */
   getRevenue: async (dateFrom: string, dateTo: string): Promise<RevenueReportData> => {
     const response = await apiClient.get<ApiResponse<RevenueReportData>>(
@@ -63,11 +86,15 @@ export const adminReportsApi = {
   /**
    * Get utilization report
    */
-  getUtilization: async (dateFrom: string, dateTo: string): Promise<UtilizationReportData> => {
+  getUtilization: async (
+    dateFrom: string,
+    dateTo: string,
+    filters: ReportFilterParams = {}
+  ): Promise<UtilizationReportData> => {
     const response = await apiClient.get<ApiResponse<UtilizationReportData>>(
       '/admin/reports/utilization',
       {
-        params: { date_from: dateFrom, date_to: dateTo },
+        params: { date_from: dateFrom, date_to: dateTo, ...filters },
       }
     )
     return response.data.data
@@ -76,31 +103,113 @@ export const adminReportsApi = {
   /**
    * Get client activity report
    */
-  getClientActivity: async (dateFrom: string, dateTo: string): Promise<ClientActivityReportData> => {
+  getClientActivity: async (
+    dateFrom: string,
+    dateTo: string,
+    filters: ReportFilterParams = {}
+  ): Promise<ClientActivityReportData> => {
     const response = await apiClient.get<ApiResponse<ClientActivityReportData>>(
       '/admin/reports/clients',
       {
-        params: { date_from: dateFrom, date_to: dateTo },
+        params: { date_from: dateFrom, date_to: dateTo, ...filters },
       }
     )
     return response.data.data
   },
 
   /**
-   * Export report to Excel/CSV
+   * Get finance overview (periods, site/room/service type breakdowns, previous period)
+   */
+  getFinanceOverview: async (
+    from: string,
+    to: string,
+    groupBy: FinanceGroupBy = 'month'
+  ): Promise<FinanceOverviewReport> => {
+    const response = await apiClient.get<ApiResponse<FinanceOverviewReport>>(
+      '/admin/reports/admin/finance-overview',
+      { params: { from, to, groupBy } }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get trainer summary grouped by site or room
+   */
+  getTrainerSummary: async (
+    from: string,
+    to: string,
+    groupBy: 'site' | 'room',
+    filters: { trainerId?: number; site?: number } = {}
+  ): Promise<TrainerSummaryReport> => {
+    const response = await apiClient.get<ApiResponse<TrainerSummaryReport>>(
+      '/admin/reports/admin/trainer-summary',
+      { params: { from, to, groupBy, ...filters } }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get clients of a site with their activity
+   */
+  getSiteClientList: async (
+    from: string,
+    to: string,
+    site: number,
+    roomId?: number
+  ): Promise<SiteClientListReport> => {
+    const response = await apiClient.get<ApiResponse<SiteClientListReport>>(
+      '/admin/reports/admin/site-client-list',
+      { params: { from, to, site, roomId } }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get charged sessions of a trainer, optionally at one site
+   */
+  getTrainerSessions: async (
+    from: string,
+    to: string,
+    trainerId: number,
+    site?: number | null
+  ): Promise<TrainerSessionsReport> => {
+    const response = await apiClient.get<ApiResponse<TrainerSessionsReport>>(
+      '/admin/reports/admin/trainer-sessions',
+      { params: { from, to, trainerId, site: site ?? undefined } }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Get room occupancy per weekday and hour (heatmap data)
+   */
+  getRoomOccupancy: async (
+    from: string,
+    to: string,
+    filters: { site?: number; roomId?: number } = {}
+  ): Promise<RoomOccupancyReport> => {
+    const response = await apiClient.get<ApiResponse<RoomOccupancyReport>>(
+      '/admin/reports/admin/room-occupancy',
+      { params: { from, to, ...filters } }
+    )
+    return response.data.data
+  },
+
+  /**
+   * Queue a report export to Excel/CSV (download it from My exports when ready)
    */
   exportReport: async (
-    reportType: 'attendance' | 'payouts' | 'revenue' | 'utilization' | 'clients',
+    reportType: AdminExportReportType,
     dateFrom: string,
     dateTo: string,
-    _format: ExportFormat = 'xlsx'
-  ): Promise<Blob> => {
-    const response = await apiClient.get(`/admin/reports/${reportType}/export`, {
-      params: { date_from: dateFrom, date_to: dateTo },
-      responseType: 'blob',
-    })
-    return response.data
-  },
+    format: ExportFormat = 'xlsx',
+    filters: ReportFilterParams = {}
+  ): Promise<Pick<ReportExportJob, 'export_id' | 'status' | 'created_at'>> =>
+    exportsApi.create({
+      report_key: `admin.${reportType}`,
+      params: { from: dateFrom, to: dateTo, ...filters },
+      format,
+    }),
 
   /**
    * Export per-client payouts report to XLSX (2 worksheets: summary + details)
@@ -114,6 +223,43 @@ export const adminReportsApi = {
   },
 }
 
+// ============================================
+// REPORT PRESETS API
+// ============================================
+
+export const reportPresetsApi = {
+  /**
+   * List the current admin's saved filter presets
+   */
+  list: async (): Promise<ReportPreset[]> => {
+    const response = await apiClient.get<ApiResponse<ReportPreset[]>>('/admin/report-presets')
+    return response.data.data
+  },
+
+  /**
+   * Save the current filters under a name
+   */
+  create: async (data: SaveReportPresetRequest): Promise<ReportPreset> => {
+    const response = await apiClient.post<ApiResponse<ReportPreset>>('/admin/report-presets', data)
+    return response.data.data
+  },
+
+  /**
+   * Rename a preset or overwrite its filters
+   */
+  update: async (id: number, data: SaveReportPresetRequest): Promise<ReportPreset> => {
+    const response = await apiClient.put<ApiResponse<ReportPreset>>(`/admin/report-presets/${id}`, data)
+    return response.data.data
+  },
+
+  /**
+   * Delete a preset
+   */
+  delete: async (id: number): Promise<void> => {
+    await apiClient.delete(`/admin/report-presets/${id}`)
+  },
+}
+
 // ============================================
 // STAFF REPORTS API
 // ============================================
@@ -155,6 +301,21 @@ export const staffReportsApi = {
     return response.data.data
   },
 
+  /**
+   * Get own sessions, hours, fees and attendance rate per week or month
+   */
+  getMyTrends: async (
+    from: string,
+    to: string,
+    granularity: StaffTrendsGranularity = 'week'
+  ): Promise<StaffTrendsReport> => {
+    const response = await apiClient.get<ApiResponse<StaffTrendsReport>>(
+      '/staff/reports/my-trends',
+      { params: { from, to, granularity } }
+    )
+    return response.data.data
+  },
+
   /**
    * Download payout report as XLSX
    */
@@ -222,6 +383,66 @@ export const clientReportsApi = {
     )
     return response.data.data
   },
+
+  /**
+   * Get the authenticated client's finance report: entry fee per session,
+   * pass spend and outstanding balance
+   */
+  getMyFinance: async (dateFrom: string, dateTo: string): Promise<ClientFinanceReport> => {
+    const response = await apiClient.get<ApiResponse<ClientFinanceReport>>('/reports/client/my-finance', {
+      params: { from: dateFrom, to: dateTo, groupBy: 'month' },
+    })
+    return response.data.data
+  },
+
+  /**
+   * Download the authenticated client's monthly statement (month: YYYY-MM) as PDF
+   */
+  downloadMyStatement: async (month: string): Promise<Blob> => {
+    const response = await apiClient.get('/reports/client/my-statement', {
+      params: { month },
+      responseType: 'blob',
+    })
+    return response.data
+  },
+}
+
+// ============================================
+// QUEUED EXPORTS API
+// ============================================
+
+export const exportsApi = {
+  /**
+   * Queue a report export job
+   */
+  create: async (
+    data: CreateReportExportRequest
+  ): Promise<Pick<ReportExportJob, 'export_id' | 'status' | 'created_at'>> => {
+    const response = await apiClient.post<
+      ApiResponse<Pick<ReportExportJob, 'export_id' | 'status' | 'created_at'>>
+    >('/exports/reports', data)
+    return response.data.data
+  },
+
+  /**
+   * List the current user's exports (latest 50)
+   */
+  list: async (): Promise<ReportExportJob[]> => {
+    const response = await apiClient.get<ApiResponse<{ exports: ReportExportJob[]; total: number }>>(
+      '/exports'
+    )
+    return response.data.data.exports
+  },
+
+  /**
+   * Download a completed export file
+   */
+  download: async (exportId: number): Promise<Blob> => {
+    const response = await apiClient.get(`/exports/${exportId}/download`, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
 }
 
 // ============================================
@@ -229,19 +450,35 @@ export const clientReportsApi = {
 // ============================================
 
 export const reportKeys = {
+  // Queued exports of the current user
+  exports: () => ['reports', 'exports'] as const,
+
+  // Saved report filter presets of the current admin
+  presets: () => ['admin', 'report-presets'] as const,
+
   // Admin reports
   admin: {
     all: ['admin', 'reports'] as const,
-    attendance: (dateFrom: string, dateTo: string) =>
-      [...reportKeys.admin.all, 'attendance', dateFrom, dateTo] as const,
-    payouts: (dateFrom: string, dateTo: string) =>
-      [...reportKeys.admin.all, 'payouts', dateFrom, dateTo] as const,
+    attendance: (dateFrom: string, dateTo: string, filters?: ReportFilterParams) =>
+      [...reportKeys.admin.all, 'attendance', dateFrom, dateTo, filters] as const,
+    payouts: (dateFrom: string, dateTo: string, filters?: ReportFilterParams) =>
+      [...reportKeys.admin.all, 'payouts', dateFrom, dateTo, filters] as const,
     revenue: (dateFrom: string, dateTo: string) =>
       [...reportKeys.admin.all, 'revenue', dateFrom, dateTo] as const,
-    utilization: (dateFrom: string, dateTo: string) =>
-      [...reportKeys.admin.all, 'utilization', dateFrom, dateTo] as const,
-    clientActivity: (dateFrom: string, dateTo: string) =>
-      [...reportKeys.admin.all, 'client-activity', dateFrom, dateTo] as const,
+    utilization: (dateFrom: string, dateTo: string, filters?: ReportFilterParams) =>
+      [...reportKeys.admin.all, 'utilization', dateFrom, dateTo, filters] as const,
+    clientActivity: (dateFrom: string, dateTo: string, filters?: ReportFilterParams) =>
+      [...reportKeys.admin.all, 'client-activity', dateFrom, dateTo, filters] as const,
+    financeOverview: (from: string, to: string, groupBy: FinanceGroupBy) =>
+      [...reportKeys.admin.all, 'finance-overview', from, to, groupBy] as const,
+    trainerSummary: (from: string, to: string, groupBy: 'site' | 'room', filters?: object) =>
+      [...reportKeys.admin.all, 'trainer-summary', from, to, groupBy, filters] as const,
+    siteClientList: (from: string, to: string, site: number, roomId?: number) =>
+      [...reportKeys.admin.all, 'site-client-list', from, to, site, roomId] as const,
+    trainerSessions: (from: string, to: string, trainerId: number, site?: number | null) =>
+      [...reportKeys.admin.all, 'trainer-sessions', from, to, trainerId, site] as const,
+    roomOccupancy: (from: string, to: string, filters?: object) =>
+      [...reportKeys.admin.all, 'room-occupancy', from, to, filters] as const,
   },
 
   // Staff reports
@@ -252,6 +489,8 @@ export const reportKeys = {
       [...reportKeys.staff.all, 'payout', dateFrom, dateTo] as const,
     attendance: (dateFrom: string, dateTo: string) =>
       [...reportKeys.staff.all, 'attendance', dateFrom, dateTo] as const,
+    trends: (from: string, to: string, granularity: StaffTrendsGranularity) =>
+      [...reportKeys.staff.all, 'trends', from, to, granularity] as const,
   },
 
   // Client reports
@@ -263,5 +502,7 @@ export const reportKeys = {
       [...reportKeys.client.all(clientId), 'sessions', dateFrom, dateTo] as const,
     passes: (clientId: number) =>
       [...reportKeys.client.all(clientId), 'passes'] as const,
+    finance: (clientId: number, dateFrom: string, dateTo: string) =>
+      [...reportKeys.client.all(clientId), 'finance', dateFrom, dateTo] as const,
   },
 }
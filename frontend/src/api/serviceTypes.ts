@@ -7,6 +7,9 @@ import type {
   StaffPriceCode,
   StaffPriceCodeFormData,
   PricingResolveResponse,
+  ScheduledPriceChangePreview,
+  ScheduledPriceChangeRequest,
+  ScheduledPriceChangeResult,
 } from '@/types/serviceType'
 
 // Query keys factory
@@ -22,6 +25,8 @@ export const clientPriceCodeKeys = {
   lists: () => [...clientPriceCodeKeys.all, 'list'] as const,
   listByClient: (clientId: number) => [...clientPriceCodeKeys.lists(), 'client', clientId] as const,
   detail: (id: number) => [...clientPriceCodeKeys.all, 'detail', id] as const,
+  scheduledChange: (params: ScheduledPriceChangeRequest) =>
+    [...clientPriceCodeKeys.all, 'scheduledChange', params] as const,
 }
 
 export const staffPriceCodeKeys = {
@@ -134,6 +139,28 @@ export const clientPriceCodesApi = {
   delete: async (id: number): Promise<void> => {
     await apiClient.delete(`/admin/client-price-codes/${id}`)
   },
+
+  /**
+   * Preview a future-dated price change of a service type across clients
+   */
+  scheduleChangePreview: async (params: ScheduledPriceChangeRequest): Promise<ScheduledPriceChangePreview> => {
+    const { data } = await apiClient.get<{ data: ScheduledPriceChangePreview }>(
+      '/admin/client-price-codes/scheduled-changes/preview',
+      { params }
+    )
+    return data.data
+  },
+
+  /**
+   * Schedule a future-dated price change for all (or the selected) clients
+   */
+  scheduleChange: async (request: ScheduledPriceChangeRequest): Promise<ScheduledPriceChangeResult> => {
+    const { data } = await apiClient.post<{ data: ScheduledPriceChangeResult }>(
+      '/admin/client-price-codes/scheduled-changes',
+      request
+    )
+    return data.data
+  },
 }
 
 // Staff Service Types API (read-only)
@@ -260,13 +287,14 @@ export const pricingResolveApi = {
   },
 
   /**
-   * Resolve pricing by client ID and service type ID
+   * Resolve pricing by client ID and service type ID, at the session date if given
    */
-  resolveByIds: async (clientId: number, serviceTypeId: number): Promise<PricingResolveResponse> => {
+  resolveByIds: async (clientId: number, serviceTypeId: number, date?: string): Promise<PricingResolveResponse> => {
     const { data } = await apiClient.get<{ data: PricingResolveResponse }>('/pricing/resolve-by-ids', {
       params: {
         client_id: clientId,
         service_type_id: serviceTypeId,
+        ...(date ? { date } : {}),
       },
     })
     return data.data
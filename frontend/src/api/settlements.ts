@@ -3,7 +3,12 @@ import type {
   Settlement,
   SettlementPreview,
   GenerateSettlementRequest,
-  UpdateSettlementStatusRequest,
+  UpdateSettlementRequest,
+  MarkSettlementPaidRequest,
+  CreateSettlementAdjustmentRequest,
+  MonthClosePreview,
+  MonthCloseRequest,
+  MonthCloseResult,
 } from '@/types/pricing'
 
 // Query keys factory
@@ -20,6 +25,7 @@ export const settlementKeys = {
     from,
     to,
   ] as const,
+  monthClose: (month: string) => [...settlementKeys.all, 'month-close', month] as const,
 }
 
 // Settlements API
@@ -36,6 +42,24 @@ export const settlementsApi = {
     return data.data
   },
 
+  /**
+   * Preview every active trainer's settlement of a month (YYYY-MM)
+   */
+  monthClosePreview: async (month: string) => {
+    const { data } = await apiClient.get<{ data: MonthClosePreview }>('/admin/settlements/month-close/preview', {
+      params: { month },
+    })
+    return data.data
+  },
+
+  /**
+   * Generate the month's draft settlements; trainers that cannot be settled are returned as skipped
+   */
+  monthClose: async (request: MonthCloseRequest) => {
+    const { data } = await apiClient.post<{ data: MonthCloseResult }>('/admin/settlements/month-close', request)
+    return data.data
+  },
+
   list: async (params?: { trainer_id?: number; status?: string; from?: string; to?: string }) => {
     const { data } = await apiClient.get<{ data: Settlement[] }>('/admin/settlements', { params })
     return data.data
@@ -46,11 +70,53 @@ export const settlementsApi = {
     return data.data
   },
 
-  updateStatus: async (id: number, statusData: UpdateSettlementStatusRequest) => {
-    const { data } = await apiClient.patch<{ data: Settlement }>(`/admin/settlements/${id}`, statusData)
+  update: async (id: number, settlementData: UpdateSettlementRequest) => {
+    const { data } = await apiClient.patch<{ data: Settlement }>(`/admin/settlements/${id}`, settlementData)
+    return data.data
+  },
+
+  /**
+   * Finalize a draft settlement (locks the trainer's sessions of the period)
+   */
+  finalize: async (id: number) => {
+    const { data } = await apiClient.post<{ data: Settlement }>(`/admin/settlements/${id}/finalize`)
+    return data.data
+  },
+
+  /**
+   * Reopen a finalized settlement; the reason is kept in its unlock history
+   */
+  unlock: async (id: number, reason: string) => {
+    const { data } = await apiClient.post<{ data: Settlement }>(`/admin/settlements/${id}/unlock`, { reason })
+    return data.data
+  },
+
+  /**
+   * Record the payment of a finalized settlement (creates the trainer's payout)
+   */
+  markPaid: async (id: number, paymentData: MarkSettlementPaidRequest) => {
+    const { data } = await apiClient.post<{ data: Settlement }>(`/admin/settlements/${id}/mark-paid`, paymentData)
+    return data.data
+  },
+
+  addAdjustment: async (id: number, adjustmentData: CreateSettlementAdjustmentRequest) => {
+    const { data } = await apiClient.post<{ data: Settlement }>(`/admin/settlements/${id}/adjustments`, adjustmentData)
+    return data.data
+  },
+
+  deleteAdjustment: async (id: number, adjustmentId: number) => {
+    const { data } = await apiClient.delete<{ data: Settlement }>(`/admin/settlements/${id}/adjustments/${adjustmentId}`)
     return data.data
   },
 
+  /**
+   * Download the trainer's payout statement PDF
+   */
+  downloadStatement: async (id: number): Promise<Blob> => {
+    const { data } = await apiClient.get(`/admin/settlements/${id}/statement`, { responseType: 'blob' })
+    return data
+  },
+
   delete: async (id: number) => {
     await apiClient.delete(`/admin/settlements/${id}`)
   },
@@ -0,0 +1,161 @@
+import { useTranslation } from 'react-i18next'
+import { AlertCircle, CheckCircle, Copy, RefreshCw, XCircle } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import type {
+  ClientImportCheckedRow,
+  ClientImportField,
+  ClientImportInputRow,
+  ClientImportIssue,
+} from '@/api/clients'
+
+export const CLIENT_IMPORT_FIELDS: ClientImportField[] = ['name', 'email', 'phone', 'service_type', 'trainer_fee', 'entry_fee']
+
+interface ClientImportReviewTableProps {
+  rows: ClientImportInputRow[]
+  checked: Map<number, ClientImportCheckedRow>
+  onChange: (row: number, field: ClientImportField, value: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Mapped import rows with their dry run status. Every cell can be fixed inline;
+ * the status shown is the one of the last check until the rows are checked again
+ */
+export function ClientImportReviewTable({ rows, checked, onChange, disabled = false }: ClientImportReviewTableProps) {
+  const { t } = useTranslation('admin')
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">{t('clientImport.row')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('clientImport.status')}</th>
+            {CLIENT_IMPORT_FIELDS.map((field) => (
+              <th key={field} className="px-3 py-2 text-left font-medium">{t(`clientImport.fields.${field}`)}</th>
+            ))}
+            <th className="px-3 py-2 text-left font-medium">{t('clientImport.review.details')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const result = checked.get(row.row)
+            const errorValues = new Set(result?.errors.map((error) => error.value))
+
+            return (
+              <tr
+                key={row.row}
+                className={`border-t align-top ${result?.status === 'duplicate' ? 'bg-muted/50 text-muted-foreground' : ''}`}
+                data-testid={`client-import-row-${row.row}`}
+              >
+                <td className="px-3 py-2">{row.row}</td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {result && <ClientImportStatus status={result.status} />}
+                </td>
+                {CLIENT_IMPORT_FIELDS.map((field) => {
+                  const value = row[field] ?? ''
+                  const hasError = value !== '' && errorValues.has(value)
+
+                  return (
+                    <td key={field} className="px-2 py-1">
+                      <Input
+                        value={value}
+                        onChange={(e) => onChange(row.row, field, e.target.value)}
+                        disabled={disabled}
+                        className={`h-8 min-w-[7rem] ${hasError ? 'border-red-500' : ''}`}
+                        data-testid={`client-import-cell-${row.row}-${field}`}
+                      />
+                    </td>
+                  )
+                })}
+                <td className="px-3 py-2 text-muted-foreground">
+                  {result && <ClientImportDetails result={result} />}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function ClientImportStatus({ status }: { status: ClientImportCheckedRow['status'] }) {
+  const { t } = useTranslation('admin')
+
+  switch (status) {
+    case 'create':
+      return (
+        <span className="inline-flex items-center gap-1 text-green-600">
+          <CheckCircle className="h-4 w-4" />
+          {t('clientImport.rowStatus.create')}
+        </span>
+      )
+    case 'update':
+      return (
+        <span className="inline-flex items-center gap-1 text-blue-600">
+          <RefreshCw className="h-4 w-4" />
+          {t('clientImport.rowStatus.update')}
+        </span>
+      )
+    case 'duplicate':
+      return (
+        <span className="inline-flex items-center gap-1 text-amber-600">
+          <Copy className="h-4 w-4" />
+          {t('clientImport.rowStatus.duplicate')}
+        </span>
+      )
+    default:
+      return (
+        <span className="inline-flex items-center gap-1 text-red-600">
+          <XCircle className="h-4 w-4" />
+          {t('clientImport.rowStatus.invalid')}
+        </span>
+      )
+  }
+}
+
+function ClientImportDetails({ result }: { result: ClientImportCheckedRow }) {
+  const { t } = useTranslation('admin')
+
+  if (result.status === 'invalid') {
+    return <ClientImportIssues issues={result.errors} />
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {result.status === 'duplicate' && (
+        <p>
+          {result.duplicate_of
+            ? t('clientImport.review.duplicateOfRow', { row: result.duplicate_of })
+            : t('clientImport.review.duplicateOfClient', { name: result.client?.name ?? '' })}
+        </p>
+      )}
+      {result.status === 'update' && result.client && (
+        <p>{t('clientImport.review.updatesClient', { name: result.client.name })}</p>
+      )}
+      {result.warnings.length > 0 && (
+        <ul className="space-y-0.5 text-amber-600">
+          {result.warnings.map((warning, index) => (
+            <li key={index} className="inline-flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {t(`clientImport.warnings.${warning.code}`, { value: warning.value ?? '' })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function ClientImportIssues({ issues }: { issues: ClientImportIssue[] }) {
+  const { t } = useTranslation('admin')
+
+  return (
+    <ul className="space-y-0.5 text-red-600">
+      {issues.map((issue, index) => (
+        <li key={index}>{t(`clientImport.issues.${issue.code}`, { value: issue.value ?? '' })}</li>
+      ))}
+    </ul>
+  )
+}
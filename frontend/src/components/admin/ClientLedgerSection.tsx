@@ -0,0 +1,298 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format, parseISO } from 'date-fns'
+import { clientLedgerApi, clientLedgerKeys } from '@/api/clientLedger'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { Banknote, Loader2 } from 'lucide-react'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
+import type { ClientLedgerEntry, ClientLedgerFilters, PaymentMethod } from '@/types/client'
+
+interface ClientLedgerSectionProps {
+  clientId: number
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'transfer']
+
+const formatCurrency = (amount: number) => `${amount.toLocaleString('hu-HU')} Ft`
+
+/**
+ * Money a client owes: session, class and pass charges against recorded payments,
+ * with a running balance and a dialog to record a payment taken at the desk
+ */
+export function ClientLedgerSection({ clientId }: ClientLedgerSectionProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [filters, setFilters] = useState<ClientLedgerFilters>({})
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [paidAt, setPaidAt] = useState('')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const { data: ledger, isLoading } = useQuery({
+    queryKey: clientLedgerKeys.byClient(clientId, filters),
+    queryFn: () => clientLedgerApi.get(clientId, filters),
+  })
+
+  const balance = ledger?.totals.balance ?? 0
+
+  const openPayment = () => {
+    setAmount(balance > 0 ? String(balance) : '')
+    setMethod('cash')
+    setPaidAt(format(new Date(), "yyyy-MM-dd'T'HH:mm"))
+    setReference('')
+    setNotes('')
+    setIsPaymentOpen(true)
+  }
+
+  const paymentMutation = useMutation({
+    mutationFn: () =>
+      clientLedgerApi.recordPayment(clientId, {
+        amount: Number(amount),
+        method,
+        paid_at: paidAt || null,
+        reference: reference || null,
+        notes: notes || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientLedgerKeys.all })
+      toast({ title: t('common:success'), description: t('ledger.paymentRecorded') })
+      setIsPaymentOpen(false)
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: error.response?.data?.message || error.message,
+      })
+    },
+  })
+
+  const isPaymentValid = Number.isInteger(Number(amount)) && Number(amount) > 0
+
+  const describe = (entry: ClientLedgerEntry) => {
+    if (entry.type === 'payment') {
+      const parts = [entry.method ? t(`ledger.methods.${entry.method}`) : null, entry.reference, entry.description]
+      return parts.filter(Boolean).join(' · ')
+    }
+    if (entry.type === 'class' && entry.session_starts_at) {
+      return `${entry.description} (${format(parseISO(entry.session_starts_at), 'MM.dd HH:mm')})`
+    }
+    return entry.description ?? '-'
+  }
+
+  return (
+    <div className="space-y-4" data-testid="client-ledger-section">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3">
+          <div>
+            <CardTitle className="text-lg">{t('ledger.title')}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t('ledger.balance')}:{' '}
+              <span
+                className={`font-semibold ${balance > 0 ? 'text-destructive' : 'text-green-600'}`}
+                data-testid="client-ledger-balance"
+              >
+                {formatCurrency(balance)}
+              </span>
+            </p>
+          </div>
+          <Button size="sm" onClick={openPayment} className="w-full sm:w-auto" data-testid="record-payment-btn">
+            <Banknote className="h-4 w-4 mr-2" />
+            {t('ledger.recordPayment')}
+          </Button>
+        </CardHeader>
+        <CardContent className="px-2 sm:px-6 space-y-4">
+          <div className="grid grid-cols-2 gap-2 sm:max-w-md">
+            <div className="space-y-1">
+              <Label htmlFor="ledger-from" className="text-xs">{t('ledger.from')}</Label>
+              <Input
+                id="ledger-from"
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ledger-to" className="text-xs">{t('ledger.to')}</Label>
+              <Input
+                id="ledger-to"
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !ledger || ledger.entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">{t('ledger.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('ledger.date')}</TableHead>
+                    <TableHead>{t('ledger.type')}</TableHead>
+                    <TableHead>{t('ledger.details')}</TableHead>
+                    <TableHead className="text-right">{t('ledger.amount')}</TableHead>
+                    <TableHead className="text-right">{t('ledger.balance')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filters.from && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-xs text-muted-foreground">
+                        {t('ledger.openingBalance')}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(ledger.opening_balance)}</TableCell>
+                    </TableRow>
+                  )}
+                  {ledger.entries.map((entry, index) => (
+                    <TableRow key={index} data-testid={`client-ledger-entry-${index}`}>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {format(parseISO(entry.date), 'yyyy.MM.dd HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.type === 'payment' ? 'secondary' : 'outline'}>
+                          {t(`ledger.types.${entry.type}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div>{describe(entry)}</div>
+                        {entry.recorded_by_name && (
+                          <div className="text-muted-foreground">{entry.recorded_by_name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium whitespace-nowrap ${entry.amount < 0 ? 'text-green-600' : ''}`}
+                      >
+                        {formatCurrency(entry.amount)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatCurrency(entry.balance_after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {ledger && (
+            <div className="flex flex-wrap justify-end gap-4 text-sm">
+              <span>
+                {t('ledger.totalCharges')}: <strong>{formatCurrency(ledger.totals.charges)}</strong>
+              </span>
+              <span>
+                {t('ledger.totalPayments')}: <strong>{formatCurrency(ledger.totals.payments)}</strong>
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isPaymentOpen} onOpenChange={setIsPaymentOpen}>
+        <DialogContent className="sm:max-w-[450px]" data-testid="record-payment-dialog">
+          <DialogHeader>
+            <DialogTitle>{t('ledger.recordPayment')}</DialogTitle>
+            <DialogDescription>
+              {t('ledger.balance')}: {formatCurrency(balance)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">{t('ledger.amount')}</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min={1}
+                  step={100}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  data-testid="payment-amount-input"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('ledger.method')}</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger data-testid="payment-method-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {t(`ledger.methods.${value}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-paid-at">{t('ledger.paidAt')}</Label>
+              <Input id="payment-paid-at" type="datetime-local" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">{t('ledger.reference')}</Label>
+              <Input id="payment-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-notes">{t('ledger.notes')}</Label>
+              <Input id="payment-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPaymentOpen(false)} disabled={paymentMutation.isPending}>
+              {t('common:cancel')}
+            </Button>
+            <Button
+              onClick={() => paymentMutation.mutate()}
+              disabled={!isPaymentValid || paymentMutation.isPending}
+              data-testid="payment-submit-btn"
+            >
+              {paymentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,481 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format, parseISO, addMonths } from 'date-fns'
+import { passesApi, passKeys } from '@/api/passes'
+import { clientKeys } from '@/api/clients'
+import { clientLedgerKeys } from '@/api/clientLedger'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { Plus, PlusCircle, CalendarPlus, Snowflake, Sun, Ban, Loader2 } from 'lucide-react'
+import type { ManagedPass, ManagedPassStatus, PassLedgerEntry } from '@/types/client'
+
+type PassAction = 'issue' | 'adjust' | 'extend' | 'freeze' | 'void'
+
+interface ClientPassesSectionProps {
+  clientId: number
+}
+
+const STATUS_VARIANTS: Record<ManagedPassStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  active: 'default',
+  depleted: 'secondary',
+  expired: 'outline',
+  suspended: 'secondary',
+  voided: 'destructive',
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd')
+
+/**
+ * Pass management of a client: issue, adjust credits, extend, freeze, void and the credit ledger
+ */
+export function ClientPassesSection({ clientId }: ClientPassesSectionProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [action, setAction] = useState<PassAction | null>(null)
+  const [selectedPass, setSelectedPass] = useState<ManagedPass | null>(null)
+  const [ledgerPassId, setLedgerPassId] = useState<number | undefined>(undefined)
+
+  // Form state shared by the action dialog
+  const [passType, setPassType] = useState('10_session')
+  const [totalCredits, setTotalCredits] = useState('10')
+  const [validFrom, setValidFrom] = useState(today())
+  const [validUntil, setValidUntil] = useState(format(addMonths(new Date(), 3), 'yyyy-MM-dd'))
+  const [externalOrderId, setExternalOrderId] = useState('')
+  const [price, setPrice] = useState('')
+  const [credits, setCredits] = useState('')
+  const [reason, setReason] = useState('')
+
+  const { data: passList, isLoading } = useQuery({
+    queryKey: passKeys.byClient(clientId),
+    queryFn: () => passesApi.list(clientId),
+  })
+
+  const { data: ledger, isLoading: isLoadingLedger } = useQuery({
+    queryKey: passKeys.ledger(clientId, ledgerPassId),
+    queryFn: () => passesApi.ledger(clientId, ledgerPassId),
+  })
+
+  const passes = passList?.passes ?? []
+
+  const openAction = (nextAction: PassAction, pass: ManagedPass | null = null) => {
+    setSelectedPass(pass)
+    setAction(nextAction)
+    setCredits('')
+    setReason('')
+    if (nextAction === 'issue') {
+      setPassType('10_session')
+      setTotalCredits('10')
+      setValidFrom(today())
+      setValidUntil(format(addMonths(new Date(), 3), 'yyyy-MM-dd'))
+      setExternalOrderId('')
+      setPrice('')
+    }
+    if (nextAction === 'extend' && pass) {
+      setValidUntil(format(addMonths(parseISO(pass.valid_until), 1), 'yyyy-MM-dd'))
+    }
+  }
+
+  const closeAction = () => {
+    setAction(null)
+    setSelectedPass(null)
+  }
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: passKeys.byClient(clientId) })
+    queryClient.invalidateQueries({ queryKey: clientKeys.passes(String(clientId)) })
+    queryClient.invalidateQueries({ queryKey: clientLedgerKeys.all })
+    toast({ title: t('common:success'), description: message })
+    closeAction()
+  }
+
+  const onError = (error: Error & { response?: { data?: { message?: string } } }) => {
+    toast({
+      variant: 'destructive',
+      title: t('common:error'),
+      description: error.response?.data?.message || error.message,
+    })
+  }
+
+  const actionMutation = useMutation({
+    mutationFn: async (): Promise<ManagedPass> => {
+      switch (action) {
+        case 'issue':
+          return passesApi.issue(clientId, {
+            type: passType,
+            total_credits: Number(totalCredits),
+            valid_from: validFrom,
+            valid_until: validUntil,
+            external_order_id: externalOrderId || null,
+            price: price ? Number(price) : null,
+          })
+        case 'adjust':
+          return passesApi.adjust(selectedPass!.id, Number(credits), reason)
+        case 'extend':
+          return passesApi.extend(selectedPass!.id, validUntil, reason || undefined)
+        case 'freeze':
+          return passesApi.freeze(selectedPass!.id, reason || undefined)
+        case 'void':
+          return passesApi.void(selectedPass!.id, reason)
+        default:
+          throw new Error('Unknown pass action')
+      }
+    },
+    onSuccess: () => onSuccess(t(`passes.manage.success.${action}`)),
+    onError,
+  })
+
+  const unfreezeMutation = useMutation({
+    mutationFn: (pass: ManagedPass) => passesApi.unfreeze(pass.id),
+    onSuccess: () => onSuccess(t('passes.manage.success.unfreeze')),
+    onError,
+  })
+
+  const isActionValid = (() => {
+    switch (action) {
+      case 'issue':
+        return (
+          passType.trim() !== '' &&
+          Number(totalCredits) > 0 &&
+          validFrom !== '' &&
+          validUntil >= validFrom &&
+          (price === '' || Number(price) >= 0)
+        )
+      case 'adjust':
+        return Number.isInteger(Number(credits)) && Number(credits) !== 0 && reason.trim() !== ''
+      case 'extend':
+        return !!selectedPass && validUntil >= selectedPass.valid_until
+      case 'void':
+        return reason.trim() !== ''
+      default:
+        return true
+    }
+  })()
+
+  const formatDate = (value: string) => format(parseISO(value), 'yyyy.MM.dd')
+
+  const renderLedgerSource = (entry: PassLedgerEntry) => {
+    if (entry.session_title) {
+      return entry.session_starts_at
+        ? `${entry.session_title} (${format(parseISO(entry.session_starts_at), 'MM.dd HH:mm')})`
+        : entry.session_title
+    }
+    return entry.reason ?? '-'
+  }
+
+  return (
+    <div className="space-y-4" data-testid="client-passes-section">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3">
+          <div>
+            <CardTitle className="text-lg">{t('passes.manage.title')}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t('passes.manage.creditsRemaining', { count: passList?.total_credits_remaining ?? 0 })}
+            </p>
+          </div>
+          <Button size="sm" onClick={() => openAction('issue')} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            {t('passes.manage.issue')}
+          </Button>
+        </CardHeader>
+        <CardContent className="px-2 sm:px-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={i} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : passes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">{t('passes.manage.empty')}</p>
+          ) : (
+            <div className="space-y-2">
+              {passes.map((pass) => (
+                <div key={pass.id} className="border rounded-lg p-3 space-y-2" data-testid={`pass-row-${pass.id}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{pass.type}</span>
+                      <Badge variant={STATUS_VARIANTS[pass.status]}>{t(`passes.status.${pass.status}`)}</Badge>
+                      <Badge variant="outline">{t(`passes.manage.source.${pass.source}`)}</Badge>
+                    </div>
+                    <span className="text-sm font-semibold">
+                      {pass.credits_left} / {pass.total_credits}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDate(pass.valid_from)} – {formatDate(pass.valid_until)}
+                    {pass.price !== null && pass.price > 0 && <> · {pass.price.toLocaleString('hu-HU')} Ft</>}
+                    {pass.external_order_id && <> · #{pass.external_order_id}</>}
+                    {pass.void_reason && <> · {pass.void_reason}</>}
+                  </div>
+                  {pass.status !== 'voided' && (
+                    <div className="flex flex-wrap gap-1">
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => openAction('adjust', pass)}>
+                        <PlusCircle className="h-3 w-3 mr-1" />
+                        {t('passes.manage.adjust')}
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => openAction('extend', pass)}>
+                        <CalendarPlus className="h-3 w-3 mr-1" />
+                        {t('passes.manage.extend')}
+                      </Button>
+                      {pass.status === 'suspended' ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => unfreezeMutation.mutate(pass)}
+                          disabled={unfreezeMutation.isPending}
+                        >
+                          <Sun className="h-3 w-3 mr-1" />
+                          {t('passes.manage.unfreeze')}
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" className="h-7" onClick={() => openAction('freeze', pass)}>
+                          <Snowflake className="h-3 w-3 mr-1" />
+                          {t('passes.manage.freeze')}
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-destructive"
+                        onClick={() => openAction('void', pass)}
+                      >
+                        <Ban className="h-3 w-3 mr-1" />
+                        {t('passes.manage.void')}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Credit ledger */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3">
+          <CardTitle className="text-lg">{t('passes.manage.ledger')}</CardTitle>
+          <Select
+            value={ledgerPassId ? String(ledgerPassId) : 'all'}
+            onValueChange={(value) => setLedgerPassId(value === 'all' ? undefined : Number(value))}
+          >
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('passes.manage.allPasses')}</SelectItem>
+              {passes.map((pass) => (
+                <SelectItem key={pass.id} value={String(pass.id)}>
+                  {pass.type} ({formatDate(pass.valid_from)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="px-2 sm:px-6">
+          {isLoadingLedger ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !ledger || ledger.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">{t('passes.manage.ledgerEmpty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('passes.manage.ledgerDate')}</TableHead>
+                    <TableHead>{t('passes.manage.ledgerType')}</TableHead>
+                    <TableHead className="text-right">{t('passes.manage.ledgerCredits')}</TableHead>
+                    <TableHead className="text-right">{t('passes.manage.ledgerBalance')}</TableHead>
+                    <TableHead>{t('passes.manage.ledgerDetails')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {format(parseISO(entry.created_at), 'yyyy.MM.dd HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{t(`passes.manage.transaction.${entry.type}`)}</Badge>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${entry.credits < 0 ? 'text-destructive' : entry.credits > 0 ? 'text-green-600' : ''}`}
+                      >
+                        {entry.credits > 0 ? `+${entry.credits}` : entry.credits}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.balance_after}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{renderLedgerSource(entry)}</div>
+                        {entry.created_by_name && (
+                          <div className="text-muted-foreground">{entry.created_by_name}</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Action Dialog */}
+      <Dialog open={action !== null} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{action && t(`passes.manage.dialog.${action}Title`)}</DialogTitle>
+            {selectedPass && (
+              <DialogDescription>
+                {selectedPass.type} · {selectedPass.credits_left} / {selectedPass.total_credits} ·{' '}
+                {formatDate(selectedPass.valid_until)}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {action === 'issue' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="pass-type">{t('passes.manage.dialog.type')}</Label>
+                  <Input id="pass-type" value={passType} onChange={(e) => setPassType(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pass-credits">{t('passes.manage.dialog.totalCredits')}</Label>
+                  <Input
+                    id="pass-credits"
+                    type="number"
+                    min={1}
+                    value={totalCredits}
+                    onChange={(e) => setTotalCredits(e.target.value)}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="pass-valid-from">{t('passes.manage.dialog.validFrom')}</Label>
+                    <Input id="pass-valid-from" type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pass-valid-until">{t('passes.manage.dialog.validUntil')}</Label>
+                    <Input id="pass-valid-until" type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="pass-price">{t('passes.manage.dialog.price')}</Label>
+                    <Input
+                      id="pass-price"
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                      data-testid="pass-price-input"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pass-order">{t('passes.manage.dialog.externalOrderId')}</Label>
+                    <Input id="pass-order" value={externalOrderId} onChange={(e) => setExternalOrderId(e.target.value)} />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">{t('passes.manage.dialog.priceHint')}</p>
+              </>
+            )}
+
+            {action === 'adjust' && (
+              <div className="space-y-2">
+                <Label htmlFor="pass-adjust-credits">{t('passes.manage.dialog.credits')}</Label>
+                <Input
+                  id="pass-adjust-credits"
+                  type="number"
+                  step={1}
+                  value={credits}
+                  onChange={(e) => setCredits(e.target.value)}
+                  placeholder="+2 / -1"
+                />
+                <p className="text-xs text-muted-foreground">{t('passes.manage.dialog.creditsHint')}</p>
+              </div>
+            )}
+
+            {action === 'extend' && (
+              <div className="space-y-2">
+                <Label htmlFor="pass-extend-until">{t('passes.manage.dialog.newValidUntil')}</Label>
+                <Input
+                  id="pass-extend-until"
+                  type="date"
+                  min={selectedPass?.valid_until}
+                  value={validUntil}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                />
+              </div>
+            )}
+
+            {action === 'freeze' && (
+              <p className="text-sm text-muted-foreground">{t('passes.manage.dialog.freezeInfo')}</p>
+            )}
+
+            {action === 'void' && (
+              <p className="text-sm text-destructive">
+                {t('passes.manage.dialog.voidWarning', { count: selectedPass?.credits_left ?? 0 })}
+              </p>
+            )}
+
+            {action && action !== 'issue' && (
+              <div className="space-y-2">
+                <Label htmlFor="pass-reason">
+                  {t('passes.manage.dialog.reason')}
+                  {(action === 'adjust' || action === 'void') && <span className="text-destructive"> *</span>}
+                </Label>
+                <Input id="pass-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAction} disabled={actionMutation.isPending}>
+              {t('common:cancel')}
+            </Button>
+            <Button
+              variant={action === 'void' ? 'destructive' : 'default'}
+              onClick={() => actionMutation.mutate()}
+              disabled={!isActionValid || actionMutation.isPending}
+            >
+              {actionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useTranslation } from 'react-i18next'
+import { format, parseISO } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { AlertCircle, CheckCircle, XCircle } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { EventImportError, EventImportRow } from '@/types/event'
+
+interface EventImportPreviewTableProps {
+  rows: EventImportRow[]
+  skipRows: Set<number>
+  onToggleSkip: (row: number) => void
+  disabled?: boolean
+}
+
+/**
+ * Import rows with their mapping and status, laid out like the recurring event preview:
+ * conflicting rows can be skipped, invalid rows are never imported
+ */
+export function EventImportPreviewTable({ rows, skipRows, onToggleSkip, disabled = false }: EventImportPreviewTableProps) {
+  const { t, i18n } = useTranslation('admin')
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const formatTime = (row: EventImportRow) => {
+    if (!row.starts_at || !row.ends_at) return '-'
+    return `${format(parseISO(row.starts_at), 'yyyy. MM. dd. (EEE) HH:mm', { locale })}–${format(parseISO(row.ends_at), 'HH:mm')}`
+  }
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.row')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.time')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.room')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.staff')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.client')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.serviceType')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.status')}</th>
+            <th className="px-3 py-2 text-left font-medium">{t('eventImport.preview.details')}</th>
+            <th className="px-3 py-2 text-center font-medium">{t('eventImport.preview.skip')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const isInvalid = row.status === 'invalid'
+            const isSkipped = isInvalid || skipRows.has(row.row)
+
+            return (
+              <tr
+                key={row.row}
+                className={`border-t ${isSkipped ? 'bg-muted/50 text-muted-foreground' : ''}`}
+                data-testid={`event-import-row-${row.row}`}
+              >
+                <td className="px-3 py-2">{row.row}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{formatTime(row)}</td>
+                <td className="px-3 py-2">{row.room?.name ?? '-'}</td>
+                <td className="px-3 py-2">{row.staff?.name ?? '-'}</td>
+                <td className="px-3 py-2">{row.client?.name ?? '-'}</td>
+                <td className="px-3 py-2">{row.service_type?.name ?? '-'}</td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {row.status === 'ok' && (
+                    <span className="inline-flex items-center gap-1 text-green-600">
+                      <CheckCircle className="h-4 w-4" />
+                      {t('eventImport.status.ok')}
+                    </span>
+                  )}
+                  {row.status === 'conflict' && (
+                    <span className="inline-flex items-center gap-1 text-amber-600">
+                      <AlertCircle className="h-4 w-4" />
+                      {t('eventImport.status.conflict')}
+                    </span>
+                  )}
+                  {isInvalid && (
+                    <span className="inline-flex items-center gap-1 text-red-600">
+                      <XCircle className="h-4 w-4" />
+                      {t('eventImport.status.invalid')}
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-muted-foreground">
+                  {isInvalid ? (
+                    <EventImportErrors errors={row.errors} />
+                  ) : row.conflict_with ? (
+                    <span>
+                      {row.conflicts[0]?.event_type === 'import_row'
+                        ? t('eventImport.preview.conflictWithRow', { row: row.conflicts[0].event_id })
+                        : row.conflict_with}
+                      {row.conflicts.length > 1 && ` (+${row.conflicts.length - 1})`}
+                    </span>
+                  ) : (
+                    row.title || '-'
+                  )}
+                </td>
+                <td className="px-3 py-2 text-center">
+                  <Checkbox
+                    checked={isSkipped}
+                    onCheckedChange={() => onToggleSkip(row.row)}
+                    disabled={disabled || isInvalid}
+                    data-testid={`event-import-skip-${row.row}`}
+                  />
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function EventImportErrors({ errors }: { errors: EventImportError[] }) {
+  const { t } = useTranslation('admin')
+
+  return (
+    <ul className="space-y-0.5 text-red-600">
+      {errors.map((error, index) => (
+        <li key={index}>{t(`eventImport.errors.${error.code}`, { value: error.value ?? '' })}</li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,102 @@
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import type { GoogleCalendarConflict } from '@/types/googleCalendar'
+
+interface ConflictOverlapPreviewProps {
+  conflict: GoogleCalendarConflict
+}
+
+interface TimelineBar {
+  key: string
+  label: string
+  start: number
+  end: number
+}
+
+/**
+ * Draws the Google event and the sessions it overlaps on one shared time axis,
+ * with the overlapping parts highlighted
+ */
+export function ConflictOverlapPreview({ conflict }: ConflictOverlapPreviewProps) {
+  const { t } = useTranslation('admin')
+
+  const google: TimelineBar = {
+    key: 'google',
+    label: conflict.google_summary || t('googleCalendarSync.preview.googleEvent'),
+    start: new Date(conflict.google_start).getTime(),
+    end: new Date(conflict.google_end).getTime(),
+  }
+
+  const existing: TimelineBar[] = conflict.conflicting_events.map((event) => ({
+    key: `${event.type}-${event.event_id}`,
+    label: event.title || (event.type === 'class_occurrence' ? t('googleCalendarSync.preview.class') : t('googleCalendarSync.preview.session')),
+    start: new Date(event.start).getTime(),
+    end: new Date(event.end).getTime(),
+  }))
+
+  const rangeStart = Math.min(google.start, ...existing.map((bar) => bar.start))
+  const rangeEnd = Math.max(google.end, ...existing.map((bar) => bar.end))
+  const span = Math.max(rangeEnd - rangeStart, 1)
+
+  const position = (start: number, end: number) => ({
+    left: `${((start - rangeStart) / span) * 100}%`,
+    width: `${((end - start) / span) * 100}%`,
+  })
+
+  const timeRange = (bar: TimelineBar) => `${format(bar.start, 'HH:mm')}–${format(bar.end, 'HH:mm')}`
+
+  return (
+    <div className="space-y-1.5 py-1" data-testid={`conflict-preview-${conflict.google_event_id}`}>
+      <TimelineRow bar={google} style={position(google.start, google.end)} className="bg-blue-500 text-white" timeRange={timeRange(google)} />
+
+      {existing.map((bar) => {
+        const overlapStart = Math.max(bar.start, google.start)
+        const overlapEnd = Math.min(bar.end, google.end)
+
+        return (
+          <TimelineRow
+            key={bar.key}
+            bar={bar}
+            style={position(bar.start, bar.end)}
+            className="bg-gray-300 text-gray-800 dark:bg-gray-700 dark:text-gray-100"
+            timeRange={timeRange(bar)}
+            overlay={overlapEnd > overlapStart ? position(overlapStart, overlapEnd) : undefined}
+          />
+        )
+      })}
+
+      <div className="flex justify-between pl-[8.5rem] text-xs text-muted-foreground">
+        <span>{format(rangeStart, 'HH:mm')}</span>
+        <span>{format(rangeEnd, 'HH:mm')}</span>
+      </div>
+    </div>
+  )
+}
+
+interface TimelineRowProps {
+  bar: TimelineBar
+  style: { left: string; width: string }
+  className: string
+  timeRange: string
+  overlay?: { left: string; width: string }
+}
+
+function TimelineRow({ bar, style, className, timeRange, overlay }: TimelineRowProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-32 shrink-0 truncate text-xs" title={bar.label}>
+        {bar.label}
+      </div>
+      <div className="relative h-6 flex-1 rounded bg-muted">
+        <div
+          className={`absolute inset-y-0 flex items-center overflow-hidden rounded px-1.5 text-[11px] whitespace-nowrap ${className}`}
+          style={style}
+          title={`${bar.label} ${timeRange}`}
+        >
+          {timeRange}
+        </div>
+        {overlay && <div className="absolute inset-y-0 rounded bg-red-500/60" style={overlay} data-testid="conflict-preview-overlap" />}
+      </div>
+    </div>
+  )
+}
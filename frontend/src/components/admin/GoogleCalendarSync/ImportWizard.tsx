@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { format, addDays } from 'date-fns'
@@ -15,7 +15,15 @@ import { Card } from '@/components/ui/card'
 import { useToast } from '@/hooks/use-toast'
 import { syncOperationsApi, syncLogsApi, googleCalendarSyncKeys } from '@/api/googleCalendarSync'
 import { roomsApi } from '@/api/admin'
-import type { GoogleCalendarSyncConfig, ImportEventsInput, GoogleCalendarConflict, GoogleCalendarSyncLog } from '@/types/googleCalendar'
+import { CONFLICT_RESOLUTIONS } from '@/lib/constants'
+import { ConflictOverlapPreview } from './ConflictOverlapPreview'
+import type {
+  GoogleCalendarSyncConfig,
+  ImportEventsInput,
+  GoogleCalendarConflict,
+  GoogleCalendarSyncLog,
+  ConflictResolution,
+} from '@/types/googleCalendar'
 import type { Room } from '@/types/admin'
 
 interface ImportWizardProps {
@@ -36,8 +44,9 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
   const [endDate, setEndDate] = useState<string>(format(addDays(new Date(), 30), 'yyyy-MM-dd'))
   const [selectedRoomId, setSelectedRoomId] = useState<number | null>(null)
   const [autoResolve, setAutoResolve] = useState(false)
+  const [autoResolution, setAutoResolution] = useState<ConflictResolution>('keep_both')
   const [conflicts, setConflicts] = useState<GoogleCalendarConflict[]>([])
-  const [conflictResolutions, setConflictResolutions] = useState<Record<string, 'overwrite' | 'skip'>>({})
+  const [conflictResolutions, setConflictResolutions] = useState<Record<string, ConflictResolution>>({})
   const [logId, setLogId] = useState<number | null>(null)
   const [importResults, setImportResults] = useState<GoogleCalendarSyncLog | null>(null)
 
@@ -86,7 +95,7 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
 
   // Resolve conflicts mutation
   const resolveMutation = useMutation({
-    mutationFn: (data: { log_id: number; resolutions: Record<string, 'overwrite' | 'skip'> }) =>
+    mutationFn: (data: { log_id: number; resolutions: Record<string, ConflictResolution> }) =>
       syncLogsApi.resolveConflicts(data.log_id, { resolutions: data.resolutions }),
     onSuccess: (result: GoogleCalendarSyncLog) => {
       setImportResults(result)
@@ -121,6 +130,7 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
     if (config?.room_id) {
       setSelectedRoomId(config.room_id)
     }
+    setAutoResolution(config?.sync_options?.default_resolution ?? 'keep_both')
   }, [config])
 
   const handleStartImport = () => {
@@ -132,6 +142,7 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
       end_date: endDate,
       room_id: selectedRoomId,
       auto_resolve_conflicts: autoResolve,
+      conflict_resolution: autoResolve ? autoResolution : null,
     }
 
     importMutation.mutate(input)
@@ -142,13 +153,17 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
     resolveMutation.mutate({ log_id: logId, resolutions: conflictResolutions })
   }
 
-  const handleSetResolution = (googleEventId: string, resolution: 'overwrite' | 'skip') => {
+  const handleSetResolution = (googleEventId: string, resolution: ConflictResolution) => {
     setConflictResolutions((prev) => ({
       ...prev,
       [googleEventId]: resolution,
     }))
   }
 
+  const handleSetAllResolutions = (resolution: ConflictResolution) => {
+    setConflictResolutions(Object.fromEntries(conflicts.map((c) => [c.google_event_id, resolution])))
+  }
+
   const handleClose = () => {
     onClose()
   }
@@ -157,9 +172,14 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
 
   const allConflictsResolved = conflicts.length > 0 && conflicts.every((c) => conflictResolutions[c.google_event_id])
 
+  // Resolutions that could not be applied, e.g. no free slot to shift into
+  const failedResolutions = Object.entries(
+    (importResults?.metadata?.resolutions ?? {}) as Record<string, { resolution: ConflictResolution; outcome: string; error?: string }>
+  ).filter(([, result]) => result.outcome === 'failed')
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Download className="h-5 w-5" />
@@ -215,6 +235,27 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
               <Label htmlFor="auto-resolve">{t('googleCalendarSync.autoResolveConflicts')}</Label>
             </div>
 
+            {autoResolve && (
+              <div className="space-y-2">
+                <Label>{t('googleCalendarSync.autoResolution')}</Label>
+                <Select value={autoResolution} onValueChange={(value: ConflictResolution) => setAutoResolution(value)}>
+                  <SelectTrigger data-testid="import-auto-resolution">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFLICT_RESOLUTIONS.map((resolution) => (
+                      <SelectItem key={resolution} value={resolution}>
+                        {t(`googleCalendarSync.resolution.${resolution}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {t(`googleCalendarSync.resolutionHint.${autoResolution}`)}
+                </p>
+              </div>
+            )}
+
             <Card className="p-4 border-blue-200 bg-blue-50 dark:bg-blue-900/20">
               <div className="flex gap-2">
                 <AlertTriangle className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
@@ -248,49 +289,82 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
             </Card>
 
             <div className="space-y-3">
-              <h4 className="font-semibold">{t('googleCalendarSync.conflictingEvents')}</h4>
+              <div className="flex items-center justify-between gap-4">
+                <h4 className="font-semibold">{t('googleCalendarSync.conflictingEvents')}</h4>
+                <Select value="" onValueChange={(value: ConflictResolution) => handleSetAllResolutions(value)}>
+                  <SelectTrigger className="w-48" data-testid="conflict-resolution-all">
+                    <SelectValue placeholder={t('googleCalendarSync.applyToAll')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFLICT_RESOLUTIONS.map((resolution) => (
+                      <SelectItem key={resolution} value={resolution}>
+                        {t(`googleCalendarSync.resolution.${resolution}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Google Event</TableHead>
-                    <TableHead>Conflict</TableHead>
-                    <TableHead>Resolution</TableHead>
+                    <TableHead>{t('googleCalendarSync.googleEvent')}</TableHead>
+                    <TableHead>{t('googleCalendarSync.conflict')}</TableHead>
+                    <TableHead>{t('googleCalendarSync.resolutionLabel')}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {conflicts.map((conflict) => (
-                    <TableRow key={conflict.google_event_id}>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{conflict.google_summary}</div>
-                          <div className="text-sm text-muted-foreground">
-                            {format(new Date(conflict.google_start), 'PPP p')}
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="destructive">
-                          {conflict.conflicting_events[0]?.overlap_minutes || 0} {t('googleCalendarSync.minutesOverlap')}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Select
-                          value={conflictResolutions[conflict.google_event_id] || ''}
-                          onValueChange={(value: 'overwrite' | 'skip') =>
-                            handleSetResolution(conflict.google_event_id, value)
-                          }
-                        >
-                          <SelectTrigger className="w-32">
-                            <SelectValue placeholder="Choose..." />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="skip">Skip</SelectItem>
-                            <SelectItem value="overwrite">Overwrite</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {conflicts.map((conflict) => {
+                    const resolution = conflictResolutions[conflict.google_event_id]
+
+                    return (
+                      <Fragment key={conflict.google_event_id}>
+                        <TableRow className="border-b-0">
+                          <TableCell>
+                            <div>
+                              <div className="font-medium">{conflict.google_summary}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {format(new Date(conflict.google_start), 'PPP p')}
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="destructive">
+                              {Math.max(0, ...conflict.conflicting_events.map((e) => e.overlap_minutes))} {t('googleCalendarSync.minutesOverlap')}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={resolution || ''}
+                              onValueChange={(value: ConflictResolution) =>
+                                handleSetResolution(conflict.google_event_id, value)
+                              }
+                            >
+                              <SelectTrigger className="w-44" data-testid={`conflict-resolution-${conflict.google_event_id}`}>
+                                <SelectValue placeholder={t('googleCalendarSync.chooseResolution')} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CONFLICT_RESOLUTIONS.map((option) => (
+                                  <SelectItem key={option} value={option}>
+                                    {t(`googleCalendarSync.resolution.${option}`)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {resolution && (
+                              <p className="text-xs text-muted-foreground mt-1 max-w-44">
+                                {t(`googleCalendarSync.resolutionHint.${resolution}`)}
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell colSpan={3} className="pt-0">
+                            <ConflictOverlapPreview conflict={conflict} />
+                          </TableCell>
+                        </TableRow>
+                      </Fragment>
+                    )
+                  })}
                 </TableBody>
               </Table>
             </div>
@@ -350,6 +424,19 @@ export function ImportWizard({ open, onClose, config }: ImportWizardProps) {
                 </div>
               </div>
             </div>
+
+            {failedResolutions.length > 0 && (
+              <div className="space-y-1" data-testid="import-failed-resolutions">
+                <h4 className="font-semibold text-sm">{t('googleCalendarSync.failedResolutions')}</h4>
+                {failedResolutions.map(([googleEventId, result]) => (
+                  <p key={googleEventId} className="text-sm text-red-600">
+                    {conflicts.find((c) => c.google_event_id === googleEventId)?.google_summary ?? googleEventId}
+                    {' – '}
+                    {t(`googleCalendarSync.resolution.${result.resolution}`)}: {result.error}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
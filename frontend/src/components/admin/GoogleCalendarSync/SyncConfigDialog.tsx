@@ -1,10 +1,10 @@
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useForm, Controller } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { Loader2, CheckCircle, XCircle } from 'lucide-react'
+import { Loader2, CheckCircle, XCircle, Plus, Trash2 } from 'lucide-react'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -14,7 +14,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast'
 import { syncConfigsApi, syncOperationsApi, googleCalendarSyncKeys } from '@/api/googleCalendarSync'
 import { roomsApi } from '@/api/admin'
-import type { GoogleCalendarSyncConfig, CreateSyncConfigInput } from '@/types/googleCalendar'
+import { serviceTypesApi, serviceTypeKeys } from '@/api/serviceTypes'
+import { UNATTENDED_CONFLICT_RESOLUTIONS } from '@/lib/constants'
+import type {
+  GoogleCalendarSyncConfig,
+  CreateSyncConfigInput,
+  ConflictResolution,
+  GoogleCalendarImportRule,
+} from '@/types/googleCalendar'
 
 const syncConfigSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -22,6 +29,7 @@ const syncConfigSchema = z.object({
   room_id: z.number().nullable(),
   sync_enabled: z.boolean(),
   sync_direction: z.enum(['import', 'export', 'both']),
+  sync_interval_minutes: z.number().int().min(5).max(1440),
 })
 
 type SyncConfigFormData = z.infer<typeof syncConfigSchema>
@@ -51,17 +59,28 @@ export function SyncConfigDialog({ open, onClose, config }: SyncConfigDialogProp
       room_id: null,
       sync_enabled: true,
       sync_direction: 'both',
+      sync_interval_minutes: 15,
     },
   })
 
   const googleCalendarId = watch('google_calendar_id')
 
+  // Import rules and the default conflict resolution are saved into sync_options
+  const [importRules, setImportRules] = useState<GoogleCalendarImportRule[]>([])
+  const [defaultResolution, setDefaultResolution] = useState<ConflictResolution | null>(null)
+  const [rulesError, setRulesError] = useState<string | null>(null)
+
   // Fetch rooms
   const { data: rooms } = useQuery({
     queryKey: ['rooms'],
     queryFn: () => roomsApi.list(),
   })
 
+  const { data: serviceTypes } = useQuery({
+    queryKey: serviceTypeKeys.lists(),
+    queryFn: serviceTypesApi.list,
+  })
+
   // Test connection mutation
   const testConnectionMutation = useMutation({
     mutationFn: syncOperationsApi.testConnection,
@@ -103,7 +122,12 @@ export function SyncConfigDialog({ open, onClose, config }: SyncConfigDialogProp
         room_id: config.room_id,
         sync_enabled: config.sync_enabled,
         sync_direction: config.sync_direction,
+        sync_interval_minutes: config.sync_interval_minutes,
       })
+      setImportRules(config.sync_options?.import_rules ?? [])
+      // A default saved before overwrite and merge became manual only falls back to manual
+      const savedResolution = config.sync_options?.default_resolution ?? null
+      setDefaultResolution(savedResolution && UNATTENDED_CONFLICT_RESOLUTIONS.includes(savedResolution) ? savedResolution : null)
     } else if (!open) {
       reset({
         name: '',
@@ -111,12 +135,39 @@ export function SyncConfigDialog({ open, onClose, config }: SyncConfigDialogProp
         room_id: null,
         sync_enabled: true,
         sync_direction: 'both',
+        sync_interval_minutes: 15,
       })
+      setImportRules([])
+      setDefaultResolution(null)
     }
+    setRulesError(null)
   }, [config, open, reset])
 
   const onSubmit = (data: SyncConfigFormData) => {
-    saveMutation.mutate(data)
+    const rules = importRules.filter((rule) => rule.pattern.trim() !== '')
+
+    if (rules.some((rule) => rule.action === 'service_type' && !rule.service_type_id)) {
+      setRulesError(t('googleCalendarSync.rules.serviceTypeRequired'))
+      return
+    }
+
+    setRulesError(null)
+    saveMutation.mutate({
+      ...data,
+      sync_options: {
+        ...config?.sync_options,
+        default_resolution: defaultResolution,
+        import_rules: rules.map((rule) => ({
+          ...rule,
+          pattern: rule.pattern.trim(),
+          service_type_id: rule.action === 'service_type' ? rule.service_type_id : null,
+        })),
+      },
+    })
+  }
+
+  const updateRule = (index: number, changes: Partial<GoogleCalendarImportRule>) => {
+    setImportRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
   }
 
   const handleTestConnection = async () => {
@@ -149,7 +200,7 @@ export function SyncConfigDialog({ open, onClose, config }: SyncConfigDialogProp
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {config ? t('googleCalendarSync.editConfig') : t('googleCalendarSync.newConfig')}
@@ -262,6 +313,128 @@ export function SyncConfigDialog({ open, onClose, config }: SyncConfigDialogProp
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="sync_interval_minutes">{t('googleCalendarSync.syncInterval')}</Label>
+            <Controller
+              name="sync_interval_minutes"
+              control={control}
+              render={({ field }) => (
+                <Input
+                  id="sync_interval_minutes"
+                  type="number"
+                  min={5}
+                  max={1440}
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                  className={errors.sync_interval_minutes ? 'border-destructive' : ''}
+                  data-testid="sync-interval-input"
+                />
+              )}
+            />
+            <p className="text-xs text-muted-foreground">{t('googleCalendarSync.syncIntervalHint')}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('googleCalendarSync.defaultResolution')}</Label>
+            <Select
+              value={defaultResolution ?? 'null'}
+              onValueChange={(value) => setDefaultResolution(value === 'null' ? null : (value as ConflictResolution))}
+            >
+              <SelectTrigger data-testid="default-resolution-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="null">{t('googleCalendarSync.resolution.manual')}</SelectItem>
+                {UNATTENDED_CONFLICT_RESOLUTIONS.map((resolution) => (
+                  <SelectItem key={resolution} value={resolution}>
+                    {t(`googleCalendarSync.resolution.${resolution}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{t('googleCalendarSync.defaultResolutionHint')}</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('googleCalendarSync.rules.title')}</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setImportRules((prev) => [...prev, { match: 'starts_with', pattern: '', action: 'skip', service_type_id: null }])}
+                data-testid="import-rule-add"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {t('googleCalendarSync.rules.add')}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('googleCalendarSync.rules.hint')}</p>
+
+            {importRules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2" data-testid={`import-rule-${index}`}>
+                <Select
+                  value={rule.match}
+                  onValueChange={(value: GoogleCalendarImportRule['match']) => updateRule(index, { match: value })}
+                >
+                  <SelectTrigger className="w-36 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="starts_with">{t('googleCalendarSync.rules.startsWith')}</SelectItem>
+                    <SelectItem value="contains">{t('googleCalendarSync.rules.contains')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                  placeholder={t('googleCalendarSync.rules.patternPlaceholder')}
+                  data-testid={`import-rule-pattern-${index}`}
+                />
+                <Select
+                  value={rule.action}
+                  onValueChange={(value: GoogleCalendarImportRule['action']) => updateRule(index, { action: value })}
+                >
+                  <SelectTrigger className="w-36 shrink-0" data-testid={`import-rule-action-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">{t('googleCalendarSync.rules.skip')}</SelectItem>
+                    <SelectItem value="service_type">{t('googleCalendarSync.rules.serviceType')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                {rule.action === 'service_type' && (
+                  <Select
+                    value={rule.service_type_id?.toString() ?? ''}
+                    onValueChange={(value) => updateRule(index, { service_type_id: parseInt(value) })}
+                  >
+                    <SelectTrigger className="w-40 shrink-0">
+                      <SelectValue placeholder={t('googleCalendarSync.rules.selectServiceType')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {serviceTypes?.map((serviceType) => (
+                        <SelectItem key={serviceType.id} value={serviceType.id.toString()}>
+                          {serviceType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => setImportRules((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label={t('googleCalendarSync.rules.remove')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {rulesError && <p className="text-sm text-destructive">{rulesError}</p>}
+          </div>
+
           <div className="flex items-center space-x-2">
             <Controller
               name="sync_enabled"
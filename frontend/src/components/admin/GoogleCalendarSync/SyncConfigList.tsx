@@ -1,12 +1,12 @@
 import { useTranslation } from 'react-i18next'
 import { format } from 'date-fns'
-import { Edit, Trash2, Download, Upload, ArrowLeftRight, Calendar, MapPin, CheckCircle, XCircle } from 'lucide-react'
+import { Edit, Trash2, Download, Upload, ArrowLeftRight, Calendar, MapPin, CheckCircle, XCircle, RefreshCw, Loader2 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import type { GoogleCalendarSyncConfig } from '@/types/googleCalendar'
+import type { GoogleCalendarSyncConfig, SyncHealth } from '@/types/googleCalendar'
 
 interface SyncConfigListProps {
   configs: GoogleCalendarSyncConfig[]
@@ -15,9 +15,29 @@ interface SyncConfigListProps {
   onDelete: (id: number) => void
   onImport: (config: GoogleCalendarSyncConfig) => void
   onExport: (config: GoogleCalendarSyncConfig) => void
+  onSyncNow: (config: GoogleCalendarSyncConfig) => void
+  syncingId?: number | null
 }
 
-export function SyncConfigList({ configs, isLoading, onEdit, onDelete, onImport, onExport }: SyncConfigListProps) {
+const HEALTH_BADGE_VARIANTS: Record<SyncHealth, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  healthy: 'default',
+  pending: 'outline',
+  degraded: 'secondary',
+  failing: 'destructive',
+  stale: 'destructive',
+  disabled: 'outline',
+}
+
+export function SyncConfigList({
+  configs,
+  isLoading,
+  onEdit,
+  onDelete,
+  onImport,
+  onExport,
+  onSyncNow,
+  syncingId,
+}: SyncConfigListProps) {
   const { t } = useTranslation(['admin', 'common'])
 
   if (isLoading) {
@@ -96,13 +116,15 @@ export function SyncConfigList({ configs, isLoading, onEdit, onDelete, onImport,
               <TableHead>{t('googleCalendarSync.room')}</TableHead>
               <TableHead>{t('googleCalendarSync.syncDirection')}</TableHead>
               <TableHead>{t('googleCalendarSync.syncStatus')}</TableHead>
+              <TableHead>{t('googleCalendarSync.health.label')}</TableHead>
               <TableHead>{t('googleCalendarSync.lastSync')}</TableHead>
+              <TableHead>{t('googleCalendarSync.nextRun')}</TableHead>
               <TableHead className="text-right">{t('common:actions')}</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {configs.map((config) => (
-              <TableRow key={config.id}>
+              <TableRow key={config.id} data-testid={`sync-config-row-${config.id}`}>
                 <TableCell className="font-medium">{config.name}</TableCell>
                 <TableCell>
                   <code className="text-xs bg-muted px-2 py-1 rounded">{config.google_calendar_id}</code>
@@ -136,8 +158,26 @@ export function SyncConfigList({ configs, isLoading, onEdit, onDelete, onImport,
                     </Badge>
                   )}
                 </TableCell>
+                <TableCell>
+                  <div className="space-y-1" title={config.last_error ?? undefined}>
+                    <Badge variant={HEALTH_BADGE_VARIANTS[config.health]} data-testid={`sync-config-health-${config.id}`}>
+                      {t(`googleCalendarSync.health.${config.health}`)}
+                    </Badge>
+                    {config.consecutive_failures > 0 && (
+                      <p className="text-xs text-destructive">
+                        {t('googleCalendarSync.consecutiveFailures', { count: config.consecutive_failures })}
+                      </p>
+                    )}
+                  </div>
+                </TableCell>
                 <TableCell>
                   <div className="text-sm space-y-1">
+                    {config.last_synced_at && (
+                      <div className="flex items-center gap-1 text-muted-foreground">
+                        <ArrowLeftRight className="h-3 w-3" />
+                        <span>{format(new Date(config.last_synced_at), 'yyyy-MM-dd HH:mm')}</span>
+                      </div>
+                    )}
                     {config.last_import_at && (
                       <div className="flex items-center gap-1 text-muted-foreground">
                         <Download className="h-3 w-3" />
@@ -150,19 +190,43 @@ export function SyncConfigList({ configs, isLoading, onEdit, onDelete, onImport,
                         <span>{format(new Date(config.last_export_at), 'yyyy-MM-dd HH:mm')}</span>
                       </div>
                     )}
-                    {!config.last_import_at && !config.last_export_at && (
+                    {!config.last_import_at && !config.last_export_at && !config.last_synced_at && (
                       <span className="text-muted-foreground">{t('common:never')}</span>
                     )}
                   </div>
                 </TableCell>
+                <TableCell className="text-sm text-muted-foreground" data-testid={`sync-config-next-run-${config.id}`}>
+                  {!config.sync_enabled
+                    ? '-'
+                    : config.next_sync_at && new Date(config.next_sync_at) > new Date()
+                      ? format(new Date(config.next_sync_at), 'yyyy-MM-dd HH:mm')
+                      : t('googleCalendarSync.due')}
+                </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
+                    {config.sync_enabled && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onSyncNow(config)}
+                        disabled={syncingId === config.id}
+                        title={t('googleCalendarSync.syncNow')}
+                        data-testid={`sync-config-sync-now-${config.id}`}
+                      >
+                        {syncingId === config.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
                     {config.sync_enabled && (config.sync_direction === 'import' || config.sync_direction === 'both') && (
                       <Button
                         variant="ghost"
                         size="sm"
                         onClick={() => onImport(config)}
                         title={t('googleCalendarSync.import')}
+                        data-testid={`sync-config-import-${config.id}`}
                       >
                         <Download className="h-4 w-4" />
                       </Button>
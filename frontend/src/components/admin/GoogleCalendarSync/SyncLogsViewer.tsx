@@ -1,6 +1,6 @@
 import { useTranslation } from 'react-i18next'
 import { format } from 'date-fns'
-import { Download, Upload, CheckCircle, XCircle, Clock, AlertTriangle, Loader2 } from 'lucide-react'
+import { Download, Upload, ArrowLeftRight, CheckCircle, XCircle, Clock, AlertTriangle, Loader2 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -85,6 +85,9 @@ export function SyncLogsViewer({ logs, isLoading, pagination }: SyncLogsViewerPr
   }
 
   const getOperationIcon = (operation: string) => {
+    if (operation === 'sync') {
+      return <ArrowLeftRight className="h-4 w-4" />
+    }
     return operation === 'import' ? <Download className="h-4 w-4" /> : <Upload className="h-4 w-4" />
   }
 
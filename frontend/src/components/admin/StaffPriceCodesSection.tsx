@@ -39,8 +39,11 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { useToast } from '@/hooks/use-toast'
-import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { PriceTimeline } from '@/components/pricing/PriceTimeline'
+import { Plus, Pencil, Trash2, History, List } from 'lucide-react'
 import type { StaffPriceCode, StaffPriceCodeFormData, ServiceType } from '@/types/serviceType'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
 
 // Validation schema
 const priceCodeSchema = z.object({
@@ -78,6 +81,7 @@ export function StaffPriceCodesSection({ staffProfileId }: StaffPriceCodesSectio
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingPriceCode, setEditingPriceCode] = useState<StaffPriceCode | null>(null)
   const [deleteConfirmId, setDeleteConfirmId] = useState<number | null>(null)
+  const [showTimeline, setShowTimeline] = useState(false)
 
   // Fetch staff price codes
   const { data: priceCodes, isLoading: isLoadingPriceCodes } = useQuery({
@@ -114,11 +118,11 @@ export function StaffPriceCodesSection({ staffProfileId }: StaffPriceCodesSectio
       toast({ title: t('admin:staffPriceCodes.createSuccess') })
       handleCloseModal()
     },
-    onError: () => {
+    onError: (error: AxiosError<ApiError>) => {
       toast({
         variant: 'destructive',
         title: t('common:error'),
-        description: t('admin:staffPriceCodes.createError'),
+        description: error.response?.data?.message ?? t('admin:staffPriceCodes.createError'),
       })
     },
   })
@@ -235,11 +239,17 @@ export function StaffPriceCodesSection({ staffProfileId }: StaffPriceCodesSectio
 
   const isPending = createMutation.isPending || updateMutation.isPending
 
-  // Get service types not yet assigned to this staff member
+  // A service type may get further price codes for later periods; the API rejects overlapping active ones
   const availableServiceTypes = serviceTypes?.filter(
-    (st: ServiceType) =>
-      st.is_active &&
-      (!priceCodes?.some((pc: StaffPriceCode) => pc.service_type_id === st.id) || editingPriceCode?.service_type_id === st.id)
+    (st: ServiceType) => st.is_active || editingPriceCode?.service_type_id === st.id
+  )
+
+  // One price history per service type
+  const timelines = Object.values(
+    (priceCodes ?? []).reduce<Record<number, StaffPriceCode[]>>((groups, pc) => {
+      groups[pc.service_type_id] = [...(groups[pc.service_type_id] ?? []), pc]
+      return groups
+    }, {})
   )
 
   if (isLoadingPriceCodes) {
@@ -260,13 +270,41 @@ export function StaffPriceCodesSection({ staffProfileId }: StaffPriceCodesSectio
       <Card>
         <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
           <CardTitle className="text-base sm:text-lg">{t('admin:staffPriceCodes.title')}</CardTitle>
-          <Button size="sm" onClick={handleOpenCreateModal} className="shrink-0">
-            <Plus className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">{t('admin:staffPriceCodes.add')}</span>
-          </Button>
+          <div className="flex gap-2 shrink-0">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowTimeline(!showTimeline)}
+              data-testid="staff-price-codes-timeline-toggle"
+            >
+              {showTimeline ? <List className="h-4 w-4 sm:mr-2" /> : <History className="h-4 w-4 sm:mr-2" />}
+              <span className="hidden sm:inline">
+                {showTimeline ? t('admin:priceTimeline.showList') : t('admin:priceTimeline.showTimeline')}
+              </span>
+            </Button>
+            <Button size="sm" onClick={handleOpenCreateModal}>
+              <Plus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t('admin:staffPriceCodes.add')}</span>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="px-2 sm:px-6">
-          {priceCodes && priceCodes.length > 0 ? (
+          {priceCodes && priceCodes.length > 0 && showTimeline ? (
+            <div className="space-y-3">
+              {timelines.map((codes) => (
+                <PriceTimeline
+                  key={codes[0].service_type_id}
+                  title={codes[0].service_type?.name ?? String(codes[0].service_type_id)}
+                  entries={codes.map((pc) => ({
+                    ...pc,
+                    label: `${pc.price_code || '-'} · ${new Date(pc.valid_from).toLocaleDateString('hu-HU')}`,
+                  }))}
+                  formatCurrency={formatCurrency}
+                  data-testid={`staff-price-timeline-${codes[0].service_type_id}`}
+                />
+              ))}
+            </div>
+          ) : priceCodes && priceCodes.length > 0 ? (
             <>
               {/* Mobile Card View */}
               <div className="sm:hidden space-y-3">
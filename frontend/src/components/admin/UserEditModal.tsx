@@ -27,7 +27,10 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useToast } from '@/hooks/use-toast'
 import { ClientPriceCodesSection } from './ClientPriceCodesSection'
+import { ClientPassesSection } from './ClientPassesSection'
+import { ClientLedgerSection } from './ClientLedgerSection'
 import { StaffPriceCodesSection } from './StaffPriceCodesSection'
+import { AvailabilityEditor } from '@/components/staff/AvailabilityEditor'
 import type { UserWithProfile, UpdateUserRequest } from '@/types/admin'
 import type { AxiosError } from 'axios'
 import type { ApiError } from '@/types/api'
@@ -77,7 +80,7 @@ export function UserEditModal({
   onOpenChange,
   onSuccess,
 }: UserEditModalProps) {
-  const { t } = useTranslation(['admin', 'common'])
+  const { t } = useTranslation(['admin', 'common', 'staff'])
   const { toast } = useToast()
   const queryClient = useQueryClient()
   const [showPasswordSection, setShowPasswordSection] = useState(false)
@@ -503,9 +506,11 @@ export function UserEditModal({
 
         {isClient && user.client?.id ? (
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="details" className="text-xs sm:text-sm">{t('admin:users.clientDetails', 'Client Details')}</TabsTrigger>
               <TabsTrigger value="pricing" className="text-xs sm:text-sm">{t('admin:clientPriceCodes.title', 'Price Codes')}</TabsTrigger>
+              <TabsTrigger value="passes" className="text-xs sm:text-sm">{t('admin:passes.manage.title', 'Passes')}</TabsTrigger>
+              <TabsTrigger value="balance" className="text-xs sm:text-sm" data-testid="client-balance-tab">{t('admin:ledger.title', 'Balance')}</TabsTrigger>
             </TabsList>
             <TabsContent value="details" className="mt-4">
               {renderBasicForm()}
@@ -513,12 +518,19 @@ export function UserEditModal({
             <TabsContent value="pricing" className="mt-4">
               <ClientPriceCodesSection clientId={user.client.id} />
             </TabsContent>
+            <TabsContent value="passes" className="mt-4">
+              <ClientPassesSection clientId={user.client.id} />
+            </TabsContent>
+            <TabsContent value="balance" className="mt-4">
+              <ClientLedgerSection clientId={user.client.id} />
+            </TabsContent>
           </Tabs>
         ) : isStaffWithProfile && user.staff_profile?.id ? (
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="details" className="text-xs sm:text-sm">{t('admin:users.staffDetails', 'Staff Details')}</TabsTrigger>
               <TabsTrigger value="pricing" className="text-xs sm:text-sm">{t('admin:staffPriceCodes.title', 'Price Codes')}</TabsTrigger>
+              <TabsTrigger value="availability" className="text-xs sm:text-sm">{t('staff:availability.title', 'Availability')}</TabsTrigger>
             </TabsList>
             <TabsContent value="details" className="mt-4">
               {renderBasicForm()}
@@ -526,6 +538,9 @@ export function UserEditModal({
             <TabsContent value="pricing" className="mt-4">
               <StaffPriceCodesSection staffProfileId={user.staff_profile.id} />
             </TabsContent>
+            <TabsContent value="availability" className="mt-4">
+              <AvailabilityEditor staffId={user.staff_profile.id} />
+            </TabsContent>
           </Tabs>
         ) : (
           renderBasicForm()
@@ -0,0 +1,118 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { eventsApi, eventKeys } from '@/api/events'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useToast } from '@/hooks/use-toast'
+import { Check, X } from 'lucide-react'
+import type { AxiosError } from 'axios'
+import type { ApiError } from '@/types/api'
+
+interface BookingRequestsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  showTrainer?: boolean
+}
+
+/**
+ * Individual sessions booked on the public site, waiting for the trainer to confirm
+ */
+export function BookingRequestsDialog({ open, onOpenChange, showTrainer }: BookingRequestsDialogProps) {
+  const { t, i18n } = useTranslation('calendar')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const { data: bookingRequests, isLoading } = useQuery({
+    queryKey: eventKeys.bookingRequests(),
+    queryFn: eventsApi.getBookingRequests,
+    enabled: open,
+  })
+
+  const onError = (error: AxiosError<ApiError>) => {
+    toast({
+      variant: 'destructive',
+      title: t('common.error'),
+      description: error.response?.data?.message || t('errors.updateFailed'),
+    })
+  }
+
+  const confirmMutation = useMutation({
+    mutationFn: (eventId: string) => eventsApi.confirmBooking(eventId),
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: eventKeys.all, type: 'active' })
+      toast({ title: t('bookingRequests.confirmed') })
+    },
+    onError,
+  })
+
+  const declineMutation = useMutation({
+    mutationFn: (eventId: string) => eventsApi.declineBooking(eventId),
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: eventKeys.all, type: 'active' })
+      toast({ title: t('bookingRequests.declined') })
+    },
+    onError,
+  })
+
+  const isPending = confirmMutation.isPending || declineMutation.isPending
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto" data-testid="booking-requests-dialog">
+        <DialogHeader>
+          <DialogTitle>{t('bookingRequests.title')}</DialogTitle>
+          <DialogDescription>{t('bookingRequests.description')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : !bookingRequests?.length ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">{t('bookingRequests.empty')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {bookingRequests.map(event => (
+              <li key={event.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-medium">{event.client?.user?.name || event.client?.full_name || '-'}</div>
+                  {showTrainer && event.staff?.user && (
+                    <div className="text-xs text-muted-foreground">{event.staff.user.name}</div>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">
+                    {format(new Date(event.starts_at), 'PPp', { locale })}–{format(new Date(event.ends_at), 'HH:mm')}
+                  </span>
+                  {event.service_type && <span className="text-muted-foreground">{event.service_type.name}</span>}
+                  {event.room && <span className="text-muted-foreground">({event.room.name})</span>}
+                </div>
+                {event.notes && <p className="text-sm italic text-muted-foreground">{event.notes}</p>}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => declineMutation.mutate(event.id)}
+                    disabled={isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    {t('bookingRequests.decline')}
+                  </Button>
+                  <Button size="sm" onClick={() => confirmMutation.mutate(event.id)} disabled={isPending}>
+                    <Check className="h-4 w-4 mr-1" />
+                    {t('bookingRequests.confirm')}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -12,8 +12,9 @@ import { Separator } from '@/components/ui/separator'
 import { Textarea } from '@/components/ui/textarea'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { useToast } from '@/hooks/use-toast'
-import { CheckCircle2, XCircle, Wrench } from 'lucide-react'
-import type { Event } from '@/types/event'
+import { CheckCircle2, XCircle, Wrench, Repeat } from 'lucide-react'
+import { RecurringScopeSelect } from './RecurringScopeSelect'
+import type { Event, RecurringScope } from '@/types/event'
 import type { AxiosError } from 'axios'
 import type { ApiError } from '@/types/api'
 
@@ -32,6 +33,7 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
   const { toast } = useToast()
   const queryClient = useQueryClient()
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [deleteScope, setDeleteScope] = useState<RecurringScope>('this')
   const [checkInNotes, setCheckInNotes] = useState('')
 
   const locale = i18n.language === 'hu' ? hu : undefined
@@ -59,16 +61,26 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
     }).format(amount) + ' Ft'
   }
 
-  // Delete mutation
+  // Delete mutation (recurring series: this / following / all events)
   const deleteMutation = useMutation({
-    mutationFn: () => isAdmin ? eventsApi.adminDelete(event.id) : eventsApi.delete(event.id),
-    onSuccess: async () => {
+    mutationFn: async (): Promise<number> => {
+      if (event.recurring_group_id && deleteScope !== 'this') {
+        const params = { scope: deleteScope, event_id: event.id }
+        const result = isAdmin
+          ? await eventsApi.adminDeleteGroup(event.recurring_group_id, params)
+          : await eventsApi.deleteGroup(event.recurring_group_id, params)
+        return result.deleted_count
+      }
+      await (isAdmin ? eventsApi.adminDelete(event.id) : eventsApi.delete(event.id))
+      return 1
+    },
+    onSuccess: async (deletedCount) => {
       // Refetch all event queries immediately
       await queryClient.refetchQueries({
         queryKey: eventKeys.all,
         type: 'active'
       })
-      toast({ title: t('success.deleted') })
+      toast({ title: deleteScope === 'this' ? t('success.deleted') : t('success.recurringDeleted', { count: deletedCount }) })
       onOpenChange(false)
       setDeleteDialogOpen(false)
       onEventUpdated?.()
@@ -82,6 +94,28 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
     },
   })
 
+  // Confirm / decline an online booking waiting for the trainer
+  const bookingDecisionMutation = useMutation({
+    mutationFn: (decision: 'confirm' | 'decline') =>
+      decision === 'confirm' ? eventsApi.confirmBooking(event.id) : eventsApi.declineBooking(event.id),
+    onSuccess: async (_, decision) => {
+      await queryClient.refetchQueries({
+        queryKey: eventKeys.all,
+        type: 'active'
+      })
+      toast({ title: decision === 'confirm' ? t('bookingRequests.confirmed') : t('bookingRequests.declined') })
+      onOpenChange(false)
+      onEventUpdated?.()
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      const { status, data } = error.response ?? {}
+      let errorMessage = t('errors.updateFailed')
+      if (status === 403) errorMessage = t('errors.forbidden')
+      else if (status === 422 && data?.message) errorMessage = data.message
+      toast({ variant: 'destructive', title: t('common.error'), description: errorMessage })
+    },
+  })
+
   // Check-in mutation - supports per-guest check-in with optional client_id and guest_index
   const checkInMutation = useMutation({
     mutationFn: ({ attended, clientId, guestIndex }: { attended: boolean; clientId?: number; guestIndex?: number }) =>
@@ -136,6 +170,8 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
   // Get status badge variant
   const getStatusBadgeVariant = (status: Event['status']): 'default' | 'secondary' | 'destructive' => {
     switch (status) {
+      case 'pending':
+        return 'secondary'
       case 'scheduled':
         return 'default'
       case 'completed':
@@ -162,6 +198,7 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
   }
 
   const handleDelete = () => {
+    setDeleteScope('this')
     setDeleteDialogOpen(true)
   }
 
@@ -183,11 +220,47 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
                 <Badge variant={getStatusBadgeVariant(event.status)} className="text-xs">
                   {t(`event.status.${event.status}`)}
                 </Badge>
+                {event.recurring_group_id && (
+                  <Badge variant="outline" className="text-xs">
+                    <Repeat className="h-3 w-3 mr-1" />
+                    {t('recurringScope.badge')}
+                  </Badge>
+                )}
               </div>
             </div>
           </DialogHeader>
 
           <div className="space-y-3 sm:space-y-4">
+            {/* Online booking waiting for confirmation */}
+            {event.status === 'pending' && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950 dark:border-amber-800 p-3 space-y-2" data-testid="event-pending-notice">
+                <p className="text-sm text-amber-800 dark:text-amber-200">{t('bookingRequests.pendingNotice')}</p>
+                {canEdit && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => bookingDecisionMutation.mutate('decline')}
+                      disabled={bookingDecisionMutation.isPending}
+                      data-testid="event-decline-booking-btn"
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      {t('bookingRequests.decline')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => bookingDecisionMutation.mutate('confirm')}
+                      disabled={bookingDecisionMutation.isPending}
+                      data-testid="event-confirm-booking-btn"
+                    >
+                      <CheckCircle2 className="h-4 w-4 mr-1" />
+                      {t('bookingRequests.confirm')}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Participants Information (for INDIVIDUAL events) */}
             {event.type === 'INDIVIDUAL' && (event.client || (event.additional_clients && event.additional_clients.length > 0) || (event.additionalClients && event.additionalClients.length > 0)) && (
               <div className="space-y-2">
@@ -837,6 +910,15 @@ export function EventDetailsModal({ event, open, onOpenChange, onEventUpdated, o
               {t('event.deleteConfirmMessage')}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {event.recurring_group_id && (
+            <RecurringScopeSelect
+              id="event-delete-scope"
+              label={t('recurringScope.deleteLabel')}
+              value={deleteScope}
+              onChange={setDeleteScope}
+              disabled={deleteMutation.isPending}
+            />
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel disabled={deleteMutation.isPending}>
               {t('actions.cancel')}
@@ -19,20 +19,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { MultiClientPicker } from './MultiClientPicker'
 import { StaffPicker } from './StaffPicker'
 import { RecurringPreviewDialog } from './RecurringPreviewDialog'
+import { RecurringScopeSelect } from './RecurringScopeSelect'
 import { useToast } from '@/hooks/use-toast'
-import type { Event, RecurringPreviewDate } from '@/types/event'
+import type { Event, RecurringPreviewDate, RecurringScope, RecurringGroupUpdateResponse } from '@/types/event'
 import type { AxiosError } from 'axios'
 import type { ApiError } from '@/types/api'
 import type { ServiceType } from '@/types/serviceType'
+import type { AvailabilityWarning } from '@/types/staff'
 
+// 409 details: room conflicts, or times outside working / opening hours
 interface ConflictData {
-  conflicts: Array<{
+  conflicts?: Array<{
     event_id: number
     event_type: string
     starts_at: string
     ends_at: string
     overlap_minutes: number
   }>
+  availability_warnings?: AvailabilityWarning[]
   requires_confirmation: boolean
 }
 
@@ -72,7 +76,10 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
     trainer_fee_brutto: number
     source: 'client_price_code' | 'service_type_default'
   } | null>(null)
-  const pendingUpdateRef = useRef<{ id: string; updates: any } | null>(null)
+  // Which events of a recurring series an edit applies to
+  const [editScope, setEditScope] = useState<RecurringScope>('this')
+  const pendingUpdateRef = useRef<{ id: string; updates: any; scope?: RecurringScope } | null>(null)
+  const pendingCreateRef = useRef<any>(null)
   // Track if we've initialized for the current open session to avoid re-resetting on re-renders
   const hasInitializedRef = useRef(false)
   const isEditMode = !!editingEvent
@@ -91,6 +98,7 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
   })
 
   const selectedType = form.watch('type')
+  const selectedStartsAt = form.watch('starts_at')
 
   const { data: rooms, isLoading: roomsLoading } = useQuery({
     queryKey: roomKeys.list(),
@@ -122,7 +130,8 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
       }
 
       try {
-        const pricing = await pricingResolveApi.resolveByIds(firstRealClientId, selectedServiceTypeId)
+        // Price at the session date, a scheduled price change may apply by then
+        const pricing = await pricingResolveApi.resolveByIds(firstRealClientId, selectedServiceTypeId, selectedStartsAt || undefined)
         setResolvedPricing({
           entry_fee_brutto: pricing.entry_fee_brutto,
           trainer_fee_brutto: pricing.trainer_fee_brutto,
@@ -142,12 +151,13 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
     }
 
     resolvePrice()
-  }, [selectedClientIds, selectedServiceTypeId, selectedType, serviceTypes])
+  }, [selectedClientIds, selectedServiceTypeId, selectedType, selectedStartsAt, serviceTypes])
 
   // Populate form when editing
   useEffect(() => {
     if (editingEvent && open) {
       hasInitializedRef.current = true
+      setEditScope('this')
       form.setValue('type', editingEvent.type)
       if (editingEvent.room_id) {
         form.setValue('room_id', editingEvent.room_id.toString())
@@ -256,10 +266,19 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
       setSelectedClientIds([])
       setSelectedServiceTypeId(null)
       setResolvedPricing(null)
+      pendingCreateRef.current = null
       onSuccess?.()
     },
-    onError: (error: AxiosError<ApiError>) => {
+    onError: (error: AxiosError<ApiError & { errors?: ConflictData }>) => {
       const { status, data } = error.response ?? {}
+
+      // Outside working / opening hours: ask before creating anyway
+      if (status === 409 && data?.errors?.requires_confirmation) {
+        setConflictData(data.errors)
+        setShowConflictDialog(true)
+        return
+      }
+
       let errorMessage = t('errors.createFailed')
       if (status === 409) errorMessage = t('errors.conflict')
       else if (status === 422 && data?.message) errorMessage = data.message
@@ -269,12 +288,22 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
   })
 
   const updateMutation = useMutation({
-    mutationFn: (data: { id: string; updates: any }) =>
-      isAdmin ? eventsApi.adminUpdate(data.id, data.updates) : eventsApi.update(data.id, data.updates),
-    onSuccess: async () => {
+    mutationFn: (data: { id: string; updates: any; scope?: RecurringScope }): Promise<Event | RecurringGroupUpdateResponse> => {
+      // Series edit (this and following / all) goes through the recurring group endpoint
+      const groupId = editingEvent?.recurring_group_id
+      if (groupId && data.scope && data.scope !== 'this') {
+        return isAdmin ? eventsApi.adminUpdateGroup(groupId, data.updates) : eventsApi.updateGroup(groupId, data.updates)
+      }
+      return isAdmin ? eventsApi.adminUpdate(data.id, data.updates) : eventsApi.update(data.id, data.updates)
+    },
+    onSuccess: async (result, variables) => {
       // Invalidate and refetch all event queries
       await queryClient.invalidateQueries({ queryKey: eventKeys.all })
-      toast({ title: t('success.updated') })
+      if (variables.scope && variables.scope !== 'this') {
+        toast({ title: t('success.recurringUpdated', { count: (result as RecurringGroupUpdateResponse).count }) })
+      } else {
+        toast({ title: t('success.updated') })
+      }
       onOpenChange(false)
       form.reset()
       setSelectedClientName('')
@@ -363,13 +392,22 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
   })
 
   // Handle force override after user confirms
+  // The flag is kept on the pending request, a room conflict and an availability warning may both need confirming
   const handleForceOverride = () => {
-    if (pendingUpdateRef.current) {
-      const { id, updates } = pendingUpdateRef.current
+    const override = conflictData?.availability_warnings ? { ignore_availability: true } : { force_override: true }
+
+    if (pendingCreateRef.current) {
+      pendingCreateRef.current = { ...pendingCreateRef.current, ...override }
+      setShowConflictDialog(false)
+      setConflictData(null)
+      createMutation.mutate(pendingCreateRef.current)
+    } else if (pendingUpdateRef.current) {
+      const { id, updates, scope } = pendingUpdateRef.current
+      pendingUpdateRef.current = { id, updates: { ...updates, ...override }, scope }
       // Close dialog first, then mutate - the mutation's onSuccess will handle the rest
       setShowConflictDialog(false)
       setConflictData(null)
-      updateMutation.mutate({ id, updates: { ...updates, force_override: true } })
+      updateMutation.mutate(pendingUpdateRef.current)
     } else {
       setShowConflictDialog(false)
       setConflictData(null)
@@ -380,6 +418,7 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
     setShowConflictDialog(false)
     setConflictData(null)
     pendingUpdateRef.current = null
+    pendingCreateRef.current = null
   }
 
   // Helper to check if date is in the past
@@ -399,6 +438,22 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
       const startsAt = new Date(data.starts_at)
       const endsAt = new Date(startsAt.getTime() + data.duration_minutes * 60000)
 
+      // Series edit: only room, time and notes are applied to the selected events
+      if (editingEvent.recurring_group_id && editScope !== 'this') {
+        const groupUpdates = {
+          event_id: editingEvent.id.toString(),
+          scope: editScope,
+          room_id: parseInt(data.room_id),
+          starts_at: formatLocalDateTime(startsAt),
+          ends_at: formatLocalDateTime(endsAt),
+          notes: data.notes || null,
+        }
+        pendingCreateRef.current = null
+        pendingUpdateRef.current = { id: editingEvent.id.toString(), updates: groupUpdates, scope: editScope }
+        updateMutation.mutate(pendingUpdateRef.current)
+        return
+      }
+
       const updates: any = {
         type: data.type,
         room_id: parseInt(data.room_id),
@@ -434,6 +489,7 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
       }
 
       // Store the pending update for potential force override
+      pendingCreateRef.current = null
       pendingUpdateRef.current = { id: editingEvent.id.toString(), updates }
       updateMutation.mutate({ id: editingEvent.id.toString(), updates })
     } else {
@@ -472,6 +528,8 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
         }
       }
 
+      pendingUpdateRef.current = null
+      pendingCreateRef.current = createData
       createMutation.mutate(createData)
     }
   }
@@ -762,6 +820,22 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
             {form.formState.errors.notes && (<p className="text-sm text-destructive">{t(form.formState.errors.notes.message ?? '')}</p>)}
           </div>
 
+          {/* Recurring series edit scope (edit mode only) */}
+          {isEditMode && editingEvent?.recurring_group_id && (
+            <div className="space-y-2 pt-4 border-t">
+              <RecurringScopeSelect
+                id="event-edit-scope"
+                label={t('recurringScope.editLabel')}
+                value={editScope}
+                onChange={setEditScope}
+                disabled={isPending}
+              />
+              {editScope !== 'this' && (
+                <p className="text-xs text-muted-foreground">{t('recurringScope.editHint')}</p>
+              )}
+            </div>
+          )}
+
           {/* Recurring Event (only for INDIVIDUAL type and create mode) */}
           {!isEditMode && selectedType === 'INDIVIDUAL' && (
             <>
@@ -833,9 +907,20 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
     <AlertDialog open={showConflictDialog} onOpenChange={setShowConflictDialog}>
       <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>{t('conflict.title')}</AlertDialogTitle>
+          <AlertDialogTitle>
+            {conflictData?.availability_warnings ? t('availability.warningTitle') : t('conflict.title')}
+          </AlertDialogTitle>
           <AlertDialogDescription>
-            {t('conflict.message')}
+            {conflictData?.availability_warnings ? t('availability.warningMessage') : t('conflict.message')}
+            {conflictData?.availability_warnings && (
+              <ul className="mt-2 text-sm" data-testid="availability-warnings">
+                {conflictData.availability_warnings.map((warning, index) => (
+                  <li key={index} className="py-1">
+                    • {t(`availability.warnings.${warning.code}`, { defaultValue: warning.message })}
+                  </li>
+                ))}
+              </ul>
+            )}
             {conflictData?.conflicts && conflictData.conflicts.length > 0 && (
               <ul className="mt-2 text-sm">
                 {conflictData.conflicts.map((conflict, index) => (
@@ -850,8 +935,8 @@ export function EventFormModal({ open, onOpenChange, initialData, editingEvent,
         </AlertDialogHeader>
         <AlertDialogFooter>
           <AlertDialogCancel onClick={handleCancelConflict}>{t('actions.cancel')}</AlertDialogCancel>
-          <Button onClick={handleForceOverride} disabled={updateMutation.isPending}>
-            {updateMutation.isPending ? t('common.loading') : t('conflict.continueAnyway')}
+          <Button onClick={handleForceOverride} disabled={updateMutation.isPending || createMutation.isPending}>
+            {updateMutation.isPending || createMutation.isPending ? t('common.loading') : t('conflict.continueAnyway')}
           </Button>
         </AlertDialogFooter>
       </AlertDialogContent>
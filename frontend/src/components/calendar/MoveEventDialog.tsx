@@ -0,0 +1,266 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { eventsApi, eventKeys } from '@/api/events'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { useToast } from '@/hooks/use-toast'
+import { AlertTriangle, ArrowRight, CheckCircle2, Mail, Users } from 'lucide-react'
+import type { Event, MoveEventRequest } from '@/types/event'
+import type { AxiosError } from 'axios'
+import type { ApiError } from '@/types/api'
+import type { AvailabilityWarning } from '@/types/staff'
+
+interface MoveEventDialogProps {
+  event: Event
+  newStart: Date
+  newEnd: Date
+  newRoomId?: string
+  open: boolean
+  isAdmin: boolean
+  onClose: (moved: boolean) => void
+}
+
+// Format dates without timezone offset (local time), same as the drag & drop update
+const formatLocalDateTime = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm:ss")
+
+export function MoveEventDialog({ event, newStart, newEnd, newRoomId, open, isAdmin, onClose }: MoveEventDialogProps) {
+  const { t, i18n } = useTranslation('calendar')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const locale = i18n.language === 'hu' ? hu : enUS
+  const [reason, setReason] = useState('')
+  const [notifyClients, setNotifyClients] = useState(true)
+  // Set when the admin move fell outside working or opening hours and needs confirming
+  const [availabilityWarnings, setAvailabilityWarnings] = useState<AvailabilityWarning[] | null>(null)
+
+  const moveData: MoveEventRequest = {
+    starts_at: formatLocalDateTime(newStart),
+    ends_at: formatLocalDateTime(newEnd),
+    ...(newRoomId ? { room_id: newRoomId } : {}),
+  }
+
+  const { data: preview, isLoading: isLoadingPreview } = useQuery({
+    queryKey: eventKeys.movePreview(event.id, moveData),
+    queryFn: () => eventsApi.previewMove(event.id, moveData),
+    enabled: open,
+  })
+
+  const handleError = (error: AxiosError<ApiError>) => {
+    const { status, data } = error.response ?? {}
+    let errorMessage = t('errors.updateFailed')
+    if (status === 409) errorMessage = data?.message || t('errors.conflict')
+    else if (status === 422 && data?.message) errorMessage = data.message
+    else if (status === 423) errorMessage = t('errors.locked')
+    toast({ variant: 'destructive', title: t('common.error'), description: errorMessage })
+  }
+
+  // Admin: apply the move directly (with optional client notification)
+  const adminMoveMutation = useMutation({
+    mutationFn: (ignoreAvailability: boolean) => eventsApi.adminUpdate(event.id, {
+      ...moveData,
+      force_override: true,
+      notify_clients: notifyClients,
+      ...(ignoreAvailability ? { ignore_availability: true } : {}),
+    }),
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: eventKeys.all, type: 'active' })
+      toast({ title: t('success.updated') })
+      onClose(true)
+    },
+    onError: (error: AxiosError<ApiError & { errors?: { availability_warnings?: AvailabilityWarning[]; requires_confirmation?: boolean } }>) => {
+      const { status, data } = error.response ?? {}
+      if (status === 409 && data?.errors?.availability_warnings) {
+        setAvailabilityWarnings(data.errors.availability_warnings)
+        return
+      }
+      handleError(error)
+    },
+  })
+
+  // Staff: submit a move request for admin approval
+  const requestMoveMutation = useMutation({
+    mutationFn: () => eventsApi.requestMove(event.id, { ...moveData, reason: reason || undefined }),
+    onSuccess: () => {
+      toast({ title: t('moveDialog.requestSent'), description: t('moveDialog.requestSentDescription') })
+      onClose(false)
+    },
+    onError: handleError,
+  })
+
+  const isPending = adminMoveMutation.isPending || requestMoveMutation.isPending
+  const hasConflicts = (preview?.conflicts.length ?? 0) > 0
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isPending && onClose(false)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('moveDialog.title')}</DialogTitle>
+          <DialogDescription>
+            {isAdmin ? t('moveDialog.adminDescription') : t('moveDialog.staffDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Old -> new time */}
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {format(new Date(event.starts_at), 'PPp', { locale })}
+            </span>
+            <ArrowRight className="h-4 w-4 shrink-0" />
+            <span className="font-medium">{format(newStart, 'PPp', { locale })}</span>
+          </div>
+
+          {isLoadingPreview || !preview ? (
+            <div className="space-y-2">
+              <Skeleton className="h-5 w-40" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : (
+            <>
+              {/* Affected clients */}
+              <div className="space-y-1">
+                <Label className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  {t('moveDialog.affectedClients')}
+                </Label>
+                {preview.affected_clients.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('moveDialog.noClients')}</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {preview.affected_clients.map(client => (
+                      <li key={client.id} className="flex items-center gap-2">
+                        <span>{client.is_technical_guest ? t('event.technicalGuest') : client.name}</span>
+                        {client.email && <span className="text-muted-foreground">({client.email})</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Conflict check result */}
+              <div className="space-y-1">
+                <Label>{t('moveDialog.conflictCheck')}</Label>
+                {hasConflicts ? (
+                  <div className="rounded-md border border-yellow-300 bg-yellow-50 p-2 text-sm text-yellow-800">
+                    <div className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="h-4 w-4" />
+                      {t('moveDialog.conflictsFound', { count: preview.conflicts.length })}
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {preview.conflicts.map(conflict => (
+                        <li key={`${conflict.event_type}-${conflict.event_id}`}>
+                          {format(new Date(conflict.starts_at), 'HH:mm')}–{format(new Date(conflict.ends_at), 'HH:mm')}
+                          {' · '}
+                          {conflict.overlap_minutes} {t('conflict.minutesOverlap')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <p className="flex items-center gap-2 text-sm text-green-600">
+                    <CheckCircle2 className="h-4 w-4" />
+                    {t('moveDialog.noConflicts')}
+                  </p>
+                )}
+              </div>
+
+              {/* Admin: outside working or opening hours, confirmed with the move button */}
+              {availabilityWarnings && (
+                <div
+                  className="rounded-md border border-yellow-300 bg-yellow-50 p-2 text-sm text-yellow-800"
+                  data-testid="move-availability-warnings"
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    {t('availability.warningTitle')}
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {availabilityWarnings.map((warning, index) => (
+                      <li key={index}>
+                        • {t(`availability.warnings.${warning.code}`, { defaultValue: warning.message })}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Emails to be sent */}
+              <div className="space-y-1">
+                <Label className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  {t('moveDialog.notifications')}
+                </Label>
+                {preview.notifications.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('moveDialog.noNotifications')}</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {preview.notifications.map(notification => (
+                      <li key={`${notification.template}-${notification.client_id}`} className="flex items-center gap-2">
+                        <Badge variant="outline">{t(`moveDialog.templates.${notification.template}`)}</Badge>
+                        <span>{notification.recipient_email}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {isAdmin && preview.notifications.length > 0 && (
+                  <div className="flex items-center gap-2 pt-1">
+                    <Checkbox
+                      id="move-notify-clients"
+                      checked={notifyClients}
+                      onCheckedChange={(checked) => setNotifyClients(checked === true)}
+                    />
+                    <Label htmlFor="move-notify-clients" className="font-normal">
+                      {t('moveDialog.notifyClients')}
+                    </Label>
+                  </div>
+                )}
+                {!isAdmin && preview.notifications.length > 0 && (
+                  <p className="text-xs text-muted-foreground">{t('moveDialog.sentAfterApproval')}</p>
+                )}
+              </div>
+
+              {/* Staff: reason for the request */}
+              {!isAdmin && (
+                <div className="space-y-1">
+                  <Label htmlFor="move-reason">{t('moveDialog.reason')}</Label>
+                  <Textarea
+                    id="move-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={t('moveDialog.reasonPlaceholder')}
+                    maxLength={1000}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onClose(false)} disabled={isPending}>
+            {t('actions.cancel')}
+          </Button>
+          {isAdmin ? (
+            <Button onClick={() => adminMoveMutation.mutate(!!availabilityWarnings)} disabled={isPending || !preview}>
+              {isPending
+                ? t('common.loading')
+                : availabilityWarnings ? t('moveDialog.moveAnyway') : t('moveDialog.confirmMove')}
+            </Button>
+          ) : (
+            <Button onClick={() => requestMoveMutation.mutate()} disabled={isPending || !preview}>
+              {isPending ? t('common.loading') : t('moveDialog.requestMove')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { eventsApi, eventKeys } from '@/api/events'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useToast } from '@/hooks/use-toast'
+import { AlertTriangle, ArrowRight, Check, X } from 'lucide-react'
+import type { EventMoveRequest, MovePreviewConflict } from '@/types/event'
+import type { AxiosError } from 'axios'
+import type { ApiError } from '@/types/api'
+
+interface MoveRequestsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Admin review of cross-day move requests submitted by staff
+ */
+export function MoveRequestsDialog({ open, onOpenChange }: MoveRequestsDialogProps) {
+  const { t, i18n } = useTranslation('calendar')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const { data: moveRequests, isLoading } = useQuery({
+    queryKey: eventKeys.moveRequests('pending'),
+    queryFn: () => eventsApi.getMoveRequests('pending'),
+    enabled: open,
+  })
+
+  const onError = (error: AxiosError<ApiError>) => {
+    toast({
+      variant: 'destructive',
+      title: t('common.error'),
+      description: error.response?.data?.message || t('errors.updateFailed'),
+    })
+  }
+
+  // Conflicts found when approving: the slot was taken since the request was filed
+  const [conflictsByRequest, setConflictsByRequest] = useState<Record<number, MovePreviewConflict[]>>({})
+
+  const approveMutation = useMutation({
+    mutationFn: ({ requestId, force }: { requestId: number; force?: boolean }) =>
+      eventsApi.approveMoveRequest(requestId, { notify_clients: true, ...(force ? { force_override: true } : {}) }),
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: eventKeys.all, type: 'active' })
+      toast({ title: t('moveRequests.approved') })
+    },
+    onError: (error: AxiosError<ApiError & { errors?: { conflicts?: MovePreviewConflict[]; requires_confirmation?: boolean } }>, { requestId }) => {
+      const { status, data } = error.response ?? {}
+      if (status === 409 && data?.errors?.requires_confirmation) {
+        setConflictsByRequest((prev) => ({ ...prev, [requestId]: data.errors?.conflicts ?? [] }))
+        return
+      }
+      onError(error)
+    },
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: (requestId: number) => eventsApi.rejectMoveRequest(requestId),
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: eventKeys.moveRequests('pending') })
+      toast({ title: t('moveRequests.rejected') })
+    },
+    onError,
+  })
+
+  const isPending = approveMutation.isPending || rejectMutation.isPending
+
+  const getClientName = (request: EventMoveRequest) =>
+    request.event?.client?.user?.name || t(`event.eventType.${request.event?.type ?? 'INDIVIDUAL'}`)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('moveRequests.title')}</DialogTitle>
+          <DialogDescription>{t('moveRequests.description')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : !moveRequests?.length ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">{t('moveRequests.empty')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {moveRequests.map(request => (
+              <li key={request.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-medium">{getClientName(request)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {t('moveRequests.requestedBy', { name: request.requester?.name ?? '-' })}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    {format(new Date(request.original_starts_at), 'PPp', { locale })}
+                  </span>
+                  <ArrowRight className="h-4 w-4 shrink-0" />
+                  <span className="font-medium">{format(new Date(request.new_starts_at), 'PPp', { locale })}</span>
+                  {request.new_room && <span className="text-muted-foreground">({request.new_room.name})</span>}
+                </div>
+                {request.reason && <p className="text-sm italic text-muted-foreground">{request.reason}</p>}
+                {conflictsByRequest[request.id] && (
+                  <div
+                    className="rounded-md border border-yellow-300 bg-yellow-50 p-2 text-sm text-yellow-800"
+                    data-testid={`move-request-conflicts-${request.id}`}
+                  >
+                    <div className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="h-4 w-4" />
+                      {t('moveRequests.slotTaken')}
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {conflictsByRequest[request.id].map(conflict => (
+                        <li key={`${conflict.event_type}-${conflict.event_id}`}>
+                          {format(new Date(conflict.starts_at), 'HH:mm')}–{format(new Date(conflict.ends_at), 'HH:mm')}
+                          {' · '}
+                          {conflict.title}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rejectMutation.mutate(request.id)}
+                    disabled={isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    {t('moveRequests.reject')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => approveMutation.mutate({ requestId: request.id, force: !!conflictsByRequest[request.id] })}
+                    disabled={isPending}
+                    data-testid={`move-request-approve-${request.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    {conflictsByRequest[request.id] ? t('moveRequests.approveAnyway') : t('moveRequests.approve')}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,35 @@
+import { useTranslation } from 'react-i18next'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { RecurringScope } from '@/types/event'
+
+interface RecurringScopeSelectProps {
+  id: string
+  label: string
+  value: RecurringScope
+  onChange: (scope: RecurringScope) => void
+  disabled?: boolean
+}
+
+/**
+ * "This event / this and following / whole series" choice for recurring events
+ */
+export function RecurringScopeSelect({ id, label, value, onChange, disabled }: RecurringScopeSelectProps) {
+  const { t } = useTranslation('calendar')
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={(scope) => onChange(scope as RecurringScope)} disabled={disabled}>
+        <SelectTrigger id={id} data-testid={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="this">{t('recurringScope.this')}</SelectItem>
+          <SelectItem value="following">{t('recurringScope.following')}</SelectItem>
+          <SelectItem value="all">{t('recurringScope.all')}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
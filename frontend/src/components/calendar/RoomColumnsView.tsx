@@ -0,0 +1,320 @@
+import { useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { addMinutes, differenceInMinutes, format, isSameDay, parseISO, startOfDay } from 'date-fns'
+import { cn } from '@/lib/utils'
+import type { Event } from '@/types/event'
+import type { ClassOccurrence } from '@/types/class'
+import type { Room } from '@/api/rooms'
+import type { ShadedRange } from '@/lib/availability'
+
+// Grid geometry (matches the 30 minute slots of the FullCalendar time grid)
+const SLOT_MINUTES = 30
+const SLOT_HEIGHT = 32 // px per slot
+const SNAP_MINUTES = 15
+
+export type RoomColumnItem =
+  | { kind: 'event'; event: Event }
+  | { kind: 'class'; classOccurrence: ClassOccurrence }
+
+export interface RoomColumnMove {
+  item: RoomColumnItem
+  newStart: Date
+  newEnd: Date
+  newRoomId: string
+}
+
+interface RoomColumnsViewProps {
+  date: Date
+  rooms: Room[]
+  events: Event[]
+  classOccurrences: ClassOccurrence[]
+  slotMinHour?: number
+  slotMaxHour?: number
+  getEventTitle: (event: Event) => string
+  canMoveItem: (item: RoomColumnItem) => boolean
+  getEditingBy?: (item: RoomColumnItem) => string[] // Other users editing the item right now
+  getShadedRanges?: (roomId: string) => ShadedRange[] // Closed / trainer unavailable times of the day
+  onItemClick: (item: RoomColumnItem) => void
+  onItemMove: (move: RoomColumnMove) => void
+}
+
+interface PositionedItem {
+  key: string
+  item: RoomColumnItem
+  start: Date
+  end: Date
+  title: string
+  subtitle: string
+  lane: number
+  laneCount: number
+}
+
+const getItemTimes = (item: RoomColumnItem): { start: Date; end: Date } => {
+  const source = item.kind === 'event' ? item.event : item.classOccurrence
+  return { start: parseISO(source.starts_at), end: parseISO(source.ends_at) }
+}
+
+const getItemRoomId = (item: RoomColumnItem): string =>
+  String(item.kind === 'event' ? item.event.room_id : item.classOccurrence.room_id)
+
+/**
+ * Assign overlapping items of one room to side-by-side lanes
+ */
+const assignLanes = (items: Omit<PositionedItem, 'lane' | 'laneCount'>[]): PositionedItem[] => {
+  const sorted = [...items].sort((a, b) => a.start.getTime() - b.start.getTime())
+  const result: PositionedItem[] = []
+  let cluster: PositionedItem[] = []
+  let clusterEnd = 0
+
+  const flush = () => {
+    const laneCount = cluster.reduce((max, i) => Math.max(max, i.lane + 1), 1)
+    cluster.forEach(i => result.push({ ...i, laneCount }))
+    cluster = []
+  }
+
+  for (const item of sorted) {
+    if (cluster.length > 0 && item.start.getTime() >= clusterEnd) {
+      flush()
+    }
+    const usedLanes = new Set(
+      cluster.filter(c => c.end.getTime() > item.start.getTime()).map(c => c.lane)
+    )
+    let lane = 0
+    while (usedLanes.has(lane)) lane++
+    cluster.push({ ...item, lane, laneCount: 1 })
+    clusterEnd = Math.max(clusterEnd, item.end.getTime())
+  }
+  flush()
+
+  return result
+}
+
+/**
+ * Day view with one column per room.
+ * Items can be dragged vertically (time) and horizontally (room).
+ */
+export function RoomColumnsView({
+  date,
+  rooms,
+  events,
+  classOccurrences,
+  slotMinHour = 6,
+  slotMaxHour = 22,
+  getEventTitle,
+  canMoveItem,
+  getEditingBy,
+  getShadedRanges,
+  onItemClick,
+  onItemMove,
+}: RoomColumnsViewProps) {
+  const { t } = useTranslation('calendar')
+  const dragRef = useRef<{ item: RoomColumnItem; grabOffsetMinutes: number } | null>(null)
+  const [dropRoomId, setDropRoomId] = useState<string | null>(null)
+
+  const dayStart = useMemo(() => addMinutes(startOfDay(date), slotMinHour * 60), [date, slotMinHour])
+  const slotCount = ((slotMaxHour - slotMinHour) * 60) / SLOT_MINUTES
+  const columnHeight = slotCount * SLOT_HEIGHT
+
+  const minutesToPx = (minutes: number) => (minutes / SLOT_MINUTES) * SLOT_HEIGHT
+  const pxToMinutes = (px: number) => (px / SLOT_HEIGHT) * SLOT_MINUTES
+
+  // Group the day's items per room and lay them out in lanes
+  const itemsByRoom = useMemo(() => {
+    const all: RoomColumnItem[] = [
+      ...events.map(event => ({ kind: 'event' as const, event })),
+      ...classOccurrences.map(classOccurrence => ({ kind: 'class' as const, classOccurrence })),
+    ]
+
+    const grouped = new Map<string, Omit<PositionedItem, 'lane' | 'laneCount'>[]>()
+    for (const item of all) {
+      const { start, end } = getItemTimes(item)
+      if (!isSameDay(start, date)) continue
+
+      const roomId = getItemRoomId(item)
+      const entry = item.kind === 'event'
+        ? {
+            key: `event-${item.event.id}`,
+            title: getEventTitle(item.event),
+            subtitle: item.event.staff?.user?.name ?? '',
+          }
+        : {
+            key: `class-${item.classOccurrence.id}`,
+            title: item.classOccurrence.class_template?.title
+              || item.classOccurrence.class_template?.name
+              || t('event.eventType.GROUP_CLASS'),
+            subtitle: item.classOccurrence.trainer?.user?.name ?? '',
+          }
+
+      const list = grouped.get(roomId) ?? []
+      list.push({ ...entry, item, start, end })
+      grouped.set(roomId, list)
+    }
+
+    const laidOut = new Map<string, PositionedItem[]>()
+    grouped.forEach((list, roomId) => laidOut.set(roomId, assignLanes(list)))
+    return laidOut
+  }, [events, classOccurrences, date, getEventTitle, t])
+
+  const timeLabels = Array.from({ length: slotCount }, (_, i) => addMinutes(dayStart, i * SLOT_MINUTES))
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, positioned: PositionedItem) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    dragRef.current = {
+      item: positioned.item,
+      grabOffsetMinutes: pxToMinutes(e.clientY - rect.top),
+    }
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', positioned.key)
+  }
+
+  const handleDragEnd = () => {
+    dragRef.current = null
+    setDropRoomId(null)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, roomId: string) => {
+    e.preventDefault()
+    const drag = dragRef.current
+    handleDragEnd()
+    if (!drag) return
+
+    const rect = e.currentTarget.getBoundingClientRect()
+    const { start, end } = getItemTimes(drag.item)
+    const duration = differenceInMinutes(end, start)
+
+    // Snap the new start to the grid and keep it inside the visible day
+    const rawMinutes = pxToMinutes(e.clientY - rect.top) - drag.grabOffsetMinutes
+    const maxMinutes = (slotMaxHour - slotMinHour) * 60 - duration
+    const snapped = Math.round(rawMinutes / SNAP_MINUTES) * SNAP_MINUTES
+    const offsetMinutes = Math.min(Math.max(snapped, 0), Math.max(maxMinutes, 0))
+
+    const newStart = addMinutes(dayStart, offsetMinutes)
+    const newEnd = addMinutes(newStart, duration)
+
+    if (roomId === getItemRoomId(drag.item) && newStart.getTime() === start.getTime()) {
+      return
+    }
+
+    onItemMove({ item: drag.item, newStart, newEnd, newRoomId: roomId })
+  }
+
+  if (rooms.length === 0) {
+    return (
+      <div className="py-12 text-center text-muted-foreground">{t('roomColumns.noRooms')}</div>
+    )
+  }
+
+  return (
+    <div className="flex min-w-max" data-testid="room-columns-view">
+      {/* Time axis */}
+      <div className="w-14 shrink-0">
+        <div className="h-10 border-b" />
+        <div className="relative" style={{ height: columnHeight }}>
+          {timeLabels.map((slot, i) => (
+            <div
+              key={i}
+              className="absolute right-1 -translate-y-1/2 text-xs text-muted-foreground"
+              style={{ top: i * SLOT_HEIGHT }}
+            >
+              {slot.getMinutes() === 0 ? format(slot, 'HH:mm') : ''}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {rooms.map(room => {
+        const roomId = String(room.id)
+        const roomColor = room.color || '#3b82f6'
+        const items = itemsByRoom.get(roomId) ?? []
+
+        return (
+          <div key={roomId} className="w-40 sm:w-48 shrink-0 border-l">
+            <div className="h-10 px-2 flex items-center gap-2 border-b text-sm font-medium">
+              <span className="inline-block w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: roomColor }} />
+              <span className="truncate">{room.name}</span>
+            </div>
+            <div
+              className={cn('relative', dropRoomId === roomId && 'bg-accent/40')}
+              style={{ height: columnHeight }}
+              onDragOver={(e) => {
+                if (!dragRef.current) return
+                e.preventDefault()
+                e.dataTransfer.dropEffect = 'move'
+                if (dropRoomId !== roomId) setDropRoomId(roomId)
+              }}
+              onDrop={(e) => handleDrop(e, roomId)}
+            >
+              {/* Slot lines */}
+              {timeLabels.map((slot, i) => (
+                <div
+                  key={i}
+                  className={cn('absolute inset-x-0 border-t', slot.getMinutes() === 0 ? 'border-border' : 'border-dashed border-border/50')}
+                  style={{ top: i * SLOT_HEIGHT }}
+                />
+              ))}
+
+              {/* Closed / unavailable times */}
+              {getShadedRanges?.(roomId).map((range, i) => {
+                const top = Math.max(minutesToPx(differenceInMinutes(range.start, dayStart)), 0)
+                const bottom = Math.min(minutesToPx(differenceInMinutes(range.end, dayStart)), columnHeight)
+                if (bottom <= top) return null
+                return (
+                  <div
+                    key={`shade-${i}`}
+                    className={cn('absolute inset-x-0 pointer-events-none', range.reason === 'closed' ? 'calendar-closed-hours' : 'calendar-unavailable')}
+                    style={{ top, height: bottom - top }}
+                    data-testid="room-column-shade"
+                  />
+                )
+              })}
+
+              {items.map(positioned => {
+                const top = minutesToPx(differenceInMinutes(positioned.start, dayStart))
+                const height = Math.max(minutesToPx(differenceInMinutes(positioned.end, positioned.start)), 16)
+                const width = 100 / positioned.laneCount
+                const movable = canMoveItem(positioned.item)
+                const editingBy = getEditingBy?.(positioned.item) ?? []
+
+                return (
+                  <div
+                    key={positioned.key}
+                    draggable={movable}
+                    onDragStart={(e) => handleDragStart(e, positioned)}
+                    onDragEnd={handleDragEnd}
+                    onClick={() => onItemClick(positioned.item)}
+                    className={cn(
+                      'absolute overflow-hidden rounded px-1 py-0.5 text-xs text-white shadow-sm',
+                      movable ? 'cursor-move' : 'cursor-pointer opacity-80',
+                      editingBy.length > 0 && 'outline-dashed outline-2 outline-amber-400'
+                    )}
+                    style={{
+                      top,
+                      height,
+                      left: `calc(${positioned.lane * width}% + 1px)`,
+                      width: `calc(${width}% - 2px)`,
+                      backgroundColor: roomColor,
+                    }}
+                    title={`${format(positioned.start, 'HH:mm')}–${format(positioned.end, 'HH:mm')} ${positioned.title}`}
+                  >
+                    <div className="font-medium">
+                      {format(positioned.start, 'HH:mm')}–{format(positioned.end, 'HH:mm')}
+                    </div>
+                    {positioned.subtitle && (
+                      <div className="truncate opacity-85">{positioned.subtitle}</div>
+                    )}
+                    <div className="truncate">{positioned.title}</div>
+                    {editingBy.length > 0 && (
+                      <div className="truncate italic" title={t('realtime.beingEditedBy', { names: editingBy.join(', ') })}>
+                        {t('realtime.beingEditedBy', { names: editingBy.join(', ') })}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import {
+  CHART_PADDING,
+  CHART_WIDTH,
+  ChartEmpty,
+  ChartLegend,
+  type ChartSeries,
+  XAxisLabels,
+  YAxis,
+  formatTick,
+  niceMax,
+  seriesColor,
+} from './chartUtils'
+
+interface BarChartProps<T> {
+  data: T[]
+  xKey: keyof T & string
+  series: ChartSeries<T>[]
+  // Stack the series on top of each other instead of drawing them side by side
+  stacked?: boolean
+  height?: number
+  max?: number
+  formatValue?: (value: number) => string
+  formatLabel?: (label: string) => string
+  emptyMessage: string
+  'data-testid'?: string
+}
+
+export function BarChart<T>({
+  data,
+  xKey,
+  series,
+  stacked = false,
+  height = 240,
+  max,
+  formatValue = formatTick,
+  formatLabel = (label) => label,
+  emptyMessage,
+  'data-testid': testId,
+}: BarChartProps<T>) {
+  if (data.length === 0) {
+    return <ChartEmpty message={emptyMessage} height={height} />
+  }
+
+  const valueOf = (row: T, key: keyof T) => Math.max(0, Number(row[key]) || 0)
+  const highest = Math.max(
+    ...data.map((row) =>
+      stacked
+        ? series.reduce((sum, s) => sum + valueOf(row, s.key), 0)
+        : Math.max(...series.map((s) => valueOf(row, s.key)))
+    )
+  )
+  const axisMax = max ?? niceMax(highest)
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom
+  const band = plotWidth / data.length
+  const barArea = band * 0.7
+  const barWidth = stacked ? barArea : barArea / series.length
+  const bandStart = (index: number) => CHART_PADDING.left + band * index + (band - barArea) / 2
+  const heightOf = (value: number) => (plotHeight * Math.min(value, axisMax)) / axisMax
+  const baseline = CHART_PADDING.top + plotHeight
+
+  const labels = data.map((row) => formatLabel(String(row[xKey])))
+
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img">
+        <YAxis max={axisMax} height={height} format={formatValue} />
+
+        {data.map((row, index) => {
+          let stackTop = baseline
+
+          return (
+            <g key={index}>
+              {series.map((s, seriesIndex) => {
+                const value = valueOf(row, s.key)
+                const barHeight = heightOf(value)
+                const x = stacked ? bandStart(index) : bandStart(index) + barWidth * seriesIndex
+                const y = stacked ? stackTop - barHeight : baseline - barHeight
+                if (stacked) stackTop = y
+
+                return (
+                  <rect
+                    key={s.key}
+                    x={x}
+                    y={y}
+                    width={Math.max(1, barWidth - (stacked ? 0 : 2))}
+                    height={barHeight}
+                    rx={2}
+                    fill={seriesColor(s, seriesIndex)}
+                  >
+                    <title>{`${labels[index]} · ${s.label}: ${formatValue(value)}`}</title>
+                  </rect>
+                )
+              })}
+            </g>
+          )
+        })}
+
+        <XAxisLabels labels={labels} height={height} positionOf={(index) => bandStart(index) + barArea / 2} />
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  )
+}
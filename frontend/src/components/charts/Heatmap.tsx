@@ -0,0 +1,68 @@
+import { ChartEmpty } from './chartUtils'
+
+interface HeatmapProps {
+  rows: { key: number; label: string }[]
+  columns: { key: number; label: string }[]
+  // Value of a cell, or undefined when there is no data for it
+  valueOf: (row: number, column: number) => number | undefined
+  max?: number
+  formatValue?: (value: number) => string
+  emptyMessage: string
+  'data-testid'?: string
+}
+
+/**
+ * Grid of cells shaded by value (e.g. weekday × hour occupancy), darker is higher
+ */
+export function Heatmap({
+  rows,
+  columns,
+  valueOf,
+  max,
+  formatValue = (value) => value.toLocaleString(),
+  emptyMessage,
+  'data-testid': testId,
+}: HeatmapProps) {
+  const values = rows.flatMap((row) => columns.map((column) => valueOf(row.key, column.key) ?? 0))
+  const highest = max ?? Math.max(0, ...values)
+
+  if (rows.length === 0 || columns.length === 0 || highest === 0) {
+    return <ChartEmpty message={emptyMessage} height={160} />
+  }
+
+  return (
+    <div className="overflow-x-auto" data-testid={testId}>
+      <div
+        className="grid gap-0.5 text-xs min-w-[36rem]"
+        style={{ gridTemplateColumns: `auto repeat(${columns.length}, minmax(0, 1fr))` }}
+      >
+        <div />
+        {columns.map((column) => (
+          <div key={column.key} className="text-center text-muted-foreground">
+            {column.label}
+          </div>
+        ))}
+
+        {rows.map((row) => (
+          <div key={row.key} className="contents">
+            <div className="pr-2 text-muted-foreground whitespace-nowrap">{row.label}</div>
+            {columns.map((column) => {
+              const value = valueOf(row.key, column.key) ?? 0
+              const intensity = Math.min(value / highest, 1)
+
+              return (
+                <div
+                  key={column.key}
+                  className="h-6 rounded-sm border"
+                  style={{ backgroundColor: `hsl(var(--primary) / ${value > 0 ? 0.1 + intensity * 0.9 : 0})` }}
+                  title={`${row.label} ${column.label} · ${formatValue(value)}`}
+                  data-testid={`heatmap-cell-${row.key}-${column.key}`}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import {
+  CHART_PADDING,
+  CHART_WIDTH,
+  ChartEmpty,
+  ChartLegend,
+  type ChartSeries,
+  XAxisLabels,
+  YAxis,
+  formatTick,
+  niceMax,
+  seriesColor,
+} from './chartUtils'
+
+interface LineChartProps<T> {
+  data: T[]
+  xKey: keyof T & string
+  series: ChartSeries<T>[]
+  height?: number
+  // Fixed axis maximum (e.g. 100 for percentages); derived from the data otherwise
+  max?: number
+  formatValue?: (value: number) => string
+  formatLabel?: (label: string) => string
+  emptyMessage: string
+  'data-testid'?: string
+}
+
+export function LineChart<T>({
+  data,
+  xKey,
+  series,
+  height = 240,
+  max,
+  formatValue = formatTick,
+  formatLabel = (label) => label,
+  emptyMessage,
+  'data-testid': testId,
+}: LineChartProps<T>) {
+  if (data.length === 0) {
+    return <ChartEmpty message={emptyMessage} height={height} />
+  }
+
+  const valueOf = (row: T, key: keyof T) => Number(row[key]) || 0
+  const axisMax = max ?? niceMax(Math.max(...data.flatMap((row) => series.map((s) => valueOf(row, s.key)))))
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom
+  const xOf = (index: number) =>
+    CHART_PADDING.left + (data.length === 1 ? plotWidth / 2 : (plotWidth * index) / (data.length - 1))
+  const yOf = (value: number) => CHART_PADDING.top + plotHeight * (1 - Math.min(value, axisMax) / axisMax)
+
+  const labels = data.map((row) => formatLabel(String(row[xKey])))
+
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img">
+        <YAxis max={axisMax} height={height} format={formatValue} />
+
+        {series.map((s, seriesIndex) => {
+          const color = seriesColor(s, seriesIndex)
+          const points = data.map((row, index) => `${xOf(index)},${yOf(valueOf(row, s.key))}`).join(' ')
+
+          return (
+            <g key={s.key}>
+              <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+              {data.map((row, index) => (
+                <circle key={index} cx={xOf(index)} cy={yOf(valueOf(row, s.key))} r={3.5} fill={color}>
+                  <title>{`${labels[index]} · ${s.label}: ${formatValue(valueOf(row, s.key))}`}</title>
+                </circle>
+              ))}
+            </g>
+          )
+        })}
+
+        <XAxisLabels labels={labels} height={height} positionOf={xOf} />
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  )
+}
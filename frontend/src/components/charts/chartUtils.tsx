@@ -0,0 +1,124 @@
+// Shared pieces of the SVG chart components (no charting library in the bundle)
+
+export interface ChartSeries<T> {
+  key: keyof T & string
+  label: string
+  color?: string
+}
+
+export const CHART_COLORS = ['hsl(var(--primary))', '#16a34a', '#f59e0b', '#dc2626', '#8b5cf6', '#0891b2']
+
+// Drawing area of the line and bar charts, in viewBox units
+export const CHART_WIDTH = 640
+export const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 56 }
+
+export const seriesColor = <T,>(series: ChartSeries<T>, index: number) =>
+  series.color ?? CHART_COLORS[index % CHART_COLORS.length]
+
+/**
+ * Round the axis maximum up to 1, 2, 2.5 or 5 × 10^n so the gridlines get readable values
+ */
+export function niceMax(value: number): number {
+  if (value <= 0) return 1
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const step = [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= value) ?? 10
+  return step * magnitude
+}
+
+export const formatTick = (value: number) =>
+  Math.abs(value) >= 1_000_000
+    ? `${(value / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 1 })}M`
+    : Math.abs(value) >= 10_000
+      ? `${Math.round(value / 1000).toLocaleString()}k`
+      : value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+
+interface YAxisProps {
+  max: number
+  height: number
+  format?: (value: number) => string
+}
+
+/**
+ * Horizontal gridlines with value labels on the left
+ */
+export function YAxis({ max, height, format = formatTick }: YAxisProps) {
+  const ticks = [0, 0.25, 0.5, 0.75, 1]
+  const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom
+
+  return (
+    <g className="text-muted-foreground">
+      {ticks.map((ratio) => {
+        const y = CHART_PADDING.top + plotHeight * (1 - ratio)
+        return (
+          <g key={ratio}>
+            <line
+              x1={CHART_PADDING.left}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y1={y}
+              y2={y}
+              stroke="hsl(var(--border))"
+              strokeDasharray={ratio === 0 ? undefined : '3 3'}
+            />
+            <text x={CHART_PADDING.left - 6} y={y} dy="0.32em" textAnchor="end" fontSize={11} fill="currentColor">
+              {format(max * ratio)}
+            </text>
+          </g>
+        )
+      })}
+    </g>
+  )
+}
+
+/**
+ * Category labels under the plot; thinned out when there are too many to fit
+ */
+export function XAxisLabels({ labels, height, positionOf }: {
+  labels: string[]
+  height: number
+  positionOf: (index: number) => number
+}) {
+  const every = Math.max(1, Math.ceil(labels.length / 12))
+
+  return (
+    <g className="text-muted-foreground">
+      {labels.map((label, index) => index % every === 0 && (
+        <text
+          key={`${label}-${index}`}
+          x={positionOf(index)}
+          y={height - CHART_PADDING.bottom + 16}
+          textAnchor="middle"
+          fontSize={11}
+          fill="currentColor"
+        >
+          {label}
+        </text>
+      ))}
+    </g>
+  )
+}
+
+export function ChartLegend<T>({ series }: { series: ChartSeries<T>[] }) {
+  if (series.length < 2) return null
+
+  return (
+    <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+      {series.map((s, index) => (
+        <div key={s.key} className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: seriesColor(s, index) }} />
+          {s.label}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function ChartEmpty({ message, height }: { message: string; height: number }) {
+  return (
+    <div
+      className="flex items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground"
+      style={{ height }}
+    >
+      {message}
+    </div>
+  )
+}
@@ -15,6 +15,7 @@ import { Input } from '@/components/ui/input'
 import { useToast } from '@/hooks/use-toast'
 import type { AxiosError } from 'axios'
 import type { ApiError } from '@/types/api'
+import { CalendarPlus } from 'lucide-react'
 
 interface ClassDetailsModalProps {
   classOccurrence: ClassOccurrence
@@ -27,6 +28,7 @@ export function ClassDetailsModal({ classOccurrence, open, onOpenChange }: Class
   const { toast } = useToast()
   const queryClient = useQueryClient()
   const [showBookingForm, setShowBookingForm] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
 
   const form = useForm<BookClassFormData>({
     resolver: zodResolver(bookClassSchema),
@@ -78,6 +80,32 @@ export function ClassDetailsModal({ classOccurrence, open, onOpenChange }: Class
     bookMutation.mutate(data)
   })
 
+  const handleAddToCalendar = async () => {
+    setIsDownloading(true)
+    try {
+      const blob = await classesApi.downloadIcs(classOccurrence.id)
+
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `class-${classOccurrence.id}.ics`
+      document.body.appendChild(link)
+      link.click()
+
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Calendar file download error:', error)
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: t('errors.calendarDownloadFailed'),
+      })
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
   const locale = i18n.language === 'hu' ? hu : undefined
   const startTime = format(new Date(classOccurrence.starts_at), 'HH:mm', { locale })
   const endTime = format(new Date(classOccurrence.ends_at), 'HH:mm', { locale })
@@ -153,6 +181,15 @@ export function ClassDetailsModal({ classOccurrence, open, onOpenChange }: Class
               <Button variant="outline" onClick={() => onOpenChange(false)}>
                 {t('common:close')}
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleAddToCalendar}
+                disabled={isDownloading}
+                data-testid="add-to-calendar-btn"
+              >
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                {t('addToCalendar')}
+              </Button>
               <Button
                 onClick={() => setShowBookingForm(true)}
                 data-testid="show-booking-form-btn"
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import type { AxiosError } from 'axios'
+import { format, parseISO } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { useToast } from '@/hooks/use-toast'
+import { classesApi, classKeys } from '@/api/classes'
+import { clientKeys } from '@/api/clients'
+import type { ApiError } from '@/types/api'
+import type { UpcomingBooking } from '@/types/client'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Clock, Loader2 } from 'lucide-react'
+
+interface SwapBookingDialogProps {
+  clientId: string
+  booking: UpcomingBooking | null
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Move a class booking to another date of the same class (keeps the paid credit)
+ */
+export function SwapBookingDialog({ clientId, booking, onOpenChange }: SwapBookingDialogProps) {
+  const { t, i18n } = useTranslation(['client', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [targetId, setTargetId] = useState<number | null>(null)
+
+  const locale = i18n.language === 'hu' ? hu : enUS
+  const occurrenceId = booking ? booking.occurrence_id || booking.id : ''
+
+  useEffect(() => {
+    setTargetId(null)
+  }, [occurrenceId])
+
+  const { data: options, isLoading } = useQuery({
+    queryKey: classKeys.swapOptions(occurrenceId),
+    queryFn: () => classesApi.getSwapOptions(occurrenceId),
+    enabled: !!occurrenceId,
+  })
+
+  const swapMutation = useMutation({
+    mutationFn: (target: number) => classesApi.swap(occurrenceId, { target_occurrence_id: target }),
+    onSuccess: () => {
+      toast({
+        title: t('common:success'),
+        description: t('swap.success'),
+      })
+      queryClient.invalidateQueries({ queryKey: clientKeys.upcoming(clientId) })
+      queryClient.invalidateQueries({ queryKey: clientKeys.activity(clientId) })
+      queryClient.invalidateQueries({ queryKey: clientKeys.passes(clientId) })
+      queryClient.invalidateQueries({ queryKey: classKeys.all })
+      onOpenChange(false)
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      const status = error.response?.status
+      const message =
+        status === 423
+          ? t('swap.tooLate')
+          : status === 409
+            ? t('swap.targetFull')
+            : error.response?.data?.message || t('swap.failed')
+      toast({
+        title: t('common:error'),
+        description: message,
+        variant: 'destructive',
+      })
+      if (status === 409) {
+        queryClient.invalidateQueries({ queryKey: classKeys.swapOptions(occurrenceId) })
+      }
+    },
+  })
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto" data-testid="swap-booking-dialog">
+        <DialogHeader>
+          <DialogTitle>{t('swap.title')}</DialogTitle>
+          <DialogDescription>
+            {booking &&
+              t('swap.description', {
+                title: booking.title,
+                date: format(parseISO(booking.starts_at), 'yyyy. MMM d. HH:mm', { locale }),
+              })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : options && options.length > 0 ? (
+          <ul className="space-y-2">
+            {options.map((option) => (
+              <li key={option.id}>
+                <button
+                  type="button"
+                  onClick={() => setTargetId(option.id)}
+                  aria-pressed={targetId === option.id}
+                  className={`w-full flex items-center justify-between gap-2 p-3 border rounded-lg text-left hover:bg-gray-50 ${
+                    targetId === option.id ? 'border-primary ring-1 ring-primary' : ''
+                  }`}
+                >
+                  <div className="flex flex-col">
+                    <span className="flex items-center gap-1 font-medium text-sm">
+                      <Clock className="h-3 w-3" />
+                      {format(parseISO(option.starts_at), 'yyyy. MMM d. (EEE) HH:mm', { locale })}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {[option.room, option.trainer].filter(Boolean).join(' • ')}
+                    </span>
+                  </div>
+                  <Badge variant="outline">{t('swap.spotsLeft', { count: option.available_spots })}</Badge>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-6">{t('swap.noOptions')}</p>
+        )}
+
+        <p className="text-xs text-gray-500">{t('swap.creditNote')}</p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={swapMutation.isPending}>
+            {t('common:cancel')}
+          </Button>
+          <Button
+            onClick={() => targetId && swapMutation.mutate(targetId)}
+            disabled={!targetId || swapMutation.isPending}
+          >
+            {swapMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('swap.confirm')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,6 @@
 import { Outlet, Link, useLocation } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import { Calendar, LayoutDashboard, Users, UserPlus, LogOut, Menu, Activity, ClipboardList, Shield, ChevronDown, ChevronRight, DoorOpen, FileText, Dumbbell, Mail, Code, History, RefreshCw, Settings, MapPin, DollarSign, Receipt, Tag, Upload, Sparkles } from 'lucide-react'
+import { Calendar, LayoutDashboard, Users, UserPlus, LogOut, Menu, Activity, ClipboardList, Shield, ChevronDown, ChevronRight, DoorOpen, FileText, Dumbbell, Mail, Code, History, RefreshCw, Settings, MapPin, DollarSign, Receipt, Tag, Upload, CalendarPlus, Sparkles, SearchCheck, Wallet } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/hooks/useAuth'
 import { useState } from 'react'
@@ -23,6 +23,8 @@ export default function MainLayout() {
     ...(user?.role === 'staff' || user?.role === 'admin' ? [{ name: t('staff:title'), href: '/staff', icon: ClipboardList }] : []),
     // Clients management for staff and admin
     ...(user?.role === 'staff' || user?.role === 'admin' ? [{ name: 'Vendégek', href: '/clients', icon: UserPlus }] : []),
+    // Finance overview - clients only
+    ...(user?.role === 'client' ? [{ name: t('client:finance.title'), href: '/finance', icon: Wallet }] : []),
     { name: t('navigation.settings'), href: '/settings', icon: Settings },
   ]
 
@@ -30,6 +32,7 @@ export default function MainLayout() {
     { name: t('admin:dashboard.title'), href: '/admin/dashboard', icon: LayoutDashboard },
     { name: t('admin:users.title'), href: '/admin/users', icon: Users },
     { name: t('admin:clientImport.title', 'Vendég import'), href: '/admin/client-import', icon: Upload },
+    { name: t('admin:eventImport.title'), href: '/admin/event-import', icon: CalendarPlus },
     { name: t('admin:sites.title'), href: '/admin/sites', icon: MapPin },
     { name: t('admin:rooms.title'), href: '/admin/rooms', icon: DoorOpen },
     { name: t('admin:classTemplates.title'), href: '/admin/class-templates', icon: Dumbbell },
@@ -37,8 +40,10 @@ export default function MainLayout() {
     { name: 'Shortcode-ok', href: '/admin/email-shortcodes', icon: Code },
     { name: t('admin:googleCalendarSync.title'), href: '/admin/google-calendar-sync', icon: RefreshCw },
     { name: t('admin:pricing.title'), href: '/admin/pricing', icon: DollarSign },
+    { name: t('admin:pricingAnomalies.title'), href: '/admin/pricing-anomalies', icon: SearchCheck },
     { name: t('admin:serviceTypes.title'), href: '/admin/service-types', icon: Tag },
     { name: t('admin:settlements.title'), href: '/admin/settlements', icon: Receipt },
+    { name: t('admin:outstandingBalances.title'), href: '/admin/outstanding-balances', icon: Wallet },
     { name: t('admin:reports.title'), href: '/admin/reports', icon: FileText },
     { name: t('admin:eventChanges.title'), href: '/admin/event-changes', icon: History },
     { name: t('admin:motivationalQuotes.title'), href: '/admin/motivational-quotes', icon: Sparkles },
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import type { AxiosError } from 'axios'
+import { useToast } from '@/hooks/use-toast'
+import { eventsApi } from '@/api/events'
+import { participantKeys, type ClassParticipant } from '@/api/participants'
+import { classKeys } from '@/api/classes'
+import type { ApiError } from '@/types/api'
+import type { ClassCheckInResult } from '@/types/event'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { CheckCircle2, Loader2, UserX, CheckCheck } from 'lucide-react'
+
+type Attendance = 'attended' | 'no_show'
+
+interface AttendanceSheetProps {
+  occurrenceId: string | number
+  participants: ClassParticipant[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const recordedAttendance = (participant: ClassParticipant): Attendance | undefined =>
+  participant.status === 'attended' || participant.status === 'no_show' ? participant.status : undefined
+
+/**
+ * Attendance sheet of a group class: mark every booked participant and save in one request
+ */
+export function AttendanceSheet({ occurrenceId, participants, open, onOpenChange }: AttendanceSheetProps) {
+  const { t } = useTranslation(['calendar', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [attendance, setAttendance] = useState<Record<string, Attendance>>({})
+  const [results, setResults] = useState<Record<string, ClassCheckInResult>>({})
+
+  const sheetParticipants = participants.filter(
+    (p) => p.status === 'booked' || p.status === 'attended' || p.status === 'no_show'
+  )
+
+  // Start from the attendance already recorded whenever the sheet is opened
+  useEffect(() => {
+    if (!open) return
+    const initial: Record<string, Attendance> = {}
+    sheetParticipants.forEach((p) => {
+      const recorded = recordedAttendance(p)
+      if (recorded) initial[p.registration_id] = recorded
+    })
+    setAttendance(initial)
+    setResults({})
+  }, [open])
+
+  // Only rows that are new or changed compared to what is recorded are sent
+  const changedRows = sheetParticipants.filter(
+    (p) => attendance[p.registration_id] && attendance[p.registration_id] !== recordedAttendance(p)
+  )
+  const unmarkedCount = sheetParticipants.filter((p) => !attendance[p.registration_id]).length
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      eventsApi.checkInClass(
+        occurrenceId,
+        changedRows.map((p) => ({
+          registration_id: p.registration_id,
+          attendance_status: attendance[p.registration_id],
+        }))
+      ),
+    onSuccess: (data) => {
+      const byRegistration: Record<string, ClassCheckInResult> = {}
+      data.results.forEach((result) => {
+        byRegistration[String(result.registration_id)] = result
+      })
+      setResults(byRegistration)
+      queryClient.invalidateQueries({ queryKey: participantKeys.classParticipants(occurrenceId) })
+      queryClient.invalidateQueries({ queryKey: classKeys.all })
+
+      const saved = data.results.filter((r) => r.status === 'success').length
+      toast({ title: t('attendanceSheet.saved', { count: saved }) })
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: error.response?.data?.message || t('errors.checkInFailed'),
+      })
+    },
+  })
+
+  const markAllAttended = () => {
+    const next: Record<string, Attendance> = { ...attendance }
+    sheetParticipants.forEach((p) => {
+      if (!next[p.registration_id]) next[p.registration_id] = 'attended'
+    })
+    setAttendance(next)
+  }
+
+  const setRow = (registrationId: string, value: Attendance) => {
+    setAttendance((prev) => ({ ...prev, [registrationId]: value }))
+  }
+
+  const renderResult = (result: ClassCheckInResult | undefined) => {
+    if (!result) return null
+    if (result.status === 'skipped') {
+      return <span className="text-xs text-muted-foreground">{t('attendanceSheet.skipped')}</span>
+    }
+    if (!result.credit_result) return null
+
+    const variant = result.credit_result === 'no_pass' ? 'destructive' : result.credit_result === 'deducted' ? 'default' : 'outline'
+    return (
+      <div className="flex flex-col items-end gap-0.5">
+        <Badge variant={variant}>{t(`attendanceSheet.credit.${result.credit_result}`)}</Badge>
+        {result.credits_left !== null && result.credits_left !== undefined && (
+          <span className="text-xs text-muted-foreground">
+            {t('attendanceSheet.creditsLeft', { count: result.credits_left })}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto" data-testid="attendance-sheet">
+        <DialogHeader>
+          <DialogTitle>{t('attendanceSheet.title')}</DialogTitle>
+          <DialogDescription>{t('attendanceSheet.description')}</DialogDescription>
+        </DialogHeader>
+
+        {sheetParticipants.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">{t('participants.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">
+                {t('attendanceSheet.unmarked', { count: unmarkedCount })}
+              </span>
+              <Button variant="outline" size="sm" onClick={markAllAttended} disabled={unmarkedCount === 0}>
+                <CheckCheck className="h-4 w-4 mr-1" />
+                {t('attendanceSheet.markAllAttended')}
+              </Button>
+            </div>
+
+            <ul className="space-y-2">
+              {sheetParticipants.map((participant) => {
+                const value = attendance[participant.registration_id]
+                return (
+                  <li
+                    key={participant.registration_id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-2 border rounded-lg"
+                    data-testid={`attendance-row-${participant.registration_id}`}
+                  >
+                    <div className="flex flex-col min-w-0">
+                      <span className="font-medium text-sm truncate">{participant.client_name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {participant.payment_status === 'paid'
+                          ? t('attendanceSheet.paidWithPass')
+                          : t(`participants.${participant.payment_status === 'unpaid' ? 'unpaid' : 'pending'}`)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {renderResult(results[participant.registration_id])}
+                      <Button
+                        size="sm"
+                        variant={value === 'attended' ? 'default' : 'outline'}
+                        className="h-8"
+                        onClick={() => setRow(participant.registration_id, 'attended')}
+                        aria-pressed={value === 'attended'}
+                      >
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        {t('event.attended')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={value === 'no_show' ? 'destructive' : 'outline'}
+                        className="h-8"
+                        onClick={() => setRow(participant.registration_id, 'no_show')}
+                        aria-pressed={value === 'no_show'}
+                      >
+                        <UserX className="h-4 w-4 mr-1" />
+                        {t('event.noShow')}
+                      </Button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            {t('common:close')}
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={changedRows.length === 0 || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('attendanceSheet.save', { count: changedRows.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
+import { format, parseISO } from 'date-fns'
 import { useAuth } from '@/hooks/useAuth'
 import { useToast } from '@/hooks/use-toast'
 import { clientsApi } from '@/api/clients'
@@ -10,7 +11,9 @@ import {
   participantKeys,
   type ClassParticipant,
   type AddClassParticipantRequest,
+  type MarkParticipantPaidRequest,
 } from '@/api/participants'
+import { clientLedgerKeys } from '@/api/clientLedger'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
@@ -33,7 +36,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { UserPlus, X, Loader2, Users, Search } from 'lucide-react'
+import { WaitlistPanel } from './WaitlistPanel'
+import { AttendanceSheet } from './AttendanceSheet'
+import { UserPlus, X, Loader2, Users, Search, ArrowUpToLine, ClipboardCheck, Banknote } from 'lucide-react'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
 
 interface ParticipantManagerProps {
   occurrenceId: string | number
@@ -59,6 +66,9 @@ export function ParticipantManager({
   const [removeDialogOpen, setRemoveDialogOpen] = useState(false)
   const [participantToRemove, setParticipantToRemove] = useState<ClassParticipant | null>(null)
   const [refundOnRemove, setRefundOnRemove] = useState(true)
+  const [attendanceSheetOpen, setAttendanceSheetOpen] = useState(false)
+  const [participantToMarkPaid, setParticipantToMarkPaid] = useState<ClassParticipant | null>(null)
+  const [paymentMethod, setPaymentMethod] = useState<MarkParticipantPaidRequest['method']>('cash')
 
   const isAdmin = user?.role === 'admin'
   const canManage = isAdmin || isOwner
@@ -118,6 +128,30 @@ export function ParticipantManager({
     },
   })
 
+  // Mark paid mutation (records a desk payment of the class price)
+  const markPaidMutation = useMutation({
+    mutationFn: ({ registrationId, method }: { registrationId: string; method: MarkParticipantPaidRequest['method'] }) =>
+      participantsApi.markClassParticipantPaid(occurrenceId, registrationId, { method }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: participantKeys.classParticipants(occurrenceId) })
+      queryClient.invalidateQueries({ queryKey: clientLedgerKeys.all })
+      toast({ title: t('participants.markedPaid') })
+      setParticipantToMarkPaid(null)
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: error.response?.data?.message || error.message,
+      })
+    },
+  })
+
+  const handleMarkPaidClick = (participant: ClassParticipant) => {
+    setPaymentMethod('cash')
+    setParticipantToMarkPaid(participant)
+  }
+
   const handleAddParticipant = () => {
     if (!selectedClientId) return
     addMutation.mutate({
@@ -145,8 +179,23 @@ export function ParticipantManager({
   }
 
   const participants = participantsData?.participants || []
+  const bookedParticipants = participants.filter(p => p.status !== 'waitlist')
+  const waitlistParticipants = participants.filter(p => p.status === 'waitlist')
   const bookedCount = participants.filter(p => p.status === 'booked' || p.status === 'attended').length
-  const waitlistCount = participants.filter(p => p.status === 'waitlist').length
+  const waitlistCount = waitlistParticipants.length
+
+  // "Auto-promoted 05.12 14:00 · notified 05.12 14:01" line for promoted participants
+  const getPromotionInfo = (participant: ClassParticipant) => {
+    if (!participant.promoted_at) return null
+    const promotedAt = format(parseISO(participant.promoted_at), 'MM.dd HH:mm')
+    const promoted = participant.promotion_type === 'manual'
+      ? t('waitlist.promotedBy', { name: participant.promoted_by_name ?? '-', date: promotedAt })
+      : t('waitlist.autoPromoted', { date: promotedAt })
+    const notified = participant.promotion_notified_at
+      ? t('waitlist.notifiedAt', { date: format(parseISO(participant.promotion_notified_at), 'MM.dd HH:mm') })
+      : t('waitlist.notificationPending')
+    return `${promoted} · ${notified}`
+  }
 
   const getStatusBadge = (status: string, paymentStatus: string) => {
     if (status === 'waitlist') {
@@ -164,6 +213,10 @@ export function ParticipantManager({
     return <Badge variant="outline">{t('participants.pending')}</Badge>
   }
 
+  const canMarkPaid = (participant: ClassParticipant) =>
+    participant.status !== 'cancelled' &&
+    (participant.payment_status === 'unpaid' || participant.payment_status === 'pending')
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -171,9 +224,23 @@ export function ParticipantManager({
           <Users className="h-4 w-4" />
           <h3 className="font-semibold">{t('participants.title')}</h3>
         </div>
-        <div className="text-sm text-muted-foreground">
-          {bookedCount}/{capacity}
-          {waitlistCount > 0 && ` (+${waitlistCount} ${t('participants.waitlist')})`}
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">
+            {bookedCount}/{capacity}
+            {waitlistCount > 0 && ` (+${waitlistCount} ${t('participants.waitlist')})`}
+          </div>
+          {!disabled && bookedParticipants.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              onClick={() => setAttendanceSheetOpen(true)}
+              data-testid="open-attendance-sheet"
+            >
+              <ClipboardCheck className="h-3 w-3 mr-1" />
+              {t('attendanceSheet.open')}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -182,11 +249,11 @@ export function ParticipantManager({
         <div className="flex items-center justify-center py-4">
           <Loader2 className="h-4 w-4 animate-spin" />
         </div>
-      ) : participants.length === 0 ? (
+      ) : bookedParticipants.length === 0 ? (
         <p className="text-sm text-muted-foreground py-2">{t('participants.empty')}</p>
       ) : (
         <div className="space-y-2 max-h-48 overflow-y-auto">
-          {participants.map((participant) => (
+          {bookedParticipants.map((participant) => (
             <div
               key={participant.registration_id}
               className="flex items-center justify-between p-2 border rounded-lg"
@@ -194,9 +261,33 @@ export function ParticipantManager({
               <div className="flex flex-col">
                 <span className="font-medium text-sm">{participant.client_name}</span>
                 <span className="text-xs text-muted-foreground">{participant.client_email}</span>
+                {participant.promoted_at && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <ArrowUpToLine className="h-3 w-3" />
+                    {getPromotionInfo(participant)}
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-2">
+                {participant.status === 'attended' && (
+                  <Badge variant="outline" className="text-green-600 border-green-600">{t('event.attended')}</Badge>
+                )}
+                {participant.status === 'no_show' && (
+                  <Badge variant="outline" className="text-red-600 border-red-600">{t('event.noShow')}</Badge>
+                )}
                 {getStatusBadge(participant.status, participant.payment_status)}
+                {canMarkPaid(participant) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title={t('participants.markPaid')}
+                    onClick={() => handleMarkPaidClick(participant)}
+                    data-testid={`mark-paid-${participant.registration_id}`}
+                  >
+                    <Banknote className="h-3 w-3" />
+                  </Button>
+                )}
                 {!disabled && (
                   <Button
                     variant="ghost"
@@ -213,6 +304,15 @@ export function ParticipantManager({
         </div>
       )}
 
+      {/* Waitlist queue */}
+      <WaitlistPanel
+        occurrenceId={occurrenceId}
+        waitlist={waitlistParticipants}
+        isFull={bookedCount >= capacity}
+        participantsApi={participantsApi}
+        disabled={disabled}
+      />
+
       {/* Add Participant */}
       {!disabled && (
         <div className="space-y-3 pt-2 border-t">
@@ -322,6 +422,55 @@ export function ParticipantManager({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Mark Paid Dialog */}
+      <AlertDialog open={participantToMarkPaid !== null} onOpenChange={(open) => !open && setParticipantToMarkPaid(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('participants.markPaidTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('participants.markPaidDescription', { name: participantToMarkPaid?.client_name })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-4 space-y-2">
+            <Label>{t('participants.paymentMethod')}</Label>
+            <Select
+              value={paymentMethod}
+              onValueChange={(value) => setPaymentMethod(value as MarkParticipantPaidRequest['method'])}
+            >
+              <SelectTrigger data-testid="mark-paid-method-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">{t('participants.paymentMethods.cash')}</SelectItem>
+                <SelectItem value="card">{t('participants.paymentMethods.card')}</SelectItem>
+                <SelectItem value="transfer">{t('participants.paymentMethods.transfer')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common:cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                if (!participantToMarkPaid) return
+                markPaidMutation.mutate({ registrationId: participantToMarkPaid.registration_id, method: paymentMethod })
+              }}
+              disabled={markPaidMutation.isPending}
+              data-testid="mark-paid-confirm"
+            >
+              {markPaidMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : t('participants.markPaid')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AttendanceSheet
+        occurrenceId={occurrenceId}
+        participants={bookedParticipants}
+        open={attendanceSheetOpen}
+        onOpenChange={setAttendanceSheetOpen}
+      />
     </div>
   )
 }
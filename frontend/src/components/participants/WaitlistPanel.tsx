@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format, parseISO } from 'date-fns'
+import { useToast } from '@/hooks/use-toast'
+import {
+  adminParticipantsApi,
+  participantKeys,
+  type ClassParticipant,
+} from '@/api/participants'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ArrowDown, ArrowUp, ArrowUpToLine, Clock, Loader2 } from 'lucide-react'
+
+interface WaitlistPanelProps {
+  occurrenceId: string | number
+  waitlist: ClassParticipant[]
+  isFull: boolean
+  participantsApi: Pick<typeof adminParticipantsApi, 'promoteWaitlisted' | 'reorderWaitlist'>
+  disabled?: boolean
+}
+
+/**
+ * Waitlist queue of a class occurrence: reorder and manual promotion
+ */
+export function WaitlistPanel({
+  occurrenceId,
+  waitlist,
+  isFull,
+  participantsApi,
+  disabled = false,
+}: WaitlistPanelProps) {
+  const { t } = useTranslation(['calendar', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [participantToPromote, setParticipantToPromote] = useState<ClassParticipant | null>(null)
+
+  const queue = [...waitlist].sort(
+    (a, b) => (a.waitlist_position ?? Number.MAX_SAFE_INTEGER) - (b.waitlist_position ?? Number.MAX_SAFE_INTEGER)
+  )
+
+  const onError = (error: Error) => {
+    toast({
+      variant: 'destructive',
+      title: t('common:error'),
+      description: error.message,
+    })
+  }
+
+  const reorderMutation = useMutation({
+    mutationFn: (registrationIds: string[]) => participantsApi.reorderWaitlist(occurrenceId, registrationIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: participantKeys.classParticipants(occurrenceId) })
+    },
+    onError,
+  })
+
+  const promoteMutation = useMutation({
+    mutationFn: (participant: ClassParticipant) =>
+      participantsApi.promoteWaitlisted(occurrenceId, participant.registration_id, { override_capacity: isFull }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: participantKeys.classParticipants(occurrenceId) })
+      toast({ title: t('waitlist.promoted') })
+      setParticipantToPromote(null)
+    },
+    onError,
+  })
+
+  const moveParticipant = (index: number, direction: -1 | 1) => {
+    const ids = queue.map(p => p.registration_id)
+    const target = index + direction
+    if (target < 0 || target >= ids.length) return
+    const [moved] = ids.splice(index, 1)
+    ids.splice(target, 0, moved)
+    reorderMutation.mutate(ids)
+  }
+
+  if (queue.length === 0) {
+    return null
+  }
+
+  const isBusy = reorderMutation.isPending || promoteMutation.isPending
+
+  return (
+    <div className="space-y-2 pt-2 border-t" data-testid="waitlist-panel">
+      <div className="flex items-center gap-2">
+        <Clock className="h-4 w-4" />
+        <h4 className="font-semibold text-sm">{t('waitlist.title')}</h4>
+        <span className="text-xs text-muted-foreground">({queue.length})</span>
+      </div>
+      <p className="text-xs text-muted-foreground">{t('waitlist.autoPromotionInfo')}</p>
+
+      <ol className="space-y-2">
+        {queue.map((participant, index) => (
+          <li
+            key={participant.registration_id}
+            className="flex items-center justify-between gap-2 p-2 border rounded-lg"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-semibold">
+                {participant.waitlist_position ?? index + 1}
+              </span>
+              <div className="flex flex-col min-w-0">
+                <span className="font-medium text-sm truncate">{participant.client_name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {t('waitlist.joinedAt', { date: format(parseISO(participant.booked_at), 'yyyy.MM.dd HH:mm') })}
+                </span>
+              </div>
+            </div>
+            {!disabled && (
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveParticipant(index, -1)}
+                  disabled={isBusy || index === 0}
+                  title={t('waitlist.moveUp')}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveParticipant(index, 1)}
+                  disabled={isBusy || index === queue.length - 1}
+                  title={t('waitlist.moveDown')}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setParticipantToPromote(participant)}
+                  disabled={isBusy}
+                >
+                  <ArrowUpToLine className="h-3 w-3 mr-1" />
+                  {t('waitlist.promote')}
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {/* Promote Confirmation Dialog */}
+      <AlertDialog open={!!participantToPromote} onOpenChange={(open) => !open && setParticipantToPromote(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('waitlist.promoteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('waitlist.promoteDescription', { name: participantToPromote?.client_name })}
+              {isFull && (
+                <span className="block mt-2 font-medium text-destructive">{t('waitlist.overCapacityWarning')}</span>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common:cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => participantToPromote && promoteMutation.mutate(participantToPromote)}
+              disabled={promoteMutation.isPending}
+            >
+              {promoteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : t('waitlist.promote')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
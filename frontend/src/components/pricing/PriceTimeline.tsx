@@ -0,0 +1,124 @@
+import { useTranslation } from 'react-i18next'
+import { format, parseISO } from 'date-fns'
+import { AlertTriangle } from 'lucide-react'
+import {
+  findPriceTimelineIssues,
+  priceTimelineRange,
+  priceWindowState,
+  type PriceWindow,
+  type PriceWindowState,
+} from '@/lib/priceTimeline'
+
+export interface PriceTimelineEntry extends PriceWindow {
+  label: string
+  entry_fee_brutto: number
+  trainer_fee_brutto: number
+}
+
+interface PriceTimelineProps {
+  title: string
+  entries: PriceTimelineEntry[]
+  formatCurrency: (amount: number) => string
+  'data-testid'?: string
+}
+
+const stateClass: Record<PriceWindowState, string> = {
+  current: 'bg-green-500',
+  scheduled: 'bg-blue-400',
+  past: 'bg-gray-400',
+  inactive: 'bg-gray-200 border border-dashed border-gray-400',
+}
+
+const formatDay = (date: Date) => format(date, 'yyyy-MM-dd')
+
+/**
+ * Validity windows of one price history (a class template, or a client/staff member and
+ * service type) on a shared time axis, with overlaps and gaps between active windows listed below
+ */
+export function PriceTimeline({ title, entries, formatCurrency, 'data-testid': testId }: PriceTimelineProps) {
+  const { t } = useTranslation('admin')
+
+  const now = new Date()
+  const { start, end } = priceTimelineRange(entries, now)
+  const span = Math.max(1, end.getTime() - start.getTime())
+  const position = (date: Date) => ((date.getTime() - start.getTime()) / span) * 100
+
+  const sorted = [...entries].sort((a, b) => a.valid_from.localeCompare(b.valid_from))
+  const issues = findPriceTimelineIssues(entries)
+  const labelOf = (id: number) => entries.find((entry) => entry.id === id)?.label ?? `#${id}`
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3" data-testid={testId}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium">{title}</p>
+        {issues.length > 0 && (
+          <span className="flex items-center gap-1 text-sm text-amber-600">
+            <AlertTriangle className="h-4 w-4" />
+            {t('priceTimeline.issuesCount', { count: issues.length })}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {sorted.map((entry) => {
+          const state = priceWindowState(entry, now)
+          const from = parseISO(entry.valid_from)
+          const until = entry.valid_until ? parseISO(entry.valid_until) : end
+          const left = position(from)
+          const width = Math.max(1, position(until) - left)
+
+          return (
+            <div key={entry.id} className="flex items-center gap-3 text-sm" data-testid={`price-timeline-entry-${entry.id}`}>
+              <div className="w-40 shrink-0 truncate" title={entry.label}>
+                {entry.label}
+              </div>
+              <div className="relative h-6 flex-1 rounded bg-gray-50">
+                <div
+                  className={`absolute top-1 bottom-1 rounded ${stateClass[state]}`}
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                  title={`${formatDay(from)} – ${entry.valid_until ? formatDay(until) : t('priceTimeline.openEnded')}`}
+                  data-state={state}
+                />
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-red-500"
+                  style={{ left: `${position(now)}%` }}
+                  title={t('priceTimeline.today')}
+                />
+              </div>
+              <div className="w-44 shrink-0 text-right">
+                {formatCurrency(entry.entry_fee_brutto)} / {formatCurrency(entry.trainer_fee_brutto)}
+                <p className="text-xs text-gray-500">{t(`priceTimeline.states.${state}`)}</p>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex justify-between text-xs text-gray-500 pl-[10.75rem] pr-[11.75rem]">
+        <span>{formatDay(start)}</span>
+        <span>{formatDay(end)}</span>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1 text-sm" data-testid={testId ? `${testId}-issues` : undefined}>
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2 text-amber-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              {issue.type === 'overlap'
+                ? t('priceTimeline.overlap', {
+                    first: labelOf(issue.ids[0]),
+                    second: labelOf(issue.ids[1]),
+                    from: formatDay(issue.from),
+                    until: issue.until ? formatDay(issue.until) : t('priceTimeline.openEnded'),
+                  })
+                : t('priceTimeline.gap', {
+                    from: formatDay(issue.from),
+                    until: issue.until ? formatDay(issue.until) : t('priceTimeline.openEnded'),
+                  })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useTranslation } from 'react-i18next'
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { pricingResolveApi, pricingResolveKeys } from '@/api/serviceTypes'
+import type { PricingAnomaly } from '@/types/pricing'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DollarSign } from 'lucide-react'
+
+interface PricingAnomalyGroupProps {
+  clientName: string
+  clientId: number
+  serviceType: PricingAnomaly['service_type']
+  anomalies: PricingAnomaly[]
+  selectedEventIds: number[]
+  onToggleEvent: (eventId: number, checked: boolean) => void
+  onToggleGroup: (eventIds: number[], checked: boolean) => void
+  onOverride: (anomaly: PricingAnomaly) => void
+  formatCurrency: (amount: number) => string
+}
+
+const anomalyBadgeVariant = {
+  no_service_type: 'destructive',
+  missing_price: 'destructive',
+  unexpected_fallback: 'secondary',
+} as const
+
+/**
+ * Anomalous events of one client and service type, with the price the resolver
+ * would store for them now
+ */
+export function PricingAnomalyGroup({
+  clientName,
+  clientId,
+  serviceType,
+  anomalies,
+  selectedEventIds,
+  onToggleEvent,
+  onToggleGroup,
+  onOverride,
+  formatCurrency,
+}: PricingAnomalyGroupProps) {
+  const { t } = useTranslation('admin')
+
+  const { data: resolved, isError: isResolveError } = useQuery({
+    queryKey: pricingResolveKeys.resolveByIds(clientId, serviceType?.id ?? 0),
+    queryFn: () => pricingResolveApi.resolveByIds(clientId, serviceType!.id),
+    enabled: !!serviceType,
+    retry: false,
+  })
+
+  const eventIds = anomalies.map((anomaly) => anomaly.event_id)
+  const allSelected = eventIds.every((id) => selectedEventIds.includes(id))
+
+  const formatFee = (amount: number | null) => (amount === null ? '—' : formatCurrency(amount))
+
+  return (
+    <div className="border rounded-lg" data-testid={`anomaly-group-${clientId}-${serviceType?.id ?? 'none'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b bg-gray-50">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            checked={allSelected}
+            disabled={!serviceType}
+            onCheckedChange={(checked) => onToggleGroup(eventIds, checked === true)}
+            data-testid={`anomaly-group-select-${clientId}-${serviceType?.id ?? 'none'}`}
+          />
+          <div>
+            <p className="font-medium">{clientName}</p>
+            <p className="text-sm text-gray-500">
+              {serviceType ? serviceType.name : t('pricingAnomalies.noServiceType')} · {t('pricingAnomalies.eventsCount', { count: anomalies.length })}
+            </p>
+          </div>
+        </div>
+        <div className="text-sm text-right" data-testid={`anomaly-group-resolved-${clientId}-${serviceType?.id ?? 'none'}`}>
+          {resolved ? (
+            <>
+              <span className="text-gray-500">{t('pricingAnomalies.resolvesTo')}: </span>
+              <span className="font-medium">
+                {formatCurrency(resolved.entry_fee_brutto)} / {formatCurrency(resolved.trainer_fee_brutto)}
+              </span>
+              <Badge variant="outline" className="ml-2">
+                {t(`pricingAnomalies.sources.${resolved.source}`)}
+                {resolved.price_code && ` · ${resolved.price_code}`}
+              </Badge>
+            </>
+          ) : isResolveError ? (
+            <span className="text-red-600">{t('pricingAnomalies.resolveUnavailable')}</span>
+          ) : null}
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10" />
+            <TableHead>{t('pricingAnomalies.date')}</TableHead>
+            <TableHead>{t('pricingAnomalies.trainer')}</TableHead>
+            <TableHead>{t('pricingAnomalies.problem')}</TableHead>
+            <TableHead className="text-right">{t('pricingAnomalies.storedPrice')}</TableHead>
+            <TableHead>{t('pricingAnomalies.source')}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {anomalies.map((anomaly) => (
+            <TableRow key={anomaly.event_id} data-testid={`anomaly-row-${anomaly.event_id}`}>
+              <TableCell>
+                <Checkbox
+                  checked={selectedEventIds.includes(anomaly.event_id)}
+                  disabled={!serviceType}
+                  onCheckedChange={(checked) => onToggleEvent(anomaly.event_id, checked === true)}
+                />
+              </TableCell>
+              <TableCell>{format(new Date(anomaly.starts_at), 'yyyy-MM-dd HH:mm')}</TableCell>
+              <TableCell>{anomaly.staff_name ?? '—'}</TableCell>
+              <TableCell>
+                <Badge variant={anomalyBadgeVariant[anomaly.anomaly]}>
+                  {t(`pricingAnomalies.types.${anomaly.anomaly}`)}
+                </Badge>
+                {anomaly.expected_price_code && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t('pricingAnomalies.expectedPriceCode', {
+                      code: anomaly.expected_price_code.price_code ?? `#${anomaly.expected_price_code.id}`,
+                      price: formatCurrency(anomaly.expected_price_code.entry_fee_brutto),
+                    })}
+                    {!anomaly.expected_price_code.is_active && ` (${t('pricingAnomalies.inactive')})`}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatFee(anomaly.entry_fee_brutto)} / {formatFee(anomaly.trainer_fee_brutto)}
+              </TableCell>
+              <TableCell>
+                {anomaly.price_source ? t(`pricingAnomalies.sources.${anomaly.price_source}`, anomaly.price_source) : '—'}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onOverride(anomaly)}
+                  data-testid={`anomaly-override-${anomaly.event_id}`}
+                >
+                  <DollarSign className="h-4 w-4 mr-1" />
+                  {t('pricingAnomalies.override')}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
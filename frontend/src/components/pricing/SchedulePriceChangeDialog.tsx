@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { addDays, addMonths, format, startOfMonth } from 'date-fns'
+import { clientPriceCodesApi, clientPriceCodeKeys, serviceTypesApi, serviceTypeKeys } from '@/api/serviceTypes'
+import type { PriceChangeMode, ScheduledPriceChangeRequest, ScheduledPriceChangeResult } from '@/types/serviceType'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { CheckCircle2 } from 'lucide-react'
+
+interface SchedulePriceChangeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  formatCurrency: (amount: number) => string
+}
+
+type Step = 'change' | 'preview' | 'result'
+
+/**
+ * Schedule a price increase (or decrease) of one service type from a future date for
+ * many clients at once: every client's current price code is closed the day before and
+ * a copy with the new fees takes over
+ */
+export function SchedulePriceChangeDialog({ open, onOpenChange, formatCurrency }: SchedulePriceChangeDialogProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [step, setStep] = useState<Step>('change')
+  const [change, setChange] = useState<ScheduledPriceChangeRequest>({
+    service_type_id: 0,
+    effective_from: format(startOfMonth(addMonths(new Date(), 1)), 'yyyy-MM-dd'),
+    mode: 'percent',
+    entry_fee_change: 0,
+    trainer_fee_change: 0,
+  })
+  const [selectedClientIds, setSelectedClientIds] = useState<number[]>([])
+  const [result, setResult] = useState<ScheduledPriceChangeResult | null>(null)
+
+  const { data: serviceTypes } = useQuery({
+    queryKey: serviceTypeKeys.lists(),
+    queryFn: serviceTypesApi.list,
+    enabled: open,
+  })
+
+  const { data: preview, isLoading: isPreviewLoading } = useQuery({
+    queryKey: clientPriceCodeKeys.scheduledChange(change),
+    queryFn: () => clientPriceCodesApi.scheduleChangePreview(change),
+    enabled: open && step === 'preview',
+  })
+
+  // Every client without a change already scheduled is selected by default
+  useEffect(() => {
+    if (preview) {
+      setSelectedClientIds(preview.clients.filter((row) => row.skip_reason === null).map((row) => row.client_id))
+    }
+  }, [preview])
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => clientPriceCodesApi.scheduleChange({ ...change, client_ids: selectedClientIds }),
+    onSuccess: (data) => {
+      setResult(data)
+      setStep('result')
+      queryClient.invalidateQueries({ queryKey: clientPriceCodeKeys.all })
+      toast({
+        title: t('admin:priceSchedule.scheduleSuccess', { count: data.created.length }),
+      })
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('admin:priceSchedule.scheduleError'),
+        description: error.response?.data?.message,
+      })
+    },
+  })
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setStep('change')
+      setResult(null)
+    }
+    onOpenChange(isOpen)
+  }
+
+  const toggleClient = (clientId: number, checked: boolean) => {
+    setSelectedClientIds((current) =>
+      checked ? [...current, clientId] : current.filter((id) => id !== clientId)
+    )
+  }
+
+  const tomorrow = format(addDays(new Date(), 1), 'yyyy-MM-dd')
+  const canPreview =
+    change.service_type_id > 0 &&
+    change.effective_from >= tomorrow &&
+    (change.entry_fee_change !== 0 || (change.trainer_fee_change ?? 0) !== 0)
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="schedule-price-change-dialog">
+        <DialogHeader>
+          <DialogTitle>{t('admin:priceSchedule.title')}</DialogTitle>
+          <DialogDescription>{t(`admin:priceSchedule.steps.${step}`)}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'change' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('admin:priceSchedule.serviceType')}</Label>
+              <Select
+                value={change.service_type_id ? change.service_type_id.toString() : undefined}
+                onValueChange={(value) => setChange({ ...change, service_type_id: parseInt(value) })}
+              >
+                <SelectTrigger data-testid="price-schedule-service-type-select">
+                  <SelectValue placeholder={t('admin:priceSchedule.selectServiceType')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {serviceTypes?.map((serviceType) => (
+                    <SelectItem key={serviceType.id} value={serviceType.id.toString()}>
+                      {serviceType.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price_schedule_effective_from">{t('admin:priceSchedule.effectiveFrom')}</Label>
+              <Input
+                id="price_schedule_effective_from"
+                type="date"
+                min={tomorrow}
+                value={change.effective_from}
+                onChange={(e) => setChange({ ...change, effective_from: e.target.value })}
+                data-testid="price-schedule-effective-from-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('admin:priceSchedule.mode')}</Label>
+              <Select
+                value={change.mode}
+                onValueChange={(value) => setChange({ ...change, mode: value as PriceChangeMode })}
+              >
+                <SelectTrigger data-testid="price-schedule-mode-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">{t('admin:priceSchedule.modes.percent')}</SelectItem>
+                  <SelectItem value="amount">{t('admin:priceSchedule.modes.amount')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="price_schedule_entry_fee_change">{t('admin:priceSchedule.entryFeeChange')}</Label>
+                <Input
+                  id="price_schedule_entry_fee_change"
+                  type="number"
+                  step={change.mode === 'percent' ? '0.5' : '100'}
+                  value={change.entry_fee_change}
+                  onChange={(e) => setChange({ ...change, entry_fee_change: parseFloat(e.target.value) || 0 })}
+                  data-testid="price-schedule-entry-fee-input"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price_schedule_trainer_fee_change">{t('admin:priceSchedule.trainerFeeChange')}</Label>
+                <Input
+                  id="price_schedule_trainer_fee_change"
+                  type="number"
+                  step={change.mode === 'percent' ? '0.5' : '100'}
+                  value={change.trainer_fee_change ?? 0}
+                  onChange={(e) => setChange({ ...change, trainer_fee_change: parseFloat(e.target.value) || 0 })}
+                  data-testid="price-schedule-trainer-fee-input"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            {isPreviewLoading && (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            )}
+
+            {preview && preview.clients.length === 0 && (
+              <p className="text-center py-8 text-gray-500">{t('admin:priceSchedule.noClients')}</p>
+            )}
+
+            {preview && preview.clients.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>{t('admin:priceSchedule.client')}</TableHead>
+                    <TableHead>{t('admin:priceSchedule.priceCode')}</TableHead>
+                    <TableHead className="text-right">{t('admin:priceSchedule.currentFees')}</TableHead>
+                    <TableHead className="text-right">{t('admin:priceSchedule.newFees')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.clients.map((row) => (
+                    <TableRow key={row.client_id} data-testid={`price-schedule-row-${row.client_id}`}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedClientIds.includes(row.client_id)}
+                          disabled={row.skip_reason !== null}
+                          onCheckedChange={(checked) => toggleClient(row.client_id, checked === true)}
+                          data-testid={`price-schedule-select-${row.client_id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{row.client_name}</TableCell>
+                      <TableCell>{row.price_code || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(row.current_entry_fee_brutto)} / {formatCurrency(row.current_trainer_fee_brutto)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(row.new_entry_fee_brutto)} / {formatCurrency(row.new_trainer_fee_brutto)}
+                      </TableCell>
+                      <TableCell>
+                        {row.skip_reason && (
+                          <Badge variant="outline">{t(`admin:priceSchedule.skipReasons.${row.skip_reason}`)}</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {step === 'result' && result && (
+          <div className="space-y-4" data-testid="price-schedule-result">
+            <p className="font-semibold flex items-center">
+              <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+              {t('admin:priceSchedule.created', { count: result.created.length, date: change.effective_from })}
+            </p>
+            {result.skipped.length > 0 && (
+              <div>
+                <p className="font-semibold mb-2">{t('admin:priceSchedule.skipped', { count: result.skipped.length })}</p>
+                <ul className="text-sm space-y-1">
+                  {result.skipped.map((row) => (
+                    <li key={row.client_id} className="flex justify-between">
+                      <span>{row.client_name}</span>
+                      <span className="text-gray-500">{t(`admin:priceSchedule.skipReasons.${row.reason}`)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'change' && (
+            <Button onClick={() => setStep('preview')} disabled={!canPreview} data-testid="price-schedule-preview-btn">
+              {t('admin:priceSchedule.next')}
+            </Button>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('change')}>
+                {t('admin:priceSchedule.back')}
+              </Button>
+              <Button
+                onClick={() => scheduleMutation.mutate()}
+                disabled={selectedClientIds.length === 0 || scheduleMutation.isPending}
+                data-testid="price-schedule-submit-btn"
+              >
+                {scheduleMutation.isPending
+                  ? t('common:loading')
+                  : t('admin:priceSchedule.schedule', { count: selectedClientIds.length })}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <Button onClick={() => handleOpenChange(false)}>{t('admin:priceSchedule.close')}</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,203 @@
+import { useRef, useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { publicApi, publicKeys } from '@/api/public'
+import { useAuth } from '@/hooks/useAuth'
+import { UserRole } from '@/types/user'
+import type { PublicServiceType, PublicSessionSlot, PublicTrainer } from '@/types/public'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { QuickRegisterModal } from './QuickRegisterModal'
+import type { AxiosError } from 'axios'
+import type { ApiError } from '@/types/api'
+
+interface SessionBookingModalProps {
+  serviceType: PublicServiceType
+  trainer: PublicTrainer
+  slot: PublicSessionSlot | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onBooked: () => void
+}
+
+export function SessionBookingModal({
+  serviceType,
+  trainer,
+  slot,
+  open,
+  onOpenChange,
+  onBooked,
+}: SessionBookingModalProps) {
+  const { t, i18n } = useTranslation('public')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { isAuthenticated, user } = useAuth()
+  const [showQuickRegister, setShowQuickRegister] = useState(false)
+  const [notes, setNotes] = useState('')
+  // The slot stays selected while the quick registration modal is open
+  const registerSlotRef = useRef<PublicSessionSlot | null>(null)
+
+  // Only clients with a client profile can book (staff book from the calendar)
+  const isClient = user?.role === UserRole.CLIENT
+  const hasClientProfile = !!user?.client?.id
+  const canBook = !isAuthenticated || (isClient && hasClientProfile)
+
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const bookMutation = useMutation({
+    mutationFn: (target: PublicSessionSlot) => publicApi.bookSession({
+      service_type_id: serviceType.id,
+      staff_id: trainer.id,
+      starts_at: target.starts_at,
+      notes: notes.trim() || undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: publicKeys.slots() })
+
+      toast({
+        title: t('common:success'),
+        description: t('sessionBooking.booking.success'),
+      })
+
+      setNotes('')
+      onOpenChange(false)
+      onBooked()
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      const { status, data } = error.response ?? {}
+
+      let errorMessage = t('errors.bookFailed')
+
+      if (status === 409) {
+        // Someone else took the slot in the meantime
+        errorMessage = t('sessionBooking.booking.slotTaken')
+        queryClient.invalidateQueries({ queryKey: publicKeys.slots() })
+      } else if (status === 422 && data?.message) {
+        errorMessage = data.message
+      } else if (status === 403) {
+        errorMessage = t('publicClasses.booking.noClientProfile')
+      }
+
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: errorMessage,
+      })
+    },
+  })
+
+  const handleBook = () => {
+    if (!slot) return
+
+    if (!isAuthenticated) {
+      registerSlotRef.current = slot
+      // Close this modal first to prevent z-index/pointer event conflicts
+      onOpenChange(false)
+      setShowQuickRegister(true)
+      return
+    }
+
+    bookMutation.mutate(slot)
+  }
+
+  const handleQuickRegisterSuccess = () => {
+    setShowQuickRegister(false)
+    // Wait a bit for auth state to update, then book
+    const target = registerSlotRef.current
+    setTimeout(() => {
+      if (target) bookMutation.mutate(target)
+    }, 500)
+  }
+
+  return (
+    <>
+      <Dialog open={open && !!slot} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg" data-testid="session-booking-modal">
+          <DialogHeader>
+            <DialogTitle>{t('sessionBooking.booking.title')}</DialogTitle>
+            <DialogDescription>{t('sessionBooking.booking.description')}</DialogDescription>
+          </DialogHeader>
+
+          {slot && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                <Label className="text-muted-foreground">{t('sessionBooking.serviceType')}</Label>
+                <span className="font-medium">{serviceType.name}</span>
+                <Label className="text-muted-foreground">{t('sessionBooking.trainer')}</Label>
+                <span className="font-medium">{trainer.name}</span>
+                <Label className="text-muted-foreground">{t('sessionBooking.time')}</Label>
+                <span className="font-medium">
+                  {format(new Date(slot.starts_at), 'PPP', { locale })}{' '}
+                  {format(new Date(slot.starts_at), 'HH:mm')}–{format(new Date(slot.ends_at), 'HH:mm')}
+                </span>
+                <Label className="text-muted-foreground">{t('sessionBooking.site')}</Label>
+                <span className="font-medium">{slot.site}</span>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="session-notes">{t('sessionBooking.booking.notes')}</Label>
+                <Textarea
+                  id="session-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder={t('sessionBooking.booking.notesPlaceholder')}
+                  maxLength={1000}
+                  rows={3}
+                />
+              </div>
+
+              {!isAuthenticated && (
+                <div className="bg-muted p-4 rounded-lg">
+                  <p className="text-sm text-muted-foreground">{t('publicClasses.registerToBook')}</p>
+                </div>
+              )}
+
+              {isAuthenticated && !canBook && (
+                <div className="bg-amber-50 dark:bg-amber-950 p-4 rounded-lg border border-amber-200 dark:border-amber-800">
+                  <p className="text-sm text-amber-700 dark:text-amber-300">
+                    {t('publicClasses.booking.noClientProfile')}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={bookMutation.isPending}>
+              {t('common:close')}
+            </Button>
+            <Button
+              onClick={handleBook}
+              disabled={bookMutation.isPending || (isAuthenticated && !canBook)}
+              data-testid="session-book-button"
+            >
+              {bookMutation.isPending
+                ? t('common:loading')
+                : isAuthenticated
+                  ? t('sessionBooking.booking.submit')
+                  : t('publicClasses.registerAndBook')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <QuickRegisterModal
+        open={showQuickRegister}
+        onOpenChange={setShowQuickRegister}
+        onSuccess={handleQuickRegisterSuccess}
+      />
+    </>
+  )
+}
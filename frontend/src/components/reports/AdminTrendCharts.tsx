@@ -0,0 +1,130 @@
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { addDays, format } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { adminReportsApi, reportKeys } from '@/api/reports'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { LineChart } from '@/components/charts/LineChart'
+import { BarChart } from '@/components/charts/BarChart'
+import { Heatmap } from '@/components/charts/Heatmap'
+
+interface AdminTrendChartsProps {
+  dateFrom: string
+  dateTo: string
+}
+
+// Hours shown in the occupancy heatmap (opening hours of the sites)
+const HEATMAP_HOURS = Array.from({ length: 17 }, (_, i) => i + 6)
+
+// Any Monday, used to get localized weekday names
+const A_MONDAY = new Date(2024, 0, 1)
+
+export function AdminTrendCharts({ dateFrom, dateTo }: AdminTrendChartsProps) {
+  const { t, i18n } = useTranslation(['admin', 'common'])
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const { data: weekly, isLoading: isLoadingWeekly } = useQuery({
+    queryKey: reportKeys.admin.financeOverview(dateFrom, dateTo, 'week'),
+    queryFn: () => adminReportsApi.getFinanceOverview(dateFrom, dateTo, 'week'),
+  })
+
+  const { data: occupancy, isLoading: isLoadingOccupancy } = useQuery({
+    queryKey: reportKeys.admin.roomOccupancy(dateFrom, dateTo),
+    queryFn: () => adminReportsApi.getRoomOccupancy(dateFrom, dateTo),
+  })
+
+  // Periods are ISO weeks ("2025-07")
+  const weekLabel = (period: string) => t('reports.charts.weekLabel', { week: period.split('-')[1] })
+
+  const weekdays = Array.from({ length: 7 }, (_, i) => ({
+    key: i + 1,
+    label: format(addDays(A_MONDAY, i), 'EEE', { locale }),
+  }))
+  const hours = HEATMAP_HOURS.map((hour) => ({ key: hour, label: String(hour) }))
+  const occupancyRate = (weekday: number, hour: number) =>
+    occupancy?.cells.find((cell) => cell.weekday === weekday && cell.hour === hour)?.occupancy_rate
+
+  return (
+    <div className="space-y-4" data-testid="admin-trend-charts">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('reports.charts.attendanceRate')}</CardTitle>
+            <CardDescription>{t('reports.charts.attendanceRateDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingWeekly ? (
+              <Skeleton className="h-56 w-full" />
+            ) : (
+              <LineChart
+                data={weekly?.periods ?? []}
+                xKey="period"
+                series={[{ key: 'attendance_rate', label: t('reports.charts.attendanceRate') }]}
+                max={100}
+                formatValue={(value) => `${Math.round(value)}%`}
+                formatLabel={weekLabel}
+                emptyMessage={t('common:noData')}
+                data-testid="attendance-rate-chart"
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('reports.charts.weeklyRevenue')}</CardTitle>
+            <CardDescription>{t('reports.charts.weeklyRevenueDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingWeekly ? (
+              <Skeleton className="h-56 w-full" />
+            ) : (
+              <BarChart
+                data={weekly?.periods ?? []}
+                xKey="period"
+                series={[
+                  { key: 'total_trainer_fee', label: t('reports.trainerFee'), color: '#fb923c' },
+                  { key: 'net_income', label: t('reports.finance.netIncome'), color: '#22c55e' },
+                ]}
+                stacked
+                formatLabel={weekLabel}
+                emptyMessage={t('common:noData')}
+                data-testid="weekly-revenue-chart"
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('reports.charts.roomOccupancy')}</CardTitle>
+          <CardDescription>
+            {occupancy?.summary.peak_weekday
+              ? t('reports.charts.roomOccupancyPeak', {
+                  day: weekdays[occupancy.summary.peak_weekday - 1].label,
+                  hour: occupancy.summary.peak_hour,
+                  rate: occupancy.summary.peak_occupancy_rate,
+                })
+              : t('reports.charts.roomOccupancyDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingOccupancy ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <Heatmap
+              rows={weekdays}
+              columns={hours}
+              valueOf={occupancyRate}
+              formatValue={(value) => `${value.toFixed(1)}%`}
+              emptyMessage={t('common:noData')}
+              data-testid="room-occupancy-heatmap"
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
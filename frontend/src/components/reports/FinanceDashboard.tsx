@@ -0,0 +1,376 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { ArrowDownRight, ArrowUpRight, ChevronRight } from 'lucide-react'
+import { adminReportsApi, reportKeys } from '@/api/reports'
+import type { FinanceTotals } from '@/types/reports'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { SessionDetailTables } from './SessionDetailTables'
+
+interface FinanceDashboardProps {
+  dateFrom: string
+  dateTo: string
+}
+
+interface DrillSelection {
+  siteId: number | null
+  siteName: string
+  trainerId?: number
+  trainerName?: string
+}
+
+const formatAmount = (amount: number, currency = 'HUF') => `${Math.round(amount).toLocaleString()} ${currency}`
+
+// Percentage change against the previous value, null when there is nothing to compare to
+const percentChange = (current: number, previous: number | undefined): number | null =>
+  previous ? ((current - previous) / Math.abs(previous)) * 100 : null
+
+function ChangeIndicator({ current, previous }: { current: number; previous: number | undefined }) {
+  const change = percentChange(current, previous)
+
+  if (change === null) {
+    return <span className="text-xs text-muted-foreground">–</span>
+  }
+
+  const Icon = change >= 0 ? ArrowUpRight : ArrowDownRight
+
+  return (
+    <span className={`inline-flex items-center text-xs font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      <Icon className="h-3 w-3" />
+      {Math.abs(change).toFixed(1)}%
+    </span>
+  )
+}
+
+// Entry fee split into trainer fee and the remaining net income
+function FeeSplitBar({ totals }: { totals: FinanceTotals }) {
+  const share = totals.total_entry_fee > 0
+    ? Math.min(100, (totals.total_trainer_fee / totals.total_entry_fee) * 100)
+    : 0
+
+  return (
+    <div className="flex h-2 w-24 overflow-hidden rounded bg-green-500/70">
+      <div className="bg-orange-400" style={{ width: `${share}%` }} />
+    </div>
+  )
+}
+
+function FeeCells({ totals }: { totals: FinanceTotals }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatAmount(totals.total_entry_fee)}</TableCell>
+      <TableCell className="text-right">{formatAmount(totals.total_trainer_fee)}</TableCell>
+      <TableCell className="text-right font-semibold">{formatAmount(totals.net_income)}</TableCell>
+      <TableCell className="text-right">{totals.total_sessions}</TableCell>
+      <TableCell><FeeSplitBar totals={totals} /></TableCell>
+    </>
+  )
+}
+
+export function FinanceDashboard({ dateFrom, dateTo }: FinanceDashboardProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const [selection, setSelection] = useState<DrillSelection | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: reportKeys.admin.financeOverview(dateFrom, dateTo, 'month'),
+    queryFn: () => adminReportsApi.getFinanceOverview(dateFrom, dateTo, 'month'),
+  })
+
+  const siteId = selection?.siteId ?? null
+  const trainerId = selection?.trainerId
+
+  const { data: siteClients, isLoading: isLoadingSiteClients } = useQuery({
+    queryKey: reportKeys.admin.siteClientList(dateFrom, dateTo, siteId ?? 0),
+    queryFn: () => adminReportsApi.getSiteClientList(dateFrom, dateTo, siteId as number),
+    enabled: siteId !== null && trainerId === undefined,
+  })
+
+  const { data: trainerSessions, isLoading: isLoadingSessions } = useQuery({
+    queryKey: reportKeys.admin.trainerSessions(dateFrom, dateTo, trainerId ?? 0, siteId),
+    queryFn: () => adminReportsApi.getTrainerSessions(dateFrom, dateTo, trainerId as number, siteId),
+    enabled: trainerId !== undefined,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    )
+  }
+
+  if (!data) {
+    return <p className="text-center text-gray-500 py-8">{t('common:noData')}</p>
+  }
+
+  const { summary, comparison, periods, breakdown } = data
+  const selectedSite = selection
+    ? breakdown.sites.find((site) => site.id === selection.siteId)
+    : undefined
+
+  const summaryCards: { key: keyof FinanceTotals; label: string; isAmount: boolean }[] = [
+    { key: 'total_entry_fee', label: t('reports.totalEntryFee'), isAmount: true },
+    { key: 'total_trainer_fee', label: t('reports.totalTrainerFee'), isAmount: true },
+    { key: 'net_income', label: t('reports.finance.netIncome'), isAmount: true },
+    { key: 'total_sessions', label: t('reports.totalSessions'), isAmount: false },
+  ]
+
+  const feeHeaders = (
+    <>
+      <TableHead className="text-right">{t('reports.entryFee')}</TableHead>
+      <TableHead className="text-right">{t('reports.trainerFee')}</TableHead>
+      <TableHead className="text-right">{t('reports.finance.netIncome')}</TableHead>
+      <TableHead className="text-right">{t('reports.totalSessions')}</TableHead>
+      <TableHead>{t('reports.finance.split')}</TableHead>
+    </>
+  )
+
+  return (
+    <div className="space-y-6" data-testid="finance-dashboard">
+      {/* Summary with previous period comparison */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {summaryCards.map(({ key, label, isAmount }) => (
+          <Card key={key}>
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">
+                {isAmount ? formatAmount(summary[key], summary.currency) : summary[key]}
+              </p>
+              <div className="mt-1 flex items-center gap-2">
+                <ChangeIndicator current={summary[key]} previous={comparison[key]} />
+                <span className="text-xs text-muted-foreground">
+                  {t('reports.finance.vsPrevious', { from: comparison.from, to: comparison.to })}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Month over month */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('reports.finance.monthly')}</CardTitle>
+          <CardDescription>{t('reports.finance.monthlyDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {periods.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('reports.noSessionsInPeriod')}</p>
+          ) : (
+            <Table data-testid="finance-monthly-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('reports.period')}</TableHead>
+                  {feeHeaders}
+                  <TableHead className="text-right">{t('reports.finance.change')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map((period, index) => (
+                  <TableRow key={period.period}>
+                    <TableCell className="font-medium">{period.period}</TableCell>
+                    <FeeCells totals={period} />
+                    <TableCell className="text-right">
+                      <ChangeIndicator
+                        current={period.net_income}
+                        previous={index > 0 ? periods[index - 1].net_income : comparison.net_income}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Breakdowns with site → trainer → session drilldown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('reports.finance.breakdown')}</CardTitle>
+          <div className="flex flex-wrap items-center gap-1 text-sm" data-testid="finance-breadcrumb">
+            <Button variant="link" className="h-auto p-0" onClick={() => setSelection(null)}>
+              {t('reports.finance.allSites')}
+            </Button>
+            {selection && (
+              <>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                <Button
+                  variant="link"
+                  className="h-auto p-0"
+                  onClick={() => setSelection({ siteId: selection.siteId, siteName: selection.siteName })}
+                >
+                  {selection.siteName}
+                </Button>
+              </>
+            )}
+            {selection?.trainerName && (
+              <>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{selection.trainerName}</span>
+              </>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!selection && (
+            <Tabs defaultValue="sites">
+              <TabsList>
+                <TabsTrigger value="sites">{t('reports.finance.bySite')}</TabsTrigger>
+                <TabsTrigger value="rooms">{t('reports.finance.byRoom')}</TabsTrigger>
+                <TabsTrigger value="service-types">{t('reports.finance.byServiceType')}</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="sites">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('common:site')}</TableHead>
+                      {feeHeaders}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdown.sites.map((site) => (
+                      <TableRow
+                        key={site.id ?? 'unknown'}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setSelection({ siteId: site.id, siteName: site.name })}
+                        data-testid={`finance-site-${site.id}`}
+                      >
+                        <TableCell className="font-medium">{site.name}</TableCell>
+                        <FeeCells totals={site} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="rooms">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('common:room')}</TableHead>
+                      <TableHead>{t('common:site')}</TableHead>
+                      {feeHeaders}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdown.rooms.map((room) => (
+                      <TableRow key={room.id ?? 'unknown'}>
+                        <TableCell className="font-medium">{room.name}</TableCell>
+                        <TableCell>{room.site_name}</TableCell>
+                        <FeeCells totals={room} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="service-types">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('reports.serviceType')}</TableHead>
+                      {feeHeaders}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdown.service_types.map((serviceType) => (
+                      <TableRow key={serviceType.id ?? 'group'}>
+                        <TableCell className="font-medium">{serviceType.name}</TableCell>
+                        <FeeCells totals={serviceType} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+            </Tabs>
+          )}
+
+          {/* Site level: trainers and clients of the site */}
+          {selection && selection.trainerId === undefined && (
+            <div className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('reports.trainerName')}</TableHead>
+                    {feeHeaders}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(selectedSite?.trainers ?? []).map((trainer) => (
+                    <TableRow
+                      key={trainer.id}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => setSelection({ ...selection, trainerId: trainer.id, trainerName: trainer.name })}
+                      data-testid={`finance-trainer-${trainer.id}`}
+                    >
+                      <TableCell className="font-medium">{trainer.name}</TableCell>
+                      <FeeCells totals={trainer} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {selection.siteId !== null && (
+                <div>
+                  <h4 className="font-semibold text-sm mb-2">{t('reports.finance.siteClients')}</h4>
+                  {isLoadingSiteClients ? (
+                    <Skeleton className="h-24 w-full" />
+                  ) : siteClients && siteClients.clients.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t('reports.clientName')}</TableHead>
+                          <TableHead>{t('reports.email')}</TableHead>
+                          <TableHead className="text-right">{t('reports.entryFee')}</TableHead>
+                          <TableHead className="text-right">{t('reports.totalSessions')}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {siteClients.clients.map((client) => (
+                          <TableRow key={client.client_id}>
+                            <TableCell className="font-medium">{client.client_name}</TableCell>
+                            <TableCell>{client.client_email}</TableCell>
+                            <TableCell className="text-right">{formatAmount(client.total_entry_fee_brutto)}</TableCell>
+                            <TableCell className="text-right">{client.total_sessions}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">{t('common:noData')}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Trainer level: itemized sessions */}
+          {selection?.trainerId !== undefined && (
+            isLoadingSessions ? (
+              <Skeleton className="h-40 w-full" />
+            ) : trainerSessions ? (
+              <SessionDetailTables
+                individualSessions={trainerSessions.individual_sessions}
+                groupSessions={trainerSessions.group_sessions}
+              />
+            ) : null
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
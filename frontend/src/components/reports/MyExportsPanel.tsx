@@ -0,0 +1,131 @@
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { Download, Loader2 } from 'lucide-react'
+import { exportsApi, reportKeys } from '@/api/reports'
+import type { ReportExportJob, ReportExportStatus } from '@/types/reports'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+
+// How often the list is refreshed while an export is still being generated
+const POLL_INTERVAL_MS = 3000
+
+const statusVariant: Record<ReportExportStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  processing: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+const isInProgress = (job: ReportExportJob) => job.status === 'pending' || job.status === 'processing'
+
+export function MyExportsPanel() {
+  const { t } = useTranslation('common')
+  const { toast } = useToast()
+
+  const { data: exports, isLoading } = useQuery({
+    queryKey: reportKeys.exports(),
+    queryFn: exportsApi.list,
+    refetchInterval: (query) => (query.state.data?.some(isInProgress) ? POLL_INTERVAL_MS : false),
+  })
+
+  const handleDownload = async (job: ReportExportJob) => {
+    try {
+      const blob = await exportsApi.download(job.export_id)
+
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = job.file_name
+      document.body.appendChild(link)
+      link.click()
+
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Export download error:', error)
+      toast({
+        variant: 'destructive',
+        title: t('exports.downloadError'),
+        description: job.file_name,
+      })
+    }
+  }
+
+  return (
+    <Card data-testid="my-exports-panel">
+      <CardHeader>
+        <CardTitle>{t('exports.title')}</CardTitle>
+        <CardDescription>{t('exports.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !exports || exports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('exports.empty')}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('exports.file')}</TableHead>
+                <TableHead>{t('exports.requestedAt')}</TableHead>
+                <TableHead>{t('status')}</TableHead>
+                <TableHead className="text-right">{t('actions')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exports.map((job) => (
+                <TableRow key={job.export_id} data-testid={`export-row-${job.export_id}`}>
+                  <TableCell>
+                    <div className="font-medium">{job.file_name}</div>
+                    {job.status === 'failed' && job.error_message && (
+                      <div className="text-xs text-destructive">{job.error_message}</div>
+                    )}
+                    {job.file_size !== null && (
+                      <div className="text-xs text-muted-foreground">{formatFileSize(job.file_size)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(job.created_at), 'yyyy-MM-dd HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant[job.status]} className="gap-1">
+                      {isInProgress(job) && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {t(`exports.status.${job.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownload(job)}
+                      disabled={job.status !== 'completed'}
+                      data-testid={`export-download-${job.export_id}`}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      {t('download')}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { usersApi, sitesApi, roomsApi, adminKeys } from '@/api/admin'
+import { reportPresetsApi, reportKeys } from '@/api/reports'
+import { REPORT_PRESET_RANGES, REPORT_SERVICE_TYPES, applyPreset } from '@/lib/reportFilters'
+import type { ReportFilterState } from '@/hooks/useReportFilters'
+import type {
+  ReportFilterParams,
+  ReportPresetRange,
+  ReportServiceType,
+  RoomOption,
+  SiteOption,
+  TrainerOption,
+} from '@/types/reports'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { Link2, Save, Trash2 } from 'lucide-react'
+
+interface ReportFilterBarProps {
+  dateFrom: string
+  dateTo: string
+  filters: ReportFilterParams
+  onChange: (next: Partial<ReportFilterState>) => void
+}
+
+const ALL = 'all'
+
+export function ReportFilterBar({ dateFrom, dateTo, filters, onChange }: ReportFilterBarProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [selectedPresetId, setSelectedPresetId] = useState<number | null>(null)
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [presetName, setPresetName] = useState('')
+  const [presetRange, setPresetRange] = useState<ReportPresetRange>('custom')
+
+  const { data: staffUsers } = useQuery({
+    queryKey: adminKeys.usersList({ role: 'staff' }),
+    queryFn: () => usersApi.list({ role: 'staff' }),
+  })
+
+  const { data: sites } = useQuery({
+    queryKey: adminKeys.sitesList(),
+    queryFn: () => sitesApi.list(),
+  })
+
+  const { data: rooms } = useQuery({
+    queryKey: adminKeys.roomsList(),
+    queryFn: () => roomsApi.list(),
+  })
+
+  const { data: presets = [] } = useQuery({
+    queryKey: reportKeys.presets(),
+    queryFn: reportPresetsApi.list,
+  })
+
+  // Report filters use staff profile ids, not user ids
+  const trainerOptions: TrainerOption[] = (staffUsers?.data ?? [])
+    .filter((user) => user.staff_profile)
+    .map((user) => ({ id: user.staff_profile!.id, name: user.name }))
+  const siteOptions: SiteOption[] = sites ?? []
+  const roomOptions: RoomOption[] = (rooms ?? []).filter((room) => !filters.site_id || room.site_id === filters.site_id)
+
+  const setFilter = (key: keyof ReportFilterParams, value: string) => {
+    const next: ReportFilterParams = { ...filters }
+    if (value === ALL) {
+      delete next[key]
+    } else if (key === 'service_type') {
+      next.service_type = value as ReportServiceType
+    } else {
+      next[key] = Number(value)
+    }
+    // A room of another site would match nothing
+    if (key === 'site_id') delete next.room_id
+    setSelectedPresetId(null)
+    onChange({ filters: next })
+  }
+
+  const handlePresetSelect = (value: string) => {
+    const preset = presets.find((p) => p.id === Number(value))
+    if (!preset) return
+    setSelectedPresetId(preset.id)
+    onChange(applyPreset(preset.filters))
+  }
+
+  const savePresetMutation = useMutation({
+    mutationFn: () =>
+      reportPresetsApi.create({
+        name: presetName.trim(),
+        filters: {
+          ...filters,
+          range: presetRange,
+          ...(presetRange === 'custom' ? { date_from: dateFrom, date_to: dateTo } : {}),
+        },
+      }),
+    onSuccess: (preset) => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.presets() })
+      setSelectedPresetId(preset.id)
+      setSaveDialogOpen(false)
+      setPresetName('')
+      toast({ title: t('reports.presets.saved') })
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: error.response?.data?.message || t('common:error'),
+      })
+    },
+  })
+
+  const deletePresetMutation = useMutation({
+    mutationFn: reportPresetsApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.presets() })
+      setSelectedPresetId(null)
+      toast({ title: t('reports.presets.deleted') })
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('common:error'),
+        description: error.response?.data?.message || t('common:error'),
+      })
+    },
+  })
+
+  // The page URL already holds the dates and filters
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: t('reports.filterBar.linkCopied') })
+    } catch (err) {
+      console.error('Failed to copy:', err)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-end gap-4" data-testid="report-filter-bar">
+      <div className="space-y-2">
+        <Label>{t('reports.filterBar.trainer')}</Label>
+        <Select value={filters.trainer_id?.toString() ?? ALL} onValueChange={(value) => setFilter('trainer_id', value)}>
+          <SelectTrigger className="w-44" data-testid="report-filter-trainer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('reports.filterBar.allTrainers')}</SelectItem>
+            {trainerOptions.map((trainer) => (
+              <SelectItem key={trainer.id} value={trainer.id.toString()}>
+                {trainer.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('reports.filterBar.site')}</Label>
+        <Select value={filters.site_id?.toString() ?? ALL} onValueChange={(value) => setFilter('site_id', value)}>
+          <SelectTrigger className="w-40" data-testid="report-filter-site">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('reports.filterBar.allSites')}</SelectItem>
+            {siteOptions.map((site) => (
+              <SelectItem key={site.id} value={site.id.toString()}>
+                {site.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('reports.filterBar.room')}</Label>
+        <Select value={filters.room_id?.toString() ?? ALL} onValueChange={(value) => setFilter('room_id', value)}>
+          <SelectTrigger className="w-40" data-testid="report-filter-room">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('reports.filterBar.allRooms')}</SelectItem>
+            {roomOptions.map((room) => (
+              <SelectItem key={room.id} value={room.id.toString()}>
+                {room.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('reports.filterBar.serviceType')}</Label>
+        <Select value={filters.service_type ?? ALL} onValueChange={(value) => setFilter('service_type', value)}>
+          <SelectTrigger className="w-40" data-testid="report-filter-service-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('reports.filterBar.allServiceTypes')}</SelectItem>
+            {REPORT_SERVICE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {t(`reports.filterBar.serviceTypes.${type}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2 ml-auto">
+        <Label>{t('reports.presets.title')}</Label>
+        <div className="flex gap-2">
+          <Select value={selectedPresetId?.toString() ?? ''} onValueChange={handlePresetSelect}>
+            <SelectTrigger className="w-48" data-testid="report-preset-select">
+              <SelectValue placeholder={presets.length ? t('reports.presets.choose') : t('reports.presets.none')} />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id.toString()}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedPresetId && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => deletePresetMutation.mutate(selectedPresetId)}
+              disabled={deletePresetMutation.isPending}
+              title={t('reports.presets.delete')}
+              data-testid="delete-preset-btn"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setSaveDialogOpen(true)} data-testid="save-preset-btn">
+            <Save className="h-4 w-4 mr-2" />
+            {t('reports.presets.save')}
+          </Button>
+          <Button variant="outline" onClick={copyLink} data-testid="copy-report-link-btn">
+            <Link2 className="h-4 w-4 mr-2" />
+            {t('reports.filterBar.copyLink')}
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('reports.presets.saveTitle')}</DialogTitle>
+            <DialogDescription>{t('reports.presets.saveDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="preset_name">{t('reports.presets.name')}</Label>
+              <Input
+                id="preset_name"
+                value={presetName}
+                maxLength={100}
+                onChange={(e) => setPresetName(e.target.value)}
+                data-testid="preset-name-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('reports.presets.range')}</Label>
+              <Select value={presetRange} onValueChange={(value) => setPresetRange(value as ReportPresetRange)}>
+                <SelectTrigger data-testid="preset-range-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_PRESET_RANGES.map((range) => (
+                    <SelectItem key={range} value={range}>
+                      {range === 'custom'
+                        ? t('reports.presets.ranges.custom', { from: dateFrom, to: dateTo })
+                        : t(`reports.presets.ranges.${range}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              {t('common:cancel')}
+            </Button>
+            <Button
+              onClick={() => savePresetMutation.mutate()}
+              disabled={!presetName.trim() || savePresetMutation.isPending}
+              data-testid="confirm-save-preset-btn"
+            >
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useTranslation } from 'react-i18next'
+import { Check, X, AlertTriangle } from 'lucide-react'
+import type { IndividualSessionDetail, GroupSessionDetail } from '@/types/admin'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+
+interface SessionDetailTablesProps {
+  individualSessions: IndividualSessionDetail[]
+  groupSessions: GroupSessionDetail[]
+}
+
+/**
+ * Itemized 1:1 sessions and group classes of a trainer (payouts report, finance drilldown)
+ */
+export function SessionDetailTables({ individualSessions, groupSessions }: SessionDetailTablesProps) {
+  const { t } = useTranslation(['admin', 'common'])
+
+  return (
+    <div className="space-y-4">
+      {/* Individual Sessions */}
+      {individualSessions.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm mb-2">{t('reports.individualSessions')} ({individualSessions.length})</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="text-xs">{t('reports.date')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.time')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.clientName')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.serviceType')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.room')}</TableHead>
+                  <TableHead className="text-xs text-right">{t('reports.entryFee')}</TableHead>
+                  <TableHead className="text-xs text-right">{t('reports.trainerFee')}</TableHead>
+                  <TableHead className="text-xs text-right">{t('reports.totalFee')}</TableHead>
+                  <TableHead className="text-xs text-center">{t('reports.status')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {individualSessions.map((session) => (
+                  <TableRow key={session.id} className="text-sm">
+                    <TableCell className="text-xs">{session.date}</TableCell>
+                    <TableCell className="text-xs">{session.time}</TableCell>
+                    <TableCell className="text-xs">{session.client_name}</TableCell>
+                    <TableCell className="text-xs">{session.service_type}</TableCell>
+                    <TableCell className="text-xs">{session.room}</TableCell>
+                    <TableCell className="text-xs text-right">{(session.entry_fee || 0).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs text-right">{(session.trainer_fee || 0).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs text-right font-semibold">{(session.total_fee || (session.entry_fee || 0) + (session.trainer_fee || 0)).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs text-center">
+                      {session.attendance_status === 'attended' && (
+                        <Check className="h-4 w-4 text-green-600 mx-auto" />
+                      )}
+                      {session.attendance_status === 'no_show' && (
+                        <X className="h-4 w-4 text-red-600 mx-auto" />
+                      )}
+                      {!session.attendance_status && (
+                        <AlertTriangle className="h-4 w-4 text-yellow-500 mx-auto" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {/* Group Classes */}
+      {groupSessions.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm mb-2">{t('reports.groupClasses')} ({groupSessions.length})</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="text-xs">{t('reports.date')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.time')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.className')}</TableHead>
+                  <TableHead className="text-xs">{t('reports.room')}</TableHead>
+                  <TableHead className="text-xs text-right">{t('reports.participants')}</TableHead>
+                  <TableHead className="text-xs text-right">{t('reports.entryFee')}</TableHead>
+                  <TableHead className="text-xs text-right">{t('reports.trainerFee')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groupSessions.map((session) => (
+                  <TableRow key={session.id} className="text-sm">
+                    <TableCell className="text-xs">{session.date}</TableCell>
+                    <TableCell className="text-xs">{session.time}</TableCell>
+                    <TableCell className="text-xs">{session.class_name}</TableCell>
+                    <TableCell className="text-xs">{session.room}</TableCell>
+                    <TableCell className="text-xs text-right">{session.participants}</TableCell>
+                    <TableCell className="text-xs text-right">{(session.entry_fee || 0).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs text-right">{(session.trainer_fee || 0).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {/* No sessions message */}
+      {individualSessions.length === 0 && groupSessions.length === 0 && (
+        <p className="text-sm text-muted-foreground">{t('reports.noSessionsInPeriod')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { staffReportsApi, reportKeys } from '@/api/reports'
+import type { StaffTrendsGranularity } from '@/types/reports'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { LineChart } from '@/components/charts/LineChart'
+import { BarChart } from '@/components/charts/BarChart'
+
+interface StaffTrendChartsProps {
+  dateFrom: string
+  dateTo: string
+}
+
+export function StaffTrendCharts({ dateFrom, dateTo }: StaffTrendChartsProps) {
+  const { t } = useTranslation(['staff', 'common'])
+  const [granularity, setGranularity] = useState<StaffTrendsGranularity>('week')
+
+  const { data: trends, isLoading } = useQuery({
+    queryKey: reportKeys.staff.trends(dateFrom, dateTo, granularity),
+    queryFn: () => staffReportsApi.getMyTrends(dateFrom, dateTo, granularity),
+  })
+
+  // Weeks come as "2025-07" (ISO week), months as "2025-02"
+  const periodLabel = (period: string) =>
+    granularity === 'week' ? t('reports.trends.weekLabel', { week: period.split('-')[1] }) : period
+
+  return (
+    <Card data-testid="staff-trend-charts">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>{t('reports.trends.title')}</CardTitle>
+          <CardDescription>{dateFrom} - {dateTo}</CardDescription>
+        </div>
+        <Select value={granularity} onValueChange={(value) => setGranularity(value as StaffTrendsGranularity)}>
+          <SelectTrigger className="w-32" data-testid="staff-trends-granularity">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="week">{t('reports.trends.weekly')}</SelectItem>
+            <SelectItem value="month">{t('reports.trends.monthly')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Skeleton className="h-56 w-full" />
+            <Skeleton className="h-56 w-full" />
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t('reports.trends.attendanceRate')}</h3>
+              <LineChart
+                data={trends?.periods ?? []}
+                xKey="period"
+                series={[{ key: 'attendance_rate', label: t('reports.trends.attendanceRate') }]}
+                max={100}
+                formatValue={(value) => `${Math.round(value)}%`}
+                formatLabel={periodLabel}
+                emptyMessage={t('common:noData')}
+                data-testid="staff-attendance-rate-chart"
+              />
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t('reports.trends.hours')}</h3>
+              <BarChart
+                data={trends?.periods ?? []}
+                xKey="period"
+                series={[{ key: 'total_hours', label: t('reports.trends.hours') }]}
+                formatValue={(value) => `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} h`}
+                formatLabel={periodLabel}
+                emptyMessage={t('common:noData')}
+                data-testid="staff-hours-chart"
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,341 @@
+import { Fragment, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { format, subMonths } from 'date-fns'
+import { settlementsApi, settlementKeys } from '@/api/settlements'
+import type { MonthCloseResult, MonthCloseTrainerRow, SettlementIssue } from '@/types/pricing'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight } from 'lucide-react'
+
+interface MonthCloseWizardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  formatCurrency: (amount: number) => string
+}
+
+type Step = 'month' | 'preview' | 'result'
+
+/**
+ * "Close the month": preview every active trainer's settlement of a month, review the
+ * sessions that need attention and generate all drafts in one go
+ */
+export function MonthCloseWizard({ open, onOpenChange, formatCurrency }: MonthCloseWizardProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [step, setStep] = useState<Step>('month')
+  const [month, setMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'))
+  const [selectedTrainerIds, setSelectedTrainerIds] = useState<number[]>([])
+  const [expandedTrainerId, setExpandedTrainerId] = useState<number | null>(null)
+  const [result, setResult] = useState<MonthCloseResult | null>(null)
+
+  const { data: preview, isLoading: isPreviewLoading } = useQuery({
+    queryKey: settlementKeys.monthClose(month),
+    queryFn: () => settlementsApi.monthClosePreview(month),
+    enabled: open && step === 'preview',
+  })
+
+  // Every trainer that can be settled is selected by default
+  useEffect(() => {
+    if (preview) {
+      setSelectedTrainerIds(preview.trainers.filter((row) => row.skip_reason === null).map((row) => row.trainer_id))
+    }
+  }, [preview])
+
+  const generateMutation = useMutation({
+    // Trainers that cannot be settled are sent too, so the summary lists why they were skipped
+    mutationFn: () =>
+      settlementsApi.monthClose({
+        month,
+        trainer_ids: [
+          ...selectedTrainerIds,
+          ...(preview?.trainers.filter((row) => row.skip_reason !== null).map((row) => row.trainer_id) ?? []),
+        ],
+      }),
+    onSuccess: (data) => {
+      setResult(data)
+      setStep('result')
+      queryClient.invalidateQueries({ queryKey: settlementKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: settlementKeys.monthClose(month) })
+      toast({
+        title: t('settlements.monthClose.generateSuccess', { count: data.created.length }),
+      })
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('settlements.generateError'),
+        description: error.response?.data?.message || t('settlements.generateErrorDescription'),
+      })
+    },
+  })
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setStep('month')
+      setResult(null)
+      setExpandedTrainerId(null)
+    }
+    onOpenChange(isOpen)
+  }
+
+  const toggleTrainer = (trainerId: number, checked: boolean) => {
+    setSelectedTrainerIds((current) =>
+      checked ? [...current, trainerId] : current.filter((id) => id !== trainerId)
+    )
+  }
+
+  const issueCount = (row: MonthCloseTrainerRow) => row.missing_pricing.length + row.unchecked_attendance.length
+
+  const selectedRows = preview?.trainers.filter((row) => selectedTrainerIds.includes(row.trainer_id)) ?? []
+  const selectedTotal = selectedRows.reduce((sum, row) => sum + row.total_trainer_fee, 0)
+  const selectedWithIssues = selectedRows.filter((row) => issueCount(row) > 0).length
+
+  const renderIssues = (title: string, issues: SettlementIssue[], testId: string) =>
+    issues.length > 0 && (
+      <div data-testid={testId}>
+        <p className="font-medium text-sm mb-1">{title}</p>
+        <ul className="text-sm text-gray-600 space-y-0.5">
+          {issues.map((issue) => (
+            <li key={`${issue.event_id ?? ''}-${issue.registration_id ?? ''}`}>
+              {format(new Date(issue.class_date), 'yyyy-MM-dd HH:mm')} · {issue.class_name} · {issue.client_name}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto" data-testid="month-close-wizard">
+        <DialogHeader>
+          <DialogTitle>{t('settlements.monthClose.title')}</DialogTitle>
+          <DialogDescription>{t(`settlements.monthClose.steps.${step}`)}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'month' && (
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="month_close_month">{t('settlements.monthClose.month')}</Label>
+            <Input
+              id="month_close_month"
+              type="month"
+              value={month}
+              max={format(new Date(), 'yyyy-MM')}
+              onChange={(e) => setMonth(e.target.value)}
+              data-testid="month-close-month-input"
+            />
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            {isPreviewLoading && (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            )}
+
+            {preview && preview.trainers.length === 0 && (
+              <p className="text-center py-8 text-gray-500">{t('settlements.monthClose.noTrainers')}</p>
+            )}
+
+            {preview && preview.trainers.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>{t('settlements.trainer')}</TableHead>
+                    <TableHead className="text-right">{t('settlements.monthClose.sessions')}</TableHead>
+                    <TableHead className="text-right">{t('settlements.totalTrainerFee')}</TableHead>
+                    <TableHead className="text-right">{t('settlements.totalEntryFee')}</TableHead>
+                    <TableHead>{t('settlements.monthClose.issues')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.trainers.map((row) => {
+                    const issues = issueCount(row)
+                    const isExpanded = expandedTrainerId === row.trainer_id
+
+                    return (
+                      <Fragment key={row.trainer_id}>
+                        <TableRow
+                          className={issues > 0 ? 'bg-amber-50' : undefined}
+                          data-testid={`month-close-row-${row.trainer_id}`}
+                        >
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedTrainerIds.includes(row.trainer_id)}
+                              disabled={row.skip_reason !== null}
+                              onCheckedChange={(checked) => toggleTrainer(row.trainer_id, checked === true)}
+                              data-testid={`month-close-select-${row.trainer_id}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{row.trainer_name}</TableCell>
+                          <TableCell className="text-right">
+                            {row.items_count}
+                            <span className="text-gray-500 text-xs ml-1">
+                              ({row.individual_count} / {row.group_count})
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.total_trainer_fee)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.total_entry_fee)}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-1">
+                              {row.skip_reason && (
+                                <Badge variant="outline">{t(`settlements.monthClose.skipReasons.${row.skip_reason}`)}</Badge>
+                              )}
+                              {row.missing_pricing.length > 0 && (
+                                <Badge variant="destructive">
+                                  {t('settlements.monthClose.missingPricingCount', { count: row.missing_pricing.length })}
+                                </Badge>
+                              )}
+                              {row.unchecked_attendance.length > 0 && (
+                                <Badge variant="secondary">
+                                  {t('settlements.monthClose.uncheckedAttendanceCount', { count: row.unchecked_attendance.length })}
+                                </Badge>
+                              )}
+                              {issues > 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setExpandedTrainerId(isExpanded ? null : row.trainer_id)}
+                                  data-testid={`month-close-issues-toggle-${row.trainer_id}`}
+                                >
+                                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell />
+                            <TableCell colSpan={5} className="space-y-3">
+                              {renderIssues(
+                                t('settlements.monthClose.missingPricing'),
+                                row.missing_pricing,
+                                `month-close-missing-pricing-${row.trainer_id}`
+                              )}
+                              {renderIssues(
+                                t('settlements.monthClose.uncheckedAttendance'),
+                                row.unchecked_attendance,
+                                `month-close-unchecked-${row.trainer_id}`
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {preview && (
+              <div className="flex flex-wrap justify-between gap-2 text-sm">
+                <span data-testid="month-close-selection-summary">
+                  {t('settlements.monthClose.selectionSummary', {
+                    count: selectedRows.length,
+                    total: formatCurrency(selectedTotal),
+                  })}
+                </span>
+                {selectedWithIssues > 0 && (
+                  <span className="flex items-center text-amber-700">
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                    {t('settlements.monthClose.issuesWarning', { count: selectedWithIssues })}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'result' && result && (
+          <div className="space-y-4" data-testid="month-close-result">
+            <div>
+              <p className="font-semibold flex items-center mb-2">
+                <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+                {t('settlements.monthClose.created', { count: result.created.length })}
+              </p>
+              <ul className="text-sm space-y-1">
+                {result.created.map((row) => (
+                  <li key={row.settlement_id} className="flex justify-between">
+                    <span>{row.trainer_name}</span>
+                    <span>{formatCurrency(row.total_trainer_fee)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            {result.skipped.length > 0 && (
+              <div data-testid="month-close-skipped">
+                <p className="font-semibold mb-2">
+                  {t('settlements.monthClose.skipped', { count: result.skipped.length })}
+                </p>
+                <ul className="text-sm space-y-1">
+                  {result.skipped.map((row) => (
+                    <li key={row.trainer_id} className="flex justify-between">
+                      <span>{row.trainer_name}</span>
+                      <span className="text-gray-500">
+                        {t(`settlements.monthClose.skipReasons.${row.reason}`)}
+                        {row.existing_settlement_id && ` (#${row.existing_settlement_id})`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'month' && (
+            <Button onClick={() => setStep('preview')} disabled={!month} data-testid="month-close-preview-btn">
+              {t('settlements.monthClose.next')}
+            </Button>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('month')}>
+                {t('settlements.monthClose.back')}
+              </Button>
+              <Button
+                onClick={() => generateMutation.mutate()}
+                disabled={selectedTrainerIds.length === 0 || generateMutation.isPending}
+                data-testid="month-close-generate-btn"
+              >
+                {generateMutation.isPending
+                  ? t('common:loading')
+                  : t('settlements.monthClose.generate', { count: selectedTrainerIds.length })}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <Button onClick={() => handleOpenChange(false)} data-testid="month-close-done-btn">
+              {t('settlements.monthClose.done')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,372 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { settlementsApi, settlementKeys } from '@/api/settlements'
+import type { Settlement, SettlementAdjustmentType } from '@/types/pricing'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Separator } from '@/components/ui/separator'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { Check, DollarSign, FileDown, Lock, Plus, Trash2, Unlock } from 'lucide-react'
+
+interface SettlementLifecyclePanelProps {
+  settlement: Settlement
+  formatCurrency: (amount: number) => string
+}
+
+/**
+ * Finalize / unlock / mark paid actions, adjustment lines and unlock history of a settlement
+ */
+export function SettlementLifecyclePanel({ settlement, formatCurrency }: SettlementLifecyclePanelProps) {
+  const { t } = useTranslation(['admin', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [unlockDialogOpen, setUnlockDialogOpen] = useState(false)
+  const [unlockReason, setUnlockReason] = useState('')
+  const [paidDialogOpen, setPaidDialogOpen] = useState(false)
+  const [paidAt, setPaidAt] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [paymentReference, setPaymentReference] = useState('')
+  const [adjustmentType, setAdjustmentType] = useState<SettlementAdjustmentType>('bonus')
+  const [adjustmentAmount, setAdjustmentAmount] = useState('')
+  const [adjustmentReason, setAdjustmentReason] = useState('')
+
+  const isDraft = settlement.status === 'draft'
+
+  const onSuccess = (message: string) => (updated: Settlement) => {
+    queryClient.setQueryData(settlementKeys.detail(settlement.id), updated)
+    queryClient.invalidateQueries({ queryKey: settlementKeys.lists() })
+    toast({ title: message })
+  }
+
+  const onError = (error: AxiosError<ApiError>) => {
+    toast({
+      variant: 'destructive',
+      title: t('settlements.statusUpdateError'),
+      description: error.response?.data?.message || t('common:error'),
+    })
+  }
+
+  const finalizeMutation = useMutation({
+    mutationFn: () => settlementsApi.finalize(settlement.id),
+    onSuccess: onSuccess(t('settlements.lifecycle.finalized')),
+    onError,
+  })
+
+  const unlockMutation = useMutation({
+    mutationFn: () => settlementsApi.unlock(settlement.id, unlockReason.trim()),
+    onSuccess: (updated: Settlement) => {
+      onSuccess(t('settlements.lifecycle.unlocked'))(updated)
+      setUnlockDialogOpen(false)
+      setUnlockReason('')
+    },
+    onError,
+  })
+
+  const markPaidMutation = useMutation({
+    mutationFn: () =>
+      settlementsApi.markPaid(settlement.id, { paid_at: paidAt, payment_reference: paymentReference.trim() }),
+    onSuccess: (updated: Settlement) => {
+      onSuccess(t('settlements.lifecycle.paid'))(updated)
+      setPaidDialogOpen(false)
+      setPaymentReference('')
+    },
+    onError,
+  })
+
+  const addAdjustmentMutation = useMutation({
+    mutationFn: () =>
+      settlementsApi.addAdjustment(settlement.id, {
+        type: adjustmentType,
+        amount: Number(adjustmentAmount),
+        reason: adjustmentReason.trim(),
+      }),
+    onSuccess: (updated: Settlement) => {
+      onSuccess(t('settlements.adjustments.added'))(updated)
+      setAdjustmentAmount('')
+      setAdjustmentReason('')
+    },
+    onError,
+  })
+
+  const deleteAdjustmentMutation = useMutation({
+    mutationFn: (adjustmentId: number) => settlementsApi.deleteAdjustment(settlement.id, adjustmentId),
+    onSuccess: onSuccess(t('settlements.adjustments.removed')),
+    onError,
+  })
+
+  const handleDownloadStatement = async () => {
+    try {
+      const blob = await settlementsApi.downloadStatement(settlement.id)
+
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `kifizetesi_kimutatas_${settlement.id}_${settlement.period_start}_${settlement.period_end}.pdf`
+      document.body.appendChild(link)
+      link.click()
+
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Statement download error:', error)
+      toast({
+        variant: 'destructive',
+        title: t('settlements.lifecycle.statementError'),
+      })
+    }
+  }
+
+  const canAddAdjustment = Number(adjustmentAmount) > 0 && adjustmentReason.trim() !== ''
+
+  return (
+    <div className="space-y-6" data-testid="settlement-lifecycle-panel">
+      {/* Status actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        {isDraft && (
+          <Button onClick={() => finalizeMutation.mutate()} disabled={finalizeMutation.isPending} data-testid="finalize-btn">
+            <Check className="h-4 w-4 mr-2" />
+            {t('settlements.markAsFinalized')}
+          </Button>
+        )}
+        {settlement.status === 'finalized' && (
+          <>
+            <Button onClick={() => setPaidDialogOpen(true)} data-testid="mark-paid-btn">
+              <DollarSign className="h-4 w-4 mr-2" />
+              {t('settlements.markAsPaid')}
+            </Button>
+            <Button variant="outline" onClick={() => setUnlockDialogOpen(true)} data-testid="unlock-btn">
+              <Unlock className="h-4 w-4 mr-2" />
+              {t('settlements.lifecycle.unlock')}
+            </Button>
+          </>
+        )}
+        <Button variant="outline" onClick={handleDownloadStatement} data-testid="download-statement-btn">
+          <FileDown className="h-4 w-4 mr-2" />
+          {t('settlements.lifecycle.downloadStatement')}
+        </Button>
+        {settlement.locked_at && (
+          <span className="flex items-center text-sm text-muted-foreground ml-auto" data-testid="settlement-locked-note">
+            <Lock className="h-4 w-4 mr-1" />
+            {t('settlements.lifecycle.lockedNote')}
+          </span>
+        )}
+      </div>
+
+      {settlement.status === 'paid' && (
+        <div className="grid grid-cols-2 gap-4 rounded-lg border p-4" data-testid="settlement-payment-info">
+          <div>
+            <p className="text-sm text-gray-500">{t('settlements.lifecycle.paidAt')}</p>
+            <p className="font-medium">{settlement.paid_at}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">{t('settlements.lifecycle.paymentReference')}</p>
+            <p className="font-medium">{settlement.payment_reference}</p>
+          </div>
+        </div>
+      )}
+
+      <Separator />
+
+      {/* Adjustments */}
+      <div className="space-y-3">
+        <h3 className="font-semibold">{t('settlements.adjustments.title')}</h3>
+        {settlement.adjustments && settlement.adjustments.length > 0 ? (
+          <div className="space-y-2">
+            {settlement.adjustments.map((adjustment) => (
+              <div
+                key={adjustment.id}
+                className="flex items-center justify-between rounded-lg border p-3 text-sm"
+                data-testid={`settlement-adjustment-${adjustment.id}`}
+              >
+                <div>
+                  <p className="font-medium">{t(`settlements.adjustments.types.${adjustment.type}`)}: {adjustment.reason}</p>
+                  {adjustment.created_by_name && <p className="text-gray-500">{adjustment.created_by_name}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={adjustment.type === 'bonus' ? 'font-medium text-green-600' : 'font-medium text-red-600'}>
+                    {adjustment.type === 'bonus' ? '+' : '-'}{formatCurrency(adjustment.amount)}
+                  </span>
+                  {isDraft && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteAdjustmentMutation.mutate(adjustment.id)}
+                      disabled={deleteAdjustmentMutation.isPending}
+                      title={t('common:delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">{t('settlements.adjustments.none')}</p>
+        )}
+
+        {isDraft && (
+          <div className="grid grid-cols-1 md:grid-cols-[10rem_10rem_1fr_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <Label>{t('settlements.adjustments.type')}</Label>
+              <Select value={adjustmentType} onValueChange={(value) => setAdjustmentType(value as SettlementAdjustmentType)}>
+                <SelectTrigger data-testid="adjustment-type-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bonus">{t('settlements.adjustments.types.bonus')}</SelectItem>
+                  <SelectItem value="deduction">{t('settlements.adjustments.types.deduction')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{t('settlements.adjustments.amount')}</Label>
+              <Input
+                type="number"
+                min={1}
+                value={adjustmentAmount}
+                onChange={(e) => setAdjustmentAmount(e.target.value)}
+                data-testid="adjustment-amount-input"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('settlements.adjustments.reason')}</Label>
+              <Input
+                value={adjustmentReason}
+                maxLength={255}
+                onChange={(e) => setAdjustmentReason(e.target.value)}
+                data-testid="adjustment-reason-input"
+              />
+            </div>
+            <Button
+              onClick={() => addAdjustmentMutation.mutate()}
+              disabled={!canAddAdjustment || addAdjustmentMutation.isPending}
+              data-testid="add-adjustment-btn"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {t('settlements.adjustments.add')}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-between font-semibold">
+          <span>{t('settlements.totalPayable')}</span>
+          <span data-testid="settlement-total-payable">{formatCurrency(settlement.total_payable)}</span>
+        </div>
+      </div>
+
+      {/* Unlock history */}
+      {settlement.unlocks && settlement.unlocks.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-2">
+            <h3 className="font-semibold">{t('settlements.lifecycle.unlockHistory')}</h3>
+            {settlement.unlocks.map((unlock) => (
+              <div key={unlock.id} className="text-sm">
+                <span className="text-gray-500">
+                  {format(new Date(unlock.created_at), 'yyyy-MM-dd HH:mm')}
+                  {unlock.unlocked_by_name && ` · ${unlock.unlocked_by_name}`}:
+                </span>{' '}
+                {unlock.reason}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Unlock dialog */}
+      <Dialog open={unlockDialogOpen} onOpenChange={setUnlockDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('settlements.lifecycle.unlockTitle')}</DialogTitle>
+            <DialogDescription>{t('settlements.lifecycle.unlockDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="unlock_reason">{t('settlements.lifecycle.unlockReason')}</Label>
+            <Textarea
+              id="unlock_reason"
+              value={unlockReason}
+              maxLength={1000}
+              onChange={(e) => setUnlockReason(e.target.value)}
+              data-testid="unlock-reason-input"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUnlockDialogOpen(false)}>
+              {t('common:cancel')}
+            </Button>
+            <Button
+              onClick={() => unlockMutation.mutate()}
+              disabled={unlockReason.trim().length < 5 || unlockMutation.isPending}
+              data-testid="confirm-unlock-btn"
+            >
+              {t('settlements.lifecycle.unlock')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Mark paid dialog */}
+      <Dialog open={paidDialogOpen} onOpenChange={setPaidDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('settlements.markAsPaid')}</DialogTitle>
+            <DialogDescription>
+              {t('settlements.lifecycle.markPaidDescription', { amount: formatCurrency(settlement.total_payable) })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="paid_at">{t('settlements.lifecycle.paidAt')}</Label>
+              <Input
+                id="paid_at"
+                type="date"
+                value={paidAt}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setPaidAt(e.target.value)}
+                data-testid="paid-at-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment_reference">{t('settlements.lifecycle.paymentReference')}</Label>
+              <Input
+                id="payment_reference"
+                value={paymentReference}
+                maxLength={100}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                data-testid="payment-reference-input"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaidDialogOpen(false)}>
+              {t('common:cancel')}
+            </Button>
+            <Button
+              onClick={() => markPaidMutation.mutate()}
+              disabled={!paidAt || !paymentReference.trim() || markPaidMutation.isPending}
+              data-testid="confirm-mark-paid-btn"
+            >
+              {t('settlements.markAsPaid')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
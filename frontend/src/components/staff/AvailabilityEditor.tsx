@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import type { AxiosError } from 'axios'
+import { format, parseISO } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { availabilityApi, availabilityKeys } from '@/api/availability'
+import type { ApiError } from '@/types/api'
+import type {
+  AvailabilityExceptionType,
+  CreateAvailabilityExceptionRequest,
+  WeeklyAvailabilitySlot,
+} from '@/types/staff'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+
+const WEEKDAYS = [
+  { value: 1, key: 'monday' },
+  { value: 2, key: 'tuesday' },
+  { value: 3, key: 'wednesday' },
+  { value: 4, key: 'thursday' },
+  { value: 5, key: 'friday' },
+  { value: 6, key: 'saturday' },
+  { value: 7, key: 'sunday' },
+] as const
+
+const EXCEPTION_TYPES: AvailabilityExceptionType[] = ['vacation', 'sick', 'other']
+
+const emptyException = (): CreateAvailabilityExceptionRequest => {
+  const today = format(new Date(), 'yyyy-MM-dd')
+  return { type: 'vacation', starts_on: today, ends_on: today, start_time: null, end_time: null, note: null }
+}
+
+interface AvailabilityEditorProps {
+  staffId: number
+}
+
+/**
+ * Weekly working hours and absences (vacation, sick days) of a trainer
+ */
+export function AvailabilityEditor({ staffId }: AvailabilityEditorProps) {
+  const { t, i18n } = useTranslation(['staff', 'common'])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const [weekly, setWeekly] = useState<WeeklyAvailabilitySlot[]>([])
+  const [exceptionForm, setExceptionForm] = useState<CreateAvailabilityExceptionRequest>(emptyException)
+
+  const { data, isLoading } = useQuery({
+    queryKey: availabilityKeys.staff(staffId),
+    queryFn: () => availabilityApi.get(staffId),
+  })
+
+  useEffect(() => {
+    if (data) setWeekly(data.weekly)
+  }, [data])
+
+  const showError = (error: AxiosError<ApiError>, fallback: string) => {
+    toast({
+      title: t('common:error'),
+      description: error.response?.data?.message || fallback,
+      variant: 'destructive',
+    })
+  }
+
+  const onSaved = () => {
+    // Calendar shading depends on every trainer's hours
+    queryClient.invalidateQueries({ queryKey: availabilityKeys.all })
+  }
+
+  const weeklyMutation = useMutation({
+    mutationFn: () => availabilityApi.updateWeekly(staffId, weekly),
+    onSuccess: () => {
+      toast({ title: t('common:success'), description: t('availability.weeklySaved') })
+      onSaved()
+    },
+    onError: (error: AxiosError<ApiError>) => showError(error, t('availability.saveFailed')),
+  })
+
+  const addExceptionMutation = useMutation({
+    mutationFn: (payload: CreateAvailabilityExceptionRequest) => availabilityApi.addException(staffId, payload),
+    onSuccess: () => {
+      toast({ title: t('common:success'), description: t('availability.exceptionAdded') })
+      setExceptionForm(emptyException())
+      onSaved()
+    },
+    onError: (error: AxiosError<ApiError>) => showError(error, t('availability.saveFailed')),
+  })
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: (exceptionId: number) => availabilityApi.deleteException(exceptionId),
+    onSuccess: onSaved,
+    onError: (error: AxiosError<ApiError>) => showError(error, t('availability.saveFailed')),
+  })
+
+  const updateSlot = (index: number, changes: Partial<WeeklyAvailabilitySlot>) => {
+    setWeekly(prev => prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)))
+  }
+
+  const addSlot = (weekday: number) => {
+    setWeekly(prev => [...prev, { weekday, start_time: '08:00', end_time: '16:00' }])
+  }
+
+  const removeSlot = (index: number) => {
+    setWeekly(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleAddException = () => {
+    const partial = exceptionForm.start_time && exceptionForm.end_time
+    addExceptionMutation.mutate({
+      ...exceptionForm,
+      start_time: partial ? exceptionForm.start_time : null,
+      end_time: partial ? exceptionForm.end_time : null,
+      note: exceptionForm.note?.trim() || null,
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map(i => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6" data-testid="availability-editor">
+      {/* Weekly working hours */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-medium">{t('availability.weeklyTitle')}</h3>
+          <p className="text-sm text-muted-foreground">{t('availability.weeklyDescription')}</p>
+        </div>
+
+        <div className="divide-y border rounded-lg">
+          {WEEKDAYS.map(day => {
+            const slots = weekly
+              .map((slot, index) => ({ slot, index }))
+              .filter(({ slot }) => slot.weekday === day.value)
+
+            return (
+              <div key={day.value} className="flex flex-col sm:flex-row sm:items-start gap-2 p-3" data-testid={`availability-day-${day.value}`}>
+                <div className="w-28 pt-2 text-sm font-medium">{t(`availability.weekdays.${day.key}`)}</div>
+                <div className="flex-1 space-y-2">
+                  {slots.length === 0 && (
+                    <p className="text-sm text-muted-foreground pt-2">{t('availability.unavailable')}</p>
+                  )}
+                  {slots.map(({ slot, index }) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={slot.start_time}
+                        onChange={e => updateSlot(index, { start_time: e.target.value })}
+                        aria-label={t('availability.from')}
+                      />
+                      <span className="text-muted-foreground">–</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={slot.end_time}
+                        onChange={e => updateSlot(index, { end_time: e.target.value })}
+                        aria-label={t('availability.to')}
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => removeSlot(index)} aria-label={t('common:delete')}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={() => addSlot(day.value)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t('availability.addRange')}
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+
+        <p className="text-xs text-muted-foreground">{t('availability.emptyHint')}</p>
+
+        <div className="flex justify-end">
+          <Button type="button" onClick={() => weeklyMutation.mutate()} disabled={weeklyMutation.isPending}>
+            {weeklyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('availability.saveWeekly')}
+          </Button>
+        </div>
+      </div>
+
+      {/* Absences */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-medium">{t('availability.exceptionsTitle')}</h3>
+          <p className="text-sm text-muted-foreground">{t('availability.exceptionsDescription')}</p>
+        </div>
+
+        {data && data.exceptions.length > 0 ? (
+          <ul className="divide-y border rounded-lg">
+            {data.exceptions.map(exception => (
+              <li key={exception.id} className="flex items-center justify-between gap-2 p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={exception.type === 'sick' ? 'destructive' : 'secondary'}>
+                      {t(`availability.types.${exception.type}`)}
+                    </Badge>
+                    <span className="text-sm font-medium">
+                      {format(parseISO(exception.starts_on), 'yyyy. MMM d.', { locale })}
+                      {exception.ends_on !== exception.starts_on &&
+                        ` – ${format(parseISO(exception.ends_on), 'yyyy. MMM d.', { locale })}`}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {exception.start_time && exception.end_time
+                        ? `${exception.start_time}–${exception.end_time}`
+                        : t('availability.wholeDay')}
+                    </span>
+                  </div>
+                  {exception.note && <p className="text-xs text-muted-foreground">{exception.note}</p>}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteExceptionMutation.mutate(exception.id)}
+                  disabled={deleteExceptionMutation.isPending}
+                  aria-label={t('common:delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t('availability.noExceptions')}</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 border rounded-lg p-3">
+          <div className="space-y-1">
+            <Label>{t('availability.type')}</Label>
+            <Select
+              value={exceptionForm.type}
+              onValueChange={value => setExceptionForm(prev => ({ ...prev, type: value as AvailabilityExceptionType }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXCEPTION_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {t(`availability.types.${type}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exception_starts_on">{t('availability.startsOn')}</Label>
+            <Input
+              id="exception_starts_on"
+              type="date"
+              value={exceptionForm.starts_on}
+              onChange={e =>
+                setExceptionForm(prev => ({
+                  ...prev,
+                  starts_on: e.target.value,
+                  ends_on: prev.ends_on < e.target.value ? e.target.value : prev.ends_on,
+                }))
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exception_ends_on">{t('availability.endsOn')}</Label>
+            <Input
+              id="exception_ends_on"
+              type="date"
+              min={exceptionForm.starts_on}
+              value={exceptionForm.ends_on}
+              onChange={e => setExceptionForm(prev => ({ ...prev, ends_on: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exception_start_time">{t('availability.from')}</Label>
+            <Input
+              id="exception_start_time"
+              type="time"
+              value={exceptionForm.start_time ?? ''}
+              onChange={e => setExceptionForm(prev => ({ ...prev, start_time: e.target.value || null }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exception_end_time">{t('availability.to')}</Label>
+            <Input
+              id="exception_end_time"
+              type="time"
+              value={exceptionForm.end_time ?? ''}
+              onChange={e => setExceptionForm(prev => ({ ...prev, end_time: e.target.value || null }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exception_note">{t('availability.note')}</Label>
+            <Input
+              id="exception_note"
+              value={exceptionForm.note ?? ''}
+              maxLength={500}
+              onChange={e => setExceptionForm(prev => ({ ...prev, note: e.target.value }))}
+            />
+          </div>
+          <p className="col-span-2 md:col-span-3 text-xs text-muted-foreground">{t('availability.timeHint')}</p>
+          <div className="col-span-2 md:col-span-3 flex justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleAddException}
+              disabled={addExceptionMutation.isPending || !exceptionForm.starts_on || !exceptionForm.ends_on}
+            >
+              {addExceptionMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              {t('availability.addException')}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
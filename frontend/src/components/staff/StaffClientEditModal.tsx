@@ -38,6 +38,8 @@ import {
 import { useToast } from '@/hooks/use-toast'
 import { Plus, Pencil, Trash2 } from 'lucide-react'
 import type { ClientPriceCode, ClientPriceCodeFormData, ServiceType } from '@/types/serviceType'
+import { ClientPassesSection } from '@/components/admin/ClientPassesSection'
+import { ClientLedgerSection } from '@/components/admin/ClientLedgerSection'
 
 // Validation schema for client edit
 const clientEditSchema = z.object({
@@ -323,9 +325,11 @@ export function StaffClientEditModal({
           </DialogHeader>
 
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="details">Alapadatok</TabsTrigger>
               <TabsTrigger value="pricing">Árkódok</TabsTrigger>
+              <TabsTrigger value="passes">Bérletek</TabsTrigger>
+              <TabsTrigger value="balance">Egyenleg</TabsTrigger>
             </TabsList>
 
             <TabsContent value="details" className="mt-4">
@@ -536,6 +540,14 @@ export function StaffClientEditModal({
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="passes" className="mt-4">
+              <ClientPassesSection clientId={client.id} />
+            </TabsContent>
+
+            <TabsContent value="balance" className="mt-4">
+              <ClientLedgerSection clientId={client.id} />
+            </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
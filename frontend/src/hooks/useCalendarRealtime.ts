@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query'
+import { endOfDay, parseISO, startOfDay } from 'date-fns'
+import { calendarRealtimeApi } from '@/api/realtime'
+import { eventKeys } from '@/api/events'
+import { classKeys } from '@/api/classes'
+import type { Event, EventListFilters } from '@/types/event'
+import type { ClassOccurrence, ClassListFilters } from '@/types/class'
+import type {
+  CalendarEditingTarget,
+  CalendarEditor,
+  CalendarEntityType,
+  CalendarStreamStatus,
+  CalendarUpdate,
+} from '@/types/realtime'
+
+const RECONNECT_DELAY_MS = 1000
+const MAX_RECONNECT_DELAY_MS = 30000
+const EDIT_HEARTBEAT_MS = 20000
+
+// Event list caches that can be patched in place (filters are the 3rd key element)
+const PATCHABLE_EVENT_LISTS = ['list', 'admin-all', 'staff-all']
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const byStart = (a: { starts_at: string }, b: { starts_at: string }) =>
+  parseISO(a.starts_at).getTime() - parseISO(b.starts_at).getTime()
+
+// Mirrors the backend list filters (events: whole days, classes: exact range of upcoming classes)
+const eventMatchesFilters = (event: Event, filters: EventListFilters | undefined): boolean => {
+  const startsAt = parseISO(event.starts_at)
+  if (filters?.date_from && startsAt < startOfDay(parseISO(filters.date_from))) return false
+  if (filters?.date_to && startsAt > endOfDay(parseISO(filters.date_to))) return false
+  if (filters?.room_id && String(event.room_id) !== String(filters.room_id)) return false
+  if (filters?.staff_id && String(event.staff_id) !== String(filters.staff_id)) return false
+  if (filters?.client_id && String(event.client_id) !== String(filters.client_id)) return false
+  if (filters?.type && event.type !== filters.type) return false
+  if (filters?.status && event.status !== filters.status) return false
+  return true
+}
+
+const classMatchesFilters = (occurrence: ClassOccurrence, filters: ClassListFilters | undefined): boolean => {
+  const startsAt = parseISO(occurrence.starts_at)
+  if (startsAt <= new Date() || occurrence.status !== 'scheduled') return false
+  if (filters?.date_from && startsAt < parseISO(filters.date_from)) return false
+  if (filters?.date_to && startsAt > parseISO(filters.date_to)) return false
+  if (filters?.room_id && String(occurrence.room_id) !== String(filters.room_id)) return false
+  if (filters?.class_template_id && String(occurrence.class_template_id) !== String(filters.class_template_id)) return false
+  return true
+}
+
+// Replace (or drop) one item of a cached list
+function patchList<T extends { id: string | number; starts_at: string }>(
+  queryClient: QueryClient,
+  key: QueryKey,
+  list: T[],
+  entityId: number,
+  item: T | null,
+  matches: (item: T) => boolean
+) {
+  const next = list.filter(existing => String(existing.id) !== String(entityId))
+  if (item && matches(item)) {
+    next.push(item)
+    next.sort(byStart)
+  }
+  queryClient.setQueryData(key, next)
+}
+
+/**
+ * Apply a pushed change to the event and class caches of the calendar
+ */
+export function applyCalendarUpdate(queryClient: QueryClient, update: CalendarUpdate) {
+  if (update.entity_type === 'event') {
+    queryClient.getQueriesData<Event[]>({ queryKey: eventKeys.all }).forEach(([key, data]) => {
+      if (!Array.isArray(data)) return
+      if (PATCHABLE_EVENT_LISTS.includes(String(key[1]))) {
+        const filters = key[2] as EventListFilters | undefined
+        patchList(queryClient, key, data, update.entity_id, update.item, item => eventMatchesFilters(item, filters))
+      } else {
+        // Lists scoped to the current user cannot be matched locally
+        queryClient.invalidateQueries({ queryKey: key, exact: true })
+      }
+    })
+    return
+  }
+
+  queryClient.getQueriesData<ClassOccurrence[]>({ queryKey: classKeys.lists() }).forEach(([key, data]) => {
+    if (!Array.isArray(data)) return
+    const filters = key[2] as ClassListFilters | undefined
+    patchList(queryClient, key, data, update.entity_id, update.item, item => classMatchesFilters(item, filters))
+  })
+
+  const detailKey = classKeys.detail(String(update.entity_id))
+  if (update.item) {
+    if (queryClient.getQueryData(detailKey)) {
+      queryClient.setQueryData(detailKey, update.item)
+    }
+  } else {
+    queryClient.removeQueries({ queryKey: detailKey })
+  }
+}
+
+/**
+ * Keep the calendar caches live from the server push stream and track who is editing what
+ */
+export function useCalendarRealtime(enabled: boolean, currentUserId?: string | number) {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<CalendarStreamStatus>('connecting')
+  const [editors, setEditors] = useState<CalendarEditor[]>([])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    let since: number | null = null
+    let failures = 0
+
+    const run = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          since = await calendarRealtimeApi.stream(
+            since,
+            {
+              onOpen: () => {
+                failures = 0
+                setStatus('live')
+              },
+              onUpdate: (update) => applyCalendarUpdate(queryClient, update),
+              onEditing: setEditors,
+              onResync: () => {
+                // Missed changes were pruned from the feed, reload everything
+                queryClient.invalidateQueries({ queryKey: eventKeys.all })
+                queryClient.invalidateQueries({ queryKey: classKeys.all })
+              },
+            },
+            controller.signal
+          )
+          await wait(RECONNECT_DELAY_MS)
+        } catch {
+          if (controller.signal.aborted) return
+          failures += 1
+          setStatus('offline')
+          await wait(Math.min(MAX_RECONNECT_DELAY_MS, RECONNECT_DELAY_MS * 2 ** failures))
+        }
+      }
+    }
+
+    run()
+    return () => controller.abort()
+  }, [enabled, queryClient])
+
+  // Names of the other users who have the item open in an edit form
+  const getEditors = useCallback(
+    (entityType: CalendarEntityType, entityId: string | number): string[] =>
+      editors
+        .filter(editor =>
+          editor.entity_type === entityType &&
+          String(editor.entity_id) === String(entityId) &&
+          String(editor.user_id) !== String(currentUserId)
+        )
+        .map(editor => editor.user_name ?? '?'),
+    [editors, currentUserId]
+  )
+
+  return { status: enabled ? status : 'offline', getEditors }
+}
+
+/**
+ * Show other users that the target is open in an edit form while it is set
+ */
+export function useCalendarEditMarker(target: CalendarEditingTarget | null) {
+  const entityType = target?.entity_type
+  const entityId = target?.entity_id
+
+  useEffect(() => {
+    if (!entityType || entityId === undefined) return
+
+    const current = { entity_type: entityType, entity_id: entityId }
+    // The marker is informational only, a failed heartbeat must not disturb editing
+    const heartbeat = () => calendarRealtimeApi.startEditing(current).catch(() => undefined)
+
+    heartbeat()
+    const interval = setInterval(heartbeat, EDIT_HEARTBEAT_MS)
+
+    return () => {
+      clearInterval(interval)
+      calendarRealtimeApi.stopEditing(current).catch(() => undefined)
+    }
+  }, [entityType, entityId])
+}
@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { readReportSearchParams, toReportSearchParams } from '@/lib/reportFilters'
+import type { ReportFilterParams } from '@/types/reports'
+
+export interface ReportFilterState {
+  dateFrom: string
+  dateTo: string
+  filters: ReportFilterParams
+}
+
+/**
+ * Admin report date range and filters kept in the URL query, so a filtered view can be shared as a link
+ */
+export function useReportFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const state = useMemo(() => readReportSearchParams(searchParams), [searchParams])
+
+  const update = useCallback((next: Partial<ReportFilterState>) => {
+    setSearchParams(
+      toReportSearchParams(next.dateFrom ?? state.dateFrom, next.dateTo ?? state.dateTo, next.filters ?? state.filters),
+      { replace: true }
+    )
+  }, [state, setSearchParams])
+
+  return { ...state, update }
+}
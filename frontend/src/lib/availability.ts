@@ -0,0 +1,153 @@
+/**
+ * Calendar shading helpers for trainer working hours and site opening hours
+ */
+import { addDays, addMinutes, eachDayOfInterval, format, getISODay, isAfter, max as maxDate, min as minDate, parseISO, startOfDay } from 'date-fns'
+import type { AvailabilityCalendarData, AvailabilityExceptionType, SiteOpeningDay } from '@/types/staff'
+
+export const WEEKDAY_KEYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const
+
+export type OpeningHoursByDay = Record<string, SiteOpeningDay | null>
+
+export interface ShadedRange {
+  start: Date
+  end: Date
+  reason: 'off' | 'closed' | AvailabilityExceptionType
+}
+
+type TrainerAvailability = AvailabilityCalendarData['trainers'][number]
+type SiteAvailability = AvailabilityCalendarData['sites'][number]
+
+const DEFAULT_SLOT_MIN = '06:00'
+const DEFAULT_SLOT_MAX = '22:00'
+
+// "HH:MM" to minutes after midnight ("24:00" is the end of the day)
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+const atTime = (day: Date, time: string): Date => addMinutes(startOfDay(day), toMinutes(time))
+
+const weekdayKey = (day: Date): string => WEEKDAY_KEYS[getISODay(day) - 1]
+
+// Every calendar day touched by [start, end)
+const daysOf = (start: Date, end: Date): Date[] =>
+  isAfter(end, start) ? eachDayOfInterval({ start, end: addMinutes(end, -1) }) : []
+
+// Parts of the day not covered by the given [from, to) minute ranges
+const gapsOfDay = (day: Date, covered: Array<[number, number]>): Array<[Date, Date]> => {
+  const gaps: Array<[Date, Date]> = []
+  let cursor = 0
+  for (const [from, to] of [...covered].sort((a, b) => a[0] - b[0])) {
+    if (from > cursor) gaps.push([addMinutes(startOfDay(day), cursor), addMinutes(startOfDay(day), from)])
+    cursor = Math.max(cursor, to)
+  }
+  if (cursor < 24 * 60) gaps.push([addMinutes(startOfDay(day), cursor), startOfDay(addDays(day, 1))])
+  return gaps
+}
+
+/**
+ * Times in [rangeStart, rangeEnd) when the trainer is not available.
+ * Trainers without weekly hours are only unavailable during their absences.
+ */
+export function getTrainerUnavailableRanges(trainer: TrainerAvailability, rangeStart: Date, rangeEnd: Date): ShadedRange[] {
+  const ranges: ShadedRange[] = []
+
+  for (const day of daysOf(rangeStart, rangeEnd)) {
+    if (trainer.weekly.length > 0) {
+      const covered = trainer.weekly
+        .filter(slot => slot.weekday === getISODay(day))
+        .map(slot => [toMinutes(slot.start_time), toMinutes(slot.end_time)] as [number, number])
+      gapsOfDay(day, covered).forEach(([start, end]) => ranges.push({ start, end, reason: 'off' }))
+    }
+
+    const dayString = format(day, 'yyyy-MM-dd')
+    for (const exception of trainer.exceptions) {
+      if (dayString < exception.starts_on || dayString > exception.ends_on) continue
+      ranges.push(
+        exception.start_time && exception.end_time
+          ? { start: atTime(day, exception.start_time), end: atTime(day, exception.end_time), reason: exception.type }
+          : { start: startOfDay(day), end: startOfDay(addDays(day, 1)), reason: exception.type }
+      )
+    }
+  }
+
+  return ranges
+}
+
+/**
+ * Opening hours that apply to the calendar: the site of the selected room, or the
+ * union of every site (closed only when all of them are closed).
+ * Null when unknown, in which case nothing is shaded.
+ */
+export function getOpeningHours(sites: SiteAvailability[], roomId?: string | null): OpeningHoursByDay | null {
+  const relevant = roomId
+    ? sites.filter(site => site.room_ids.some(id => String(id) === String(roomId)))
+    : sites
+
+  if (relevant.length === 0 || relevant.some(site => !site.opening_hours)) return null
+
+  const merged: OpeningHoursByDay = {}
+  for (const day of WEEKDAY_KEYS) {
+    const open = relevant.map(site => site.opening_hours?.[day]).filter((hours): hours is SiteOpeningDay => !!hours)
+    merged[day] = open.length === 0
+      ? null
+      : {
+          open: open.map(hours => hours.open).sort()[0],
+          close: open.map(hours => hours.close).sort().reverse()[0],
+        }
+  }
+  return merged
+}
+
+/**
+ * Times in [rangeStart, rangeEnd) when the site is closed
+ */
+export function getClosedRanges(hours: OpeningHoursByDay | null, rangeStart: Date, rangeEnd: Date): ShadedRange[] {
+  if (!hours) return []
+
+  return daysOf(rangeStart, rangeEnd).flatMap(day => {
+    const dayHours = hours[weekdayKey(day)]
+    const covered: Array<[number, number]> = dayHours ? [[toMinutes(dayHours.open), toMinutes(dayHours.close)]] : []
+    return gapsOfDay(day, covered).map(([start, end]) => ({ start, end, reason: 'closed' as const }))
+  })
+}
+
+/**
+ * Visible hours of the time grid: from the earliest opening to the latest closing,
+ * widened to keep every loaded item visible. Falls back to 06:00–22:00.
+ */
+export function getSlotBounds(
+  hours: OpeningHoursByDay | null,
+  items: Array<{ starts_at: string; ends_at: string }> = []
+): { minHour: number; maxHour: number } {
+  const openDays = hours ? Object.values(hours).filter((day): day is SiteOpeningDay => !!day) : []
+
+  let minMinutes = openDays.length > 0 ? Math.min(...openDays.map(day => toMinutes(day.open))) : toMinutes(DEFAULT_SLOT_MIN)
+  let maxMinutes = openDays.length > 0 ? Math.max(...openDays.map(day => toMinutes(day.close))) : toMinutes(DEFAULT_SLOT_MAX)
+
+  for (const item of items) {
+    const start = parseISO(item.starts_at)
+    const end = parseISO(item.ends_at)
+    const startOfStartDay = startOfDay(start)
+    minMinutes = Math.min(minMinutes, (start.getTime() - startOfStartDay.getTime()) / 60000)
+    // Items running past midnight extend the grid to the end of the day
+    maxMinutes = Math.max(maxMinutes, Math.min((end.getTime() - startOfStartDay.getTime()) / 60000, 24 * 60))
+  }
+
+  return {
+    minHour: Math.max(0, Math.floor(minMinutes / 60)),
+    maxHour: Math.min(24, Math.max(Math.ceil(maxMinutes / 60), Math.floor(minMinutes / 60) + 1)),
+  }
+}
+
+/**
+ * Clip ranges to one day (room columns view)
+ */
+export function clipRangesToDay(ranges: ShadedRange[], day: Date): ShadedRange[] {
+  const dayStart = startOfDay(day)
+  const dayEnd = startOfDay(addDays(day, 1))
+  return ranges
+    .filter(range => range.start < dayEnd && range.end > dayStart)
+    .map(range => ({ ...range, start: maxDate([range.start, dayStart]), end: minDate([range.end, dayEnd]) }))
+}
@@ -2,8 +2,16 @@
  * Application-wide constants
  */
 
+import type { ConflictResolution } from '@/types/googleCalendar'
+
 // Technical Guest (Unknown Guest) client ID
 export const TECHNICAL_GUEST_ID = 4
 
 // Maximum number of guests allowed per event
 export const MAX_EVENT_GUESTS = 10
+
+// Google Calendar import conflict resolutions, in the order they are offered
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = ['skip', 'keep_both', 'shift', 'merge', 'overwrite']
+
+// The ones a sync config may apply without review, they leave existing sessions alone
+export const UNATTENDED_CONFLICT_RESOLUTIONS: ConflictResolution[] = ['skip', 'keep_both', 'shift']
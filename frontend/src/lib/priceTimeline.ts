@@ -0,0 +1,92 @@
+/**
+ * Validity window helpers for price history (class pricing defaults and price codes)
+ */
+import { addDays, differenceInCalendarDays, isAfter, isBefore, max as maxDate, min as minDate, parseISO } from 'date-fns'
+
+export interface PriceWindow {
+  id: number
+  valid_from: string
+  valid_until: string | null
+  is_active: boolean
+}
+
+export type PriceWindowState = 'past' | 'current' | 'scheduled' | 'inactive'
+
+export interface PriceTimelineIssue {
+  type: 'overlap' | 'gap'
+  from: Date
+  // null when the overlap runs open-ended
+  until: Date | null
+  ids: number[]
+}
+
+export interface PriceTimelineRange {
+  start: Date
+  end: Date
+}
+
+const startOf = (window: PriceWindow): Date => parseISO(window.valid_from)
+
+const endOf = (window: PriceWindow): Date | null => (window.valid_until ? parseISO(window.valid_until) : null)
+
+const byStart = <T extends PriceWindow>(a: T, b: T) => startOf(a).getTime() - startOf(b).getTime()
+
+/**
+ * Whether the price applied in the past, applies now or only applies from a future date
+ */
+export function priceWindowState(window: PriceWindow, now: Date = new Date()): PriceWindowState {
+  if (!window.is_active) return 'inactive'
+  if (isAfter(startOf(window), now)) return 'scheduled'
+  const end = endOf(window)
+  return end && isBefore(end, now) ? 'past' : 'current'
+}
+
+/**
+ * Overlapping and uncovered periods between the active windows.
+ *
+ * A window ending on the day before (or at the instant before) the next one starts
+ * counts as contiguous, and windows that only touch on the boundary do not overlap.
+ */
+export function findPriceTimelineIssues(windows: PriceWindow[]): PriceTimelineIssue[] {
+  const active = windows.filter((window) => window.is_active).sort(byStart)
+  const issues: PriceTimelineIssue[] = []
+
+  active.forEach((window, index) => {
+    active.slice(index + 1).forEach((other) => {
+      const end = endOf(window)
+      if (end && !isBefore(startOf(other), end)) return
+
+      const otherEnd = endOf(other)
+      issues.push({
+        type: 'overlap',
+        from: startOf(other),
+        until: end && otherEnd ? minDate([end, otherEnd]) : end ?? otherEnd,
+        ids: [window.id, other.id],
+      })
+    })
+  })
+
+  // Walk the windows in order; anything between the furthest end so far and the next start is a gap
+  let coveredUntil: Date | null | undefined
+  active.forEach((window) => {
+    if (coveredUntil === null) return
+    if (coveredUntil && differenceInCalendarDays(startOf(window), coveredUntil) > 1) {
+      issues.push({ type: 'gap', from: addDays(coveredUntil, 1), until: addDays(startOf(window), -1), ids: [window.id] })
+    }
+    const end = endOf(window)
+    coveredUntil = end === null ? null : coveredUntil ? maxDate([coveredUntil, end]) : end
+  })
+
+  return issues.sort((a, b) => a.from.getTime() - b.from.getTime())
+}
+
+/**
+ * Date range a timeline of the windows should show: from the first start until a month
+ * after the last change (or today, whichever is later), so open-ended windows stay visible
+ */
+export function priceTimelineRange(windows: PriceWindow[], now: Date = new Date()): PriceTimelineRange {
+  const dates = windows.flatMap((window) => [startOf(window), endOf(window)]).filter((date): date is Date => date !== null)
+  const start = dates.length > 0 ? minDate([...dates, now]) : now
+  const end = addDays(dates.length > 0 ? maxDate([...dates, now]) : now, 30)
+  return { start, end }
+}
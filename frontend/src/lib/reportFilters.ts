@@ -0,0 +1,82 @@
+/**
+ * Admin report filters: URL query params and saved preset ranges
+ */
+import { endOfMonth, format, startOfMonth, subDays, subMonths } from 'date-fns'
+import type { ReportFilterParams, ReportPresetFilters, ReportPresetRange, ReportServiceType } from '@/types/reports'
+
+export const REPORT_PRESET_RANGES: ReportPresetRange[] = ['custom', 'last_7_days', 'last_30_days', 'this_month', 'last_month']
+
+export const REPORT_SERVICE_TYPES: ReportServiceType[] = ['INDIVIDUAL', 'GROUP_CLASS']
+
+const ID_PARAMS = ['trainer_id', 'site_id', 'room_id'] as const
+
+const toDate = (date: Date) => format(date, 'yyyy-MM-dd')
+
+/**
+ * Date range of a relative preset range; null for a custom range (the preset holds the dates)
+ */
+export function resolveRange(range: ReportPresetRange, today = new Date()): { from: string; to: string } | null {
+  switch (range) {
+    case 'last_7_days':
+      return { from: toDate(subDays(today, 7)), to: toDate(today) }
+    case 'last_30_days':
+      return { from: toDate(subDays(today, 30)), to: toDate(today) }
+    case 'this_month':
+      return { from: toDate(startOfMonth(today)), to: toDate(today) }
+    case 'last_month': {
+      const lastMonth = subMonths(today, 1)
+      return { from: toDate(startOfMonth(lastMonth)), to: toDate(endOfMonth(lastMonth)) }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Read the report filters from the page URL (?from=&to=&trainer_id=&site_id=&room_id=&service_type=)
+ */
+export function readReportSearchParams(params: URLSearchParams): {
+  dateFrom: string
+  dateTo: string
+  filters: ReportFilterParams
+} {
+  const fallback = resolveRange('last_30_days')!
+  const filters: ReportFilterParams = {}
+
+  for (const key of ID_PARAMS) {
+    const value = Number(params.get(key))
+    if (Number.isInteger(value) && value > 0) filters[key] = value
+  }
+
+  const serviceType = params.get('service_type') as ReportServiceType | null
+  if (serviceType && REPORT_SERVICE_TYPES.includes(serviceType)) filters.service_type = serviceType
+
+  return {
+    dateFrom: params.get('from') || fallback.from,
+    dateTo: params.get('to') || fallback.to,
+    filters,
+  }
+}
+
+/**
+ * Query string of a filter set, used for the page URL and shareable links
+ */
+export function toReportSearchParams(dateFrom: string, dateTo: string, filters: ReportFilterParams): URLSearchParams {
+  const params = new URLSearchParams({ from: dateFrom, to: dateTo })
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null) params.set(key, String(value))
+  }
+
+  return params
+}
+
+/**
+ * Dates and filters a saved preset stands for today
+ */
+export function applyPreset(preset: ReportPresetFilters): { dateFrom: string; dateTo: string; filters: ReportFilterParams } {
+  const { range, date_from, date_to, ...filters } = preset
+  const resolved = resolveRange(range) ?? { from: date_from!, to: date_to! }
+
+  return { dateFrom: resolved.from, dateTo: resolved.to, filters }
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import { Bell, Calendar, Loader2, User, Lock } from 'lucide-react';
+import { format } from 'date-fns';
+import { Bell, Calendar, CalendarClock, CalendarPlus, Copy, Loader2, User, Lock } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -16,12 +17,14 @@ import {
   type NotificationPreferences,
   type UpdateNotificationPreferencesRequest,
 } from '@/api/notificationPreferences';
+import { calendarFeedApi, calendarFeedKeys } from '@/api/calendarFeed';
 import {
   profileApi,
   profileKeys,
   type UpdateProfileRequest,
   type ChangePasswordRequest,
 } from '@/api/profile';
+import { AvailabilityEditor } from '@/components/staff/AvailabilityEditor';
 
 export default function SettingsPage() {
   const { t } = useTranslation(['settings', 'common']);
@@ -41,6 +44,14 @@ export default function SettingsPage() {
     queryFn: () => notificationPreferencesApi.get(),
   });
 
+  // Private calendar feed (staff and clients)
+  const hasCalendarFeed = user?.role === 'staff' || user?.role === 'client';
+  const { data: calendarFeed } = useQuery({
+    queryKey: calendarFeedKeys.current(),
+    queryFn: () => calendarFeedApi.get(),
+    enabled: hasCalendarFeed,
+  });
+
   // Local state for profile form
   const [profileData, setProfileData] = useState<UpdateProfileRequest>({});
   const [passwordData, setPasswordData] = useState<ChangePasswordRequest>({
@@ -142,6 +153,47 @@ export default function SettingsPage() {
     },
   });
 
+  // Creating a new URL revokes the previous one
+  const calendarFeedMutation = useMutation({
+    mutationFn: (action: 'regenerate' | 'revoke') =>
+      action === 'regenerate' ? calendarFeedApi.regenerate() : calendarFeedApi.revoke(),
+    onSuccess: (data, action) => {
+      queryClient.setQueryData(calendarFeedKeys.current(), data);
+      toast({
+        title: action === 'regenerate' ? t('settings:calendarFeed.created') : t('settings:calendarFeed.revoked'),
+      });
+    },
+    onError: () => {
+      toast({
+        title: t('common:error'),
+        description: t('settings:calendarFeed.updateError'),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCalendarFeedRegenerate = () => {
+    if (!calendarFeed?.url || confirm(t('settings:calendarFeed.confirmRegenerate'))) {
+      calendarFeedMutation.mutate('regenerate');
+    }
+  };
+
+  const handleCalendarFeedRevoke = () => {
+    if (confirm(t('settings:calendarFeed.confirmRevoke'))) {
+      calendarFeedMutation.mutate('revoke');
+    }
+  };
+
+  const copyCalendarFeedUrl = async () => {
+    if (!calendarFeed?.url) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeed.url);
+      toast({ title: t('settings:calendarFeed.copied') });
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
   const handleProfileSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     profileMutation.mutate(profileData);
@@ -347,6 +399,101 @@ export default function SettingsPage() {
           </div>
         </form>
 
+        {/* Working Hours Section (staff only) */}
+        {user?.role === 'staff' && user.staffProfile?.id && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5" />
+                <CardTitle>{t('settings:availability.title')}</CardTitle>
+              </div>
+              <CardDescription>{t('settings:availability.description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AvailabilityEditor staffId={user.staffProfile.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Calendar Feed Section (staff and clients) */}
+        {hasCalendarFeed && (
+          <Card data-testid="calendar-feed-card">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CalendarPlus className="w-5 h-5" />
+                <CardTitle>{t('settings:calendarFeed.title')}</CardTitle>
+              </div>
+              <CardDescription>{t('settings:calendarFeed.description')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {calendarFeed?.url ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="calendar_feed_url">{t('settings:calendarFeed.url')}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="calendar_feed_url"
+                        readOnly
+                        value={calendarFeed.url}
+                        onFocus={(e) => e.target.select()}
+                        data-testid="calendar-feed-url"
+                      />
+                      <Button type="button" variant="outline" onClick={copyCalendarFeedUrl}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        {t('settings:calendarFeed.copy')}
+                      </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{t('settings:calendarFeed.urlHelp')}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {calendarFeed.last_accessed_at
+                        ? t('settings:calendarFeed.lastAccessed', {
+                            date: format(new Date(calendarFeed.last_accessed_at), 'yyyy-MM-dd HH:mm'),
+                          })
+                        : t('settings:calendarFeed.neverAccessed')}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {calendarFeed.webcal_url && (
+                      <Button type="button" variant="outline" asChild>
+                        <a href={calendarFeed.webcal_url}>{t('settings:calendarFeed.subscribe')}</a>
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleCalendarFeedRegenerate}
+                      disabled={calendarFeedMutation.isPending}
+                      data-testid="calendar-feed-regenerate"
+                    >
+                      {t('settings:calendarFeed.regenerate')}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      onClick={handleCalendarFeedRevoke}
+                      disabled={calendarFeedMutation.isPending}
+                      data-testid="calendar-feed-revoke"
+                    >
+                      {t('settings:calendarFeed.revoke')}
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button
+                  type="button"
+                  onClick={handleCalendarFeedRegenerate}
+                  disabled={calendarFeedMutation.isPending}
+                  data-testid="calendar-feed-create"
+                >
+                  {calendarFeedMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('settings:calendarFeed.create')}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Email Notifications Section */}
         <form onSubmit={handleNotificationSubmit} className="space-y-6">
           <Card>
@@ -1,12 +1,33 @@
 import { useState, useCallback } from 'react'
-import { useMutation } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
 import { useDropzone } from 'react-dropzone'
-import { Upload, FileText, CheckCircle, XCircle, AlertCircle, Download } from 'lucide-react'
-import { clientsApi, type ClientImportResult } from '@/api/clients'
+import { format, parseISO } from 'date-fns'
+import { Upload, FileText, AlertCircle, Download, Undo2 } from 'lucide-react'
+import {
+  clientsApi,
+  clientKeys,
+  type ClientImportCheckedRow,
+  type ClientImportDryRun,
+  type ClientImportField,
+  type ClientImportInputRow,
+  type ClientImportParseResult,
+  type ClientImportResult,
+} from '@/api/clients'
 import { useToast } from '@/hooks/use-toast'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Table,
   TableBody,
@@ -15,37 +36,133 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { Badge } from '@/components/ui/badge'
-import { Skeleton } from '@/components/ui/skeleton'
+import {
+  CLIENT_IMPORT_FIELDS,
+  ClientImportIssues,
+  ClientImportReviewTable,
+  ClientImportStatus,
+} from '@/components/admin/ClientImportReviewTable'
+
+type Step = 'upload' | 'mapping' | 'review' | 'done'
+
+const STEPS: Step[] = ['upload', 'mapping', 'review', 'done']
+
+const NONE = 'none'
+
+const DELIMITERS: Record<string, string> = {
+  ';': 'semicolon',
+  ',': 'comma',
+  '\t': 'tab',
+  '|': 'pipe',
+}
+const ENCODINGS = ['UTF-8', 'UTF-16', 'Windows-1250', 'ISO-8859-2']
+
+type ApiError = Error & { response?: { data?: { message?: string } } }
 
 export default function ClientImportPage() {
   const { t } = useTranslation('admin')
   const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [step, setStep] = useState<Step>('upload')
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [parsed, setParsed] = useState<ClientImportParseResult | null>(null)
+  const [mapping, setMapping] = useState<Record<ClientImportField, number | null> | null>(null)
+  const [rows, setRows] = useState<ClientImportInputRow[]>([])
+  const [dryRun, setDryRun] = useState<ClientImportDryRun | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [placeholderEmail, setPlaceholderEmail] = useState(false)
+  const [onlyProblems, setOnlyProblems] = useState(false)
   const [importResult, setImportResult] = useState<ClientImportResult | null>(null)
 
+  const { data: batches, isLoading: batchesLoading } = useQuery({
+    queryKey: clientKeys.importBatches(),
+    queryFn: () => clientsApi.importBatches(),
+  })
+
+  const onError = (error: ApiError) => {
+    toast({
+      variant: 'destructive',
+      title: t('clientImport.error'),
+      description: error.response?.data?.message || error.message,
+    })
+  }
+
+  const parseMutation = useMutation({
+    mutationFn: (options: { file: File; delimiter?: string; encoding?: string }) =>
+      clientsApi.parseImport(options.file, { delimiter: options.delimiter, encoding: options.encoding }),
+    onSuccess: (data) => {
+      setParsed(data)
+      setMapping(data.mapping)
+      setStep('mapping')
+    },
+    onError,
+  })
+
+  const dryRunMutation = useMutation({
+    mutationFn: (options: { rows: ClientImportInputRow[]; placeholderEmail: boolean }) =>
+      clientsApi.importDryRun(options.rows, options.placeholderEmail),
+    onSuccess: (data) => {
+      setDryRun(data)
+      setIsDirty(false)
+      setStep('review')
+    },
+    onError,
+  })
+
   const importMutation = useMutation({
-    mutationFn: (file: File) => clientsApi.importCsv(file),
+    mutationFn: () => clientsApi.importRows(rows, placeholderEmail, selectedFile?.name),
     onSuccess: (data) => {
       setImportResult(data)
-      setSelectedFile(null)
+      setStep('done')
+      queryClient.invalidateQueries({ queryKey: clientKeys.all })
       toast({
-        title: t('clientImport.success', 'Import sikeres'),
-        description: t('clientImport.successDescription', '{{created}} új vendég létrehozva, {{updated}} frissítve', {
-          created: data.summary.created,
-          updated: data.summary.updated,
+        title: t('clientImport.success'),
+        description: t('clientImport.successDescription', {
+          created: data.batch.summary.created,
+          updated: data.batch.summary.updated,
         }),
       })
     },
-    onError: (error: Error & { response?: { data?: { message?: string } } }) => {
+    onError,
+  })
+
+  const undoMutation = useMutation({
+    mutationFn: (batchId: number) => clientsApi.undoImport(batchId),
+    onSuccess: (data) => {
+      if (importResult?.batch.id === data.batch.id) {
+        setImportResult({ ...importResult, batch: data.batch })
+      }
+      queryClient.invalidateQueries({ queryKey: clientKeys.all })
       toast({
-        variant: 'destructive',
-        title: t('clientImport.error', 'Hiba az importálás során'),
-        description: error.response?.data?.message || error.message,
+        title: t('clientImport.undo.success'),
+        description: [
+          t('clientImport.undo.successDescription', {
+            deleted: data.result.deleted,
+            restored: data.result.restored,
+          }),
+          data.result.kept.length > 0 &&
+            t('clientImport.undo.kept', { names: data.result.kept.map((client) => client.name).join(', ') }),
+          data.result.changed.length > 0 &&
+            t('clientImport.undo.changed', { names: data.result.changed.map((client) => client.name).join(', ') }),
+        ].filter(Boolean).join(' '),
       })
     },
+    onError,
   })
 
+  const reset = () => {
+    setStep('upload')
+    setSelectedFile(null)
+    setParsed(null)
+    setMapping(null)
+    setRows([])
+    setDryRun(null)
+    setIsDirty(false)
+    setPlaceholderEmail(false)
+    setOnlyProblems(false)
+    setImportResult(null)
+  }
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       setSelectedFile(acceptedFiles[0])
@@ -58,17 +175,75 @@ export default function ClientImportPage() {
     accept: {
       'text/csv': ['.csv'],
       'text/plain': ['.txt'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
     },
     maxFiles: 1,
     maxSize: 5 * 1024 * 1024, // 5MB
   })
 
-  const handleImport = () => {
-    if (selectedFile) {
-      importMutation.mutate(selectedFile)
+  // A different delimiter or encoding means different columns, so the file is read again
+  const reparse = (options: { delimiter?: string; encoding?: string }) => {
+    if (!selectedFile || !parsed) return
+
+    parseMutation.mutate({
+      file: selectedFile,
+      delimiter: options.delimiter ?? parsed.delimiter ?? undefined,
+      encoding: options.encoding ?? parsed.encoding ?? undefined,
+    })
+  }
+
+  const setFieldColumn = (field: ClientImportField, value: string) => {
+    setMapping((prev) => prev && { ...prev, [field]: value === NONE ? null : Number(value) })
+  }
+
+  const mappedRows = (): ClientImportInputRow[] => {
+    if (!parsed || !mapping) return []
+
+    return parsed.rows.map(({ row, values }) => {
+      const mapped: ClientImportInputRow = { row }
+      CLIENT_IMPORT_FIELDS.forEach((field) => {
+        const column = mapping[field]
+        mapped[field] = column !== null ? values[column] ?? '' : ''
+      })
+      return mapped
+    })
+  }
+
+  const checkMapping = () => {
+    const next = mappedRows()
+    setRows(next)
+    dryRunMutation.mutate({ rows: next, placeholderEmail })
+  }
+
+  const updateCell = (row: number, field: ClientImportField, value: string) => {
+    setRows((prev) => prev.map((item) => (item.row === row ? { ...item, [field]: value } : item)))
+    setIsDirty(true)
+  }
+
+  const togglePlaceholderEmail = (checked: boolean) => {
+    setPlaceholderEmail(checked)
+    dryRunMutation.mutate({ rows, placeholderEmail: checked })
+  }
+
+  const handleUndo = (batchId: number) => {
+    if (confirm(t('clientImport.undo.confirm'))) {
+      undoMutation.mutate(batchId)
     }
   }
 
+  const checkedRows = new Map<number, ClientImportCheckedRow>(
+    (dryRun?.rows ?? []).map((row) => [row.row, row])
+  )
+  const visibleRows = onlyProblems
+    ? rows.filter((row) => {
+        const status = checkedRows.get(row.row)?.status
+        return status === 'invalid' || status === 'duplicate'
+      })
+    : rows
+  const willBeImported = dryRun ? dryRun.summary.create + dryRun.summary.update : 0
+
   const downloadSampleCsv = () => {
     const sampleData = `nev;email;tel;szolg;edzoi dij;belepo dij
 Teszt Elek;teszt.elek@example.com;+36301234567;PT;8000;2000
@@ -86,102 +261,302 @@ Példa János;;;PT;6000;1000`
     <div className="container py-6 space-y-6">
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">{t('clientImport.title', 'Vendégek importálása')}</h1>
-          <p className="text-muted-foreground mt-1">
-            {t('clientImport.description', 'Vendégadatok és árkódok importálása CSV fájlból')}
-          </p>
+          <h1 className="text-3xl font-bold">{t('clientImport.title')}</h1>
+          <p className="text-muted-foreground mt-1">{t('clientImport.description')}</p>
         </div>
         <Button variant="outline" onClick={downloadSampleCsv}>
           <Download className="w-4 h-4 mr-2" />
-          {t('clientImport.downloadSample', 'Minta CSV letöltése')}
+          {t('clientImport.downloadSample')}
         </Button>
       </div>
 
-      {/* Format info */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('clientImport.formatTitle', 'CSV formátum')}</CardTitle>
-          <CardDescription>
-            {t('clientImport.formatDescription', 'A CSV fájlnak pontosvesszővel (;) elválasztott értékeket kell tartalmaznia')}
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="bg-muted p-4 rounded-md font-mono text-sm">
-            <p className="font-semibold mb-2">{t('clientImport.requiredColumns', 'Kötelező oszlopok:')}</p>
-            <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-              <li><span className="text-foreground font-medium">nev</span> - {t('clientImport.colName', 'Vendég neve')}</li>
-              <li><span className="text-foreground font-medium">email</span> - {t('clientImport.colEmail', 'Email cím (ha üres: potoldazemailcimet@fontos.hu)')}</li>
-              <li><span className="text-foreground font-medium">tel</span> - {t('clientImport.colPhone', 'Telefonszám (ha üres: 0690555666)')}</li>
-              <li><span className="text-foreground font-medium">szolg</span> - {t('clientImport.colService', 'Szolgáltatás típus kódja (pl. PT)')}</li>
-              <li><span className="text-foreground font-medium">edzoi dij</span> - {t('clientImport.colTrainerFee', 'Edzői díj (HUF)')}</li>
-              <li><span className="text-foreground font-medium">belepo dij</span> - {t('clientImport.colEntryFee', 'Belépő díj (HUF)')}</li>
-            </ul>
-          </div>
-        </CardContent>
-      </Card>
+      {/* Steps */}
+      <ol className="flex flex-wrap gap-2 text-sm" data-testid="client-import-steps">
+        {STEPS.map((item, index) => (
+          <li key={item}>
+            <Badge variant={item === step ? 'default' : 'outline'}>
+              {index + 1}. {t(`clientImport.steps.${item}`)}
+            </Badge>
+          </li>
+        ))}
+      </ol>
 
-      {/* File upload */}
-      <Card>
-        <CardHeader>
-          <CardTitle>{t('clientImport.uploadTitle', 'Fájl feltöltése')}</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div
-            {...getRootProps()}
-            className={`
-              border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
-              ${isDragActive ? 'border-primary bg-primary/5' : 'border-muted-foreground/25 hover:border-primary/50'}
-              ${selectedFile ? 'border-green-500 bg-green-50 dark:bg-green-950/20' : ''}
-            `}
-          >
-            <input {...getInputProps()} />
-            {selectedFile ? (
-              <div className="flex flex-col items-center gap-2">
-                <FileText className="w-12 h-12 text-green-500" />
-                <p className="font-medium">{selectedFile.name}</p>
-                <p className="text-sm text-muted-foreground">
-                  {(selectedFile.size / 1024).toFixed(1)} KB
-                </p>
+      {/* 1. Upload */}
+      {step === 'upload' && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('clientImport.formatTitle')}</CardTitle>
+              <CardDescription>{t('clientImport.formatDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted p-4 rounded-md font-mono text-sm">
+                <p className="font-semibold mb-2">{t('clientImport.requiredColumns')}</p>
+                <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                  <li><span className="text-foreground font-medium">nev</span> - {t('clientImport.colName')}</li>
+                  <li><span className="text-foreground font-medium">email</span> - {t('clientImport.colEmail')}</li>
+                  <li><span className="text-foreground font-medium">tel</span> - {t('clientImport.colPhone')}</li>
+                  <li><span className="text-foreground font-medium">szolg</span> - {t('clientImport.colService')}</li>
+                  <li><span className="text-foreground font-medium">edzoi dij</span> - {t('clientImport.colTrainerFee')}</li>
+                  <li><span className="text-foreground font-medium">belepo dij</span> - {t('clientImport.colEntryFee')}</li>
+                </ul>
               </div>
-            ) : (
-              <div className="flex flex-col items-center gap-2">
-                <Upload className="w-12 h-12 text-muted-foreground" />
-                <p className="font-medium">
-                  {isDragActive
-                    ? t('clientImport.dropHere', 'Engedd el a fájlt itt')
-                    : t('clientImport.dragOrClick', 'Húzd ide a CSV fájlt vagy kattints a kiválasztáshoz')}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  {t('clientImport.maxSize', 'Maximum 5MB, .csv vagy .txt fájl')}
-                </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('clientImport.uploadTitle')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div
+                {...getRootProps()}
+                className={`
+                  border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
+                  ${isDragActive ? 'border-primary bg-primary/5' : 'border-muted-foreground/25 hover:border-primary/50'}
+                  ${selectedFile ? 'border-green-500 bg-green-50 dark:bg-green-950/20' : ''}
+                `}
+                data-testid="client-import-dropzone"
+              >
+                <input {...getInputProps()} data-testid="client-import-file" />
+                {selectedFile ? (
+                  <div className="flex flex-col items-center gap-2">
+                    <FileText className="w-12 h-12 text-green-500" />
+                    <p className="font-medium">{selectedFile.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {(selectedFile.size / 1024).toFixed(1)} KB
+                    </p>
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center gap-2">
+                    <Upload className="w-12 h-12 text-muted-foreground" />
+                    <p className="font-medium">
+                      {isDragActive ? t('clientImport.dropHere') : t('clientImport.dragOrClick')}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{t('clientImport.maxSize')}</p>
+                  </div>
+                )}
+              </div>
+
+              {selectedFile && (
+                <div className="flex justify-center gap-4 mt-4">
+                  <Button variant="outline" onClick={reset}>
+                    {t('common.cancel', 'Mégse')}
+                  </Button>
+                  <Button
+                    onClick={() => parseMutation.mutate({ file: selectedFile })}
+                    disabled={parseMutation.isPending}
+                    data-testid="client-import-parse-btn"
+                  >
+                    {parseMutation.isPending ? t('common.loading', 'Betöltés...') : t('clientImport.next')}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* 2. Column mapping */}
+      {step === 'mapping' && parsed && mapping && (
+        <Card data-testid="client-import-mapping">
+          <CardHeader>
+            <CardTitle>{t('clientImport.mapping.title')}</CardTitle>
+            <CardDescription>
+              {t('clientImport.mapping.description', { file: selectedFile?.name ?? '', count: parsed.rows.length })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {parsed.format === 'csv' && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>{t('clientImport.mapping.delimiter')}</Label>
+                  <Select
+                    value={parsed.delimiter ?? ''}
+                    onValueChange={(value) => reparse({ delimiter: value })}
+                    disabled={parseMutation.isPending}
+                  >
+                    <SelectTrigger data-testid="client-import-delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DELIMITERS).map(([delimiter, name]) => (
+                        <SelectItem key={name} value={delimiter}>
+                          {t(`clientImport.delimiters.${name}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('clientImport.mapping.encoding')}</Label>
+                  <Select
+                    value={parsed.encoding ?? ''}
+                    onValueChange={(value) => reparse({ encoding: value })}
+                    disabled={parseMutation.isPending}
+                  >
+                    <SelectTrigger data-testid="client-import-encoding">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENCODINGS.map((encoding) => (
+                        <SelectItem key={encoding} value={encoding}>
+                          {encoding}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             )}
-          </div>
 
-          {selectedFile && (
-            <div className="flex justify-center gap-4 mt-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {CLIENT_IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {t(`clientImport.fields.${field}`)}
+                    {field === 'name' && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[field]?.toString() ?? NONE}
+                    onValueChange={(value) => setFieldColumn(field, value)}
+                  >
+                    <SelectTrigger data-testid={`client-import-map-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>{t('clientImport.mapping.notImported')}</SelectItem>
+                      {parsed.headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || t('clientImport.mapping.column', { number: index + 1 })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* First rows as they will be read */}
+            <div>
+              <p className="text-sm font-medium mb-2">{t('clientImport.mapping.sample')}</p>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {CLIENT_IMPORT_FIELDS.map((field) => (
+                        <TableHead key={field}>{t(`clientImport.fields.${field}`)}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {mappedRows().slice(0, 3).map((row) => (
+                      <TableRow key={row.row}>
+                        {CLIENT_IMPORT_FIELDS.map((field) => (
+                          <TableCell key={field} className="text-muted-foreground">{row[field] || '-'}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-4">
+              <Button variant="outline" onClick={reset}>
+                {t('common.cancel', 'Mégse')}
+              </Button>
+              <Button
+                onClick={checkMapping}
+                disabled={mapping.name === null || dryRunMutation.isPending || parseMutation.isPending}
+                data-testid="client-import-check-btn"
+              >
+                {dryRunMutation.isPending ? t('common.loading', 'Betöltés...') : t('clientImport.mapping.check')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 3. Dry run review */}
+      {step === 'review' && dryRun && (
+        <Card data-testid="client-import-review">
+          <CardHeader>
+            <CardTitle>{t('clientImport.review.title')}</CardTitle>
+            <CardDescription data-testid="client-import-summary">
+              {t('clientImport.review.summary', {
+                total: dryRun.summary.total,
+                create: dryRun.summary.create,
+                update: dryRun.summary.update,
+                duplicate: dryRun.summary.duplicate,
+                invalid: dryRun.summary.invalid,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="client-import-placeholder-email"
+                  checked={placeholderEmail}
+                  onCheckedChange={(checked) => togglePlaceholderEmail(checked === true)}
+                  disabled={dryRunMutation.isPending || importMutation.isPending}
+                  data-testid="client-import-placeholder-email"
+                />
+                <Label htmlFor="client-import-placeholder-email">{t('clientImport.review.placeholderEmail')}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="client-import-only-problems"
+                  checked={onlyProblems}
+                  onCheckedChange={(checked) => setOnlyProblems(checked === true)}
+                />
+                <Label htmlFor="client-import-only-problems">{t('clientImport.review.onlyProblems')}</Label>
+              </div>
+            </div>
+
+            {isDirty && (
+              <p className="flex items-center gap-2 text-sm text-amber-600">
+                <AlertCircle className="h-4 w-4" />
+                {t('clientImport.review.edited')}
+              </p>
+            )}
+
+            <ClientImportReviewTable
+              rows={visibleRows}
+              checked={checkedRows}
+              onChange={updateCell}
+              disabled={importMutation.isPending}
+            />
+
+            <div className="flex justify-end gap-4">
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={importMutation.isPending}>
+                {t('clientImport.back')}
+              </Button>
               <Button
                 variant="outline"
-                onClick={() => {
-                  setSelectedFile(null)
-                  setImportResult(null)
-                }}
+                onClick={() => dryRunMutation.mutate({ rows, placeholderEmail })}
+                disabled={dryRunMutation.isPending || importMutation.isPending}
+                data-testid="client-import-recheck-btn"
               >
-                {t('common.cancel', 'Mégse')}
+                {t('clientImport.review.recheck')}
               </Button>
               <Button
-                onClick={handleImport}
-                disabled={importMutation.isPending}
+                onClick={() => importMutation.mutate()}
+                disabled={isDirty || willBeImported === 0 || dryRunMutation.isPending || importMutation.isPending}
+                data-testid="client-import-confirm-btn"
               >
-                {importMutation.isPending ? t('common.loading', 'Betöltés...') : t('clientImport.import', 'Importálás')}
+                {importMutation.isPending
+                  ? t('common.loading', 'Betöltés...')
+                  : t('clientImport.review.confirm', { count: willBeImported })}
               </Button>
             </div>
-          )}
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Loading state */}
-      {importMutation.isPending && (
+      {(parseMutation.isPending || dryRunMutation.isPending || importMutation.isPending) && (
         <Card>
           <CardContent className="py-6">
             <div className="space-y-3">
@@ -193,51 +568,58 @@ Példa János;;;PT;6000;1000`
         </Card>
       )}
 
-      {/* Results */}
-      {importResult && (
+      {/* 4. Results */}
+      {step === 'done' && importResult && (
         <>
-          {/* Summary */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="client-import-result">
             <Card>
               <CardContent className="pt-6">
-                <div className="text-2xl font-bold">{importResult.summary.total}</div>
-                <p className="text-sm text-muted-foreground">{t('clientImport.totalRows', 'Összes sor')}</p>
+                <div className="text-2xl font-bold">{importResult.batch.summary.total}</div>
+                <p className="text-sm text-muted-foreground">{t('clientImport.totalRows')}</p>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="pt-6">
-                <div className="text-2xl font-bold text-green-600">{importResult.summary.created}</div>
-                <p className="text-sm text-muted-foreground">{t('clientImport.created', 'Létrehozva')}</p>
+                <div className="text-2xl font-bold text-green-600">{importResult.batch.summary.created}</div>
+                <p className="text-sm text-muted-foreground">{t('clientImport.created')}</p>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="pt-6">
-                <div className="text-2xl font-bold text-blue-600">{importResult.summary.updated}</div>
-                <p className="text-sm text-muted-foreground">{t('clientImport.updated', 'Frissítve')}</p>
+                <div className="text-2xl font-bold text-blue-600">{importResult.batch.summary.updated}</div>
+                <p className="text-sm text-muted-foreground">{t('clientImport.updated')}</p>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="pt-6">
-                <div className="text-2xl font-bold text-red-600">{importResult.summary.errors}</div>
-                <p className="text-sm text-muted-foreground">{t('clientImport.errors', 'Hibák')}</p>
+                <div className="text-2xl font-bold text-red-600">{importResult.batch.summary.rejected}</div>
+                <p className="text-sm text-muted-foreground">{t('clientImport.rejected')}</p>
               </CardContent>
             </Card>
           </div>
 
-          {/* Errors */}
-          {importResult.errors.length > 0 && (
+          {importResult.rejected.length > 0 && (
             <Card className="border-destructive bg-destructive/10">
               <CardHeader className="pb-2">
                 <CardTitle className="flex items-center gap-2 text-destructive">
                   <AlertCircle className="h-5 w-5" />
-                  {t('clientImport.errorsTitle', 'Hibák az importálás során')}
+                  {t('clientImport.errorsTitle')}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <ul className="space-y-1">
-                  {importResult.errors.map((error, index) => (
-                    <li key={index} className="text-sm">
-                      <span className="font-medium">{t('clientImport.row', 'Sor')} {error.row}:</span> {error.error}
+                <ul className="space-y-2">
+                  {importResult.rejected.map((rejected) => (
+                    <li key={rejected.row} className="text-sm">
+                      <span className="font-medium">{t('clientImport.row')} {rejected.row}:</span>
+                      {rejected.status === 'duplicate' ? (
+                        <span className="ml-1">
+                          {rejected.duplicate_of
+                            ? t('clientImport.review.duplicateOfRow', { row: rejected.duplicate_of })
+                            : t('clientImport.rowStatus.duplicate')}
+                        </span>
+                      ) : (
+                        <ClientImportIssues issues={rejected.errors} />
+                      )}
                     </li>
                   ))}
                 </ul>
@@ -245,55 +627,40 @@ Példa János;;;PT;6000;1000`
             </Card>
           )}
 
-          {/* Imported clients table */}
           {importResult.imported.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle>{t('clientImport.importedClients', 'Importált vendégek')}</CardTitle>
+                <CardTitle>{t('clientImport.importedClients')}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="rounded-md border overflow-x-auto">
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>{t('clientImport.status', 'Státusz')}</TableHead>
-                        <TableHead>{t('clientImport.name', 'Név')}</TableHead>
-                        <TableHead>{t('clientImport.email', 'Email')}</TableHead>
-                        <TableHead>{t('clientImport.phone', 'Telefon')}</TableHead>
-                        <TableHead>{t('clientImport.service', 'Szolgáltatás')}</TableHead>
-                        <TableHead className="text-right">{t('clientImport.trainerFee', 'Edzői díj')}</TableHead>
-                        <TableHead className="text-right">{t('clientImport.entryFee', 'Belépő díj')}</TableHead>
+                        <TableHead>{t('clientImport.status')}</TableHead>
+                        <TableHead>{t('clientImport.name')}</TableHead>
+                        <TableHead>{t('clientImport.email')}</TableHead>
+                        <TableHead>{t('clientImport.service')}</TableHead>
+                        <TableHead className="text-right">{t('clientImport.trainerFee')}</TableHead>
+                        <TableHead className="text-right">{t('clientImport.entryFee')}</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {importResult.imported.map((client, index) => (
-                        <TableRow key={index}>
-                          <TableCell>
-                            {client.created ? (
-                              <Badge variant="default" className="bg-green-500">
-                                <CheckCircle className="w-3 h-3 mr-1" />
-                                {t('clientImport.new', 'Új')}
-                              </Badge>
-                            ) : (
-                              <Badge variant="secondary">
-                                <XCircle className="w-3 h-3 mr-1" />
-                                {t('clientImport.existing', 'Frissítve')}
-                              </Badge>
-                            )}
-                          </TableCell>
+                      {importResult.imported.map((client) => (
+                        <TableRow key={client.row}>
+                          <TableCell><ClientImportStatus status={client.status} /></TableCell>
                           <TableCell className="font-medium">{client.name}</TableCell>
                           <TableCell className="text-muted-foreground">
                             {client.email}
-                            {client.email_auto_generated && (
+                            {client.placeholder_email && (
                               <Badge variant="outline" className="ml-2 text-xs">
-                                {t('clientImport.autoGenerated', 'auto')}
+                                {t('clientImport.autoGenerated')}
                               </Badge>
                             )}
                           </TableCell>
-                          <TableCell className="text-muted-foreground">{client.phone}</TableCell>
                           <TableCell>{client.service_type || '-'}</TableCell>
-                          <TableCell className="text-right">{client.trainer_fee.toLocaleString()} Ft</TableCell>
-                          <TableCell className="text-right">{client.entry_fee.toLocaleString()} Ft</TableCell>
+                          <TableCell className="text-right">{(client.trainer_fee ?? 0).toLocaleString()} Ft</TableCell>
+                          <TableCell className="text-right">{(client.entry_fee ?? 0).toLocaleString()} Ft</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -302,8 +669,92 @@ Példa János;;;PT;6000;1000`
               </CardContent>
             </Card>
           )}
+
+          <div className="flex justify-end gap-4">
+            {importResult.batch.status === 'completed' && (
+              <Button
+                variant="outline"
+                onClick={() => handleUndo(importResult.batch.id)}
+                disabled={undoMutation.isPending}
+                data-testid="client-import-undo-btn"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                {t('clientImport.undo.button')}
+              </Button>
+            )}
+            <Button onClick={reset}>{t('clientImport.importAnother')}</Button>
+          </div>
         </>
       )}
+
+      {/* Recent batches */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('clientImport.batches.title')}</CardTitle>
+          <CardDescription>{t('clientImport.batches.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {batchesLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !batches || batches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('clientImport.batches.empty')}</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('clientImport.batches.date')}</TableHead>
+                    <TableHead>{t('clientImport.batches.file')}</TableHead>
+                    <TableHead>{t('clientImport.batches.by')}</TableHead>
+                    <TableHead className="text-right">{t('clientImport.created')}</TableHead>
+                    <TableHead className="text-right">{t('clientImport.updated')}</TableHead>
+                    <TableHead className="text-right">{t('clientImport.rejected')}</TableHead>
+                    <TableHead>{t('clientImport.status')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map((batch) => (
+                    <TableRow key={batch.id} data-testid={`client-import-batch-${batch.id}`}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(batch.created_at), 'yyyy. MM. dd. HH:mm')}</TableCell>
+                      <TableCell>{batch.file_name || '-'}</TableCell>
+                      <TableCell>{batch.created_by || '-'}</TableCell>
+                      <TableCell className="text-right">{batch.summary.created}</TableCell>
+                      <TableCell className="text-right">{batch.summary.updated}</TableCell>
+                      <TableCell className="text-right">{batch.summary.rejected}</TableCell>
+                      <TableCell>
+                        {batch.status === 'undone' ? (
+                          <Badge variant="secondary">
+                            {t('clientImport.batches.undone', {
+                              date: batch.undone_at ? format(parseISO(batch.undone_at), 'yyyy. MM. dd. HH:mm') : '',
+                            })}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">{t('clientImport.batches.completed')}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {batch.status === 'completed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleUndo(batch.id)}
+                            disabled={undoMutation.isPending}
+                            data-testid={`client-import-batch-undo-${batch.id}`}
+                          >
+                            <Undo2 className="w-4 h-4 mr-1" />
+                            {t('clientImport.undo.button')}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
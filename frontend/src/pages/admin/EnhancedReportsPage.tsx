@@ -1,8 +1,8 @@
 import { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
 import { reportsApi, adminKeys } from '@/api/admin'
-import { adminReportsApi } from '@/api/reports'
+import { adminReportsApi, reportKeys } from '@/api/reports'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
@@ -24,6 +24,7 @@ import { format, subDays } from 'date-fns'
 export default function EnhancedReportsPage() {
   const { t } = useTranslation(['admin', 'common'])
   const { toast } = useToast()
+  const queryClient = useQueryClient()
 
   // Date range state - default to last 30 days
   const [dateFrom, setDateFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'))
@@ -61,28 +62,12 @@ export default function EnhancedReportsPage() {
   ) => {
     try {
       setIsExporting(true)
-      toast({
-        title: t('reports.downloading'),
-        description: t('reports.exportToExcel'),
-      })
-
-      const blob = await adminReportsApi.exportReport(reportType, dateFrom, dateTo, 'xlsx')
-
-      // Create download link
-      const url = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `${reportType}_${dateFrom}_${dateTo}.xlsx`
-      document.body.appendChild(link)
-      link.click()
-
-      // Cleanup
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(url)
+      await adminReportsApi.exportReport(reportType, dateFrom, dateTo, 'xlsx')
+      queryClient.invalidateQueries({ queryKey: reportKeys.exports() })
 
       toast({
-        title: t('reports.downloadSuccess'),
-        description: `${reportType}_${dateFrom}_${dateTo}.xlsx`,
+        title: t('reports.exportQueued'),
+        description: t('reports.exportQueuedDescription'),
       })
     } catch (error) {
       console.error('Export error:', error)
@@ -0,0 +1,392 @@
+import { useState, useCallback } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { useDropzone } from 'react-dropzone'
+import { Upload, FileText, AlertCircle, Download } from 'lucide-react'
+import { eventsApi, eventKeys } from '@/api/events'
+import { usersApi, roomsApi, adminKeys } from '@/api/admin'
+import type { EventImportOptions, EventImportPreview, EventImportResult } from '@/types/event'
+import { useToast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { EventImportPreviewTable, EventImportErrors } from '@/components/admin/EventImportPreviewTable'
+
+const NONE = 'none'
+
+export default function EventImportPage() {
+  const { t } = useTranslation('admin')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [options, setOptions] = useState<EventImportOptions>({})
+  const [preview, setPreview] = useState<EventImportPreview | null>(null)
+  const [skipRows, setSkipRows] = useState<Set<number>>(new Set())
+  const [importResult, setImportResult] = useState<EventImportResult | null>(null)
+
+  const { data: staffUsers } = useQuery({
+    queryKey: adminKeys.usersList({ role: 'staff' }),
+    queryFn: () => usersApi.list({ role: 'staff' }),
+  })
+
+  const { data: rooms } = useQuery({
+    queryKey: adminKeys.roomsList(),
+    queryFn: () => roomsApi.list(),
+  })
+
+  const staffOptions = (staffUsers?.data ?? [])
+    .filter((user) => user.staff_profile)
+    .map((user) => ({ id: user.staff_profile!.id, name: user.name }))
+
+  const onError = (error: Error & { response?: { data?: { message?: string } } }) => {
+    toast({
+      variant: 'destructive',
+      title: t('eventImport.error'),
+      description: error.response?.data?.message || error.message,
+    })
+  }
+
+  const previewMutation = useMutation({
+    mutationFn: (file: File) => eventsApi.adminImportPreview(file, options),
+    onSuccess: (data) => {
+      setPreview(data)
+      // Conflicting rows are skipped unless the admin keeps them, as in the recurring preview
+      setSkipRows(new Set(data.rows.filter((row) => row.status === 'conflict').map((row) => row.row)))
+    },
+    onError,
+  })
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => eventsApi.adminImport(file, options, Array.from(skipRows)),
+    onSuccess: (data) => {
+      setImportResult(data)
+      setPreview(null)
+      setSelectedFile(null)
+      queryClient.invalidateQueries({ queryKey: eventKeys.all })
+      toast({
+        title: t('eventImport.success'),
+        description: t('eventImport.successDescription', {
+          created: data.summary.created,
+          rejected: data.summary.rejected,
+        }),
+      })
+    },
+    onError,
+  })
+
+  const reset = () => {
+    setSelectedFile(null)
+    setPreview(null)
+    setImportResult(null)
+  }
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length > 0) {
+      setSelectedFile(acceptedFiles[0])
+      setPreview(null)
+      setImportResult(null)
+    }
+  }, [])
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/calendar': ['.ics'],
+      'text/csv': ['.csv'],
+      'text/plain': ['.txt'],
+    },
+    maxFiles: 1,
+    maxSize: 5 * 1024 * 1024, // 5MB
+  })
+
+  // The preview depends on the defaults, so changing them asks for a new preview
+  const setOption = (key: keyof EventImportOptions, value: string) => {
+    setOptions((prev) => ({ ...prev, [key]: value === NONE ? undefined : Number(value) }))
+    setPreview(null)
+  }
+
+  const handleToggleSkip = (row: number) => {
+    setSkipRows((prev) => {
+      const next = new Set(prev)
+      if (next.has(row)) {
+        next.delete(row)
+      } else {
+        next.add(row)
+      }
+      return next
+    })
+  }
+
+  const willBeCreated = preview
+    ? preview.rows.filter((row) => row.status !== 'invalid' && !skipRows.has(row.row)).length
+    : 0
+
+  const downloadSampleCsv = () => {
+    const sampleData = `date;start;end;room;staff;client;service_type;type;notes
+2025-03-10;09:00;10:00;Terem 1;Kiss Anna;Nagy Péter;PT;INDIVIDUAL;Első alkalom
+2025-03-10;10:00;11:00;Terem 1;anna@example.com;peter@example.com;PT;;
+2025-03-11;12:00;13:00;Terem 2;Kiss Anna;;;BLOCK;Karbantartás`
+
+    const blob = new Blob([sampleData], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = 'esemeny_import_minta.csv'
+    link.click()
+  }
+
+  return (
+    <div className="container py-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">{t('eventImport.title')}</h1>
+          <p className="text-muted-foreground mt-1">{t('eventImport.description')}</p>
+        </div>
+        <Button variant="outline" onClick={downloadSampleCsv}>
+          <Download className="w-4 h-4 mr-2" />
+          {t('eventImport.downloadSample')}
+        </Button>
+      </div>
+
+      {/* Format info */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('eventImport.formatTitle')}</CardTitle>
+          <CardDescription>{t('eventImport.formatDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="bg-muted p-4 rounded-md font-mono text-sm">
+            <p className="font-semibold mb-2">{t('eventImport.csvColumns')}</p>
+            <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+              <li><span className="text-foreground font-medium">date</span> - {t('eventImport.colDate')}</li>
+              <li><span className="text-foreground font-medium">start</span>, <span className="text-foreground font-medium">end</span> - {t('eventImport.colTime')}</li>
+              <li><span className="text-foreground font-medium">room</span> - {t('eventImport.colRoom')}</li>
+              <li><span className="text-foreground font-medium">staff</span> - {t('eventImport.colStaff')}</li>
+              <li><span className="text-foreground font-medium">client</span> - {t('eventImport.colClient')}</li>
+              <li><span className="text-foreground font-medium">service_type</span> - {t('eventImport.colServiceType')}</li>
+              <li><span className="text-foreground font-medium">type</span> - {t('eventImport.colType')}</li>
+              <li><span className="text-foreground font-medium">notes</span> - {t('eventImport.colNotes')}</li>
+            </ul>
+          </div>
+          <div className="bg-muted p-4 rounded-md font-mono text-sm">
+            <p className="font-semibold mb-2">{t('eventImport.icsMapping')}</p>
+            <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+              <li><span className="text-foreground font-medium">LOCATION</span> - {t('eventImport.icsLocation')}</li>
+              <li><span className="text-foreground font-medium">ORGANIZER, ATTENDEE</span> - {t('eventImport.icsPeople')}</li>
+              <li><span className="text-foreground font-medium">CATEGORIES</span> - {t('eventImport.icsCategories')}</li>
+              <li><span className="text-foreground font-medium">SUMMARY, DESCRIPTION</span> - {t('eventImport.icsNotes')}</li>
+            </ul>
+            <p className="mt-2 text-muted-foreground">{t('eventImport.icsLimitations')}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* File upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('eventImport.uploadTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div
+            {...getRootProps()}
+            className={`
+              border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
+              ${isDragActive ? 'border-primary bg-primary/5' : 'border-muted-foreground/25 hover:border-primary/50'}
+              ${selectedFile ? 'border-green-500 bg-green-50 dark:bg-green-950/20' : ''}
+            `}
+            data-testid="event-import-dropzone"
+          >
+            <input {...getInputProps()} data-testid="event-import-file" />
+            {selectedFile ? (
+              <div className="flex flex-col items-center gap-2">
+                <FileText className="w-12 h-12 text-green-500" />
+                <p className="font-medium">{selectedFile.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {(selectedFile.size / 1024).toFixed(1)} KB
+                </p>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-2">
+                <Upload className="w-12 h-12 text-muted-foreground" />
+                <p className="font-medium">
+                  {isDragActive ? t('eventImport.dropHere') : t('eventImport.dragOrClick')}
+                </p>
+                <p className="text-sm text-muted-foreground">{t('eventImport.maxSize')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Defaults for rows without a room or trainer */}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('eventImport.defaultRoom')}</Label>
+              <Select
+                value={options.default_room_id?.toString() ?? NONE}
+                onValueChange={(value) => setOption('default_room_id', value)}
+              >
+                <SelectTrigger data-testid="event-import-default-room">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('eventImport.noDefault')}</SelectItem>
+                  {(rooms ?? []).map((room) => (
+                    <SelectItem key={room.id} value={room.id.toString()}>
+                      {room.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('eventImport.defaultStaff')}</Label>
+              <Select
+                value={options.default_staff_id?.toString() ?? NONE}
+                onValueChange={(value) => setOption('default_staff_id', value)}
+              >
+                <SelectTrigger data-testid="event-import-default-staff">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('eventImport.noDefault')}</SelectItem>
+                  {staffOptions.map((staff) => (
+                    <SelectItem key={staff.id} value={staff.id.toString()}>
+                      {staff.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {selectedFile && !preview && (
+            <div className="flex justify-center gap-4">
+              <Button variant="outline" onClick={reset}>
+                {t('common.cancel', 'Mégse')}
+              </Button>
+              <Button
+                onClick={() => previewMutation.mutate(selectedFile)}
+                disabled={previewMutation.isPending}
+                data-testid="event-import-preview-btn"
+              >
+                {previewMutation.isPending ? t('common.loading', 'Betöltés...') : t('eventImport.preview.button')}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Loading state */}
+      {(previewMutation.isPending || importMutation.isPending) && (
+        <Card>
+          <CardContent className="py-6">
+            <div className="space-y-3">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-4 w-1/2" />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {preview && selectedFile && (
+        <Card data-testid="event-import-preview">
+          <CardHeader>
+            <CardTitle>{t('eventImport.preview.title')}</CardTitle>
+            <CardDescription>
+              {t('eventImport.preview.summary', {
+                total: preview.summary.total,
+                ok: preview.summary.ok,
+                conflict: preview.summary.conflict,
+                invalid: preview.summary.invalid,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <EventImportPreviewTable
+              rows={preview.rows}
+              skipRows={skipRows}
+              onToggleSkip={handleToggleSkip}
+              disabled={importMutation.isPending}
+            />
+
+            <div className="flex justify-end gap-4">
+              <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+                {t('common.cancel', 'Mégse')}
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(selectedFile)}
+                disabled={importMutation.isPending || willBeCreated === 0}
+                data-testid="event-import-confirm-btn"
+              >
+                {importMutation.isPending
+                  ? t('common.loading', 'Betöltés...')
+                  : t('eventImport.preview.confirm', { count: willBeCreated })}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Results */}
+      {importResult && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="event-import-result">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{importResult.summary.total}</div>
+                <p className="text-sm text-muted-foreground">{t('eventImport.totalRows')}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold text-green-600">{importResult.summary.created}</div>
+                <p className="text-sm text-muted-foreground">{t('eventImport.created')}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold text-blue-600">{importResult.summary.skipped}</div>
+                <p className="text-sm text-muted-foreground">{t('eventImport.skipped')}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold text-red-600">{importResult.summary.rejected}</div>
+                <p className="text-sm text-muted-foreground">{t('eventImport.rejected')}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {importResult.rejected.length > 0 && (
+            <Card className="border-destructive bg-destructive/10">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-destructive">
+                  <AlertCircle className="h-5 w-5" />
+                  {t('eventImport.rejectedTitle')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {importResult.rejected.map((rejected) => (
+                    <li key={rejected.row} className="text-sm" data-testid={`event-import-rejected-${rejected.row}`}>
+                      <span className="font-medium">{t('eventImport.preview.row')} {rejected.row}:</span>
+                      <EventImportErrors errors={rejected.errors} />
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
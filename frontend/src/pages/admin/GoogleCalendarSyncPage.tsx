@@ -29,6 +29,8 @@ export default function GoogleCalendarSyncPage() {
   const { data: configs, isLoading: configsLoading } = useQuery({
     queryKey: googleCalendarSyncKeys.configsList(),
     queryFn: syncConfigsApi.list,
+    // Keep next run and health current while the scheduler runs
+    refetchInterval: 60_000,
   })
 
   // Fetch logs
@@ -57,6 +59,30 @@ export default function GoogleCalendarSyncPage() {
     },
   })
 
+  // Run a config's scheduled sync right away
+  const syncNowMutation = useMutation({
+    mutationFn: (id: number) => syncConfigsApi.syncNow(id),
+    onSuccess: (log) => {
+      queryClient.invalidateQueries({ queryKey: googleCalendarSyncKeys.all })
+      toast({
+        title: t('googleCalendarSync.syncCompleted'),
+        description: t('googleCalendarSync.syncCompletedDescription', {
+          created: log.events_created,
+          updated: log.events_updated,
+          failed: log.events_failed,
+        }),
+      })
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: googleCalendarSyncKeys.all })
+      toast({
+        title: t('googleCalendarSync.syncFailed'),
+        description: error.response?.data?.message || error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
   const handleCreateConfig = () => {
     setSelectedConfig(null)
     setConfigDialogOpen(true)
@@ -133,6 +159,8 @@ export default function GoogleCalendarSyncPage() {
             onDelete={handleDeleteConfig}
             onImport={handleImport}
             onExport={handleExport}
+            onSyncNow={(config) => syncNowMutation.mutate(config.id)}
+            syncingId={syncNowMutation.isPending ? syncNowMutation.variables : null}
           />
         </TabsContent>
 
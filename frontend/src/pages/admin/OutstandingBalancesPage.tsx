@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQuery } from '@tanstack/react-query'
+import { format, parseISO } from 'date-fns'
+import { clientLedgerApi, clientLedgerKeys } from '@/api/clientLedger'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ClientLedgerSection } from '@/components/admin/ClientLedgerSection'
+import { Wallet } from 'lucide-react'
+import type { OutstandingBalanceRow } from '@/types/client'
+
+/**
+ * Formats a number as Hungarian Forint currency
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('hu-HU', {
+    style: 'decimal',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount) + ' Ft'
+}
+
+export default function OutstandingBalancesPage() {
+  const { t } = useTranslation('admin')
+
+  const [minBalance, setMinBalance] = useState('')
+  const [selectedClient, setSelectedClient] = useState<OutstandingBalanceRow | null>(null)
+
+  const minBalanceValue = Number(minBalance) > 0 ? Number(minBalance) : undefined
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: clientLedgerKeys.outstanding(minBalanceValue),
+    queryFn: () => clientLedgerApi.outstanding(minBalanceValue),
+  })
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('outstandingBalances.title')}</h1>
+        <p className="text-gray-500 mt-2">{t('outstandingBalances.subtitle')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{t('outstandingBalances.totalOutstanding')}</CardDescription>
+            <CardTitle className="text-2xl" data-testid="outstanding-total">
+              {formatCurrency(report?.summary.total_outstanding ?? 0)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{t('outstandingBalances.clientCount')}</CardDescription>
+            <CardTitle className="text-2xl">{report?.summary.client_count ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <Label htmlFor="outstanding_min_balance">{t('outstandingBalances.minBalance')}</Label>
+            <Input
+              id="outstanding_min_balance"
+              type="number"
+              min={0}
+              step={1000}
+              value={minBalance}
+              onChange={(e) => setMinBalance(e.target.value)}
+              data-testid="outstanding-min-balance-input"
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !report || report.clients.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">{t('outstandingBalances.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('outstandingBalances.client')}</TableHead>
+                    <TableHead className="text-right">{t('outstandingBalances.sessions')}</TableHead>
+                    <TableHead className="text-right">{t('outstandingBalances.classes')}</TableHead>
+                    <TableHead className="text-right">{t('outstandingBalances.passes')}</TableHead>
+                    <TableHead className="text-right">{t('outstandingBalances.payments')}</TableHead>
+                    <TableHead className="text-right">{t('outstandingBalances.balance')}</TableHead>
+                    <TableHead>{t('outstandingBalances.lastPayment')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.clients.map((row) => (
+                    <TableRow key={row.client_id} data-testid={`outstanding-row-${row.client_id}`}>
+                      <TableCell>
+                        <div className="font-medium">{row.client_name}</div>
+                        {row.client_email && <div className="text-xs text-gray-500">{row.client_email}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.session_charges)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.class_charges)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.pass_charges)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.payments)}</TableCell>
+                      <TableCell className="text-right font-semibold text-red-600">{formatCurrency(row.balance)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {row.last_payment_at ? format(parseISO(row.last_payment_at), 'yyyy.MM.dd') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedClient(row)}
+                          data-testid={`outstanding-open-${row.client_id}`}
+                        >
+                          <Wallet className="h-4 w-4 mr-1" />
+                          {t('outstandingBalances.openLedger')}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedClient !== null} onOpenChange={(open) => !open && setSelectedClient(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedClient?.client_name}</DialogTitle>
+          </DialogHeader>
+          {selectedClient && <ClientLedgerSection clientId={selectedClient.client_id} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
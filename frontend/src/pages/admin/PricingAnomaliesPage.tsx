@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format, startOfMonth, subMonths } from 'date-fns'
+import { pricingAnomaliesApi, pricingKeys } from '@/api/pricing'
+import { serviceTypesApi, serviceTypeKeys, pricingResolveKeys } from '@/api/serviceTypes'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AssignPricingDialog } from '@/components/pricing/AssignPricingDialog'
+import { PricingAnomalyGroup } from '@/components/pricing/PricingAnomalyGroup'
+import { useToast } from '@/hooks/use-toast'
+import { RefreshCw } from 'lucide-react'
+import type { PricingAnomaly, PricingAnomalyFilters, PricingAnomalyType } from '@/types/pricing'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
+
+/**
+ * Formats a number as Hungarian Forint currency
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('hu-HU', {
+    style: 'decimal',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount) + ' Ft'
+}
+
+const ANOMALY_TYPES: PricingAnomalyType[] = ['missing_price', 'unexpected_fallback', 'no_service_type']
+
+export default function PricingAnomaliesPage() {
+  const { t } = useTranslation('admin')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [from, setFrom] = useState(format(startOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [serviceTypeFilter, setServiceTypeFilter] = useState<number | undefined>()
+  const [anomalyFilter, setAnomalyFilter] = useState<PricingAnomalyType | undefined>()
+  const [selectedEventIds, setSelectedEventIds] = useState<number[]>([])
+  const [overrideEvent, setOverrideEvent] = useState<PricingAnomaly | null>(null)
+
+  const filters: PricingAnomalyFilters = { from, to, service_type_id: serviceTypeFilter }
+
+  const { data: anomalies, isLoading } = useQuery({
+    queryKey: pricingKeys.anomalies(filters),
+    queryFn: () => pricingAnomaliesApi.list(filters),
+    enabled: !!from && !!to,
+  })
+
+  const { data: serviceTypes } = useQuery({
+    queryKey: serviceTypeKeys.list(),
+    queryFn: () => serviceTypesApi.list(),
+  })
+
+  // One group per client and service type
+  const groups = useMemo(() => {
+    const visible = (anomalies ?? []).filter((anomaly) => !anomalyFilter || anomaly.anomaly === anomalyFilter)
+    const byKey = new Map<string, PricingAnomaly[]>()
+
+    visible.forEach((anomaly) => {
+      const key = `${anomaly.client.id}:${anomaly.service_type?.id ?? 'none'}`
+      byKey.set(key, [...(byKey.get(key) ?? []), anomaly])
+    })
+
+    return Array.from(byKey.entries())
+      .map(([key, items]) => ({ key, items }))
+      .sort((a, b) => a.items[0].client.name.localeCompare(b.items[0].client.name))
+  }, [anomalies, anomalyFilter])
+
+  const refreshAnomalies = () => {
+    queryClient.invalidateQueries({ queryKey: [...pricingKeys.all, 'anomalies'] })
+    queryClient.invalidateQueries({ queryKey: ['events'] })
+  }
+
+  const resolveMutation = useMutation({
+    mutationFn: (eventIds: number[]) => pricingAnomaliesApi.resolve(eventIds),
+    onSuccess: (result) => {
+      setSelectedEventIds([])
+      refreshAnomalies()
+      toast({
+        title: t('pricingAnomalies.resolveSuccess', { count: result.updated.length }),
+        description: t('pricingAnomalies.resolveSummary', {
+          unchanged: result.unchanged.length,
+          failed: result.failed.length,
+        }),
+        variant: result.failed.length > 0 ? 'destructive' : 'default',
+      })
+    },
+    onError: (error: AxiosError<ApiError>) => {
+      toast({
+        variant: 'destructive',
+        title: t('pricingAnomalies.resolveError'),
+        description: error.response?.data?.message,
+      })
+    },
+  })
+
+  const toggleEvents = (eventIds: number[], checked: boolean) => {
+    setSelectedEventIds((current) =>
+      checked
+        ? Array.from(new Set([...current, ...eventIds]))
+        : current.filter((id) => !eventIds.includes(id))
+    )
+  }
+
+  const handleResolveSelected = () => {
+    // The group headers show the price pricingResolveApi returns now; make sure it is fresh before storing it
+    queryClient.invalidateQueries({ queryKey: pricingResolveKeys.all })
+    resolveMutation.mutate(selectedEventIds)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('pricingAnomalies.title')}</h1>
+        <p className="text-gray-500 mt-2">{t('pricingAnomalies.subtitle')}</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="anomalies_from">{t('pricingAnomalies.from')}</Label>
+              <Input
+                id="anomalies_from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                data-testid="anomalies-from-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="anomalies_to">{t('pricingAnomalies.to')}</Label>
+              <Input
+                id="anomalies_to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                data-testid="anomalies-to-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('pricingAnomalies.serviceType')}</Label>
+              <Select
+                value={serviceTypeFilter?.toString() ?? 'all'}
+                onValueChange={(value) => setServiceTypeFilter(value === 'all' ? undefined : parseInt(value))}
+              >
+                <SelectTrigger data-testid="anomalies-service-type-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('pricingAnomalies.allServiceTypes')}</SelectItem>
+                  {serviceTypes?.map((serviceType) => (
+                    <SelectItem key={serviceType.id} value={serviceType.id.toString()}>
+                      {serviceType.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('pricingAnomalies.problem')}</Label>
+              <Select
+                value={anomalyFilter ?? 'all'}
+                onValueChange={(value) => setAnomalyFilter(value === 'all' ? undefined : (value as PricingAnomalyType))}
+              >
+                <SelectTrigger data-testid="anomalies-type-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('pricingAnomalies.allProblems')}</SelectItem>
+                  {ANOMALY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(`pricingAnomalies.types.${type}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Anomalies */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>{t('pricingAnomalies.listTitle')}</CardTitle>
+            <CardDescription>{t('pricingAnomalies.listDescription')}</CardDescription>
+          </div>
+          <Button
+            onClick={handleResolveSelected}
+            disabled={selectedEventIds.length === 0 || resolveMutation.isPending}
+            data-testid="resolve-selected-btn"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${resolveMutation.isPending ? 'animate-spin' : ''}`} />
+            {t('pricingAnomalies.resolveSelected', { count: selectedEventIds.length })}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-32 w-full" />
+              ))}
+            </div>
+          ) : groups.length > 0 ? (
+            <div className="space-y-4">
+              {groups.map(({ key, items }) => (
+                <PricingAnomalyGroup
+                  key={key}
+                  clientId={items[0].client.id}
+                  clientName={items[0].client.name}
+                  serviceType={items[0].service_type}
+                  anomalies={items}
+                  selectedEventIds={selectedEventIds}
+                  onToggleEvent={(eventId, checked) => toggleEvents([eventId], checked)}
+                  onToggleGroup={toggleEvents}
+                  onOverride={setOverrideEvent}
+                  formatCurrency={formatCurrency}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-gray-500" data-testid="no-anomalies-found">
+              <p>{t('pricingAnomalies.noAnomalies')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AssignPricingDialog
+        open={overrideEvent !== null}
+        onOpenChange={(open) => !open && setOverrideEvent(null)}
+        eventId={overrideEvent?.event_id}
+        eventTitle={
+          overrideEvent
+            ? `${overrideEvent.client.name} · ${format(new Date(overrideEvent.starts_at), 'yyyy-MM-dd HH:mm')}`
+            : undefined
+        }
+        onSuccess={refreshAnomalies}
+      />
+    </div>
+  )
+}
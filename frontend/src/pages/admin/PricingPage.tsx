@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { classPricingDefaultsApi, pricingKeys } from '@/api/pricing'
@@ -11,8 +11,10 @@ import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PriceTimeline } from '@/components/pricing/PriceTimeline'
+import { SchedulePriceChangeDialog } from '@/components/pricing/SchedulePriceChangeDialog'
 import { useToast } from '@/hooks/use-toast'
-import { Plus, Filter, Edit, Power, Trash2 } from 'lucide-react'
+import { Plus, Filter, Edit, Power, Trash2, History, List, CalendarClock } from 'lucide-react'
 import { format } from 'date-fns'
 import type { CreateClassPricingDefaultRequest, ClassPricingDefault } from '@/types/pricing'
 
@@ -37,6 +39,8 @@ export default function PricingPage() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [selectedPricing, setSelectedPricing] = useState<ClassPricingDefault | null>(null)
+  const [showTimeline, setShowTimeline] = useState(false)
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false)
 
   // Form state for creating new pricing
   const [formData, setFormData] = useState<CreateClassPricingDefaultRequest>({
@@ -57,6 +61,15 @@ export default function PricingPage() {
       classPricingDefaultsApi.list({ class_template_id: classTemplateFilter, is_active: activeFilter }),
   })
 
+  // One price history per class template
+  const timelines = useMemo(() => {
+    const byTemplate = new Map<number, ClassPricingDefault[]>()
+    pricingList?.forEach((pricing) => {
+      byTemplate.set(pricing.class_template_id, [...(byTemplate.get(pricing.class_template_id) ?? []), pricing])
+    })
+    return Array.from(byTemplate.values())
+  }, [pricingList])
+
   // Fetch class templates for dropdown
   const { data: classTemplates } = useQuery({
     queryKey: adminKeys.classTemplatesList({ is_active: true }),
@@ -239,121 +252,127 @@ export default function PricingPage() {
           <h1 className="text-3xl font-bold tracking-tight">{t('pricing.title')}</h1>
           <p className="text-gray-500 mt-2">{t('pricing.subtitle')}</p>
         </div>
-        <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="create-pricing-btn">
-              <Plus className="h-4 w-4 mr-2" />
-              {t('pricing.createPricing')}
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle>{t('pricing.createPricing')}</DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              {/* Name */}
-              <div className="space-y-2">
-                <Label htmlFor="name">{t('pricing.pricingName')} ({t('pricing.optional')})</Label>
-                <Input
-                  id="name"
-                  type="text"
-                  placeholder={t('pricing.pricingNamePlaceholder')}
-                  value={formData.name || ''}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value || null })}
-                  data-testid="name-input"
-                />
-              </div>
-
-              {/* Class Template Select */}
-              <div className="space-y-2">
-                <Label htmlFor="class_template_id">{t('pricing.classTemplate')}</Label>
-                <Select
-                  value={formData.class_template_id.toString()}
-                  onValueChange={(value) =>
-                    setFormData({ ...formData, class_template_id: parseInt(value) })
-                  }
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setScheduleDialogOpen(true)} data-testid="schedule-price-change-btn">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {t('priceSchedule.open')}
+          </Button>
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="create-pricing-btn">
+                <Plus className="h-4 w-4 mr-2" />
+                {t('pricing.createPricing')}
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>{t('pricing.createPricing')}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                {/* Name */}
+                <div className="space-y-2">
+                  <Label htmlFor="name">{t('pricing.pricingName')} ({t('pricing.optional')})</Label>
+                  <Input
+                    id="name"
+                    type="text"
+                    placeholder={t('pricing.pricingNamePlaceholder')}
+                    value={formData.name || ''}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value || null })}
+                    data-testid="name-input"
+                  />
+                </div>
+
+                {/* Class Template Select */}
+                <div className="space-y-2">
+                  <Label htmlFor="class_template_id">{t('pricing.classTemplate')}</Label>
+                  <Select
+                    value={formData.class_template_id.toString()}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, class_template_id: parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger data-testid="class-template-select">
+                      <SelectValue placeholder={t('pricing.selectClassTemplate')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {classTemplates?.map((template) => (
+                        <SelectItem key={template.id} value={template.id.toString()}>
+                          {template.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Entry Fee */}
+                <div className="space-y-2">
+                  <Label htmlFor="entry_fee_brutto">{t('pricing.entryFee')}</Label>
+                  <Input
+                    id="entry_fee_brutto"
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={formData.entry_fee_brutto}
+                    onChange={(e) =>
+                      setFormData({ ...formData, entry_fee_brutto: parseInt(e.target.value) || 0 })
+                    }
+                    data-testid="entry-fee-input"
+                  />
+                </div>
+
+                {/* Trainer Fee */}
+                <div className="space-y-2">
+                  <Label htmlFor="trainer_fee_brutto">{t('pricing.trainerFee')}</Label>
+                  <Input
+                    id="trainer_fee_brutto"
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={formData.trainer_fee_brutto}
+                    onChange={(e) =>
+                      setFormData({ ...formData, trainer_fee_brutto: parseInt(e.target.value) || 0 })
+                    }
+                    data-testid="trainer-fee-input"
+                  />
+                </div>
+
+                {/* Valid From */}
+                <div className="space-y-2">
+                  <Label htmlFor="valid_from">{t('pricing.validFrom')}</Label>
+                  <Input
+                    id="valid_from"
+                    type="date"
+                    value={formData.valid_from}
+                    onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })}
+                    data-testid="valid-from-input"
+                  />
+                </div>
+
+                {/* Valid Until (optional) */}
+                <div className="space-y-2">
+                  <Label htmlFor="valid_until">{t('pricing.validUntil')} ({t('pricing.optional')})</Label>
+                  <Input
+                    id="valid_until"
+                    type="date"
+                    value={formData.valid_until || ''}
+                    onChange={(e) => setFormData({ ...formData, valid_until: e.target.value || null })}
+                    data-testid="valid-until-input"
+                  />
+                </div>
+
+                {/* Submit Button */}
+                <Button
+                  onClick={handleCreatePricing}
+                  disabled={createMutation.isPending}
+                  className="w-full"
+                  data-testid="submit-pricing-btn"
                 >
-                  <SelectTrigger data-testid="class-template-select">
-                    <SelectValue placeholder={t('pricing.selectClassTemplate')} />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {classTemplates?.map((template) => (
-                      <SelectItem key={template.id} value={template.id.toString()}>
-                        {template.title}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                  {createMutation.isPending ? t('common:loading') : t('pricing.create')}
+                </Button>
               </div>
-
-              {/* Entry Fee */}
-              <div className="space-y-2">
-                <Label htmlFor="entry_fee_brutto">{t('pricing.entryFee')}</Label>
-                <Input
-                  id="entry_fee_brutto"
-                  type="number"
-                  min="0"
-                  step="100"
-                  value={formData.entry_fee_brutto}
-                  onChange={(e) =>
-                    setFormData({ ...formData, entry_fee_brutto: parseInt(e.target.value) || 0 })
-                  }
-                  data-testid="entry-fee-input"
-                />
-              </div>
-
-              {/* Trainer Fee */}
-              <div className="space-y-2">
-                <Label htmlFor="trainer_fee_brutto">{t('pricing.trainerFee')}</Label>
-                <Input
-                  id="trainer_fee_brutto"
-                  type="number"
-                  min="0"
-                  step="100"
-                  value={formData.trainer_fee_brutto}
-                  onChange={(e) =>
-                    setFormData({ ...formData, trainer_fee_brutto: parseInt(e.target.value) || 0 })
-                  }
-                  data-testid="trainer-fee-input"
-                />
-              </div>
-
-              {/* Valid From */}
-              <div className="space-y-2">
-                <Label htmlFor="valid_from">{t('pricing.validFrom')}</Label>
-                <Input
-                  id="valid_from"
-                  type="date"
-                  value={formData.valid_from}
-                  onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })}
-                  data-testid="valid-from-input"
-                />
-              </div>
-
-              {/* Valid Until (optional) */}
-              <div className="space-y-2">
-                <Label htmlFor="valid_until">{t('pricing.validUntil')} ({t('pricing.optional')})</Label>
-                <Input
-                  id="valid_until"
-                  type="date"
-                  value={formData.valid_until || ''}
-                  onChange={(e) => setFormData({ ...formData, valid_until: e.target.value || null })}
-                  data-testid="valid-until-input"
-                />
-              </div>
-
-              {/* Submit Button */}
-              <Button
-                onClick={handleCreatePricing}
-                disabled={createMutation.isPending}
-                className="w-full"
-                data-testid="submit-pricing-btn"
-              >
-                {createMutation.isPending ? t('common:loading') : t('pricing.create')}
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Filters */}
@@ -410,8 +429,17 @@ export default function PricingPage() {
 
       {/* Pricing List */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>{t('pricing.pricingList')}</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowTimeline(!showTimeline)}
+            data-testid="pricing-timeline-toggle"
+          >
+            {showTimeline ? <List className="h-4 w-4 mr-2" /> : <History className="h-4 w-4 mr-2" />}
+            {showTimeline ? t('priceTimeline.showList') : t('priceTimeline.showTimeline')}
+          </Button>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -420,6 +448,21 @@ export default function PricingPage() {
                 <Skeleton key={i} className="h-20 w-full" />
               ))}
             </div>
+          ) : pricingList && pricingList.length > 0 && showTimeline ? (
+            <div className="space-y-3">
+              {timelines.map((pricings) => (
+                <PriceTimeline
+                  key={pricings[0].class_template_id}
+                  title={pricings[0].class_template?.title ?? String(pricings[0].class_template_id)}
+                  entries={pricings.map((pricing) => ({
+                    ...pricing,
+                    label: pricing.name || format(new Date(pricing.valid_from), 'yyyy-MM-dd'),
+                  }))}
+                  formatCurrency={formatCurrency}
+                  data-testid={`pricing-timeline-${pricings[0].class_template_id}`}
+                />
+              ))}
+            </div>
           ) : pricingList && pricingList.length > 0 ? (
             <div className="overflow-x-auto">
               <table className="w-full" data-testid="pricing-table">
@@ -614,6 +657,12 @@ export default function PricingPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <SchedulePriceChangeDialog
+        open={scheduleDialogOpen}
+        onOpenChange={setScheduleDialogOpen}
+        formatCurrency={formatCurrency}
+      />
     </div>
   )
 }
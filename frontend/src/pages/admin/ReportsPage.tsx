@@ -1,8 +1,10 @@
 import { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
-import { reportsApi, adminKeys } from '@/api/admin'
-import { adminReportsApi } from '@/api/reports'
+import { adminReportsApi, reportKeys } from '@/api/reports'
+import type { AdminExportReportType, ExportFormat } from '@/types/reports'
+import type { ApiError } from '@/types/api'
+import type { AxiosError } from 'axios'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
@@ -17,46 +19,65 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { MyExportsPanel } from '@/components/reports/MyExportsPanel'
+import { SessionDetailTables } from '@/components/reports/SessionDetailTables'
+import { FinanceDashboard } from '@/components/reports/FinanceDashboard'
+import { AdminTrendCharts } from '@/components/reports/AdminTrendCharts'
+import { ReportFilterBar } from '@/components/reports/ReportFilterBar'
+import { BarChart } from '@/components/charts/BarChart'
 import { useToast } from '@/hooks/use-toast'
-import { Download, TrendingUp, DollarSign, Users, Activity, Calendar, FileDown, ChevronRight, ChevronDown, Check, X, AlertTriangle } from 'lucide-react'
-import { format, subDays } from 'date-fns'
+import { useReportFilters } from '@/hooks/useReportFilters'
+import { resolveRange } from '@/lib/reportFilters'
+import { Download, TrendingUp, DollarSign, Users, Activity, Calendar, FileDown, ChevronRight, ChevronDown, Check, X, AlertTriangle, Wallet, LineChart as LineChartIcon } from 'lucide-react'
 
 export default function ReportsPage() {
   const { t } = useTranslation(['admin', 'common'])
   const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  // Date range and filters live in the URL (default: last 30 days)
+  const { dateFrom, dateTo, filters, update: updateFilters } = useReportFilters()
 
-  // Date range state - default to last 30 days
-  const [dateFrom, setDateFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'))
-  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const setRange = (range: 'last_7_days' | 'last_30_days') => {
+    const { from, to } = resolveRange(range)!
+    updateFilters({ dateFrom: from, dateTo: to })
+  }
 
   // Fetch reports
   const { data: attendanceData, isLoading: isLoadingAttendance } = useQuery({
-    queryKey: adminKeys.attendanceReport(dateFrom, dateTo),
-    queryFn: () => reportsApi.attendance(dateFrom, dateTo),
+    queryKey: reportKeys.admin.attendance(dateFrom, dateTo, filters),
+    queryFn: () => adminReportsApi.getAttendance(dateFrom, dateTo, filters),
   })
 
   const { data: payoutData, isLoading: isLoadingPayout } = useQuery({
-    queryKey: adminKeys.payoutReport(dateFrom, dateTo),
-    queryFn: () => reportsApi.payouts(dateFrom, dateTo),
+    queryKey: reportKeys.admin.payouts(dateFrom, dateTo, filters),
+    queryFn: () => adminReportsApi.getPayouts(dateFrom, dateTo, filters),
   })
 
+  // Passes are not tied to a trainer or room, so revenue ignores the filters
   const { data: revenueData, isLoading: isLoadingRevenue } = useQuery({
-    queryKey: adminKeys.revenueReport(dateFrom, dateTo),
-    queryFn: () => reportsApi.revenue(dateFrom, dateTo),
+    queryKey: reportKeys.admin.revenue(dateFrom, dateTo),
+    queryFn: () => adminReportsApi.getRevenue(dateFrom, dateTo),
   })
 
   const { data: utilizationData, isLoading: isLoadingUtilization } = useQuery({
-    queryKey: adminKeys.utilizationReport(dateFrom, dateTo),
-    queryFn: () => reportsApi.utilization(dateFrom, dateTo),
+    queryKey: reportKeys.admin.utilization(dateFrom, dateTo, filters),
+    queryFn: () => adminReportsApi.getUtilization(dateFrom, dateTo, filters),
   })
 
   const { data: clientActivityData, isLoading: isLoadingClientActivity } = useQuery({
-    queryKey: adminKeys.clientActivityReport(dateFrom, dateTo),
-    queryFn: () => reportsApi.clientActivity(dateFrom, dateTo),
+    queryKey: reportKeys.admin.clientActivity(dateFrom, dateTo, filters),
+    queryFn: () => adminReportsApi.getClientActivity(dateFrom, dateTo, filters),
   })
 
-  const [isExporting, setIsExporting] = useState(false)
-  const [isExportingPerClient, setIsExportingPerClient] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx')
   const [expandedPayoutRows, setExpandedPayoutRows] = useState<Set<number>>(new Set())
   const [expandedClientRows, setExpandedClientRows] = useState<Set<number>>(new Set())
 
@@ -84,81 +105,26 @@ export default function ReportsPage() {
     })
   }
 
-  const handleExport = async (
-    reportType: 'attendance' | 'payouts' | 'revenue' | 'utilization' | 'clients'
-  ) => {
-    try {
-      setIsExporting(true)
-      toast({
-        title: t('reports.downloading'),
-        description: t('reports.exportToExcel'),
-      })
-
-      const blob = await adminReportsApi.exportReport(reportType, dateFrom, dateTo, 'xlsx')
-
-      // Create download link
-      const url = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `${reportType}_${dateFrom}_${dateTo}.xlsx`
-      document.body.appendChild(link)
-      link.click()
-
-      // Cleanup
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(url)
-
+  const exportMutation = useMutation({
+    mutationFn: (reportType: AdminExportReportType) =>
+      adminReportsApi.exportReport(reportType, dateFrom, dateTo, exportFormat, filters),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.exports() })
       toast({
-        title: t('reports.downloadSuccess'),
-        description: `${reportType}_${dateFrom}_${dateTo}.xlsx`,
+        title: t('reports.exportQueued'),
+        description: t('reports.exportQueuedDescription'),
       })
-    } catch (error) {
-      console.error('Export error:', error)
+    },
+    onError: (error: AxiosError<ApiError>) => {
       toast({
         variant: 'destructive',
         title: t('reports.downloadError'),
-        description: t('common:errorOccurred'),
+        description: error.response?.data?.message || t('common:error'),
       })
-    } finally {
-      setIsExporting(false)
-    }
-  }
-
-  const handleExportPerClientPayouts = async () => {
-    try {
-      setIsExportingPerClient(true)
-      toast({
-        title: t('reports.downloading'),
-        description: t('reports.perClientPayouts'),
-      })
-
-      const blob = await adminReportsApi.exportPayoutsPerClient(dateFrom, dateTo)
-
-      const url = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = `vendeg_kifizetes_${dateFrom}_${dateTo}.xlsx`
-      document.body.appendChild(link)
-      link.click()
-
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(url)
+    },
+  })
 
-      toast({
-        title: t('reports.downloadSuccess'),
-        description: `vendeg_kifizetes_${dateFrom}_${dateTo}.xlsx`,
-      })
-    } catch (error) {
-      console.error('Export error:', error)
-      toast({
-        variant: 'destructive',
-        title: t('reports.downloadError'),
-        description: t('common:errorOccurred'),
-      })
-    } finally {
-      setIsExportingPerClient(false)
-    }
-  }
+  const handleExport = (reportType: AdminExportReportType) => exportMutation.mutate(reportType)
 
   return (
     <div className="space-y-6">
@@ -170,7 +136,7 @@ export default function ReportsPage() {
 
       {/* Date Range Filter */}
       <Card>
-        <CardContent className="pt-6">
+        <CardContent className="pt-6 space-y-4">
           <div className="flex items-end gap-4">
             <div className="space-y-2">
               <Label htmlFor="date_from">{t('reports.dateFrom')}</Label>
@@ -178,7 +144,7 @@ export default function ReportsPage() {
                 id="date_from"
                 type="date"
                 value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
+                onChange={(e) => updateFilters({ dateFrom: e.target.value })}
               />
             </div>
             <div className="space-y-2">
@@ -187,28 +153,35 @@ export default function ReportsPage() {
                 id="date_to"
                 type="date"
                 value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
+                onChange={(e) => updateFilters({ dateTo: e.target.value })}
               />
             </div>
-            <Button variant="outline" onClick={() => {
-              setDateFrom(format(subDays(new Date(), 30), 'yyyy-MM-dd'))
-              setDateTo(format(new Date(), 'yyyy-MM-dd'))
-            }}>
+            <Button variant="outline" onClick={() => setRange('last_30_days')}>
               {t('dashboard.last30Days')}
             </Button>
-            <Button variant="outline" onClick={() => {
-              setDateFrom(format(subDays(new Date(), 7), 'yyyy-MM-dd'))
-              setDateTo(format(new Date(), 'yyyy-MM-dd'))
-            }}>
+            <Button variant="outline" onClick={() => setRange('last_7_days')}>
               {t('common:week')}
             </Button>
+            <div className="space-y-2 ml-auto">
+              <Label htmlFor="export_format">{t('reports.exportFormat')}</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger id="export_format" className="w-32" data-testid="export-format-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="csv">CSV (.csv)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
+          <ReportFilterBar dateFrom={dateFrom} dateTo={dateTo} filters={filters} onChange={updateFilters} />
         </CardContent>
       </Card>
 
       {/* Reports Tabs */}
       <Tabs defaultValue="attendance" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="attendance">
             <Calendar className="h-4 w-4 mr-2" />
             {t('reports.attendance')}
@@ -229,6 +202,14 @@ export default function ReportsPage() {
             <Users className="h-4 w-4 mr-2" />
             {t('reports.clientActivity')}
           </TabsTrigger>
+          <TabsTrigger value="finance" data-testid="finance-tab">
+            <Wallet className="h-4 w-4 mr-2" />
+            {t('reports.finance.title')}
+          </TabsTrigger>
+          <TabsTrigger value="trends" data-testid="trends-tab">
+            <LineChartIcon className="h-4 w-4 mr-2" />
+            {t('reports.charts.title')}
+          </TabsTrigger>
         </TabsList>
 
         {/* Attendance Report */}
@@ -245,11 +226,11 @@ export default function ReportsPage() {
                 variant="outline"
                 size="sm"
                 onClick={() => handleExport('attendance')}
-                disabled={isExporting || isLoadingAttendance}
+                disabled={exportMutation.isPending || isLoadingAttendance}
                 data-testid="export-attendance-btn"
               >
                 <FileDown className="h-4 w-4 mr-2" />
-                {isExporting ? t('reports.downloading') : t('reports.exportToExcel')}
+                {t('reports.exportToExcel')}
               </Button>
             </CardHeader>
             <CardContent>
@@ -343,9 +324,9 @@ export default function ReportsPage() {
                   <Download className="h-4 w-4 mr-2" />
                   {t('reports.exportToExcel')}
                 </Button>
-                <Button variant="outline" size="sm" onClick={handleExportPerClientPayouts} disabled={isExportingPerClient}>
+                <Button variant="outline" size="sm" onClick={() => handleExport('payouts-per-client')} disabled={exportMutation.isPending}>
                   <Users className="h-4 w-4 mr-2" />
-                  {isExportingPerClient ? t('reports.downloading') : t('reports.perClientPayouts')}
+                  {t('reports.perClientPayouts')}
                 </Button>
               </div>
             </CardHeader>
@@ -418,97 +399,10 @@ export default function ReportsPage() {
                             {expandedPayoutRows.has(staff.staff_id) && (
                               <TableRow key={`${staff.staff_id}-details`}>
                                 <TableCell colSpan={7} className="bg-muted/30 p-4">
-                                  <div className="space-y-4">
-                                    {/* Individual Sessions */}
-                                    {staff.individual_sessions && staff.individual_sessions.length > 0 && (
-                                      <div>
-                                        <h4 className="font-semibold text-sm mb-2">{t('reports.individualSessions')} ({staff.individual_sessions.length})</h4>
-                                        <div className="border rounded-lg overflow-hidden">
-                                          <Table>
-                                            <TableHeader>
-                                              <TableRow className="bg-muted/50">
-                                                <TableHead className="text-xs">{t('reports.date')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.time')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.clientName')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.serviceType')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.room')}</TableHead>
-                                                <TableHead className="text-xs text-right">{t('reports.entryFee')}</TableHead>
-                                                <TableHead className="text-xs text-right">{t('reports.trainerFee')}</TableHead>
-                                                <TableHead className="text-xs text-right">{t('reports.totalFee')}</TableHead>
-                                                <TableHead className="text-xs text-center">{t('reports.status')}</TableHead>
-                                              </TableRow>
-                                            </TableHeader>
-                                            <TableBody>
-                                              {staff.individual_sessions.map((session: any) => (
-                                                <TableRow key={session.id} className="text-sm">
-                                                  <TableCell className="text-xs">{session.date}</TableCell>
-                                                  <TableCell className="text-xs">{session.time}</TableCell>
-                                                  <TableCell className="text-xs">{session.client_name}</TableCell>
-                                                  <TableCell className="text-xs">{session.service_type}</TableCell>
-                                                  <TableCell className="text-xs">{session.room}</TableCell>
-                                                  <TableCell className="text-xs text-right">{(session.entry_fee || 0).toLocaleString()}</TableCell>
-                                                  <TableCell className="text-xs text-right">{(session.trainer_fee || 0).toLocaleString()}</TableCell>
-                                                  <TableCell className="text-xs text-right font-semibold">{(session.total_fee || (session.entry_fee || 0) + (session.trainer_fee || 0)).toLocaleString()}</TableCell>
-                                                  <TableCell className="text-xs text-center">
-                                                    {session.attendance_status === 'attended' && (
-                                                      <Check className="h-4 w-4 text-green-600 mx-auto" />
-                                                    )}
-                                                    {session.attendance_status === 'no_show' && (
-                                                      <X className="h-4 w-4 text-red-600 mx-auto" />
-                                                    )}
-                                                    {!session.attendance_status && (
-                                                      <AlertTriangle className="h-4 w-4 text-yellow-500 mx-auto" />
-                                                    )}
-                                                  </TableCell>
-                                                </TableRow>
-                                              ))}
-                                            </TableBody>
-                                          </Table>
-                                        </div>
-                                      </div>
-                                    )}
-
-                                    {/* Group Classes */}
-                                    {staff.group_sessions && staff.group_sessions.length > 0 && (
-                                      <div>
-                                        <h4 className="font-semibold text-sm mb-2">{t('reports.groupClasses')} ({staff.group_sessions.length})</h4>
-                                        <div className="border rounded-lg overflow-hidden">
-                                          <Table>
-                                            <TableHeader>
-                                              <TableRow className="bg-muted/50">
-                                                <TableHead className="text-xs">{t('reports.date')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.time')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.className')}</TableHead>
-                                                <TableHead className="text-xs">{t('reports.room')}</TableHead>
-                                                <TableHead className="text-xs text-right">{t('reports.participants')}</TableHead>
-                                                <TableHead className="text-xs text-right">{t('reports.entryFee')}</TableHead>
-                                                <TableHead className="text-xs text-right">{t('reports.trainerFee')}</TableHead>
-                                              </TableRow>
-                                            </TableHeader>
-                                            <TableBody>
-                                              {staff.group_sessions.map((session: any) => (
-                                                <TableRow key={session.id} className="text-sm">
-                                                  <TableCell className="text-xs">{session.date}</TableCell>
-                                                  <TableCell className="text-xs">{session.time}</TableCell>
-                                                  <TableCell className="text-xs">{session.class_name}</TableCell>
-                                                  <TableCell className="text-xs">{session.room}</TableCell>
-                                                  <TableCell className="text-xs text-right">{session.participants}</TableCell>
-                                                  <TableCell className="text-xs text-right">{(session.entry_fee || 0).toLocaleString()}</TableCell>
-                                                  <TableCell className="text-xs text-right">{(session.trainer_fee || 0).toLocaleString()}</TableCell>
-                                                </TableRow>
-                                              ))}
-                                            </TableBody>
-                                          </Table>
-                                        </div>
-                                      </div>
-                                    )}
-
-                                    {/* No sessions message */}
-                                    {(!staff.individual_sessions || staff.individual_sessions.length === 0) &&
-                                     (!staff.group_sessions || staff.group_sessions.length === 0) && (
-                                      <p className="text-sm text-muted-foreground">{t('reports.noSessionsInPeriod')}</p>
-                                    )}
-                                  </div>
+                                  <SessionDetailTables
+                                    individualSessions={staff.individual_sessions ?? []}
+                                    groupSessions={staff.group_sessions ?? []}
+                                  />
                                 </TableCell>
                               </TableRow>
                             )}
@@ -533,6 +427,9 @@ export default function ReportsPage() {
                 <CardTitle>{t('reports.revenueReport')}</CardTitle>
                 <CardDescription>
                   {dateFrom} - {dateTo}
+                  {Object.keys(filters).length > 0 && (
+                    <span className="block" data-testid="revenue-filters-note">{t('reports.filterBar.revenueNotFiltered')}</span>
+                  )}
                 </CardDescription>
               </div>
               <Button variant="outline" size="sm" onClick={() => handleExport('revenue')}>
@@ -629,6 +526,18 @@ export default function ReportsPage() {
                     </div>
                   </div>
 
+                  <BarChart
+                    data={utilizationData.staff_utilization}
+                    xKey="name"
+                    series={[
+                      { key: 'individual_sessions', label: t('reports.individualSessions') },
+                      { key: 'group_classes', label: t('reports.groupClasses') },
+                    ]}
+                    stacked
+                    emptyMessage={t('common:noData')}
+                    data-testid="utilization-chart"
+                  />
+
                   {/* Staff Utilization Table */}
                   <div>
                     <h3 className="text-lg font-semibold mb-4">{t('reports.byType')}</h3>
@@ -792,7 +701,19 @@ export default function ReportsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Finance Dashboard */}
+        <TabsContent value="finance" className="space-y-4">
+          <FinanceDashboard dateFrom={dateFrom} dateTo={dateTo} />
+        </TabsContent>
+
+        {/* Trend charts */}
+        <TabsContent value="trends" className="space-y-4">
+          <AdminTrendCharts dateFrom={dateFrom} dateTo={dateTo} />
+        </TabsContent>
       </Tabs>
+
+      <MyExportsPanel />
     </div>
   )
 }
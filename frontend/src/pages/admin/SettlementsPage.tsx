@@ -13,7 +13,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Separator } from '@/components/ui/separator'
 import { useToast } from '@/hooks/use-toast'
-import { FileText, DollarSign, Filter, ChevronRight, Check } from 'lucide-react'
+import { SettlementLifecyclePanel } from '@/components/settlements/SettlementLifecyclePanel'
+import { MonthCloseWizard } from '@/components/settlements/MonthCloseWizard'
+import { FileText, Filter, ChevronRight, Lock, CalendarCheck } from 'lucide-react'
 import { format } from 'date-fns'
 import type { GenerateSettlementRequest } from '@/types/pricing'
 
@@ -46,6 +48,9 @@ export default function SettlementsPage() {
   const [selectedSettlementId, setSelectedSettlementId] = useState<number | null>(null)
   const [detailDialogOpen, setDetailDialogOpen] = useState(false)
 
+  // Close the month wizard
+  const [monthCloseOpen, setMonthCloseOpen] = useState(false)
+
   // Fetch staff users for dropdown
   const { data: staffUsers } = useQuery({
     queryKey: adminKeys.usersList({ role: 'staff' }),
@@ -96,26 +101,6 @@ export default function SettlementsPage() {
     },
   })
 
-  // Update status mutation
-  const updateStatusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: number; status: 'draft' | 'finalized' | 'paid' }) =>
-      settlementsApi.updateStatus(id, { status }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: settlementKeys.lists() })
-      queryClient.invalidateQueries({ queryKey: settlementKeys.detail(selectedSettlementId || 0) })
-      toast({
-        title: t('settlements.statusUpdateSuccess'),
-        description: t('settlements.statusUpdateSuccessDescription'),
-      })
-    },
-    onError: () => {
-      toast({
-        variant: 'destructive',
-        title: t('settlements.statusUpdateError'),
-      })
-    },
-  })
-
   const handleGenerateSettlement = () => {
     if (!previewTrainerId || !previewFrom || !previewTo) {
       toast({
@@ -140,10 +125,6 @@ export default function SettlementsPage() {
     setDetailDialogOpen(true)
   }
 
-  const handleStatusChange = (settlementId: number, newStatus: 'draft' | 'finalized' | 'paid') => {
-    updateStatusMutation.mutate({ id: settlementId, status: newStatus })
-  }
-
   const getStatusBadgeVariant = (status: string): 'default' | 'secondary' | 'outline' => {
     switch (status) {
       case 'paid':
@@ -160,9 +141,15 @@ export default function SettlementsPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">{t('settlements.title')}</h1>
-        <p className="text-gray-500 mt-2">{t('settlements.subtitle')}</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('settlements.title')}</h1>
+          <p className="text-gray-500 mt-2">{t('settlements.subtitle')}</p>
+        </div>
+        <Button onClick={() => setMonthCloseOpen(true)} data-testid="open-month-close-btn">
+          <CalendarCheck className="h-4 w-4 mr-2" />
+          {t('settlements.monthClose.open')}
+        </Button>
       </div>
 
       {/* Preview Section */}
@@ -373,9 +360,14 @@ export default function SettlementsPage() {
                       <p className="font-medium">{settlement.items_count}</p>
                     </div>
                     <div className="flex items-center justify-between">
-                      <Badge variant={getStatusBadgeVariant(settlement.status)}>
-                        {t(`settlements.status${settlement.status.charAt(0).toUpperCase() + settlement.status.slice(1)}`)}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={getStatusBadgeVariant(settlement.status)}>
+                          {t(`settlements.status${settlement.status.charAt(0).toUpperCase() + settlement.status.slice(1)}`)}
+                        </Badge>
+                        {settlement.locked_at && (
+                          <Lock className="h-4 w-4 text-gray-400" aria-label={t('settlements.lifecycle.locked')} />
+                        )}
+                      </div>
                       <ChevronRight className="h-5 w-5 text-gray-400" />
                     </div>
                   </div>
@@ -390,6 +382,8 @@ export default function SettlementsPage() {
         </CardContent>
       </Card>
 
+      <MonthCloseWizard open={monthCloseOpen} onOpenChange={setMonthCloseOpen} formatCurrency={formatCurrency} />
+
       {/* Settlement Detail Dialog */}
       <Dialog open={detailDialogOpen} onOpenChange={setDetailDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -421,33 +415,19 @@ export default function SettlementsPage() {
                   <p className="text-sm text-gray-500">{t('settlements.totalTrainerFee')}</p>
                   <p className="font-medium text-lg">{formatCurrency(settlementDetail.total_trainer_fee)}</p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('settlements.totalAdjustments')}</p>
+                  <p className="font-medium">{formatCurrency(settlementDetail.total_adjustments)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('settlements.totalPayable')}</p>
+                  <p className="font-medium text-lg">{formatCurrency(settlementDetail.total_payable)}</p>
+                </div>
               </div>
 
               <Separator />
 
-              {/* Status Update Buttons */}
-              <div className="flex gap-2">
-                {settlementDetail.status === 'draft' && (
-                  <Button
-                    onClick={() => handleStatusChange(settlementDetail.id, 'finalized')}
-                    disabled={updateStatusMutation.isPending}
-                    data-testid="finalize-btn"
-                  >
-                    <Check className="h-4 w-4 mr-2" />
-                    {t('settlements.markAsFinalized')}
-                  </Button>
-                )}
-                {settlementDetail.status === 'finalized' && (
-                  <Button
-                    onClick={() => handleStatusChange(settlementDetail.id, 'paid')}
-                    disabled={updateStatusMutation.isPending}
-                    data-testid="mark-paid-btn"
-                  >
-                    <DollarSign className="h-4 w-4 mr-2" />
-                    {t('settlements.markAsPaid')}
-                  </Button>
-                )}
-              </div>
+              <SettlementLifecyclePanel settlement={settlementDetail} formatCurrency={formatCurrency} />
 
               <Separator />
 
@@ -1,7 +1,7 @@
 import { useState, useRef, useCallback } from 'react'
 import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
-import { format } from 'date-fns'
+import { addDays, format, parseISO, startOfDay } from 'date-fns'
 import { hu, enUS } from 'date-fns/locale'
 import FullCalendar from '@fullcalendar/react'
 import timeGridPlugin from '@fullcalendar/timegrid'
@@ -9,7 +9,16 @@ import interactionPlugin from '@fullcalendar/interaction'
 import { eventsApi, eventKeys } from '@/api/events'
 import { roomsApi, roomKeys } from '@/api/rooms'
 import { classesApi, classKeys } from '@/api/classes'
-import { Check, X, AlertTriangle, Plus, CalendarIcon } from 'lucide-react'
+import { availabilityApi, availabilityKeys } from '@/api/availability'
+import {
+  clipRangesToDay,
+  getClosedRanges,
+  getOpeningHours,
+  getSlotBounds,
+  getTrainerUnavailableRanges,
+  type ShadedRange,
+} from '@/lib/availability'
+import { Check, X, AlertTriangle, Plus, CalendarIcon, ChevronLeft, ChevronRight, ArrowRightLeft, Pencil, Inbox } from 'lucide-react'
 import { isSameDayMove } from '@/lib/validations/event'
 import { useToast } from '@/hooks/use-toast'
 import { EventFormModal } from '@/components/calendar/EventFormModal'
@@ -17,7 +26,12 @@ import { EventDetailsModal } from '@/components/calendar/EventDetailsModal'
 import { ClassOccurrenceDetailsModal } from '@/components/calendar/ClassOccurrenceDetailsModal'
 import { ClassOccurrenceFormModal } from '@/components/calendar/ClassOccurrenceFormModal'
 import { EventTypeSelectorModal } from '@/components/calendar/EventTypeSelectorModal'
+import { RoomColumnsView, type RoomColumnItem, type RoomColumnMove } from '@/components/calendar/RoomColumnsView'
+import { MoveEventDialog } from '@/components/calendar/MoveEventDialog'
+import { MoveRequestsDialog } from '@/components/calendar/MoveRequestsDialog'
+import { BookingRequestsDialog } from '@/components/calendar/BookingRequestsDialog'
 import { useAuth } from '@/hooks/useAuth'
+import { useCalendarRealtime, useCalendarEditMarker } from '@/hooks/useCalendarRealtime'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Input } from '@/components/ui/input'
@@ -67,8 +81,11 @@ export default function CalendarPage() {
   const [currentView, setCurrentView] = useState<'timeGridWeek' | 'timeGridDay' | 'timeGridTwoDay'>('timeGridTwoDay')
   const [currentDate, setCurrentDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'))
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null)
+  const [showRoomColumns, setShowRoomColumns] = useState(false)
   const [showGroupClasses, setShowGroupClasses] = useState(true)
   const [showOnlyMyEvents, setShowOnlyMyEvents] = useState(false)
+  // Whose working hours are shaded: 'own' (current staff member), 'none' or a staff profile id
+  const [availabilityStaffId, setAvailabilityStaffId] = useState<string>('own')
   const [eventTypeSelectorOpen, setEventTypeSelectorOpen] = useState(false)
   const [createModalOpen, setCreateModalOpen] = useState(false)
   const [classFormModalOpen, setClassFormModalOpen] = useState(false)
@@ -84,9 +101,33 @@ export default function CalendarPage() {
     classOccurrence?: ClassOccurrence
     newStart: Date
     newEnd: Date
+    newRoomId?: string
     revert: () => void
   } | null>(null)
 
+  // Cross-day move of an individual event (admin override or staff move request)
+  const [crossDayMove, setCrossDayMove] = useState<{
+    event: Event
+    newStart: Date
+    newEnd: Date
+    revert: () => void
+  } | null>(null)
+  const [moveRequestsOpen, setMoveRequestsOpen] = useState(false)
+  const [bookingRequestsOpen, setBookingRequestsOpen] = useState(false)
+
+  // Live updates pushed by the server into the event/class caches, plus "being edited by" markers
+  const { status: liveStatus, getEditors } = useCalendarRealtime(isAdmin || isStaff, user?.id)
+  useCalendarEditMarker(
+    createModalOpen && editingEvent
+      ? { entity_type: 'event', entity_id: editingEvent.id }
+      : classFormModalOpen && editingClass
+        ? { entity_type: 'class_occurrence', entity_id: editingClass.id }
+        : null
+  )
+
+  // The room columns view always shows every room side by side
+  const roomFilter = showRoomColumns ? undefined : (selectedRoomId || undefined)
+
   // Fetch rooms
   const { data: rooms, isLoading: isLoadingRooms } = useQuery({
     queryKey: roomKeys.list(),
@@ -100,23 +141,23 @@ export default function CalendarPage() {
       ? eventKeys.allEvents({
           date_from: dateRange.start.toISOString(),
           date_to: dateRange.end.toISOString(),
-          room_id: selectedRoomId || undefined,
+          room_id: roomFilter,
         })
       : eventKeys.allEventsForStaff({
           date_from: dateRange.start.toISOString(),
           date_to: dateRange.end.toISOString(),
-          room_id: selectedRoomId || undefined,
+          room_id: roomFilter,
         }),
     queryFn: () => isAdmin
       ? eventsApi.getAllEvents({
           date_from: dateRange.start.toISOString(),
           date_to: dateRange.end.toISOString(),
-          room_id: selectedRoomId || undefined,
+          room_id: roomFilter,
         })
       : eventsApi.getAllEventsForStaff({
           date_from: dateRange.start.toISOString(),
           date_to: dateRange.end.toISOString(),
-          room_id: selectedRoomId || undefined,
+          room_id: roomFilter,
         }),
     staleTime: 2 * 60 * 1000, // 2 minutes
     placeholderData: keepPreviousData,
@@ -127,13 +168,13 @@ export default function CalendarPage() {
     queryKey: classKeys.list({
       date_from: dateRange.start.toISOString(),
       date_to: dateRange.end.toISOString(),
-      room_id: selectedRoomId || undefined,
+      room_id: roomFilter,
       status: 'scheduled',
     }),
     queryFn: () => classesApi.list({
       date_from: dateRange.start.toISOString(),
       date_to: dateRange.end.toISOString(),
-      room_id: selectedRoomId || undefined,
+      room_id: roomFilter,
       status: 'scheduled',
     }),
     staleTime: 2 * 60 * 1000, // 2 minutes
@@ -141,11 +182,38 @@ export default function CalendarPage() {
     placeholderData: keepPreviousData,
   })
 
+  // Pending cross-day move requests (admin only)
+  const { data: pendingMoveRequests } = useQuery({
+    queryKey: eventKeys.moveRequests('pending'),
+    queryFn: () => eventsApi.getMoveRequests('pending'),
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    enabled: isAdmin,
+  })
+
+  // Online bookings waiting for confirmation (own sessions for staff, all for admins)
+  const { data: pendingBookingRequests } = useQuery({
+    queryKey: eventKeys.bookingRequests(),
+    queryFn: eventsApi.getBookingRequests,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    enabled: isAdmin || isStaff,
+  })
+
+  // Trainer working hours / absences and site opening hours for shading
+  const availabilityFrom = format(dateRange.start, 'yyyy-MM-dd')
+  const availabilityTo = format(dateRange.end, 'yyyy-MM-dd')
+  const { data: availabilityData } = useQuery({
+    queryKey: availabilityKeys.calendar(availabilityFrom, availabilityTo),
+    queryFn: () => availabilityApi.calendar(availabilityFrom, availabilityTo),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: isAdmin || isStaff,
+    placeholderData: keepPreviousData,
+  })
+
   const isLoading = isLoadingRooms
 
   // Update event mutation (for drag & drop)
   const updateMutation = useMutation({
-    mutationFn: ({ eventId, data }: { eventId: string; data: { starts_at: string; duration_minutes: number } }) =>
+    mutationFn: ({ eventId, data }: { eventId: string; data: { starts_at: string; duration_minutes: number; room_id?: string; ignore_availability?: boolean } }) =>
       eventsApi.update(eventId, data),
     onSuccess: async () => {
       // Refetch all event queries immediately to refresh the calendar
@@ -158,7 +226,8 @@ export default function CalendarPage() {
     onError: (error: AxiosError<ApiError>) => {
       const { status, data } = error.response ?? {}
       let errorMessage = t('errors.updateFailed')
-      if (status === 409) errorMessage = t('errors.conflict')
+      if (status === 409 && data?.errors && 'availability_warnings' in data.errors) errorMessage = t('availability.dropOutsideHours')
+      else if (status === 409) errorMessage = t('errors.conflict')
       else if (status === 422 && data?.message) errorMessage = data.message
       else if (status === 423) errorMessage = t('errors.locked')
       toast({ variant: 'destructive', title: t('common.error'), description: errorMessage })
@@ -167,7 +236,7 @@ export default function CalendarPage() {
 
   // Update class occurrence mutation (for group class drag & drop)
   const updateClassMutation = useMutation({
-    mutationFn: ({ occurrenceId, data }: { occurrenceId: string; data: { starts_at: string; ends_at: string } }) =>
+    mutationFn: ({ occurrenceId, data }: { occurrenceId: string; data: { starts_at: string; ends_at: string; room_id?: number } }) =>
       classesApi.updateOccurrence(occurrenceId, data),
     onSuccess: async () => {
       // Refetch all class list queries immediately to refresh the calendar
@@ -208,6 +277,7 @@ export default function CalendarPage() {
   const individualEvents = filteredEvents?.map(event => {
     const canEdit = isEventOwner(event)
     const roomColor = getRoomColor(event.room_id)
+    const editingBy = getEditors('event', event.id)
     return {
       id: `event-${event.id}`,
       title: getEventTitle(event),
@@ -215,17 +285,22 @@ export default function CalendarPage() {
       end: event.ends_at,
       backgroundColor: roomColor,
       borderColor: (isStaff && !canEdit) ? '#ef4444' : roomColor,
-      classNames: (isStaff && !canEdit) ? ['fc-event-not-owned'] : [],
+      classNames: [
+        ...((isStaff && !canEdit) ? ['fc-event-not-owned'] : []),
+        ...(editingBy.length > 0 ? ['fc-event-being-edited'] : []),
+        ...(event.status === 'pending' ? ['fc-event-pending'] : []),
+      ],
       editable: canEdit,
       startEditable: canEdit, // Allow drag & drop only for owned events
       durationEditable: canEdit, // Allow resize only for owned events
-      extendedProps: { event, isGroupClass: false, isOwner: canEdit },
+      extendedProps: { event, isGroupClass: false, isOwner: canEdit, editingBy },
     }
   }) ?? []
 
   // Map group classes to FullCalendar format - use room color
   const groupClassEvents = (showGroupClasses && groupClasses) ? groupClasses.map(classOccurrence => {
     const roomColor = getRoomColor(classOccurrence.room_id)
+    const editingBy = getEditors('class_occurrence', classOccurrence.id)
     return {
       id: `class-${classOccurrence.id}`,
       title: classOccurrence.class_template?.title || classOccurrence.class_template?.name || t('event.eventType.GROUP_CLASS'),
@@ -236,12 +311,65 @@ export default function CalendarPage() {
       editable: isAdmin, // Only admins can edit group classes
       startEditable: isAdmin, // Allow drag & drop
       durationEditable: isAdmin, // Allow resize
-      extendedProps: { classOccurrence, isGroupClass: true },
+      classNames: editingBy.length > 0 ? ['fc-event-being-edited'] : [],
+      extendedProps: { classOccurrence, isGroupClass: true, editingBy },
     }
   }) : []
 
+  // Shading: closed hours of the shown site(s) and unavailable times of the selected trainer
+  const shadedStaffId = availabilityStaffId === 'own'
+    ? (currentStaffId ? String(currentStaffId) : null)
+    : availabilityStaffId === 'none' ? null : availabilityStaffId
+  const shadedTrainer = availabilityData?.trainers.find(trainer => String(trainer.staff_id) === shadedStaffId)
+  const openingHours = availabilityData ? getOpeningHours(availabilityData.sites, roomFilter) : null
+  const trainerUnavailableRanges = shadedTrainer
+    ? getTrainerUnavailableRanges(shadedTrainer, dateRange.start, dateRange.end)
+    : []
+  const slotBounds = getSlotBounds(
+    showRoomColumns && availabilityData ? getOpeningHours(availabilityData.sites) : openingHours,
+    [...(filteredEvents ?? []), ...(showGroupClasses ? groupClasses ?? [] : [])]
+  )
+
+  const toBackgroundEvent = (range: ShadedRange, index: number) => ({
+    id: `${range.reason}-${index}`,
+    title: range.reason === 'off' || range.reason === 'closed' ? '' : t(`availability.reason.${range.reason}`),
+    start: range.start,
+    end: range.end,
+    display: 'background',
+    classNames: range.reason === 'closed' ? ['fc-closed-hours'] : ['fc-unavailable', `fc-unavailable-${range.reason}`],
+    extendedProps: { isBackground: true },
+  })
+
+  const availabilityEvents = [
+    ...getClosedRanges(openingHours, dateRange.start, dateRange.end),
+    ...trainerUnavailableRanges,
+  ].map(toBackgroundEvent)
+
+  // Room columns view: closed hours per site of the room plus the trainer's unavailable times
+  const getRoomShadedRanges = (roomId: string): ShadedRange[] => {
+    const day = parseISO(currentDate)
+    const siteHours = availabilityData ? getOpeningHours(availabilityData.sites, roomId) : null
+    return [
+      ...getClosedRanges(siteHours, day, addDays(day, 1)),
+      ...clipRangesToDay(trainerUnavailableRanges, day),
+    ]
+  }
+
+  // Whether a dragged event lands outside its trainer's working hours or the site's opening hours
+  const isOutsideAvailability = (event: Event, start: Date, end: Date, roomId?: string): boolean => {
+    if (!availabilityData) return false
+    const trainer = availabilityData.trainers.find(item => String(item.staff_id) === String(event.staff_id))
+    const ranges = [
+      ...getClosedRanges(getOpeningHours(availabilityData.sites, roomId ?? String(event.room_id)), start, end),
+      ...(trainer ? getTrainerUnavailableRanges(trainer, start, end) : []),
+    ]
+    return ranges.some(range => range.start < end && range.end > start)
+  }
+  const pendingUpdateOutsideHours = !!pendingUpdate?.event &&
+    isOutsideAvailability(pendingUpdate.event, pendingUpdate.newStart, pendingUpdate.newEnd, pendingUpdate.newRoomId)
+
   // Combine all events
-  const calendarEvents = [...individualEvents, ...groupClassEvents]
+  const calendarEvents = [...individualEvents, ...groupClassEvents, ...availabilityEvents]
 
   // Get event title based on type
   function getEventTitle(event: Event): string {
@@ -276,21 +404,53 @@ export default function CalendarPage() {
     }
   }
 
+  // Open the details modal of an event or group class
+  const openEventDetails = (event: Event) => {
+    setSelectedEvent(event)
+    setDetailsModalOpen(true)
+  }
+
+  const openClassDetails = (classOccurrence: ClassOccurrence) => {
+    setSelectedClass(classOccurrence)
+    setClassDetailsModalOpen(true)
+  }
+
   // Handle event click
   const handleEventClick = (clickInfo: EventClickArg) => {
+    if (clickInfo.event.extendedProps.isBackground) return
+
     const isGroupClass = clickInfo.event.extendedProps.isGroupClass
 
     if (isGroupClass) {
-      const classOccurrence = clickInfo.event.extendedProps.classOccurrence as ClassOccurrence
-      setSelectedClass(classOccurrence)
-      setClassDetailsModalOpen(true)
+      openClassDetails(clickInfo.event.extendedProps.classOccurrence as ClassOccurrence)
+    } else {
+      openEventDetails(clickInfo.event.extendedProps.event as Event)
+    }
+  }
+
+  // Room columns view: same ownership rules as the time grid (staff move own events, admins move classes)
+  const canMoveRoomColumnItem = (item: RoomColumnItem): boolean =>
+    item.kind === 'event' ? isEventOwner(item.event) : isAdmin
+
+  const handleRoomColumnItemClick = (item: RoomColumnItem) => {
+    if (item.kind === 'event') {
+      openEventDetails(item.event)
     } else {
-      const event = clickInfo.event.extendedProps.event as Event
-      setSelectedEvent(event)
-      setDetailsModalOpen(true)
+      openClassDetails(item.classOccurrence)
     }
   }
 
+  // Handle drag & drop in the room columns view (time and/or room change within the day)
+  const handleRoomColumnMove = ({ item, newStart, newEnd, newRoomId }: RoomColumnMove) => {
+    setPendingUpdate({
+      ...(item.kind === 'event' ? { event: item.event } : { classOccurrence: item.classOccurrence }),
+      newStart,
+      newEnd,
+      newRoomId,
+      revert: () => {}, // Room columns are rendered from query data, nothing to revert
+    })
+  }
+
   // Handle event drag & drop
   const handleEventDrop = (info: EventDropArg) => {
     const isGroupClass = info.event.extendedProps.isGroupClass
@@ -324,7 +484,7 @@ export default function CalendarPage() {
         revert: () => info.revert(),
       })
     } else {
-      // Individual event drag and drop (same-day restriction)
+      // Individual event drag and drop (cross-day moves need the move dialog)
       const event = info.event.extendedProps.event as Event
 
       // Check ownership - staff can only move their own events
@@ -338,13 +498,13 @@ export default function CalendarPage() {
         return
       }
 
-      // Check same-day restriction
+      // Cross-day moves go through the move dialog (admin override or staff request)
       if (!isSameDayMove(oldStart.toISOString(), newStart.toISOString())) {
-        info.revert()
-        toast({
-          variant: 'destructive',
-          title: t('errors.notSameDay'),
-          description: t('dragDrop.sameDayOnly'),
+        setCrossDayMove({
+          event,
+          newStart,
+          newEnd,
+          revert: () => info.revert(),
         })
         return
       }
@@ -432,14 +592,26 @@ export default function CalendarPage() {
   }
 
   // Handle view change via FullCalendar API (preserves date position)
+  // When coming back from the room columns view FullCalendar remounts with this view
   const changeView = useCallback((viewName: 'timeGridWeek' | 'timeGridDay' | 'timeGridTwoDay') => {
-    const api = calendarRef.current?.getApi()
-    if (api) {
-      api.changeView(viewName)
-      setCurrentView(viewName)
-    }
+    setShowRoomColumns(false)
+    setCurrentView(viewName)
+    calendarRef.current?.getApi().changeView(viewName)
   }, [])
 
+  // Navigate the room columns view to a given day
+  const goToRoomColumnsDay = (date: Date) => {
+    const start = startOfDay(date)
+    setDateRange({ start, end: addDays(start, 1) })
+    setCurrentDate(format(start, 'yyyy-MM-dd'))
+  }
+
+  // Handle "rooms" view button click
+  const handleRoomColumnsClick = () => {
+    setShowRoomColumns(true)
+    goToRoomColumnsDay(parseISO(currentDate))
+  }
+
   // Handle "today + tomorrow" button click
   const handleTodayTomorrowClick = () => {
     changeView('timeGridTwoDay')
@@ -457,6 +629,10 @@ export default function CalendarPage() {
 
   // Handle "today" button click - navigate to current date
   const handleTodayClick = () => {
+    if (showRoomColumns) {
+      goToRoomColumnsDay(new Date())
+      return
+    }
     const api = calendarRef.current?.getApi()
     if (api) {
       api.today()
@@ -466,6 +642,10 @@ export default function CalendarPage() {
   // Handle date picker change
   const handleDateChange = (dateString: string) => {
     if (!dateString) return
+    if (showRoomColumns) {
+      goToRoomColumnsDay(parseISO(dateString))
+      return
+    }
     const api = calendarRef.current?.getApi()
     if (api) {
       api.gotoDate(dateString)
@@ -497,8 +677,12 @@ export default function CalendarPage() {
   }
 
   // Custom event content renderer to show attendance status icon
-  const renderEventContent = (eventInfo: { event: { title: string; extendedProps: { isGroupClass: boolean; event?: Event } }; timeText: string }) => {
-    const { event: eventData } = eventInfo.event.extendedProps
+  const renderEventContent = (eventInfo: { event: { title: string; extendedProps: { isGroupClass: boolean; isBackground?: boolean; event?: Event; editingBy?: string[] } }; timeText: string }) => {
+    if (eventInfo.event.extendedProps.isBackground) {
+      return eventInfo.event.title ? <div className="fc-availability-label">{eventInfo.event.title}</div> : null
+    }
+
+    const { event: eventData, editingBy = [] } = eventInfo.event.extendedProps
 
     // Calculate combined attendance status for multi-guest events
     // Returns: 'all_attended' | 'all_no_show' | 'mixed' | 'partial' | null
@@ -614,6 +798,16 @@ export default function CalendarPage() {
             {attendanceIcon.icon}
           </div>
         )}
+        {/* Being edited by another user - top right */}
+        {editingBy.length > 0 && (
+          <div
+            className="fc-event-editing-badge"
+            title={t('realtime.beingEditedBy', { names: editingBy.join(', ') })}
+          >
+            <Pencil size={10} />
+            {!isWeekView && <span>{editingBy[0]}</span>}
+          </div>
+        )}
       </div>
     )
   }
@@ -622,7 +816,7 @@ export default function CalendarPage() {
   const handleConfirmUpdate = () => {
     if (!pendingUpdate) return
 
-    const { event, classOccurrence, newStart, newEnd } = pendingUpdate
+    const { event, classOccurrence, newStart, newEnd, newRoomId } = pendingUpdate
 
     // Format dates without timezone offset (local time)
     const formatLocalDateTime = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm:ss")
@@ -636,6 +830,7 @@ export default function CalendarPage() {
           data: {
             starts_at: formatLocalDateTime(newStart),
             ends_at: formatLocalDateTime(newEnd),
+            ...(newRoomId && newRoomId !== String(classOccurrence.room_id) ? { room_id: Number(newRoomId) } : {}),
           },
         },
         {
@@ -657,6 +852,9 @@ export default function CalendarPage() {
           data: {
             starts_at: formatLocalDateTime(newStart),
             duration_minutes: durationMinutes,
+            ...(newRoomId && newRoomId !== String(event.room_id) ? { room_id: newRoomId } : {}),
+            // The warning was shown in the confirmation dialog
+            ...(pendingUpdateOutsideHours ? { ignore_availability: true } : {}),
           },
         },
         {
@@ -692,38 +890,75 @@ export default function CalendarPage() {
       {/* Header - stacked on mobile, row on desktop */}
       <div className="flex flex-col gap-4 mb-4 sm:mb-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
-          <h1 className="text-2xl sm:text-3xl font-bold">{t('myCalendar')}</h1>
-          <Button onClick={handleAddEventClick} className="w-full sm:w-auto">
-            <Plus className="h-4 w-4 mr-2" />
-            {t('addEvent')}
-          </Button>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl sm:text-3xl font-bold">{t('myCalendar')}</h1>
+            {(isAdmin || isStaff) && (
+              <span
+                className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                title={t(`realtime.status.${liveStatus}Hint`)}
+                data-testid="calendar-live-status"
+              >
+                <span
+                  className={`inline-block h-2 w-2 rounded-full ${
+                    liveStatus === 'live' ? 'bg-green-500' : liveStatus === 'connecting' ? 'bg-amber-400' : 'bg-gray-400'
+                  }`}
+                />
+                {t(`realtime.status.${liveStatus}`)}
+              </span>
+            )}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            {(isAdmin || isStaff) && (pendingBookingRequests?.length ?? 0) > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => setBookingRequestsOpen(true)}
+                className="w-full sm:w-auto"
+                data-testid="booking-requests-btn"
+              >
+                <Inbox className="h-4 w-4 mr-2" />
+                {t('bookingRequests.button', { count: pendingBookingRequests?.length ?? 0 })}
+              </Button>
+            )}
+            {isAdmin && (
+              <Button variant="outline" onClick={() => setMoveRequestsOpen(true)} className="w-full sm:w-auto">
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                {t('moveRequests.button', { count: pendingMoveRequests?.length ?? 0 })}
+              </Button>
+            )}
+            <Button onClick={handleAddEventClick} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              {t('addEvent')}
+            </Button>
+          </div>
         </div>
 
         {/* Controls - wrapped on mobile */}
         <div className="flex flex-wrap gap-2 items-center">
-          {/* Room selector */}
-          <Select
-            value={selectedRoomId || 'all'}
-            onValueChange={(value) => setSelectedRoomId(value === 'all' ? null : value)}
-          >
-            <SelectTrigger className="w-full sm:w-[180px]">
-              <SelectValue placeholder={t('selectRoom')} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">{t('allRooms')}</SelectItem>
-              {rooms?.map((room) => (
-                <SelectItem key={room.id} value={String(room.id)}>
-                  <span className="flex items-center gap-2">
-                    <span
-                      className="inline-block w-3 h-3 rounded-full shrink-0"
-                      style={{ backgroundColor: room.color || '#3b82f6' }}
-                    />
-                    {room.name}
-                  </span>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          {/* Room selector (not needed in the room columns view) */}
+          {!showRoomColumns && (
+            <Select
+              value={selectedRoomId || 'all'}
+              onValueChange={(value) => setSelectedRoomId(value === 'all' ? null : value)}
+            >
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder={t('selectRoom')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('allRooms')}</SelectItem>
+                {rooms?.map((room) => (
+                  <SelectItem key={room.id} value={String(room.id)}>
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="inline-block w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: room.color || '#3b82f6' }}
+                      />
+                      {room.name}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
 
           {/* Staff: My events / All events toggle */}
           {isStaff && (
@@ -742,6 +977,26 @@ export default function CalendarPage() {
             </div>
           )}
 
+          {/* Whose working hours are shaded */}
+          {(isAdmin || isStaff) && availabilityData && availabilityData.trainers.length > 0 && (
+            <Select value={availabilityStaffId} onValueChange={setAvailabilityStaffId}>
+              <SelectTrigger className="w-full sm:w-[200px]" aria-label={t('availability.shadeTrainer')} data-testid="availability-trainer-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currentStaffId && <SelectItem value="own">{t('availability.ownHours')}</SelectItem>}
+                <SelectItem value={currentStaffId ? 'none' : 'own'}>{t('availability.noTrainer')}</SelectItem>
+                {availabilityData.trainers
+                  .filter(trainer => String(trainer.staff_id) !== String(currentStaffId))
+                  .map(trainer => (
+                    <SelectItem key={trainer.staff_id} value={String(trainer.staff_id)}>
+                      {trainer.name ?? `#${trainer.staff_id}`}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+
           {/* Group classes checkbox */}
           <div className="flex items-center gap-2 px-3 py-2 border rounded-md bg-background">
             <Checkbox
@@ -774,75 +1029,121 @@ export default function CalendarPage() {
             <Button variant="outline" size="sm" onClick={handleTodayClick} className="text-xs sm:text-sm px-2 sm:px-3">
               {t('today')}
             </Button>
-            <Button variant="outline" size="sm" onClick={handleTodayTomorrowClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${currentView === 'timeGridTwoDay' ? 'bg-accent' : ''}`}>
+            <Button variant="outline" size="sm" onClick={handleTodayTomorrowClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${!showRoomColumns && currentView === 'timeGridTwoDay' ? 'bg-accent' : ''}`}>
               {t('todayTomorrow')}
             </Button>
-            <Button variant="outline" size="sm" onClick={handleWeekViewClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${currentView === 'timeGridWeek' ? 'bg-accent' : ''}`}>
+            <Button variant="outline" size="sm" onClick={handleWeekViewClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${!showRoomColumns && currentView === 'timeGridWeek' ? 'bg-accent' : ''}`}>
               {t('weekView')}
             </Button>
-            <Button variant="outline" size="sm" onClick={handleDayViewClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${currentView === 'timeGridDay' ? 'bg-accent' : ''}`}>
+            <Button variant="outline" size="sm" onClick={handleDayViewClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${!showRoomColumns && currentView === 'timeGridDay' ? 'bg-accent' : ''}`}>
               {t('dayView')}
             </Button>
+            <Button variant="outline" size="sm" onClick={handleRoomColumnsClick} className={`text-xs sm:text-sm px-2 sm:px-3 ${showRoomColumns ? 'bg-accent' : ''}`}>
+              {t('roomView')}
+            </Button>
           </div>
         </div>
       </div>
 
       {/* Calendar container - full width on mobile */}
       <div className="bg-card rounded-lg border p-1 sm:p-4 -mx-2 sm:mx-0 overflow-x-auto">
-        <FullCalendar
-          ref={calendarRef}
-          plugins={[timeGridPlugin, interactionPlugin]}
-          initialView={currentView}
-          views={{
-            timeGridTwoDay: {
-              type: 'timeGrid',
-              duration: { days: 2 },
-              buttonText: t('todayTomorrow'),
-            },
-          }}
-          headerToolbar={{
-            left: 'prev,next',
-            center: 'title',
-            right: '',
-          }}
-          slotMinTime="06:00:00"
-          slotMaxTime="22:00:00"
-          slotDuration="00:30:00"
-          allDaySlot={false}
-          editable={true}
-          selectable={true}
-          selectMirror={true}
-          longPressDelay={300}
-          selectLongPressDelay={300}
-          eventLongPressDelay={300}
-          dayMaxEvents={true}
-          weekends={true}
-          height="auto"
-          locale={i18n.language}
-          firstDay={1} // Monday
-          events={calendarEvents}
-          eventContent={renderEventContent}
-          select={handleDateSelect}
-          eventClick={handleEventClick}
-          eventDrop={handleEventDrop}
-          eventResize={handleEventResize}
-          datesSet={handleDatesSet}
-          buttonText={{
-            today: t('today'),
-            week: t('weekView'),
-            day: t('dayView'),
-          }}
-          slotLabelFormat={{
-            hour: '2-digit',
-            minute: '2-digit',
-            hour12: false,
-          }}
-          eventTimeFormat={{
-            hour: '2-digit',
-            minute: '2-digit',
-            hour12: false,
-          }}
-        />
+        {showRoomColumns ? (
+          <>
+            <div className="flex items-center justify-between mb-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => goToRoomColumnsDay(addDays(parseISO(currentDate), -1))}
+                aria-label={t('roomColumns.previousDay')}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <h2 className="text-lg font-semibold">
+                {format(parseISO(currentDate), 'PPPP', { locale: i18n.language === 'hu' ? hu : enUS })}
+              </h2>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => goToRoomColumnsDay(addDays(parseISO(currentDate), 1))}
+                aria-label={t('roomColumns.nextDay')}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <RoomColumnsView
+              date={parseISO(currentDate)}
+              rooms={rooms?.filter(room => room.is_active !== false) ?? []}
+              events={filteredEvents ?? []}
+              classOccurrences={showGroupClasses ? groupClasses ?? [] : []}
+              getEventTitle={getEventTitle}
+              canMoveItem={canMoveRoomColumnItem}
+              slotMinHour={slotBounds.minHour}
+              slotMaxHour={slotBounds.maxHour}
+              getEditingBy={(item) => item.kind === 'event'
+                ? getEditors('event', item.event.id)
+                : getEditors('class_occurrence', item.classOccurrence.id)}
+              getShadedRanges={getRoomShadedRanges}
+              onItemClick={handleRoomColumnItemClick}
+              onItemMove={handleRoomColumnMove}
+            />
+          </>
+        ) : (
+          <FullCalendar
+            ref={calendarRef}
+            plugins={[timeGridPlugin, interactionPlugin]}
+            initialView={currentView}
+            initialDate={currentDate}
+            views={{
+              timeGridTwoDay: {
+                type: 'timeGrid',
+                duration: { days: 2 },
+                buttonText: t('todayTomorrow'),
+              },
+            }}
+            headerToolbar={{
+              left: 'prev,next',
+              center: 'title',
+              right: '',
+            }}
+            slotMinTime={`${String(slotBounds.minHour).padStart(2, '0')}:00:00`}
+            slotMaxTime={`${String(slotBounds.maxHour).padStart(2, '0')}:00:00`}
+            slotDuration="00:30:00"
+            allDaySlot={false}
+            editable={true}
+            selectable={true}
+            selectMirror={true}
+            longPressDelay={300}
+            selectLongPressDelay={300}
+            eventLongPressDelay={300}
+            dayMaxEvents={true}
+            weekends={true}
+            height="auto"
+            locale={i18n.language}
+            firstDay={1} // Monday
+            events={calendarEvents}
+            eventContent={renderEventContent}
+            select={handleDateSelect}
+            eventClick={handleEventClick}
+            eventDrop={handleEventDrop}
+            eventResize={handleEventResize}
+            datesSet={handleDatesSet}
+            buttonText={{
+              today: t('today'),
+              week: t('weekView'),
+              day: t('dayView'),
+            }}
+            slotLabelFormat={{
+              hour: '2-digit',
+              minute: '2-digit',
+              hour12: false,
+            }}
+            eventTimeFormat={{
+              hour: '2-digit',
+              minute: '2-digit',
+              hour12: false,
+            }}
+          />
+        )}
       </div>
 
       <EventFormModal
@@ -925,6 +1226,31 @@ export default function CalendarPage() {
         }}
       />
 
+      {/* Cross-day move dialog */}
+      {crossDayMove && (
+        <MoveEventDialog
+          event={crossDayMove.event}
+          newStart={crossDayMove.newStart}
+          newEnd={crossDayMove.newEnd}
+          open={!!crossDayMove}
+          isAdmin={isAdmin}
+          onClose={(moved) => {
+            if (!moved) crossDayMove.revert()
+            setCrossDayMove(null)
+          }}
+        />
+      )}
+
+      {/* Move requests review (admin only) */}
+      {isAdmin && (
+        <MoveRequestsDialog open={moveRequestsOpen} onOpenChange={setMoveRequestsOpen} />
+      )}
+
+      {/* Online booking requests (pending individual sessions) */}
+      {(isAdmin || isStaff) && (
+        <BookingRequestsDialog open={bookingRequestsOpen} onOpenChange={setBookingRequestsOpen} showTrainer={isAdmin} />
+      )}
+
       {/* Event Update Confirmation Dialog */}
       <AlertDialog open={!!pendingUpdate} onOpenChange={(open) => !open && handleCancelUpdate()}>
         <AlertDialogContent>
@@ -938,6 +1264,18 @@ export default function CalendarPage() {
                   <strong>{t('form.startTime')}:</strong> {format(pendingUpdate.newStart, 'PPp', { locale: i18n.language === 'hu' ? hu : enUS })}
                   <br />
                   <strong>{t('form.endTime')}:</strong> {format(pendingUpdate.newEnd, 'PPp', { locale: i18n.language === 'hu' ? hu : enUS })}
+                  {pendingUpdate.newRoomId && pendingUpdate.newRoomId !== String(pendingUpdate.event?.room_id ?? pendingUpdate.classOccurrence?.room_id) && (
+                    <>
+                      <br />
+                      <strong>{t('form.room')}:</strong> {rooms?.find(room => String(room.id) === pendingUpdate.newRoomId)?.name}
+                    </>
+                  )}
+                  {pendingUpdateOutsideHours && (
+                    <span className="mt-3 flex items-center gap-2 text-amber-700" data-testid="drag-availability-warning">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      {t('availability.dropWarning')}
+                    </span>
+                  )}
                 </>
               )}
             </AlertDialogDescription>
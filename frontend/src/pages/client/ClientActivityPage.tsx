@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '@/hooks/useAuth'
 import { clientsApi, clientKeys } from '@/api/clients'
 import { classesApi } from '@/api/classes'
+import { SwapBookingDialog } from '@/components/classes/SwapBookingDialog'
 import type { UpcomingBooking, ActivityHistoryFilters } from '@/types/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -23,7 +24,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { Calendar, CreditCard, Clock, TrendingUp, CheckCircle2, XCircle, AlertCircle, X, Filter } from 'lucide-react'
+import { Calendar, CreditCard, Clock, TrendingUp, CheckCircle2, XCircle, AlertCircle, X, Filter, ArrowRightLeft } from 'lucide-react'
 import { format, parseISO, isPast, differenceInHours } from 'date-fns'
 import { hu, enUS } from 'date-fns/locale'
 import { useToast } from '@/hooks/use-toast'
@@ -35,6 +36,7 @@ export default function ClientActivityPage() {
   const queryClient = useQueryClient()
   const [activeTab, setActiveTab] = useState('upcoming')
   const [cancelBookingId, setCancelBookingId] = useState<string | null>(null)
+  const [swapBooking, setSwapBooking] = useState<UpcomingBooking | null>(null)
 
   // Activity filters state
   const [filters, setFilters] = useState<ActivityHistoryFilters>({})
@@ -233,6 +235,13 @@ export default function ClientActivityPage() {
                           <Badge variant="outline">
                             {booking.type === 'class' ? t('activity.item.class') : t('activity.item.event')}
                           </Badge>
+                          {booking.status === 'waitlist' && (
+                            <Badge variant="outline" className="text-amber-600 border-amber-600">
+                              {booking.waitlist_position
+                                ? t('upcoming.waitlistPosition', { position: booking.waitlist_position })
+                                : t('upcoming.waitlisted')}
+                            </Badge>
+                          )}
                         </div>
                         <div className="flex items-center gap-4 mt-1 text-sm text-gray-500">
                           <div className="flex items-center gap-1">
@@ -249,6 +258,17 @@ export default function ClientActivityPage() {
                             <Badge variant="outline" className="text-green-600 border-green-600">
                               {t('upcoming.canCancel')}
                             </Badge>
+                            {booking.type === 'class' && booking.status !== 'waitlist' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSwapBooking(booking)}
+                                disabled={cancelMutation.isPending}
+                              >
+                                <ArrowRightLeft className="h-4 w-4 mr-1" />
+                                {t('upcoming.reschedule')}
+                              </Button>
+                            )}
                             <Button
                               variant="destructive"
                               size="sm"
@@ -579,6 +599,13 @@ export default function ClientActivityPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Reschedule Booking Dialog */}
+      <SwapBookingDialog
+        clientId={clientId}
+        booking={swapBooking}
+        onOpenChange={(open) => !open && setSwapBooking(null)}
+      />
     </div>
   )
 }
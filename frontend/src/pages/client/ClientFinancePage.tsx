@@ -0,0 +1,340 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns'
+import { useAuth } from '@/hooks/useAuth'
+import { useToast } from '@/hooks/use-toast'
+import { clientReportsApi, reportKeys } from '@/api/reports'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Wallet, Receipt, CreditCard, Ticket, Download, Loader2 } from 'lucide-react'
+import type { ClientPassSummary, ClientSessionHistory } from '@/types/reports'
+
+/**
+ * Formats a number as Hungarian Forint currency
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('hu-HU', {
+    style: 'decimal',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount) + ' Ft'
+}
+
+const PASS_STATUS_VARIANTS: Record<ClientPassSummary['status'], 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  fully_used: 'secondary',
+  expired: 'outline',
+}
+
+export default function ClientFinancePage() {
+  const { t } = useTranslation('client')
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  const clientId = user?.client?.id
+
+  const [dateFrom, setDateFrom] = useState(format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd'))
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [statementMonth, setStatementMonth] = useState(format(new Date(), 'yyyy-MM'))
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const { data: finance, isLoading } = useQuery({
+    queryKey: reportKeys.client.finance(clientId!, dateFrom, dateTo),
+    queryFn: () => clientReportsApi.getMyFinance(dateFrom, dateTo),
+    enabled: !!clientId && !!dateFrom && !!dateTo && dateFrom <= dateTo,
+  })
+
+  const handleDownloadStatement = async () => {
+    setIsDownloading(true)
+    try {
+      const blob = await clientReportsApi.downloadMyStatement(statementMonth)
+
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `egyenlegkivonat_${statementMonth}.pdf`
+      document.body.appendChild(link)
+      link.click()
+
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Statement download error:', error)
+      toast({
+        variant: 'destructive',
+        title: t('finance.statement.error'),
+      })
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const renderCharge = (session: ClientSessionHistory) => {
+    if (session.credits_used > 0) {
+      return <Badge variant="secondary">{t('finance.sessions.paidWithPass')}</Badge>
+    }
+    if (session.payment_status === 'comped') {
+      return <Badge variant="outline">{t('finance.sessions.comped')}</Badge>
+    }
+    return <span className="font-medium">{formatCurrency(session.entry_fee ?? 0)}</span>
+  }
+
+  if (!clientId) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-gray-500">{t('finance.noClientProfile')}</p>
+      </div>
+    )
+  }
+
+  const outstanding = finance?.balance.outstanding ?? 0
+
+  return (
+    <div className="space-y-6" data-testid="client-finance-page">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('finance.title')}</h1>
+        <p className="text-gray-500 mt-2">{t('finance.subtitle')}</p>
+      </div>
+
+      {/* Period */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="finance_date_from">{t('finance.dateFrom')}</Label>
+              <Input
+                id="finance_date_from"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                data-testid="finance-date-from"
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="finance_date_to">{t('finance.dateTo')}</Label>
+              <Input
+                id="finance_date_to"
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                data-testid="finance-date-to"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Summary */}
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-32" />
+          ))}
+        </div>
+      ) : finance ? (
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{t('finance.summary.outstanding')}</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div
+                className={`text-2xl font-bold ${outstanding > 0 ? 'text-red-600' : 'text-green-600'}`}
+                data-testid="finance-outstanding"
+              >
+                {formatCurrency(outstanding)}
+              </div>
+              <p className="text-xs text-muted-foreground">{t('finance.summary.outstandingHint')}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{t('finance.summary.sessionCharges')}</CardTitle>
+              <Receipt className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="finance-session-charges">
+                {formatCurrency(finance.summary.total_session_charges)}
+              </div>
+              <p className="text-xs text-muted-foreground">{t('finance.summary.inPeriod')}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{t('finance.summary.passSpend')}</CardTitle>
+              <CreditCard className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="finance-pass-spend">
+                {formatCurrency(finance.summary.total_amount_spent)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t('finance.summary.passesPurchased', { count: finance.summary.total_passes_purchased })}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{t('finance.summary.creditsUsed')}</CardTitle>
+              <Ticket className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{finance.summary.total_credits_used}</div>
+              <p className="text-xs text-muted-foreground">
+                {t('finance.summary.creditsPurchased', { count: finance.summary.total_credits_purchased })}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+
+      {/* Charges per session */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('finance.sessions.title')}</CardTitle>
+          <CardDescription>
+            {dateFrom} - {dateTo}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : finance && finance.sessions.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('finance.sessions.date')}</TableHead>
+                    <TableHead>{t('finance.sessions.service')}</TableHead>
+                    <TableHead>{t('finance.sessions.trainer')}</TableHead>
+                    <TableHead className="text-right">{t('finance.sessions.entryFee')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {finance.sessions.map((session) => (
+                    <TableRow key={`${session.type}-${session.id}`} data-testid={`finance-session-${session.type}-${session.id}`}>
+                      <TableCell className="font-medium whitespace-nowrap">
+                        {session.date} {session.time}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="font-medium">{session.service_name}</span>
+                          <Badge
+                            variant={session.type === 'INDIVIDUAL' ? 'default' : 'secondary'}
+                            className="w-fit mt-1"
+                          >
+                            {session.type === 'INDIVIDUAL' ? '1:1' : t('finance.sessions.group')}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell>{session.trainer_name}</TableCell>
+                      <TableCell className="text-right">{renderCharge(session)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 py-8">{t('finance.sessions.empty')}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pass purchases */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('finance.passes.title')}</CardTitle>
+          <CardDescription>
+            {dateFrom} - {dateTo}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : finance && finance.passes.length > 0 ? (
+            <div className="space-y-2">
+              {finance.passes.map((pass) => (
+                <div
+                  key={pass.id}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                  data-testid={`finance-pass-${pass.id}`}
+                >
+                  <div>
+                    <p className="font-medium">{pass.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(pass.purchased_at), 'yyyy.MM.dd')}
+                      {pass.expires_at && <> – {format(parseISO(pass.expires_at), 'yyyy.MM.dd')}</>}
+                      {' · '}
+                      {t('passes.passDetails.remaining')}: {pass.remaining_credits} / {pass.total_credits}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium">{formatCurrency(pass.price)}</p>
+                    <Badge variant={PASS_STATUS_VARIANTS[pass.status]} className="mt-1">
+                      {t(`finance.passes.status.${pass.status}`)}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 py-8">{t('finance.passes.empty')}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Monthly statement */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('finance.statement.title')}</CardTitle>
+          <CardDescription>{t('finance.statement.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="finance_statement_month">{t('finance.statement.month')}</Label>
+              <Input
+                id="finance_statement_month"
+                type="month"
+                max={format(new Date(), 'yyyy-MM')}
+                value={statementMonth}
+                onChange={(e) => setStatementMonth(e.target.value)}
+                data-testid="finance-statement-month"
+              />
+            </div>
+            <Button
+              onClick={handleDownloadStatement}
+              disabled={!statementMonth || isDownloading}
+              data-testid="finance-statement-download"
+            >
+              {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              {t('finance.statement.download')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
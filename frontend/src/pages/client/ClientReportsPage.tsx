@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
 import { useAuth } from '@/hooks/useAuth'
@@ -24,7 +24,8 @@ import {
 } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { Calendar as CalendarIcon, TrendingUp, Award, CreditCard } from 'lucide-react'
-import { format, subDays, subMonths } from 'date-fns'
+import { format, parseISO, startOfWeek, subDays, subMonths } from 'date-fns'
+import { BarChart } from '@/components/charts/BarChart'
 
 type PeriodType = 'last_30_days' | 'last_3_months' | 'custom'
 
@@ -84,6 +85,19 @@ export default function ClientReportsPage() {
     enabled: !!clientId,
   })
 
+  // Attended and missed sessions per week (weeks start on Monday)
+  const weeklyAttendance = useMemo(() => {
+    const weeks = new Map<string, { week: string; attended: number; no_show: number }>()
+    for (const session of sessionHistory ?? []) {
+      if (!session.attendance_status) continue
+      const week = format(startOfWeek(parseISO(session.date), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+      const row = weeks.get(week) ?? { week, attended: 0, no_show: 0 }
+      row[session.attendance_status]++
+      weeks.set(week, row)
+    }
+    return [...weeks.values()].sort((a, b) => a.week.localeCompare(b.week))
+  }, [sessionHistory])
+
   if (!clientId) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -208,6 +222,32 @@ export default function ClientReportsPage() {
         </div>
       ) : null}
 
+      {/* Weekly Attendance Chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('reports.weeklyAttendance.title')}</CardTitle>
+          <CardDescription>{t('reports.weeklyAttendance.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingSessions ? (
+            <Skeleton className="h-56 w-full" />
+          ) : (
+            <BarChart
+              data={weeklyAttendance}
+              xKey="week"
+              formatLabel={(week) => week.slice(5)}
+              series={[
+                { key: 'attended', label: t('reports.weeklyAttendance.attended'), color: '#16a34a' },
+                { key: 'no_show', label: t('reports.weeklyAttendance.noShow'), color: '#dc2626' },
+              ]}
+              stacked
+              emptyMessage={t('reports.weeklyAttendance.empty')}
+              data-testid="client-weekly-attendance-chart"
+            />
+          )}
+        </CardContent>
+      </Card>
+
       {/* Session History Table */}
       <Card>
         <CardHeader>
@@ -3,7 +3,7 @@ import { useTranslation } from 'react-i18next'
 import { useSearchParams, Link } from 'react-router-dom'
 import { format, startOfWeek, endOfWeek, startOfDay, endOfDay, addWeeks, subWeeks, addDays, subDays, isSameDay, parseISO } from 'date-fns'
 import { hu, enUS } from 'date-fns/locale'
-import { ChevronLeft, ChevronRight, List, CalendarDays, Calendar, LogOut, Shield, LogIn, User } from 'lucide-react'
+import { ChevronLeft, ChevronRight, List, CalendarDays, Calendar, LogOut, Shield, LogIn, User, UserRound } from 'lucide-react'
 import { usePublicClasses } from '@/api/public'
 import { useAuth } from '@/hooks/useAuth'
 import { PublicClassOccurrence, PublicClassFilters, Site } from '@/types/public'
@@ -151,6 +151,12 @@ export default function PublicClassesPage() {
               FunctionalFit
             </Link>
             <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/public/sessions" data-testid="session-booking-link">
+                  <UserRound className="h-4 w-4 mr-1" />
+                  <span className="hidden sm:inline">{t('sessionBooking.link')}</span>
+                </Link>
+              </Button>
               {isAuthenticated ? (
                 <>
                   {/* User info */}
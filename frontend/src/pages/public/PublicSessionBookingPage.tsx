@@ -0,0 +1,269 @@
+import { useState, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router-dom'
+import { format, startOfWeek, addDays, addWeeks, subWeeks, isSameDay, parseISO, isBefore } from 'date-fns'
+import { hu, enUS } from 'date-fns/locale'
+import { ChevronLeft, ChevronRight, CalendarDays, CheckCircle2, LogIn, User } from 'lucide-react'
+import { usePublicServiceTypes, usePublicTrainers, usePublicTrainerSlots } from '@/api/public'
+import { useAuth } from '@/hooks/useAuth'
+import type { PublicServiceType, PublicSessionSlot, PublicTrainer } from '@/types/public'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { SessionBookingModal } from '@/components/public/SessionBookingModal'
+
+const formatPrice = (amount: number) =>
+  new Intl.NumberFormat('hu-HU', { style: 'currency', currency: 'HUF', maximumFractionDigits: 0 }).format(amount)
+
+export default function PublicSessionBookingPage() {
+  const { t, i18n } = useTranslation('public')
+  const { isAuthenticated, user } = useAuth()
+  const locale = i18n.language === 'hu' ? hu : enUS
+
+  const [serviceType, setServiceType] = useState<PublicServiceType | null>(null)
+  const [trainer, setTrainer] = useState<PublicTrainer | null>(null)
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const [selectedSlot, setSelectedSlot] = useState<PublicSessionSlot | null>(null)
+  const [booked, setBooked] = useState(false)
+
+  const { data: serviceTypes, isLoading: serviceTypesLoading, error: serviceTypesError } = usePublicServiceTypes()
+  const { data: trainers, isLoading: trainersLoading } = usePublicTrainers(serviceType?.id)
+
+  const slotFilters = useMemo(() => serviceType ? {
+    service_type_id: serviceType.id,
+    from: format(weekStart, 'yyyy-MM-dd'),
+    to: format(addDays(weekStart, 6), 'yyyy-MM-dd'),
+  } : undefined, [serviceType, weekStart])
+
+  const { data: slots, isLoading: slotsLoading } = usePublicTrainerSlots(trainer?.id, slotFilters)
+
+  const slotsByDay = useMemo(() =>
+    Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(weekStart, i)
+      return { date, slots: (slots ?? []).filter(slot => isSameDay(parseISO(slot.starts_at), date)) }
+    }),
+  [slots, weekStart])
+
+  const isCurrentWeek = !isBefore(startOfWeek(new Date(), { weekStartsOn: 1 }), weekStart)
+
+  const chooseServiceType = (type: PublicServiceType) => {
+    setServiceType(type)
+    setTrainer(null)
+    setBooked(false)
+  }
+
+  const chooseTrainer = (selected: PublicTrainer) => {
+    setTrainer(selected)
+    setBooked(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b">
+        <div className="border-b bg-muted/50">
+          <div className="container mx-auto px-4 py-2 flex items-center justify-between">
+            <Link to="/public/classes" className="text-lg font-bold text-primary">
+              FunctionalFit
+            </Link>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/public/classes">
+                  <CalendarDays className="h-4 w-4 mr-1" />
+                  <span className="hidden sm:inline">{t('sessionBooking.groupClassesLink')}</span>
+                </Link>
+              </Button>
+              {isAuthenticated ? (
+                <div className="hidden sm:flex items-center gap-2 text-sm text-muted-foreground">
+                  <User className="h-4 w-4" />
+                  <span>{user?.name}</span>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/login">
+                    <LogIn className="h-4 w-4 mr-1" />
+                    <span>{t('common:login', 'Bejelentkezés')}</span>
+                  </Link>
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="container mx-auto px-4 py-4">
+          <h1 className="text-2xl font-bold">{t('sessionBooking.title')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">{t('sessionBooking.subtitle')}</p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-8">
+        {booked && (
+          <Card className="border-green-300 bg-green-50 dark:bg-green-950 dark:border-green-800" data-testid="session-booked-notice">
+            <CardContent className="pt-6 flex items-start gap-3">
+              <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5" />
+              <p className="text-sm">{t('sessionBooking.booking.pendingNotice')}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 1: service type */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">1. {t('sessionBooking.steps.serviceType')}</h2>
+          {serviceTypesLoading && (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-28 w-full" />)}
+            </div>
+          )}
+          {serviceTypesError && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <p className="text-destructive">{t('errors.loadFailed')}</p>
+              </CardContent>
+            </Card>
+          )}
+          {serviceTypes && (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3" data-testid="service-type-list">
+              {serviceTypes.map((type) => (
+                <Card
+                  key={type.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => chooseServiceType(type)}
+                  onKeyDown={(e) => e.key === 'Enter' && chooseServiceType(type)}
+                  className={`cursor-pointer transition-colors hover:border-primary ${serviceType?.id === type.id ? 'border-primary ring-2 ring-primary' : ''}`}
+                  data-testid={`service-type-${type.id}`}
+                >
+                  <CardHeader>
+                    <CardTitle className="text-base">{type.name}</CardTitle>
+                    {type.description && <CardDescription>{type.description}</CardDescription>}
+                  </CardHeader>
+                  <CardContent className="text-sm text-muted-foreground">
+                    {t('sessionBooking.duration', { minutes: type.session_minutes })} · {formatPrice(type.price_brutto)}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Step 2: trainer */}
+        {serviceType && (
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold">2. {t('sessionBooking.steps.trainer')}</h2>
+            {trainersLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : trainers && trainers.length > 0 ? (
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3" data-testid="trainer-list">
+                {trainers.map((item) => (
+                  <Card
+                    key={item.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => chooseTrainer(item)}
+                    onKeyDown={(e) => e.key === 'Enter' && chooseTrainer(item)}
+                    className={`cursor-pointer transition-colors hover:border-primary ${trainer?.id === item.id ? 'border-primary ring-2 ring-primary' : ''}`}
+                    data-testid={`trainer-${item.id}`}
+                  >
+                    <CardHeader>
+                      <CardTitle className="text-base">{item.name}</CardTitle>
+                      {item.specialization && <CardDescription>{item.specialization}</CardDescription>}
+                    </CardHeader>
+                    {item.default_site && (
+                      <CardContent className="text-sm text-muted-foreground">{item.default_site}</CardContent>
+                    )}
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('sessionBooking.noTrainers')}</p>
+            )}
+          </section>
+        )}
+
+        {/* Step 3: free slot */}
+        {serviceType && trainer && (
+          <section className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-lg font-semibold">3. {t('sessionBooking.steps.slot')}</h2>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setWeekStart(prev => subWeeks(prev, 1))}
+                  disabled={isCurrentWeek}
+                  data-testid="slots-prev-week"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm font-medium min-w-[10rem] text-center">
+                  {format(weekStart, 'MMM d', { locale })} – {format(addDays(weekStart, 6), 'MMM d, yyyy', { locale })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setWeekStart(prev => addWeeks(prev, 1))}
+                  data-testid="slots-next-week"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {slotsLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-7 gap-4" data-testid="slot-grid">
+                {slotsByDay.map(({ date, slots: daySlots }) => (
+                  <div key={date.toISOString()} className="space-y-2">
+                    <div className="text-center p-2 rounded-lg bg-muted">
+                      <div className="font-semibold">{format(date, 'EEE', { locale })}</div>
+                      <div className="text-sm">{format(date, 'd', { locale })}</div>
+                    </div>
+                    {daySlots.length === 0 ? (
+                      <div className="text-center text-sm text-muted-foreground py-2">
+                        {t('sessionBooking.noSlotsThisDay')}
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap lg:flex-col gap-2">
+                        {daySlots.map((slot) => (
+                          <Button
+                            key={slot.starts_at}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSelectedSlot(slot)}
+                            data-testid="session-slot"
+                          >
+                            {format(parseISO(slot.starts_at), 'HH:mm')}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+
+      {serviceType && trainer && (
+        <SessionBookingModal
+          serviceType={serviceType}
+          trainer={trainer}
+          slot={selectedSlot}
+          open={!!selectedSlot}
+          onOpenChange={(open) => !open && setSelectedSlot(null)}
+          onBooked={() => setBooked(true)}
+        />
+      )}
+
+      {/* Footer */}
+      <footer className="border-t mt-8">
+        <div className="container mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+          <p>{t('publicClasses.footer.info')}</p>
+          <p className="mt-1">{t('publicClasses.footer.contact')}</p>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -19,6 +19,7 @@ import { useToast } from '@/hooks/use-toast'
 import { FileDown, TrendingUp, Clock, DollarSign, Calendar as CalendarIcon } from 'lucide-react'
 import { format, subDays } from 'date-fns'
 import { Badge } from '@/components/ui/badge'
+import { StaffTrendCharts } from '@/components/reports/StaffTrendCharts'
 
 export default function StaffReportsPage() {
   const { t } = useTranslation(['staff', 'common'])
@@ -241,6 +242,9 @@ export default function StaffReportsPage() {
         </div>
       ) : null}
 
+      {/* Trend Charts */}
+      <StaffTrendCharts dateFrom={dateFrom} dateTo={dateTo} />
+
       {/* Session Breakdown Table */}
       <Card>
         <CardHeader>
@@ -11,6 +11,7 @@ import ActivityPageRouter from './pages/ActivityPageRouter'
 import StaffDashboardPage from './pages/staff/StaffDashboardPage'
 import StaffClientsPage from './pages/staff/StaffClientsPage'
 import SettingsPage from './pages/SettingsPage'
+import ClientFinancePage from './pages/client/ClientFinancePage'
 import AdminDashboardPage from './pages/admin/AdminDashboardPage'
 import UsersPage from './pages/admin/UsersPage'
 import SitesPage from './pages/admin/SitesPage'
@@ -23,12 +24,16 @@ import GoogleCalendarSyncPage from './pages/admin/GoogleCalendarSyncPage'
 import PricingPage from './pages/admin/PricingPage'
 import ServiceTypesPage from './pages/admin/ServiceTypesPage'
 import SettlementsPage from './pages/admin/SettlementsPage'
+import PricingAnomaliesPage from './pages/admin/PricingAnomaliesPage'
+import OutstandingBalancesPage from './pages/admin/OutstandingBalancesPage'
 import EventChangesPage from './pages/admin/EventChangesPage'
 import ClientImportPage from './pages/admin/ClientImportPage'
+import EventImportPage from './pages/admin/EventImportPage'
 import AdminSettingsPage from './pages/admin/AdminSettingsPage'
 import MotivationalQuotesPage from './pages/admin/MotivationalQuotesPage'
 import NotFoundPage from './pages/NotFoundPage'
 import PublicClassesPage from './pages/public/PublicClassesPage'
+import PublicSessionBookingPage from './pages/public/PublicSessionBookingPage'
 
 export const routes: RouteObject[] = [
   // Public routes (no authentication required)
@@ -36,6 +41,10 @@ export const routes: RouteObject[] = [
     path: '/public/classes',
     element: <PublicClassesPage />,
   },
+  {
+    path: '/public/sessions',
+    element: <PublicSessionBookingPage />,
+  },
   {
     path: '/login',
     element: <LoginPage />,
@@ -84,6 +93,10 @@ export const routes: RouteObject[] = [
         path: 'clients',
         element: <StaffClientsPage />,
       },
+      {
+        path: 'finance',
+        element: <ClientFinancePage />,
+      },
       {
         path: 'settings',
         element: <SettingsPage />,
@@ -135,6 +148,10 @@ export const routes: RouteObject[] = [
             path: 'pricing',
             element: <PricingPage />,
           },
+          {
+            path: 'pricing-anomalies',
+            element: <PricingAnomaliesPage />,
+          },
           {
             path: 'service-types',
             element: <ServiceTypesPage />,
@@ -143,6 +160,10 @@ export const routes: RouteObject[] = [
             path: 'settlements',
             element: <SettlementsPage />,
           },
+          {
+            path: 'outstanding-balances',
+            element: <OutstandingBalancesPage />,
+          },
           {
             path: 'event-changes',
             element: <EventChangesPage />,
@@ -151,6 +172,10 @@ export const routes: RouteObject[] = [
             path: 'client-import',
             element: <ClientImportPage />,
           },
+          {
+            path: 'event-import',
+            element: <EventImportPage />,
+          },
           {
             path: 'settings',
             element: <AdminSettingsPage />,
@@ -127,3 +127,17 @@ export interface CancelBookingResponse {
   message: string
   credit_refunded: boolean
 }
+
+// Another date of the same class a booking can be moved to
+export interface ClassSwapOption {
+  id: number
+  starts_at: string
+  ends_at: string
+  room: string | null
+  trainer: string | null
+  available_spots: number
+}
+
+export interface SwapBookingRequest {
+  target_occurrence_id: number
+}
@@ -107,6 +107,152 @@ export interface UpcomingBooking {
   ends_at: string
   trainer: string | null
   room: string | null
+  status?: 'booked' | 'waitlist' // Class bookings only
+  waitlist_position?: number | null // 1-based queue position while on the waitlist
   can_cancel: boolean // Based on 24h rule
   cancellation_deadline: string | null
 }
+
+// Pass management (staff/admin)
+
+export type ManagedPassStatus = 'active' | 'expired' | 'depleted' | 'suspended' | 'voided'
+
+export interface ManagedPass {
+  id: number
+  client_id: number
+  type: string
+  total_credits: number
+  credits_left: number
+  valid_from: string
+  valid_until: string
+  source: 'woocommerce' | 'stripe' | 'manual'
+  status: ManagedPassStatus
+  external_order_id: string | null
+  price: number | null
+  frozen_at: string | null
+  voided_at: string | null
+  void_reason: string | null
+  created_by_name: string | null
+  created_at: string
+}
+
+export interface ClientPassList {
+  passes: ManagedPass[]
+  total_credits_remaining: number
+}
+
+export type PassTransactionType =
+  | 'issue'
+  | 'deduction'
+  | 'refund'
+  | 'adjustment'
+  | 'extension'
+  | 'freeze'
+  | 'unfreeze'
+  | 'void'
+
+export interface PassLedgerEntry {
+  id: number
+  pass_id: number
+  type: PassTransactionType
+  credits: number // Signed change, 0 for lifecycle entries
+  balance_after: number
+  reason: string | null
+  event_id: number | null
+  class_registration_id: number | null
+  session_title: string | null
+  session_starts_at: string | null
+  created_by_name: string | null
+  created_at: string
+}
+
+export interface IssuePassRequest {
+  type: string
+  total_credits: number
+  valid_from: string
+  valid_until: string
+  external_order_id?: string | null
+  price?: number | null
+}
+
+// Client balance ledger (staff/admin)
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer'
+
+export type ClientLedgerEntryType = 'session' | 'class' | 'pass' | 'payment'
+
+export interface ClientLedgerEntry {
+  type: ClientLedgerEntryType
+  date: string
+  description: string | null
+  amount: number // Charges positive, payments negative
+  balance_after: number
+  event_id?: number
+  class_registration_id?: number | null
+  pass_id?: number
+  payment_id?: number
+  method?: PaymentMethod | 'online'
+  reference?: string | null
+  recorded_by_name?: string | null
+  payment_status?: string
+  session_starts_at?: string | null
+}
+
+export interface ClientLedger {
+  client_id: number
+  client_name: string
+  unpaid_balance: number
+  opening_balance: number
+  entries: ClientLedgerEntry[]
+  totals: {
+    charges: number
+    payments: number
+    balance: number
+  }
+}
+
+export interface ClientLedgerFilters {
+  from?: string
+  to?: string
+}
+
+export interface ClientPayment {
+  id: number
+  client_id: number
+  amount: number
+  currency: string
+  method: PaymentMethod
+  paid_at: string
+  reference: string | null
+  notes: string | null
+  class_registration_id: number | null
+  created_at: string
+}
+
+export interface RecordPaymentRequest {
+  amount: number
+  method: PaymentMethod
+  paid_at?: string | null
+  reference?: string | null
+  notes?: string | null
+}
+
+export interface OutstandingBalanceRow {
+  client_id: number
+  client_name: string
+  client_email: string | null
+  session_charges: number
+  class_charges: number
+  pass_charges: number
+  payments: number
+  balance: number
+  last_payment_at: string | null
+}
+
+export interface OutstandingBalancesReport {
+  clients: OutstandingBalanceRow[]
+  summary: {
+    client_count: number
+    total_outstanding: number
+  }
+}
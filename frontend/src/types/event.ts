@@ -2,7 +2,7 @@
 
 export type EventType = 'INDIVIDUAL' | 'GROUP_CLASS' | 'BLOCK'
 
-export type EventStatus = 'scheduled' | 'cancelled' | 'completed'
+export type EventStatus = 'pending' | 'scheduled' | 'cancelled' | 'completed'
 
 export interface Event {
   id: string
@@ -21,6 +21,7 @@ export interface Event {
   checked_in_at: string | null
   notes: string | null
   google_calendar_event_id: string | null
+  recurring_group_id: string | null // Shared by events of one weekly recurring series
   // Pricing fields for main client
   entry_fee_brutto: number | null
   trainer_fee_brutto: number | null
@@ -108,6 +109,11 @@ export interface Event {
     location: string
     facility: string
   }
+  service_type?: {
+    id: number
+    code: string
+    name: string
+  } | null
   pricing?: {
     id: number
     name: string | null
@@ -146,6 +152,7 @@ export interface CreateEventRequest {
   repeat_from?: string // YYYY-MM-DD
   repeat_until?: string // YYYY-MM-DD
   skip_dates?: string[] // YYYY-MM-DD dates to skip
+  ignore_availability?: boolean // Save outside trainer working hours / site opening hours
 }
 
 // Recurring event preview types
@@ -166,16 +173,45 @@ export interface RecurringPreviewResponse {
 
 export interface RecurringEventResponse {
   count: number
+  recurring_group_id: string
   events: Event[]
   skipped_dates: string[]
 }
 
+// Which events of a recurring series a change applies to
+export type RecurringScope = 'this' | 'following' | 'all'
+
+export interface UpdateRecurringGroupRequest {
+  event_id: string // The edited event; its time shift is applied to the others
+  scope: RecurringScope
+  room_id?: number
+  starts_at?: string
+  ends_at?: string
+  notes?: string | null
+  force_override?: boolean
+  ignore_availability?: boolean
+}
+
+export interface RecurringGroupUpdateResponse {
+  count: number
+  events: Event[]
+}
+
+export interface DeleteRecurringGroupParams {
+  scope: RecurringScope
+  event_id?: string
+}
+
 export interface UpdateEventRequest {
   room_id?: string
   starts_at?: string // Same-day only for staff, validated server-side
+  ends_at?: string
   duration_minutes?: number
   notes?: string
   status?: EventStatus
+  force_override?: boolean // Save despite room conflicts
+  ignore_availability?: boolean // Save outside trainer working hours / site opening hours
+  notify_clients?: boolean // Admin endpoint only: queue the event update email
 }
 
 export interface EventListFilters {
@@ -202,3 +238,182 @@ export interface CheckInResponse {
   checked_in_client_id?: number
   checked_in_guest_index?: number
 }
+
+// Group class attendance sheet
+
+export interface ClassCheckInItem {
+  registration_id: string | number
+  attendance_status: 'attended' | 'no_show'
+}
+
+export type ClassCheckInCreditResult = 'already_paid' | 'deducted' | 'no_pass' | 'not_charged'
+
+export interface ClassCheckInResult {
+  registration_id: number
+  status: 'success' | 'skipped'
+  reason?: string
+  attendance_status?: 'attended' | 'no_show'
+  credit_result?: ClassCheckInCreditResult | null
+  pass_credit_deducted?: boolean
+  credits_left?: number | null
+}
+
+export interface ClassCheckInResponse {
+  occurrence_id: number
+  results: ClassCheckInResult[]
+}
+
+// Cross-day move types
+
+export interface MoveEventRequest {
+  starts_at: string
+  ends_at: string
+  room_id?: string
+}
+
+export interface MovePreviewNotification {
+  template: 'event_update'
+  client_id: string
+  recipient_name: string
+  recipient_email: string
+}
+
+export interface MovePreviewConflict {
+  event_id: number
+  event_type: 'event' | 'class_occurrence'
+  title: string
+  starts_at: string
+  ends_at: string
+  overlap_minutes: number
+}
+
+export interface MovePreviewResponse {
+  event_id: string
+  original_starts_at: string
+  original_ends_at: string
+  starts_at: string
+  ends_at: string
+  room_id: number
+  is_cross_day: boolean
+  requires_approval: boolean
+  affected_clients: Array<{
+    id: string
+    name: string | null
+    email: string | null
+    is_technical_guest: boolean
+  }>
+  conflicts: MovePreviewConflict[]
+  notifications: MovePreviewNotification[]
+}
+
+export type EventMoveRequestStatus = 'pending' | 'approved' | 'rejected'
+
+export interface EventMoveRequest {
+  id: number
+  event_id: string
+  requested_by: string
+  new_starts_at: string
+  new_ends_at: string
+  new_room_id: string | null
+  original_starts_at: string
+  original_ends_at: string
+  original_room_id: string | null
+  status: EventMoveRequestStatus
+  reason: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  created_at: string
+  // Relationships
+  event?: Event
+  requester?: { id: string; name: string; email: string }
+  reviewer?: { id: string; name: string; email: string } | null
+  new_room?: { id: string; name: string } | null
+}
+
+// Admin event import from .ics / CSV files
+
+export type EventImportRowStatus = 'ok' | 'conflict' | 'invalid'
+
+export type EventImportErrorCode =
+  | 'invalid_date'
+  | 'invalid_time_range'
+  | 'invalid_type'
+  | 'all_day'
+  | 'recurring'
+  | 'cancelled'
+  | 'room_missing'
+  | 'room_not_found'
+  | 'room_ambiguous'
+  | 'staff_missing'
+  | 'staff_not_found'
+  | 'staff_ambiguous'
+  | 'client_missing'
+  | 'client_not_found'
+  | 'client_ambiguous'
+  | 'service_type_missing'
+  | 'service_type_not_found'
+  | 'service_type_ambiguous'
+  | 'already_imported'
+  | 'duplicate_uid'
+  | 'create_failed'
+
+export interface EventImportError {
+  code: EventImportErrorCode
+  value: string | null
+}
+
+export interface EventImportConflict {
+  event_id: number // Row number when event_type is import_row
+  event_type: 'event' | 'class_occurrence' | 'import_row'
+  title: string
+  starts_at: string
+  ends_at: string
+  overlap_minutes: number
+}
+
+export interface EventImportRow {
+  row: number // CSV line number or ICS event position
+  uid: string | null // ICS UID, null for CSV rows
+  title: string | null
+  starts_at: string | null
+  ends_at: string | null
+  type: 'INDIVIDUAL' | 'BLOCK' | string
+  room: { id: number; name: string } | null
+  staff: { id: number; name: string | null } | null
+  client: { id: number; name: string } | null
+  service_type: { id: number; name: string } | null
+  notes: string | null
+  status: EventImportRowStatus
+  errors: EventImportError[]
+  conflicts: EventImportConflict[]
+  conflict_with: string | null
+}
+
+export interface EventImportOptions {
+  default_room_id?: number
+  default_staff_id?: number
+}
+
+export interface EventImportPreview {
+  format: 'ics' | 'csv'
+  rows: EventImportRow[]
+  summary: {
+    total: number
+    ok: number
+    conflict: number
+    invalid: number
+  }
+}
+
+export interface EventImportResult {
+  summary: {
+    total: number
+    created: number
+    skipped: number
+    rejected: number
+  }
+  created: Array<{ row: number; event_id: number }>
+  skipped: number[]
+  rejected: Array<{ row: number; errors: EventImportError[] }>
+}
@@ -10,21 +10,47 @@ export interface GoogleCalendarSyncConfig {
   };
   sync_enabled: boolean;
   sync_direction: 'import' | 'export' | 'both';
+  sync_interval_minutes: number;
   service_account_json: string | null;
-  sync_options: Record<string, any> | null;
+  sync_options: GoogleCalendarSyncOptions | null;
   last_import_at: string | null;
   last_export_at: string | null;
+  last_synced_at: string | null;
+  next_sync_at: string | null; // null: due on the next scheduler tick
+  consecutive_failures: number;
+  last_error: string | null;
+  health: SyncHealth;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
   sync_logs?: GoogleCalendarSyncLog[];
 }
 
+// Health of the scheduled sync of a config
+export type SyncHealth = 'healthy' | 'pending' | 'degraded' | 'failing' | 'stale' | 'disabled';
+
+// How a conflicting Google event is resolved
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep_both' | 'shift' | 'merge';
+
+// Applied to imported events in order; matching is case-insensitive on the summary
+export interface GoogleCalendarImportRule {
+  match: 'starts_with' | 'contains';
+  pattern: string;
+  action: 'skip' | 'service_type';
+  service_type_id?: number | null;
+}
+
+export interface GoogleCalendarSyncOptions {
+  default_resolution?: ConflictResolution | null; // null: conflicts wait for manual resolution
+  import_rules?: GoogleCalendarImportRule[];
+  [key: string]: unknown;
+}
+
 export interface GoogleCalendarSyncLog {
   id: number;
   sync_config_id: number;
   sync_config?: GoogleCalendarSyncConfig;
-  operation: 'import' | 'export';
+  operation: 'import' | 'export' | 'sync';
   status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   started_at: string | null;
   completed_at: string | null;
@@ -49,15 +75,22 @@ export interface GoogleCalendarSyncLog {
 export interface GoogleCalendarConflict {
   google_event_id: string;
   google_summary: string;
+  google_description?: string | null;
+  google_location?: string | null;
   google_start: string;
   google_end: string;
+  room_id?: number | null;
   conflicting_events: {
     event_id: number;
-    type: string;
+    type: 'event' | 'class_occurrence';
+    title?: string;
     start: string;
     end: string;
     overlap_minutes: number;
   }[];
+  // Set when a session we pushed was moved in Google onto a booked slot
+  internal_event_id?: number;
+  availability_warnings?: { code: string; message: string }[];
 }
 
 export interface CreateSyncConfigInput {
@@ -66,8 +99,9 @@ export interface CreateSyncConfigInput {
   room_id?: number | null;
   sync_enabled?: boolean;
   sync_direction: 'import' | 'export' | 'both';
+  sync_interval_minutes?: number;
   service_account_json?: string | null;
-  sync_options?: Record<string, any> | null;
+  sync_options?: GoogleCalendarSyncOptions | null;
 }
 
 export interface UpdateSyncConfigInput extends Partial<CreateSyncConfigInput> {}
@@ -78,6 +112,7 @@ export interface ImportEventsInput {
   end_date: string;
   room_id?: number | null;
   auto_resolve_conflicts?: boolean;
+  conflict_resolution?: ConflictResolution | null;
 }
 
 export interface ExportEventsInput {
@@ -89,7 +124,7 @@ export interface ExportEventsInput {
 }
 
 export interface ResolveConflictsInput {
-  resolutions: Record<string, 'overwrite' | 'skip'>;
+  resolutions: Record<string, ConflictResolution>;
 }
 
 export interface TestConnectionInput {
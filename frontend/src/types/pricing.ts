@@ -77,19 +77,48 @@ export interface Settlement {
   period_end: string // ISO date
   total_trainer_fee: number // HUF
   total_entry_fee: number // HUF
-  status: 'draft' | 'finalized' | 'paid'
+  total_adjustments: number // HUF, bonuses minus deductions
+  total_payable: number // HUF, trainer fee + adjustments
+  status: SettlementStatus
+  locked_at: string | null // Set while finalized or paid
+  paid_at: string | null // ISO date
+  payment_reference: string | null
+  payout_id?: number | null
   notes: string | null
   items_count: number
   created_at: string
   updated_at: string
   // Relations
   items?: SettlementItem[]
+  adjustments?: SettlementAdjustment[]
+  unlocks?: SettlementUnlock[]
   trainer?: {
     id: number
     name: string
   }
 }
 
+export type SettlementStatus = 'draft' | 'finalized' | 'paid'
+
+export type SettlementAdjustmentType = 'bonus' | 'deduction'
+
+export interface SettlementAdjustment {
+  id: number
+  type: SettlementAdjustmentType
+  amount: number // HUF, always positive
+  reason: string
+  created_by_name: string | null
+  created_at: string
+}
+
+// Audit entry of a finalized settlement reopened by an admin
+export interface SettlementUnlock {
+  id: number
+  reason: string
+  unlocked_by_name: string | null
+  created_at: string
+}
+
 export interface SettlementItem {
   id: number
   settlement_id: number
@@ -114,6 +143,7 @@ export interface SettlementPreview {
   total_entry_fee: number
   items_count: number
   items: SettlementPreviewItem[]
+  missing_pricing: SettlementIssue[]
 }
 
 export interface SettlementPreviewItem {
@@ -126,6 +156,71 @@ export interface SettlementPreviewItem {
   currency: string
 }
 
+/**
+ * A session that needs attention before closing the month: a registration without
+ * resolvable pricing, or a past session whose attendance was never recorded
+ */
+export interface SettlementIssue {
+  type?: 'individual' | 'group'
+  event_id?: number | null
+  class_occurrence_id: number | null
+  registration_id: number | null
+  client_name: string
+  class_name: string
+  class_date: string // ISO datetime
+}
+
+export type MonthCloseSkipReason = 'locked' | 'existing_settlement' | 'no_items'
+
+export interface MonthCloseTrainerRow {
+  trainer_id: number // users.id
+  trainer_name: string
+  total_trainer_fee: number
+  total_entry_fee: number
+  items_count: number
+  individual_count: number
+  group_count: number
+  missing_pricing: SettlementIssue[]
+  unchecked_attendance: SettlementIssue[]
+  existing_settlement: {
+    id: number
+    status: SettlementStatus
+    period_start: string
+    period_end: string
+  } | null
+  skip_reason: MonthCloseSkipReason | null
+}
+
+export interface MonthClosePreview {
+  month: string // YYYY-MM
+  period_start: string
+  period_end: string
+  trainers: MonthCloseTrainerRow[]
+}
+
+export interface MonthCloseRequest {
+  month: string // YYYY-MM
+  trainer_ids?: number[]
+}
+
+export interface MonthCloseResult {
+  month: string
+  created: {
+    settlement_id: number
+    trainer_id: number
+    trainer_name: string
+    total_trainer_fee: number
+    missing_pricing_count: number
+    unchecked_attendance_count: number
+  }[]
+  skipped: {
+    trainer_id: number
+    trainer_name: string
+    reason: MonthCloseSkipReason
+    existing_settlement_id: number | null
+  }[]
+}
+
 export interface GenerateSettlementRequest {
   trainer_id: number
   period_start: string // ISO date
@@ -133,7 +228,80 @@ export interface GenerateSettlementRequest {
   notes?: string
 }
 
-export interface UpdateSettlementStatusRequest {
-  status: 'draft' | 'finalized' | 'paid'
-  notes?: string
+export interface UpdateSettlementRequest {
+  notes?: string | null
+}
+
+export interface MarkSettlementPaidRequest {
+  paid_at: string // ISO date
+  payment_reference: string
+}
+
+export interface CreateSettlementAdjustmentRequest {
+  type: SettlementAdjustmentType
+  amount: number
+  reason: string
+}
+
+// ============================================
+// Pricing anomalies
+// ============================================
+
+export type PricingAnomalyType = 'no_service_type' | 'missing_price' | 'unexpected_fallback'
+
+/**
+ * A 1:1 event whose stored pricing is missing or fell back to the service type default
+ * although the client has a price code for it
+ */
+export interface PricingAnomaly {
+  event_id: number
+  starts_at: string // ISO datetime
+  status: string
+  anomaly: PricingAnomalyType
+  client: {
+    id: number
+    name: string
+  }
+  service_type: {
+    id: number
+    code: string
+    name: string
+  } | null
+  staff_name: string | null
+  entry_fee_brutto: number | null
+  trainer_fee_brutto: number | null
+  currency: string | null
+  price_source: string | null
+  pricing_id: number | null
+  expected_price_code: {
+    id: number
+    price_code: string | null
+    entry_fee_brutto: number
+    trainer_fee_brutto: number
+    is_active: boolean
+    valid_from: string | null
+    valid_until: string | null
+  } | null
+}
+
+export interface PricingAnomalyFilters {
+  from: string
+  to: string
+  client_id?: number
+  service_type_id?: number
+}
+
+export interface ResolvePricingAnomaliesResult {
+  updated: {
+    event_id: number
+    entry_fee_brutto: number
+    trainer_fee_brutto: number
+    currency: string
+    price_source: string
+  }[]
+  unchanged: number[]
+  failed: {
+    event_id: number
+    reason: 'no_service_type' | 'locked'
+  }[]
 }
@@ -56,6 +56,32 @@ export interface PublicClassOccurrence {
   room_id: number
 }
 
+// Individual session self-booking (/api/v1/public/service-types, /trainers, /trainers/{id}/slots)
+
+export interface PublicServiceType {
+  id: number
+  code: string
+  name: string
+  description: string | null
+  price_brutto: number
+  session_minutes: number
+}
+
+export interface PublicTrainer {
+  id: number
+  name: string
+  specialization: string | null
+  bio: string | null
+  default_site: string | null
+}
+
+export interface PublicSessionSlot {
+  starts_at: string // ISO 8601
+  ends_at: string
+  room_id: number
+  site: string
+}
+
 // API Request types
 
 export interface PublicClassFilters {
@@ -81,3 +107,16 @@ export interface QuickRegisterResponse {
   }
   token: string
 }
+
+export interface PublicSlotFilters {
+  service_type_id: number
+  from: string // ISO date
+  to: string // ISO date
+}
+
+export interface BookSessionRequest {
+  service_type_id: number
+  staff_id: number
+  starts_at: string
+  notes?: string
+}
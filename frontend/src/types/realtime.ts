@@ -0,0 +1,35 @@
+// Realtime calendar types matching the staff calendar stream (Server-Sent Events)
+
+import type { Event } from './event'
+import type { ClassOccurrence } from './class'
+
+export type CalendarEntityType = 'event' | 'class_occurrence'
+
+export type CalendarUpdateAction = 'created' | 'updated' | 'deleted'
+
+interface CalendarUpdateBase {
+  id: number
+  entity_id: number
+  action: CalendarUpdateAction
+  actor: { id: number; name: string } | null
+  created_at: string
+}
+
+// `item` is the current state as returned by the list endpoints, null for deletions
+export type CalendarUpdate =
+  | (CalendarUpdateBase & { entity_type: 'event'; item: Event | null })
+  | (CalendarUpdateBase & { entity_type: 'class_occurrence'; item: ClassOccurrence | null })
+
+export interface CalendarEditor {
+  entity_type: CalendarEntityType
+  entity_id: number
+  user_id: number
+  user_name: string | null
+}
+
+export interface CalendarEditingTarget {
+  entity_type: CalendarEntityType
+  entity_id: number | string
+}
+
+export type CalendarStreamStatus = 'connecting' | 'live' | 'offline'
@@ -1,102 +1,184 @@
 // Reports module types - Admin, Staff, and Client reporting
 
+import type {
+  AttendanceReport,
+  ClientActivityReport,
+  GroupSessionDetail,
+  IndividualSessionDetail,
+  PayoutReport,
+  RevenueReport,
+  UtilizationReport,
+} from './admin'
+
 // ============================================
 // ADMIN REPORTS
 // ============================================
 
-export interface AttendanceReportData {
-  period: { from: string; to: string }
-  summary: {
-    total_sessions: number
-    total_attended: number
-    total_no_shows: number
-    not_checked_in: number
-    attendance_rate: number
-    no_show_rate: number
-  }
-  by_type: {
-    individual: {
-      total: number
-      attended: number
-      no_shows: number
-    }
-    group_classes: {
-      total: number
-      attended: number
-      no_shows: number
-    }
-  }
+// Itemized reports (/admin/reports/{attendance,payouts,revenue,utilization,clients}) share their
+// shapes with the admin API types; filtered responses echo the applied filters
+interface FilteredReport {
+  filters?: ReportFilterParams
 }
 
-export interface PayoutReportData {
-  period: { from: string; to: string }
-  summary: {
-    total_payout: number
+export type AttendanceReportData = AttendanceReport & FilteredReport
+export type PayoutReportData = PayoutReport & FilteredReport
+// Pass sales are not tied to a trainer, site or room, so only the date range applies
+export type RevenueReportData = RevenueReport
+export type UtilizationReportData = UtilizationReport & FilteredReport
+export type ClientActivityReportData = ClientActivityReport & FilteredReport
+
+// Finance overview (/admin/reports/admin/finance-overview)
+export type FinanceGroupBy = 'day' | 'week' | 'month'
+
+export interface FinanceTotals {
+  total_entry_fee: number
+  total_trainer_fee: number
+  net_income: number
+  total_sessions: number
+}
+
+export interface FinancePeriod extends FinanceTotals {
+  period: string
+  total_hours: number
+  attendance_rate: number
+}
+
+export interface FinanceTrainerTotals extends FinanceTotals {
+  id: number
+  name: string
+}
+
+export interface FinanceSiteTotals extends FinanceTotals {
+  id: number | null
+  name: string
+  trainers: FinanceTrainerTotals[]
+}
+
+export interface FinanceRoomTotals extends FinanceTotals {
+  id: number | null
+  name: string
+  site_name: string
+}
+
+export interface FinanceServiceTypeTotals extends FinanceTotals {
+  // null for group classes
+  id: number | null
+  name: string
+}
+
+export interface FinanceOverviewReport {
+  summary: FinanceTotals & {
     total_hours: number
-    staff_count: number
+    average_attendance_rate: number
     currency: string
   }
-  staff_payouts: StaffPayoutData[]
+  periods: FinancePeriod[]
+  breakdown: {
+    sites: FinanceSiteTotals[]
+    rooms: FinanceRoomTotals[]
+    service_types: FinanceServiceTypeTotals[]
+  }
+  // Totals of the previous period (previous month for a whole month)
+  comparison: FinanceTotals & { from: string; to: string }
+  filters: { from: string; to: string; group_by: FinanceGroupBy }
 }
 
-export interface StaffPayoutData {
-  staff_id: number
+// Trainer summary (/admin/reports/admin/trainer-summary)
+export interface TrainerSummaryBreakdown {
+  id: number | null
   name: string
-  hourly_rate: number
-  individual_hours: number
-  group_hours: number
+  total_trainer_fee: number
+  total_entry_fee: number
   total_hours: number
-  total_earnings: number
+  total_sessions: number
 }
 
-export interface RevenueReportData {
-  period: { from: string; to: string }
+export interface TrainerSummaryRow extends Omit<TrainerSummaryBreakdown, 'id' | 'name'> {
+  trainer_id: number
+  trainer_name: string
+  breakdown: TrainerSummaryBreakdown[]
+}
+
+export interface TrainerSummaryReport {
+  summary: Omit<TrainerSummaryBreakdown, 'id' | 'name'> & { trainer_count: number; currency: string }
+  trainers: TrainerSummaryRow[]
+  filters: {
+    from: string
+    to: string
+    group_by: 'site' | 'room'
+    trainer_id: number | null
+    site_id: number | null
+  }
+}
+
+// Site client list (/admin/reports/admin/site-client-list)
+export interface SiteClientServiceBreakdown {
+  service_type_id: number | null
+  service_type_name: string
+  total_entry_fee_brutto: number
+  total_hours: number
+  total_sessions: number
+}
+
+export interface SiteClientRow {
+  client_id: number
+  client_name: string
+  client_email: string
+  total_entry_fee_brutto: number
+  total_hours: number
+  total_sessions: number
+  services_breakdown: SiteClientServiceBreakdown[]
+}
+
+export interface SiteClientListReport {
   summary: {
-    total_revenue: number
-    total_passes_sold: number
-    average_pass_price: number
+    site_id: number
+    site_name: string
+    total_clients: number
+    total_entry_fee: number
+    total_hours: number
+    total_sessions: number
     currency: string
   }
-  by_status: {
-    active: number
-    expired: number
-    fully_used: number
-  }
+  clients: SiteClientRow[]
+  filters: { from: string; to: string; site_id: number; room_id: number | null }
 }
 
-export interface UtilizationReportData {
-  period: { from: string; to: string }
+// Trainer sessions (/admin/reports/admin/trainer-sessions), the session level of the finance drilldown
+export interface TrainerSessionsReport {
   summary: {
-    total_individual_sessions: number
-    total_group_classes: number
-    total_sessions: number
+    trainer_id: number
+    trainer_name: string
+    site_id: number | null
+    site_name: string | null
+    total_entry_fee: number
+    total_trainer_fee: number
+    individual_count: number
+    group_count: number
+    currency: string
   }
-  staff_utilization: StaffUtilizationData[]
+  individual_sessions: IndividualSessionDetail[]
+  group_sessions: GroupSessionDetail[]
 }
 
-export interface StaffUtilizationData {
-  staff_id: number
-  name: string
-  individual_sessions: number
-  group_classes: number
-  total_sessions: number
+// Room occupancy (/admin/reports/admin/room-occupancy), one cell per ISO weekday (1 = Monday) × hour
+export interface RoomOccupancyCell {
+  weekday: number
+  hour: number
+  booked_minutes: number
+  occupancy_rate: number
 }
 
-export interface ClientActivityReportData {
-  period: { from: string; to: string }
+export interface RoomOccupancyReport {
   summary: {
-    total_active_clients: number
+    room_count: number
+    total_booked_hours: number
+    peak_weekday: number | null
+    peak_hour: number | null
+    peak_occupancy_rate: number
   }
-  clients: ClientActivityData[]
-}
-
-export interface ClientActivityData {
-  client_id: number
-  name: string
-  email: string
-  total_sessions: number
-  attended: number
-  no_shows: number
+  cells: RoomOccupancyCell[]
+  filters: { from: string; to: string; site: number | null; room_id: number | null }
 }
 
 // ============================================
@@ -176,6 +258,34 @@ export interface AttendanceSessionData {
   notes?: string
 }
 
+// Staff trends (/staff/reports/my-trends)
+export type StaffTrendsGranularity = 'week' | 'month'
+
+export interface StaffTrendsPeriod {
+  period: string
+  total_sessions: number
+  total_hours: number
+  total_entry_fee: number
+  total_trainer_fee: number
+  no_show_count: number
+  attended_count: number
+  no_show_ratio: number
+  attendance_rate: number
+}
+
+export interface StaffTrendsReport {
+  summary: {
+    total_sessions: number
+    total_hours: number
+    total_entry_fee: number
+    total_trainer_fee: number
+    average_attendance_rate: number
+    currency: string
+  }
+  periods: StaffTrendsPeriod[]
+  filters: { from: string; to: string; granularity: StaffTrendsGranularity }
+}
+
 // ============================================
 // CLIENT REPORTS
 // ============================================
@@ -204,6 +314,8 @@ export interface ClientSessionHistory {
   credits_used: number
   attendance_status: 'attended' | 'no_show' | null
   notes?: string
+  entry_fee?: number // Amount charged for the session, 0 when paid with a pass credit
+  payment_status?: 'pending' | 'paid' | 'unpaid' | 'comped' | null // Group classes only
 }
 
 export interface ClientPassSummary {
@@ -218,6 +330,35 @@ export interface ClientPassSummary {
   status: 'active' | 'expired' | 'fully_used'
 }
 
+// Client finance (/reports/client/my-finance)
+export interface ClientFinanceMonth {
+  month: string
+  passes_purchased: number
+  amount_spent: number
+  credits_purchased: number
+  credits_used: number
+}
+
+export interface ClientFinanceReport {
+  summary: {
+    total_passes_purchased: number
+    total_amount_spent: number
+    total_credits_purchased: number
+    total_credits_used: number
+    total_session_charges: number
+    currency: string
+  }
+  breakdown: ClientFinanceMonth[]
+  sessions: ClientSessionHistory[]
+  passes: ClientPassSummary[]
+  balance: {
+    charges: number
+    payments: number
+    outstanding: number
+  }
+  filters: { from: string; to: string; group_by: 'month' }
+}
+
 // ============================================
 // EXPORT FORMATS
 // ============================================
@@ -230,6 +371,43 @@ export interface ExportRequest {
   format: ExportFormat
 }
 
+// Itemized admin reports available as queued exports (report key admin.<type>)
+export type AdminExportReportType =
+  | 'attendance'
+  | 'payouts'
+  | 'payouts-per-client'
+  | 'revenue'
+  | 'utilization'
+  | 'clients'
+
+export type ReportExportStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface ReportExportParams {
+  from: string
+  to: string
+  [key: string]: string | number | undefined
+}
+
+export interface CreateReportExportRequest {
+  report_key: string
+  params: ReportExportParams
+  format: ExportFormat
+}
+
+export interface ReportExportJob {
+  export_id: number
+  report_key: string
+  format: ExportFormat | 'json'
+  file_name: string
+  params: ReportExportParams
+  status: ReportExportStatus
+  created_at: string
+  completed_at: string | null
+  download_url: string | null
+  file_size: number | null
+  error_message: string | null
+}
+
 // ============================================
 // FILTER OPTIONS
 // ============================================
@@ -243,6 +421,35 @@ export interface ReportFilters {
   service_type?: 'INDIVIDUAL' | 'GROUP_CLASS'
 }
 
+// Optional filters of the itemized admin reports (everything but the date range)
+export type ReportFilterParams = Omit<ReportFilters, 'date_from' | 'date_to'>
+
+export type ReportServiceType = NonNullable<ReportFilters['service_type']>
+
+// Saved filter presets (/admin/report-presets); a relative range is resolved when applied
+export type ReportPresetRange = 'custom' | 'last_7_days' | 'last_30_days' | 'this_month' | 'last_month'
+
+export interface ReportPresetFilters extends ReportFilterParams {
+  range: ReportPresetRange
+  // Only for a custom range
+  date_from?: string
+  date_to?: string
+}
+
+export interface ReportPreset {
+  id: number
+  user_id: number
+  name: string
+  filters: ReportPresetFilters
+  created_at: string
+  updated_at: string
+}
+
+export interface SaveReportPresetRequest {
+  name: string
+  filters: ReportPresetFilters
+}
+
 export interface TrainerOption {
   id: number
   name: string
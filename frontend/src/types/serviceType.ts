@@ -108,3 +108,58 @@ export interface StaffPriceCodeFormData {
   valid_until?: string | null;
   is_active?: boolean;
 }
+
+/**
+ * How a scheduled price change modifies the current fees
+ */
+export type PriceChangeMode = 'percent' | 'amount';
+
+/**
+ * Future-dated price change of a service type across clients
+ */
+export interface ScheduledPriceChangeRequest {
+  service_type_id: number;
+  effective_from: string;
+  mode: PriceChangeMode;
+  entry_fee_change: number;
+  trainer_fee_change?: number;
+  client_ids?: number[];
+}
+
+/**
+ * A client whose price code would be changed
+ */
+export interface ScheduledPriceChangeRow {
+  client_id: number;
+  client_name: string;
+  price_code_id: number;
+  price_code: string | null;
+  valid_from: string;
+  valid_until: string | null;
+  currency: string;
+  current_entry_fee_brutto: number;
+  current_trainer_fee_brutto: number;
+  new_entry_fee_brutto: number;
+  new_trainer_fee_brutto: number;
+  skip_reason: 'already_scheduled' | null;
+}
+
+export interface ScheduledPriceChangePreview {
+  effective_from: string;
+  clients: ScheduledPriceChangeRow[];
+}
+
+export interface ScheduledPriceChangeResult {
+  created: Array<{
+    client_id: number;
+    client_name: string;
+    price_code_id: number;
+    entry_fee_brutto: number;
+    trainer_fee_brutto: number;
+  }>;
+  skipped: Array<{
+    client_id: number;
+    client_name: string;
+    reason: 'already_scheduled';
+  }>;
+}
@@ -52,3 +52,63 @@ export interface StaffDashboardStats {
   week_sessions: number
   upcoming_session: StaffEvent | null
 }
+
+// Trainer working hours (weekday: ISO 1 = Monday ... 7 = Sunday, times HH:MM)
+export interface WeeklyAvailabilitySlot {
+  id?: number
+  weekday: number
+  start_time: string
+  end_time: string
+}
+
+export type AvailabilityExceptionType = 'vacation' | 'sick' | 'other'
+
+// Absence of a trainer, whole days when start_time / end_time are null
+export interface AvailabilityException {
+  id: number
+  staff_id: number
+  type: AvailabilityExceptionType
+  starts_on: string
+  ends_on: string
+  start_time: string | null
+  end_time: string | null
+  note: string | null
+}
+
+export interface CreateAvailabilityExceptionRequest {
+  type: AvailabilityExceptionType
+  starts_on: string
+  ends_on: string
+  start_time?: string | null
+  end_time?: string | null
+  note?: string | null
+}
+
+export interface StaffAvailability {
+  staff_id: number
+  weekly: WeeklyAvailabilitySlot[]
+  exceptions: AvailabilityException[]
+}
+
+export interface SiteOpeningDay {
+  open: string
+  close: string
+}
+
+export interface AvailabilityCalendarData {
+  trainers: Array<StaffAvailability & { name: string | null }>
+  sites: Array<{
+    site_id: number
+    name: string
+    // null: no opening hours set, null day: closed
+    opening_hours: Record<string, SiteOpeningDay | null> | null
+    room_ids: number[]
+  }>
+}
+
+// Returned in ApiError.errors when an event falls outside working / opening hours
+export interface AvailabilityWarning {
+  code: 'staff_exception' | 'outside_availability' | 'site_closed' | 'outside_opening_hours'
+  type?: AvailabilityExceptionType
+  message: string
+}
@@ -206,7 +206,7 @@ echo -e "${YELLOW}Setting up queue worker...${NC}"
 # Create Supervisor config
 cat > /etc/supervisor/conf.d/functionalfit.conf << SUPEOF
 [program:functionalfit-worker]
-command=php ${INSTALL_DIR}/backend/artisan queue:work --sleep=3 --tries=3
+command=php ${INSTALL_DIR}/backend/artisan queue:work --sleep=3 --tries=3 --queue=default,notifications,gcal-sync,webhooks,reports
 autostart=true
 autorestart=true
 user=www-data